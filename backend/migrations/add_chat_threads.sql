@@ -0,0 +1,49 @@
+-- Migration: Add C1 chat threads
+-- Date: 2025-10-19
+-- Purpose: Persist AI assistant conversations per user so the chat endpoint can replay earlier turns
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS chat_threads (
+    -- Threads started by the chat widget use the id it generated, so the first message creates them
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL for visitors who are not signed in
+    user_id CHARACTER VARYING(128) REFERENCES users(id) ON DELETE CASCADE,
+    -- SHA-256 (hex) of the secret issued to the visitor who started the thread signed out; it is
+    -- needed to continue the thread, or to move it to an account after signing in
+    session_secret_hash CHARACTER(64),
+    title CHARACTER VARYING(200) NOT NULL DEFAULT 'New conversation',
+    -- Running summary of the turns that no longer fit the replay budget
+    summary TEXT,
+    summarized_through TIMESTAMPTZ,
+    last_message_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Databases that created the table before anonymous threads were bound to a secret
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS session_secret_hash CHARACTER(64);
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user_recent ON chat_threads (user_id, last_message_at DESC NULLS LAST);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    thread_id UUID NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+    role CHARACTER VARYING(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    -- Id the chat widget gave the response (or prompt), so it can match its own messages
+    client_message_id CHARACTER VARYING(100),
+    -- Estimated size of the content, used to fit the replay budget
+    token_estimate INTEGER NOT NULL DEFAULT 0,
+    -- e.g. { "source": "generate" } for turns from the UI generation endpoint
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Wall-clock time, so a prompt and its reply saved in one transaction keep their order
+    created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_thread_created ON chat_messages (thread_id, created_at);
+
+COMMENT ON TABLE chat_threads IS 'AI assistant conversations; the chat endpoint replays their messages as context';
+COMMENT ON TABLE chat_messages IS 'Turns of a chat thread in order';
+
+COMMIT;
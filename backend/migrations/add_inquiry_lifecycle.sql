@@ -0,0 +1,53 @@
+-- Migration: Add inquiry activity timeline, SLA timestamps and assignment tracking
+-- Date: 2025-10-19
+-- Purpose: Record who changed what on an inquiry, and when it was first answered and resolved
+
+BEGIN;
+
+ALTER TABLE inquiries
+    ADD COLUMN IF NOT EXISTS priority VARCHAR(20) DEFAULT 'medium',
+    ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS first_response_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS inquiry_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    inquiry_id UUID NOT NULL REFERENCES inquiries(id) ON DELETE CASCADE,
+    -- NULL for system events (submission, auto-assignment)
+    actor_id CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('created', 'status_change', 'priority_change', 'assignment', 'note', 'call', 'email')),
+    from_value TEXT,
+    to_value TEXT,
+    body TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_inquiry_events_inquiry_created ON inquiry_events (inquiry_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_inquiries_assigned_at ON inquiries (assigned_to, assigned_at DESC);
+
+COMMENT ON TABLE inquiry_events IS 'Append-only activity history per inquiry: status/priority changes, assignments, notes, calls and emails';
+COMMENT ON COLUMN inquiries.first_response_at IS 'First call, email or status change away from new';
+COMMENT ON COLUMN inquiries.resolved_at IS 'When the inquiry reached converted/closed; cleared if it is reopened';
+
+-- Backfill: every existing inquiry gets its submission event, and the old single notes value becomes a note
+INSERT INTO inquiry_events (inquiry_id, type, to_value, created_at)
+SELECT i.id, 'created', i.status, i.created_at
+FROM inquiries i
+WHERE NOT EXISTS (SELECT 1 FROM inquiry_events e WHERE e.inquiry_id = i.id AND e.type = 'created');
+
+INSERT INTO inquiry_events (inquiry_id, type, body, created_at)
+SELECT i.id, 'note', i.notes, i.updated_at
+FROM inquiries i
+WHERE i.notes IS NOT NULL AND i.notes <> ''
+  AND NOT EXISTS (SELECT 1 FROM inquiry_events e WHERE e.inquiry_id = i.id AND e.type = 'note');
+
+UPDATE inquiries
+SET assigned_at = COALESCE(assigned_at, updated_at)
+WHERE assigned_to IS NOT NULL;
+
+UPDATE inquiries
+SET resolved_at = COALESCE(resolved_at, updated_at)
+WHERE status IN ('converted', 'closed', 'completed');
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Migration: Add LLM usage metering and response cache
+-- Date: 2025-10-19
+-- Purpose: Log tokens and cost of every C1 call, enforce daily budgets and cache generated UI
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    -- "user:<id>" for signed-in users, "ip:<address>" for visitors; per-client budgets count on it
+    client_key CHARACTER VARYING(200) NOT NULL,
+    -- "anonymous" for visitors
+    user_role CHARACTER VARYING(20) NOT NULL,
+    endpoint CHARACTER VARYING(30) NOT NULL,
+    -- propertySearch, inquiryForm, propertyComparison, chat, extraction, ...
+    use_case CHARACTER VARYING(50) NOT NULL,
+    model CHARACTER VARYING(200) NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    -- The provider did not report usage, so the tokens were estimated from the text
+    usage_estimated BOOLEAN NOT NULL DEFAULT false,
+    outcome CHARACTER VARYING(20) NOT NULL CHECK (outcome IN ('completed', 'cached', 'budget_exceeded', 'failed')),
+    latency_ms INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage (created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_client_created ON llm_usage (client_key, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_role_created ON llm_usage (user_role, created_at);
+
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+    -- SHA-256 of the normalised prompt, context, use case, model and system prompt
+    cache_key CHARACTER(64) PRIMARY KEY,
+    use_case CHARACTER VARYING(50) NOT NULL,
+    model CHARACTER VARYING(200) NOT NULL,
+    response JSONB NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_response_cache_expires ON llm_response_cache (expires_at);
+
+COMMENT ON TABLE llm_usage IS 'One row per C1/LLM request: tokens, cost and outcome, used for budgets and the admin usage page';
+COMMENT ON TABLE llm_response_cache IS 'Generated UI responses reused for identical generate requests until they expire';
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Migration: Record who uploaded each media file
+-- Date: 2025-10-22
+-- Purpose: Let agents delete only their own uploads through DELETE /upload/file (admins may delete any)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS media_uploads (
+    -- The upload's storage path as returned on upload: "<folder>/<upload id>"
+    path CHARACTER VARYING(150) PRIMARY KEY,
+    uploaded_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    media_type CHARACTER VARYING(20) NOT NULL CHECK (media_type IN ('image', 'video', 'document')),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_uploads_uploaded_by ON media_uploads (uploaded_by);
+
+COMMENT ON TABLE media_uploads IS 'Uploaded media paths and their uploader, checked before an upload is deleted';
+
+COMMIT;
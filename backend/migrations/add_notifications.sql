@@ -0,0 +1,59 @@
+-- Migration: Add notifications (in-app inbox, per-user channel preferences, delivery log)
+-- Date: 2025-10-19
+-- Purpose: Tell admins and agents about new inquiries, assignments, pending testimonials and scraper imports
+
+BEGIN;
+
+-- In-app inbox (the admin header bell)
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id CHARACTER VARYING(128) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    link TEXT,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications (user_id) WHERE read_at IS NULL;
+
+-- Per-user channel choices per event, plus an optional outgoing webhook (Slack, Teams, Zapier...)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id CHARACTER VARYING(128) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    -- { "<event>": { "in_app": bool, "email": bool, "webhook": bool } } - missing entries use the defaults
+    channels JSONB NOT NULL DEFAULT '{}'::jsonb,
+    webhook_url TEXT,
+    webhook_secret TEXT,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every message sent on every channel, with retry state for email and webhook
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+    user_id CHARACTER VARYING(128) REFERENCES users(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('in_app', 'email', 'webhook')),
+    recipient TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    last_error TEXT,
+    next_attempt_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due ON notification_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_created ON notification_deliveries (created_at DESC);
+
+COMMENT ON TABLE notifications IS 'In-app notifications per user';
+COMMENT ON TABLE notification_preferences IS 'Which channels each user receives each notification event on';
+COMMENT ON TABLE notification_deliveries IS 'Delivery log for all notification channels; pending rows are retried with backoff';
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Migration: Add points of interest around listings
+-- Date: 2025-10-19
+-- Purpose: Metro stations, restaurants, hospitals, gyms, banks and bus stops imported from
+--          GeoJSON or OpenStreetMap extracts, for "what is nearby" and walk times
+-- Requires: add_property_geolocation.sql (PostGIS and properties.geo_location)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS points_of_interest (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Dataset label given at import; re-importing the same dataset updates its rows
+    source VARCHAR(50) NOT NULL,
+    -- Id within the dataset ("node/123" for OSM, the feature id for GeoJSON)
+    external_id VARCHAR(255) NOT NULL,
+    category VARCHAR(20) NOT NULL CHECK (category IN ('metro', 'restaurant', 'hospital', 'gym', 'bank', 'bus_stop')),
+    name VARCHAR(255) NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+    geo_location GEOGRAPHY(Point, 4326) GENERATED ALWAYS AS (
+        ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+    ) STORED,
+    -- Source attributes kept for reference (opening hours, operator, cuisine, ...)
+    tags JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_of_interest_geo_location ON points_of_interest USING GIST (geo_location);
+CREATE INDEX IF NOT EXISTS idx_points_of_interest_category ON points_of_interest (category);
+
+COMMENT ON TABLE points_of_interest IS 'Places near listings (transit, food, health, fitness, banking), imported in bulk';
+
+COMMIT;
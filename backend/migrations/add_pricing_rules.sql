@@ -0,0 +1,22 @@
+-- Migration: Add admin-editable pricing rules for the budget calculator
+-- Date: 2025-10-19
+-- Purpose: Deposit, maintenance, escalation and tax rules used by quotes; rates come from listing prices
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+    -- deposit_months, maintenance_percent, escalation_percent, gst_percent, sqft_per_seat, ...
+    key CHARACTER VARYING(50) PRIMARY KEY,
+    value NUMERIC(12, 2) NOT NULL CHECK (value >= 0),
+    updated_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Micro-market is the locality part of the location ("Koramangala" of "Koramangala, Bengaluru")
+CREATE INDEX IF NOT EXISTS idx_properties_micro_market
+    ON properties (LOWER(TRIM(SPLIT_PART(location, ',', 1))), property_type)
+    WHERE price > 0 AND area_sqft > 0;
+
+COMMENT ON TABLE pricing_rules IS 'Admin overrides of the quote rules; keys without a row use the defaults in pricingService';
+
+COMMIT;
@@ -0,0 +1,44 @@
+-- Migration: Add indexed geospatial column to properties
+-- Date: 2025-10-19
+-- Purpose: Radius ("within N km") and map-viewport searches with per-result distance
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS geo_location GEOGRAPHY(Point, 4326);
+
+-- coordinates JSONB ({ "lat": .., "lng": .. }) stays the source of truth; geo_location mirrors it
+CREATE OR REPLACE FUNCTION coordinates_to_geography(coords JSONB)
+RETURNS GEOGRAPHY AS $$
+    SELECT CASE
+        WHEN coords->>'lat' ~ '^-?[0-9]+(\.[0-9]+)?$' AND coords->>'lng' ~ '^-?[0-9]+(\.[0-9]+)?$'
+        THEN ST_SetSRID(ST_MakePoint((coords->>'lng')::float8, (coords->>'lat')::float8), 4326)::geography
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION properties_geo_location_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.geo_location := coordinates_to_geography(NEW.coordinates);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_properties_geo_location ON properties;
+CREATE TRIGGER update_properties_geo_location
+    BEFORE INSERT OR UPDATE OF coordinates ON properties
+    FOR EACH ROW
+    EXECUTE FUNCTION properties_geo_location_trigger();
+
+CREATE INDEX IF NOT EXISTS idx_properties_geo_location ON properties USING GIST (geo_location);
+
+-- Backfill existing rows
+UPDATE properties
+SET geo_location = coordinates_to_geography(coordinates)
+WHERE coordinates IS NOT NULL;
+
+COMMENT ON COLUMN properties.geo_location IS 'Point mirrored from coordinates for indexed radius/viewport queries';
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Migration: Transactional, idempotent scraper imports
+-- Date: 2025-10-21
+-- Purpose: Run each /scraper/import as one batch (all-or-nothing, or best-effort with a savepoint
+--          per row), keyed so a retried request replays its result instead of importing twice,
+--          and keep the per-row report. Adds the imported columns the insert used to drop.
+
+BEGIN;
+
+-- Fields scraped listings carry that properties had no column for
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'INR',
+ADD COLUMN IF NOT EXISTS price_period VARCHAR(20),
+ADD COLUMN IF NOT EXISTS area_unit VARCHAR(10) DEFAULT 'sqft',
+ADD COLUMN IF NOT EXISTS contact_info JSONB DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS media JSONB DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS availability JSONB DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS extraction_metadata JSONB;
+
+CREATE TABLE IF NOT EXISTS property_import_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Idempotency-Key header (or one generated for the request), unique per admin
+    idempotency_key VARCHAR(200) NOT NULL,
+    -- SHA-256 of the request body; a key reused for a different body is rejected
+    request_hash CHAR(64) NOT NULL,
+    mode VARCHAR(20) NOT NULL CHECK (mode IN ('atomic', 'best_effort')),
+    -- rolled_back: an atomic batch had a failing row, so nothing was kept; its key can be retried
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'rolled_back')),
+    total INTEGER NOT NULL DEFAULT 0,
+    imported INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    skipped INTEGER NOT NULL DEFAULT 0,
+    -- One entry per submitted row: index, title, source URL, status, property id or error
+    report JSONB NOT NULL DEFAULT '[]'::jsonb,
+    job_id UUID REFERENCES scrape_jobs(id) ON DELETE SET NULL,
+    created_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMPTZ,
+    UNIQUE (created_by, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_import_batches_created ON property_import_batches (created_at DESC);
+
+COMMENT ON TABLE property_import_batches IS 'Scraper import batches: idempotency key, mode, outcome and per-row report';
+COMMENT ON COLUMN properties.contact_info IS 'Listing contact (phone, email, contact_person) from the scraped source';
+COMMENT ON COLUMN properties.extraction_metadata IS 'C1 extraction details (extractedBy, confidence, warnings) for scraped listings';
+
+COMMIT;
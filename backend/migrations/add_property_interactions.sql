@@ -0,0 +1,47 @@
+-- Migration: Add property interaction events and recommendation feedback
+-- Date: 2025-10-19
+-- Purpose: Record views, clicks, saves, contacts and comparisons server-side so recommendations
+--          can use the visitor's history and what other visitors looked at
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS property_interactions (
+    id BIGSERIAL PRIMARY KEY,
+    -- Signed-in visitors have both; anonymous ones only the browser session id
+    user_id CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    session_id CHARACTER VARYING(64),
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('view', 'click', 'save', 'contact', 'compare')),
+    time_spent_seconds INTEGER CHECK (time_spent_seconds >= 0),
+    -- Where it happened: "search_results", "recommendations", "comparison", ...
+    context VARCHAR(100),
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (user_id IS NOT NULL OR session_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_interactions_user ON property_interactions (user_id, occurred_at DESC) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_property_interactions_session ON property_interactions (session_id, occurred_at DESC) WHERE session_id IS NOT NULL;
+-- Co-viewed lookups and popularity go through the property
+CREATE INDEX IF NOT EXISTS idx_property_interactions_property ON property_interactions (property_id, action, occurred_at DESC);
+
+CREATE TABLE IF NOT EXISTS recommendation_feedback (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id CHARACTER VARYING(128) REFERENCES users(id) ON DELETE CASCADE,
+    session_id CHARACTER VARYING(64),
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    feedback VARCHAR(10) NOT NULL CHECK (feedback IN ('like', 'dislike')),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CHECK (user_id IS NOT NULL OR session_id IS NOT NULL)
+);
+
+-- One opinion per property: per account when signed in, else per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recommendation_feedback_user
+    ON recommendation_feedback (user_id, property_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recommendation_feedback_session
+    ON recommendation_feedback (session_id, property_id) WHERE user_id IS NULL;
+
+COMMENT ON TABLE property_interactions IS 'Visitor interactions with listings, the input of the recommender';
+COMMENT ON TABLE recommendation_feedback IS 'Like/dislike given on recommended properties';
+
+COMMIT;
@@ -0,0 +1,48 @@
+-- Migration: Add ordered property media galleries
+-- Date: 2025-10-19
+-- Purpose: One row per photo, video, floor plan, 360° panorama or document, with order, captions, alt text and a cover
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS property_media (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL DEFAULT 'photo'
+        CHECK (kind IN ('photo', 'video', 'floor_plan', 'panorama', 'document')),
+    url TEXT NOT NULL,
+    thumbnail_url TEXT,
+    srcset JSONB,
+    -- Upload folder (see mediaProcessingService); NULL for media hosted elsewhere
+    storage_path TEXT,
+    filename VARCHAR(255),
+    mime_type VARCHAR(100),
+    size BIGINT,
+    width INTEGER,
+    height INTEGER,
+    duration INTEGER,
+    caption VARCHAR(500),
+    alt_text VARCHAR(300),
+    position INTEGER NOT NULL DEFAULT 0,
+    is_cover BOOLEAN NOT NULL DEFAULT false,
+    created_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_media_property_position ON property_media (property_id, position);
+
+-- At most one cover per property
+CREATE UNIQUE INDEX IF NOT EXISTS idx_property_media_cover ON property_media (property_id) WHERE is_cover;
+
+-- Existing image URLs become photos in their current order, the first one the cover
+INSERT INTO property_media (property_id, kind, url, position, is_cover)
+SELECT p.id, 'photo', image.value #>> '{}', image.ordinality - 1, image.ordinality = 1
+FROM properties p
+CROSS JOIN LATERAL jsonb_array_elements(p.images) WITH ORDINALITY AS image(value, ordinality)
+WHERE jsonb_typeof(p.images) = 'array'
+  AND jsonb_typeof(image.value) = 'string'
+  AND NOT EXISTS (SELECT 1 FROM property_media m WHERE m.property_id = p.id);
+
+COMMENT ON TABLE property_media IS 'Ordered property gallery; properties.images mirrors its photos, cover first';
+
+COMMIT;
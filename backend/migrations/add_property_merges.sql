@@ -0,0 +1,48 @@
+-- Migration: Add duplicate detection and property merges
+-- Date: 2025-10-19
+-- Purpose: Flag imported listings that duplicate existing properties, merge duplicates field by
+--          field and keep where every merged record came from
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Candidate lookups by similar title and address
+CREATE INDEX IF NOT EXISTS idx_properties_title_trgm ON properties USING GIN (lower(title) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_properties_address_trgm
+    ON properties USING GIN (lower(COALESCE(address, location, '')) gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS property_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Property that was kept and received the chosen fields
+    target_property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    -- Merged-away property (deleted by the merge, so no foreign key)
+    source_property_id UUID NOT NULL,
+    -- Source URL of the merged-away record, so later imports of it match the kept property
+    source_url TEXT,
+    -- Both records as they were before the merge
+    target_snapshot JSONB NOT NULL,
+    source_snapshot JSONB NOT NULL,
+    -- Field -> 'target' | 'source': which record each merged field was taken from
+    field_sources JSONB NOT NULL DEFAULT '{}'::jsonb,
+    merged_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_merges_target ON property_merges (target_property_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_property_merges_source_url ON property_merges (source_url) WHERE source_url IS NOT NULL;
+
+-- Pairs an admin marked as not duplicates; stored with the smaller id first
+CREATE TABLE IF NOT EXISTS property_duplicate_dismissals (
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    other_property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    dismissed_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (property_id, other_property_id),
+    CHECK (property_id < other_property_id)
+);
+
+COMMENT ON TABLE property_merges IS 'Provenance of merged duplicate properties: snapshots and the record each field came from';
+COMMENT ON TABLE property_duplicate_dismissals IS 'Property pairs reviewed and kept apart despite matching as duplicates';
+
+COMMIT;
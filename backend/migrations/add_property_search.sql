@@ -0,0 +1,169 @@
+-- Migration: Add full-text and fuzzy search support to properties
+-- Date: 2025-10-19
+-- Purpose: Weighted tsvector ranking, trigram typo tolerance and "did you mean" lookups
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Tag assignments (tags are searchable, so the vector must see them)
+CREATE TABLE IF NOT EXISTS property_tag_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    assigned_by CHARACTER VARYING(128) REFERENCES users(id),
+    assigned_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (property_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_tag_assignments_tag_id ON property_tag_assignments (tag_id);
+
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+-- Weights: A = title/location, B = tags, C = amenities, D = description
+CREATE OR REPLACE FUNCTION build_property_search_vector(
+    p_id UUID,
+    p_title TEXT,
+    p_location TEXT,
+    p_amenities JSONB,
+    p_description TEXT
+) RETURNS TSVECTOR AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce(p_title, '') || ' ' || coalesce(p_location, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce((
+            SELECT string_agg(t.name, ' ')
+            FROM property_tag_assignments pta
+            JOIN tags t ON t.id = pta.tag_id
+            WHERE pta.property_id = p_id AND t.is_active = true
+        ), '')), 'B') ||
+        setweight(to_tsvector('english', coalesce((
+            SELECT string_agg(a.value, ' ')
+            FROM jsonb_array_elements_text(
+                CASE WHEN jsonb_typeof(p_amenities) = 'array' THEN p_amenities ELSE '[]'::jsonb END
+            ) AS a(value)
+        ), '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(p_description, '')), 'D');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION properties_search_vector_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := build_property_search_vector(NEW.id, NEW.title, NEW.location, NEW.amenities, NEW.description);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_properties_search_vector ON properties;
+CREATE TRIGGER update_properties_search_vector
+    BEFORE INSERT OR UPDATE OF title, location, amenities, description ON properties
+    FOR EACH ROW
+    EXECUTE FUNCTION properties_search_vector_trigger();
+
+-- Re-index a property when its tags change
+CREATE OR REPLACE FUNCTION property_tag_assignments_search_trigger()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_id UUID;
+BEGIN
+    target_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.property_id ELSE NEW.property_id END;
+
+    UPDATE properties
+    SET search_vector = build_property_search_vector(id, title, location, amenities, description)
+    WHERE id = target_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_property_search_on_tag_change ON property_tag_assignments;
+CREATE TRIGGER update_property_search_on_tag_change
+    AFTER INSERT OR UPDATE OR DELETE ON property_tag_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION property_tag_assignments_search_trigger();
+
+-- Renaming or deactivating a tag re-indexes every property carrying it
+CREATE OR REPLACE FUNCTION tags_search_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE properties
+    SET search_vector = build_property_search_vector(id, title, location, amenities, description)
+    WHERE id IN (SELECT property_id FROM property_tag_assignments WHERE tag_id = NEW.id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_property_search_on_tag_rename ON tags;
+CREATE TRIGGER update_property_search_on_tag_rename
+    AFTER UPDATE OF name, is_active ON tags
+    FOR EACH ROW
+    EXECUTE FUNCTION tags_search_trigger();
+
+CREATE INDEX IF NOT EXISTS idx_properties_search_vector ON properties USING GIN (search_vector);
+
+-- Vocabulary matched with pg_trgm for misspellings ("kormangala" -> "koramangala"), kept as a
+-- table with the number of properties using each word so lookups use the trigram index
+DROP VIEW IF EXISTS property_search_words;
+
+CREATE TABLE IF NOT EXISTS property_search_words (
+    word TEXT PRIMARY KEY,
+    property_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_search_words_trgm ON property_search_words USING GIN (word gin_trgm_ops);
+
+-- Distinct lowercase words (3+ characters) of a property's title, location and city
+CREATE OR REPLACE FUNCTION property_search_word_list(p_title TEXT, p_location TEXT, p_city TEXT)
+RETURNS SETOF TEXT AS $$
+    SELECT DISTINCT lower(w.word)
+    FROM regexp_split_to_table(
+        coalesce(p_title, '') || ' ' || coalesce(p_location, '') || ' ' || coalesce(p_city, ''),
+        '[^[:alnum:]]+'
+    ) AS w(word)
+    WHERE length(w.word) >= 3
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION property_search_words_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE property_search_words w
+        SET property_count = w.property_count - 1
+        FROM property_search_word_list(OLD.title, OLD.location, OLD.city) AS old_words(word)
+        WHERE w.word = old_words.word;
+
+        DELETE FROM property_search_words
+        WHERE property_count <= 0
+          AND word IN (SELECT property_search_word_list(OLD.title, OLD.location, OLD.city));
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        INSERT INTO property_search_words (word, property_count)
+        SELECT word, 1 FROM property_search_word_list(NEW.title, NEW.location, NEW.city) AS new_words(word)
+        ON CONFLICT (word) DO UPDATE SET property_count = property_search_words.property_count + 1;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_property_search_words ON properties;
+CREATE TRIGGER update_property_search_words
+    AFTER INSERT OR DELETE OR UPDATE OF title, location, city ON properties
+    FOR EACH ROW
+    EXECUTE FUNCTION property_search_words_trigger();
+
+-- Backfill existing rows
+UPDATE properties
+SET search_vector = build_property_search_vector(id, title, location, amenities, description);
+
+TRUNCATE property_search_words;
+INSERT INTO property_search_words (word, property_count)
+SELECT w.word, COUNT(*)
+FROM properties p, property_search_word_list(p.title, p.location, p.city) AS w(word)
+GROUP BY w.word;
+
+COMMENT ON COLUMN properties.search_vector IS 'Weighted full-text document (title/location, tags, amenities, description)';
+COMMENT ON TABLE property_search_words IS 'Words from property titles and locations with how many properties use them, for search spelling suggestions';
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- Migration: Record which portal adapter imported a property
+-- Date: 2025-10-20
+-- Purpose: Scrapes now run through a source adapter per listing portal (MagicBricks, 99acres,
+--          NoBroker, Housing.com, myHQ, Coworker); keep which one read each imported listing
+
+BEGIN;
+
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS source_adapter VARCHAR(30);
+
+-- Earlier imports all came through the MagicBricks-only scraper or a pasted URL
+UPDATE properties
+SET source_adapter = CASE
+    WHEN source_url ~* '^https?://([a-z0-9-]+\.)*magicbricks\.com' THEN 'magicbricks'
+    WHEN source_url ~* '^https?://([a-z0-9-]+\.)*99acres\.com' THEN '99acres'
+    WHEN source_url ~* '^https?://([a-z0-9-]+\.)*nobroker\.in' THEN 'nobroker'
+    WHEN source_url ~* '^https?://([a-z0-9-]+\.)*housing\.com' THEN 'housing'
+    WHEN source_url ~* '^https?://([a-z0-9-]+\.)*myhq\.in' THEN 'myhq'
+    WHEN source_url ~* '^https?://([a-z0-9-]+\.)*coworker\.com' THEN 'coworker'
+    ELSE 'generic'
+END
+WHERE source_url IS NOT NULL AND source_adapter IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_properties_source_adapter ON properties (source_adapter) WHERE source_adapter IS NOT NULL;
+
+COMMENT ON COLUMN properties.source_adapter IS 'Listing portal adapter that imported the property (magicbricks, 99acres, nobroker, housing, myhq, coworker, generic)';
+
+COMMIT;
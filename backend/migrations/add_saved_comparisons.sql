@@ -0,0 +1,27 @@
+-- Migration: Add saved property comparisons
+-- Date: 2025-10-19
+-- Purpose: Keep a comparison's properties, criterion weights and preferences behind a share link
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS saved_comparisons (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Unguessable token used in /compare/:shareId links
+    share_id CHARACTER VARYING(32) NOT NULL UNIQUE,
+    -- Null for comparisons shared without signing in
+    user_id CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    title CHARACTER VARYING(200),
+    property_ids UUID[] NOT NULL CHECK (cardinality(property_ids) BETWEEN 2 AND 4),
+    weights JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Size range, amenities, points of interest and move-in date the scores were computed with
+    preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_comparisons_user_created ON saved_comparisons (user_id, created_at DESC);
+
+COMMENT ON TABLE saved_comparisons IS 'Property comparisons with their scoring weights, opened through a share link';
+
+COMMIT;
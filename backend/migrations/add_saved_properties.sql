@@ -0,0 +1,21 @@
+-- Migration: Add saved properties (favourites) per user
+-- Date: 2025-10-19
+-- Purpose: Persist favourites server-side so they follow the account across devices
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS saved_properties (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id CHARACTER VARYING(128) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, property_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_properties_user_created ON saved_properties (user_id, created_at DESC);
+
+COMMENT ON TABLE saved_properties IS 'Properties a user has favourited, with optional private notes';
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- Migration: Add saved searches and new-match alerts
+-- Date: 2025-10-19
+-- Purpose: Let users save a listing search and be alerted (in-app and by email digest) about new matches
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id CHARACTER VARYING(128) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name CHARACTER VARYING(100) NOT NULL,
+    -- Listing API query parameters (q, location, minPrice, amenities, ...), replayed as-is
+    query JSONB NOT NULL DEFAULT '{}'::jsonb,
+    alerts_enabled BOOLEAN NOT NULL DEFAULT true,
+    email_digest BOOLEAN NOT NULL DEFAULT true,
+    last_alerted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches (user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts_enabled ON saved_searches (alerts_enabled) WHERE alerts_enabled = true;
+
+-- In-app inbox; one entry per (saved search, property) so re-listing never alerts twice
+CREATE TABLE IF NOT EXISTS search_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    user_id CHARACTER VARYING(128) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    reason CHARACTER VARYING(20) NOT NULL CHECK (reason IN ('new', 'available')),
+    read_at TIMESTAMPTZ,
+    emailed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (saved_search_id, property_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_alerts_user_created ON search_alerts (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_search_alerts_pending_email ON search_alerts (user_id) WHERE emailed_at IS NULL;
+
+COMMENT ON TABLE saved_searches IS 'Named listing searches a user can re-run and subscribe to';
+COMMENT ON TABLE search_alerts IS 'Properties that newly matched a saved search (in-app inbox and email digest queue)';
+
+COMMIT;
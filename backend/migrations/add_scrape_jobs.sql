@@ -0,0 +1,38 @@
+-- Migration: Add scrape jobs
+-- Date: 2025-10-19
+-- Purpose: Run Firecrawl scrapes and C1 extraction in the background instead of inside the
+--          HTTP request, with progress that survives a page reload, cancellation and retry
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS scrape_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    -- queued -> running (Firecrawl) -> extracting (C1) -> review -> done; or failed / cancelled
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'extracting', 'review', 'done', 'failed', 'cancelled')),
+    -- Scrape request as submitted (directUrl or searchParams, crawl options, presetId, extract)
+    request JSONB NOT NULL,
+    -- Whose C1 token budget the extraction is charged to (user id, role, client key)
+    llm_caller JSONB NOT NULL,
+    source_url TEXT,
+    progress SMALLINT NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    stage_message VARCHAR(255),
+    -- Scrape output (data, metadata, rawFirecrawlData); kept on retry so extraction can resume
+    result JSONB,
+    -- C1 extraction output (properties, uiSpec, metadata)
+    extraction JSONB,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_queued ON scrape_jobs (created_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_created ON scrape_jobs (created_at DESC);
+
+COMMENT ON TABLE scrape_jobs IS 'Background scrape and extraction jobs; progress is streamed to the admin scraper page';
+
+COMMIT;
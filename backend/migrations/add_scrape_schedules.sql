@@ -0,0 +1,74 @@
+-- Migration: Add scrape schedules and change review
+-- Date: 2025-10-19
+-- Purpose: Re-run saved scraper searches on a cron schedule, compare the listings with
+--          imported properties by source_url and queue each difference for admin review
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS scrape_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    preset_id UUID NOT NULL REFERENCES search_presets(id) ON DELETE CASCADE,
+    created_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    -- Five-field cron expression (or @daily, @weekly, ...), evaluated in UTC
+    cron VARCHAR(100) NOT NULL,
+    -- Pages to crawl from the search URL (1 = scrape the first page only)
+    max_pages SMALLINT NOT NULL DEFAULT 1 CHECK (max_pages BETWEEN 1 AND 10),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    next_run_at TIMESTAMPTZ,
+    last_run_at TIMESTAMPTZ,
+    last_status VARCHAR(20) CHECK (last_status IN ('completed', 'failed')),
+    last_error TEXT,
+    -- Listing URLs seen by the latest successful run; absent next time means disappeared
+    last_seen_urls TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_schedules_due ON scrape_schedules (next_run_at) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_scrape_schedules_preset ON scrape_schedules (preset_id);
+
+CREATE TABLE IF NOT EXISTS scrape_schedule_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    schedule_id UUID NOT NULL REFERENCES scrape_schedules(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    listings_found INTEGER NOT NULL DEFAULT 0,
+    new_count INTEGER NOT NULL DEFAULT 0,
+    changed_count INTEGER NOT NULL DEFAULT 0,
+    disappeared_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_schedule_runs_schedule ON scrape_schedule_runs (schedule_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS scrape_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    schedule_id UUID NOT NULL REFERENCES scrape_schedules(id) ON DELETE CASCADE,
+    run_id UUID REFERENCES scrape_schedule_runs(id) ON DELETE SET NULL,
+    -- new: not imported yet; changed: price/area/availability differ; disappeared: no longer listed
+    change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('new', 'changed', 'disappeared')),
+    source_url TEXT NOT NULL,
+    -- Imported property the change applies to (none for new listings)
+    property_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+    -- Listing as scraped (new and changed)
+    listing JSONB,
+    -- Field differences: { "price": { "from": 50000, "to": 55000 }, ... }
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'dismissed')),
+    reviewed_by CHARACTER VARYING(128) REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One pending change per listing and kind; a later run refreshes it instead of adding another
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_changes_pending
+    ON scrape_changes (source_url, change_type) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scrape_changes_status ON scrape_changes (status, created_at DESC);
+
+COMMENT ON TABLE scrape_schedules IS 'Saved scraper searches re-run on a cron schedule';
+COMMENT ON TABLE scrape_schedule_runs IS 'One row per scheduled scrape run with its change counts';
+COMMENT ON TABLE scrape_changes IS 'Review queue of listing differences found by scheduled scrapes';
+
+COMMIT;
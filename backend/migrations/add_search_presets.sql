@@ -0,0 +1,29 @@
+-- Migration: Add scraper search presets
+-- Date: 2025-10-19
+-- Purpose: Store named MagicBricks search parameter sets per admin, optionally shared, with last-run stats
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS search_presets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id CHARACTER VARYING(128) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name CHARACTER VARYING(100) NOT NULL,
+    description TEXT,
+    -- Scraper search parameters (location, propertyType, minPrice, amenities, ...), replayed as-is
+    search_params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Visible to (and runnable by) every admin; only the owner can change or delete it
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    run_count INTEGER NOT NULL DEFAULT 0,
+    last_run_at TIMESTAMPTZ,
+    last_result_count INTEGER,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Names are unique per owner, so "save" with an existing name can offer to overwrite
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_presets_user_name ON search_presets (user_id, LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_search_presets_shared ON search_presets (is_shared) WHERE is_shared = true;
+
+COMMENT ON TABLE search_presets IS 'Saved scraper search parameters per admin, optionally shared with other admins';
+
+COMMIT;
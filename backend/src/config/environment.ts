@@ -25,6 +25,17 @@ const BackendEnvSchema = z.object({
   GCS_PROJECT_ID: z.string().min(1),
   GCS_KEY_FILE_PATH: z.string().min(1),
   
+  // Uploaded media: "gcs" stores objects in STORAGE_BUCKET, "local" writes them under
+  // STORAGE_LOCAL_DIR and serves them from /uploads (no cloud access needed)
+  STORAGE_DRIVER: z.enum(['gcs', 'local']).default('gcs'),
+  STORAGE_BUCKET: z.string().min(1).default('gentle-space-property-media'),
+  STORAGE_LOCAL_DIR: z.string().min(1).default('uploads'),
+  // Public URL prefix of locally stored files (defaults to this server's /uploads)
+  STORAGE_PUBLIC_BASE_URL: z.string().url().optional(),
+  // Video posters and durations need ffmpeg/ffprobe; without them videos are stored as uploaded
+  FFMPEG_PATH: z.string().min(1).default('ffmpeg'),
+  FFPROBE_PATH: z.string().min(1).default('ffprobe'),
+  
   // Legacy Supabase Configuration (optional, for compatibility)
   SUPABASE_URL: z.string().url().optional(),
   SUPABASE_ANON_KEY: z.string().min(1).optional(),
@@ -41,6 +52,51 @@ const BackendEnvSchema = z.object({
   // Firecrawl API Configuration (optional - allows app to run without scraping functionality)
   FIRECRAWL_API_KEY: z.string().startsWith('fc-').optional(),
   
+  // Outgoing mail (saved search digests). Built-in transports: "log" writes messages to the
+  // logger, "smtp" relays through SMTP_HOST:SMTP_PORT without auth/TLS (e.g. a local MailHog)
+  MAIL_TRANSPORT: z.string().min(1).default('log'),
+  MAIL_FROM: z.string().default('Gentle Space Realty <no-reply@gentlespacerealty.com>'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(65535)).default('1025'),
+  APP_BASE_URL: z.string().url().default('http://localhost:5175'),
+  SEARCH_ALERT_DIGEST_INTERVAL_MINUTES: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(0)).default('60'),
+  
+  // Inquiries: how new website inquiries are handed to agents ("off" leaves them unassigned)
+  INQUIRY_ASSIGNMENT_STRATEGY: z.enum(['round_robin', 'load_balanced', 'off']).default('load_balanced'),
+  
+  // Notifications: how often failed email/webhook deliveries are retried (0 disables the worker)
+  NOTIFICATION_RETRY_INTERVAL_SECONDS: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(0)).default('60'),
+  
+  // Scraper: how often this instance looks for queued scrape jobs (0 disables the worker here)
+  SCRAPE_JOB_POLL_INTERVAL_SECONDS: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(0)).default('5'),
+  // Scraper: how often due scheduled scrapes are looked for (0 disables scheduled scrapes here)
+  SCRAPE_SCHEDULE_CHECK_INTERVAL_MINUTES: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(0)).default('5'),
+  
+  // C1 chat threads: estimated tokens of earlier turns replayed with each message. Older turns are
+  // folded into a running summary by C1_SUMMARY_MODEL when set, otherwise left out
+  C1_HISTORY_TOKEN_BUDGET: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(0)).default('6000'),
+  C1_SUMMARY_MODEL: z.string().min(1).optional(),
+  // How long an identical C1 generate request is answered from the cache (0 disables caching)
+  C1_CACHE_TTL_SECONDS: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(0)).default('3600'),
+  
+  // LLM usage: tokens all callers together may use per UTC day (0 = unlimited). Per-user and
+  // per-role budgets are in llmUsageService
+  LLM_DAILY_TOKEN_BUDGET: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(0)).default('0'),
+  // USD per million input:output tokens by model, "*" for any other, e.g. "c1/anthropic/claude-sonnet-4/v-20250815=3:15,*=3:15"
+  LLM_MODEL_PRICING: z.string().default('*=3:15'),
+  
+  // Rate limiting ("false" turns every limiter into a pass-through)
+  RATE_LIMIT_ENABLED: z.enum(['true', 'false']).transform(val => val === 'true').default('true'),
+  // App-wide ceiling per client; route limiters (auth, submissions, C1) apply on top
+  RATE_LIMIT_MAX_REQUESTS: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1)).default('1000'),
+  RATE_LIMIT_WINDOW_MS: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1000)).default('900000'),
+  // Redis (or compatible) server shared by every API instance for rate limit counters, e.g.
+  // "redis://localhost:6379"; without it each instance counts in its own memory
+  REDIS_URL: z.string().url().optional(),
+  // Express "trust proxy" setting, so limits key on the client IP behind a load balancer
+  // (hop count such as "1", or a subnet list such as "loopback, uniquelocal")
+  TRUST_PROXY: z.string().default('loopback'),
+  
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info')
 });
@@ -71,6 +127,13 @@ export function validateBackendEnvironment(env: Record<string, string | undefine
       GCS_PROJECT_ID: env.GCS_PROJECT_ID,
       GCS_KEY_FILE_PATH: env.GCS_KEY_FILE_PATH,
       
+      STORAGE_DRIVER: env.STORAGE_DRIVER || 'gcs',
+      STORAGE_BUCKET: env.STORAGE_BUCKET || 'gentle-space-property-media',
+      STORAGE_LOCAL_DIR: env.STORAGE_LOCAL_DIR || 'uploads',
+      STORAGE_PUBLIC_BASE_URL: env.STORAGE_PUBLIC_BASE_URL || undefined,
+      FFMPEG_PATH: env.FFMPEG_PATH || 'ffmpeg',
+      FFPROBE_PATH: env.FFPROBE_PATH || 'ffprobe',
+      
       // Legacy Supabase Configuration (optional)
       SUPABASE_URL: env.SUPABASE_URL,
       SUPABASE_ANON_KEY: env.SUPABASE_ANON_KEY,
@@ -86,6 +149,34 @@ export function validateBackendEnvironment(env: Record<string, string | undefine
       // Firecrawl API Configuration (optional)
       FIRECRAWL_API_KEY: env.FIRECRAWL_API_KEY || undefined,
       
+      // Outgoing mail
+      MAIL_TRANSPORT: env.MAIL_TRANSPORT || 'log',
+      MAIL_FROM: env.MAIL_FROM || 'Gentle Space Realty <no-reply@gentlespacerealty.com>',
+      SMTP_HOST: env.SMTP_HOST || 'localhost',
+      SMTP_PORT: env.SMTP_PORT || '1025',
+      APP_BASE_URL: env.APP_BASE_URL || 'http://localhost:5175',
+      SEARCH_ALERT_DIGEST_INTERVAL_MINUTES: env.SEARCH_ALERT_DIGEST_INTERVAL_MINUTES || '60',
+      
+      INQUIRY_ASSIGNMENT_STRATEGY: env.INQUIRY_ASSIGNMENT_STRATEGY || 'load_balanced',
+      
+      NOTIFICATION_RETRY_INTERVAL_SECONDS: env.NOTIFICATION_RETRY_INTERVAL_SECONDS || '60',
+      
+      SCRAPE_JOB_POLL_INTERVAL_SECONDS: env.SCRAPE_JOB_POLL_INTERVAL_SECONDS || '5',
+      SCRAPE_SCHEDULE_CHECK_INTERVAL_MINUTES: env.SCRAPE_SCHEDULE_CHECK_INTERVAL_MINUTES || '5',
+      
+      C1_HISTORY_TOKEN_BUDGET: env.C1_HISTORY_TOKEN_BUDGET || '6000',
+      C1_SUMMARY_MODEL: env.C1_SUMMARY_MODEL || undefined,
+      C1_CACHE_TTL_SECONDS: env.C1_CACHE_TTL_SECONDS || '3600',
+      
+      LLM_DAILY_TOKEN_BUDGET: env.LLM_DAILY_TOKEN_BUDGET || '0',
+      LLM_MODEL_PRICING: env.LLM_MODEL_PRICING || '*=3:15',
+      
+      RATE_LIMIT_ENABLED: env.RATE_LIMIT_ENABLED || 'true',
+      RATE_LIMIT_MAX_REQUESTS: env.RATE_LIMIT_MAX_REQUESTS || '1000',
+      RATE_LIMIT_WINDOW_MS: env.RATE_LIMIT_WINDOW_MS || '900000',
+      REDIS_URL: env.REDIS_URL || undefined,
+      TRUST_PROXY: env.TRUST_PROXY || 'loopback',
+      
       LOG_LEVEL: env.LOG_LEVEL || 'info'
     });
 
@@ -1,42 +1,366 @@
 /**
  * Rate Limiting Middleware
- * Currently disabled - provides no-op middleware for API endpoints
+ * Sliding-window request limits keyed by user (when authenticated) or client IP.
+ *
+ * Each limiter approximates a sliding window from two fixed windows: the count in the
+ * current window plus the previous window's count weighted by how much of it still
+ * overlaps. That keeps one counter pair per key instead of a timestamp log.
+ *
+ * Responses carry the IETF draft headers (RateLimit-Policy, RateLimit-Limit,
+ * RateLimit-Remaining, RateLimit-Reset) and Retry-After when a request is rejected.
+ *
+ * Counters live in a pluggable store - in-memory by default, or any Redis-compatible
+ * server through createRedisRateLimitStore(client) + setRateLimitStore() (needed as soon
+ * as more than one API instance runs; server.ts does this when REDIS_URL is set).
  */
 
+import { Request, Response, NextFunction } from 'express';
+import { createApiError } from './errorHandler';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Hits in the current fixed window and the one before it
+ */
+export interface RateLimitWindow {
+  current: number;
+  previous: number;
+  windowStart: number;
+}
+
+export interface RateLimitStore {
+  name: string;
+  /** Count a hit for `key` and return both windows */
+  increment: (key: string, windowMs: number) => Promise<RateLimitWindow>;
+  /** Forget one client key (e.g. "ip:203.0.113.7", "user:abc") across limiters, or everything */
+  reset: (clientKey?: string) => Promise<number>;
+}
+
+/**
+ * Minimal command surface used from a Redis client (ioredis and most Redis-compatible
+ * clients - Valkey, KeyDB, Dragonfly, Upstash - expose these as-is)
+ */
+export interface RedisCompatibleClient {
+  incr: (key: string) => Promise<number>;
+  pexpire: (key: string, milliseconds: number) => Promise<unknown>;
+  get: (key: string) => Promise<string | null>;
+  scan: (cursor: string, matchToken: 'MATCH', pattern: string, countToken: 'COUNT', count: number) => Promise<[string, string[]]>;
+  del: (...keys: string[]) => Promise<number>;
+}
+
+const SCAN_BATCH_SIZE = 500;
+
+const getWindowStart = (now: number, windowMs: number) => Math.floor(now / windowMs) * windowMs;
+
+/**
+ * In-process store - counters are per instance and lost on restart
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const windows = new Map<string, RateLimitWindow & { windowMs: number }>();
+
+  // Drop keys that have been idle for two full windows
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((entry, key) => {
+      if (now - entry.windowStart >= entry.windowMs * 2) {
+        windows.delete(key);
+      }
+    });
+  }, MINUTE);
+  sweep.unref();
+
+  return {
+    name: 'memory',
+
+    increment: async (key, windowMs) => {
+      const windowStart = getWindowStart(Date.now(), windowMs);
+      const entry = windows.get(key);
+
+      let next: RateLimitWindow;
+      if (entry && entry.windowStart === windowStart) {
+        next = { ...entry, current: entry.current + 1 };
+      } else if (entry && entry.windowStart === windowStart - windowMs) {
+        next = { current: 1, previous: entry.current, windowStart };
+      } else {
+        next = { current: 1, previous: 0, windowStart };
+      }
+
+      windows.set(key, { ...next, windowMs });
+      return next;
+    },
+
+    reset: async (clientKey) => {
+      if (!clientKey) {
+        const cleared = windows.size;
+        windows.clear();
+        return cleared;
+      }
+
+      let cleared = 0;
+      windows.forEach((_entry, key) => {
+        if (key.endsWith(`:${clientKey}`)) {
+          windows.delete(key);
+          cleared++;
+        }
+      });
+      return cleared;
+    }
+  };
+};
+
+/**
+ * Shared store on a Redis-compatible server. One key per (limiter, client, window),
+ * expiring after two windows. Example:
+ *
+ *   import Redis from 'ioredis';
+ *   setRateLimitStore(createRedisRateLimitStore(new Redis(process.env.REDIS_URL)));
+ *
+ * Resets walk the keyspace with SCAN rather than KEYS, so they never block the server.
+ */
+export const createRedisRateLimitStore = (client: RedisCompatibleClient, prefix = 'gsr:ratelimit:'): RateLimitStore => ({
+  name: 'redis',
+
+  increment: async (key, windowMs) => {
+    const windowStart = getWindowStart(Date.now(), windowMs);
+    const currentKey = `${prefix}${key}:${windowStart}`;
+
+    const current = await client.incr(currentKey);
+    if (current === 1) {
+      await client.pexpire(currentKey, windowMs * 2);
+    }
+    const previous = parseInt(await client.get(`${prefix}${key}:${windowStart - windowMs}`) || '0', 10);
+
+    return { current, previous, windowStart };
+  },
+
+  reset: async (clientKey) => {
+    const pattern = clientKey ? `${prefix}*:${clientKey}:*` : `${prefix}*`;
+    let cursor = '0';
+    let cleared = 0;
+
+    do {
+      const [nextCursor, keys] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH_SIZE);
+      if (keys.length > 0) {
+        cleared += await client.del(...keys);
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+
+    return cleared;
+  }
+});
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Swap the counter store (call once at startup, before traffic)
+ */
+export const setRateLimitStore = (nextStore: RateLimitStore) => {
+  store = nextStore;
+  logger.info('Rate limit store configured', { store: nextStore.name });
+};
+
+export const getRateLimitStore = () => store;
+
+/**
+ * Clear counters for one client key, or all of them. Returns how many entries were removed.
+ */
+export const resetRateLimits = (clientKey?: string) => store.reset(clientKey);
+
+export interface RateLimitOptions {
+  /** Namespaces the counters, so limiters stacked on one route count separately */
+  name: string;
+  windowMs: number;
+  /** Requests allowed per window - fixed, or decided per request (e.g. by role) */
+  limit: number | ((req: Request) => number);
+  message?: string;
+  skip?: (req: Request) => boolean;
+}
+
+/**
+ * Authenticated users are limited per account, everyone else per IP
+ */
+export const getClientKey = (req: Request) =>
+  req.user?.id ? `user:${req.user.id}` : `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`;
+
+/**
+ * Requests counted against the limit: the current window plus the part of the previous one
+ * that still overlaps the sliding window
+ */
+const getUsedCount = (window: RateLimitWindow, windowMs: number, now: number) =>
+  window.current + window.previous * (1 - (now - window.windowStart) / windowMs);
+
+/**
+ * Build a sliding-window limiter middleware
+ */
+export const createRateLimiter = (options: RateLimitOptions) => {
+  const windowSeconds = Math.ceil(options.windowMs / 1000);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!config.RATE_LIMIT_ENABLED || req.method === 'OPTIONS' || options.skip?.(req)) {
+      return next();
+    }
+
+    const limit = typeof options.limit === 'function' ? options.limit(req) : options.limit;
+    const clientKey = getClientKey(req);
+
+    let window: RateLimitWindow;
+    try {
+      window = await store.increment(`${options.name}:${clientKey}`, options.windowMs);
+    } catch (error: any) {
+      // A broken store must not take the API down - fail open
+      logger.warn('Rate limit store unavailable, allowing request', {
+        requestId: req.requestId,
+        limiter: options.name,
+        store: store.name,
+        error: error.message
+      });
+      return next();
+    }
+
+    const now = Date.now();
+    const elapsed = now - window.windowStart;
+    const used = getUsedCount(window, options.windowMs, now);
+    const remaining = Math.max(0, Math.floor(limit - used));
+    const resetSeconds = Math.max(1, Math.ceil((options.windowMs - elapsed) / 1000));
+
+    res.setHeader('RateLimit-Policy', `${limit};w=${windowSeconds}`);
+    res.setHeader('RateLimit-Limit', limit);
+    res.setHeader('RateLimit-Remaining', remaining);
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (used <= limit) {
+      return next();
+    }
+
+    // When the current window alone is over budget the client waits for the next one;
+    // otherwise until enough of the previous window has slid out
+    const spare = limit - window.current;
+    const retryAfterSeconds = spare <= 0 || window.previous === 0
+      ? resetSeconds
+      : Math.max(1, Math.ceil(((1 - spare / window.previous) * options.windowMs - elapsed) / 1000));
+
+    res.setHeader('Retry-After', retryAfterSeconds);
+
+    logger.warn('Rate limit exceeded', {
+      requestId: req.requestId,
+      limiter: options.name,
+      clientKey,
+      limit,
+      method: req.method,
+      path: req.originalUrl
+    });
+
+    return next(createApiError(
+      options.message || 'Too many requests, please try again later',
+      429,
+      'RATE_LIMIT_EXCEEDED',
+      { limit, windowSeconds, retryAfter: retryAfterSeconds }
+    ));
+  };
+};
+
 /**
- * Rate limiting implementation - COMPLETELY DISABLED
- * All rate limiting functions have been disabled as requested
+ * Count one hit for a client against a limiter's counters outside of its route, e.g. an
+ * inquiry submitted by a C1 tool. Resolves false once the client is over the limit; like the
+ * middleware it allows the hit when limiting is off or the store is unavailable
  */
+export const consumeRateLimit = async (options: RateLimitOptions & { limit: number }, clientKey: string): Promise<boolean> => {
+  if (!config.RATE_LIMIT_ENABLED) {
+    return true;
+  }
+
+  try {
+    const window = await store.increment(`${options.name}:${clientKey}`, options.windowMs);
+    return getUsedCount(window, options.windowMs, Date.now()) <= options.limit;
+  } catch (error: any) {
+    logger.warn('Rate limit store unavailable, allowing request', {
+      limiter: options.name,
+      store: store.name,
+      error: error.message
+    });
+    return true;
+  }
+};
 
 /**
- * Default rate limiting middleware - DISABLED
- * Rate limiting completely disabled for testing and production
+ * Per-role budgets for dynamicRateLimit (requests per 15 minutes)
  */
-export const rateLimitMiddleware = (_req: any, _res: any, next: any) => next(); // Completely disabled
+export const ROLE_RATE_LIMITS: Record<string, number> = {
+  anonymous: 20,
+  user: 60,
+  agent: 150,
+  admin: 500
+};
 
 /**
- * Authentication rate limiting middleware - DISABLED
- * Rate limiting completely disabled as requested
+ * Default rate limiting middleware - app-wide ceiling per client
+ * Health checks are exempt so probes never get throttled
  */
-export const authRateLimit = (_req: any, _res: any, next: any) => next(); // Completely disabled
+export const rateLimitMiddleware = createRateLimiter({
+  name: 'global',
+  windowMs: config.RATE_LIMIT_WINDOW_MS,
+  limit: config.RATE_LIMIT_MAX_REQUESTS,
+  skip: (req) => req.path === '/health' || req.path.startsWith('/api/health') || req.path.startsWith('/api/v1/health')
+});
 
 /**
- * Strict rate limiting middleware - DISABLED
- * Rate limiting completely disabled as requested
+ * Authentication rate limiting middleware - login/register attempts
  */
-export const strictRateLimit = (_req: any, _res: any, next: any) => next(); // Completely disabled
+export const authRateLimit = createRateLimiter({
+  name: 'auth',
+  windowMs: 15 * MINUTE,
+  limit: 20,
+  message: 'Too many authentication attempts, please try again later'
+});
 
 /**
- * Public endpoint rate limiting middleware - DISABLED
- * Rate limiting completely disabled as requested
+ * Strict limits - public submissions (inquiries, testimonials), wherever they come from
  */
-export const publicRateLimit = (_req: any, _res: any, next: any) => next(); // Completely disabled
+export const STRICT_RATE_LIMIT = {
+  name: 'strict',
+  windowMs: 15 * MINUTE,
+  limit: 5,
+  message: 'Too many submissions, please try again later'
+};
 
 /**
- * Dynamic rate limiting based on user role - DISABLED
- * Rate limiting completely disabled as requested
+ * Strict rate limiting middleware - public submissions (inquiries, testimonials)
  */
-export const dynamicRateLimit = (_req: any, _res: any, next: any) => next(); // Completely disabled
+export const strictRateLimit = createRateLimiter(STRICT_RATE_LIMIT);
 
-// Rate limiting is completely disabled
-// TODO: Implement proper rate limiting if needed for production security
\ No newline at end of file
+/**
+ * Saved comparisons - share links are created while browsing, so the budget is looser
+ * than strictRateLimit and counted apart from inquiries and testimonials
+ */
+export const comparisonRateLimit = createRateLimiter({
+  name: 'comparisons',
+  windowMs: 15 * MINUTE,
+  limit: 30,
+  message: 'Too many comparisons saved, please try again later'
+});
+
+/**
+ * Public endpoint rate limiting middleware - anonymous reads
+ */
+export const publicRateLimit = createRateLimiter({
+  name: 'public',
+  windowMs: MINUTE,
+  limit: 100
+});
+
+/**
+ * Dynamic rate limiting based on user role - for expensive endpoints (C1/LLM calls)
+ * Put it after optionalAuth/authMiddleware so the role is known
+ */
+export const dynamicRateLimit = createRateLimiter({
+  name: 'dynamic',
+  windowMs: 15 * MINUTE,
+  limit: (req) => ROLE_RATE_LIMITS[req.user?.role || 'anonymous'] ?? ROLE_RATE_LIMITS.anonymous!,
+  message: 'Request budget for this feature exhausted, please try again later'
+});
@@ -6,6 +6,9 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { createApiError } from './errorHandler';
+import { isValidCron } from '../utils/cron';
+import { PROPERTY_MERGE_FIELDS } from '../utils/duplicateMatching';
+import { SOURCE_PORTALS } from '../services/sourceAdapters';
 
 /**
  * Generic validation middleware factory
@@ -55,6 +58,24 @@ export const validate = (schema: {
   };
 };
 
+/**
+ * Comma-separated list (or repeated `key[]=` params) whose items each match `item`
+ */
+const listOf = (item: Joi.Schema) => Joi.alternatives().try(
+  Joi.array().items(item),
+  Joi.string().custom((value: string, helpers) => {
+    const items = value.split(',').map(v => v.trim()).filter(Boolean);
+    return items.every(v => !item.validate(v).error) ? value : helpers.error('any.invalid');
+  })
+);
+
+/**
+ * Five-field cron expression (or @hourly, @daily, @weekly, @monthly)
+ */
+const cronExpression = Joi.string().max(100).custom((value: string, helpers) =>
+  isValidCron(value) ? value.trim() : helpers.error('any.invalid')
+).messages({ 'any.invalid': '{{#label}} must be a cron expression such as "0 6 * * 1" or @weekly' });
+
 /**
  * Common validation schemas
  */
@@ -106,6 +127,10 @@ export const authSchemas = {
   }
 };
 
+const propertyMediaKinds = ['photo', 'video', 'floor_plan', 'panorama', 'document'];
+// An upload's path as returned on upload: "<folder>/<upload id>"
+const uploadPath = Joi.string().pattern(/^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/).max(150);
+
 /**
  * Property validation schemas
  */
@@ -142,20 +167,94 @@ export const propertySchemas = {
     }).min(1)
   },
 
+  // Replaces the property's tags - an empty list clears them
+  setTags: {
+    body: Joi.object({
+      tagIds: Joi.array().items(Joi.string().uuid()).unique().max(50).required()
+    })
+  },
+
+  mediaParams: Joi.object({
+    id: Joi.string().uuid().required(),
+    mediaId: Joi.string().uuid().required()
+  }),
+
+  // Appends items (as returned by the upload API) to the gallery
+  addMedia: {
+    body: Joi.object({
+      items: Joi.array().items(Joi.object({
+        kind: Joi.string().valid(...propertyMediaKinds).required(),
+        url: Joi.string().uri().required(),
+        thumbnailUrl: Joi.string().uri().optional(),
+        srcset: Joi.object({
+          webp: Joi.string().allow('').optional(),
+          avif: Joi.string().allow('').optional()
+        }).optional(),
+        path: uploadPath.optional(),
+        filename: Joi.string().max(255).optional(),
+        mimeType: Joi.string().max(100).optional(),
+        size: Joi.number().integer().min(0).optional(),
+        width: Joi.number().integer().min(1).optional(),
+        height: Joi.number().integer().min(1).optional(),
+        duration: Joi.number().integer().min(0).optional(),
+        caption: Joi.string().max(500).allow('', null).optional(),
+        altText: Joi.string().max(300).allow('', null).optional(),
+        isCover: Joi.boolean().optional()
+      })).min(1).max(50).required()
+    })
+  },
+
+  updateMedia: {
+    body: Joi.object({
+      kind: Joi.string().valid(...propertyMediaKinds).optional(),
+      caption: Joi.string().max(500).allow('', null).optional(),
+      altText: Joi.string().max(300).allow('', null).optional(),
+      isCover: Joi.boolean().valid(true).optional()
+    }).min(1)
+  },
+
+  // Every media item of the property, in the new order
+  reorderMedia: {
+    body: Joi.object({
+      mediaIds: Joi.array().items(Joi.string().uuid()).unique().min(1).required()
+    })
+  },
+
   search: {
     query: Joi.object({
       q: Joi.string().min(1).max(100).optional(),
       minPrice: Joi.number().min(0).optional(),
       maxPrice: Joi.number().min(0).optional(),
       location: Joi.string().optional(),
+      locations: listOf(Joi.string().max(255)).optional(),
+      locationRadius: Joi.number().positive().max(100).optional(),
+      lat: Joi.number().min(-90).max(90).optional(),
+      lng: Joi.number().min(-180).max(180).optional(),
+      // Map viewport as "south,west,north,east"
+      bounds: Joi.string().pattern(/^-?\d+(\.\d+)?(,-?\d+(\.\d+)?){3}$/).optional(),
+      minSize: Joi.number().min(0).optional(),
+      maxSize: Joi.number().min(0).optional(),
+      amenities: listOf(Joi.string().max(100)).optional(),
+      available: Joi.boolean().optional(),
+      availabilityStatus: Joi.string().valid('available', 'not-available', 'coming-soon', 'under-maintenance').optional(),
+      tags: listOf(Joi.string().uuid()).optional(),
       propertyType: Joi.string().optional(),
       minBedrooms: Joi.number().integer().min(0).optional(),
       maxBedrooms: Joi.number().integer().min(0).optional(),
       minBathrooms: Joi.number().min(0).optional(),
       maxBathrooms: Joi.number().min(0).optional(),
       status: Joi.string().valid('available', 'pending', 'sold').optional(),
-      ...commonSchemas.pagination.describe().keys
+      page: Joi.number().integer().min(1).optional(),
+      limit: Joi.number().integer().min(1).max(100).optional(),
+      sortBy: Joi.string().valid('relevance', 'price', 'area', 'date', 'distance').optional(),
+      sortOrder: Joi.string().valid('asc', 'desc').optional()
     })
+      .and('lat', 'lng')
+      .with('locationRadius', ['lat', 'lng'])
+      // Distance is measured from lat/lng (search centre or chosen landmark)
+      .when(Joi.object({ sortBy: Joi.valid('distance').required() }).unknown(), {
+        then: Joi.object({ lat: Joi.required(), lng: Joi.required() })
+      })
   }
 };
 
@@ -213,10 +312,15 @@ export const inquirySchemas = {
 
   update: {
     body: Joi.object({
+      name: Joi.string().min(2).max(100).optional(),
+      email: Joi.string().email().optional(),
+      phone: Joi.string().pattern(/^[+]?[1-9]\d{1,14}$/).allow('', null).optional(),
+      message: Joi.string().min(10).max(1000).optional(),
       status: Joi.string().valid('new', 'contacted', 'qualified', 'converted', 'closed').optional(),
       priority: Joi.string().valid('low', 'medium', 'high', 'urgent').optional(),
+      // Appended to the inquiry's timeline as a note
       notes: Joi.string().max(1000).optional(),
-      assigned_to: Joi.string().uuid().optional()
+      assigned_to: Joi.string().max(128).optional()
     }).min(1)
   },
 
@@ -229,7 +333,26 @@ export const inquirySchemas = {
 
   assign: {
     body: Joi.object({
-      agentId: Joi.string().uuid().required()
+      // Firebase UID
+      agentId: Joi.string().max(128).required()
+    })
+  },
+
+  // Log customer contact or an internal note on the timeline
+  addEvent: {
+    body: Joi.object({
+      type: Joi.string().valid('note', 'call', 'email').required(),
+      body: Joi.string().max(2000).when('type', {
+        is: 'note',
+        then: Joi.required(),
+        otherwise: Joi.optional().allow('')
+      }),
+      metadata: Joi.object({
+        direction: Joi.string().valid('inbound', 'outbound').optional(),
+        duration_minutes: Joi.number().integer().min(0).max(600).optional(),
+        outcome: Joi.string().max(200).optional(),
+        subject: Joi.string().max(200).optional()
+      }).optional()
     })
   }
 };
@@ -262,6 +385,322 @@ export const userSchemas = {
   }
 };
 
+/**
+ * Saved properties (favourites) validation schemas
+ */
+export const savedPropertySchemas = {
+  propertyParam: Joi.object({
+    propertyId: Joi.string().uuid().required()
+  }),
+
+  save: {
+    body: Joi.object({
+      propertyId: Joi.string().uuid().required(),
+      notes: Joi.string().max(1000).allow('', null).optional()
+    })
+  },
+
+  updateNotes: {
+    body: Joi.object({
+      notes: Joi.string().max(1000).allow('', null).required()
+    })
+  },
+
+  merge: {
+    body: Joi.object({
+      propertyIds: Joi.array().items(Joi.string().uuid()).max(200).required()
+    })
+  }
+};
+
+/**
+ * Saved search and search alert validation schemas
+ */
+export const savedSearchSchemas = {
+  create: {
+    body: Joi.object({
+      name: Joi.string().trim().min(1).max(100).required(),
+      // Same parameters the listing API accepts, so a saved search replays exactly
+      query: propertySchemas.search.query.required(),
+      alerts_enabled: Joi.boolean().optional(),
+      email_digest: Joi.boolean().optional()
+    })
+  },
+
+  update: {
+    body: Joi.object({
+      name: Joi.string().trim().min(1).max(100).optional(),
+      query: propertySchemas.search.query.optional(),
+      alerts_enabled: Joi.boolean().optional(),
+      email_digest: Joi.boolean().optional()
+    }).min(1)
+  },
+
+  alertList: {
+    query: Joi.object({
+      unreadOnly: Joi.boolean().optional(),
+      page: Joi.number().integer().min(1).optional(),
+      limit: Joi.number().integer().min(1).max(100).optional()
+    })
+  },
+
+  markRead: {
+    body: Joi.object({
+      // Omit to mark every alert read
+      ids: Joi.array().items(Joi.string().uuid()).min(1).max(200).optional()
+    })
+  }
+};
+
+/**
+ * AI assistant chat thread schemas
+ */
+export const chatThreadSchemas = {
+  create: {
+    body: Joi.object({
+      title: Joi.string().trim().min(1).max(200).optional()
+    })
+  },
+
+  rename: {
+    params: commonSchemas.uuidParam,
+    body: Joi.object({
+      title: Joi.string().trim().min(1).max(200).required()
+    })
+  }
+};
+
+/**
+ * C1/LLM usage report schemas
+ */
+export const llmUsageSchemas = {
+  report: {
+    query: Joi.object({
+      days: Joi.number().integer().min(1).max(90).optional()
+    })
+  }
+};
+
+/**
+ * Market rates, budget quote and pricing rule schemas
+ */
+export const pricingSchemas = {
+  rates: {
+    query: Joi.object({
+      location: Joi.string().max(100).optional(),
+      category: Joi.string().max(50).optional()
+    })
+  },
+
+  quote: {
+    query: Joi.object({
+      location: Joi.string().max(100).required(),
+      spaceType: Joi.string().valid('office', 'co-working', 'meeting-room').required(),
+      teamSize: Joi.number().integer().min(1).max(1000).required(),
+      duration: Joi.number().integer().min(1).max(120).required()
+    })
+  },
+
+  updateRules: {
+    body: Joi.object({
+      deposit_months: Joi.number().min(0).max(24).optional(),
+      maintenance_percent: Joi.number().min(0).max(100).optional(),
+      escalation_percent: Joi.number().min(0).max(50).optional(),
+      gst_percent: Joi.number().min(0).max(50).optional(),
+      sqft_per_seat: Joi.number().min(20).max(500).optional(),
+      utilities_per_seat: Joi.number().min(0).max(100000).optional(),
+      amenities_per_seat: Joi.number().min(0).max(100000).optional(),
+      fallback_rate_per_seat: Joi.number().min(0).max(1000000).optional(),
+      min_comparables: Joi.number().integer().min(1).max(50).optional()
+    }).min(1)
+  }
+};
+
+// Anonymous browser session id generated by the frontend
+const sessionId = Joi.string().pattern(/^[A-Za-z0-9_-]{8,64}$/);
+
+/**
+ * Interaction event ingestion and recommendation schemas
+ */
+export const recommendationSchemas = {
+  events: {
+    body: Joi.object({
+      sessionId: sessionId.optional(),
+      events: Joi.array().items(Joi.object({
+        propertyId: Joi.string().uuid().required(),
+        action: Joi.string().valid('view', 'click', 'save', 'contact', 'compare').required(),
+        timeSpent: Joi.number().integer().min(0).max(24 * 60 * 60).optional(),
+        context: Joi.string().max(100).optional(),
+        // Client clocks drift; future times are clamped when stored
+        occurredAt: Joi.date().iso().optional()
+      })).min(1).max(50).required()
+    })
+  },
+
+  list: {
+    query: Joi.object({
+      sessionId: sessionId.optional(),
+      limit: Joi.number().integer().min(1).max(24).optional()
+    })
+  },
+
+  feedback: {
+    body: Joi.object({
+      sessionId: sessionId.optional(),
+      propertyId: Joi.string().uuid().required(),
+      feedback: Joi.string().valid('like', 'dislike').required()
+    })
+  }
+};
+
+const poiCategory = Joi.string().valid('metro', 'restaurant', 'hospital', 'gym', 'bank', 'bus_stop');
+
+// Dataset label for imported points of interest, e.g. "osm-bengaluru"
+const poiSource = Joi.string().pattern(/^[A-Za-z0-9][A-Za-z0-9._-]{0,49}$/);
+
+/**
+ * Points of interest (nearby places) schemas
+ */
+export const poiSchemas = {
+  nearby: {
+    query: Joi.object({
+      propertyIds: listOf(Joi.string().uuid()).required(),
+      radius: Joi.number().integer().min(100).max(5000).optional(),
+      categories: listOf(poiCategory).optional(),
+      perCategory: Joi.number().integer().min(1).max(10).optional()
+    })
+  },
+
+  import: {
+    // Multipart fields sent alongside the file
+    body: Joi.object({
+      source: poiSource.optional(),
+      // Applied to places whose category cannot be told from their tags
+      category: poiCategory.optional()
+    })
+  },
+
+  sourceParam: Joi.object({
+    source: poiSource.required()
+  })
+};
+
+const scoringWeight = Joi.number().min(0).max(5).optional();
+
+/**
+ * Saved, shareable property comparison schemas
+ */
+export const comparisonSchemas = {
+  create: {
+    body: Joi.object({
+      title: Joi.string().trim().max(200).allow('', null).optional(),
+      propertyIds: Joi.array().items(Joi.string().uuid()).unique().min(2).max(4).required(),
+      weights: Joi.object({
+        price: scoringWeight,
+        amenities: scoringWeight,
+        size: scoringWeight,
+        distance: scoringWeight,
+        availability: scoringWeight
+      }).optional(),
+      preferences: Joi.object({
+        minSqft: Joi.number().integer().min(0).optional(),
+        maxSqft: Joi.number().integer().min(0).optional(),
+        amenities: Joi.array().items(Joi.string().trim().max(50)).max(30).optional(),
+        points: Joi.array().items(Joi.object({
+          label: Joi.string().trim().min(1).max(200).required(),
+          lat: Joi.number().min(-90).max(90).required(),
+          lng: Joi.number().min(-180).max(180).required()
+        })).max(5).optional(),
+        moveInBy: Joi.date().iso().optional()
+      }).optional()
+    })
+  },
+
+  shareParam: Joi.object({
+    shareId: Joi.string().pattern(/^[A-Za-z0-9_-]{8,32}$/).required()
+  })
+};
+
+const notificationEvents = ['inquiry.created', 'inquiry.assigned', 'testimonial.pending', 'scraper.import_completed'];
+const notificationChannels = ['in_app', 'email', 'webhook'];
+
+/**
+ * Notification inbox, preference and delivery log schemas
+ */
+export const notificationSchemas = {
+  list: {
+    query: Joi.object({
+      unreadOnly: Joi.boolean().optional(),
+      page: Joi.number().integer().min(1).optional(),
+      limit: Joi.number().integer().min(1).max(100).optional()
+    })
+  },
+
+  markRead: {
+    body: Joi.object({
+      // Omit to mark every notification read
+      ids: Joi.array().items(Joi.string().uuid()).min(1).max(200).optional()
+    })
+  },
+
+  updatePreferences: {
+    body: Joi.object({
+      // { "<event>": { "<channel>": bool } } - only the given entries change
+      events: Joi.object().pattern(
+        Joi.string().valid(...notificationEvents),
+        Joi.object().pattern(Joi.string().valid(...notificationChannels), Joi.boolean())
+      ).optional(),
+      webhook_url: Joi.string().uri({ scheme: ['http', 'https'] }).max(2000).allow(null, '').optional(),
+      webhook_secret: Joi.string().min(8).max(200).allow(null, '').optional()
+    }).min(1)
+  },
+
+  deliveryList: {
+    query: Joi.object({
+      status: Joi.string().valid('pending', 'sending', 'sent', 'failed').optional(),
+      channel: Joi.string().valid(...notificationChannels).optional(),
+      event: Joi.string().valid(...notificationEvents).optional(),
+      page: Joi.number().integer().min(1).optional(),
+      limit: Joi.number().integer().min(1).max(100).optional()
+    })
+  }
+};
+
+// Storage folder such as "image" or "properties/<id>/images" - no leading slash or ".."
+const uploadFolder = Joi.string().pattern(/^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/).max(100);
+
+/**
+ * Media upload schemas
+ */
+export const uploadSchemas = {
+  single: {
+    // Multipart fields sent alongside the file
+    body: Joi.object({
+      folder: uploadFolder.optional(),
+      // Accepted for compatibility - every upload gets its own unique folder
+      generateUniqueName: Joi.boolean().optional()
+    })
+  },
+
+  deleteFile: {
+    query: Joi.object({
+      path: uploadPath.required()
+    })
+  }
+};
+
+/**
+ * Rate limit administration schemas
+ */
+export const rateLimitSchemas = {
+  clear: {
+    // Client key as used by the limiters ("ip:<address>" or "user:<id>"); omit to clear everything
+    body: Joi.object({
+      key: Joi.string().pattern(/^(ip|user):.+$/).max(200).optional()
+    })
+  }
+};
+
 /**
  * Scraper validation schemas for property scraping endpoints with dynamic search support
  */
@@ -269,6 +708,7 @@ export const scraperSchemas = {
   // Reusable search parameters sub-schema
   searchParams: Joi.object({
     location: Joi.string().min(2).max(100).optional(),
+    portal: Joi.string().valid(...SOURCE_PORTALS).optional(),
     propertyType: Joi.string().valid('office', 'coworking', 'retail', 'warehouse', 'land').optional(),
     minPrice: Joi.number().positive().optional(),
     maxPrice: Joi.number().positive().optional(),
@@ -287,6 +727,7 @@ export const scraperSchemas = {
       directUrl: Joi.string().uri().optional(),
       searchParams: Joi.object({
         location: Joi.string().min(2).max(100).optional(),
+        portal: Joi.string().valid(...SOURCE_PORTALS).optional(),
         propertyType: Joi.string().valid('office', 'coworking', 'retail', 'warehouse', 'land').optional(),
         minPrice: Joi.number().positive().optional(),
         maxPrice: Joi.number().positive().optional(),
@@ -298,8 +739,11 @@ export const scraperSchemas = {
         sortBy: Joi.string().valid('relevance', 'price-low-to-high', 'price-high-to-low', 'newest').optional(),
         page: Joi.number().integer().min(1).optional()
       }).optional(),
-      useCrawl: Joi.boolean().optional().default(false),
-      maxPages: Joi.number().integer().min(1).max(10).optional().default(1),
+      // Only one page is scraped inside the request; crawls are queued with POST /jobs
+      useCrawl: Joi.boolean().valid(false).optional().default(false)
+        .messages({ 'any.only': 'Crawls run as background jobs - use POST /scraper/jobs' }),
+      maxPages: Joi.number().integer().valid(1).optional().default(1)
+        .messages({ 'any.only': 'Multi-page scrapes run as background jobs - use POST /scraper/jobs' }),
       waitFor: Joi.number().integer().min(0).max(10000).optional(),
       includeTags: Joi.array().items(Joi.string()).optional(),
       excludeTags: Joi.array().items(Joi.string()).optional()
@@ -314,12 +758,59 @@ export const scraperSchemas = {
     })
   },
 
+  // Background scrape job: a scrape request, optionally followed by C1 extraction
+  createJob: {
+    body: Joi.object({
+      directUrl: Joi.string().uri().optional(),
+      searchParams: Joi.object({
+        location: Joi.string().min(2).max(100).optional(),
+        portal: Joi.string().valid(...SOURCE_PORTALS).optional(),
+        propertyType: Joi.string().valid('office', 'coworking', 'retail', 'warehouse', 'land').optional(),
+        minPrice: Joi.number().positive().optional(),
+        maxPrice: Joi.number().positive().optional(),
+        minArea: Joi.number().positive().optional(),
+        maxArea: Joi.number().positive().optional(),
+        furnished: Joi.string().valid('furnished', 'semi-furnished', 'unfurnished').optional(),
+        availability: Joi.string().valid('immediate', 'within-15-days', 'within-30-days', 'after-30-days').optional(),
+        amenities: Joi.array().items(Joi.string()).optional(),
+        sortBy: Joi.string().valid('relevance', 'price-low-to-high', 'price-high-to-low', 'newest').optional(),
+        page: Joi.number().integer().min(1).optional()
+      }).optional(),
+      useCrawl: Joi.boolean().optional(),
+      maxPages: Joi.number().integer().min(1).max(10).optional(),
+      waitFor: Joi.number().integer().min(0).max(10000).optional(),
+      includeTags: Joi.array().items(Joi.string()).optional(),
+      excludeTags: Joi.array().items(Joi.string()).optional(),
+      // Preset being run, to update its last run stats
+      presetId: Joi.string().uuid().optional(),
+      // Run C1 extraction on a scraped page before it goes to review
+      extract: Joi.boolean().optional(),
+      extractionHints: Joi.string().max(1000).optional()
+    }).custom((value, helpers) => {
+      if (!value.directUrl && !value.searchParams) {
+        return helpers.error('object.missing', {
+          message: 'At least one of directUrl or searchParams must be provided'
+        });
+      }
+      return value;
+    })
+  },
+
+  listJobs: {
+    query: Joi.object({
+      status: listOf(Joi.string().valid('queued', 'running', 'extracting', 'review', 'done', 'failed', 'cancelled')).optional(),
+      page: Joi.number().integer().min(1).optional(),
+      limit: Joi.number().integer().min(1).max(100).optional()
+    })
+  },
+
   // Preview endpoint validation
   preview: {
     body: Joi.object({
       directUrl: Joi.string().uri().optional(),
       searchParams: Joi.object({
         location: Joi.string().min(2).max(100).optional(),
+        portal: Joi.string().valid(...SOURCE_PORTALS).optional(),
         propertyType: Joi.string().valid('office', 'coworking', 'retail', 'warehouse', 'land').optional(),
         minPrice: Joi.number().positive().optional(),
         maxPrice: Joi.number().positive().optional(),
@@ -351,6 +842,8 @@ export const scraperSchemas = {
           description: Joi.string().min(10).max(2000).required(),
           location: Joi.string().min(3).max(200).required(),
           sourceUrl: Joi.string().uri().required(),
+          // Portal adapter that read the listing
+          source: Joi.string().valid(...SOURCE_PORTALS).optional(),
           price: Joi.object({
             amount: Joi.number().positive().optional(),
             currency: Joi.string().valid('INR', 'USD', 'EUR').optional(),
@@ -385,12 +878,24 @@ export const scraperSchemas = {
             status: Joi.string().valid('available', 'occupied', 'coming-soon').optional(),
             date: Joi.string().optional()
           }).optional(),
+          coordinates: Joi.object({
+            lat: Joi.number().min(-90).max(90).required(),
+            lng: Joi.number().min(-180).max(180).required()
+          }).optional(),
           scrapedAt: Joi.string().isoDate().optional(),
           searchParams: Joi.object().optional()
         })
       ).min(1).max(50).required(),
       skipValidation: Joi.boolean().optional().default(false),
-      overwriteExisting: Joi.boolean().optional().default(false)
+      overwriteExisting: Joi.boolean().optional().default(false),
+      // Import listings flagged as likely duplicates instead of skipping them
+      importDuplicates: Joi.boolean().optional().default(false),
+      // Scrape job the listings came from, marked done once they are imported
+      jobId: Joi.string().uuid().optional(),
+      // atomic: import all or none; best_effort: every row that can be
+      mode: Joi.string().valid('atomic', 'best_effort').optional().default('best_effort'),
+      // Same as the Idempotency-Key header
+      idempotencyKey: Joi.string().min(1).max(200).optional()
     })
   },
 
@@ -401,6 +906,7 @@ export const scraperSchemas = {
       description: Joi.string().max(500).optional(),
       searchParams: Joi.object({
         location: Joi.string().min(2).max(100).optional(),
+        portal: Joi.string().valid(...SOURCE_PORTALS).optional(),
         propertyType: Joi.string().valid('office', 'coworking', 'retail', 'warehouse', 'land').optional(),
         minPrice: Joi.number().positive().optional(),
         maxPrice: Joi.number().positive().optional(),
@@ -411,15 +917,111 @@ export const scraperSchemas = {
         amenities: Joi.array().items(Joi.string()).optional(),
         sortBy: Joi.string().valid('relevance', 'price-low-to-high', 'price-high-to-low', 'newest').optional(),
         page: Joi.number().integer().min(1).optional()
-      }).required()
+      }).required(),
+      isShared: Joi.boolean().optional()
     })
   },
 
+  // Update (or overwrite) a search preset
+  updatePreset: {
+    body: Joi.object({
+      name: Joi.string().min(3).max(100).optional(),
+      description: Joi.string().max(500).allow('', null).optional(),
+      searchParams: Joi.object({
+        location: Joi.string().min(2).max(100).optional(),
+        portal: Joi.string().valid(...SOURCE_PORTALS).optional(),
+        propertyType: Joi.string().valid('office', 'coworking', 'retail', 'warehouse', 'land').optional(),
+        minPrice: Joi.number().positive().optional(),
+        maxPrice: Joi.number().positive().optional(),
+        minArea: Joi.number().positive().optional(),
+        maxArea: Joi.number().positive().optional(),
+        furnished: Joi.string().valid('furnished', 'semi-furnished', 'unfurnished').optional(),
+        availability: Joi.string().valid('immediate', 'within-15-days', 'within-30-days', 'after-30-days').optional(),
+        amenities: Joi.array().items(Joi.string()).optional(),
+        sortBy: Joi.string().valid('relevance', 'price-low-to-high', 'price-high-to-low', 'newest').optional(),
+        page: Joi.number().integer().min(1).optional()
+      }).optional(),
+      isShared: Joi.boolean().optional()
+    }).min(1)
+  },
+
   // Get presets with pagination
   getPresets: {
     query: Joi.object({
       ...commonSchemas.pagination.describe().keys
     })
+  },
+
+  // Re-run a preset on a cron schedule (UTC)
+  createSchedule: {
+    body: Joi.object({
+      presetId: Joi.string().uuid().required(),
+      cron: cronExpression.required(),
+      maxPages: Joi.number().integer().min(1).max(10).optional(),
+      isActive: Joi.boolean().optional()
+    })
+  },
+
+  updateSchedule: {
+    body: Joi.object({
+      cron: cronExpression.optional(),
+      maxPages: Joi.number().integer().min(1).max(10).optional(),
+      isActive: Joi.boolean().optional()
+    }).min(1)
+  },
+
+  listChanges: {
+    query: Joi.object({
+      status: Joi.string().valid('pending', 'applied', 'dismissed').optional(),
+      scheduleId: Joi.string().uuid().optional(),
+      type: listOf(Joi.string().valid('new', 'changed', 'disappeared')).optional(),
+      page: Joi.number().integer().min(1).optional(),
+      limit: Joi.number().integer().min(1).max(100).optional()
+    })
+  },
+
+  // Scraped listings to look up among existing properties before import
+  checkDuplicates: {
+    body: Joi.object({
+      properties: Joi.array().items(
+        Joi.object({
+          title: Joi.string().allow('').required(),
+          sourceUrl: Joi.string().uri().optional()
+        }).unknown(true)
+      ).min(1).max(100).required()
+    })
+  },
+
+  listDuplicates: {
+    query: Joi.object({
+      limit: Joi.number().integer().min(1).max(100).optional()
+    })
+  },
+
+  dismissDuplicate: {
+    body: Joi.object({
+      propertyId: Joi.string().uuid().required(),
+      otherPropertyId: Joi.string().uuid().invalid(Joi.ref('propertyId')).required()
+    })
+  },
+
+  // Keep one property, taking each listed field from either record, and fold the other into it
+  mergeProperties: {
+    body: Joi.object({
+      targetId: Joi.string().uuid().required(),
+      sourceId: Joi.string().uuid().invalid(Joi.ref('targetId')).required(),
+      fieldSources: Joi.object().pattern(
+        Joi.string().valid(...PROPERTY_MERGE_FIELDS),
+        Joi.string().valid('target', 'source')
+      ).optional()
+    })
+  },
+
+  listMerges: {
+    query: Joi.object({
+      propertyId: Joi.string().uuid().optional(),
+      limit: Joi.number().integer().min(1).max(100).optional()
+    })
   }
 };
 
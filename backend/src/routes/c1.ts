@@ -1,6 +1,34 @@
 import { Router, Request, Response } from 'express';
 import OpenAI from 'openai';
 import { z } from 'zod';
+import { optionalAuth } from '../middleware/authMiddleware';
+import { dynamicRateLimit, getClientKey } from '../middleware/rateLimiter';
+import { DatabaseService } from '../services/cloudSqlService';
+import {
+  CHAT_THREAD_SECRET_HEADER,
+  ChatHistoryMessage,
+  ChatSummarizer,
+  createThreadSecret,
+  hashThreadSecret,
+  loadThreadHistory,
+  saveThreadTurn,
+  threadTitleFromPrompt
+} from '../services/chatThreadService';
+import {
+  PropertyToolContext,
+  completeWithPropertyTools,
+  streamWithPropertyTools
+} from '../services/c1ToolService';
+import {
+  LlmBudgetStatus,
+  LlmMeter,
+  cacheLlmResponse,
+  checkLlmBudget,
+  getCachedLlmResponse,
+  llmCacheKey,
+  startLlmMeter
+} from '../services/llmUsageService';
+import { extractScrapedProperties, getExtractionModel } from '../services/scrapeExtractionService';
 
 const router = Router();
 
@@ -17,7 +45,9 @@ const C1RequestSchema = z.object({
   model: z.string().optional(),
   stream: z.boolean().optional().default(false),
   systemPrompt: z.string().optional(),
-  useCase: z.string().optional()
+  useCase: z.string().optional(),
+  // Continue a chat thread: its earlier turns are sent along and this one is saved to it
+  threadId: z.string().uuid().optional()
 });
 
 // Request validation schema for conversational chat
@@ -67,73 +97,6 @@ const C1TransformScrapeRequestSchema = z.object({
   extractionHints: z.string().optional()
 });
 
-// Zod schema for ScrapedPropertyData validation
-const ScrapedPropertyDataSchema = z.object({
-  // Required fields
-  title: z.string().min(1, "Title is required"),
-  description: z.string().min(1, "Description is required"),
-  location: z.string().min(1, "Location is required"),
-
-  // Optional structured fields
-  price: z.object({
-    amount: z.number().positive("Price amount must be positive"),
-    currency: z.enum(['INR', 'USD', 'EUR'], { errorMap: () => ({ message: "Currency must be INR, USD, or EUR" }) }),
-    period: z.enum(['monthly', 'yearly', 'one-time'], { errorMap: () => ({ message: "Period must be monthly, yearly, or one-time" }) })
-  }).optional(),
-
-  size: z.object({
-    area: z.number().positive("Area must be positive"),
-    unit: z.enum(['sqft', 'seats'], { errorMap: () => ({ message: "Unit must be sqft or seats" }) })
-  }).optional(),
-
-  amenities: z.array(z.string()).optional(),
-
-  features: z.object({
-    furnished: z.boolean().optional(),
-    parking: z.boolean().optional(),
-    wifi: z.boolean().optional(),
-    ac: z.boolean().optional(),
-    security: z.boolean().optional(),
-    cafeteria: z.boolean().optional(),
-    elevator: z.boolean().optional(),
-    powerBackup: z.boolean().optional(),
-    conferenceRoom: z.boolean().optional()
-  }).optional(),
-
-  contact: z.object({
-    phone: z.string().optional(),
-    email: z.string().email("Invalid email format").optional(),
-    contactPerson: z.string().optional()
-  }).optional(),
-
-  media: z.object({
-    images: z.array(z.string().url("Invalid image URL")).optional(),
-    videos: z.array(z.string().url("Invalid video URL")).optional()
-  }).optional(),
-
-  availability: z.object({
-    status: z.enum(['available', 'occupied', 'coming-soon'], { errorMap: () => ({ message: "Status must be available, occupied, or coming-soon" }) }),
-    date: z.string().optional()
-  }).optional(),
-
-  // Metadata fields
-  sourceUrl: z.string().url("Invalid source URL"),
-  scrapedAt: z.string().optional(),
-  searchParams: z.any().optional(),
-  validationErrors: z.array(z.string()).optional(),
-  rawData: z.any().optional(),
-
-  // C1 metadata
-  c1Metadata: z.object({
-    extractedBy: z.enum(['c1', 'firecrawl', 'manual'], { errorMap: () => ({ message: "ExtractedBy must be c1, firecrawl, or manual" }) }),
-    confidence: z.number().min(0).max(1, "Confidence must be between 0 and 1").optional(),
-    extractionWarnings: z.array(z.string()).optional(),
-    processedAt: z.string(),
-    fieldsExtracted: z.array(z.string()),
-    fieldsMissing: z.array(z.string())
-  }).optional()
-});
-
 // System prompts for different use cases
 const getSystemPrompt = (useCase: string = 'propertySearch'): string => {
   const baseContext = `
@@ -151,6 +114,13 @@ Brand Voice:
 - Helpful and informative
 - Focus on understanding customer needs
 - Emphasize quality and trust
+
+Listings:
+- Use the search_properties tool to find properties and get_property_details / check_availability for specifics
+- Only show properties the tools returned - never invent listings, ids, addresses or amenities
+- Give every property card or recommendation a "propertyId" property set to the listing's id, so visitors can open it
+- If nothing matches, say so and suggest widening the search
+- Only call create_inquiry once the visitor has given their name and email and asked to be contacted
 `;
 
   const systemPrompts = {
@@ -160,7 +130,7 @@ Use Case: Property Search UI Generation
 Generate dynamic, responsive UI components for property search results based on user queries.
 
 Guidelines:
-1. Create property cards highlighting relevant features mentioned in the query
+1. Create property cards for the listings the search returned, highlighting features mentioned in the query
 2. Include filtering options that match user intent
 3. Generate comparison tables when multiple properties are requested
 4. Show map integration for location-based queries
@@ -203,118 +173,212 @@ Output format: Generate comparison UI specifications with tables, charts, and in
   return systemPrompts[useCase as keyof typeof systemPrompts] || systemPrompts.propertySearch;
 };
 
-// System prompt for property data extraction from raw Firecrawl data
-const getPropertyExtractionPrompt = (): string => {
-  return `You are an AI assistant specialized in extracting structured property data from raw web scraping results.
-
-TASK: Extract property listing information from raw Firecrawl data (markdown, HTML, JSON formats) and convert it to structured JSON matching the ScrapedPropertyData schema.
-
-PROPERTY SCHEMA (ScrapedPropertyData interface):
-{
-  title: string (required),
-  description: string (required),
-  price?: {
-    amount: number,
-    currency: string,
-    period: 'monthly' | 'yearly' | 'one-time'
-  },
-  location: string (required),
-  size?: {
-    area: number,
-    unit: 'sqft' | 'seats'
-  },
-  amenities?: string[],
-  features?: {
-    furnished?: boolean,
-    parking?: boolean,
-    wifi?: boolean,
-    ac?: boolean,
-    security?: boolean,
-    cafeteria?: boolean,
-    elevator?: boolean,
-    powerBackup?: boolean,
-    conferenceRoom?: boolean
-  },
-  contact?: {
-    phone?: string,
-    email?: string,
-    contactPerson?: string
-  },
-  media?: {
-    images?: string[],
-    videos?: string[]
-  },
-  availability?: {
-    status: 'available' | 'occupied' | 'coming-soon',
-    date?: string
-  }
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Folds turns that no longer fit the history budget into the thread summary (off unless a model is set)
+const summarizeThread: ChatSummarizer | undefined = process.env.C1_SUMMARY_MODEL
+  ? async (transcript, previousSummary) => {
+      const completion = await c1Client.chat.completions.create({
+        model: process.env.C1_SUMMARY_MODEL as string,
+        messages: [
+          {
+            role: 'system',
+            content: 'Summarise this conversation between a visitor and a real estate assistant in plain text, under 200 words. Keep stated requirements (locations, size, budget, amenities, dates), properties discussed and decisions made.'
+          },
+          {
+            role: 'user',
+            content: previousSummary ? `Summary so far:\n${previousSummary}\n\nLater turns:\n${transcript}` : transcript
+          }
+        ],
+        stream: false,
+        max_tokens: 500,
+        temperature: 0.3
+      });
+      return completion.choices[0]?.message?.content?.trim() || previousSummary || '';
+    }
+  : undefined;
+
+interface ThreadContext {
+  // null when the message is not saved (no thread id, or threads are unavailable)
+  thread: any | null;
+  history: ChatHistoryMessage[];
 }
 
-EXTRACTION GUIDELINES:
-1. REQUIRED FIELDS: title, description, location must always be present
-2. PRICE: Extract amount, determine currency (usually INR), identify period (monthly/yearly)
-3. SIZE: Convert to sqft if possible, use "seats" for coworking spaces
-4. AMENITIES: List as strings (e.g., ["WiFi", "Parking", "AC", "Cafeteria"])
-5. FEATURES: Map to boolean values, infer from descriptions and amenities
-6. CONTACT: Extract phone numbers, emails, contact person names
-7. MEDIA: Include full URLs for images and videos
-8. AVAILABILITY: Determine status and extract availability dates
-
-HANDLING AMBIGUOUS DATA:
-- If price is "Contact for pricing" or similar: omit price object
-- If size is unclear: try to infer from context or omit
-- If location has multiple formats: use most complete address
-- If data is missing: omit optional fields rather than guessing
-- If multiple properties in data: extract each as separate object
-
-OUTPUT FORMAT:
-Return a JSON array of property objects. Each object must follow the ScrapedPropertyData schema exactly.
-Include confidence metadata for each extraction:
-{
-  "properties": [...],
-  "metadata": {
-    "confidence": 0.8,
-    "warnings": ["Price not specified", "Limited contact info"],
-    "fieldsExtracted": ["title", "description", "location", "amenities"],
-    "fieldsMissing": ["price", "size", "contact"]
+/**
+ * Find (or start) the thread a message belongs to and load its earlier turns. A thread started
+ * signed out answers with its secret, which the caller must send back to continue it.
+ * Returns null when the thread belongs to someone else; if threads cannot be loaded the
+ * message is still answered, just without history
+ */
+const openThread = async (req: Request, res: Response, threadId: string | undefined, prompt: string): Promise<ThreadContext | null> => {
+  if (!threadId || !UUID_PATTERN.test(threadId)) {
+    return { thread: null, history: [] };
   }
-}
 
-EXAMPLE OUTPUT:
-{
-  "properties": [
-    {
-      "title": "Premium Office Space in Koramangala",
-      "description": "Fully furnished 2000 sqft office space with modern amenities",
-      "location": "Koramangala, Bangalore",
-      "size": { "area": 2000, "unit": "sqft" },
-      "amenities": ["WiFi", "Parking", "AC", "Security"],
-      "features": {
-        "furnished": true,
-        "parking": true,
-        "wifi": true,
-        "ac": true,
-        "security": true
-      }
+  try {
+    const secret = req.get(CHAT_THREAD_SECRET_HEADER);
+    const newSecret = createThreadSecret();
+    const { data: thread, error } = await DatabaseService.chatThreads.ensure(
+      req.user?.id ?? null,
+      threadId,
+      threadTitleFromPrompt(prompt),
+      secret ? hashThreadSecret(secret) : null,
+      hashThreadSecret(newSecret)
+    );
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') return null;
+      throw new Error(error.message);
+    }
+
+    if (thread.created && !thread.user_id) {
+      res.setHeader(CHAT_THREAD_SECRET_HEADER, newSecret);
     }
-  ],
-  "metadata": {
-    "confidence": 0.85,
-    "warnings": [],
-    "fieldsExtracted": ["title", "description", "location", "size", "amenities", "features"],
-    "fieldsMissing": ["price", "contact", "media"]
+
+    return { thread, history: await loadThreadHistory(thread, summarizeThread) };
+  } catch (error) {
+    console.error('C1 chat thread unavailable:', error instanceof Error ? error.message : error);
+    return { thread: null, history: [] };
   }
-}
+};
+
+/**
+ * Save a prompt and its reply to the thread; the reply has already been sent, so failures are only logged
+ */
+const recordThreadTurn = async (
+  threadContext: ThreadContext | null,
+  prompt: { content: string; clientMessageId?: string },
+  reply: { content: string; clientMessageId?: string },
+  metadata: Record<string, any> = {}
+) => {
+  if (!threadContext?.thread || !reply.content) return;
+
+  try {
+    await saveThreadTurn(threadContext.thread.id, prompt, reply, metadata);
+  } catch (error) {
+    console.error('Failed to save C1 chat turn:', error instanceof Error ? error.message : error);
+  }
+};
+
+const propertyToolContext = (req: Request): PropertyToolContext => ({
+  userId: req.user?.id ?? null,
+  clientKey: getClientKey(req),
+  requestId: req.requestId,
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+const BUDGET_EXCEEDED_MESSAGE = 'Our AI assistant has reached its usage limit for today. You can still browse and filter every listing, or contact us and our team will help you directly.';
+
+/**
+ * Tell the client when it can use the assistant again
+ */
+const setRetryAfter = (res: Response, budget: Exclude<LlmBudgetStatus, { allowed: true }>) => {
+  res.setHeader('Retry-After', Math.max(1, Math.ceil((budget.resetsAt.getTime() - Date.now()) / 1000)));
+};
+
+/**
+ * Over budget, chat gets a plain assistant reply instead of an error, streamed if it asked for a stream
+ */
+const sendBudgetExceededReply = (res: Response, stream: boolean, model: string) => {
+  const id = `budget-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  if (stream) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.write(`data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta: { role: 'assistant', content: BUDGET_EXCEEDED_MESSAGE }, finish_reason: 'stop' }]
+    })}\n\n`);
+    res.write('data: [DONE]\n\n');
+    res.end();
+    return;
+  }
+
+  res.json({
+    id,
+    object: 'chat.completion',
+    created,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: BUDGET_EXCEEDED_MESSAGE }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    degraded: 'budget_exceeded'
+  });
+};
 
-Be thorough but accurate. Only extract data that is clearly present in the source material.`;
+const sendThreadNotFound = (res: Response) => {
+  res.status(404).json({
+    error: 'Chat thread not found',
+    details: 'The thread belongs to another user'
+  });
 };
 
 // POST /api/c1/generate - Generate UI using C1 API
-router.post('/generate', async (req: Request, res: Response): Promise<void> => {
+router.post('/generate', optionalAuth, dynamicRateLimit, async (req: Request, res: Response): Promise<void> => {
+  let meter: LlmMeter | undefined;
   try {
     // Validate request
     const validatedData = C1RequestSchema.parse(req.body);
-    const { prompt, context, model, systemPrompt, useCase, stream } = validatedData;
+    const { prompt, context, model, systemPrompt, useCase, stream, threadId } = validatedData;
+    const resolvedModel = model || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815';
+    meter = startLlmMeter(req, 'generate', useCase || 'propertySearch', resolvedModel);
+
+    // Identical one-off requests are answered from the cache (thread turns depend on their history)
+    const cacheKey = !stream && !threadId
+      ? llmCacheKey({ prompt, context, useCase: useCase || 'propertySearch', model: resolvedModel, systemPrompt })
+      : null;
+    const cached = cacheKey ? await getCachedLlmResponse(cacheKey) : null;
+    if (cached) {
+      res.json({ ...cached, metadata: { ...cached.metadata, cached: true } });
+      await meter.record('cached');
+      return;
+    }
+
+    const budget = await checkLlmBudget(meter.caller);
+    if (!budget.allowed) {
+      setRetryAfter(res, budget);
+      if (stream) {
+        sendBudgetExceededReply(res, true, resolvedModel);
+      } else {
+        res.json({
+          uiSpec: {
+            type: 'component',
+            components: [{
+              id: 'budget-exceeded',
+              type: 'alert',
+              properties: { variant: 'warning', content: BUDGET_EXCEEDED_MESSAGE }
+            }],
+            propertyIds: []
+          },
+          metadata: {
+            model: resolvedModel,
+            tokensUsed: 0,
+            latency: 0,
+            degraded: 'budget_exceeded',
+            retryAt: budget.resetsAt.toISOString()
+          }
+        });
+      }
+      await meter.record('budget_exceeded');
+      return;
+    }
+
+    const threadContext = await openThread(req, res, threadId, prompt);
+    if (!threadContext) {
+      sendThreadNotFound(res);
+      return;
+    }
+
+    // Add context information to user message if provided
+    let userContent = prompt;
+    if (context && Object.keys(context).length > 0) {
+      userContent += `\n\nContext: ${JSON.stringify(context, null, 2)}`;
+    }
 
     // Prepare messages for OpenAI Chat Completions format
     const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
@@ -322,47 +386,44 @@ router.post('/generate', async (req: Request, res: Response): Promise<void> => {
         role: 'system',
         content: systemPrompt || getSystemPrompt(useCase)
       },
+      ...threadContext.history,
       {
         role: 'user',
-        content: prompt
+        content: userContent
       }
     ];
 
-    // Add context information to user message if provided
-    if (context && Object.keys(context).length > 0) {
-      const contextString = `\n\nContext: ${JSON.stringify(context, null, 2)}`;
-      (messages[1] as any).content += contextString;
-    }
-
     if (stream) {
       // Handle streaming response
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       
-      const streamCompletion = await c1Client.chat.completions.create({
-        model: model || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815',
+      // Forward stream to client; property tool calls run in between
+      const { content: reply, outcome } = await streamWithPropertyTools(c1Client, {
+        model: resolvedModel,
         messages,
-        stream: true,
         max_tokens: 4000,
         temperature: 0.7
-      });
-
-      // Forward stream to client
-      for await (const chunk of streamCompletion) {
-        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-      }
+      }, propertyToolContext(req), chunk => res.write(`data: ${JSON.stringify(chunk)}\n\n`));
       res.write('data: [DONE]\n\n');
       res.end();
+
+      await meter.record('completed', outcome.usage, outcome.usageEstimated);
+      await recordThreadTurn(threadContext, { content: prompt }, { content: reply }, {
+        source: 'generate',
+        propertyIds: outcome.propertyIds
+      });
     } else {
-      // Handle non-streaming response (original behavior)
-      const completion = await c1Client.chat.completions.create({
-        model: model || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815',
+      // Handle non-streaming response (original behavior), running property tool calls first
+      const { completion, outcome } = await completeWithPropertyTools(c1Client, {
+        model: resolvedModel,
         messages,
         stream: false,
         max_tokens: 4000,
         temperature: 0.7
-      });
+      }, propertyToolContext(req));
+      await meter.record('completed', outcome.usage, outcome.usageEstimated);
 
       // Extract response content
       const content = completion.choices[0]?.message?.content;
@@ -374,6 +435,11 @@ router.post('/generate', async (req: Request, res: Response): Promise<void> => {
         return;
       }
 
+      await recordThreadTurn(threadContext, { content: prompt }, { content }, {
+        source: 'generate',
+        propertyIds: outcome.propertyIds
+      });
+
       // Try to parse the content as structured UI data
       let uiSpec;
       try {
@@ -423,24 +489,32 @@ router.post('/generate', async (req: Request, res: Response): Promise<void> => {
         };
       }
 
-      // Return C1-compatible response format
-      res.json({
-        uiSpec,
+      // Return C1-compatible response format; the renderer only links properties the tools returned
+      const body = {
+        uiSpec: { ...uiSpec, propertyIds: outcome.propertyIds },
         metadata: {
           model: completion.model,
-          tokensUsed: completion.usage?.total_tokens || 0,
-          latency: 0 // Would need to calculate actual latency
+          tokensUsed: outcome.usage.total_tokens,
+          latency: 0, // Would need to calculate actual latency
+          toolCalls: outcome.toolCalls
         },
         openaiResponse: {
           id: completion.id,
           created: completion.created,
-          usage: completion.usage
+          usage: outcome.usage
         }
-      });
+      };
+      res.json(body);
+
+      // A reply that filed an inquiry must not be replayed to the next visitor
+      if (cacheKey && !outcome.toolCalls.includes('create_inquiry')) {
+        await cacheLlmResponse(cacheKey, useCase || 'propertySearch', resolvedModel, body);
+      }
     }
 
   } catch (error) {
     console.error('C1 API Error:', error);
+    await meter?.record('failed');
     
     if (error instanceof z.ZodError) {
       res.status(400).json({
@@ -469,7 +543,8 @@ router.post('/generate', async (req: Request, res: Response): Promise<void> => {
 });
 
 // POST /api/c1/chat - Conversational chat endpoint for C1Chat component
-router.post('/chat', async (req: Request, res: Response): Promise<void> => {
+router.post('/chat', optionalAuth, dynamicRateLimit, async (req: Request, res: Response): Promise<void> => {
+  let meter: LlmMeter | undefined;
   try {
     // C1Chat endpoint - handles both SDK format and OpenAI format
     
@@ -478,6 +553,9 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
     let stream: boolean;
     let temperature: number | undefined;
     let max_tokens: number | undefined;
+    let threadContext: ThreadContext | null = null;
+    // SDK messages are saved to their thread under the ids the widget gave them
+    let sdkTurn: { prompt: { content: string; clientMessageId: string }; responseId: string } | undefined;
 
     // Try to parse as C1Chat SDK format first
     const sdkResult = C1ChatSDKRequestSchema.safeParse(req.body);
@@ -492,12 +570,20 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
         content = contentMatch[1].trim();
       }
       
-      // Convert SDK format to OpenAI messages format
+      threadContext = await openThread(req, res, options.threadId, content);
+      if (!threadContext) {
+        sendThreadNotFound(res);
+        return;
+      }
+      sdkTurn = { prompt: { content, clientMessageId: prompt.id }, responseId: options.responseId };
+
+      // Convert SDK format to OpenAI messages format, replaying the thread's earlier turns
       messages = [
         {
           role: 'system',
           content: getSystemPrompt('propertySearch')
         },
+        ...threadContext.history,
         {
           role: prompt.role,
           content: content
@@ -515,35 +601,54 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
       ({ messages, model, stream, temperature, max_tokens } = standardResult);
     }
 
+    // The widget's requests use the property search prompt; other callers bring their own
+    const resolvedModel = model || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815';
+    meter = startLlmMeter(req, 'chat', sdkTurn ? 'propertySearch' : 'chat', resolvedModel);
+
+    const budget = await checkLlmBudget(meter.caller);
+    if (!budget.allowed) {
+      setRetryAfter(res, budget);
+      sendBudgetExceededReply(res, stream, resolvedModel);
+      await meter.record('budget_exceeded');
+      return;
+    }
+
     if (stream) {
       // Handle streaming response
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       
-      const streamCompletion = await c1Client.chat.completions.create({
-        model: model || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815',
+      // Forward stream to client; property tool calls run in between
+      const { content: reply, outcome } = await streamWithPropertyTools(c1Client, {
+        model: resolvedModel,
         messages,
-        stream: true,
         max_tokens: max_tokens || 4000,
         temperature: temperature || 0.7
-      });
-
-      // Forward stream to client
-      for await (const chunk of streamCompletion) {
-        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-      }
+      }, propertyToolContext(req), chunk => res.write(`data: ${JSON.stringify(chunk)}\n\n`));
       res.write('data: [DONE]\n\n');
       res.end();
+
+      await meter.record('completed', outcome.usage, outcome.usageEstimated);
+
+      if (sdkTurn) {
+        await recordThreadTurn(
+          threadContext,
+          sdkTurn.prompt,
+          { content: reply, clientMessageId: sdkTurn.responseId },
+          { propertyIds: outcome.propertyIds }
+        );
+      }
     } else {
-      // Handle non-streaming response
-      const completion = await c1Client.chat.completions.create({
-        model: model || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815',
+      // Handle non-streaming response, running property tool calls first
+      const { completion, outcome } = await completeWithPropertyTools(c1Client, {
+        model: resolvedModel,
         messages,
         stream: false,
         max_tokens: max_tokens || 4000,
         temperature: temperature || 0.7
-      });
+      }, propertyToolContext(req));
+      await meter.record('completed', outcome.usage, outcome.usageEstimated);
 
       const content = completion.choices[0]?.message?.content;
       if (!content) {
@@ -554,6 +659,15 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
         return;
       }
 
+      if (sdkTurn) {
+        await recordThreadTurn(
+          threadContext,
+          sdkTurn.prompt,
+          { content, clientMessageId: sdkTurn.responseId },
+          { propertyIds: outcome.propertyIds }
+        );
+      }
+
       res.json({
         id: completion.id,
         object: 'chat.completion',
@@ -567,12 +681,15 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
           },
           finish_reason: completion.choices[0]?.finish_reason || 'stop'
         }],
-        usage: completion.usage
+        usage: outcome.usage,
+        // Properties the reply may show
+        property_ids: outcome.propertyIds
       });
     }
 
   } catch (error) {
     console.error('C1 Chat API Error:', error);
+    await meter?.record('failed');
     
     if (error instanceof z.ZodError) {
       res.status(400).json({
@@ -601,279 +718,41 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
 });
 
 // POST /api/c1/transform-scrape - Transform raw Firecrawl data to structured properties
-router.post('/transform-scrape', async (req: Request, res: Response): Promise<void> => {
+router.post('/transform-scrape', optionalAuth, dynamicRateLimit, async (req: Request, res: Response): Promise<void> => {
   try {
-    const startTime = Date.now();
-    
     // Validate request
     const validatedData = C1TransformScrapeRequestSchema.parse(req.body);
-    const { rawFirecrawlData, sourceUrl, searchParams, extractionHints } = validatedData;
+    const meter = startLlmMeter(req, 'transform-scrape', 'extraction', getExtractionModel());
 
-    // Determine extraction method based on raw data structure
-    let extractionMethod = 'mixed';
-    let dataForExtraction = '';
-    
-    if (typeof rawFirecrawlData === 'string') {
-      dataForExtraction = rawFirecrawlData;
-      extractionMethod = rawFirecrawlData.includes('<html') ? 'html' : 'markdown';
-    } else if (rawFirecrawlData && typeof rawFirecrawlData === 'object') {
-      // Handle structured Firecrawl response
-      if (rawFirecrawlData.markdown) {
-        dataForExtraction = rawFirecrawlData.markdown;
-        extractionMethod = 'markdown';
-      } else if (rawFirecrawlData.html) {
-        dataForExtraction = rawFirecrawlData.html;
-        extractionMethod = 'html';
-      } else if (rawFirecrawlData.structuredData || rawFirecrawlData.extractedData) {
-        dataForExtraction = JSON.stringify(rawFirecrawlData.structuredData || rawFirecrawlData.extractedData);
-        extractionMethod = 'json';
-      } else {
-        // Try to use the entire raw data
-        dataForExtraction = JSON.stringify(rawFirecrawlData);
-        extractionMethod = 'mixed';
-      }
-    } else {
-      dataForExtraction = String(rawFirecrawlData);
-    }
-
-    // Construct the extraction prompt
-    let extractionPrompt = `Extract property data from the following ${extractionMethod} content scraped from: ${sourceUrl}
-
-${extractionHints ? `User hints: ${extractionHints}\n\n` : ''}`;
-
-    if (searchParams) {
-      extractionPrompt += `Original search parameters: ${JSON.stringify(searchParams)}\n\n`;
-    }
-
-    extractionPrompt += `Raw data to process:
-${dataForExtraction}
-
-Please extract all property listings found in this data and format them according to the schema.`;
-
-    // Prepare messages for C1 API
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      {
-        role: 'system',
-        content: getPropertyExtractionPrompt()
-      },
-      {
-        role: 'user',
-        content: extractionPrompt
-      }
-    ];
-
-    // Call C1 API for property extraction
-    const completion = await c1Client.chat.completions.create({
-      model: process.env.C1_EXTRACTION_MODEL || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815',
-      messages,
-      stream: false,
-      max_tokens: parseInt(process.env.C1_EXTRACTION_MAX_TOKENS || '8000'),
-      temperature: parseFloat(process.env.C1_EXTRACTION_TEMPERATURE || '0.3')
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      res.status(500).json({
-        success: false,
-        error: 'No content received from C1 API',
-        properties: [],
-        metadata: {
-          propertiesExtracted: 0,
-          processingTime: Date.now() - startTime,
-          model: completion.model || 'unknown',
-          tokensUsed: completion.usage?.total_tokens || 0,
-          extractionMethod,
-          warnings: ['Empty response from C1 API']
-        }
-      });
-      return;
-    }
+    const { data, error } = await extractScrapedProperties(validatedData, meter);
 
-    // Parse the C1 response
-    let extractedData;
-    try {
-      // DEBUG: Log the raw C1 response content
-      console.log('Raw C1 response content:', JSON.stringify(content.substring(0, 500)) + '...');
-      
-      // Try to extract JSON from the response
-      let jsonContent = content;
-      
-      // First check if it's wrapped in <content> tags (C1 component format)
-      const contentMatch = content.match(/<content>([\s\S]*?)<\/content>/);
-      if (contentMatch && contentMatch[1]) {
-        jsonContent = contentMatch[1].trim();
-        console.log('Found content in <content> tags, length:', jsonContent.length);
-        
-        // Decode HTML entities
-        jsonContent = jsonContent
-          .replace(/&quot;/g, '"')
-          .replace(/&lt;/g, '<')
-          .replace(/&gt;/g, '>')
-          .replace(/&amp;/g, '&');
-        
-        console.log('HTML entities decoded, length:', jsonContent.length);
-      } else {
-        // Look for JSON within code blocks
-        const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-        if (jsonMatch && jsonMatch[1]) {
-          jsonContent = jsonMatch[1];
-          console.log('Found JSON in code block, length:', jsonContent.length);
-        } else {
-          // Try to find JSON-like content
-          const objectMatch = content.match(/\{[\s\S]*\}/);
-          if (objectMatch) {
-            jsonContent = objectMatch[0];
-            console.log('Found JSON-like content, length:', jsonContent.length);
-          } else {
-            console.log('No JSON pattern found, using raw content');
-          }
-        }
+    if (error) {
+      if (error.budget) {
+        setRetryAfter(res, error.budget);
       }
-      
-      console.log('Attempting to parse JSON content:', JSON.stringify(jsonContent.substring(0, 200)) + '...');
-      const parsedContent = JSON.parse(jsonContent);
-      
-      // Check if this is a component response instead of property extraction
-      if (parsedContent.component || parsedContent.components) {
-        console.log('Detected component response, returning UI specifications for frontend rendering');
-        
-        // Return the UI component specifications for frontend rendering
-        // This allows the frontend to display C1-generated UI components
-        extractedData = {
-          properties: [], // No traditional property extraction
-          uiSpec: parsedContent, // Include the UI component specification
-          metadata: {
-            confidence: 0.8, // High confidence for UI generation
-            warnings: [],
-            fieldsExtracted: ['ui-components', 'structured-display'],
-            fieldsMissing: [],
-            extractionMode: 'ui-generation', // Indicate this is UI generation mode
-            componentType: parsedContent.component?.component || 'unknown'
-          }
-        };
-      } else {
-        // Standard property extraction format
-        extractedData = parsedContent;
-      }
-    } catch (parseError) {
-      console.error('Failed to parse C1 response as JSON:', parseError);
-      res.status(500).json({
+      const status = { BUDGET_EXCEEDED: 429, VALIDATION_FAILED: 422, EMPTY_RESPONSE: 500, INVALID_RESPONSE: 500 }[error.code];
+      res.status(status).json({
         success: false,
-        error: 'Failed to parse C1 response as structured data',
+        error: error.message,
+        ...(error.details ? { details: error.details } : {}),
+        ...(error.validationErrors ? { validationErrors: error.validationErrors } : {}),
         properties: [],
-        metadata: {
-          propertiesExtracted: 0,
-          processingTime: Date.now() - startTime,
-          model: completion.model || 'unknown',
-          tokensUsed: completion.usage?.total_tokens || 0,
-          extractionMethod,
-          warnings: ['Invalid JSON response from C1']
-        }
+        metadata: error.metadata
       });
       return;
     }
 
-    // Extract properties and metadata from the response
-    const properties = extractedData.properties || [];
-    const extractionMetadata = extractedData.metadata || {};
-
-    // Add source metadata to each property and validate with Zod
-    const enrichedProperties: any[] = [];
-    const validationErrors: Array<{ index: number; errors: string[] }> = [];
-
-    for (let i = 0; i < properties.length; i++) {
-      const property = properties[i];
-      
-      // Add source metadata
-      const enrichedProperty = {
-        ...property,
-        sourceUrl,
-        scrapedAt: new Date().toISOString(),
-        searchParams: searchParams || undefined,
-        c1Metadata: {
-          extractedBy: 'c1' as const,
-          confidence: extractionMetadata.confidence || 0.5,
-          extractionWarnings: extractionMetadata.warnings || [],
-          processedAt: new Date().toISOString(),
-          fieldsExtracted: extractionMetadata.fieldsExtracted || [],
-          fieldsMissing: extractionMetadata.fieldsMissing || []
-        }
-      };
-
-      // Validate against ScrapedPropertyData schema
-      try {
-        const validatedProperty = ScrapedPropertyDataSchema.parse(enrichedProperty);
-        enrichedProperties.push(validatedProperty);
-      } catch (error) {
-        if (error instanceof z.ZodError) {
-          const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
-          validationErrors.push({
-            index: i,
-            errors: errorMessages
-          });
-        } else {
-          validationErrors.push({
-            index: i,
-            errors: [`Unknown validation error: ${error instanceof Error ? error.message : 'Unknown error'}`]
-          });
-        }
-      }
-    }
-
-    // If there are validation errors, return a structured 422 error
-    if (validationErrors.length > 0) {
-      res.status(422).json({
-        success: false,
-        error: 'Property validation failed',
-        details: 'One or more extracted properties failed validation',
-        validationErrors,
-        properties: [], // No properties returned due to validation failures
-        metadata: {
-          propertiesExtracted: 0,
-          propertiesValidated: enrichedProperties.length,
-          propertiesFailed: validationErrors.length,
-          confidenceScores: {},
-          warnings: [
-            ...extractionMetadata.warnings || [],
-            `${validationErrors.length} properties failed validation`
-          ],
-          processingTime: Date.now() - startTime,
-          model: completion.model || 'unknown',
-          tokensUsed: completion.usage?.total_tokens || 0,
-          extractionMethod: extractionMethod as 'markdown' | 'html' | 'json' | 'mixed'
-        }
-      });
-      return;
-    }
-
-    // Calculate confidence scores if not provided
-    const confidenceScores: Record<string, number> = {};
-    enrichedProperties.forEach((property: any, index: number) => {
-      confidenceScores[index.toString()] = property.c1Metadata?.confidence || 0.5;
-    });
-
-    // Generate transformation metadata
-    const transformMetadata = {
-      propertiesExtracted: enrichedProperties.length,
-      confidenceScores,
-      warnings: extractionMetadata.warnings || [],
-      processingTime: Date.now() - startTime,
-      model: completion.model || 'unknown',
-      tokensUsed: completion.usage?.total_tokens || 0,
-      extractionMethod: extractionMethod as 'markdown' | 'html' | 'json' | 'mixed'
-    };
-
     // Return successful response
     res.json({
       success: true,
-      properties: enrichedProperties,
-      uiSpec: extractedData.uiSpec, // Include UI specifications if available
-      metadata: transformMetadata
+      properties: data.properties,
+      uiSpec: data.uiSpec, // Include UI specifications if available
+      metadata: data.metadata
     });
 
   } catch (error) {
     console.error('C1 Transform Scrape Error:', error);
-    
+
     if (error instanceof z.ZodError) {
       res.status(400).json({
         success: false,
@@ -0,0 +1,45 @@
+/**
+ * C1 Usage Routes
+ * Token and cost report for the AI features (mounted at /api/v1/c1/usage, admin only)
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, llmUsageSchemas } from '../middleware/validationMiddleware';
+import { requireRole } from '../middleware/authMiddleware';
+import { getLlmUsageReport } from '../services/llmUsageService';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+const DEFAULT_REPORT_DAYS = 30;
+
+/**
+ * Requests, tokens and cost over the last `days` days, by day, use case, model and role
+ */
+router.get('/',
+  requireRole('admin'),
+  validate(llmUsageSchemas.report),
+  asyncHandler(async (req: Request, res: Response) => {
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : DEFAULT_REPORT_DAYS;
+
+    const { data, error } = await getLlmUsageReport(days);
+
+    if (error) {
+      logger.error('Failed to fetch LLM usage report', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch AI usage report', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+export default router;
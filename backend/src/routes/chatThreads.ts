@@ -0,0 +1,182 @@
+/**
+ * Chat Thread Routes
+ * The signed-in user's AI assistant conversations (mounted at /api/v1/c1/threads).
+ * Messages are added by the C1 chat endpoints, which replay them as context
+ */
+
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/cloudSqlService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, chatThreadSchemas, commonSchemas } from '../middleware/validationMiddleware';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Get the current user's threads, most recently active first
+ */
+router.get('/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.chatThreads.getAll(req.user!.id);
+
+    if (error) {
+      logger.error('Failed to fetch chat threads', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch chat threads', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      meta: {
+        total: data?.length || 0
+      }
+    });
+  })
+);
+
+/**
+ * Start a thread
+ */
+router.post('/',
+  validate(chatThreadSchemas.create),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.chatThreads.create(req.user!.id, req.body.title);
+
+    if (error) {
+      logger.error('Failed to create chat thread', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to create chat thread', 500, 'CREATE_FAILED');
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Chat thread created',
+      data
+    });
+  })
+);
+
+/**
+ * Get a thread with its messages in order
+ */
+router.get('/:id/messages',
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const { data: thread, error } = await DatabaseService.chatThreads.getById(req.user!.id, id);
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Chat thread not found', 404, 'CHAT_THREAD_NOT_FOUND');
+      }
+
+      logger.error('Failed to fetch chat thread', {
+        requestId: req.requestId,
+        chatThreadId: id,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch chat thread', 500, 'FETCH_FAILED');
+    }
+
+    const { data: messages, error: messagesError } = await DatabaseService.chatThreads.getMessages(id);
+
+    if (messagesError) {
+      logger.error('Failed to fetch chat messages', {
+        requestId: req.requestId,
+        chatThreadId: id,
+        error: messagesError.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch chat messages', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        thread,
+        messages
+      }
+    });
+  })
+);
+
+/**
+ * Rename a thread
+ */
+router.patch('/:id',
+  validate(chatThreadSchemas.rename),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const { data, error } = await DatabaseService.chatThreads.rename(req.user!.id, id, req.body.title);
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Chat thread not found', 404, 'CHAT_THREAD_NOT_FOUND');
+      }
+
+      logger.error('Failed to rename chat thread', {
+        requestId: req.requestId,
+        chatThreadId: id,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to rename chat thread', 500, 'UPDATE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      message: 'Chat thread renamed',
+      data
+    });
+  })
+);
+
+/**
+ * Delete a thread and its messages
+ */
+router.delete('/:id',
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const { data: removed, error } = await DatabaseService.chatThreads.delete(req.user!.id, id);
+
+    if (error) {
+      logger.error('Failed to delete chat thread', {
+        requestId: req.requestId,
+        chatThreadId: id,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to delete chat thread', 500, 'DELETE_FAILED');
+    }
+
+    if (!removed) {
+      throw createApiError('Chat thread not found', 404, 'CHAT_THREAD_NOT_FOUND');
+    }
+
+    logger.info('Chat thread deleted', {
+      requestId: req.requestId,
+      chatThreadId: id,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Chat thread deleted'
+    });
+  })
+);
+
+export default router;
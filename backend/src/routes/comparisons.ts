@@ -0,0 +1,137 @@
+/**
+ * Comparison Routes
+ * Saved property comparisons and their share links (mounted at /api/v1/comparisons)
+ */
+
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/cloudSqlService';
+import { ComparisonService } from '../services/comparisonService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, comparisonSchemas, commonSchemas } from '../middleware/validationMiddleware';
+import { authMiddleware, optionalAuth } from '../middleware/authMiddleware';
+import { comparisonRateLimit, publicRateLimit } from '../middleware/rateLimiter';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Save a comparison and get its share link; signed-in users also see it in their list
+ */
+router.post('/',
+  optionalAuth,
+  comparisonRateLimit,
+  validate(comparisonSchemas.create),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user?.id || null;
+    const { data, error } = await ComparisonService.createComparison(req.body, userId);
+
+    if (error) {
+      logger.error('Failed to save comparison', {
+        requestId: req.requestId,
+        error: error.message,
+        userId
+      });
+      throw createApiError('Failed to save comparison', 500, 'SAVE_FAILED');
+    }
+
+    logger.info('Comparison saved', {
+      requestId: req.requestId,
+      comparisonId: data.id,
+      properties: data.property_ids.length,
+      userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Comparison saved',
+      data
+    });
+  })
+);
+
+/**
+ * The current user's saved comparisons, newest first
+ */
+router.get('/',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.comparisons.getByUser(req.user!.id);
+
+    if (error) {
+      logger.error('Failed to fetch comparisons', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch comparisons', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: data || []
+    });
+  })
+);
+
+/**
+ * Open a shared comparison: the saved weights and preferences, the current property rows
+ * and their scores
+ */
+router.get('/shared/:shareId',
+  publicRateLimit,
+  validate({ params: comparisonSchemas.shareParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ComparisonService.getSharedComparison(req.params.shareId as string);
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Comparison not found', 404, 'COMPARISON_NOT_FOUND');
+      }
+
+      logger.error('Failed to fetch shared comparison', {
+        requestId: req.requestId,
+        shareId: req.params.shareId,
+        error: error.message
+      });
+      throw createApiError('Failed to fetch comparison', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Delete one of the current user's comparisons; its share link stops working
+ */
+router.delete('/:id',
+  authMiddleware,
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { error } = await DatabaseService.comparisons.delete(req.user!.id, req.params.id as string);
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Comparison not found', 404, 'COMPARISON_NOT_FOUND');
+      }
+
+      logger.error('Failed to delete comparison', {
+        requestId: req.requestId,
+        comparisonId: req.params.id,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to delete comparison', 500, 'DELETE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      message: 'Comparison deleted'
+    });
+  })
+);
+
+export default router;
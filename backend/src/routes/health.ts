@@ -6,8 +6,13 @@
 import { Router, Request, Response } from 'express';
 import { testConnection } from '../services/cloudSqlService';
 import { asyncHandler } from '../middleware/errorHandler';
+import { requireRole } from '../middleware/authMiddleware';
+import { validate, rateLimitSchemas } from '../middleware/validationMiddleware';
+import { resetRateLimits, getRateLimitStore } from '../middleware/rateLimiter';
+import { createLogger } from '../utils/logger';
 
 const router = Router();
+const logger = createLogger();
 
 /**
  * Basic health check
@@ -62,15 +67,31 @@ router.get('/detailed', asyncHandler(async (_req: Request, res: Response) => {
 }));
 
 /**
- * Clear rate limit cache (development only) - DISABLED
- * Rate limiting has been completely disabled
+ * Clear rate limit counters (admin only)
+ * Resets one client ({ key: "ip:203.0.113.7" } / { key: "user:<id>" }) or every client
  */
-router.post('/clear-rate-limit', asyncHandler(async (_req: Request, res: Response) => {
-  res.json({
-    success: true,
-    message: 'Rate limiting is disabled - no cache to clear',
-    timestamp: new Date().toISOString()
-  });
-}));
+router.post('/clear-rate-limit',
+  requireRole('admin'),
+  validate(rateLimitSchemas.clear),
+  asyncHandler(async (req: Request, res: Response) => {
+    const key: string | undefined = req.body?.key;
+    const cleared = await resetRateLimits(key);
+
+    logger.info('Rate limits cleared', {
+      requestId: req.requestId,
+      key: key || 'all',
+      cleared,
+      store: getRateLimitStore().name,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: key ? `Rate limits cleared for ${key}` : 'All rate limits cleared',
+      data: { cleared, key: key || null },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
 
 export default router;
\ No newline at end of file
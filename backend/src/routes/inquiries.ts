@@ -9,6 +9,8 @@ import { asyncHandler, createApiError } from '../middleware/errorHandler';
 import { validate, inquirySchemas, commonSchemas } from '../middleware/validationMiddleware';
 import { requireRole } from '../middleware/authMiddleware';
 import { strictRateLimit } from '../middleware/rateLimiter';
+import { withSla, autoAssignInquiry, getInquiryMetrics } from '../services/inquiryLifecycleService';
+import { notifyInquiryCreated, notifyInquiryAssigned } from '../services/notificationService';
 import { createLogger } from '../utils/logger';
 
 const router = Router();
@@ -56,7 +58,7 @@ router.get('/',
 
     res.json({
       success: true,
-      data: data || [],
+      data: (data || []).map((inquiry: any) => withSla(inquiry)),
       meta: {
         total: data?.length || 0,
         filters
@@ -65,6 +67,37 @@ router.get('/',
   })
 );
 
+/**
+ * SLA metrics per priority (admin/agent only - agents see their own inquiries)
+ */
+router.get('/metrics',
+  requireRole(['admin', 'agent']),
+  asyncHandler(async (req: Request, res: Response) => {
+    const assignedTo = req.user!.role === 'agent'
+      ? req.user!.id
+      : (req.query.assigned_to as string | undefined);
+
+    const { data, error } = await getInquiryMetrics(assignedTo ? { assigned_to: assignedTo } : {});
+
+    if (error) {
+      logger.error('Failed to fetch inquiry metrics', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch inquiry metrics', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      meta: {
+        assigned_to: assignedTo || null
+      }
+    });
+  })
+);
+
 /**
  * Get inquiry by ID (admin/agent only)
  */
@@ -108,7 +141,7 @@ router.get('/:id',
 
     res.json({
       success: true,
-      data
+      data: withSla(data)
     });
   })
 );
@@ -152,12 +185,19 @@ router.post('/',
       throw createApiError('Failed to submit inquiry', 500, 'CREATE_FAILED');
     }
 
-    // TODO: Send notification to admin/agents about new inquiry
+    const agent = await autoAssignInquiry(data.id);
+
+    notifyInquiryCreated(data, agent);
+    if (agent) {
+      notifyInquiryAssigned(data, agent.id, null);
+    }
+
     logger.info('Inquiry submitted successfully', {
       requestId: req.requestId,
       inquiryId: data.id,
       email: inquiryData.email,
-      inquiry_type: inquiryData.inquiry_type
+      inquiry_type: inquiryData.inquiry_type,
+      assignedTo: agent?.id
     });
 
     res.status(201).json({
@@ -205,7 +245,7 @@ router.put('/:id',
       throw createApiError('You can only update inquiries assigned to you', 403, 'INSUFFICIENT_PERMISSIONS');
     }
 
-    const { data, error } = await DatabaseService.inquiries.update(id, req.body);
+    const { data, error } = await DatabaseService.inquiries.update(id, req.body, req.user!.id);
 
     if (error) {
       logger.error('Failed to update inquiry', {
@@ -217,6 +257,10 @@ router.put('/:id',
       throw createApiError('Failed to update inquiry', 500, 'UPDATE_FAILED');
     }
 
+    if (data.assigned_to && data.assigned_to !== existingInquiry.assigned_to) {
+      notifyInquiryAssigned(data, data.assigned_to, { id: req.user!.id, name: req.user!.email });
+    }
+
     logger.info('Inquiry updated successfully', {
       requestId: req.requestId,
       inquiryId: id,
@@ -226,7 +270,7 @@ router.put('/:id',
     res.json({
       success: true,
       message: 'Inquiry updated successfully',
-      data
+      data: withSla(data)
     });
   })
 );
@@ -264,7 +308,7 @@ router.patch('/:id/status',
       throw createApiError('You can only update inquiries assigned to you', 403, 'INSUFFICIENT_PERMISSIONS');
     }
 
-    const { data, error } = await DatabaseService.inquiries.updateStatus(id, status, notes);
+    const { data, error } = await DatabaseService.inquiries.updateStatus(id, status, notes, req.user!.id);
 
     if (error) {
       logger.error('Failed to update inquiry status', {
@@ -287,7 +331,7 @@ router.patch('/:id/status',
     res.json({
       success: true,
       message: 'Inquiry status updated successfully',
-      data
+      data: withSla(data)
     });
   })
 );
@@ -326,7 +370,7 @@ router.patch('/:id/assign',
       throw createApiError('Agent account is not active', 400, 'AGENT_INACTIVE');
     }
 
-    const { data, error } = await DatabaseService.inquiries.assign(id, agentId);
+    const { data, error } = await DatabaseService.inquiries.assign(id, agentId, req.user!.id);
 
     if (error) {
       logger.error('Failed to assign inquiry', {
@@ -344,6 +388,8 @@ router.patch('/:id/assign',
       throw createApiError('Failed to assign inquiry', 500, 'ASSIGN_FAILED');
     }
 
+    notifyInquiryAssigned(data, agentId, { id: req.user!.id, name: req.user!.email });
+
     logger.info('Inquiry assigned successfully', {
       requestId: req.requestId,
       inquiryId: id,
@@ -354,6 +400,108 @@ router.patch('/:id/assign',
     res.json({
       success: true,
       message: 'Inquiry assigned successfully',
+      data: withSla(data)
+    });
+  })
+);
+
+/**
+ * Get an inquiry's activity timeline (admin/agent only)
+ */
+router.get('/:id/events',
+  requireRole(['admin', 'agent']),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const { data: inquiry, error: fetchError } = await DatabaseService.inquiries.getById(id);
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw createApiError('Inquiry not found', 404, 'INQUIRY_NOT_FOUND');
+      }
+      throw createApiError('Failed to fetch inquiry', 500, 'FETCH_FAILED');
+    }
+
+    if (req.user!.role === 'agent' && inquiry.assigned_to !== req.user!.id) {
+      throw createApiError('You can only view inquiries assigned to you', 403, 'INSUFFICIENT_PERMISSIONS');
+    }
+
+    const { data, error } = await DatabaseService.inquiries.getEvents(id);
+
+    if (error) {
+      logger.error('Failed to fetch inquiry events', {
+        requestId: req.requestId,
+        inquiryId: id,
+        error: error.message
+      });
+      throw createApiError('Failed to fetch inquiry timeline', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      meta: {
+        total: data?.length || 0,
+        sla: withSla(inquiry).sla
+      }
+    });
+  })
+);
+
+/**
+ * Log a note, call or email on an inquiry (admin/agent only - agents on assigned inquiries)
+ */
+router.post('/:id/events',
+  requireRole(['admin', 'agent']),
+  validate({
+    params: commonSchemas.uuidParam,
+    body: inquirySchemas.addEvent.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { type, body, metadata } = req.body;
+
+    const { data: inquiry, error: fetchError } = await DatabaseService.inquiries.getById(id);
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw createApiError('Inquiry not found', 404, 'INQUIRY_NOT_FOUND');
+      }
+      throw createApiError('Failed to fetch inquiry', 500, 'FETCH_FAILED');
+    }
+
+    if (req.user!.role === 'agent' && inquiry.assigned_to !== req.user!.id) {
+      throw createApiError('You can only update inquiries assigned to you', 403, 'INSUFFICIENT_PERMISSIONS');
+    }
+
+    const { data, error } = await DatabaseService.inquiries.addEvent(id, req.user!.id, {
+      type,
+      body: body || null,
+      metadata
+    });
+
+    if (error) {
+      logger.error('Failed to add inquiry event', {
+        requestId: req.requestId,
+        inquiryId: id,
+        type,
+        userId: req.user!.id,
+        error: error.message
+      });
+      throw createApiError('Failed to add to inquiry timeline', 500, 'CREATE_FAILED');
+    }
+
+    logger.info('Inquiry event added', {
+      requestId: req.requestId,
+      inquiryId: id,
+      type,
+      userId: req.user!.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Inquiry timeline updated',
       data
     });
   })
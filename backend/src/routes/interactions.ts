@@ -0,0 +1,58 @@
+/**
+ * Interaction Routes
+ * Ingests listing interactions (views, clicks, saves, contacts, comparisons) from signed-in
+ * and anonymous visitors (mounted at /api/v1/interactions)
+ */
+
+import { Router, Request, Response } from 'express';
+import { RecommendationService } from '../services/recommendationService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, recommendationSchemas } from '../middleware/validationMiddleware';
+import { optionalAuth } from '../middleware/authMiddleware';
+import { publicRateLimit } from '../middleware/rateLimiter';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Record a batch of interaction events; anonymous visitors identify with their session id
+ */
+router.post('/',
+  optionalAuth,
+  publicRateLimit,
+  validate(recommendationSchemas.events),
+  asyncHandler(async (req: Request, res: Response) => {
+    const actor = { userId: req.user?.id || null, sessionId: req.body.sessionId || null };
+    if (!actor.userId && !actor.sessionId) {
+      throw createApiError('A session id is required when not signed in', 400, 'SESSION_REQUIRED');
+    }
+
+    const { data, error } = await RecommendationService.recordInteractions(
+      actor,
+      req.body.events.map((event: any) => ({
+        propertyId: event.propertyId,
+        action: event.action,
+        timeSpentSeconds: event.timeSpent,
+        context: event.context,
+        occurredAt: event.occurredAt
+      }))
+    );
+
+    if (error) {
+      logger.error('Failed to record interactions', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: actor.userId
+      });
+      throw createApiError('Failed to record interactions', 500, 'RECORD_FAILED');
+    }
+
+    res.status(202).json({
+      success: true,
+      data
+    });
+  })
+);
+
+export default router;
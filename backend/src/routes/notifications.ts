@@ -0,0 +1,249 @@
+/**
+ * Notifications Routes
+ * The signed-in user's notification inbox and channel preferences, plus the admin
+ * delivery log (mounted at /api/v1/notifications)
+ */
+
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/cloudSqlService';
+import { NotificationService } from '../services/notificationService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { requireRole } from '../middleware/authMiddleware';
+import { validate, notificationSchemas, commonSchemas } from '../middleware/validationMiddleware';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Get the current user's notifications, newest first
+ */
+router.get('/',
+  validate(notificationSchemas.list),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.notifications.getForUser(req.user!.id, {
+      unreadOnly: req.query.unreadOnly === 'true',
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 20
+    });
+
+    if (error) {
+      logger.error('Failed to fetch notifications', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch notifications', 500, 'FETCH_FAILED');
+    }
+
+    const totalPages = Math.ceil(data.total / data.limit);
+
+    res.json({
+      success: true,
+      data: data.rows,
+      meta: {
+        page: data.page,
+        limit: data.limit,
+        total: data.total,
+        totalPages,
+        hasMore: data.page < totalPages,
+        unread: data.unread
+      }
+    });
+  })
+);
+
+/**
+ * Unread count for the header bell (cheap enough to poll)
+ */
+router.get('/unread-count',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data: unread, error } = await DatabaseService.notifications.getUnreadCount(req.user!.id);
+
+    if (error) {
+      logger.error('Failed to count unread notifications', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch notifications', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: { unread }
+    });
+  })
+);
+
+/**
+ * Mark notifications read (all unread notifications when no IDs are given)
+ */
+router.patch('/read',
+  validate(notificationSchemas.markRead),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data: updated, error } = await DatabaseService.notifications.markRead(req.user!.id, req.body.ids);
+
+    if (error) {
+      logger.error('Failed to mark notifications read', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to update notifications', 500, 'UPDATE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: { updated }
+    });
+  })
+);
+
+/**
+ * Get the current user's channel choices per event
+ */
+router.get('/preferences',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await NotificationService.getPreferences(req.user!.id);
+
+    if (error) {
+      logger.error('Failed to fetch notification preferences', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch notification preferences', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Change channel choices and/or the outgoing webhook
+ */
+router.put('/preferences',
+  validate(notificationSchemas.updatePreferences),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await NotificationService.updatePreferences(req.user!.id, req.body);
+
+    if (error?.code === 'INVALID_WEBHOOK_URL') {
+      throw createApiError(error.message, 400, 'INVALID_WEBHOOK_URL');
+    }
+    if (error) {
+      logger.error('Failed to update notification preferences', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to update notification preferences', 500, 'UPDATE_FAILED');
+    }
+
+    logger.info('Notification preferences updated', {
+      requestId: req.requestId,
+      userId: req.user!.id,
+      webhookConfigured: !!data!.webhook_url
+    });
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated',
+      data
+    });
+  })
+);
+
+/**
+ * Delivery log across all users (admin only)
+ */
+router.get('/deliveries',
+  requireRole('admin'),
+  validate(notificationSchemas.deliveryList),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { status, channel, event } = req.query as Record<string, string | undefined>;
+
+    const { data, error } = await DatabaseService.notificationDeliveries.getAll(
+      {
+        ...(status ? { status } : {}),
+        ...(channel ? { channel } : {}),
+        ...(event ? { event } : {})
+      },
+      {
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20
+      }
+    );
+
+    if (error) {
+      logger.error('Failed to fetch notification deliveries', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch notification deliveries', 500, 'FETCH_FAILED');
+    }
+
+    const totalPages = Math.ceil(data.total / data.limit);
+
+    res.json({
+      success: true,
+      data: data.rows,
+      meta: {
+        page: data.page,
+        limit: data.limit,
+        total: data.total,
+        totalPages,
+        hasMore: data.page < totalPages
+      }
+    });
+  })
+);
+
+/**
+ * Queue a failed delivery again (admin only)
+ */
+router.post('/deliveries/:id/retry',
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await DatabaseService.notificationDeliveries.retry(id);
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Failed delivery not found', 404, 'DELIVERY_NOT_FOUND');
+      }
+
+      logger.error('Failed to retry notification delivery', {
+        requestId: req.requestId,
+        deliveryId: id,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to retry notification delivery', 500, 'UPDATE_FAILED');
+    }
+
+    logger.info('Notification delivery queued for retry', {
+      requestId: req.requestId,
+      deliveryId: id,
+      channel: data.channel,
+      userId: req.user!.id
+    });
+
+    NotificationService.processDueDeliveries().catch(processError => {
+      logger.error('Notification delivery run failed', { error: processError.message });
+    });
+
+    res.json({
+      success: true,
+      message: 'Delivery queued for retry',
+      data
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,182 @@
+/**
+ * Points of Interest Routes
+ * Nearby metro stations, restaurants, hospitals, gyms, banks and bus stops for listings, and
+ * the admin import of GeoJSON / OpenStreetMap extracts (mounted at /api/v1/pois)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { PoiService } from '../services/poiService';
+import { PoiCategory } from '../services/cloudSqlService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, poiSchemas } from '../middleware/validationMiddleware';
+import { requireRole } from '../middleware/authMiddleware';
+import { publicRateLimit } from '../middleware/rateLimiter';
+import { parseList } from '../utils/propertyFilters';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+const MAX_IMPORT_SIZE = 50 * 1024 * 1024;
+const MAX_NEARBY_PROPERTIES = 50;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_SIZE, files: 1 }
+});
+
+/**
+ * Parse the single "file" field, turning multer errors into API errors
+ */
+const parseImportFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: any) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return next(createApiError(`File exceeds the ${MAX_IMPORT_SIZE / 1024 / 1024}MB limit`, 413, 'FILE_TOO_LARGE'));
+      }
+      return next(createApiError(error.message, 400, 'INVALID_UPLOAD'));
+    }
+    next(error);
+  });
+};
+
+/**
+ * Nearest places of each category within a radius of each property, with walk times
+ */
+router.get('/nearby',
+  publicRateLimit,
+  validate(poiSchemas.nearby),
+  asyncHandler(async (req: Request, res: Response) => {
+    const propertyIds = [...new Set(parseList(req.query.propertyIds) || [])];
+    if (propertyIds.length > MAX_NEARBY_PROPERTIES) {
+      throw createApiError(`At most ${MAX_NEARBY_PROPERTIES} properties per request`, 400, 'TOO_MANY_PROPERTIES');
+    }
+
+    const { data, error } = await PoiService.getNearbyPois(propertyIds, {
+      radiusMeters: req.query.radius ? parseInt(req.query.radius as string, 10) : undefined,
+      categories: parseList(req.query.categories) as PoiCategory[] | undefined,
+      perCategory: req.query.perCategory ? parseInt(req.query.perCategory as string, 10) : undefined
+    });
+
+    if (error) {
+      logger.error('Failed to fetch nearby places', {
+        requestId: req.requestId,
+        error: error.message
+      });
+      throw createApiError('Failed to fetch nearby places', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Imported datasets with their counts per category (admin only)
+ */
+router.get('/stats',
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PoiService.getPoiStats();
+
+    if (error) {
+      logger.error('Failed to fetch points of interest stats', {
+        requestId: req.requestId,
+        error: error.message
+      });
+      throw createApiError('Failed to fetch points of interest', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Import a GeoJSON FeatureCollection or an Overpass JSON extract (admin only). Importing
+ * again under the same source updates the places it already holds.
+ */
+router.post('/import',
+  requireRole('admin'),
+  parseImportFile,
+  validate(poiSchemas.import),
+  asyncHandler(async (req: Request, res: Response) => {
+    const file = req.file;
+    if (!file) {
+      throw createApiError('No file uploaded (expected a "file" field)', 400, 'MISSING_FILE');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(file.buffer.toString('utf8'));
+    } catch {
+      throw createApiError('The file is not valid JSON', 400, 'INVALID_JSON');
+    }
+
+    const { data, error } = await PoiService.importPois(
+      req.body.source || PoiService.detectPoiImportFormat(parsed),
+      parsed,
+      req.body.category as PoiCategory | undefined
+    );
+
+    if (error) {
+      if (error.code === 'INVALID_FORMAT') {
+        throw createApiError(error.message, 400, 'INVALID_FORMAT');
+      }
+
+      logger.error('Failed to import points of interest', {
+        requestId: req.requestId,
+        filename: file.originalname,
+        error: error.message
+      });
+      throw createApiError('Failed to import points of interest', 500, 'IMPORT_FAILED');
+    }
+
+    logger.info('Points of interest imported', {
+      requestId: req.requestId,
+      userId: req.user!.id,
+      source: data!.source,
+      inserted: data!.inserted,
+      updated: data!.updated
+    });
+
+    res.status(201).json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Remove an imported dataset (admin only)
+ */
+router.delete('/sources/:source',
+  requireRole('admin'),
+  validate({ params: poiSchemas.sourceParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PoiService.deletePoiSource(req.params.source as string);
+
+    if (error) {
+      logger.error('Failed to delete points of interest', {
+        requestId: req.requestId,
+        source: req.params.source,
+        error: error.message
+      });
+      throw createApiError('Failed to delete points of interest', 500, 'DELETE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+export default router;
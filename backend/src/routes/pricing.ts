@@ -0,0 +1,129 @@
+/**
+ * Pricing Routes
+ * Market rates from listing prices, budget quotes for the calculator and the admin-edited
+ * quote rules (mounted at /api/v1/pricing)
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, pricingSchemas } from '../middleware/validationMiddleware';
+import { requireRole } from '../middleware/authMiddleware';
+import { publicRateLimit } from '../middleware/rateLimiter';
+import { PricingService, SpaceType } from '../services/pricingService';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Rent per sqft (median and quartiles) and per seat by micro-market and category
+ */
+router.get('/rates',
+  publicRateLimit,
+  validate(pricingSchemas.rates),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PricingService.getMarketRates({
+      location: req.query.location as string | undefined,
+      category: req.query.category as string | undefined
+    });
+
+    if (error) {
+      logger.error('Failed to fetch market rates', {
+        requestId: req.requestId,
+        error: error.message
+      });
+      throw createApiError('Failed to fetch market rates', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Budget quote for a team in a micro-market, citing the comparable listings used
+ */
+router.get('/quote',
+  publicRateLimit,
+  validate(pricingSchemas.quote),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PricingService.buildQuote({
+      location: req.query.location as string,
+      spaceType: req.query.spaceType as SpaceType,
+      teamSize: parseInt(req.query.teamSize as string, 10),
+      durationMonths: parseInt(req.query.duration as string, 10)
+    });
+
+    if (error) {
+      logger.error('Failed to build budget quote', {
+        requestId: req.requestId,
+        error: error.message
+      });
+      throw createApiError('Failed to build budget quote', 500, 'QUOTE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Rules applied to quotes (defaults merged with admin changes)
+ */
+router.get('/rules',
+  publicRateLimit,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PricingService.getPricingRules();
+
+    if (error) {
+      logger.error('Failed to fetch pricing rules', {
+        requestId: req.requestId,
+        error: error.message
+      });
+      throw createApiError('Failed to fetch pricing rules', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Change pricing rules (admin only); rules not given keep their value
+ */
+router.put('/rules',
+  requireRole('admin'),
+  validate(pricingSchemas.updateRules),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PricingService.updatePricingRules(req.body, req.user!.id);
+
+    if (error) {
+      logger.error('Failed to update pricing rules', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to update pricing rules', 500, 'UPDATE_FAILED');
+    }
+
+    logger.info('Pricing rules updated', {
+      requestId: req.requestId,
+      userId: req.user!.id,
+      rules: Object.keys(req.body)
+    });
+
+    res.json({
+      success: true,
+      data,
+      message: 'Pricing rules updated'
+    });
+  })
+);
+
+export default router;
@@ -4,44 +4,125 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { DatabaseService } from '../services/cloudSqlService';
+import {
+  DatabaseService,
+  type PropertyListOptions,
+  type PropertySearchOptions,
+  type PropertySearchSortField,
+  type PropertySortField
+} from '../services/cloudSqlService';
 import { asyncHandler, createApiError } from '../middleware/errorHandler';
 import { validate, propertySchemas, commonSchemas } from '../middleware/validationMiddleware';
 import { requireRole, optionalAuth } from '../middleware/authMiddleware';
 import { publicRateLimit } from '../middleware/rateLimiter';
 import { createLogger } from '../utils/logger';
+import { parsePropertyFilters } from '../utils/propertyFilters';
+import { SearchAlertService } from '../services/searchAlertService';
+import { MediaProcessingService } from '../services/mediaProcessingService';
 
 const router = Router();
 const logger = createLogger();
 
 /**
- * Get all properties (with optional filters)
+ * Sort direction for a listing - distance reads nearest first unless told otherwise
+ */
+const parseSortOrder = (query: Request['query']): 'asc' | 'desc' => {
+  if (query.sortOrder === 'asc' || query.sortOrder === 'desc') return query.sortOrder;
+  return query.sortBy === 'distance' ? 'asc' : 'desc';
+};
+
+/**
+ * Agents may only change their own listings; admins any
+ */
+const assertAgentOwnsProperty = async (req: Request, propertyId: string, message: string) => {
+  if (req.user!.role !== 'agent') return;
+
+  const { data: existingProperty, error: fetchError } = await DatabaseService.properties.getById(propertyId);
+
+  if (fetchError) {
+    if (fetchError.code === 'PGRST116') {
+      throw createApiError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+    }
+    throw createApiError('Failed to fetch property', 500, 'FETCH_FAILED');
+  }
+
+  if (existingProperty.listing_agent_id !== req.user!.id) {
+    throw createApiError(message, 403, 'INSUFFICIENT_PERMISSIONS');
+  }
+};
+
+/**
+ * Gallery items may only point at files the caller uploaded (admins any), since removing an
+ * item later deletes the file at its path
+ */
+const assertOwnsUploads = async (req: Request, items: Array<{ path?: string }>) => {
+  if (req.user!.role === 'admin') return;
+
+  for (const uploadPath of new Set(items.map(item => item.path).filter((path): path is string => !!path))) {
+    const { data: uploadRecord, error: lookupError } = await DatabaseService.mediaUploads.getByPath(uploadPath);
+
+    if (lookupError) {
+      logger.error('Failed to look up upload', {
+        requestId: req.requestId,
+        userId: req.user!.id,
+        path: uploadPath,
+        error: lookupError.message
+      });
+      throw createApiError('Failed to add media', 500, 'MEDIA_UPDATE_FAILED');
+    }
+
+    if (!uploadRecord || uploadRecord.uploaded_by !== req.user!.id) {
+      throw createApiError('You can only add files you uploaded', 403, 'INSUFFICIENT_PERMISSIONS');
+    }
+  }
+};
+
+/**
+ * Turn a gallery operation error into an API error
+ */
+const throwMediaError = (req: Request, error: { message: string; code?: string }, action: string): never => {
+  logger.error(`Failed to ${action}`, {
+    requestId: req.requestId,
+    propertyId: req.params.id,
+    mediaId: req.params.mediaId,
+    userId: req.user!.id,
+    error: error.message
+  });
+
+  switch (error.code) {
+    case 'PGRST116':
+      throw createApiError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+    case 'NOT_FOUND':
+      throw createApiError('Media item not found', 404, 'MEDIA_NOT_FOUND');
+    case 'INVALID_ORDER':
+    case 'INVALID_COVER':
+      throw createApiError(error.message, 400, error.code);
+    default:
+      throw createApiError(`Failed to ${action}`, 500, 'MEDIA_UPDATE_FAILED');
+  }
+};
+
+/**
+ * Get all properties (with optional filters, pagination and sorting)
  */
 router.get('/',
   optionalAuth,
   publicRateLimit,
   validate({ query: propertySchemas.search.query }),
   asyncHandler(async (req: Request, res: Response) => {
-    const filters = {
-      status: req.query.status,
-      property_type: req.query.propertyType,
-      min_price: req.query.minPrice ? parseFloat(req.query.minPrice as string) : undefined,
-      max_price: req.query.maxPrice ? parseFloat(req.query.maxPrice as string) : undefined,
-      location: req.query.location,
-      min_bedrooms: req.query.minBedrooms ? parseInt(req.query.minBedrooms as string) : undefined,
-      max_bedrooms: req.query.maxBedrooms ? parseInt(req.query.maxBedrooms as string) : undefined,
-      min_bathrooms: req.query.minBathrooms ? parseFloat(req.query.minBathrooms as string) : undefined,
-      max_bathrooms: req.query.maxBathrooms ? parseFloat(req.query.maxBathrooms as string) : undefined
+    const filters = parsePropertyFilters(req.query);
+
+    const listOptions: PropertyListOptions = {
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+      // Relevance needs a search query - plain listings fall back to newest first
+      sortBy: req.query.sortBy && req.query.sortBy !== 'relevance'
+        ? req.query.sortBy as PropertySortField
+        : 'date',
+      sortOrder: parseSortOrder(req.query)
     };
 
-    // Remove undefined values
-    Object.keys(filters).forEach(key => {
-      if (filters[key as keyof typeof filters] === undefined) {
-        delete filters[key as keyof typeof filters];
-      }
-    });
-
-    const { data, error } = await DatabaseService.properties.getAll(filters);
+    const { data, error } = await DatabaseService.properties.getAll(filters, listOptions);
 
     if (error) {
       logger.error('Failed to fetch properties', {
@@ -52,24 +133,34 @@ router.get('/',
       throw createApiError('Failed to fetch properties', 500, 'FETCH_FAILED');
     }
 
+    const totalPages = Math.ceil(data.total / data.limit);
+
     logger.info('Properties fetched successfully', {
       requestId: req.requestId,
-      count: data?.length || 0,
-      filters
+      count: data.rows.length,
+      total: data.total,
+      filters,
+      ...listOptions
     });
 
     res.json({
       success: true,
-      data: data || [],
+      data: data.rows,
       meta: {
-        total: data?.length || 0
+        page: data.page,
+        limit: data.limit,
+        total: data.total,
+        totalPages,
+        hasMore: data.page < totalPages,
+        sortBy: listOptions.sortBy,
+        sortOrder: listOptions.sortOrder
       }
     });
   })
 );
 
 /**
- * Search properties
+ * Search properties (full-text, ranked by relevance, with highlights and spelling suggestion)
  */
 router.get('/search',
   optionalAuth,
@@ -82,12 +173,16 @@ router.get('/search',
       throw createApiError('Search query must be at least 2 characters', 400, 'INVALID_QUERY');
     }
 
-    const filters = {
-      status: req.query.status,
-      property_type: req.query.propertyType
+    const filters = parsePropertyFilters(req.query);
+
+    const searchOptions: PropertySearchOptions = {
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+      sortBy: (req.query.sortBy as PropertySearchSortField) || 'relevance',
+      sortOrder: parseSortOrder(req.query)
     };
 
-    const { data, error } = await DatabaseService.properties.search(query.trim(), filters);
+    const { data, error } = await DatabaseService.properties.search(query.trim(), filters, searchOptions);
 
     if (error) {
       logger.error('Property search failed', {
@@ -98,18 +193,29 @@ router.get('/search',
       throw createApiError('Search failed', 500, 'SEARCH_FAILED');
     }
 
+    const totalPages = Math.ceil(data.total / data.limit);
+
     logger.info('Property search completed', {
       requestId: req.requestId,
       query,
-      resultCount: data?.length || 0
+      resultCount: data.rows.length,
+      total: data.total,
+      suggestion: data.suggestion
     });
 
     res.json({
       success: true,
-      data: data || [],
+      data: data.rows,
       meta: {
         query,
-        total: data?.length || 0
+        suggestion: data.suggestion,
+        page: data.page,
+        limit: data.limit,
+        total: data.total,
+        totalPages,
+        hasMore: data.page < totalPages,
+        sortBy: searchOptions.sortBy,
+        sortOrder: searchOptions.sortOrder
       }
     });
   })
@@ -186,6 +292,9 @@ router.post('/',
       userId: req.user!.id
     });
 
+    // Alert users whose saved searches match the new listing
+    SearchAlertService.handlePropertyCreated(data);
+
     res.status(201).json({
       success: true,
       message: 'Property created successfully',
@@ -243,6 +352,9 @@ router.put('/:id',
       userId: req.user!.id
     });
 
+    // Back on the market - alert matching saved searches
+    SearchAlertService.handlePropertyUpdated(existingProperty, data);
+
     res.json({
       success: true,
       message: 'Property updated successfully',
@@ -251,6 +363,254 @@ router.put('/:id',
   })
 );
 
+/**
+ * Replace a property's tags (admin/agent only, agents can only tag their own)
+ */
+router.put('/:id/tags',
+  requireRole(['admin', 'agent']),
+  validate({
+    params: commonSchemas.uuidParam,
+    body: propertySchemas.setTags.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw createApiError('Property ID is required', 400, 'MISSING_ID');
+    }
+
+    await assertAgentOwnsProperty(req, id, 'You can only tag your own properties');
+
+    const { data, error } = await DatabaseService.properties.setTags(id, req.body.tagIds, req.user!.id);
+
+    if (error) {
+      logger.error('Failed to set property tags', {
+        requestId: req.requestId,
+        propertyId: id,
+        userId: req.user!.id,
+        error: error.message
+      });
+
+      if (error.code === 'PGRST116') {
+        throw createApiError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+      if (error.code === 'INVALID_TAGS') {
+        throw createApiError(error.message, 400, 'INVALID_TAGS');
+      }
+
+      throw createApiError('Failed to update property tags', 500, 'UPDATE_FAILED');
+    }
+
+    logger.info('Property tags updated', {
+      requestId: req.requestId,
+      propertyId: id,
+      tagCount: data.length,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Property tags updated successfully',
+      data
+    });
+  })
+);
+
+/**
+ * Get a property's gallery in display order
+ */
+router.get('/:id/media',
+  optionalAuth,
+  publicRateLimit,
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw createApiError('Property ID is required', 400, 'MISSING_ID');
+    }
+
+    const { data, error } = await DatabaseService.propertyMedia.getAll(id);
+
+    if (error) {
+      throwMediaError(req, error, 'fetch property media');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Add uploaded media to a property's gallery (admin/agent only, agents only to their own)
+ */
+router.post('/:id/media',
+  requireRole(['admin', 'agent']),
+  validate({
+    params: commonSchemas.uuidParam,
+    body: propertySchemas.addMedia.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw createApiError('Property ID is required', 400, 'MISSING_ID');
+    }
+
+    await assertAgentOwnsProperty(req, id, 'You can only change the media of your own properties');
+    await assertOwnsUploads(req, req.body.items);
+
+    const { data, error } = await DatabaseService.propertyMedia.add(id, req.body.items, req.user!.id);
+
+    if (error) {
+      throwMediaError(req, error, 'add property media');
+    }
+
+    logger.info('Property media added', {
+      requestId: req.requestId,
+      propertyId: id,
+      added: req.body.items.length,
+      userId: req.user!.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Media added successfully',
+      data
+    });
+  })
+);
+
+/**
+ * Reorder a property's gallery (admin/agent only, agents only their own)
+ */
+router.put('/:id/media/order',
+  requireRole(['admin', 'agent']),
+  validate({
+    params: commonSchemas.uuidParam,
+    body: propertySchemas.reorderMedia.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw createApiError('Property ID is required', 400, 'MISSING_ID');
+    }
+
+    await assertAgentOwnsProperty(req, id, 'You can only change the media of your own properties');
+
+    const { data, error } = await DatabaseService.propertyMedia.reorder(id, req.body.mediaIds);
+
+    if (error) {
+      throwMediaError(req, error, 'reorder property media');
+    }
+
+    logger.info('Property media reordered', {
+      requestId: req.requestId,
+      propertyId: id,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Media order updated successfully',
+      data
+    });
+  })
+);
+
+/**
+ * Change a media item's kind, caption or alt text, or make it the cover
+ * (admin/agent only, agents only their own)
+ */
+router.patch('/:id/media/:mediaId',
+  requireRole(['admin', 'agent']),
+  validate({
+    params: propertySchemas.mediaParams,
+    body: propertySchemas.updateMedia.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, mediaId } = req.params;
+
+    if (!id || !mediaId) {
+      throw createApiError('Property and media IDs are required', 400, 'MISSING_ID');
+    }
+
+    await assertAgentOwnsProperty(req, id, 'You can only change the media of your own properties');
+
+    const { data, error } = await DatabaseService.propertyMedia.update(id, mediaId, req.body);
+
+    if (error) {
+      throwMediaError(req, error, 'update property media');
+    }
+
+    logger.info('Property media updated', {
+      requestId: req.requestId,
+      propertyId: id,
+      mediaId,
+      fields: Object.keys(req.body),
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Media updated successfully',
+      data
+    });
+  })
+);
+
+/**
+ * Remove a media item and its uploaded files (admin/agent only, agents only their own)
+ */
+router.delete('/:id/media/:mediaId',
+  requireRole(['admin', 'agent']),
+  validate({ params: propertySchemas.mediaParams }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, mediaId } = req.params;
+
+    if (!id || !mediaId) {
+      throw createApiError('Property and media IDs are required', 400, 'MISSING_ID');
+    }
+
+    await assertAgentOwnsProperty(req, id, 'You can only change the media of your own properties');
+
+    const { data, error } = await DatabaseService.propertyMedia.remove(id, mediaId);
+
+    if (error) {
+      throwMediaError(req, error, 'remove property media');
+    }
+
+    // The gallery no longer references the files, so a failed delete only leaves an orphan behind
+    if (data.removed.storage_path) {
+      const { error: storageError } = await MediaProcessingService.deleteUpload(data.removed.storage_path);
+      if (storageError) {
+        logger.warn('Removed media files not deleted', {
+          requestId: req.requestId,
+          propertyId: id,
+          path: data.removed.storage_path,
+          error: storageError.message
+        });
+      }
+    }
+
+    logger.info('Property media removed', {
+      requestId: req.requestId,
+      propertyId: id,
+      mediaId,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Media removed successfully',
+      data: data.media
+    });
+  })
+);
+
 /**
  * Delete property (admin only)
  */
@@ -0,0 +1,85 @@
+/**
+ * Recommendation Routes
+ * Personalized listing recommendations with their reasons, and like/dislike feedback on them
+ * (mounted at /api/v1/recommendations)
+ */
+
+import { Router, Request, Response } from 'express';
+import { RecommendationService, DEFAULT_RECOMMENDATIONS } from '../services/recommendationService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, recommendationSchemas } from '../middleware/validationMiddleware';
+import { optionalAuth } from '../middleware/authMiddleware';
+import { publicRateLimit } from '../middleware/rateLimiter';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Recommendations for the signed-in user and/or the anonymous session; popular listings
+ * for visitors without history
+ */
+router.get('/',
+  optionalAuth,
+  publicRateLimit,
+  validate(recommendationSchemas.list),
+  asyncHandler(async (req: Request, res: Response) => {
+    const actor = { userId: req.user?.id || null, sessionId: (req.query.sessionId as string) || null };
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_RECOMMENDATIONS;
+
+    const { data, error } = await RecommendationService.getRecommendations(actor, limit);
+
+    if (error) {
+      logger.error('Failed to build recommendations', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: actor.userId
+      });
+      throw createApiError('Failed to fetch recommendations', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Like or dislike a recommended property; disliked ones are not recommended again
+ */
+router.post('/feedback',
+  optionalAuth,
+  publicRateLimit,
+  validate(recommendationSchemas.feedback),
+  asyncHandler(async (req: Request, res: Response) => {
+    const actor = { userId: req.user?.id || null, sessionId: req.body.sessionId || null };
+    if (!actor.userId && !actor.sessionId) {
+      throw createApiError('A session id is required when not signed in', 400, 'SESSION_REQUIRED');
+    }
+    const { propertyId, feedback } = req.body;
+
+    const { data, error } = await RecommendationService.recordFeedback(actor, propertyId, feedback);
+
+    if (error) {
+      if (error.code === '23503') { // Foreign key violation
+        throw createApiError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      logger.error('Failed to record recommendation feedback', {
+        requestId: req.requestId,
+        propertyId,
+        error: error.message,
+        userId: actor.userId
+      });
+      throw createApiError('Failed to record feedback', 500, 'SAVE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+export default router;
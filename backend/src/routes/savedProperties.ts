@@ -0,0 +1,200 @@
+/**
+ * Saved Properties Routes
+ * Handles the signed-in user's favourites (mounted at /api/v1/users/me/saved-properties)
+ */
+
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/cloudSqlService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, savedPropertySchemas } from '../middleware/validationMiddleware';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Get the current user's saved properties
+ */
+router.get('/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.savedProperties.getAll(req.user!.id);
+
+    if (error) {
+      logger.error('Failed to fetch saved properties', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch saved properties', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      meta: {
+        total: data?.length || 0
+      }
+    });
+  })
+);
+
+/**
+ * Save a property (idempotent - saving again only updates notes)
+ */
+router.post('/',
+  validate(savedPropertySchemas.save),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { propertyId, notes } = req.body;
+
+    const { data, error } = await DatabaseService.savedProperties.save(req.user!.id, propertyId, notes);
+
+    if (error) {
+      logger.error('Failed to save property', {
+        requestId: req.requestId,
+        propertyId,
+        error: error.message,
+        userId: req.user!.id
+      });
+
+      if (error.code === '23503') { // Foreign key violation
+        throw createApiError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      throw createApiError('Failed to save property', 500, 'SAVE_FAILED');
+    }
+
+    logger.info('Property saved', {
+      requestId: req.requestId,
+      propertyId,
+      userId: req.user!.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Property saved',
+      data
+    });
+  })
+);
+
+/**
+ * Merge favourites collected while signed out into the account
+ */
+router.post('/merge',
+  validate(savedPropertySchemas.merge),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { propertyIds } = req.body;
+
+    const { data: added, error } = await DatabaseService.savedProperties.merge(req.user!.id, propertyIds);
+
+    if (error) {
+      logger.error('Failed to merge saved properties', {
+        requestId: req.requestId,
+        count: propertyIds.length,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to merge saved properties', 500, 'MERGE_FAILED');
+    }
+
+    const { data, error: fetchError } = await DatabaseService.savedProperties.getAll(req.user!.id);
+
+    if (fetchError) {
+      throw createApiError('Failed to fetch saved properties', 500, 'FETCH_FAILED');
+    }
+
+    logger.info('Saved properties merged', {
+      requestId: req.requestId,
+      submitted: propertyIds.length,
+      added,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      data: data || [],
+      meta: {
+        total: data?.length || 0,
+        added
+      }
+    });
+  })
+);
+
+/**
+ * Update the notes on a saved property
+ */
+router.patch('/:propertyId',
+  validate({
+    params: savedPropertySchemas.propertyParam,
+    body: savedPropertySchemas.updateNotes.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const propertyId = req.params.propertyId as string;
+
+    const { data, error } = await DatabaseService.savedProperties.updateNotes(
+      req.user!.id,
+      propertyId,
+      req.body.notes || null
+    );
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Saved property not found', 404, 'SAVED_PROPERTY_NOT_FOUND');
+      }
+
+      logger.error('Failed to update saved property notes', {
+        requestId: req.requestId,
+        propertyId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to update saved property', 500, 'UPDATE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      message: 'Notes updated',
+      data
+    });
+  })
+);
+
+/**
+ * Remove a property from the saved list
+ */
+router.delete('/:propertyId',
+  validate({ params: savedPropertySchemas.propertyParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const propertyId = req.params.propertyId as string;
+
+    const { data: removed, error } = await DatabaseService.savedProperties.remove(req.user!.id, propertyId);
+
+    if (error) {
+      logger.error('Failed to remove saved property', {
+        requestId: req.requestId,
+        propertyId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to remove saved property', 500, 'DELETE_FAILED');
+    }
+
+    if (!removed) {
+      throw createApiError('Saved property not found', 404, 'SAVED_PROPERTY_NOT_FOUND');
+    }
+
+    logger.info('Saved property removed', {
+      requestId: req.requestId,
+      propertyId,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Property removed from saved list'
+    });
+  })
+);
+
+export default router;
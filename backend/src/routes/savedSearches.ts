@@ -0,0 +1,161 @@
+/**
+ * Saved Searches Routes
+ * Handles the signed-in user's saved listing searches (mounted at /api/v1/users/me/saved-searches)
+ */
+
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/cloudSqlService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, savedSearchSchemas, commonSchemas } from '../middleware/validationMiddleware';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Paging is per visit, not part of what was searched for
+ */
+const stripPaging = (query: Record<string, any>) => {
+  const { page: _page, limit: _limit, ...rest } = query;
+  return rest;
+};
+
+/**
+ * Get the current user's saved searches (with unread alert counts)
+ */
+router.get('/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.savedSearches.getAll(req.user!.id);
+
+    if (error) {
+      logger.error('Failed to fetch saved searches', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch saved searches', 500, 'FETCH_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      meta: {
+        total: data?.length || 0
+      }
+    });
+  })
+);
+
+/**
+ * Save a search
+ */
+router.post('/',
+  validate(savedSearchSchemas.create),
+  asyncHandler(async (req: Request, res: Response) => {
+    const searchData = {
+      ...req.body,
+      query: stripPaging(req.body.query)
+    };
+
+    const { data, error } = await DatabaseService.savedSearches.create(req.user!.id, searchData);
+
+    if (error) {
+      logger.error('Failed to save search', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to save search', 500, 'CREATE_FAILED');
+    }
+
+    logger.info('Search saved', {
+      requestId: req.requestId,
+      savedSearchId: data.id,
+      alertsEnabled: data.alerts_enabled,
+      userId: req.user!.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Search saved',
+      data
+    });
+  })
+);
+
+/**
+ * Rename a saved search, change its criteria or toggle its alerts
+ */
+router.patch('/:id',
+  validate({
+    params: commonSchemas.uuidParam,
+    body: savedSearchSchemas.update.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const updates = req.body.query
+      ? { ...req.body, query: stripPaging(req.body.query) }
+      : req.body;
+
+    const { data, error } = await DatabaseService.savedSearches.update(req.user!.id, id, updates);
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Saved search not found', 404, 'SAVED_SEARCH_NOT_FOUND');
+      }
+
+      logger.error('Failed to update saved search', {
+        requestId: req.requestId,
+        savedSearchId: id,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to update saved search', 500, 'UPDATE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      message: 'Saved search updated',
+      data
+    });
+  })
+);
+
+/**
+ * Delete a saved search (and its alerts)
+ */
+router.delete('/:id',
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const { data: removed, error } = await DatabaseService.savedSearches.delete(req.user!.id, id);
+
+    if (error) {
+      logger.error('Failed to delete saved search', {
+        requestId: req.requestId,
+        savedSearchId: id,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to delete saved search', 500, 'DELETE_FAILED');
+    }
+
+    if (!removed) {
+      throw createApiError('Saved search not found', 404, 'SAVED_SEARCH_NOT_FOUND');
+    }
+
+    logger.info('Saved search deleted', {
+      requestId: req.requestId,
+      savedSearchId: id,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Saved search deleted'
+    });
+  })
+);
+
+export default router;
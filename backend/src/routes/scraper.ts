@@ -1,132 +1,98 @@
 /**
  * Scraper Routes
  * 
- * This service builds MagicBricks search URLs from user parameters,
+ * This service builds listing portal search URLs from user parameters,
  * then uses Firecrawl to scrape those URLs and extract structured property data.
  * 
  * Flow:
- * 1. User provides search parameters (location, price, etc.) OR direct URL
- * 2. We build MagicBricks search URL using UrlBuilderService
+ * 1. User provides search parameters (portal, location, price, etc.) OR direct URL
+ * 2. We build the portal's search URL using UrlBuilderService (GET /sources lists the portals)
  * 3. We use Firecrawl's /v2/scrape or /v2/crawl to scrape the URL(s)
  * 4. We use Firecrawl's JSON extraction to get structured property data
  * 5. We transform and validate the data
  * 6. User reviews and imports selected properties
+ *
+ * POST /jobs runs steps 2-5 (and optionally C1 extraction) in the scrape job worker instead,
+ * streaming progress from GET /jobs/:id/events until the job is ready for review
+ *
+ * /schedules re-run presets on a cron schedule; what changed since the listings were
+ * imported is queued at /changes for review instead of being imported again
+ *
+ * Listings that look like existing properties are flagged at /duplicates/check and skipped by
+ * /import; /duplicates and /merges fold duplicate properties together, keeping both originals
+ *
+ * /import runs as one idempotent batch (all-or-nothing or best-effort) whose per-row report is
+ * kept at /import/:id/report
  */
 
 import { Router, Request, Response } from 'express';
-import { DatabaseService } from '../services/cloudSqlService';
-import { FirecrawlService } from '../services/firecrawlService';
+import { DatabaseService, ScrapeJobStatus } from '../services/cloudSqlService';
 import { UrlBuilderService } from '../services/urlBuilderService';
 import { asyncHandler, createApiError } from '../middleware/errorHandler';
-import { validate, scraperSchemas } from '../middleware/validationMiddleware';
-// import { requireRole } from '../middleware/authMiddleware'; // Unused import
+import { validate, scraperSchemas, commonSchemas } from '../middleware/validationMiddleware';
+import { authMiddleware, requireRole } from '../middleware/authMiddleware';
+import { notifyScraperImportCompleted } from '../services/notificationService';
+import { parseList } from '../utils/propertyFilters';
 import { createLogger } from '../utils/logger';
+import { ScrapeJobService } from '../services/scrapeJobService';
+import { ScrapeScheduleService } from '../services/scrapeScheduleService';
+import { PropertyDuplicateService } from '../services/propertyDuplicateService';
+import { PropertyImportService } from '../services/propertyImportService';
+import { getLlmCaller } from '../services/llmUsageService';
 import { 
-  ScrapeResult, 
   BulkImportRequest, 
-  BulkImportResult, 
-  SearchPreset 
+  SearchParameters
 } from '../types/scraper';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 const logger = createLogger('ScraperRoutes');
 
+// Job states a worker is still on; progress streams end at any other
+const SCRAPE_JOB_RUNNING_STATUSES: ScrapeJobStatus[] = ['queued', 'running', 'extracting'];
+const SCRAPE_JOB_POLL_MS = 5000;
+
+/**
+ * Reject search parameters the portal's URL builder cannot use
+ */
+const assertValidSearchParams = (searchParams: SearchParameters) => {
+  const validationErrors = UrlBuilderService.validateSearchParams(searchParams);
+  if (validationErrors.length > 0) {
+    throw createApiError(
+      `Invalid search parameters: ${validationErrors.join(', ')}`, 
+      400, 
+      'INVALID_SEARCH_PARAMS',
+      { validationErrors }
+    );
+  }
+};
+
 /**
- * POST /scrape - Main scraping endpoint (no auth required for testing)
- * Accepts either direct URL or search parameters to build URL
+ * POST /scrape - Scrape a single page inside the request (admin only)
+ * Accepts either direct URL or search parameters to build URL. Crawls and C1 extraction
+ * run as background jobs (POST /jobs)
  */
 router.post('/scrape', 
+  authMiddleware,
+  requireRole('admin'),
   validate(scraperSchemas.scrape),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = uuidv4();
     logger.info('Scraping request started', { 
       requestId, 
       body: req.body,
-      userId: (req as any).user?.id || 'anonymous'
+      userId: req.user!.id
     });
 
     try {
-      const { directUrl, searchParams, useCrawl, maxPages, waitFor, includeTags, excludeTags } = req.body;
-      let result: ScrapeResult;
-
-      // Build Firecrawl config from request parameters
-      const firecrawlOptions = {
-        waitFor,
-        includeTags,
-        excludeTags
-      };
+      const { directUrl, searchParams } = req.body;
 
       if (searchParams) {
         // Use search parameters to build URL and scrape
         logger.info('Scraping with search parameters', { requestId, searchParams });
-        
-        // Validate search parameters
-        const validationErrors = UrlBuilderService.validateSearchParams(searchParams);
-        if (validationErrors.length > 0) {
-          throw createApiError(
-            `Invalid search parameters: ${validationErrors.join(', ')}`, 
-            400, 
-            'INVALID_SEARCH_PARAMS',
-            { validationErrors }
-          );
-        }
-
-        result = await FirecrawlService.scrapeWithSearchParams(searchParams, {
-          useCrawl: useCrawl || false,
-          maxPages: maxPages || 1,
-          firecrawlOptions
-        });
-
+        assertValidSearchParams(searchParams);
       } else if (directUrl) {
-        // Use direct URL for scraping
         logger.info('Scraping with direct URL', { requestId, directUrl });
-
-        if (useCrawl && maxPages && maxPages > 1) {
-          // Use crawl for multiple pages
-          const firecrawlResponse = await FirecrawlService.crawlPropertyPages(directUrl, maxPages, { 
-            scrapeOptions: firecrawlOptions // Pass options under scrapeOptions key
-          } as any);
-          const scrapedProperties = await FirecrawlService.transformFirecrawlData(firecrawlResponse, directUrl);
-          
-          result = {
-            success: true,
-            data: scrapedProperties.map(property => ({
-              ...property,
-              validationErrors: FirecrawlService.validateScrapedProperty(property)
-            })),
-            metadata: {
-              url: directUrl,
-              scrapedAt: new Date().toISOString(),
-              totalFound: scrapedProperties.length,
-              firecrawlJobId: firecrawlResponse.id
-            }
-          };
-        } else {
-          // Use single page scrape - RETURN ALL RAW DATA
-          const firecrawlResponse = await FirecrawlService.scrapePropertyUrl(directUrl, firecrawlOptions);
-          
-          logger.info('Raw Firecrawl response received', {
-            requestId,
-            hasRawData: !!firecrawlResponse.rawFirecrawlData,
-            responseKeys: Object.keys(firecrawlResponse),
-            dataKeys: Object.keys(firecrawlResponse.data || {})
-          });
-          
-          result = {
-            success: true,
-            data: firecrawlResponse.data || firecrawlResponse.rawFirecrawlData || [], // Return raw data directly
-            rawFirecrawlData: firecrawlResponse.rawFirecrawlData, // Include complete raw response
-            metadata: {
-              url: directUrl,
-              scrapedAt: new Date().toISOString(),
-              totalFound: 1, // Single page scrape
-              rawDataMode: true,
-              firecrawlFormats: firecrawlResponse.rawFirecrawlData ? Object.keys(firecrawlResponse.rawFirecrawlData) : []
-            }
-          };
-        }
-
       } else {
         // This should not happen due to validation, but just in case
         throw createApiError(
@@ -136,6 +102,8 @@ router.post('/scrape',
         );
       }
 
+      const result = await ScrapeJobService.performScrape(req.body);
+
       logger.info('Scraping request completed successfully', { 
         requestId, 
         totalFound: result.metadata.totalFound,
@@ -171,6 +139,284 @@ router.post('/scrape',
   })
 );
 
+/**
+ * Map a scrape job service error onto an API error
+ */
+const scrapeJobError = (error: { message: string; code?: string }, id: string, operation: string) => {
+  if (error.code === 'NOT_FOUND') {
+    return createApiError('Scrape job not found', 404, 'SCRAPE_JOB_NOT_FOUND');
+  }
+  if (error.code === 'INVALID_STATE') {
+    return createApiError(error.message, 409, 'SCRAPE_JOB_INVALID_STATE');
+  }
+
+  logger.error(`Failed to ${operation} scrape job`, { id, error: error.message });
+  return createApiError(`Failed to ${operation} scrape job`, 500, 'SCRAPE_JOB_ERROR');
+};
+
+/**
+ * POST /jobs - Queue a scrape, optionally followed by C1 extraction (admin only)
+ * Answers 202 with the queued job; follow it with GET /jobs/:id/events
+ */
+router.post('/jobs',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.createJob),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (req.body.searchParams) {
+      assertValidSearchParams(req.body.searchParams);
+    }
+
+    // Run stats are only recorded against presets the admin owns or that are shared
+    if (req.body.presetId) {
+      const { error: presetError } = await DatabaseService.searchPresets.getById(req.user!.id, req.body.presetId);
+      if (presetError) {
+        if (presetError.code === 'NOT_FOUND') {
+          throw createApiError('Search preset not found', 404, 'PRESET_NOT_FOUND');
+        }
+        logger.error('Failed to get search preset', { error: presetError.message, id: req.body.presetId });
+        throw createApiError('Failed to retrieve search preset', 500, 'PRESET_GET_ERROR');
+      }
+    }
+
+    const { data, error } = await ScrapeJobService.enqueueScrapeJob(req.body, getLlmCaller(req));
+
+    if (error) {
+      logger.error('Failed to queue scrape job', { error: error.message, userId: req.user!.id });
+      throw createApiError('Failed to queue scrape job', 500, 'SCRAPE_JOB_ERROR');
+    }
+
+    logger.info('Scrape job queued', {
+      jobId: data.id,
+      sourceUrl: data.source_url,
+      extract: req.body.extract === true,
+      userId: req.user!.id
+    });
+
+    res.status(202).json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * GET /jobs - Scrape jobs, newest first, without their results (admin only)
+ * Query Parameters:
+ *   - status: Comma-separated statuses to include
+ *   - page, limit: Pagination (default 1, 20)
+ */
+router.get('/jobs',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.listJobs),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ScrapeJobService.listScrapeJobs(
+      { statuses: parseList(req.query.status) as ScrapeJobStatus[] | undefined },
+      {
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      }
+    );
+
+    if (error) {
+      logger.error('Failed to list scrape jobs', { error: error.message });
+      throw createApiError('Failed to retrieve scrape jobs', 500, 'SCRAPE_JOB_ERROR');
+    }
+
+    res.json({
+      success: true,
+      data: data.rows,
+      pagination: {
+        page: data.page,
+        limit: data.limit,
+        total: data.total,
+        totalPages: Math.ceil(data.total / data.limit)
+      }
+    });
+  })
+);
+
+/**
+ * GET /jobs/:id - A scrape job with its scraped data and extracted listings (admin only)
+ */
+router.get('/jobs/:id',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await ScrapeJobService.getScrapeJob(id);
+
+    if (error) {
+      throw scrapeJobError(error, id, 'retrieve');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * GET /jobs/:id/events - Server-sent progress of a scrape job (admin only)
+ * Sends the job as it is now, then each change, and [DONE] once it stops running
+ */
+router.get('/jobs/:id/events',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data: job, error } = await ScrapeJobService.getScrapeJobSummary(id);
+
+    if (error) {
+      throw scrapeJobError(error, id, 'retrieve');
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    let closed = false;
+    let lastUpdatedAt = '';
+    let poll: NodeJS.Timeout | undefined;
+    let unsubscribe = () => undefined as void;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(poll);
+      unsubscribe();
+      res.end();
+    };
+
+    const send = (update: any) => {
+      if (closed) return;
+      // The same change can arrive from the worker and from the poll
+      const updatedAt = new Date(update.updated_at).toISOString();
+      if (updatedAt === lastUpdatedAt) return;
+      lastUpdatedAt = updatedAt;
+
+      res.write(`data: ${JSON.stringify(update)}\n\n`);
+      if (!SCRAPE_JOB_RUNNING_STATUSES.includes(update.status)) {
+        res.write('data: [DONE]\n\n');
+        close();
+        return;
+      }
+      res.flush();
+    };
+
+    unsubscribe = ScrapeJobService.subscribeToScrapeJob(id, send);
+    // Jobs run by another instance are only seen by polling; the comment keeps proxies from timing out
+    poll = setInterval(async () => {
+      const { data: latest } = await ScrapeJobService.getScrapeJobSummary(id);
+      if (latest) send(latest);
+      if (!closed) {
+        res.write(': keep-alive\n\n');
+        res.flush();
+      }
+    }, SCRAPE_JOB_POLL_MS);
+    req.on('close', close);
+
+    send(job);
+  })
+);
+
+/**
+ * POST /jobs/:id/cancel - Stop a queued or running job (admin only)
+ */
+router.post('/jobs/:id/cancel',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await ScrapeJobService.cancelScrapeJob(id);
+
+    if (error) {
+      throw scrapeJobError(error, id, 'cancel');
+    }
+
+    logger.info('Scrape job cancelled', { jobId: id, userId: req.user!.id });
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * POST /jobs/:id/retry - Queue a failed or cancelled job again (admin only)
+ * A scrape that already succeeded is kept and only the extraction is rerun
+ */
+router.post('/jobs/:id/retry',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await ScrapeJobService.retryScrapeJob(id);
+
+    if (error) {
+      throw scrapeJobError(error, id, 'retry');
+    }
+
+    logger.info('Scrape job retried', { jobId: id, userId: req.user!.id });
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * POST /jobs/:id/extract - Run C1 extraction on a scraped page waiting for review (admin only)
+ */
+router.post('/jobs/:id/extract',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await ScrapeJobService.extractScrapeJob(id);
+
+    if (error) {
+      throw scrapeJobError(error, id, 'extract');
+    }
+
+    res.status(202).json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * POST /jobs/:id/complete - Close a reviewed job without importing from it (admin only)
+ */
+router.post('/jobs/:id/complete',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await ScrapeJobService.completeScrapeJob(id);
+
+    if (error) {
+      throw scrapeJobError(error, id, 'complete');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
 /**
  * POST /preview - Preview endpoint (no auth required for testing)
  * Shows what URL would be built and provides preview without full scraping
@@ -196,7 +442,7 @@ router.post('/preview',
           );
         }
 
-        const constructedUrl = UrlBuilderService.buildMagicBricksSearchUrl(searchParams);
+        const constructedUrl = UrlBuilderService.buildSearchUrl(searchParams);
         
         res.json({
           success: true,
@@ -251,171 +497,37 @@ router.post('/preview',
 );
 
 /**
- * POST /import - Bulk import endpoint (no auth required for testing)
- * Imports scraped properties into the database, including C1-processed properties
+ * POST /import - Bulk import endpoint (admin only)
+ * Imports scraped properties into the database, including C1-processed properties, as one batch:
+ * mode 'atomic' imports all of them or none, 'best_effort' (default) every row that can be.
+ * A retry by the same admin with the same Idempotency-Key header (or idempotencyKey) returns the
+ * first result.
  */
 router.post('/import',
+  authMiddleware,
+  requireRole('admin'),
   validate(scraperSchemas.bulkImport),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = uuidv4();
     logger.info('Bulk import request started', { 
       requestId, 
       propertyCount: req.body.properties?.length,
-      userId: (req as any).user?.id 
+      userId: req.user!.id
     });
 
-    try {
-      const { properties, skipValidation }: BulkImportRequest = req.body;
-      const userId = (req as any).user?.id || null; // Allow anonymous imports for testing
-      
-      const result: BulkImportResult = {
-        success: true,
-        imported: 0,
-        failed: 0,
-        errors: [],
-        createdIds: []
-      };
-
-      for (let i = 0; i < properties.length; i++) {
-        const property = properties[i];
-        
-        if (!property) {
-          result.errors.push({ 
-            index: i, 
-            error: 'Property data is undefined' 
-          });
-          result.failed++;
-          continue;
-        }
-
-        try {
-          // Validate property if not skipped
-          if (!skipValidation) {
-            const validationErrors = FirecrawlService.validateScrapedProperty(property);
-            if (validationErrors.length > 0) {
-              result.errors.push({ 
-                index: i, 
-                error: `Validation failed: ${validationErrors.join(', ')}` 
-              });
-              result.failed++;
-              continue;
-            }
-          }
-
-          // Transform scraped property to database property format
-          const isC1Processed = property.c1Metadata?.extractedBy === 'c1';
-          
-          const dbProperty = {
-            title: property.title,
-            description: property.description,
-            location: property.location,
-            price: property.price?.amount || null,
-            currency: property.price?.currency || 'INR',
-            price_period: property.price?.period || 'monthly',
-            area_sqft: property.size?.area || null,
-            area_unit: property.size?.unit || 'sqft',
-            property_type: 'commercial', // All scraped properties are commercial
-            amenities: property.amenities || [],
-            features: {
-              furnished: property.features?.furnished,
-              parking: property.features?.parking,
-              wifi: property.features?.wifi,
-              ac: property.features?.ac,
-              security: property.features?.security,
-              cafeteria: property.features?.cafeteria,
-              elevator: property.features?.elevator,
-              power_backup: property.features?.powerBackup,
-              conference_room: property.features?.conferenceRoom
-            },
-            contact_info: {
-              phone: property.contact?.phone,
-              email: property.contact?.email,
-              contact_person: property.contact?.contactPerson
-            },
-            media: {
-              images: property.media?.images || [],
-              videos: property.media?.videos || []
-            },
-            availability: {
-              status: property.availability?.status || 'available',
-              available_from: property.availability?.date || null
-            },
-            source_url: property.sourceUrl,
-            scraped_at: property.scrapedAt || new Date().toISOString(),
-            search_params: property.searchParams || null,
-            created_by: userId || null, // Allow anonymous imports for testing
-            status: 'draft', // Import as draft for review
-            tags: [
-              'imported', 
-              'scraped',
-              ...(isC1Processed ? ['c1-processed'] : []),
-              ...(isC1Processed && property.c1Metadata?.confidence && property.c1Metadata.confidence >= 0.8 ? ['high-confidence'] : [])
-            ],
-            // Add C1 metadata to the database record if present
-            extraction_metadata: isC1Processed && property.c1Metadata ? {
-              extractedBy: property.c1Metadata!.extractedBy,
-              confidence: property.c1Metadata!.confidence,
-              extractionWarnings: property.c1Metadata!.extractionWarnings,
-              processedAt: property.c1Metadata!.processedAt,
-              fieldsExtracted: property.c1Metadata!.fieldsExtracted,
-              fieldsMissing: property.c1Metadata!.fieldsMissing
-            } : null
-          };
-
-          // Create property in database
-          const createdProperty = await DatabaseService.properties.create(dbProperty);
-          if (createdProperty?.data?.id) {
-            result.createdIds.push(createdProperty.data.id);
-            result.imported++;
-          } else {
-            throw new Error('Failed to create property - no ID returned');
-          }
-
-          logger.debug('Property imported successfully', { 
-            requestId, 
-            index: i, 
-            propertyId: createdProperty?.data?.id,
-            title: property?.title 
-          });
-
-        } catch (propertyError: any) {
-          logger.error('Failed to import individual property', { 
-            requestId, 
-            index: i, 
-            error: propertyError.message,
-            property: { title: property?.title, sourceUrl: property?.sourceUrl }
-          });
+    const request: BulkImportRequest = req.body;
+    const userId = req.user!.id;
+    const idempotencyKey = req.get('Idempotency-Key') || request.idempotencyKey;
+    if (idempotencyKey && idempotencyKey.length > 200) {
+      throw createApiError('Idempotency key must be at most 200 characters', 400, 'VALIDATION_ERROR', { requestId });
+    }
 
-          result.errors.push({ 
-            index: i, 
-            error: propertyError.message 
-          });
-          result.failed++;
-        }
+    const { data: result, error } = await PropertyImportService.importProperties(request, userId, idempotencyKey);
+    if (error) {
+      logger.error('Bulk import request failed', { requestId, error: error.message });
+      if (error.code === 'IDEMPOTENCY_CONFLICT') {
+        throw createApiError(error.message, 409, 'IDEMPOTENCY_CONFLICT', { requestId, idempotencyKey });
       }
-
-      // Update overall success status
-      result.success = result.imported > 0;
-
-      logger.info('Bulk import request completed', { 
-        requestId, 
-        imported: result.imported, 
-        failed: result.failed,
-        totalAttempted: properties.length 
-      });
-
-      res.json({
-        ...result,
-        requestId
-      });
-
-    } catch (error: any) {
-      logger.error('Bulk import request failed', { 
-        requestId, 
-        error: error.message, 
-        stack: error.stack 
-      });
-
       throw createApiError(
         'Bulk import failed: ' + error.message,
         500,
@@ -423,6 +535,56 @@ router.post('/import',
         { requestId }
       );
     }
+
+    logger.info('Bulk import request completed', { 
+      requestId, 
+      batchId: result.batchId,
+      status: result.status,
+      replayed: result.replayed,
+      imported: result.imported, 
+      failed: result.failed,
+      skipped: result.skipped,
+      totalAttempted: request.properties.length 
+    });
+
+    // A replayed batch was reported and closed its job the first time
+    if (!result.replayed) {
+      notifyScraperImportCompleted({ ...result, total: request.properties.length }, userId);
+
+      // Close the scrape job the listings came from; the import stands either way
+      if (request.jobId && result.imported > 0) {
+        const { error: jobError } = await ScrapeJobService.completeScrapeJob(request.jobId);
+        if (jobError) {
+          logger.warn('Could not mark scrape job done after import', { requestId, jobId: request.jobId, error: jobError.message });
+        }
+      }
+    }
+
+    res.json({
+      ...result,
+      requestId
+    });
+  })
+);
+
+/**
+ * GET /import/:id/report - Per-row report of an import batch (admin only)
+ */
+router.get('/import/:id/report',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await PropertyImportService.getImportReport(id);
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Import batch not found', 404, 'IMPORT_NOT_FOUND');
+      }
+      throw createApiError('Failed to get import report: ' + error.message, 500, 'IMPORT_REPORT_ERROR');
+    }
+
+    res.json({ success: true, data });
   })
 );
 
@@ -464,7 +626,7 @@ router.get('/history',
             whereClause += ` AND id IN (
               SELECT pta.property_id 
               FROM property_tag_assignments pta 
-              JOIN property_tags pt ON pta.tag_id = pt.id 
+              JOIN tags pt ON pta.tag_id = pt.id 
               WHERE pt.name = 'c1-processed' AND pt.is_active = true
             )`;
             break;
@@ -473,12 +635,12 @@ router.get('/history',
             whereClause += ` AND id IN (
               SELECT pta1.property_id 
               FROM property_tag_assignments pta1 
-              JOIN property_tags pt1 ON pta1.tag_id = pt1.id 
+              JOIN tags pt1 ON pta1.tag_id = pt1.id 
               WHERE pt1.name = 'scraped' AND pt1.is_active = true
               AND pta1.property_id NOT IN (
                 SELECT pta2.property_id 
                 FROM property_tag_assignments pta2 
-                JOIN property_tags pt2 ON pta2.tag_id = pt2.id 
+                JOIN tags pt2 ON pta2.tag_id = pt2.id 
                 WHERE pt2.name = 'c1-processed' AND pt2.is_active = true
               )
             )`;
@@ -488,7 +650,7 @@ router.get('/history',
             whereClause += ` AND id NOT IN (
               SELECT pta.property_id 
               FROM property_tag_assignments pta 
-              JOIN property_tags pt ON pta.tag_id = pt.id 
+              JOIN tags pt ON pta.tag_id = pt.id 
               WHERE pt.name = 'scraped' AND pt.is_active = true
             )`;
             break;
@@ -497,7 +659,7 @@ router.get('/history',
 
       // Query properties with sourceUrl (scraped properties)
       const query = `
-        SELECT id, title, location, source_url, scraped_at, search_params, created_at, status,
+        SELECT id, title, location, source_url, source_adapter, scraped_at, search_params, created_at, status,
                extraction_metadata
         FROM properties 
         ${whereClause}
@@ -558,125 +720,544 @@ router.get('/history',
 );
 
 /**
- * POST /presets - Save search preset (no auth required for testing)
+ * Map a scraper preset request body onto search_presets columns
+ */
+const toPresetRow = (body: Record<string, any>) => ({
+  ...(body.name !== undefined ? { name: body.name } : {}),
+  ...(body.description !== undefined ? { description: body.description || null } : {}),
+  ...(body.searchParams !== undefined ? { search_params: body.searchParams } : {}),
+  ...(body.isShared !== undefined ? { is_shared: body.isShared } : {})
+});
+
+/**
+ * POST /presets - Save search preset (admin only)
  */
 router.post('/presets',
+  authMiddleware,
+  requireRole('admin'),
   validate(scraperSchemas.savePreset),
   asyncHandler(async (req: Request, res: Response) => {
-    try {
-      const { name, description, searchParams } = req.body;
-      const userId = (req as any).user?.id;
-
-      const preset: SearchPreset = {
-        id: uuidv4(),
-        name,
-        description,
-        searchParams,
-        createdAt: new Date().toISOString()
-      };
-
-      // Store preset in database (would need a search_presets table)
-      // For now, we'll return the preset as if it was saved
-      // TODO: Implement proper database storage for presets
-
-      logger.info('Search preset saved', { 
-        presetId: preset.id, 
-        name: preset.name, 
-        userId 
-      });
+    const { name, description, searchParams, isShared } = req.body;
+    const { data, error } = await DatabaseService.searchPresets.create(req.user!.id, {
+      name,
+      description: description || null,
+      search_params: searchParams,
+      is_shared: isShared === true
+    });
 
-      res.status(201).json({
-        success: true,
-        data: preset
-      });
+    if (error) {
+      if (error.code === 'DUPLICATE') {
+        throw createApiError(error.message, 409, 'PRESET_NAME_EXISTS');
+      }
 
-    } catch (error: any) {
-      logger.error('Failed to save search preset', { error: error.message });
-      throw createApiError(
-        'Failed to save search preset: ' + error.message,
-        500,
-        'PRESET_SAVE_ERROR'
-      );
+      logger.error('Failed to save search preset', { error: error.message, userId: req.user!.id });
+      throw createApiError('Failed to save search preset', 500, 'PRESET_SAVE_ERROR');
     }
+
+    logger.info('Search preset saved', {
+      presetId: data.id,
+      name: data.name,
+      shared: data.is_shared,
+      userId: req.user!.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data
+    });
   })
 );
 
 /**
- * GET /presets - Get saved search presets (no auth required for testing)
+ * GET /presets - Own presets plus those shared by other admins (admin only)
  */
 router.get('/presets',
-  asyncHandler(async (_req: Request, res: Response) => {
-    try {
-      // TODO: Implement proper database retrieval for presets
-      // For now, return empty array
-      
-      res.json({
-        success: true,
-        data: [],
-        message: 'Preset storage not yet implemented in database schema'
-      });
+  authMiddleware,
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.searchPresets.getAccessible(req.user!.id);
 
-    } catch (error: any) {
-      logger.error('Failed to get search presets', { error: error.message });
-      throw createApiError(
-        'Failed to retrieve search presets: ' + error.message,
-        500,
-        'PRESET_GET_ERROR'
-      );
+    if (error) {
+      logger.error('Failed to get search presets', { error: error.message, userId: req.user!.id });
+      throw createApiError('Failed to retrieve search presets', 500, 'PRESET_GET_ERROR');
     }
+
+    res.json({
+      success: true,
+      data: data || [],
+      meta: {
+        total: data?.length || 0
+      }
+    });
   })
 );
 
 /**
- * GET /presets/:id - Get specific preset (no auth required for testing)
+ * GET /presets/:id - Get specific preset (admin only)
  */
 router.get('/presets/:id',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
   asyncHandler(async (req: Request, res: Response) => {
-    try {
-      // const { id } = req.params;
-      
-      // TODO: Implement proper database retrieval for specific preset
-      
-      res.json({
-        success: false,
-        error: 'Preset not found',
-        message: 'Preset storage not yet implemented in database schema'
-      });
+    const id = req.params.id as string;
+    const { data, error } = await DatabaseService.searchPresets.getById(req.user!.id, id);
 
-    } catch (error: any) {
-      logger.error('Failed to get search preset', { error: error.message, id: req.params.id });
-      throw createApiError(
-        'Failed to retrieve search preset: ' + error.message,
-        500,
-        'PRESET_GET_ERROR'
-      );
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Search preset not found', 404, 'PRESET_NOT_FOUND');
+      }
+
+      logger.error('Failed to get search preset', { error: error.message, id });
+      throw createApiError('Failed to retrieve search preset', 500, 'PRESET_GET_ERROR');
     }
+
+    res.json({
+      success: true,
+      data
+    });
   })
 );
 
 /**
- * DELETE /presets/:id - Delete preset (no auth required for testing)
+ * PUT /presets/:id - Update or overwrite a preset (owner only)
+ */
+router.put('/presets/:id',
+  authMiddleware,
+  requireRole('admin'),
+  validate({
+    params: commonSchemas.uuidParam,
+    body: scraperSchemas.updatePreset.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await DatabaseService.searchPresets.update(req.user!.id, id, toPresetRow(req.body));
+
+    if (error) {
+      if (error.code === 'NOT_FOUND') {
+        throw createApiError('Search preset not found', 404, 'PRESET_NOT_FOUND');
+      }
+      if (error.code === 'DUPLICATE') {
+        throw createApiError(error.message, 409, 'PRESET_NAME_EXISTS');
+      }
+
+      logger.error('Failed to update search preset', { error: error.message, id, userId: req.user!.id });
+      throw createApiError('Failed to update search preset', 500, 'PRESET_UPDATE_ERROR');
+    }
+
+    logger.info('Search preset updated', { presetId: id, userId: req.user!.id });
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * DELETE /presets/:id - Delete preset (owner only)
  */
 router.delete('/presets/:id',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
   asyncHandler(async (req: Request, res: Response) => {
-    try {
-      
-      // TODO: Implement proper database deletion for preset
-      
-      res.json({
-        success: false,
-        error: 'Preset not found',
-        message: 'Preset storage not yet implemented in database schema'
-      });
+    const id = req.params.id as string;
+    const { data: deleted, error } = await DatabaseService.searchPresets.delete(req.user!.id, id);
 
-    } catch (error: any) {
-      logger.error('Failed to delete search preset', { error: error.message, id: req.params.id });
-      throw createApiError(
-        'Failed to delete search preset: ' + error.message,
-        500,
-        'PRESET_DELETE_ERROR'
-      );
+    if (error) {
+      logger.error('Failed to delete search preset', { error: error.message, id, userId: req.user!.id });
+      throw createApiError('Failed to delete search preset', 500, 'PRESET_DELETE_ERROR');
+    }
+
+    if (!deleted) {
+      throw createApiError('Search preset not found', 404, 'PRESET_NOT_FOUND');
+    }
+
+    logger.info('Search preset deleted', { presetId: id, userId: req.user!.id });
+
+    res.json({
+      success: true,
+      message: 'Search preset deleted'
+    });
+  })
+);
+
+/**
+ * Map a scrape schedule or change service error onto an API error
+ */
+const scheduleError = (error: { message: string; code?: string }, subject: 'schedule' | 'change', operation: string) => {
+  if (error.code === 'NOT_FOUND') {
+    return createApiError(error.message, 404, subject === 'schedule' ? 'SCHEDULE_NOT_FOUND' : 'SCRAPE_CHANGE_NOT_FOUND');
+  }
+  if (error.code === 'INVALID_STATE') {
+    return createApiError(error.message, 409, subject === 'schedule' ? 'SCHEDULE_INVALID_STATE' : 'SCRAPE_CHANGE_INVALID_STATE');
+  }
+
+  logger.error(`Failed to ${operation} scrape ${subject}`, { error: error.message });
+  return createApiError(`Failed to ${operation} scrape ${subject}`, 500, subject === 'schedule' ? 'SCHEDULE_ERROR' : 'SCRAPE_CHANGE_ERROR');
+};
+
+/**
+ * GET /schedules - Scheduled re-scrapes of search presets (admin only)
+ */
+router.get('/schedules',
+  authMiddleware,
+  requireRole('admin'),
+  asyncHandler(async (_req: Request, res: Response) => {
+    const { data, error } = await ScrapeScheduleService.listSchedules();
+
+    if (error) {
+      throw scheduleError(error, 'schedule', 'retrieve');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * POST /schedules - Re-scrape a search preset on a cron schedule, in UTC (admin only)
+ */
+router.post('/schedules',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.createSchedule),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ScrapeScheduleService.createSchedule(req.user!.id, req.body);
+
+    if (error) {
+      throw error.code === 'NOT_FOUND'
+        ? createApiError('Search preset not found', 404, 'PRESET_NOT_FOUND')
+        : scheduleError(error, 'schedule', 'create');
+    }
+
+    logger.info('Scrape schedule created', { scheduleId: data.id, presetId: data.preset_id, cron: data.cron, userId: req.user!.id });
+
+    res.status(201).json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * PUT /schedules/:id - Change a schedule's cadence, pages or pause it (admin only)
+ */
+router.put('/schedules/:id',
+  authMiddleware,
+  requireRole('admin'),
+  validate({
+    params: commonSchemas.uuidParam,
+    body: scraperSchemas.updateSchedule.body
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ScrapeScheduleService.updateSchedule(req.params.id as string, req.body);
+
+    if (error) {
+      throw scheduleError(error, 'schedule', 'update');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * DELETE /schedules/:id - Delete a schedule with its runs and change history (admin only)
+ */
+router.delete('/schedules/:id',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data: deleted, error } = await ScrapeScheduleService.deleteSchedule(req.params.id as string);
+
+    if (error) {
+      throw scheduleError(error, 'schedule', 'delete');
+    }
+    if (!deleted) {
+      throw createApiError('Scrape schedule not found', 404, 'SCHEDULE_NOT_FOUND');
+    }
+
+    res.json({
+      success: true,
+      message: 'Scrape schedule deleted'
+    });
+  })
+);
+
+/**
+ * POST /schedules/:id/run - Run an active schedule now (admin only)
+ */
+router.post('/schedules/:id/run',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ScrapeScheduleService.runScheduleNow(req.params.id as string);
+
+    if (error) {
+      throw scheduleError(error, 'schedule', 'run');
+    }
+
+    res.status(202).json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * GET /schedules/:id/runs - A schedule's latest runs with their change counts (admin only)
+ */
+router.get('/schedules/:id/runs',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ScrapeScheduleService.getScheduleRuns(req.params.id as string);
+
+    if (error) {
+      throw scheduleError(error, 'schedule', 'retrieve runs of');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * GET /changes - Review queue of differences found by scheduled scrapes (admin only)
+ * Query Parameters:
+ *   - status: pending, applied or dismissed
+ *   - scheduleId: Changes from one schedule
+ *   - type: Comma-separated change types (new, changed, disappeared)
+ *   - page, limit: Pagination (default 1, 20)
+ */
+router.get('/changes',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.listChanges),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ScrapeScheduleService.listChanges(
+      {
+        status: req.query.status as string | undefined,
+        scheduleId: req.query.scheduleId as string | undefined,
+        changeTypes: parseList(req.query.type)
+      },
+      {
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      }
+    );
+
+    if (error) {
+      throw scheduleError(error, 'change', 'retrieve');
+    }
+
+    res.json({
+      success: true,
+      data: data.rows,
+      pagination: {
+        page: data.page,
+        limit: data.limit,
+        total: data.total,
+        totalPages: Math.ceil(data.total / data.limit)
+      }
+    });
+  })
+);
+
+/**
+ * POST /changes/:id/apply - Apply a change to its property, or import a new listing as a draft (admin only)
+ */
+router.post('/changes/:id/apply',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { data, error } = await ScrapeScheduleService.applyChange(id, req.user!.id);
+
+    if (error) {
+      throw scheduleError(error, 'change', 'apply');
+    }
+
+    logger.info('Scrape change applied', { changeId: id, type: data.change_type, propertyId: data.property_id, userId: req.user!.id });
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * POST /changes/:id/dismiss - Leave the property as it is (admin only)
+ * The same difference is not raised again by later runs
+ */
+router.post('/changes/:id/dismiss',
+  authMiddleware,
+  requireRole('admin'),
+  validate({ params: commonSchemas.uuidParam }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await ScrapeScheduleService.dismissChange(req.params.id as string, req.user!.id);
+
+    if (error) {
+      throw scheduleError(error, 'change', 'dismiss');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * Map a duplicate/merge database error to an API error
+ */
+const duplicateError = (error: { message: string; code?: string }, operation: string) => {
+  if (error.code === 'NOT_FOUND') {
+    return createApiError(error.message, 404, 'PROPERTY_NOT_FOUND');
+  }
+
+  logger.error(`Failed to ${operation}`, { error: error.message });
+  return createApiError(`Failed to ${operation}`, 500, 'DUPLICATE_ERROR');
+};
+
+/**
+ * POST /duplicates/check - Flag listings that look like existing properties (admin only)
+ * Returns, per flagged listing index, the likely matches with why they matched
+ */
+router.post('/duplicates/check',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.checkDuplicates),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PropertyDuplicateService.findDuplicates(req.body.properties);
+
+    if (error) {
+      throw duplicateError(error, 'check listings for duplicates');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * GET /duplicates - Pairs of existing properties that look like the same space (admin only)
+ */
+router.get('/duplicates',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.listDuplicates),
+  asyncHandler(async (req: Request, res: Response) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const { data, error } = await PropertyDuplicateService.listDuplicatePairs(limit);
+
+    if (error) {
+      throw duplicateError(error, 'list duplicate properties');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * POST /duplicates/dismiss - Mark two properties as not duplicates (admin only)
+ */
+router.post('/duplicates/dismiss',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.dismissDuplicate),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PropertyDuplicateService.dismissDuplicatePair(
+      req.body.propertyId,
+      req.body.otherPropertyId,
+      req.user!.id
+    );
+
+    if (error) {
+      throw duplicateError(error, 'dismiss duplicate pair');
     }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * POST /merges - Merge a duplicate into the property kept, choosing each field's record (admin only)
+ */
+router.post('/merges',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.mergeProperties),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { targetId, sourceId, fieldSources } = req.body;
+    const { data, error } = await PropertyDuplicateService.mergeProperties(targetId, sourceId, fieldSources || {}, req.user!.id);
+
+    if (error) {
+      throw duplicateError(error, 'merge properties');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * GET /merges - Merge history with both original records, newest first (admin only)
+ */
+router.get('/merges',
+  authMiddleware,
+  requireRole('admin'),
+  validate(scraperSchemas.listMerges),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await PropertyDuplicateService.getMergeHistory({
+      propertyId: req.query.propertyId as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+    });
+
+    if (error) {
+      throw duplicateError(error, 'retrieve merge history');
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  })
+);
+
+/**
+ * GET /sources - Listing portals that can be searched, with the property types, filters and
+ * sort orders each supports (no auth required for testing)
+ */
+router.get('/sources',
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: UrlBuilderService.getSourcePortals()
+    });
   })
 );
 
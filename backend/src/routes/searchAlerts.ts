@@ -0,0 +1,77 @@
+/**
+ * Search Alerts Routes
+ * In-app inbox of saved search matches (mounted at /api/v1/users/me/search-alerts)
+ */
+
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/cloudSqlService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { validate, savedSearchSchemas } from '../middleware/validationMiddleware';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+/**
+ * Get the current user's alerts, newest first
+ */
+router.get('/',
+  validate(savedSearchSchemas.alertList),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = await DatabaseService.searchAlerts.getForUser(req.user!.id, {
+      unreadOnly: req.query.unreadOnly === 'true',
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 20
+    });
+
+    if (error) {
+      logger.error('Failed to fetch search alerts', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to fetch search alerts', 500, 'FETCH_FAILED');
+    }
+
+    const totalPages = Math.ceil(data.total / data.limit);
+
+    res.json({
+      success: true,
+      data: data.rows,
+      meta: {
+        page: data.page,
+        limit: data.limit,
+        total: data.total,
+        totalPages,
+        hasMore: data.page < totalPages,
+        unread: data.unread
+      }
+    });
+  })
+);
+
+/**
+ * Mark alerts read (all unread alerts when no IDs are given)
+ */
+router.patch('/read',
+  validate(savedSearchSchemas.markRead),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { data: updated, error } = await DatabaseService.searchAlerts.markRead(req.user!.id, req.body.ids);
+
+    if (error) {
+      logger.error('Failed to mark search alerts read', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to update search alerts', 500, 'UPDATE_FAILED');
+    }
+
+    res.json({
+      success: true,
+      data: { updated }
+    });
+  })
+);
+
+export default router;
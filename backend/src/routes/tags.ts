@@ -34,6 +34,13 @@ const tagSchemas = {
       description: Joi.string().max(500).optional().allow(''),
       isActive: Joi.boolean().optional()
     }).min(1)
+  },
+  // Shared by bulk assign and bulk remove
+  bulk: {
+    body: Joi.object({
+      propertyIds: Joi.array().items(Joi.string().uuid()).unique().min(1).max(500).required(),
+      tagIds: Joi.array().items(Joi.string().uuid()).unique().min(1).max(50).required()
+    })
   }
 };
 
@@ -101,6 +108,78 @@ router.get('/active',
   })
 );
 
+/**
+ * Assign tags to many properties at once (admin only)
+ */
+router.post('/bulk-assign',
+  requireRole('admin'),
+  validate(tagSchemas.bulk),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { propertyIds, tagIds } = req.body;
+
+    const { data, error } = await DatabaseService.tags.bulkAssign(propertyIds, tagIds, req.user!.id);
+
+    if (error) {
+      logger.error('Failed to bulk assign tags', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to assign tags', 500, 'BULK_ASSIGN_FAILED');
+    }
+
+    logger.info('Tags bulk assigned', {
+      requestId: req.requestId,
+      properties: propertyIds.length,
+      tags: tagIds.length,
+      assigned: data.assigned,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: `${data.assigned} tag assignment(s) added`,
+      data
+    });
+  })
+);
+
+/**
+ * Remove tags from many properties at once (admin only)
+ */
+router.post('/bulk-remove',
+  requireRole('admin'),
+  validate(tagSchemas.bulk),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { propertyIds, tagIds } = req.body;
+
+    const { data, error } = await DatabaseService.tags.bulkRemove(propertyIds, tagIds);
+
+    if (error) {
+      logger.error('Failed to bulk remove tags', {
+        requestId: req.requestId,
+        error: error.message,
+        userId: req.user!.id
+      });
+      throw createApiError('Failed to remove tags', 500, 'BULK_REMOVE_FAILED');
+    }
+
+    logger.info('Tags bulk removed', {
+      requestId: req.requestId,
+      properties: propertyIds.length,
+      tags: tagIds.length,
+      removed: data.removed,
+      userId: req.user!.id
+    });
+
+    res.json({
+      success: true,
+      message: `${data.removed} tag assignment(s) removed`,
+      data
+    });
+  })
+);
+
 /**
  * Get tag by ID
  */
@@ -9,6 +9,7 @@ import { asyncHandler, createApiError } from '../middleware/errorHandler';
 import { validate, testimonialSchemas, commonSchemas } from '../middleware/validationMiddleware';
 import { requireRole } from '../middleware/authMiddleware';
 import { publicRateLimit, strictRateLimit } from '../middleware/rateLimiter';
+import { notifyTestimonialPending } from '../services/notificationService';
 import { createLogger } from '../utils/logger';
 
 const router = Router();
@@ -138,6 +139,8 @@ router.post('/',
       throw createApiError('Failed to submit testimonial', 500, 'CREATE_FAILED');
     }
 
+    notifyTestimonialPending(data);
+
     logger.info('Testimonial submitted successfully', {
       requestId: req.requestId,
       testimonialId: data.id,
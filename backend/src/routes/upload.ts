@@ -0,0 +1,206 @@
+/**
+ * Upload Routes
+ * Property media uploads: images get responsive WebP/AVIF variants, videos a poster
+ * frame and duration, documents are stored as-is (mounted at /api/v1/upload)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { rm } from 'fs/promises';
+import multer from 'multer';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DatabaseService } from '../services/cloudSqlService';
+import {
+  MediaProcessingService,
+  MAX_DOCUMENT_SIZE,
+  MAX_IMAGE_SIZE,
+  MAX_VIDEO_SIZE,
+  SUPPORTED_DOCUMENT_TYPES,
+  SUPPORTED_IMAGE_TYPES,
+  SUPPORTED_VIDEO_TYPES,
+  type VideoProcessingError
+} from '../services/mediaProcessingService';
+import { asyncHandler, createApiError } from '../middleware/errorHandler';
+import { requireRole } from '../middleware/authMiddleware';
+import { validate, uploadSchemas } from '../middleware/validationMiddleware';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+// Files are spooled to a temp directory rather than memory (videos go up to 200MB) and
+// removed once handled; the image and document limits are checked after parsing
+const upload = multer({
+  dest: path.join(tmpdir(), 'gsr-uploads'),
+  limits: { fileSize: MAX_VIDEO_SIZE, files: 1 }
+});
+
+const VIDEO_ERROR_STATUS: Record<VideoProcessingError['code'], number> = {
+  VIDEO_PROCESSING_UNAVAILABLE: 503,
+  INVALID_VIDEO: 422
+};
+
+/**
+ * Parse the single "file" field, turning multer errors into API errors
+ */
+const parseSingleFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: any) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return next(createApiError(`File exceeds the ${MAX_VIDEO_SIZE / 1024 / 1024}MB limit`, 413, 'FILE_TOO_LARGE'));
+      }
+      return next(createApiError(error.message, 400, 'INVALID_UPLOAD'));
+    }
+    next(error);
+  });
+};
+
+/**
+ * Remove the spooled upload once the request is finished, however it ends
+ */
+const removeSpooledFile = (req: Request, res: Response, next: NextFunction) => {
+  const spooledPath = req.file?.path;
+  if (spooledPath) {
+    res.on('close', () => {
+      rm(spooledPath, { force: true }).catch(error => {
+        logger.warn('Failed to remove spooled upload', { path: spooledPath, error: error.message });
+      });
+    });
+  }
+  next();
+};
+
+/**
+ * Upload one image, video or document (admin/agent only)
+ */
+router.post('/single',
+  requireRole(['admin', 'agent']),
+  parseSingleFile,
+  removeSpooledFile,
+  validate(uploadSchemas.single),
+  asyncHandler(async (req: Request, res: Response) => {
+    const file = req.file;
+
+    if (!file) {
+      throw createApiError('No file uploaded (expected a "file" field)', 400, 'MISSING_FILE');
+    }
+
+    const kind = MediaProcessingService.getMediaKind(file.mimetype);
+    if (!kind) {
+      throw createApiError(
+        `Unsupported file type: ${file.mimetype}`,
+        415,
+        'UNSUPPORTED_MEDIA_TYPE',
+        { supported: [...SUPPORTED_IMAGE_TYPES, ...SUPPORTED_VIDEO_TYPES, ...SUPPORTED_DOCUMENT_TYPES] }
+      );
+    }
+
+    if (kind === 'image' && file.size > MAX_IMAGE_SIZE) {
+      throw createApiError(`Image exceeds the ${MAX_IMAGE_SIZE / 1024 / 1024}MB limit`, 413, 'FILE_TOO_LARGE');
+    }
+
+    if (kind === 'document' && file.size > MAX_DOCUMENT_SIZE) {
+      throw createApiError(`Document exceeds the ${MAX_DOCUMENT_SIZE / 1024 / 1024}MB limit`, 413, 'FILE_TOO_LARGE');
+    }
+
+    const folder = req.body.folder || 'uploads';
+
+    try {
+      const data = await MediaProcessingService.processUpload(file, folder);
+
+      // The uploader is recorded so only they (or an admin) can delete the upload
+      const { error: recordError } = await DatabaseService.mediaUploads.record(data.path, req.user!.id, data.type);
+      if (recordError) {
+        await MediaProcessingService.deleteUpload(data.path);
+        throw new Error(`Failed to record upload: ${recordError.message}`);
+      }
+
+      logger.info('Media uploaded', {
+        requestId: req.requestId,
+        userId: req.user!.id,
+        type: data.type,
+        path: data.path,
+        variants: data.variants.length,
+        size: file.size
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'File uploaded successfully',
+        data
+      });
+    } catch (error: any) {
+      logger.error('Failed to process upload', {
+        requestId: req.requestId,
+        userId: req.user!.id,
+        filename: file.originalname,
+        mimeType: file.mimetype,
+        error: error.message
+      });
+
+      const videoErrorStatus = VIDEO_ERROR_STATUS[error.code as VideoProcessingError['code']];
+      if (videoErrorStatus) {
+        throw createApiError(error.message, videoErrorStatus, error.code);
+      }
+      throw createApiError('Failed to process upload', 500, 'UPLOAD_FAILED');
+    }
+  })
+);
+
+/**
+ * Delete an upload and all of its variants (admins, or the agent who uploaded it)
+ */
+router.delete('/file',
+  requireRole(['admin', 'agent']),
+  validate(uploadSchemas.deleteFile),
+  asyncHandler(async (req: Request, res: Response) => {
+    const uploadPath = req.query.path as string;
+
+    if (req.user!.role !== 'admin') {
+      const { data: uploadRecord, error: lookupError } = await DatabaseService.mediaUploads.getByPath(uploadPath);
+
+      if (lookupError) {
+        logger.error('Failed to look up upload', {
+          requestId: req.requestId,
+          userId: req.user!.id,
+          path: uploadPath,
+          error: lookupError.message
+        });
+        throw createApiError('Failed to delete file', 500, 'DELETE_FAILED');
+      }
+
+      if (!uploadRecord || uploadRecord.uploaded_by !== req.user!.id) {
+        throw createApiError('You can only delete files you uploaded', 403, 'INSUFFICIENT_PERMISSIONS');
+      }
+    }
+
+    const { error } = await MediaProcessingService.deleteUpload(uploadPath);
+
+    if (error) {
+      logger.error('Failed to delete upload', {
+        requestId: req.requestId,
+        userId: req.user!.id,
+        path: uploadPath,
+        error: error.message
+      });
+      throw createApiError('Failed to delete file', 500, 'DELETE_FAILED');
+    }
+
+    await DatabaseService.mediaUploads.delete(uploadPath);
+
+    logger.info('Upload deleted', {
+      requestId: req.requestId,
+      userId: req.user!.id,
+      path: uploadPath
+    });
+
+    res.json({
+      success: true,
+      message: 'File deleted successfully'
+    });
+  })
+);
+
+export default router;
@@ -8,10 +8,12 @@ import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import dotenv from 'dotenv';
+import path from 'path';
+import Redis from 'ioredis';
 import { validateBackendEnvironment, type BackendConfig } from './config/environment';
 import { createLogger } from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
-import { rateLimitMiddleware } from './middleware/rateLimiter'; // Rate limiting disabled at middleware level
+import { createRedisRateLimitStore, rateLimitMiddleware, setRateLimitStore } from './middleware/rateLimiter';
 import { authMiddleware } from './middleware/authMiddleware';
 // import { validationMiddleware } from './middleware/validationMiddleware';
 // Remove unused import
@@ -21,13 +23,25 @@ import authRoutes from './routes/auth';
 import propertiesRoutes from './routes/properties';
 import testimonialsRoutes from './routes/testimonials';
 import usersRoutes from './routes/users';
+import savedPropertiesRoutes from './routes/savedProperties';
+import savedSearchesRoutes from './routes/savedSearches';
+import searchAlertsRoutes from './routes/searchAlerts';
+import notificationsRoutes from './routes/notifications';
 import inquiriesRoutes from './routes/inquiries';
 import healthRoutes from './routes/health';
 import faqsRoutes from './routes/faqs';
 import companiesRoutes from './routes/companies';
 import tagsRoutes from './routes/tags';
+import pricingRoutes from './routes/pricing';
+import comparisonsRoutes from './routes/comparisons';
+import interactionsRoutes from './routes/interactions';
+import recommendationsRoutes from './routes/recommendations';
+import poisRoutes from './routes/pois';
 import c1Routes from './routes/c1';
+import chatThreadsRoutes from './routes/chatThreads';
+import c1UsageRoutes from './routes/c1Usage';
 import scraperRoutes from './routes/scraper';
+import uploadRoutes from './routes/upload';
 
 // Load environment variables from the backend .env file
 dotenv.config({ path: '.env' });
@@ -41,6 +55,9 @@ const logger = createLogger(env.LOG_LEVEL);
 // Create Express app
 const app = express();
 
+// Client IPs (rate limiting, logs) come from X-Forwarded-For only when set by a trusted proxy
+app.set('trust proxy', /^\d+$/.test(env.TRUST_PROXY) ? parseInt(env.TRUST_PROXY, 10) : env.TRUST_PROXY);
+
 // Security middleware
 app.use(helmet({
   crossOriginEmbedderPolicy: false, // Allow embedding for development
@@ -61,8 +78,12 @@ const corsOptions = {
     'Authorization',
     'X-Request-ID',
     'X-Client-Version',
-    'X-Client-Info'
-  ]
+    'X-Client-Info',
+    'Idempotency-Key',
+    'X-Chat-Thread-Secret'
+  ],
+  // Issued with the first message of a chat thread started signed out
+  exposedHeaders: ['X-Chat-Thread-Secret']
 };
 
 app.use(cors(corsOptions));
@@ -74,8 +95,24 @@ app.use(compression());
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Rate limiting
-app.use(rateLimitMiddleware); // Rate limiting disabled at middleware level
+// Locally stored uploads (STORAGE_DRIVER=local). File names are unique per upload, so they
+// can be cached forever; the site loads them from another origin
+if (env.STORAGE_DRIVER === 'local') {
+  app.use('/uploads', express.static(path.resolve(env.STORAGE_LOCAL_DIR), {
+    immutable: true,
+    maxAge: '1y',
+    setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin')
+  }));
+}
+
+// Rate limiting. With REDIS_URL every instance shares its counters; commands fail fast while
+// Redis is unreachable, so the limiters let requests through instead of queueing them
+if (env.REDIS_URL) {
+  const redis = new Redis(env.REDIS_URL, { enableOfflineQueue: false, maxRetriesPerRequest: 1 });
+  redis.on('error', (error) => logger.warn('Rate limit Redis connection error', { error: error.message }));
+  setRateLimitStore(createRedisRateLimitStore(redis));
+}
+app.use(rateLimitMiddleware);
 
 // Request logging middleware
 app.use((req, _res, next) => {
@@ -111,11 +148,23 @@ app.use('/api/v1/health', healthRoutes);
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/properties', propertiesRoutes); // Public read, auth for write (handled in routes)
 app.use('/api/v1/testimonials', testimonialsRoutes); // Public read, auth for write
+app.use('/api/v1/users/me/saved-properties', authMiddleware, savedPropertiesRoutes); // Any signed-in user, own favourites only
+app.use('/api/v1/users/me/saved-searches', authMiddleware, savedSearchesRoutes);
+app.use('/api/v1/users/me/search-alerts', authMiddleware, searchAlertsRoutes);
+app.use('/api/v1/notifications', authMiddleware, notificationsRoutes); // Own inbox and preferences; delivery log is admin only
 app.use('/api/v1/users', authMiddleware, usersRoutes);
 app.use('/api/v1/inquiries', inquiriesRoutes); // Public submit, auth for management
 app.use('/api/v1/faqs', faqsRoutes); // Public read, auth for write
 app.use('/api/v1/companies', companiesRoutes); // Public read active, auth for management
 app.use('/api/v1/tags', tagsRoutes); // Public read active, auth for management
+app.use('/api/v1/pricing', pricingRoutes); // Public rates and quotes, admin edits rules
+app.use('/api/v1/comparisons', comparisonsRoutes); // Public share links, signed-in users list their own
+app.use('/api/v1/interactions', interactionsRoutes); // Signed-in users or anonymous sessions
+app.use('/api/v1/recommendations', recommendationsRoutes); // Signed-in users or anonymous sessions
+app.use('/api/v1/pois', poisRoutes); // Public nearby places, admin imports
+app.use('/api/v1/upload', uploadRoutes); // Admin/agent media uploads
+app.use('/api/v1/c1/threads', authMiddleware, chatThreadsRoutes); // Own AI assistant conversations
+app.use('/api/v1/c1/usage', authMiddleware, c1UsageRoutes); // Admin AI usage report
 app.use('/api/c1', c1Routes); // C1 API proxy for frontend
 app.use('/api/v1/c1', c1Routes); // C1 API proxy for frontend (backwards compatibility)
 
@@ -158,6 +207,26 @@ const server = app.listen(PORT, () => {
       }
     });
   });
+
+  // Email pending saved search alerts as periodic digests
+  import('./services/searchAlertService').then(({ startSearchAlertDigestScheduler }) => {
+    startSearchAlertDigestScheduler();
+  });
+
+  // Send queued email/webhook notifications and retry failed ones
+  import('./services/notificationService').then(({ startNotificationDeliveryWorker }) => {
+    startNotificationDeliveryWorker();
+  });
+
+  // Run queued scrape and extraction jobs
+  import('./services/scrapeJobService').then(({ startScrapeJobWorker }) => {
+    startScrapeJobWorker();
+  });
+
+  // Re-scrape scheduled search presets and queue what changed for review
+  import('./services/scrapeScheduleService').then(({ startScrapeScheduler }) => {
+    startScrapeScheduler();
+  });
 });
 
 // Graceful shutdown
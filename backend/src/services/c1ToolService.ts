@@ -0,0 +1,467 @@
+/**
+ * C1 Property Tools
+ *
+ * Tools the C1 model can call while it answers, so it works from our real listings instead of
+ * inventing them: search properties, read one property, check its availability and file an
+ * inquiry. Each round of tool results is sent back to the model until it replies without a call.
+ */
+
+import OpenAI from 'openai';
+import Joi from 'joi';
+import { DatabaseService } from './cloudSqlService';
+import { autoAssignInquiry } from './inquiryLifecycleService';
+import { notifyInquiryCreated, notifyInquiryAssigned } from './notificationService';
+import { inquirySchemas } from '../middleware/validationMiddleware';
+import { STRICT_RATE_LIMIT, consumeRateLimit } from '../middleware/rateLimiter';
+import { estimateTokens } from './chatThreadService';
+import { parsePropertyFilters } from '../utils/propertyFilters';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+type ChatMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+type ToolCall = OpenAI.Chat.Completions.ChatCompletionMessageToolCall;
+
+// Rounds of tool calls per reply; the last round must answer with what it has
+const MAX_TOOL_ROUNDS = 4;
+const DEFAULT_SEARCH_RESULTS = 6;
+const MAX_SEARCH_RESULTS = 10;
+
+export interface PropertyToolContext {
+  userId: string | null;
+  // Rate limit key of the caller (see getClientKey)
+  clientKey: string;
+  requestId: string | undefined;
+  ipAddress: string | undefined;
+  userAgent: string | undefined;
+}
+
+export interface PropertyToolOutcome {
+  // Properties the tools returned - the only ones the reply may show
+  propertyIds: string[];
+  toolCalls: string[];
+  // Tokens of every round; estimated from the text when the provider did not report them
+  usage: OpenAI.CompletionUsage;
+  usageEstimated: boolean;
+}
+
+export const PROPERTY_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_properties',
+      description: 'Search Gentle Space listings. Use it before showing any property; only properties it returns exist.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Free-text search, e.g. "sea facing office with cafeteria"' },
+          location: { type: 'string', description: 'Area or city, e.g. "Koramangala"' },
+          locations: { type: 'array', items: { type: 'string' }, description: 'Any of several areas' },
+          propertyType: { type: 'string', description: 'Listing type as stored, e.g. "commercial"' },
+          minPrice: { type: 'number', description: 'Monthly rent in INR' },
+          maxPrice: { type: 'number', description: 'Monthly rent in INR' },
+          minSize: { type: 'number', description: 'Area in sqft' },
+          maxSize: { type: 'number', description: 'Area in sqft' },
+          amenities: { type: 'array', items: { type: 'string' }, description: 'All of these amenities, e.g. ["parking", "wifi"]' },
+          available: { type: 'boolean', description: 'Only properties available now' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_RESULTS }
+        },
+        additionalProperties: false
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_property_details',
+      description: 'Full details of one property by the id a search returned.',
+      parameters: {
+        type: 'object',
+        properties: {
+          propertyId: { type: 'string', description: 'Property id from search_properties' }
+        },
+        required: ['propertyId'],
+        additionalProperties: false
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'check_availability',
+      description: 'Whether a property can be leased now, by the id a search returned.',
+      parameters: {
+        type: 'object',
+        properties: {
+          propertyId: { type: 'string', description: 'Property id from search_properties' }
+        },
+        required: ['propertyId'],
+        additionalProperties: false
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_inquiry',
+      description: 'Send the visitor\'s inquiry to our team. Only call it once the visitor has given their name and email and asked to be contacted.',
+      parameters: {
+        type: 'object',
+        properties: {
+          propertyId: { type: 'string', description: 'Property the inquiry is about, if any' },
+          name: { type: 'string' },
+          email: { type: 'string' },
+          phone: { type: 'string', description: 'International format, digits only, e.g. +919876543210' },
+          message: { type: 'string', description: 'What the visitor is looking for, in their words (10-1000 characters)' },
+          inquiryType: { type: 'string', enum: ['general', 'property', 'viewing', 'investment'] }
+        },
+        required: ['name', 'email', 'message'],
+        additionalProperties: false
+      }
+    }
+  }
+];
+
+const propertyIdSchema = Joi.object({
+  propertyId: Joi.string().uuid().required()
+});
+
+const searchSchema = Joi.object({
+  query: Joi.string().trim().max(200).optional(),
+  location: Joi.string().max(100).optional(),
+  locations: Joi.array().items(Joi.string().max(100)).max(10).optional(),
+  propertyType: Joi.string().max(50).optional(),
+  minPrice: Joi.number().min(0).optional(),
+  maxPrice: Joi.number().min(0).optional(),
+  minSize: Joi.number().min(0).optional(),
+  maxSize: Joi.number().min(0).optional(),
+  amenities: Joi.array().items(Joi.string().max(50)).max(10).optional(),
+  available: Joi.boolean().optional(),
+  limit: Joi.number().integer().min(1).max(MAX_SEARCH_RESULTS).default(DEFAULT_SEARCH_RESULTS)
+});
+
+const parseJson = (raw: string): Record<string, any> => {
+  try {
+    const args = raw ? JSON.parse(raw) : {};
+    if (args && typeof args === 'object' && !Array.isArray(args)) return args;
+  } catch {
+    // Reported below
+  }
+  throw new Error('Arguments must be a JSON object');
+};
+
+/**
+ * Validate a tool's arguments, throwing a message the model can act on
+ */
+const validateArguments = (args: Record<string, any>, schema: Joi.ObjectSchema) => {
+  const { error, value } = schema.validate(args, { abortEarly: false, stripUnknown: true });
+  if (error) {
+    throw new Error(error.details.map(detail => detail.message).join('; '));
+  }
+  return value;
+};
+
+const coverImage = (property: any): string | null => {
+  const media = Array.isArray(property.media) ? property.media : [];
+  const cover = media.find((item: any) => item.is_cover) || media.find((item: any) => item.kind === 'photo');
+  return cover?.url || (Array.isArray(property.images) ? property.images[0] : null) || null;
+};
+
+const isAvailable = (property: any) =>
+  property.status === 'available' && (property.availability_status || 'available') === 'available';
+
+/**
+ * What the model sees of a listing in search results
+ */
+const summarizeProperty = (property: any) => ({
+  id: property.id,
+  title: property.title,
+  location: property.location,
+  property_type: property.property_type,
+  area_sqft: property.area_sqft,
+  price: property.price,
+  amenities: property.amenities || [],
+  available: isAvailable(property),
+  image: coverImage(property)
+});
+
+const loadProperty = async (propertyId: string) => {
+  const { data, error } = await DatabaseService.properties.getById(propertyId);
+  if (error) {
+    throw new Error(error.code === 'PGRST116' ? `No property with id ${propertyId}` : 'Property lookup failed');
+  }
+  return data;
+};
+
+const searchProperties = async (rawArgs: string, outcome: PropertyToolOutcome) => {
+  const { query, limit, ...filterArgs } = validateArguments(parseJson(rawArgs), searchSchema);
+  const filters = parsePropertyFilters(filterArgs);
+
+  const { data, error } = query
+    ? await DatabaseService.properties.search(query, filters, { limit })
+    : await DatabaseService.properties.getAll(filters, { limit, sortBy: 'date' });
+
+  if (error) {
+    throw new Error('Property search failed');
+  }
+
+  const properties = data.rows.map(summarizeProperty);
+  outcome.propertyIds.push(...properties.map((property: any) => property.id));
+
+  return {
+    total: data.total,
+    properties,
+    ...(properties.length === 0 && { note: 'No listings match; suggest widening the search' })
+  };
+};
+
+const getPropertyDetails = async (rawArgs: string, outcome: PropertyToolOutcome) => {
+  const { propertyId } = validateArguments(parseJson(rawArgs), propertyIdSchema);
+  const property = await loadProperty(propertyId);
+  outcome.propertyIds.push(property.id);
+
+  return {
+    ...summarizeProperty(property),
+    description: property.description,
+    address: property.address,
+    features: property.features || [],
+    tags: (property.custom_tags || []).map((tag: any) => tag.name),
+    photos: (property.media || []).filter((item: any) => item.kind === 'photo').map((item: any) => item.url),
+    agent_name: property.agent_name || null
+  };
+};
+
+const checkAvailability = async (rawArgs: string, outcome: PropertyToolOutcome) => {
+  const { propertyId } = validateArguments(parseJson(rawArgs), propertyIdSchema);
+  const property = await loadProperty(propertyId);
+  outcome.propertyIds.push(property.id);
+
+  return {
+    id: property.id,
+    title: property.title,
+    available: isAvailable(property),
+    status: property.status,
+    availability_status: property.availability_status || 'available'
+  };
+};
+
+const createInquiry = async (rawArgs: string, context: PropertyToolContext) => {
+  // Same rules as the inquiry form
+  const { propertyId, inquiryType, ...contact } = parseJson(rawArgs);
+  const inquiry = validateArguments(
+    { ...contact, property_id: propertyId, inquiry_type: inquiryType || (propertyId ? 'property' : 'general') },
+    inquirySchemas.create.body
+  );
+
+  if (inquiry.property_id) {
+    await loadProperty(inquiry.property_id);
+  }
+
+  // Counted with the inquiry form's submissions, so the chat cannot be used to get around its limit
+  if (!await consumeRateLimit(STRICT_RATE_LIMIT, context.clientKey)) {
+    throw new Error('Too many inquiries from this visitor; ask them to try again later or call us');
+  }
+
+  const { data, error } = await DatabaseService.inquiries.create({
+    ...inquiry,
+    ip_address: context.ipAddress,
+    user_agent: context.userAgent,
+    source: 'ai_assistant'
+  });
+
+  if (error) {
+    throw new Error('The inquiry could not be saved; ask the visitor to use the contact form');
+  }
+
+  const agent = await autoAssignInquiry(data.id);
+
+  notifyInquiryCreated(data, agent);
+  if (agent) {
+    notifyInquiryAssigned(data, agent.id, null);
+  }
+
+  logger.info('Inquiry submitted by AI assistant', {
+    requestId: context.requestId,
+    inquiryId: data.id,
+    inquiry_type: data.inquiry_type,
+    property_id: data.property_id,
+    assignedTo: agent?.id
+  });
+
+  return {
+    inquiryId: data.id,
+    status: data.status,
+    message: 'Inquiry received; our team will get back to the visitor soon'
+  };
+};
+
+/**
+ * Run one tool call. Failures go back to the model as an error result it can recover from
+ */
+export async function executePropertyTool(
+  name: string,
+  rawArgs: string,
+  context: PropertyToolContext,
+  outcome: PropertyToolOutcome
+): Promise<Record<string, any>> {
+  outcome.toolCalls.push(name);
+
+  try {
+    switch (name) {
+      case 'search_properties':
+        return await searchProperties(rawArgs, outcome);
+      case 'get_property_details':
+        return await getPropertyDetails(rawArgs, outcome);
+      case 'check_availability':
+        return await checkAvailability(rawArgs, outcome);
+      case 'create_inquiry':
+        return await createInquiry(rawArgs, context);
+      default:
+        return { error: `Unknown tool ${name}` };
+    }
+  } catch (error: any) {
+    logger.warn('C1 property tool failed', { requestId: context.requestId, tool: name, error: error.message });
+    return { error: error.message };
+  }
+}
+
+/**
+ * Run the model's tool calls and add them, with their results, to the conversation
+ */
+const runToolCalls = async (
+  messages: ChatMessageParam[],
+  toolCalls: ToolCall[],
+  content: string | null,
+  context: PropertyToolContext,
+  outcome: PropertyToolOutcome
+) => {
+  messages.push({ role: 'assistant', content, tool_calls: toolCalls });
+
+  for (const call of toolCalls) {
+    const result = await executePropertyTool(call.function.name, call.function.arguments, context, outcome);
+    messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+  }
+};
+
+const toolOptions = (round: number) => ({
+  tools: PROPERTY_TOOLS,
+  tool_choice: round < MAX_TOOL_ROUNDS - 1 ? 'auto' as const : 'none' as const
+});
+
+const newOutcome = (): PropertyToolOutcome => ({
+  propertyIds: [],
+  toolCalls: [],
+  usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  usageEstimated: false
+});
+
+const addUsage = (
+  outcome: PropertyToolOutcome,
+  usage: OpenAI.CompletionUsage | null | undefined,
+  messages: ChatMessageParam[],
+  output: string
+) => {
+  const promptTokens = usage ? usage.prompt_tokens : estimateTokens(JSON.stringify(messages));
+  const completionTokens = usage ? usage.completion_tokens : estimateTokens(output);
+
+  outcome.usage.prompt_tokens += promptTokens;
+  outcome.usage.completion_tokens += completionTokens;
+  outcome.usage.total_tokens += promptTokens + completionTokens;
+  outcome.usageEstimated ||= !usage;
+};
+
+const finishOutcome = (outcome: PropertyToolOutcome): PropertyToolOutcome => ({
+  ...outcome,
+  propertyIds: [...new Set(outcome.propertyIds)]
+});
+
+/**
+ * Get a completion, running the property tools the model asks for along the way
+ */
+export async function completeWithPropertyTools(
+  client: OpenAI,
+  params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+  context: PropertyToolContext
+): Promise<{ completion: OpenAI.Chat.Completions.ChatCompletion; outcome: PropertyToolOutcome }> {
+  const messages = [...params.messages];
+  const outcome = newOutcome();
+
+  for (let round = 0; ; round++) {
+    const completion = await client.chat.completions.create({ ...params, messages, ...toolOptions(round) });
+
+    const message = completion.choices[0]?.message;
+    addUsage(outcome, completion.usage, messages, (message?.content || '') + JSON.stringify(message?.tool_calls || []));
+
+    if (!message?.tool_calls?.length || round >= MAX_TOOL_ROUNDS - 1) {
+      return { completion, outcome: finishOutcome(outcome) };
+    }
+
+    await runToolCalls(messages, message.tool_calls, message.content, context, outcome);
+  }
+}
+
+/**
+ * Stream a completion, running the property tools the model asks for along the way.
+ * Only the reply itself reaches onChunk; tool-call chunks stay on the server.
+ * Resolves with the full reply text
+ */
+export async function streamWithPropertyTools(
+  client: OpenAI,
+  params: Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming, 'stream'>,
+  context: PropertyToolContext,
+  onChunk: (chunk: OpenAI.Chat.Completions.ChatCompletionChunk) => void
+): Promise<{ content: string; outcome: PropertyToolOutcome }> {
+  const messages = [...params.messages];
+  const outcome = newOutcome();
+  let reply = '';
+
+  for (let round = 0; ; round++) {
+    const stream = await client.chat.completions.create({
+      ...params,
+      messages,
+      ...toolOptions(round),
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    // Tool calls arrive in pieces, keyed by their index
+    const pending: ToolCall[] = [];
+    let roundContent = '';
+    let roundUsage: OpenAI.CompletionUsage | null = null;
+
+    for await (const chunk of stream) {
+      // The usage chunk comes last, without choices
+      if (chunk.usage) roundUsage = chunk.usage;
+      if (chunk.choices.length === 0) continue;
+
+      const choice = chunk.choices[0];
+      const deltaCalls = choice?.delta?.tool_calls;
+
+      if (deltaCalls) {
+        for (const delta of deltaCalls) {
+          const call = pending[delta.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (delta.id) call.id = delta.id;
+          if (delta.function?.name) call.function.name += delta.function.name;
+          if (delta.function?.arguments) call.function.arguments += delta.function.arguments;
+        }
+        continue;
+      }
+
+      if (choice?.finish_reason === 'tool_calls') continue;
+
+      roundContent += choice?.delta?.content || '';
+      onChunk(chunk);
+    }
+
+    reply += roundContent;
+
+    const toolCalls = pending.filter(Boolean);
+    addUsage(outcome, roundUsage, messages, roundContent + JSON.stringify(toolCalls));
+
+    if (toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS - 1) {
+      return { content: reply, outcome: finishOutcome(outcome) };
+    }
+
+    await runToolCalls(messages, toolCalls, roundContent || null, context, outcome);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Chat Thread Service
+ *
+ * Gives the C1 chat endpoints a memory: each thread's earlier turns are replayed with a new
+ * message, newest first until the token budget is used up. Turns that no longer fit are folded
+ * into a running summary (when a summary model is configured) or left out.
+ *
+ * A visitor who starts a thread signed out is issued a secret in the X-Chat-Thread-Secret response
+ * header. Sending it back is the only way to continue that thread, or to move it to an account.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { DatabaseService, ChatMessageInput } from './cloudSqlService';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+const MAX_TITLE_LENGTH = 80;
+
+export const CHAT_THREAD_SECRET_HEADER = 'X-Chat-Thread-Secret';
+
+export interface ChatHistoryMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Condenses a transcript into a summary, building on the previous summary if there is one
+ */
+export type ChatSummarizer = (transcript: string, previousSummary: string | null) => Promise<string>;
+
+export interface ChatTurn {
+  content: string;
+  clientMessageId?: string | null;
+}
+
+/**
+ * Rough token count (about four characters per token), good enough for budgeting
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Secret for a thread started signed out; only its hash is stored
+ */
+export const createThreadSecret = (): string => randomBytes(32).toString('base64url');
+
+export const hashThreadSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+/**
+ * A thread is named after the first line of its first message
+ */
+export const threadTitleFromPrompt = (prompt: string): string => {
+  const firstLine = prompt.trim().split('\n')[0]?.trim() || 'New conversation';
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : firstLine;
+};
+
+const formatTranscript = (messages: any[]) =>
+  messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n\n');
+
+/**
+ * Earlier turns of a thread to send before the new message, within the history token budget
+ */
+export async function loadThreadHistory(thread: any, summarize?: ChatSummarizer): Promise<ChatHistoryMessage[]> {
+  const { data: messages, error } = await DatabaseService.chatThreads.getMessages(thread.id, true);
+  if (error) {
+    throw new Error(`Failed to load chat thread messages: ${error.message}`);
+  }
+
+  let summary: string | null = thread.summary || null;
+  const budget = Math.max(0, config.C1_HISTORY_TOKEN_BUDGET - (summary ? estimateTokens(summary) : 0));
+
+  // Keep the most recent turns that fit; everything before the first one that does not is overflow
+  let used = 0;
+  let firstKept = messages.length;
+  while (firstKept > 0) {
+    const tokens = messages[firstKept - 1].token_estimate || estimateTokens(messages[firstKept - 1].content);
+    if (used + tokens > budget) break;
+    used += tokens;
+    firstKept--;
+  }
+
+  const overflow = messages.slice(0, firstKept);
+  if (overflow.length > 0) {
+    if (summarize) {
+      try {
+        summary = await summarize(formatTranscript(overflow), summary);
+        const { error: summaryError } = await DatabaseService.chatThreads.updateSummary(
+          thread.id,
+          summary,
+          overflow[overflow.length - 1].id
+        );
+        if (summaryError) {
+          logger.warn('Failed to save chat thread summary', { threadId: thread.id, error: summaryError.message });
+        }
+      } catch (summaryError: any) {
+        // Summarising again next time is fine; this turn just goes without the older context
+        logger.warn('Chat thread summary failed', { threadId: thread.id, error: summaryError.message });
+      }
+    } else {
+      logger.debug('Chat thread history truncated', { threadId: thread.id, droppedMessages: overflow.length });
+    }
+  }
+
+  const history: ChatHistoryMessage[] = messages.slice(firstKept).map((message: any) => ({
+    role: message.role,
+    content: message.content
+  }));
+
+  if (summary) {
+    history.unshift({ role: 'system', content: `Summary of the earlier conversation:\n${summary}` });
+  }
+
+  return history;
+}
+
+/**
+ * Save a prompt and the reply it got, in that order
+ */
+export async function saveThreadTurn(
+  threadId: string,
+  prompt: ChatTurn,
+  reply: ChatTurn,
+  metadata: Record<string, any> = {}
+): Promise<void> {
+  const toMessage = (role: ChatMessageInput['role'], turn: ChatTurn): ChatMessageInput => ({
+    role,
+    content: turn.content,
+    clientMessageId: turn.clientMessageId ?? null,
+    tokenEstimate: estimateTokens(turn.content),
+    metadata
+  });
+
+  const { error } = await DatabaseService.chatThreads.appendMessages(threadId, [
+    toMessage('user', prompt),
+    toMessage('assistant', reply)
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to save chat turn: ${error.message}`);
+  }
+}
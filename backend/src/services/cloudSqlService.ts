@@ -9,11 +9,16 @@ import dotenv from 'dotenv';
 // Load environment variables from main .env file
 dotenv.config({ path: '.env' });
 
-import { Pool } from 'pg';
+import { Pool, type PoolClient } from 'pg';
 import { Storage } from '@google-cloud/storage';
 import admin from 'firebase-admin';
 import { readFileSync } from 'fs';
+import { copyFile, mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
 import { createLogger } from '../utils/logger';
+import { parsePropertyFilters } from '../utils/propertyFilters';
+import { PROPERTY_MERGE_FIELDS } from '../utils/duplicateMatching';
+import type { ImportBatchStatus, ImportMode, ImportReportRow } from '../types/scraper';
 
 const logger = createLogger();
 
@@ -84,6 +89,931 @@ const formatResponse = (data: any, error: any = null) => {
   };
 };
 
+/**
+ * Property listing pagination and sorting
+ */
+export type PropertySortField = 'price' | 'area' | 'date' | 'distance';
+
+export interface PropertyListOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: PropertySortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Whitelisted sort columns - never interpolate user input into ORDER BY
+const PROPERTY_SORT_COLUMNS: Record<PropertySortField, string> = {
+  price: 'p.price',
+  area: 'p.area_sqft',
+  date: 'p.created_at',
+  // Output column alias - only selected when the filters carry an origin point
+  distance: 'distance_km'
+};
+
+/**
+ * Build ORDER BY clause for property listings (id tie-breaker keeps pages stable)
+ */
+const buildPropertyOrderClause = (sortBy?: PropertySortField, sortOrder?: 'asc' | 'desc') => {
+  const column = PROPERTY_SORT_COLUMNS[sortBy || 'date'] || PROPERTY_SORT_COLUMNS.date;
+  const direction = sortOrder === 'asc' ? 'ASC' : 'DESC';
+  return `${column} ${direction} NULLS LAST, p.id ${direction}`;
+};
+
+/**
+ * Geography point for a lat/lng pair of query parameters
+ */
+const buildGeoPoint = (latParam: string, lngParam: string) =>
+  `ST_SetSRID(ST_MakePoint(${lngParam}::float8, ${latParam}::float8), 4326)::geography`;
+
+/**
+ * Add a "distance_km" output column when the filters carry an origin (search centre or landmark).
+ * Pushes its own parameters so filter-only queries (counts) never see unused ones.
+ */
+const buildDistanceSelect = (filters: any = {}, params: any[]) => {
+  if (filters.lat === undefined || filters.lng === undefined) {
+    return '';
+  }
+
+  params.push(filters.lat, filters.lng);
+  const origin = buildGeoPoint(`$${params.length - 1}`, `$${params.length}`);
+  return `, ST_Distance(p.geo_location, ${origin}) / 1000 AS distance_km`;
+};
+
+/**
+ * Build WHERE conditions for property filters
+ * Returns a clause fragment starting with " AND" (or empty) and its parameters
+ */
+const buildPropertyFilterClause = (filters: any = {}, params: any[] = []) => {
+  let clause = '';
+
+  const param = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const addCondition = (condition: string, value: any) => {
+    const placeholder = param(value);
+    clause += ` AND ${condition.replace(/\?/g, () => placeholder)}`;
+  };
+
+  if (filters.status) {
+    addCondition('p.status = ?', filters.status);
+  }
+  if (filters.property_type) {
+    addCondition('p.property_type = ?', filters.property_type);
+  }
+  if (filters.min_price !== undefined) {
+    addCondition('p.price >= ?', filters.min_price);
+  }
+  if (filters.max_price !== undefined) {
+    addCondition('p.price <= ?', filters.max_price);
+  }
+  if (filters.location) {
+    addCondition('p.location ILIKE ?', `%${filters.location}%`);
+  }
+  // Any of the requested areas - matched on the locality ("Koramangala" of "Koramangala, Bengaluru")
+  if (filters.locations && filters.locations.length > 0) {
+    const patterns = filters.locations.map((location: string) => `%${location.split(',')[0]!.trim()}%`);
+    addCondition('(p.location ILIKE ANY(?) OR p.city ILIKE ANY(?) OR p.formatted_address ILIKE ANY(?))', patterns);
+  }
+  // Within N km of the origin (uses the GiST index on geo_location)
+  if (filters.radius_km !== undefined && filters.lat !== undefined && filters.lng !== undefined) {
+    const origin = buildGeoPoint(param(filters.lat), param(filters.lng));
+    clause += ` AND ST_DWithin(p.geo_location, ${origin}, ${param(filters.radius_km * 1000)})`;
+  }
+  // Inside the map viewport
+  if (filters.bounds) {
+    const { south, west, north, east } = filters.bounds;
+    clause += ` AND p.geo_location && ST_MakeEnvelope(${param(west)}, ${param(south)}, ${param(east)}, ${param(north)}, 4326)::geography`;
+  }
+  if (filters.min_size !== undefined) {
+    addCondition('p.area_sqft >= ?', filters.min_size);
+  }
+  if (filters.max_size !== undefined) {
+    addCondition('p.area_sqft <= ?', filters.max_size);
+  }
+  // Every requested amenity must be present
+  if (filters.amenities && filters.amenities.length > 0) {
+    addCondition('p.amenities @> ?::jsonb', JSON.stringify(filters.amenities));
+  }
+  // Listings without an explicit availability status count as available
+  if (filters.available !== undefined) {
+    addCondition(
+      filters.available
+        ? "COALESCE(p.availability_status, 'available') = ?"
+        : "COALESCE(p.availability_status, 'available') <> ?",
+      'available'
+    );
+  }
+  if (filters.availability_status) {
+    addCondition("COALESCE(p.availability_status, 'available') = ?", filters.availability_status);
+  }
+  // Any of the requested tags
+  if (filters.tag_ids && filters.tag_ids.length > 0) {
+    addCondition(
+      'EXISTS (SELECT 1 FROM property_tag_assignments pta WHERE pta.property_id = p.id AND pta.tag_id = ANY(?::uuid[]))',
+      filters.tag_ids
+    );
+  }
+  if (filters.min_bedrooms !== undefined) {
+    addCondition('p.bedrooms >= ?', filters.min_bedrooms);
+  }
+  if (filters.max_bedrooms !== undefined) {
+    addCondition('p.bedrooms <= ?', filters.max_bedrooms);
+  }
+  if (filters.min_bathrooms !== undefined) {
+    addCondition('p.bathrooms >= ?', filters.min_bathrooms);
+  }
+  if (filters.max_bathrooms !== undefined) {
+    addCondition('p.bathrooms <= ?', filters.max_bathrooms);
+  }
+
+  return { clause, params };
+};
+
+// Saved searches matched per statement in findMatchesForProperty
+const SAVED_SEARCH_MATCH_BATCH_SIZE = 500;
+
+/**
+ * Full-text search sorting - relevance only makes sense with a query
+ */
+export type PropertySearchSortField = PropertySortField | 'relevance';
+
+export interface PropertySearchOptions extends Omit<PropertyListOptions, 'sortBy'> {
+  sortBy?: PropertySearchSortField;
+}
+
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const DESCRIPTION_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * HTML-escape a text column before ts_headline, so the <mark> tags are the only markup in a
+ * highlight (the parser reads the entities as single tokens, leaving word matches intact)
+ */
+const escapedHeadlineSource = (column: string) =>
+  `replace(replace(replace(replace(replace(coalesce(${column}, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+
+/**
+ * Drop internal search columns (tsvector, geography) from property rows before they leave the service
+ */
+const omitInternalColumns = (row: any) => {
+  if (!row) return row;
+  const { search_vector: _searchVector, geo_location: _geoLocation, ...property } = row;
+  return property;
+};
+
+/**
+ * Active tags assigned to the property row aliased "p", as a JSON array ordered by name.
+ * Assignments of deactivated tags are kept but hidden, as in the search index.
+ */
+const PROPERTY_TAGS_SELECT = `
+  COALESCE((
+    SELECT json_agg(t ORDER BY t.name)
+    FROM property_tag_assignments pta
+    JOIN tags t ON t.id = pta.tag_id
+    WHERE pta.property_id = p.id AND t.is_active = true
+  ), '[]'::json) AS custom_tags
+`;
+
+/**
+ * The gallery of the property row aliased "p", as a JSON array in display order
+ */
+const PROPERTY_MEDIA_SELECT = `
+  COALESCE((
+    SELECT json_agg(pm ORDER BY pm.position, pm.created_at)
+    FROM property_media pm
+    WHERE pm.property_id = p.id
+  ), '[]'::json) AS media
+`;
+
+/**
+ * Property gallery items
+ */
+export type PropertyMediaKind = 'photo' | 'video' | 'floor_plan' | 'panorama' | 'document';
+
+export interface PropertyMediaInput {
+  kind: PropertyMediaKind;
+  url: string;
+  thumbnailUrl?: string;
+  srcset?: { webp?: string; avif?: string };
+  // Upload folder returned by the upload API, deleted with the item
+  path?: string;
+  filename?: string;
+  mimeType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+  caption?: string | null;
+  altText?: string | null;
+  isCover?: boolean;
+}
+
+export interface PropertyMediaChanges {
+  kind?: PropertyMediaKind;
+  caption?: string | null;
+  altText?: string | null;
+  // Only ever set - the cover moves by choosing another item
+  isCover?: true;
+}
+
+const selectPropertyMedia = async (client: PoolClient, propertyId: string) => {
+  const result = await client.query(
+    'SELECT * FROM property_media WHERE property_id = $1 ORDER BY position, created_at',
+    [propertyId]
+  );
+  return result.rows;
+};
+
+/**
+ * Make the first item that can be shown as an image the cover, unless the property already has one
+ */
+const ensurePropertyCover = (client: PoolClient, propertyId: string) => client.query(`
+  UPDATE property_media SET is_cover = true, updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM property_media
+    WHERE property_id = $1 AND kind <> 'document'
+    ORDER BY position, created_at
+    LIMIT 1
+  )
+  AND NOT EXISTS (SELECT 1 FROM property_media WHERE property_id = $1 AND is_cover)
+`, [propertyId]);
+
+/**
+ * Mirror the gallery's photos into properties.images (cover first) for consumers that only read URLs
+ */
+const syncPropertyImages = (client: PoolClient, propertyId: string) => client.query(`
+  UPDATE properties SET images = COALESCE((
+    SELECT jsonb_agg(pm.url ORDER BY pm.is_cover DESC, pm.position, pm.created_at)
+    FROM property_media pm
+    WHERE pm.property_id = $1 AND pm.kind = 'photo'
+  ), '[]'::jsonb), updated_at = NOW()
+  WHERE id = $1
+`, [propertyId]);
+
+/**
+ * Lock a property row for a gallery change; false if it does not exist
+ */
+const lockProperty = async (client: PoolClient, propertyId: string) => {
+  const result = await client.query('SELECT id FROM properties WHERE id = $1 FOR UPDATE', [propertyId]);
+  return result.rows.length > 0;
+};
+
+/**
+ * Insert a property row and start its gallery from any image URLs, inside the caller's transaction
+ */
+const insertProperty = async (client: PoolClient, propertyData: any) => {
+  const query = `
+    INSERT INTO properties (
+      title, description, price, location, address, bedrooms, bathrooms,
+      area_sqft, property_type, status, featured, images, amenities, features,
+      availability_status, source_url, scraped_at, search_params, created_by, coordinates, source_adapter,
+      currency, price_period, area_unit, contact_info, media, availability, extraction_metadata
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+      $15, $16, $17, COALESCE($18::jsonb, '{}'::jsonb), $19, $20, $21,
+      COALESCE($22, 'INR'), $23, COALESCE($24, 'sqft'), COALESCE($25::jsonb, '{}'::jsonb),
+      COALESCE($26::jsonb, '{}'::jsonb), COALESCE($27::jsonb, '{}'::jsonb), $28)
+    RETURNING *
+  `;
+
+  const values = [
+    propertyData.title,
+    propertyData.description,
+    propertyData.price,
+    propertyData.location,
+    propertyData.address,
+    propertyData.bedrooms,
+    propertyData.bathrooms,
+    propertyData.area_sqft,
+    propertyData.property_type,
+    propertyData.status || 'available',
+    propertyData.featured || false,
+    JSON.stringify(propertyData.images || []),
+    JSON.stringify(propertyData.amenities || []),
+    JSON.stringify(propertyData.features || []),
+    // Scraper imports: where the listing came from, so later scrapes can find it again
+    propertyData.availability_status || null,
+    propertyData.source_url || null,
+    propertyData.scraped_at || null,
+    propertyData.search_params ? JSON.stringify(propertyData.search_params) : null,
+    propertyData.created_by || null,
+    propertyData.coordinates ? JSON.stringify(propertyData.coordinates) : null,
+    propertyData.source_adapter || null,
+    propertyData.currency || null,
+    propertyData.price_period || null,
+    propertyData.area_unit || null,
+    propertyData.contact_info ? JSON.stringify(propertyData.contact_info) : null,
+    propertyData.media ? JSON.stringify(propertyData.media) : null,
+    propertyData.availability ? JSON.stringify(propertyData.availability) : null,
+    propertyData.extraction_metadata ? JSON.stringify(propertyData.extraction_metadata) : null
+  ];
+
+  const result = await client.query(query, values);
+
+  // Image URLs given on create start the gallery, the first one as cover
+  await client.query(`
+    INSERT INTO property_media (property_id, kind, url, position, is_cover)
+    SELECT $1, 'photo', image.url, image.ordinality - 1, image.ordinality = 1
+    FROM unnest($2::text[]) WITH ORDINALITY AS image(url, ordinality)
+  `, [result.rows[0].id, propertyData.images || []]);
+
+  return result.rows[0];
+};
+
+/**
+ * Assign tags to a property by name, creating any that do not exist yet, inside the caller's transaction
+ */
+const assignTagNames = async (client: PoolClient, propertyId: string, names: string[], actorId: string | null) => {
+  const unique = Array.from(new Set(names.map(name => name.trim()).filter(Boolean)));
+  if (unique.length === 0) {
+    return;
+  }
+
+  await client.query(`
+    INSERT INTO tags (name)
+    SELECT name FROM unnest($1::text[]) AS name
+    ON CONFLICT (name) DO NOTHING
+  `, [unique]);
+
+  await client.query(`
+    INSERT INTO property_tag_assignments (property_id, tag_id, assigned_by)
+    SELECT $1, t.id, $3 FROM tags t WHERE t.name = ANY($2::text[])
+    ON CONFLICT (property_id, tag_id) DO NOTHING
+  `, [propertyId, unique, actorId]);
+};
+
+/**
+ * Suggest a spelling correction for a search query from the listing vocabulary.
+ * Only words that match no property are corrected; returns null if nothing changes.
+ */
+const suggestSearchCorrection = async (client: PoolClient, searchQuery: string): Promise<string | null> => {
+  const tokens = Array.from(new Set(searchQuery.toLowerCase().match(/[a-z0-9]{3,}/g) || []));
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const result = await client.query(`
+    SELECT t.token, best.word
+    FROM unnest($1::text[]) AS t(token)
+    LEFT JOIN LATERAL (
+      SELECT w.word
+      FROM property_search_words w
+      WHERE w.word % t.token
+        AND numnode(plainto_tsquery('english', t.token)) > 0
+        AND NOT EXISTS (
+          SELECT 1 FROM properties p WHERE p.search_vector @@ plainto_tsquery('english', t.token)
+        )
+      ORDER BY similarity(w.word, t.token) DESC, w.word
+      LIMIT 1
+    ) best ON true
+  `, [tokens]);
+
+  const corrections = new Map<string, string>();
+  result.rows.forEach(row => {
+    if (row.word && row.word !== row.token) {
+      corrections.set(row.token, row.word);
+    }
+  });
+
+  if (corrections.size === 0) {
+    return null;
+  }
+
+  return searchQuery.replace(/[A-Za-z0-9]+/g, word => corrections.get(word.toLowerCase()) ?? word);
+};
+
+/**
+ * Inquiry lifecycle events
+ */
+export type InquiryEventType = 'created' | 'status_change' | 'priority_change' | 'assignment' | 'note' | 'call' | 'email';
+
+export interface InquiryEventInput {
+  type: InquiryEventType;
+  fromValue?: string | null;
+  toValue?: string | null;
+  body?: string | null;
+  metadata?: Record<string, any>;
+}
+
+export type InquiryAssignmentStrategy = 'round_robin' | 'load_balanced';
+
+export interface InquirySlaTarget {
+  priority: string;
+  firstResponseHours: number;
+  resolutionHours: number;
+}
+
+// Statuses that end an inquiry's lifecycle - resolution time is measured up to the first of these
+export const RESOLVED_INQUIRY_STATUSES = ['converted', 'closed', 'completed'];
+
+// Columns that can be changed through inquiries.update (notes are appended as events instead)
+const INQUIRY_UPDATABLE_COLUMNS = ['name', 'email', 'phone', 'message', 'status', 'priority', 'assigned_to'];
+
+const INQUIRY_SELECT = `
+  SELECT i.*, p.title AS property_title, u.name AS assigned_to_name,
+    (SELECT e.body FROM inquiry_events e
+     WHERE e.inquiry_id = i.id AND e.type = 'note'
+     ORDER BY e.created_at DESC LIMIT 1) AS latest_note
+  FROM inquiries i
+  LEFT JOIN properties p ON i.property_id = p.id
+  LEFT JOIN users u ON u.id = i.assigned_to
+`;
+
+/**
+ * Append an event to an inquiry's timeline and keep its SLA timestamps in step:
+ * a call, an email or moving the inquiry out of "new" is its first response,
+ * reaching a resolved status sets resolved_at and reopening clears it.
+ */
+const recordInquiryEvent = async (
+  client: PoolClient,
+  inquiryId: string,
+  actorId: string | null,
+  event: InquiryEventInput
+) => {
+  const result = await client.query(`
+    INSERT INTO inquiry_events (inquiry_id, actor_id, type, from_value, to_value, body, metadata)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    RETURNING *
+  `, [
+    inquiryId,
+    actorId,
+    event.type,
+    event.fromValue ?? null,
+    event.toValue ?? null,
+    event.body ?? null,
+    JSON.stringify(event.metadata || {})
+  ]);
+
+  const isResponse = event.type === 'call' || event.type === 'email'
+    || (event.type === 'status_change' && event.fromValue === 'new');
+
+  if (isResponse) {
+    await client.query(
+      'UPDATE inquiries SET first_response_at = COALESCE(first_response_at, NOW()) WHERE id = $1',
+      [inquiryId]
+    );
+  }
+
+  if (event.type === 'status_change') {
+    await client.query(`
+      UPDATE inquiries
+      SET resolved_at = CASE WHEN $2 = ANY($3::text[]) THEN COALESCE(resolved_at, NOW()) ELSE NULL END
+      WHERE id = $1
+    `, [inquiryId, event.toValue, RESOLVED_INQUIRY_STATUSES]);
+  }
+
+  return result.rows[0];
+};
+
+/**
+ * Apply field changes to an inquiry (inside the caller's transaction), recording an
+ * event for every status, priority and assignment change and for an added note.
+ * Returns null when the inquiry does not exist.
+ */
+const applyInquiryChanges = async (
+  client: PoolClient,
+  id: string,
+  updates: Record<string, any>,
+  actorId: string | null,
+  metadata: Record<string, any> = {}
+) => {
+  const current = await client.query('SELECT * FROM inquiries WHERE id = $1 FOR UPDATE', [id]);
+  if (current.rows.length === 0) {
+    return null;
+  }
+  const existing = current.rows[0];
+
+  const setClause: string[] = [];
+  const values: any[] = [];
+  const changed: Record<string, { from: any; to: any }> = {};
+
+  INQUIRY_UPDATABLE_COLUMNS.forEach(column => {
+    if (updates[column] === undefined || updates[column] === existing[column]) return;
+    values.push(updates[column]);
+    setClause.push(`${column} = $${values.length}`);
+    changed[column] = { from: existing[column], to: updates[column] };
+  });
+
+  if (changed.assigned_to) {
+    setClause.push('assigned_at = NOW()');
+  }
+
+  if (setClause.length > 0) {
+    values.push(id);
+    await client.query(
+      `UPDATE inquiries SET ${setClause.join(', ')}, updated_at = NOW() WHERE id = $${values.length}`,
+      values
+    );
+  }
+
+  if (changed.status) {
+    await recordInquiryEvent(client, id, actorId, {
+      type: 'status_change', fromValue: changed.status.from, toValue: changed.status.to, metadata
+    });
+  }
+  if (changed.priority) {
+    await recordInquiryEvent(client, id, actorId, {
+      type: 'priority_change', fromValue: changed.priority.from, toValue: changed.priority.to, metadata
+    });
+  }
+  if (changed.assigned_to) {
+    await recordInquiryEvent(client, id, actorId, {
+      type: 'assignment', fromValue: changed.assigned_to.from, toValue: changed.assigned_to.to, metadata
+    });
+  }
+  if (updates.notes) {
+    await recordInquiryEvent(client, id, actorId, { type: 'note', body: updates.notes, metadata });
+    if (setClause.length === 0) {
+      await client.query('UPDATE inquiries SET updated_at = NOW() WHERE id = $1', [id]);
+    }
+  }
+
+  const result = await client.query(`${INQUIRY_SELECT} WHERE i.id = $1`, [id]);
+  return result.rows[0];
+};
+
+export type ChatMessageRole = 'user' | 'assistant';
+
+export interface ChatMessageInput {
+  role: ChatMessageRole;
+  content: string;
+  clientMessageId?: string | null;
+  tokenEstimate: number;
+  metadata?: Record<string, any>;
+}
+
+const CHAT_THREAD_SELECT = `
+  SELECT t.id, t.user_id, t.title, t.summary, t.summarized_through, t.last_message_at, t.created_at, t.updated_at,
+    (SELECT COUNT(*) FROM chat_messages m WHERE m.thread_id = t.id)::int AS message_count
+  FROM chat_threads t
+`;
+
+// Signed-in users reach their own threads; a thread started signed out needs the hash of its session secret
+const CHAT_THREAD_ACCESS = '(t.user_id = $2 OR (t.user_id IS NULL AND t.session_secret_hash = $3))';
+
+export type LlmUsageOutcome = 'completed' | 'cached' | 'budget_exceeded' | 'failed';
+
+export interface LlmUsageRecord {
+  userId: string | null;
+  clientKey: string;
+  role: string;
+  endpoint: string;
+  useCase: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  usageEstimated: boolean;
+  outcome: LlmUsageOutcome;
+  latencyMs: number | null;
+}
+
+// Budgets are daily, counted from midnight UTC
+const LLM_USAGE_TODAY = "created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'";
+
+const LLM_USAGE_TOTALS = `
+  COUNT(*)::int AS requests,
+  COUNT(*) FILTER (WHERE outcome = 'cached')::int AS cached,
+  COUNT(*) FILTER (WHERE outcome = 'budget_exceeded')::int AS budget_exceeded,
+  COUNT(*) FILTER (WHERE outcome = 'failed')::int AS failed,
+  COALESCE(SUM(prompt_tokens), 0)::int AS prompt_tokens,
+  COALESCE(SUM(completion_tokens), 0)::int AS completion_tokens,
+  COALESCE(SUM(total_tokens), 0)::int AS total_tokens,
+  COALESCE(SUM(cost_usd), 0)::float8 AS cost_usd
+`;
+
+// Locality part of a listing's location: "Koramangala" of "Koramangala, Bengaluru", lower case
+const PROPERTY_MICRO_MARKET = "LOWER(TRIM(SPLIT_PART(p.location, ',', 1)))";
+
+// Listings that can serve as price comparables: priced, sized and not awaiting review
+const PRICED_LISTING = "p.price > 0 AND p.area_sqft > 0 AND COALESCE(p.status, 'available') <> 'draft'";
+
+export interface ComparableFilters {
+  microMarket?: string | undefined;
+  categories?: string[] | undefined;
+  limit?: number | undefined;
+}
+
+/**
+ * Rent per sqft across one micro-market and category's priced listings
+ */
+export interface MarketRateRow {
+  micro_market: string;
+  micro_market_label: string;
+  category: string;
+  listings: number;
+  median_rate_per_sqft: number;
+  p25_rate_per_sqft: number;
+  p75_rate_per_sqft: number;
+  last_listing_update: Date;
+}
+
+/**
+ * A priced listing a quote can cite
+ */
+export interface ComparableListing {
+  id: string;
+  title: string;
+  location: string;
+  category: string;
+  price: number;
+  area_sqft: number;
+  rate_per_sqft: number;
+  updated_at: Date;
+}
+
+export interface PricingRuleRow {
+  key: string;
+  value: number;
+  updated_by: string | null;
+  updated_at: Date;
+}
+
+export type InteractionAction = 'view' | 'click' | 'save' | 'contact' | 'compare';
+
+/**
+ * Who interacted: the account when signed in, and/or the browser session
+ */
+export interface InteractionActor {
+  userId: string | null;
+  sessionId: string | null;
+}
+
+export interface InteractionEvent {
+  propertyId: string;
+  action: InteractionAction;
+  timeSpentSeconds?: number | undefined;
+  context?: string | undefined;
+  occurredAt?: string | undefined;
+}
+
+/**
+ * One entry of a visitor's history: an interaction, or a saved property (action "save")
+ */
+export interface InteractionHistoryRow {
+  property_id: string;
+  action: InteractionAction;
+  time_spent_seconds: number | null;
+  occurred_at: Date;
+}
+
+export interface RecommendationFeedbackRow {
+  property_id: string;
+  feedback: 'like' | 'dislike';
+  updated_at: Date;
+}
+
+/**
+ * Visitors who interacted with both the seed and the property
+ */
+export interface CoInteractionRow {
+  seed_id: string;
+  property_id: string;
+  visitors: number;
+}
+
+/**
+ * Distinct enquirers (by email) who enquired about both the seed and the property
+ */
+export interface CoInquiryRow {
+  seed_id: string;
+  property_id: string;
+  inquirers: number;
+}
+
+export interface PopularPropertyRow {
+  property_id: string;
+  visitors: number;
+  contacts: number;
+}
+
+export type PoiCategory = 'metro' | 'restaurant' | 'hospital' | 'gym' | 'bank' | 'bus_stop';
+
+/**
+ * A point of interest as parsed from an import
+ */
+export interface PoiRecord {
+  externalId: string;
+  category: PoiCategory;
+  name: string;
+  latitude: number;
+  longitude: number;
+  tags: Record<string, unknown>;
+}
+
+export type ScrapeJobStatus = 'queued' | 'running' | 'extracting' | 'review' | 'done' | 'failed' | 'cancelled';
+
+// A worker is on these; cancelling stops it at its next checkpoint
+const ACTIVE_SCRAPE_JOB_STATUSES: ScrapeJobStatus[] = ['queued', 'running', 'extracting'];
+
+export interface ScrapeJobChanges {
+  status?: ScrapeJobStatus | undefined;
+  progress?: number | undefined;
+  stageMessage?: string | undefined;
+  result?: Record<string, any> | undefined;
+  extraction?: Record<string, any> | undefined;
+  error?: string | undefined;
+}
+
+// Job list columns: everything but the scraped and extracted payloads
+const SCRAPE_JOB_SUMMARY = `
+  j.id, j.created_by, j.status, j.request, j.source_url, j.progress, j.stage_message, j.error,
+  j.attempts, j.started_at, j.finished_at, j.created_at, j.updated_at,
+  CASE WHEN jsonb_typeof(j.result->'data') = 'array' THEN jsonb_array_length(j.result->'data') END AS scraped_count,
+  CASE WHEN jsonb_typeof(j.extraction->'properties') = 'array' THEN jsonb_array_length(j.extraction->'properties') END AS extracted_count,
+  (j.result IS NOT NULL) AS has_result
+`;
+
+/**
+ * Move a job to another state when it is in one of `from`; NOT_FOUND or INVALID_STATE otherwise
+ */
+const transitionScrapeJob = async (id: string, from: ScrapeJobStatus[], set: string, operation: string) => {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(`
+      UPDATE scrape_jobs AS j
+      SET ${set}, updated_at = NOW()
+      WHERE j.id = $1 AND j.status = ANY($2)
+      RETURNING ${SCRAPE_JOB_SUMMARY}
+    `, [id, from]);
+
+    if (result.rows.length > 0) {
+      return formatResponse(result.rows[0]);
+    }
+
+    const existing = await client.query('SELECT status FROM scrape_jobs WHERE id = $1', [id]);
+    if (existing.rows.length === 0) {
+      return formatResponse(null, { message: 'Scrape job not found', code: 'NOT_FOUND' });
+    }
+    return formatResponse(null, {
+      message: `A ${existing.rows[0].status} job cannot be ${operation}`,
+      code: 'INVALID_STATE'
+    });
+  } catch (error: any) {
+    logger.error(`Scrape jobs ${operation} error:`, error);
+    return formatResponse(null, { message: error.message });
+  } finally {
+    client.release();
+  }
+};
+
+export type ScrapeChangeType = 'new' | 'changed' | 'disappeared';
+
+// A difference between a scheduled scrape and the imported properties
+export interface ScrapeChangeInput {
+  changeType: ScrapeChangeType;
+  sourceUrl: string;
+  propertyId: string | null;
+  listing: Record<string, any> | null;
+  // Property column -> { from, to }
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface ScrapeRunOutcome {
+  status: 'completed' | 'failed';
+  listingsFound?: number | undefined;
+  counts?: Record<ScrapeChangeType, number> | undefined;
+  // Listing URLs of a completed run, compared against by the next one
+  seenUrls?: string[] | undefined;
+  error?: string | undefined;
+}
+
+// Property columns an applied "changed" entry may set
+const SCRAPE_CHANGE_FIELDS = ['price', 'area_sqft', 'availability_status'];
+
+// Property fields compared for duplicates and shown side by side by the merge tool, with the
+// source URLs of records already merged into it
+const duplicateRecord = (alias: string) => `json_build_object(
+  'id', ${alias}.id, 'title', ${alias}.title, 'description', ${alias}.description, 'price', ${alias}.price,
+  'location', ${alias}.location, 'address', ${alias}.address, 'area_sqft', ${alias}.area_sqft,
+  'property_type', ${alias}.property_type, 'status', ${alias}.status, 'availability_status', ${alias}.availability_status,
+  'amenities', ${alias}.amenities, 'features', ${alias}.features, 'coordinates', ${alias}.coordinates,
+  'source_url', ${alias}.source_url, 'scraped_at', ${alias}.scraped_at, 'created_at', ${alias}.created_at,
+  'media_count', (SELECT COUNT(*)::int FROM property_media pm WHERE pm.property_id = ${alias}.id),
+  'merged_source_urls', ARRAY(
+    SELECT m.source_url FROM property_merges m WHERE m.target_property_id = ${alias}.id AND m.source_url IS NOT NULL
+  )
+)`;
+
+// A properties row as kept in merge history, without derived search and map columns
+const propertySnapshot = (row: Record<string, any>) => {
+  const { search_vector: _searchVector, geo_location: _geoLocation, ...snapshot } = row;
+  return snapshot;
+};
+
+// One submitted listing of an import batch. Rows with a status were settled before the batch
+// ran (validation, duplicates); the rest are inserted from record and tagged with tags.
+export interface PropertyImportRow {
+  index: number;
+  title: string;
+  sourceUrl: string;
+  record?: Record<string, any> | undefined;
+  tags?: string[] | undefined;
+  status?: 'failed' | 'skipped' | undefined;
+  error?: string | undefined;
+  duplicateOf?: string[] | undefined;
+}
+
+export interface PropertyImportBatchInput {
+  idempotencyKey: string;
+  // SHA-256 of the request; the key cannot be reused for a different one
+  requestHash: string;
+  mode: ImportMode;
+  jobId: string | null;
+  // Keys are scoped to the admin who ran the import
+  createdBy: string;
+  rows: PropertyImportRow[];
+}
+
+export interface PropertyImportBatchRow {
+  id: string;
+  idempotency_key: string;
+  request_hash: string;
+  mode: ImportMode;
+  status: ImportBatchStatus;
+  total: number;
+  imported: number;
+  failed: number;
+  skipped: number;
+  report: ImportReportRow[];
+  job_id: string | null;
+  created_by: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Record a batch's outcome and report: the claimed row inside the batch transaction, or a new
+ * (or earlier rolled back) row once an atomic batch has been rolled back
+ */
+const saveImportBatch = (client: PoolClient, batch: PropertyImportBatchInput, status: ImportBatchStatus, report: ImportReportRow[]) => {
+  const count = (rowStatus: ImportReportRow['status']) => report.filter(row => row.status === rowStatus).length;
+  return client.query<PropertyImportBatchRow>(`
+    INSERT INTO property_import_batches (
+      idempotency_key, request_hash, mode, status, total, imported, failed, skipped, report, job_id, created_by, completed_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+    ON CONFLICT (created_by, idempotency_key) DO UPDATE
+    SET status = EXCLUDED.status, total = EXCLUDED.total, imported = EXCLUDED.imported, failed = EXCLUDED.failed,
+        skipped = EXCLUDED.skipped, report = EXCLUDED.report, completed_at = NOW()
+    RETURNING *
+  `, [
+    batch.idempotencyKey,
+    batch.requestHash,
+    batch.mode,
+    status,
+    report.length,
+    count('imported'),
+    count('failed'),
+    count('skipped'),
+    JSON.stringify(report),
+    batch.jobId,
+    batch.createdBy
+  ]);
+};
+
+// Schedule columns with its preset, pending review count and latest run (not the seen URL list)
+const SCRAPE_SCHEDULE_SELECT = `
+  SELECT s.id, s.preset_id, s.created_by, s.cron, s.max_pages, s.is_active, s.next_run_at,
+         s.last_run_at, s.last_status, s.last_error, s.created_at, s.updated_at,
+         cardinality(s.last_seen_urls) AS tracked_listings,
+         sp.name AS preset_name, sp.search_params, u.name AS created_by_name,
+         (SELECT COUNT(*)::int FROM scrape_changes c WHERE c.schedule_id = s.id AND c.status = 'pending') AS pending_changes,
+         (SELECT row_to_json(r) FROM (
+            SELECT id, status, listings_found, new_count, changed_count, disappeared_count, error, started_at, finished_at
+            FROM scrape_schedule_runs WHERE schedule_id = s.id ORDER BY started_at DESC LIMIT 1
+         ) r) AS last_run
+  FROM scrape_schedules s
+  JOIN search_presets sp ON sp.id = s.preset_id
+  LEFT JOIN users u ON u.id = s.created_by
+`;
+
+// One visitor across property_interactions rows: the account, else the session
+const INTERACTION_VISITOR = "COALESCE(i.user_id, 'session:' || i.session_id)";
+
+// Listings that can be recommended
+const RECOMMENDABLE_LISTING = "COALESCE(p.status, 'available') <> 'draft' AND COALESCE(p.availability_status, 'available') <> 'not-available'";
+
+/**
+ * Rows of property_interactions aliased "i" that belong to the actor, with its parameters
+ * appended to params
+ */
+const buildActorClause = (actor: InteractionActor, params: any[], alias = 'i') => {
+  const conditions: string[] = [];
+  if (actor.userId) {
+    params.push(actor.userId);
+    conditions.push(`${alias}.user_id = $${params.length}`);
+  }
+  if (actor.sessionId) {
+    params.push(actor.sessionId);
+    conditions.push(`${alias}.session_id = $${params.length}`);
+  }
+  return conditions.length > 0 ? `(${conditions.join(' OR ')})` : 'FALSE';
+};
+
 /**
  * Database service functions (Supabase-compatible API)
  */
@@ -107,45 +1037,3048 @@ export const DatabaseService = {
    * Properties operations
    */
   properties: {
-    getAll: async (filters: any = {}) => {
+    /**
+     * List properties matching the filters, one page at a time.
+     * Returns the page of rows plus the total number of matching rows.
+     */
+    getAll: async (filters: any = {}, options: PropertyListOptions = {}) => {
       const client = await pool.connect();
       try {
-        let query = `
-          SELECT p.*, u.name as agent_name 
-          FROM properties p 
+        const { clause, params } = buildPropertyFilterClause(filters);
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(options.page || 1, 1);
+        const offset = (page - 1) * limit;
+
+        const countResult = await client.query(
+          `SELECT COUNT(*) AS total FROM properties p WHERE 1=1${clause}`,
+          params
+        );
+
+        const selectParams = [...params];
+        const distanceSelect = buildDistanceSelect(filters, selectParams);
+        const sortBy = options.sortBy === 'distance' && !distanceSelect ? 'date' : options.sortBy;
+
+        const query = `
+          SELECT p.*, u.name as agent_name${distanceSelect}, ${PROPERTY_TAGS_SELECT}, ${PROPERTY_MEDIA_SELECT}
+          FROM properties p 
           LEFT JOIN users u ON p.listing_agent_id = u.id 
-          WHERE 1=1
+          WHERE 1=1${clause}
+          ORDER BY ${buildPropertyOrderClause(sortBy, options.sortOrder)}
+          LIMIT $${selectParams.length + 1} OFFSET $${selectParams.length + 2}
         `;
-        const params: any[] = [];
+
+        const result = await client.query(query, [...selectParams, limit, offset]);
+        return formatResponse({
+          rows: result.rows.map(omitInternalColumns),
+          total: parseInt(countResult.rows[0]?.total || '0', 10),
+          page,
+          limit
+        });
+      } catch (error: any) {
+        logger.error('Properties getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT p.*, u.name as agent_name, u.email as agent_email, ${PROPERTY_TAGS_SELECT}, ${PROPERTY_MEDIA_SELECT}
+          FROM properties p 
+          LEFT JOIN users u ON p.listing_agent_id = u.id 
+          WHERE p.id = $1
+        `, [id]);
+        
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Property not found', code: 'PGRST116' });
+        }
+        
+        return formatResponse(omitInternalColumns(result.rows[0]));
+      } catch (error: any) {
+        logger.error('Properties getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Full rows for the given ids, in the order given; deleted ones are left out
+     */
+    getByIds: async (ids: string[]) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT p.*, u.name as agent_name, ${PROPERTY_TAGS_SELECT}, ${PROPERTY_MEDIA_SELECT}
+          FROM properties p
+          LEFT JOIN users u ON p.listing_agent_id = u.id
+          WHERE p.id = ANY($1::uuid[])
+          ORDER BY array_position($1::uuid[], p.id)
+        `, [ids]);
+
+        return formatResponse(result.rows.map(omitInternalColumns));
+      } catch (error: any) {
+        logger.error('Properties getByIds error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (propertyData: any) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const property = await insertProperty(client, propertyData);
+        await client.query('COMMIT');
+        return formatResponse(omitInternalColumns(property));
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Properties create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    update: async (id: string, updates: any) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
         let paramIndex = 1;
 
-        if (filters.status) {
-          query += ` AND p.status = $${paramIndex}`;
-          params.push(filters.status);
-          paramIndex++;
+        Object.entries(updates).forEach(([key, value]) => {
+          if (key !== 'id') {
+            if (typeof value === 'object' && value !== null) {
+              setClause.push(`${key} = $${paramIndex}`);
+              values.push(JSON.stringify(value));
+            } else {
+              setClause.push(`${key} = $${paramIndex}`);
+              values.push(value);
+            }
+            paramIndex++;
+          }
+        });
+
+        setClause.push(`updated_at = NOW()`);
+        values.push(id);
+
+        const query = `
+          UPDATE properties 
+          SET ${setClause.join(', ')}
+          WHERE id = $${paramIndex}
+          RETURNING *
+        `;
+
+        const result = await client.query(query, values);
+        return formatResponse(omitInternalColumns(result.rows[0]));
+      } catch (error: any) {
+        logger.error('Properties update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('DELETE FROM properties WHERE id = $1', [id]);
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Properties delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Replace the property's active tags with tagIds (assignments of deactivated tags are left alone).
+     * Returns the property's tags afterwards.
+     */
+    setTags: async (id: string, tagIds: string[], actorId: string | null = null) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        const existing = await client.query('SELECT id FROM properties WHERE id = $1 FOR UPDATE', [id]);
+        if (existing.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Property not found', code: 'PGRST116' });
         }
-        if (filters.property_type) {
-          query += ` AND p.property_type = $${paramIndex}`;
-          params.push(filters.property_type);
-          paramIndex++;
+
+        const known = await client.query('SELECT id FROM tags WHERE id = ANY($1::uuid[])', [tagIds]);
+        if (known.rows.length !== new Set(tagIds).size) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'One or more tags do not exist', code: 'INVALID_TAGS' });
         }
-        if (filters.min_price) {
-          query += ` AND p.price >= $${paramIndex}`;
-          params.push(filters.min_price);
-          paramIndex++;
+
+        await client.query(`
+          DELETE FROM property_tag_assignments pta
+          USING tags t
+          WHERE pta.tag_id = t.id AND t.is_active = true
+            AND pta.property_id = $1 AND pta.tag_id <> ALL($2::uuid[])
+        `, [id, tagIds]);
+
+        await client.query(`
+          INSERT INTO property_tag_assignments (property_id, tag_id, assigned_by)
+          SELECT $1, tag_id, $3 FROM unnest($2::uuid[]) AS tag_id
+          ON CONFLICT (property_id, tag_id) DO NOTHING
+        `, [id, tagIds, actorId]);
+
+        const result = await client.query(`SELECT ${PROPERTY_TAGS_SELECT} FROM properties p WHERE p.id = $1`, [id]);
+        await client.query('COMMIT');
+
+        return formatResponse(result.rows[0]?.custom_tags || []);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Properties setTags error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Full-text search ranked by relevance, with highlighted snippets.
+     * If no property matches the query as typed, misspelled words are corrected
+     * against the listing vocabulary and the corrected query is searched too.
+     */
+    search: async (searchQuery: string, filters: any = {}, options: PropertySearchOptions = {}) => {
+      const client = await pool.connect();
+      try {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(options.page || 1, 1);
+        const offset = (page - 1) * limit;
+
+        const exactResult = await client.query(
+          `SELECT EXISTS (
+            SELECT 1 FROM properties p WHERE p.search_vector @@ websearch_to_tsquery('english', $1)
+          ) AS found`,
+          [searchQuery]
+        );
+        const suggestion = exactResult.rows[0]?.found
+          ? null
+          : await suggestSearchCorrection(client, searchQuery);
+
+        const tsQuery = suggestion
+          ? `(websearch_to_tsquery('english', $1) || websearch_to_tsquery('english', $2))`
+          : `websearch_to_tsquery('english', $1)`;
+        const { clause, params } = buildPropertyFilterClause(
+          filters,
+          suggestion ? [searchQuery, suggestion] : [searchQuery]
+        );
+        const where = `p.search_vector @@ ${tsQuery}${clause}`;
+
+        const countResult = await client.query(
+          `SELECT COUNT(*) AS total FROM properties p WHERE ${where}`,
+          params
+        );
+
+        const selectParams = [...params];
+        const distanceSelect = buildDistanceSelect(filters, selectParams);
+        const sortBy = options.sortBy === 'distance' && !distanceSelect ? 'relevance' : options.sortBy;
+        const orderBy = !sortBy || sortBy === 'relevance'
+          ? 'relevance DESC, p.created_at DESC, p.id DESC'
+          : buildPropertyOrderClause(sortBy, options.sortOrder);
+
+        const query = `
+          SELECT p.*, u.name as agent_name${distanceSelect}, ${PROPERTY_TAGS_SELECT}, ${PROPERTY_MEDIA_SELECT},
+            ts_rank_cd(p.search_vector, ${tsQuery}, 32) AS relevance,
+            ts_headline('english', ${escapedHeadlineSource('p.title')}, ${tsQuery}, '${TITLE_HEADLINE_OPTIONS}') AS title_highlight,
+            ts_headline('english', ${escapedHeadlineSource('p.location')}, ${tsQuery}, '${TITLE_HEADLINE_OPTIONS}') AS location_highlight,
+            ts_headline('english', ${escapedHeadlineSource('p.description')}, ${tsQuery}, '${DESCRIPTION_HEADLINE_OPTIONS}') AS description_highlight
+          FROM properties p 
+          LEFT JOIN users u ON p.listing_agent_id = u.id 
+          WHERE ${where}
+          ORDER BY ${orderBy}
+          LIMIT $${selectParams.length + 1} OFFSET $${selectParams.length + 2}
+        `;
+
+        const result = await client.query(query, [...selectParams, limit, offset]);
+        const rows = result.rows.map(({ relevance, title_highlight, location_highlight, description_highlight, ...row }) => ({
+          ...omitInternalColumns(row),
+          relevance,
+          highlights: {
+            title: title_highlight,
+            location: location_highlight,
+            description: description_highlight
+          }
+        }));
+
+        return formatResponse({
+          rows,
+          total: parseInt(countResult.rows[0]?.total || '0', 10),
+          page,
+          limit,
+          suggestion
+        });
+      } catch (error: any) {
+        logger.error('Properties search error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Property gallery operations. Every change returns the whole gallery in display order,
+   * since moving the cover or an item affects the others.
+   */
+  propertyMedia: {
+    getAll: async (propertyId: string) => {
+      const client = await pool.connect();
+      try {
+        return formatResponse(await selectPropertyMedia(client, propertyId));
+      } catch (error: any) {
+        logger.error('Property media getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Append items to the end of the gallery. An item flagged as cover takes over the cover;
+     * a gallery without one gets its first non-document item as cover.
+     */
+    add: async (propertyId: string, items: PropertyMediaInput[], actorId: string | null = null) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        if (!(await lockProperty(client, propertyId))) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Property not found', code: 'PGRST116' });
         }
-        if (filters.max_price) {
-          query += ` AND p.price <= $${paramIndex}`;
-          params.push(filters.max_price);
-          paramIndex++;
+
+        const positionResult = await client.query(
+          'SELECT COALESCE(MAX(position) + 1, 0) AS next FROM property_media WHERE property_id = $1',
+          [propertyId]
+        );
+        let position = Number(positionResult.rows[0].next);
+
+        const coverIndex = items.findIndex(item => item.isCover && item.kind !== 'document');
+        if (coverIndex !== -1) {
+          await client.query('UPDATE property_media SET is_cover = false WHERE property_id = $1 AND is_cover', [propertyId]);
+        }
+
+        for (const [index, item] of items.entries()) {
+          await client.query(`
+            INSERT INTO property_media (
+              property_id, kind, url, thumbnail_url, srcset, storage_path, filename, mime_type,
+              size, width, height, duration, caption, alt_text, position, is_cover, created_by
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+          `, [
+            propertyId,
+            item.kind,
+            item.url,
+            item.thumbnailUrl ?? null,
+            item.srcset ? JSON.stringify(item.srcset) : null,
+            item.path ?? null,
+            item.filename ?? null,
+            item.mimeType ?? null,
+            item.size ?? null,
+            item.width ?? null,
+            item.height ?? null,
+            item.duration ?? null,
+            item.caption ?? null,
+            item.altText ?? null,
+            position++,
+            index === coverIndex,
+            actorId
+          ]);
+        }
+
+        await ensurePropertyCover(client, propertyId);
+        await syncPropertyImages(client, propertyId);
+        const media = await selectPropertyMedia(client, propertyId);
+        await client.query('COMMIT');
+
+        return formatResponse(media);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Property media add error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Change an item's kind, caption or alt text, or make it the cover
+     */
+    update: async (propertyId: string, mediaId: string, changes: PropertyMediaChanges) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        if (!(await lockProperty(client, propertyId))) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Property not found', code: 'PGRST116' });
+        }
+
+        const existing = await client.query(
+          'SELECT * FROM property_media WHERE id = $1 AND property_id = $2',
+          [mediaId, propertyId]
+        );
+        if (existing.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Media item not found', code: 'NOT_FOUND' });
+        }
+
+        const kind = changes.kind ?? existing.rows[0].kind;
+        if (changes.isCover && kind === 'document') {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'A document cannot be the cover', code: 'INVALID_COVER' });
+        }
+
+        if (changes.isCover) {
+          await client.query(
+            'UPDATE property_media SET is_cover = false WHERE property_id = $1 AND is_cover AND id <> $2',
+            [propertyId, mediaId]
+          );
+        }
+
+        const setClause: string[] = ['updated_at = NOW()'];
+        const values: any[] = [mediaId];
+        const columns: Record<string, any> = {
+          kind: changes.kind,
+          caption: changes.caption,
+          alt_text: changes.altText,
+          is_cover: changes.isCover
+        };
+        Object.entries(columns).forEach(([column, value]) => {
+          if (value !== undefined) {
+            values.push(value);
+            setClause.push(`${column} = $${values.length}`);
+          }
+        });
+        // A cover turned into a document hands the cover on
+        if (kind === 'document') {
+          setClause.push('is_cover = false');
+        }
+
+        await client.query(`UPDATE property_media SET ${setClause.join(', ')} WHERE id = $1`, values);
+
+        await ensurePropertyCover(client, propertyId);
+        await syncPropertyImages(client, propertyId);
+        const media = await selectPropertyMedia(client, propertyId);
+        await client.query('COMMIT');
+
+        return formatResponse(media);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Property media update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Put the gallery in the given order; mediaIds must list every item exactly once
+     */
+    reorder: async (propertyId: string, mediaIds: string[]) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        if (!(await lockProperty(client, propertyId))) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Property not found', code: 'PGRST116' });
+        }
+
+        const current = await selectPropertyMedia(client, propertyId);
+        const currentIds = new Set(current.map(item => item.id));
+        if (mediaIds.length !== currentIds.size || !mediaIds.every(id => currentIds.has(id))) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, {
+            message: 'The new order must list every media item of the property exactly once',
+            code: 'INVALID_ORDER'
+          });
+        }
+
+        await client.query(`
+          UPDATE property_media pm
+          SET position = ordered.ordinality - 1, updated_at = NOW()
+          FROM unnest($2::uuid[]) WITH ORDINALITY AS ordered(id, ordinality)
+          WHERE pm.id = ordered.id AND pm.property_id = $1
+        `, [propertyId, mediaIds]);
+
+        await syncPropertyImages(client, propertyId);
+        const media = await selectPropertyMedia(client, propertyId);
+        await client.query('COMMIT');
+
+        return formatResponse(media);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Property media reorder error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Remove an item; returns the removed row (its storage_path is the caller's to delete) and the gallery
+     */
+    remove: async (propertyId: string, mediaId: string) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        if (!(await lockProperty(client, propertyId))) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Property not found', code: 'PGRST116' });
+        }
+
+        const result = await client.query(
+          'DELETE FROM property_media WHERE id = $1 AND property_id = $2 RETURNING *',
+          [mediaId, propertyId]
+        );
+        if (result.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Media item not found', code: 'NOT_FOUND' });
+        }
+
+        await ensurePropertyCover(client, propertyId);
+        await syncPropertyImages(client, propertyId);
+        const media = await selectPropertyMedia(client, propertyId);
+        await client.query('COMMIT');
+
+        return formatResponse({ removed: result.rows[0], media });
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Property media remove error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Uploaded media files and who uploaded them (see DELETE /upload/file)
+   */
+  mediaUploads: {
+    record: async (uploadPath: string, uploadedBy: string, mediaType: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO media_uploads (path, uploaded_by, media_type)
+          VALUES ($1, $2, $3)
+          RETURNING *
+        `, [uploadPath, uploadedBy, mediaType]);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Media uploads record error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getByPath: async (uploadPath: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('SELECT * FROM media_uploads WHERE path = $1', [uploadPath]);
+        return formatResponse(result.rows[0] || null);
+      } catch (error: any) {
+        logger.error('Media uploads getByPath error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (uploadPath: string) => {
+      const client = await pool.connect();
+      try {
+        await client.query('DELETE FROM media_uploads WHERE path = $1', [uploadPath]);
+        return formatResponse(true);
+      } catch (error: any) {
+        logger.error('Media uploads delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Testimonials operations
+   */
+  testimonials: {
+    getAll: async () => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT t.*, p.title as property_title 
+          FROM testimonials t 
+          LEFT JOIN properties p ON t.property_id = p.id 
+          ORDER BY t.created_at DESC
+        `);
+        
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Testimonials getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getApproved: async () => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT t.*, p.title as property_title 
+          FROM testimonials t 
+          LEFT JOIN properties p ON t.property_id = p.id 
+          WHERE t.status = 'approved' 
+          ORDER BY t.approved_at DESC
+        `);
+        
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Testimonials getApproved error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getPending: async () => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT t.*, p.title as property_title 
+          FROM testimonials t 
+          LEFT JOIN properties p ON t.property_id = p.id 
+          WHERE t.status = 'pending' 
+          ORDER BY t.created_at DESC
+        `);
+        
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Testimonials getPending error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (testimonialData: any) => {
+      const client = await pool.connect();
+      try {
+        const query = `
+          INSERT INTO testimonials (
+            client_name, client_email, client_phone, property_id, rating,
+            title, content, status
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          RETURNING *
+        `;
+        
+        const values = [
+          testimonialData.client_name,
+          testimonialData.client_email,
+          testimonialData.client_phone,
+          testimonialData.property_id,
+          testimonialData.rating,
+          testimonialData.title,
+          testimonialData.content,
+          'pending'
+        ];
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Testimonials create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    update: async (id: string, updates: any) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        Object.entries(updates).forEach(([key, value]) => {
+          if (key !== 'id') {
+            setClause.push(`${key} = $${paramIndex}`);
+            values.push(value);
+            paramIndex++;
+          }
+        });
+
+        setClause.push(`updated_at = NOW()`);
+        values.push(id);
+
+        const query = `
+          UPDATE testimonials 
+          SET ${setClause.join(', ')}
+          WHERE id = $${paramIndex}
+          RETURNING *
+        `;
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Testimonials update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    updateStatus: async (id: string, status: string, reviewerId: string, reason?: string) => {
+      const client = await pool.connect();
+      try {
+        let query = `UPDATE testimonials SET status = $1, updated_at = NOW()`;
+        const values = [status];
+        let paramIndex = 2;
+
+        if (status === 'approved') {
+          query += `, approved_at = NOW(), approved_by = $${paramIndex}`;
+          values.push(reviewerId);
+          paramIndex++;
+        } else if (status === 'rejected' && reason) {
+          query += `, rejection_reason = $${paramIndex}`;
+          values.push(reason);
+          paramIndex++;
+        }
+
+        query += ` WHERE id = $${paramIndex} RETURNING *`;
+        values.push(id);
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Testimonials updateStatus error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('DELETE FROM testimonials WHERE id = $1', [id]);
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Testimonials delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Inquiries operations
+   */
+  inquiries: {
+    getAll: async (filters: any = {}) => {
+      const client = await pool.connect();
+      try {
+        let query = `${INQUIRY_SELECT} WHERE 1=1`;
+        const params: any[] = [];
+        let paramIndex = 1;
+
+        if (filters.status) {
+          query += ` AND i.status = $${paramIndex}`;
+          params.push(filters.status);
+          paramIndex++;
+        }
+        if (filters.assigned_to) {
+          query += ` AND i.assigned_to = $${paramIndex}`;
+          params.push(filters.assigned_to);
+          paramIndex++;
+        }
+
+        query += ' ORDER BY i.created_at DESC';
+        
+        const result = await client.query(query, params);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Inquiries getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`${INQUIRY_SELECT} WHERE i.id = $1`, [id]);
+        
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Inquiry not found', code: 'PGRST116' });
+        }
+        
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Inquiries getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (inquiryData: any) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        const query = `
+          INSERT INTO inquiries (property_id, name, email, phone, message, inquiry_type, status)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING *
+        `;
+        
+        const values = [
+          inquiryData.property_id,
+          inquiryData.name,
+          inquiryData.email,
+          inquiryData.phone,
+          inquiryData.message,
+          inquiryData.inquiry_type || 'general',
+          'new'
+        ];
+
+        const result = await client.query(query, values);
+        const inquiry = result.rows[0];
+
+        await recordInquiryEvent(client, inquiry.id, null, {
+          type: 'created',
+          toValue: inquiry.status,
+          metadata: { source: inquiryData.source || null, inquiry_type: inquiry.inquiry_type }
+        });
+
+        await client.query('COMMIT');
+        return formatResponse(inquiry);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Inquiries create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Update an inquiry as `actorId` (null for system changes). Status, priority and
+     * assignment changes are recorded on the timeline; `notes` is appended as a note.
+     */
+    update: async (id: string, updates: any, actorId: string | null = null, metadata: Record<string, any> = {}) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const inquiry = await applyInquiryChanges(client, id, updates, actorId, metadata);
+        await client.query('COMMIT');
+
+        if (!inquiry) {
+          return formatResponse(null, { message: 'Inquiry not found', code: 'PGRST116' });
+        }
+
+        return formatResponse(inquiry);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Inquiries update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    updateStatus: async (id: string, status: string, notes?: string, actorId: string | null = null) => {
+      return DatabaseService.inquiries.update(id, { status, notes }, actorId);
+    },
+
+    assign: async (id: string, agentId: string, actorId: string | null = null) => {
+      return DatabaseService.inquiries.update(id, { assigned_to: agentId }, actorId);
+    },
+
+    /**
+     * Assign an unassigned inquiry to the next active agent. round_robin picks the agent
+     * assigned longest ago; load_balanced the one with the fewest open inquiries (ties
+     * broken round-robin). Serialised with an advisory lock so concurrent submissions
+     * don't pick the same agent. Returns null data when there is no agent to assign.
+     */
+    autoAssign: async (id: string, strategy: InquiryAssignmentStrategy) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query("SELECT pg_advisory_xact_lock(hashtext('inquiries_auto_assign'))");
+
+        const orderBy = strategy === 'load_balanced'
+          ? 'a.open_count ASC, a.last_assigned_at ASC NULLS FIRST, u.created_at ASC'
+          : 'a.last_assigned_at ASC NULLS FIRST, u.created_at ASC';
+
+        const agentResult = await client.query(`
+          SELECT u.id, u.name, a.open_count
+          FROM users u
+          LEFT JOIN LATERAL (
+            SELECT
+              COUNT(*) FILTER (WHERE i.status <> ALL($1::text[]))::int AS open_count,
+              MAX(i.assigned_at) AS last_assigned_at
+            FROM inquiries i
+            WHERE i.assigned_to = u.id
+          ) a ON true
+          WHERE u.role = 'agent' AND u.is_active = true
+          ORDER BY ${orderBy}
+          LIMIT 1
+        `, [RESOLVED_INQUIRY_STATUSES]);
+
+        const agent = agentResult.rows[0];
+        if (!agent) {
+          await client.query('COMMIT');
+          return formatResponse(null);
+        }
+
+        const inquiry = await client.query('SELECT assigned_to FROM inquiries WHERE id = $1', [id]);
+        if (inquiry.rows.length === 0 || inquiry.rows[0].assigned_to) {
+          // Gone, or assigned by hand in the meantime
+          await client.query('COMMIT');
+          return formatResponse(null);
+        }
+
+        const updated = await applyInquiryChanges(client, id, { assigned_to: agent.id }, null, {
+          auto_assigned: true,
+          strategy
+        });
+
+        await client.query('COMMIT');
+        return formatResponse({ inquiry: updated, agent });
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Inquiries autoAssign error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Timeline for an inquiry, oldest first
+     */
+    getEvents: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT e.*, u.name AS actor_name, u.email AS actor_email
+          FROM inquiry_events e
+          LEFT JOIN users u ON u.id = e.actor_id
+          WHERE e.inquiry_id = $1
+          ORDER BY e.created_at ASC, e.id ASC
+        `, [id]);
+
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Inquiries getEvents error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Log a note, call or email against an inquiry
+     */
+    addEvent: async (id: string, actorId: string, event: InquiryEventInput) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        const exists = await client.query('SELECT id FROM inquiries WHERE id = $1 FOR UPDATE', [id]);
+        if (exists.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Inquiry not found', code: 'PGRST116' });
+        }
+
+        const created = await recordInquiryEvent(client, id, actorId, event);
+        await client.query('UPDATE inquiries SET updated_at = NOW() WHERE id = $1', [id]);
+        await client.query('COMMIT');
+
+        const result = await client.query(`
+          SELECT e.*, u.name AS actor_name, u.email AS actor_email
+          FROM inquiry_events e
+          LEFT JOIN users u ON u.id = e.actor_id
+          WHERE e.id = $1
+        `, [created.id]);
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Inquiries addEvent error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Response/resolution averages and SLA breach counts per priority.
+     * Open inquiries count as breached once they are past their target.
+     */
+    getMetrics: async (targets: InquirySlaTarget[], filters: { assigned_to?: string } = {}) => {
+      const client = await pool.connect();
+      try {
+        const params: any[] = [
+          targets.map(t => t.priority),
+          targets.map(t => t.firstResponseHours),
+          targets.map(t => t.resolutionHours)
+        ];
+        let where = '';
+        if (filters.assigned_to) {
+          params.push(filters.assigned_to);
+          where = `WHERE i.assigned_to = $${params.length}`;
+        }
+
+        const result = await client.query(`
+          WITH targets AS (
+            SELECT * FROM unnest($1::text[], $2::float8[], $3::float8[])
+              AS t(priority, first_response_hours, resolution_hours)
+          )
+          SELECT
+            COALESCE(i.priority, 'medium') AS priority,
+            COUNT(*)::int AS total,
+            COUNT(*) FILTER (WHERE i.resolved_at IS NULL)::int AS open,
+            COUNT(*) FILTER (WHERE i.first_response_at IS NULL AND i.resolved_at IS NULL)::int AS awaiting_response,
+            ROUND(AVG(EXTRACT(EPOCH FROM (i.first_response_at - i.created_at)) / 3600)::numeric, 1)::float8
+              AS avg_first_response_hours,
+            ROUND(AVG(EXTRACT(EPOCH FROM (i.resolved_at - i.created_at)) / 3600)::numeric, 1)::float8
+              AS avg_resolution_hours,
+            COUNT(*) FILTER (
+              WHERE COALESCE(i.first_response_at, NOW()) > i.created_at + t.first_response_hours * INTERVAL '1 hour'
+            )::int AS first_response_breaches,
+            COUNT(*) FILTER (
+              WHERE COALESCE(i.resolved_at, NOW()) > i.created_at + t.resolution_hours * INTERVAL '1 hour'
+            )::int AS resolution_breaches
+          FROM inquiries i
+          LEFT JOIN targets t ON t.priority = COALESCE(i.priority, 'medium')
+          ${where}
+          GROUP BY COALESCE(i.priority, 'medium')
+          ORDER BY 1
+        `, params);
+
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Inquiries getMetrics error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * FAQs operations
+   */
+  faqs: {
+    getAll: async () => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT f.*, c.name as category_name 
+          FROM faqs f 
+          LEFT JOIN faq_categories c ON f.category_id = c.id 
+          WHERE f.is_active = true 
+          ORDER BY f."order" ASC, f.created_at DESC
+        `);
+        
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('FAQs getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT f.*, c.name as category_name 
+          FROM faqs f 
+          LEFT JOIN faq_categories c ON f.category_id = c.id 
+          WHERE f.id = $1
+        `, [id]);
+        
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'FAQ not found' });
+        }
+        
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('FAQs getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (faqData: any) => {
+      const client = await pool.connect();
+      try {
+        const query = `
+          INSERT INTO faqs (category_id, question, answer, "order", is_active, tags, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING *
+        `;
+        
+        const values = [
+          faqData.category_id,
+          faqData.question,
+          faqData.answer,
+          faqData.order || 0,
+          true,
+          JSON.stringify(faqData.tags || []),
+          faqData.created_by
+        ];
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('FAQs create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    update: async (id: string, updates: any) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        Object.entries(updates).forEach(([key, value]) => {
+          if (key !== 'id') {
+            if (key === 'tags') {
+              setClause.push(`${key} = $${paramIndex}`);
+              values.push(JSON.stringify(value));
+            } else {
+              setClause.push(`${key} = $${paramIndex}`);
+              values.push(value);
+            }
+            paramIndex++;
+          }
+        });
+
+        setClause.push(`updated_at = NOW()`);
+        values.push(id);
+
+        const query = `
+          UPDATE faqs 
+          SET ${setClause.join(', ')}
+          WHERE id = $${paramIndex}
+          RETURNING *
+        `;
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('FAQs update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('DELETE FROM faqs WHERE id = $1', [id]);
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('FAQs delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * FAQ Categories operations
+   */
+  faqCategories: {
+    getAll: async () => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT * FROM faq_categories 
+          WHERE is_active = true 
+          ORDER BY "order" ASC
+        `);
+        
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('FAQ Categories getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('SELECT * FROM faq_categories WHERE id = $1', [id]);
+        
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Category not found' });
+        }
+        
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('FAQ Categories getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (categoryData: any) => {
+      const client = await pool.connect();
+      try {
+        const query = `
+          INSERT INTO faq_categories (name, slug, description, "order", is_active)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING *
+        `;
+        
+        const values = [
+          categoryData.name,
+          categoryData.slug || categoryData.name.toLowerCase().replace(/\s+/g, '-'),
+          categoryData.description,
+          categoryData.order || 0,
+          true
+        ];
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('FAQ Categories create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    update: async (id: string, updates: any) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        Object.entries(updates).forEach(([key, value]) => {
+          if (key !== 'id') {
+            setClause.push(`${key} = $${paramIndex}`);
+            values.push(value);
+            paramIndex++;
+          }
+        });
+
+        setClause.push(`updated_at = NOW()`);
+        values.push(id);
+
+        const query = `
+          UPDATE faq_categories 
+          SET ${setClause.join(', ')}
+          WHERE id = $${paramIndex}
+          RETURNING *
+        `;
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('FAQ Categories update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('DELETE FROM faq_categories WHERE id = $1', [id]);
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('FAQ Categories delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Users operations
+   */
+  users: {
+    getAll: async (filters: any = {}) => {
+      const client = await pool.connect();
+      try {
+        let query = 'SELECT id, email, name, role, is_active, created_at, updated_at FROM users WHERE 1=1';
+        const params: any[] = [];
+        let paramIndex = 1;
+
+        if (filters.role) {
+          query += ` AND role = $${paramIndex}`;
+          params.push(filters.role);
+          paramIndex++;
+        }
+        if (filters.is_active !== undefined) {
+          query += ` AND is_active = $${paramIndex}`;
+          params.push(filters.is_active);
+          paramIndex++;
+        }
+        if (filters.email) {
+          query += ` AND email = $${paramIndex}`;
+          params.push(filters.email);
+          paramIndex++;
+        }
+
+        query += ' ORDER BY created_at DESC';
+        
+        const result = await client.query(query, params);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Users getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          'SELECT id, email, name, role, is_active, created_at, updated_at FROM users WHERE id = $1',
+          [id]
+        );
+        
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'User not found' });
+        }
+        
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Users getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (userData: any) => {
+      const client = await pool.connect();
+      try {
+        const query = `
+          INSERT INTO users (id, email, name, role, is_active)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING id, email, name, role, is_active, created_at, updated_at
+        `;
+        
+        const values = [
+          userData.id, // Use provided Firebase UID as id
+          userData.email,
+          userData.name,
+          userData.role || 'user',
+          userData.is_active !== false
+        ];
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Users create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    update: async (id: string, updates: any) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        Object.entries(updates).forEach(([key, value]) => {
+          if (key !== 'id') {
+            setClause.push(`${key} = $${paramIndex}`);
+            values.push(value);
+            paramIndex++;
+          }
+        });
+
+        setClause.push(`updated_at = NOW()`);
+        values.push(id);
+
+        const query = `
+          UPDATE users 
+          SET ${setClause.join(', ')}
+          WHERE id = $${paramIndex}
+          RETURNING id, email, name, role, is_active, created_at, updated_at
+        `;
+
+        const result = await client.query(query, values);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Users update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    updateRole: async (id: string, role: string, _adminUserId: string) => {
+      // Simplified role update without RPC
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE users 
+          SET role = $1, updated_at = NOW()
+          WHERE id = $2
+          RETURNING id, email, name, role, is_active, created_at, updated_at
+        `, [role, id]);
+        
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Users updateRole error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('DELETE FROM users WHERE id = $1', [id]);
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Users delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Saved properties (favourites) operations
+   */
+  savedProperties: {
+    /**
+     * A user's saved properties, newest first, each with the current property row
+     * so availability reflects the listing rather than the moment it was saved
+     */
+    getAll: async (userId: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT sp.id, sp.property_id, sp.notes, sp.created_at, sp.updated_at, to_jsonb(p) AS property
+          FROM saved_properties sp
+          JOIN properties p ON p.id = sp.property_id
+          WHERE sp.user_id = $1
+          ORDER BY sp.created_at DESC
+        `, [userId]);
+
+        return formatResponse(result.rows.map(row => ({
+          ...row,
+          property: omitInternalColumns(row.property)
+        })));
+      } catch (error: any) {
+        logger.error('Saved properties getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Save a property; saving it again keeps the original date and only replaces notes when given
+     */
+    save: async (userId: string, propertyId: string, notes?: string | null) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO saved_properties (user_id, property_id, notes)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (user_id, property_id) DO UPDATE
+          SET notes = COALESCE(EXCLUDED.notes, saved_properties.notes),
+              updated_at = NOW()
+          RETURNING *
+        `, [userId, propertyId, notes ?? null]);
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Saved properties save error:', error);
+        return formatResponse(null, { message: error.message, code: error.code });
+      } finally {
+        client.release();
+      }
+    },
+
+    updateNotes: async (userId: string, propertyId: string, notes: string | null) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE saved_properties
+          SET notes = $3, updated_at = NOW()
+          WHERE user_id = $1 AND property_id = $2
+          RETURNING *
+        `, [userId, propertyId, notes]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Saved property not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Saved properties updateNotes error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    remove: async (userId: string, propertyId: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          'DELETE FROM saved_properties WHERE user_id = $1 AND property_id = $2',
+          [userId, propertyId]
+        );
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Saved properties remove error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Merge favourites collected before sign-in. IDs of deleted properties are
+     * skipped and already-saved ones are left untouched; returns how many were added.
+     */
+    merge: async (userId: string, propertyIds: string[]) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO saved_properties (user_id, property_id)
+          SELECT $1, p.id FROM properties p WHERE p.id = ANY($2::uuid[])
+          ON CONFLICT (user_id, property_id) DO NOTHING
+        `, [userId, propertyIds]);
+
+        return formatResponse(result.rowCount ?? 0);
+      } catch (error: any) {
+        logger.error('Saved properties merge error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Saved searches operations
+   */
+  savedSearches: {
+    getAll: async (userId: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT ss.*,
+            (SELECT COUNT(*) FROM search_alerts sa WHERE sa.saved_search_id = ss.id AND sa.read_at IS NULL)::int AS unread_alerts
+          FROM saved_searches ss
+          WHERE ss.user_id = $1
+          ORDER BY ss.created_at DESC
+        `, [userId]);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Saved searches getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (userId: string, searchData: any) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO saved_searches (user_id, name, query, alerts_enabled, email_digest)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING *
+        `, [
+          userId,
+          searchData.name,
+          JSON.stringify(searchData.query || {}),
+          searchData.alerts_enabled !== false,
+          searchData.email_digest !== false
+        ]);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Saved searches create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    update: async (userId: string, id: string, updates: any) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        ['name', 'query', 'alerts_enabled', 'email_digest'].forEach(key => {
+          if (updates[key] !== undefined) {
+            setClause.push(`${key} = $${paramIndex}`);
+            values.push(key === 'query' ? JSON.stringify(updates[key]) : updates[key]);
+            paramIndex++;
+          }
+        });
+
+        setClause.push('updated_at = NOW()');
+        values.push(id, userId);
+
+        const result = await client.query(`
+          UPDATE saved_searches
+          SET ${setClause.join(', ')}
+          WHERE id = $${paramIndex} AND user_id = $${paramIndex + 1}
+          RETURNING *
+        `, values);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Saved search not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Saved searches update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (userId: string, id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          'DELETE FROM saved_searches WHERE id = $1 AND user_id = $2',
+          [id, userId]
+        );
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Saved searches delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Saved searches (with alerts on) whose filters and query match the given property.
+     * Each search's filters become the same clause the listing API uses, and the clauses are
+     * evaluated together in one statement against the property (per batch of searches, to stay
+     * well inside the bind parameter limit).
+     */
+    findMatchesForProperty: async (propertyId: string) => {
+      const client = await pool.connect();
+      try {
+        const searches = await client.query(
+          'SELECT id, query FROM saved_searches WHERE alerts_enabled = true'
+        );
+
+        const matches: Array<{ id: string; user_id: string; name: string }> = [];
+        for (let start = 0; start < searches.rows.length; start += SAVED_SEARCH_MATCH_BATCH_SIZE) {
+          const params: any[] = [propertyId];
+          const predicates = searches.rows.slice(start, start + SAVED_SEARCH_MATCH_BATCH_SIZE).map(search => {
+            const query = search.query || {};
+            params.push(search.id);
+            const idParam = `$${params.length}`;
+            let { clause } = buildPropertyFilterClause(parsePropertyFilters(query), params);
+
+            if (typeof query.q === 'string' && query.q.trim().length >= 2) {
+              params.push(query.q.trim());
+              clause += ` AND p.search_vector @@ websearch_to_tsquery('english', $${params.length})`;
+            }
+
+            return `(ss.id = ${idParam}${clause})`;
+          });
+
+          const result = await client.query(`
+            SELECT ss.id, ss.user_id, ss.name
+            FROM saved_searches ss
+            JOIN properties p ON p.id = $1
+            WHERE ss.alerts_enabled = true AND (${predicates.join(' OR ')})
+          `, params);
+          matches.push(...result.rows);
+        }
+
+        return formatResponse(matches);
+      } catch (error: any) {
+        logger.error('Saved searches findMatchesForProperty error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Search alerts (saved search inbox) operations
+   */
+  searchAlerts: {
+    /**
+     * Record a property against the matched searches. Returns only the alerts that are new -
+     * a property that was already announced for a search is not announced again.
+     */
+    createForProperty: async (propertyId: string, searches: Array<{ id: string; user_id: string }>, reason: 'new' | 'available') => {
+      if (searches.length === 0) return formatResponse([]);
+
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO search_alerts (saved_search_id, user_id, property_id, reason)
+          SELECT s.search_id, s.user_id, $1, $2
+          FROM unnest($3::uuid[], $4::varchar[]) AS s(search_id, user_id)
+          ON CONFLICT (saved_search_id, property_id) DO NOTHING
+          RETURNING *
+        `, [propertyId, reason, searches.map(s => s.id), searches.map(s => s.user_id)]);
+
+        if (result.rows.length > 0) {
+          await client.query(
+            'UPDATE saved_searches SET last_alerted_at = NOW() WHERE id = ANY($1::uuid[])',
+            [result.rows.map(row => row.saved_search_id)]
+          );
+        }
+
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Search alerts createForProperty error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getForUser: async (userId: string, options: { unreadOnly?: boolean; page?: number; limit?: number } = {}) => {
+      const client = await pool.connect();
+      try {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(options.page || 1, 1);
+        const unreadClause = options.unreadOnly ? ' AND sa.read_at IS NULL' : '';
+
+        const countResult = await client.query(`
+          SELECT COUNT(*)::int AS total,
+            COUNT(*) FILTER (WHERE sa.read_at IS NULL)::int AS unread
+          FROM search_alerts sa
+          WHERE sa.user_id = $1${unreadClause}
+        `, [userId]);
+
+        const result = await client.query(`
+          SELECT sa.*, ss.name AS saved_search_name, to_jsonb(p) AS property
+          FROM search_alerts sa
+          JOIN saved_searches ss ON ss.id = sa.saved_search_id
+          JOIN properties p ON p.id = sa.property_id
+          WHERE sa.user_id = $1${unreadClause}
+          ORDER BY sa.created_at DESC
+          LIMIT $2 OFFSET $3
+        `, [userId, limit, (page - 1) * limit]);
+
+        return formatResponse({
+          rows: result.rows.map(row => ({ ...row, property: omitInternalColumns(row.property) })),
+          total: countResult.rows[0].total,
+          unread: countResult.rows[0].unread,
+          page,
+          limit
+        });
+      } catch (error: any) {
+        logger.error('Search alerts getForUser error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Mark alerts read - the given IDs, or every unread alert when none are given
+     */
+    markRead: async (userId: string, ids?: string[]) => {
+      const client = await pool.connect();
+      try {
+        const result = ids
+          ? await client.query(
+            'UPDATE search_alerts SET read_at = NOW() WHERE user_id = $1 AND id = ANY($2::uuid[]) AND read_at IS NULL',
+            [userId, ids]
+          )
+          : await client.query(
+            'UPDATE search_alerts SET read_at = NOW() WHERE user_id = $1 AND read_at IS NULL',
+            [userId]
+          );
+        return formatResponse(result.rowCount ?? 0);
+      } catch (error: any) {
+        logger.error('Search alerts markRead error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Alerts not yet emailed, for users whose search has the email digest on
+     */
+    getPendingDigest: async () => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT sa.id, sa.user_id, sa.reason, sa.created_at,
+            u.email, u.name AS user_name,
+            ss.id AS saved_search_id, ss.name AS saved_search_name, ss.query AS saved_search_query,
+            p.id AS property_id, p.title, p.location, p.price
+          FROM search_alerts sa
+          JOIN saved_searches ss ON ss.id = sa.saved_search_id
+          JOIN users u ON u.id = sa.user_id
+          JOIN properties p ON p.id = sa.property_id
+          WHERE sa.emailed_at IS NULL AND ss.email_digest = true AND u.is_active = true
+          ORDER BY sa.user_id, ss.name, sa.created_at
+        `);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Search alerts getPendingDigest error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    markEmailed: async (ids: string[]) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          'UPDATE search_alerts SET emailed_at = NOW() WHERE id = ANY($1::uuid[])',
+          [ids]
+        );
+        return formatResponse(result.rowCount ?? 0);
+      } catch (error: any) {
+        logger.error('Search alerts markEmailed error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Scraper search presets (own presets plus those shared by other admins)
+   */
+  searchPresets: {
+    getAccessible: async (userId: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT sp.*, u.name AS owner_name, (sp.user_id = $1) AS is_owner
+          FROM search_presets sp
+          LEFT JOIN users u ON u.id = sp.user_id
+          WHERE sp.user_id = $1 OR sp.is_shared = true
+          ORDER BY (sp.user_id = $1) DESC, sp.last_run_at DESC NULLS LAST, sp.name
+        `, [userId]);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Search presets getAccessible error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (userId: string, id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT sp.*, u.name AS owner_name, (sp.user_id = $1) AS is_owner
+          FROM search_presets sp
+          LEFT JOIN users u ON u.id = sp.user_id
+          WHERE sp.id = $2 AND (sp.user_id = $1 OR sp.is_shared = true)
+        `, [userId, id]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Search preset not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Search presets getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (userId: string, presetData: { name: string; description?: string | null; search_params: Record<string, any>; is_shared?: boolean }) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO search_presets (user_id, name, description, search_params, is_shared)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING *, true AS is_owner
+        `, [
+          userId,
+          presetData.name,
+          presetData.description || null,
+          JSON.stringify(presetData.search_params),
+          presetData.is_shared === true
+        ]);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Search presets create error:', error);
+        if (error.code === '23505') {
+          return formatResponse(null, { message: 'You already have a preset with this name', code: 'DUPLICATE' });
+        }
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Change (or overwrite) a preset - owner only
+     */
+    update: async (userId: string, id: string, updates: Record<string, any>) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        ['name', 'description', 'search_params', 'is_shared'].forEach(key => {
+          if (updates[key] !== undefined) {
+            setClause.push(`${key} = $${paramIndex}`);
+            values.push(key === 'search_params' ? JSON.stringify(updates[key]) : updates[key]);
+            paramIndex++;
+          }
+        });
+
+        setClause.push('updated_at = NOW()');
+        values.push(id, userId);
+
+        const result = await client.query(`
+          UPDATE search_presets
+          SET ${setClause.join(', ')}
+          WHERE id = $${paramIndex} AND user_id = $${paramIndex + 1}
+          RETURNING *, true AS is_owner
+        `, values);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Search preset not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Search presets update error:', error);
+        if (error.code === '23505') {
+          return formatResponse(null, { message: 'You already have a preset with this name', code: 'DUPLICATE' });
+        }
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (userId: string, id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          'DELETE FROM search_presets WHERE id = $1 AND user_id = $2',
+          [id, userId]
+        );
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Search presets delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Record a scrape run of a preset (by its owner or anyone it is shared with)
+     */
+    recordRun: async (id: string, resultCount: number) => {
+      const client = await pool.connect();
+      try {
+        await client.query(`
+          UPDATE search_presets
+          SET run_count = run_count + 1, last_run_at = NOW(), last_result_count = $2
+          WHERE id = $1
+        `, [id, resultCount]);
+        return formatResponse(true);
+      } catch (error: any) {
+        logger.error('Search presets recordRun error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Background scrape and extraction jobs
+   */
+  scrapeJobs: {
+    create: async (job: { createdBy: string | null; request: Record<string, any>; llmCaller: Record<string, any>; sourceUrl: string | null }) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO scrape_jobs (created_by, request, llm_caller, source_url, stage_message)
+          VALUES ($1, $2, $3, $4, 'Waiting for a worker')
+          RETURNING *
+        `, [job.createdBy, JSON.stringify(job.request), JSON.stringify(job.llmCaller), job.sourceUrl]);
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape jobs create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Claim the oldest queued job (safe with several API instances). Jobs left running by a
+     * crashed worker are picked up again once they have not moved for `staleAfterMinutes`.
+     */
+    claimNext: async (staleAfterMinutes = 15) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE scrape_jobs
+          SET status = CASE WHEN status = 'queued' THEN 'running' ELSE status END,
+            attempts = attempts + 1,
+            started_at = COALESCE(started_at, NOW()),
+            updated_at = NOW()
+          WHERE id = (
+            SELECT id FROM scrape_jobs
+            WHERE status = 'queued'
+               OR (status IN ('running', 'extracting') AND updated_at < NOW() - $1 * INTERVAL '1 minute')
+            ORDER BY created_at
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+          )
+          RETURNING *
+        `, [staleAfterMinutes]);
+
+        return formatResponse(result.rows[0] || null);
+      } catch (error: any) {
+        logger.error('Scrape jobs claimNext error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Record a worker's progress. Only jobs still being worked on change, so data is null
+     * once the job has been cancelled.
+     */
+    update: async (id: string, changes: ScrapeJobChanges) => {
+      const client = await pool.connect();
+      try {
+        const sets: string[] = [];
+        const params: any[] = [id, ACTIVE_SCRAPE_JOB_STATUSES];
+        const set = (column: string, value: any) => {
+          params.push(value);
+          sets.push(`${column} = $${params.length}`);
+        };
+
+        if (changes.status !== undefined) set('status', changes.status);
+        if (changes.progress !== undefined) set('progress', Math.min(Math.max(Math.round(changes.progress), 0), 100));
+        if (changes.stageMessage !== undefined) set('stage_message', changes.stageMessage.slice(0, 255));
+        if (changes.result !== undefined) set('result', JSON.stringify(changes.result));
+        if (changes.extraction !== undefined) set('extraction', JSON.stringify(changes.extraction));
+        if (changes.error !== undefined) set('error', changes.error.slice(0, 2000));
+        if (changes.status && !ACTIVE_SCRAPE_JOB_STATUSES.includes(changes.status)) sets.push('finished_at = NOW()');
+
+        const result = await client.query(`
+          UPDATE scrape_jobs AS j
+          SET ${[...sets, 'updated_at = NOW()'].join(', ')}
+          WHERE j.id = $1 AND j.status = ANY($2)
+          RETURNING ${SCRAPE_JOB_SUMMARY}
+        `, params);
+
+        return formatResponse(result.rows[0] || null);
+      } catch (error: any) {
+        logger.error('Scrape jobs update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * A job with its scraped and extracted payloads
+     */
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT ${SCRAPE_JOB_SUMMARY}, j.result, j.extraction, u.name AS created_by_name
+          FROM scrape_jobs j
+          LEFT JOIN users u ON u.id = j.created_by
+          WHERE j.id = $1
+        `, [id]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Scrape job not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape jobs getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * A job without its payloads, as sent in progress events
+     */
+    getSummary: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`SELECT ${SCRAPE_JOB_SUMMARY} FROM scrape_jobs j WHERE j.id = $1`, [id]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Scrape job not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape jobs getSummary error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Jobs newest first, without their payloads
+     */
+    getAll: async (filters: { statuses?: ScrapeJobStatus[] | undefined } = {}, options: { page?: number | undefined; limit?: number | undefined } = {}) => {
+      const client = await pool.connect();
+      try {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(options.page || 1, 1);
+        const params: any[] = [];
+        let where = '';
+
+        if (filters.statuses && filters.statuses.length > 0) {
+          params.push(filters.statuses);
+          where = `WHERE j.status = ANY($${params.length})`;
+        }
+
+        const countResult = await client.query(`SELECT COUNT(*)::int AS total FROM scrape_jobs j ${where}`, params);
+
+        const result = await client.query(`
+          SELECT ${SCRAPE_JOB_SUMMARY}, u.name AS created_by_name
+          FROM scrape_jobs j
+          LEFT JOIN users u ON u.id = j.created_by
+          ${where}
+          ORDER BY j.created_at DESC
+          LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+        `, [...params, limit, (page - 1) * limit]);
+
+        return formatResponse({ rows: result.rows, total: countResult.rows[0].total, page, limit });
+      } catch (error: any) {
+        logger.error('Scrape jobs getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    cancel: (id: string) => transitionScrapeJob(
+      id,
+      ACTIVE_SCRAPE_JOB_STATUSES,
+      "status = 'cancelled', stage_message = 'Cancelled', finished_at = NOW()",
+      'cancelled'
+    ),
+
+    /**
+     * Queue a failed or cancelled job again. A scrape that already succeeded is kept, so
+     * the retry goes straight to extraction.
+     */
+    retry: (id: string) => transitionScrapeJob(
+      id,
+      ['failed', 'cancelled'],
+      "status = 'queued', progress = 0, stage_message = 'Waiting for a worker', error = NULL, extraction = NULL, attempts = 0, started_at = NULL, finished_at = NULL",
+      'retried'
+    ),
+
+    /**
+     * Queue C1 extraction of a scrape that is waiting for review
+     */
+    requestExtraction: (id: string) => transitionScrapeJob(
+      id,
+      ['review'],
+      "status = 'queued', request = request || '{\"extract\": true}'::jsonb, progress = 0, stage_message = 'Waiting for a worker', extraction = NULL, attempts = 0, finished_at = NULL",
+      'extracted again'
+    ),
+
+    markDone: (id: string) => transitionScrapeJob(
+      id,
+      ['review'],
+      "status = 'done', stage_message = 'Reviewed', finished_at = NOW()",
+      'marked done'
+    )
+  },
+
+  /**
+   * Saved searches re-scraped on a cron schedule
+   */
+  scrapeSchedules: {
+    getAll: async () => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`${SCRAPE_SCHEDULE_SELECT} ORDER BY s.is_active DESC, s.next_run_at NULLS LAST, s.created_at`);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Scrape schedules getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`${SCRAPE_SCHEDULE_SELECT} WHERE s.id = $1`, [id]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Scrape schedule not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape schedules getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    create: async (schedule: { presetId: string; createdBy: string; cron: string; maxPages: number; isActive: boolean; nextRunAt: Date | null }) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO scrape_schedules (preset_id, created_by, cron, max_pages, is_active, next_run_at)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING id
+        `, [schedule.presetId, schedule.createdBy, schedule.cron, schedule.maxPages, schedule.isActive, schedule.nextRunAt]);
+
+        const created = await client.query(`${SCRAPE_SCHEDULE_SELECT} WHERE s.id = $1`, [result.rows[0].id]);
+        return formatResponse(created.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape schedules create error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    update: async (id: string, updates: Record<string, any>) => {
+      const client = await pool.connect();
+      try {
+        const setClause: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        ['cron', 'max_pages', 'is_active', 'next_run_at'].forEach(key => {
+          if (updates[key] !== undefined) {
+            setClause.push(`${key} = $${paramIndex}`);
+            values.push(updates[key]);
+            paramIndex++;
+          }
+        });
+
+        setClause.push('updated_at = NOW()');
+        values.push(id);
+
+        const result = await client.query(
+          `UPDATE scrape_schedules SET ${setClause.join(', ')} WHERE id = $${paramIndex} RETURNING id`,
+          values
+        );
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Scrape schedule not found', code: 'NOT_FOUND' });
+        }
+
+        const updated = await client.query(`${SCRAPE_SCHEDULE_SELECT} WHERE s.id = $1`, [id]);
+        return formatResponse(updated.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape schedules update error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    delete: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('DELETE FROM scrape_schedules WHERE id = $1', [id]);
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Scrape schedules delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Make an active schedule due now
+     */
+    runNow: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE scrape_schedules SET next_run_at = NOW(), updated_at = NOW()
+          WHERE id = $1 AND is_active
+          RETURNING id
+        `, [id]);
+
+        if (result.rows.length === 0) {
+          const existing = await client.query('SELECT id FROM scrape_schedules WHERE id = $1', [id]);
+          return existing.rows.length === 0
+            ? formatResponse(null, { message: 'Scrape schedule not found', code: 'NOT_FOUND' })
+            : formatResponse(null, { message: 'A paused schedule cannot be run', code: 'INVALID_STATE' });
+        }
+
+        const due = await client.query(`${SCRAPE_SCHEDULE_SELECT} WHERE s.id = $1`, [id]);
+        return formatResponse(due.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape schedules runNow error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Take the most overdue active schedule, move it to its next run time and open a run
+     * for it. `nextRunAt` gives the following run from the cron expression (null pauses it).
+     * Data is null when nothing is due.
+     */
+    claimDue: async (nextRunAt: (cron: string) => Date | null) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        const due = await client.query(`
+          SELECT s.id, s.preset_id, s.cron, s.max_pages, s.last_seen_urls, sp.name AS preset_name, sp.search_params
+          FROM scrape_schedules s
+          JOIN search_presets sp ON sp.id = s.preset_id
+          WHERE s.is_active AND s.next_run_at <= NOW()
+          ORDER BY s.next_run_at
+          LIMIT 1
+          FOR UPDATE OF s SKIP LOCKED
+        `);
+
+        const schedule = due.rows[0];
+        if (!schedule) {
+          await client.query('COMMIT');
+          return formatResponse(null);
+        }
+
+        const next = nextRunAt(schedule.cron);
+        await client.query(`
+          UPDATE scrape_schedules SET next_run_at = $2, is_active = $3, updated_at = NOW() WHERE id = $1
+        `, [schedule.id, next, next !== null]);
+
+        const run = await client.query(
+          'INSERT INTO scrape_schedule_runs (schedule_id) VALUES ($1) RETURNING id',
+          [schedule.id]
+        );
+
+        await client.query('COMMIT');
+        return formatResponse({ ...schedule, run_id: run.rows[0].id });
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Scrape schedules claimDue error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Close a run; a completed run also replaces the schedule's seen listing URLs
+     */
+    finishRun: async (scheduleId: string, runId: string, outcome: ScrapeRunOutcome) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        await client.query(`
+          UPDATE scrape_schedule_runs
+          SET status = $2, listings_found = $3, new_count = $4, changed_count = $5,
+              disappeared_count = $6, error = $7, finished_at = NOW()
+          WHERE id = $1
+        `, [
+          runId,
+          outcome.status,
+          outcome.listingsFound || 0,
+          outcome.counts?.new || 0,
+          outcome.counts?.changed || 0,
+          outcome.counts?.disappeared || 0,
+          outcome.error?.slice(0, 2000) || null
+        ]);
+
+        await client.query(`
+          UPDATE scrape_schedules
+          SET last_run_at = NOW(), last_status = $2, last_error = $3,
+              last_seen_urls = COALESCE($4, last_seen_urls), updated_at = NOW()
+          WHERE id = $1
+        `, [scheduleId, outcome.status, outcome.error?.slice(0, 2000) || null, outcome.seenUrls || null]);
+
+        await client.query('COMMIT');
+        return formatResponse(true);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Scrape schedules finishRun error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getRuns: async (scheduleId: string, limit = 20) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT * FROM scrape_schedule_runs
+          WHERE schedule_id = $1
+          ORDER BY started_at DESC
+          LIMIT $2
+        `, [scheduleId, limit]);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Scrape schedules getRuns error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Review queue of differences found by scheduled scrapes
+   */
+  scrapeChanges: {
+    /**
+     * Imported properties with these source URLs
+     */
+    findImported: async (sourceUrls: string[]) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT id, title, price, area_sqft, availability_status, status, source_url
+          FROM properties
+          WHERE source_url = ANY($1)
+        `, [sourceUrls]);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Scrape changes findImported error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Queue a run's differences. A pending entry for the same listing and kind is refreshed,
+     * one identical to a dismissed entry is not raised again, and pending entries for listings
+     * this run saw without that difference are dropped.
+     */
+    record: async (scheduleId: string, runId: string, changes: ScrapeChangeInput[], seenUrls: string[]) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        await client.query(`
+          DELETE FROM scrape_changes
+          WHERE status = 'pending' AND source_url = ANY($1) AND (source_url || ' ' || change_type) <> ALL($2)
+        `, [seenUrls, changes.map(change => `${change.sourceUrl} ${change.changeType}`)]);
+
+        let queued = 0;
+        for (const change of changes) {
+          const result = await client.query(`
+            INSERT INTO scrape_changes (schedule_id, run_id, change_type, source_url, property_id, listing, changes)
+            SELECT $1, $2, $3, $4, $5, $6, $7
+            WHERE NOT EXISTS (
+              SELECT 1 FROM scrape_changes d
+              WHERE d.source_url = $4 AND d.change_type = $3 AND d.status = 'dismissed' AND d.changes = $7::jsonb
+            )
+            ON CONFLICT (source_url, change_type) WHERE status = 'pending' DO UPDATE
+            SET schedule_id = EXCLUDED.schedule_id, run_id = EXCLUDED.run_id, property_id = EXCLUDED.property_id,
+                listing = EXCLUDED.listing, changes = EXCLUDED.changes, updated_at = NOW()
+          `, [
+            scheduleId,
+            runId,
+            change.changeType,
+            change.sourceUrl,
+            change.propertyId,
+            change.listing ? JSON.stringify(change.listing) : null,
+            JSON.stringify(change.changes)
+          ]);
+          queued += result.rowCount ?? 0;
+        }
+
+        await client.query('COMMIT');
+        return formatResponse(queued);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Scrape changes record error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Changes with the linked property's current values, newest first
+     */
+    getAll: async (
+      filters: { status?: string | undefined; scheduleId?: string | undefined; changeTypes?: string[] | undefined } = {},
+      pagination: { page?: number | undefined; limit?: number | undefined } = {}
+    ) => {
+      const client = await pool.connect();
+      try {
+        const page = Math.max(1, pagination.page || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, pagination.limit || DEFAULT_PAGE_SIZE));
+        const conditions: string[] = [];
+        const values: any[] = [];
+
+        if (filters.status) {
+          values.push(filters.status);
+          conditions.push(`c.status = $${values.length}`);
+        }
+        if (filters.scheduleId) {
+          values.push(filters.scheduleId);
+          conditions.push(`c.schedule_id = $${values.length}`);
+        }
+        if (filters.changeTypes?.length) {
+          values.push(filters.changeTypes);
+          conditions.push(`c.change_type = ANY($${values.length})`);
+        }
+
+        const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+        const total = await client.query(`SELECT COUNT(*)::int AS total FROM scrape_changes c ${where}`, values);
+
+        const result = await client.query(`
+          SELECT c.*, sp.name AS preset_name, r.name AS reviewed_by_name,
+                 CASE WHEN p.id IS NOT NULL THEN json_build_object(
+                   'id', p.id, 'title', p.title, 'price', p.price, 'area_sqft', p.area_sqft,
+                   'availability_status', p.availability_status, 'status', p.status
+                 ) END AS property
+          FROM scrape_changes c
+          JOIN scrape_schedules s ON s.id = c.schedule_id
+          JOIN search_presets sp ON sp.id = s.preset_id
+          LEFT JOIN properties p ON p.id = c.property_id
+          LEFT JOIN users r ON r.id = c.reviewed_by
+          ${where}
+          ORDER BY c.created_at DESC
+          LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+        `, [...values, limit, (page - 1) * limit]);
+
+        return formatResponse({ rows: result.rows, total: total.rows[0].total, page, limit });
+      } catch (error: any) {
+        logger.error('Scrape changes getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getById: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query('SELECT * FROM scrape_changes WHERE id = $1', [id]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Scrape change not found', code: 'NOT_FOUND' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape changes getById error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Apply a pending change to its property: set the changed fields, mark a disappeared
+     * listing not available, or create the draft `newProperty` for a new listing (linking an
+     * existing property with its source URL instead, if one has been imported since)
+     */
+    apply: async (id: string, reviewerId: string, newProperty?: Record<string, any>) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        const locked = await client.query('SELECT * FROM scrape_changes WHERE id = $1 FOR UPDATE', [id]);
+        const change = locked.rows[0];
+        if (!change) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Scrape change not found', code: 'NOT_FOUND' });
+        }
+        if (change.status !== 'pending') {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: `A ${change.status} change cannot be applied`, code: 'INVALID_STATE' });
+        }
+
+        let propertyId: string | null = change.property_id;
+
+        if (change.change_type === 'new') {
+          const existing = await client.query('SELECT id FROM properties WHERE source_url = $1 LIMIT 1', [change.source_url]);
+          if (existing.rows[0]) {
+            propertyId = existing.rows[0].id;
+          } else {
+            if (!newProperty) {
+              throw new Error('A new listing needs the property to create');
+            }
+            propertyId = (await insertProperty(client, newProperty)).id;
+          }
+        } else {
+          const fields = change.change_type === 'disappeared'
+            ? { availability_status: 'not-available' }
+            : Object.fromEntries(
+                Object.entries(change.changes as Record<string, { to: unknown }>)
+                  .filter(([field]) => SCRAPE_CHANGE_FIELDS.includes(field))
+                  .map(([field, diff]) => [field, diff.to])
+              );
+
+          const columns = Object.keys(fields);
+          const updated = await client.query(`
+            UPDATE properties
+            SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}${columns.length ? ',' : ''}
+                scraped_at = NOW(), updated_at = NOW()
+            WHERE id = $1
+          `, [propertyId, ...Object.values(fields)]);
+
+          if (!updated.rowCount) {
+            await client.query('ROLLBACK');
+            return formatResponse(null, { message: 'The linked property no longer exists', code: 'INVALID_STATE' });
+          }
+        }
+
+        const result = await client.query(`
+          UPDATE scrape_changes
+          SET status = 'applied', property_id = $2, reviewed_by = $3, reviewed_at = NOW(), updated_at = NOW()
+          WHERE id = $1
+          RETURNING *
+        `, [id, propertyId, reviewerId]);
+
+        await client.query('COMMIT');
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Scrape changes apply error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    dismiss: async (id: string, reviewerId: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE scrape_changes
+          SET status = 'dismissed', reviewed_by = $2, reviewed_at = NOW(), updated_at = NOW()
+          WHERE id = $1 AND status = 'pending'
+          RETURNING *
+        `, [id, reviewerId]);
+
+        if (result.rows.length === 0) {
+          const existing = await client.query('SELECT status FROM scrape_changes WHERE id = $1', [id]);
+          return existing.rows.length === 0
+            ? formatResponse(null, { message: 'Scrape change not found', code: 'NOT_FOUND' })
+            : formatResponse(null, { message: `A ${existing.rows[0].status} change cannot be dismissed`, code: 'INVALID_STATE' });
+        }
+
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Scrape changes dismiss error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Candidate duplicates for scraped listings and among existing properties
+   */
+  propertyDuplicates: {
+    /**
+     * Properties that may be the same space as each listing: same source URL (its own or one
+     * merged into it), similar title or address, or a map pin within `radiusMeters`.
+     * Broad on purpose; callers score the candidates.
+     */
+    findCandidates: async (
+      listings: Array<{ sourceUrl: string | null; title: string; address: string; coordinates: { lat: number; lng: number } | null }>,
+      radiusMeters: number
+    ) => {
+      const client = await pool.connect();
+      try {
+        const candidates: any[][] = [];
+        for (const listing of listings) {
+          const result = await client.query(`
+            SELECT ${duplicateRecord('p')} AS property
+            FROM properties p
+            WHERE ($1::text IS NOT NULL AND (
+                    p.source_url = $1
+                    OR p.id IN (SELECT target_property_id FROM property_merges WHERE source_url = $1)
+                  ))
+               OR lower(p.title) % lower($2)
+               OR ($3 <> '' AND lower(COALESCE(p.address, p.location, '')) % lower($3))
+               OR ($4::float8 IS NOT NULL AND ST_DWithin(
+                    p.geo_location, ST_SetSRID(ST_MakePoint($5::float8, $4::float8), 4326)::geography, $6
+                  ))
+            LIMIT 25
+          `, [
+            listing.sourceUrl,
+            listing.title,
+            listing.address,
+            listing.coordinates?.lat ?? null,
+            listing.coordinates?.lng ?? null,
+            radiusMeters
+          ]);
+          candidates.push(result.rows.map(row => row.property));
+        }
+        return formatResponse(candidates);
+      } catch (error: any) {
+        logger.error('Property duplicates findCandidates error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Pairs of existing properties sharing a source URL, a similar title or a map pin within
+     * `radiusMeters`, newest first, leaving out pairs an admin kept apart
+     */
+    findPairs: async (radiusMeters: number, limit: number) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          SELECT ${duplicateRecord('a')} AS property, ${duplicateRecord('b')} AS other
+          FROM properties a
+          JOIN properties b ON a.id < b.id AND (
+            a.source_url = b.source_url
+            OR lower(a.title) % lower(b.title)
+            OR ST_DWithin(a.geo_location, b.geo_location, $1)
+          )
+          WHERE NOT EXISTS (
+            SELECT 1 FROM property_duplicate_dismissals d WHERE d.property_id = a.id AND d.other_property_id = b.id
+          )
+          ORDER BY GREATEST(a.created_at, b.created_at) DESC
+          LIMIT $2
+        `, [radiusMeters, limit]);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Property duplicates findPairs error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Keep two properties apart in the duplicate list
+     */
+    dismiss: async (propertyId: string, otherPropertyId: string, userId: string | null) => {
+      const client = await pool.connect();
+      try {
+        const [first, second] = [propertyId, otherPropertyId].sort();
+        const result = await client.query(`
+          INSERT INTO property_duplicate_dismissals (property_id, other_property_id, dismissed_by)
+          SELECT $1, $2, $3
+          WHERE EXISTS (SELECT 1 FROM properties WHERE id = $1) AND EXISTS (SELECT 1 FROM properties WHERE id = $2)
+          ON CONFLICT (property_id, other_property_id) DO UPDATE SET dismissed_by = EXCLUDED.dismissed_by
+          RETURNING *
+        `, [first, second, userId]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Property not found', code: 'NOT_FOUND' });
+        }
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Property duplicates dismiss error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Merged duplicate properties and where each kept field came from
+   */
+  propertyMerges: {
+    /**
+     * Fold `sourceId` into `targetId`: copy the fields taken from the source, move its gallery,
+     * inquiries, saves, tags, interactions, comparisons and merge history to the target, record
+     * both snapshots and delete it
+     */
+    merge: async (targetId: string, sourceId: string, fieldSources: Record<string, 'target' | 'source'>, userId: string | null) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        const locked = await client.query(
+          'SELECT * FROM properties WHERE id = ANY($1) ORDER BY id FOR UPDATE',
+          [[targetId, sourceId]]
+        );
+        const target = locked.rows.find(row => row.id === targetId);
+        const source = locked.rows.find(row => row.id === sourceId);
+        if (!target || !source) {
+          await client.query('ROLLBACK');
+          return formatResponse(null, { message: 'Property not found', code: 'NOT_FOUND' });
+        }
+
+        // The portal adapter goes with the source URL it read
+        const fromSource: string[] = PROPERTY_MERGE_FIELDS.filter(field => fieldSources[field] === 'source');
+        if (fromSource.includes('source_url')) fromSource.push('source_adapter');
+        if (fromSource.length > 0) {
+          await client.query(`
+            UPDATE properties
+            SET ${fromSource.map((field, index) => `${field} = $${index + 2}`).join(', ')}, updated_at = NOW()
+            WHERE id = $1
+          `, [
+            targetId,
+            ...fromSource.map(field => (
+              ['amenities', 'features', 'coordinates'].includes(field) && source[field] !== null
+                ? JSON.stringify(source[field])
+                : source[field]
+            ))
+          ]);
+        }
+
+        // The source's gallery goes after the target's, which keeps its cover
+        await client.query(`
+          UPDATE property_media
+          SET property_id = $1, is_cover = false,
+              position = position + (SELECT COALESCE(MAX(position) + 1, 0) FROM property_media WHERE property_id = $1)
+          WHERE property_id = $2
+        `, [targetId, sourceId]);
+        await client.query('UPDATE inquiries SET property_id = $1 WHERE property_id = $2', [targetId, sourceId]);
+        await client.query('UPDATE property_interactions SET property_id = $1 WHERE property_id = $2', [targetId, sourceId]);
+        await client.query('UPDATE scrape_changes SET property_id = $1 WHERE property_id = $2', [targetId, sourceId]);
+        await client.query(`
+          UPDATE saved_properties s SET property_id = $1
+          WHERE s.property_id = $2
+            AND NOT EXISTS (SELECT 1 FROM saved_properties t WHERE t.property_id = $1 AND t.user_id = s.user_id)
+        `, [targetId, sourceId]);
+        await client.query(`
+          UPDATE property_tag_assignments a SET property_id = $1
+          WHERE a.property_id = $2
+            AND NOT EXISTS (SELECT 1 FROM property_tag_assignments t WHERE t.property_id = $1 AND t.tag_id = a.tag_id)
+        `, [targetId, sourceId]);
+        await client.query('UPDATE property_merges SET target_property_id = $1 WHERE target_property_id = $2', [targetId, sourceId]);
+        // Comparisons show the target in the source's place, once; one that compared just the two
+        // keeps both slots, as a comparison needs at least two
+        await client.query(`
+          UPDATE saved_comparisons c SET property_ids = (
+            SELECT CASE WHEN COUNT(*) >= 2 THEN array_agg(ids.id ORDER BY ids.first) ELSE array_replace(c.property_ids, $2::uuid, $1::uuid) END
+            FROM (
+              SELECT id, MIN(ord) AS first
+              FROM unnest(array_replace(c.property_ids, $2::uuid, $1::uuid)) WITH ORDINALITY AS u(id, ord)
+              GROUP BY id
+            ) ids
+          )
+          WHERE $2::uuid = ANY(c.property_ids)
+        `, [targetId, sourceId]);
+
+        // Whichever source URL the kept property no longer carries still leads to it
+        const retiredUrl = fieldSources.source_url === 'source' ? target.source_url : source.source_url;
+        const merge = await client.query(`
+          INSERT INTO property_merges (target_property_id, source_property_id, source_url, target_snapshot, source_snapshot, field_sources, merged_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING *
+        `, [
+          targetId,
+          sourceId,
+          retiredUrl || null,
+          JSON.stringify(propertySnapshot(target)),
+          JSON.stringify(propertySnapshot(source)),
+          JSON.stringify(fieldSources),
+          userId
+        ]);
+
+        await client.query('DELETE FROM properties WHERE id = $1', [sourceId]);
+        // A target without a gallery of its own takes its cover and images from the source's
+        await ensurePropertyCover(client, targetId);
+        await syncPropertyImages(client, targetId);
+
+        const merged = await client.query('SELECT * FROM properties WHERE id = $1', [targetId]);
+
+        await client.query('COMMIT');
+        return formatResponse({ property: merged.rows[0], merge: merge.rows[0] });
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Property merges merge error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Merge history, newest first, for one kept property or across all
+     */
+    getAll: async (filters: { propertyId?: string | undefined; limit?: number | undefined } = {}) => {
+      const client = await pool.connect();
+      try {
+        const limit = Math.min(Math.max(filters.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const result = await client.query(`
+          SELECT m.*, p.title AS target_title, u.name AS merged_by_name
+          FROM property_merges m
+          JOIN properties p ON p.id = m.target_property_id
+          LEFT JOIN users u ON u.id = m.merged_by
+          WHERE ($1::uuid IS NULL OR m.target_property_id = $1)
+          ORDER BY m.created_at DESC
+          LIMIT $2
+        `, [filters.propertyId || null, limit]);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Property merges getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Scraper import batches: idempotency key, outcome and per-row report
+   */
+  propertyImports: {
+    /**
+     * Import a batch in one transaction with a savepoint per row. Best-effort batches keep every
+     * row that went in; atomic batches are rolled back if any row failed, keeping only the report.
+     * A key whose batch already completed returns that batch (replayed) instead of importing again;
+     * a key used for a different request is an IDEMPOTENCY_CONFLICT. Keys are per admin.
+     */
+    run: async (batch: PropertyImportBatchInput) => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+
+        // A concurrent request with the same key waits here until this one commits or rolls back
+        const claim = await client.query(`
+          INSERT INTO property_import_batches (idempotency_key, request_hash, mode, total, job_id, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (created_by, idempotency_key) DO UPDATE
+          SET status = 'running', created_at = NOW(), completed_at = NULL
+          WHERE property_import_batches.status = 'rolled_back'
+            AND property_import_batches.request_hash = EXCLUDED.request_hash
+          RETURNING id
+        `, [batch.idempotencyKey, batch.requestHash, batch.mode, batch.rows.length, batch.jobId, batch.createdBy]);
+
+        if (claim.rows.length === 0) {
+          const existing = await client.query<PropertyImportBatchRow>(
+            'SELECT * FROM property_import_batches WHERE created_by = $1 AND idempotency_key = $2',
+            [batch.createdBy, batch.idempotencyKey]
+          );
+          await client.query('ROLLBACK');
+          if (existing.rows[0]?.request_hash !== batch.requestHash) {
+            return formatResponse(null, {
+              message: 'Idempotency key was already used for a different import',
+              code: 'IDEMPOTENCY_CONFLICT'
+            });
+          }
+          return formatResponse({ batch: existing.rows[0], replayed: true });
+        }
+
+        const report: ImportReportRow[] = [];
+        for (const row of batch.rows) {
+          const entry = {
+            index: row.index,
+            title: row.title,
+            sourceUrl: row.sourceUrl,
+            ...(row.duplicateOf ? { duplicateOf: row.duplicateOf } : {})
+          };
+
+          if (row.status || !row.record) {
+            report.push({ ...entry, status: row.status || 'failed', ...(row.error ? { error: row.error } : {}) });
+            continue;
+          }
+
+          await client.query('SAVEPOINT import_row');
+          try {
+            const property = await insertProperty(client, row.record);
+            await assignTagNames(client, property.id, row.tags || [], batch.createdBy);
+            await client.query('RELEASE SAVEPOINT import_row');
+            report.push({ ...entry, status: 'imported', propertyId: property.id });
+          } catch (error: any) {
+            await client.query('ROLLBACK TO SAVEPOINT import_row');
+            report.push({ ...entry, status: 'failed', error: error.message });
+          }
+        }
+
+        if (batch.mode === 'atomic' && report.some(row => row.status === 'failed')) {
+          await client.query('ROLLBACK');
+          const rolledBack = report.map(row => {
+            if (row.status !== 'imported') return row;
+            const { propertyId: _propertyId, ...rest } = row;
+            return { ...rest, status: 'rolled_back' as const };
+          });
+          const saved = await saveImportBatch(client, batch, 'rolled_back', rolledBack);
+          return formatResponse({ batch: saved.rows[0], replayed: false });
         }
 
-        query += ' ORDER BY p.created_at DESC';
-        
-        const result = await client.query(query, params);
-        return formatResponse(result.rows);
+        const saved = await saveImportBatch(client, batch, 'completed', report);
+        await client.query('COMMIT');
+        return formatResponse({ batch: saved.rows[0], replayed: false });
       } catch (error: any) {
-        logger.error('Properties getAll error:', error);
+        await client.query('ROLLBACK');
+        logger.error('Property imports run error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -155,150 +4088,370 @@ export const DatabaseService = {
     getById: async (id: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query(`
-          SELECT p.*, u.name as agent_name, u.email as agent_email 
-          FROM properties p 
-          LEFT JOIN users u ON p.listing_agent_id = u.id 
-          WHERE p.id = $1
-        `, [id]);
-        
+        const result = await client.query<PropertyImportBatchRow>('SELECT * FROM property_import_batches WHERE id = $1', [id]);
         if (result.rows.length === 0) {
-          return formatResponse(null, { message: 'Property not found' });
+          return formatResponse(null, { message: 'Import batch not found', code: 'NOT_FOUND' });
         }
-        
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Properties getById error:', error);
+        logger.error('Property imports getById error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    create: async (propertyData: any) => {
+    getByKey: async (createdBy: string, idempotencyKey: string) => {
       const client = await pool.connect();
       try {
-        const query = `
-          INSERT INTO properties (
-            title, description, price, location, address, bedrooms, bathrooms,
-            area_sqft, property_type, status, featured, images, amenities, features
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        const result = await client.query<PropertyImportBatchRow>(
+          'SELECT * FROM property_import_batches WHERE created_by = $1 AND idempotency_key = $2',
+          [createdBy, idempotencyKey]
+        );
+        return formatResponse(result.rows[0] || null);
+      } catch (error: any) {
+        logger.error('Property imports getByKey error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * In-app notifications
+   */
+  notifications: {
+    create: async (notification: { user_id: string; event: string; title: string; body?: string | null; link?: string | null; data?: Record<string, any> }) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO notifications (user_id, event, title, body, link, data)
+          VALUES ($1, $2, $3, $4, $5, $6)
           RETURNING *
-        `;
-        
-        const values = [
-          propertyData.title,
-          propertyData.description,
-          propertyData.price,
-          propertyData.location,
-          propertyData.address,
-          propertyData.bedrooms,
-          propertyData.bathrooms,
-          propertyData.area_sqft,
-          propertyData.property_type,
-          propertyData.status || 'available',
-          propertyData.featured || false,
-          JSON.stringify(propertyData.images || []),
-          JSON.stringify(propertyData.amenities || []),
-          JSON.stringify(propertyData.features || [])
-        ];
+        `, [
+          notification.user_id,
+          notification.event,
+          notification.title,
+          notification.body ?? null,
+          notification.link ?? null,
+          JSON.stringify(notification.data || {})
+        ]);
 
-        const result = await client.query(query, values);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Properties create error:', error);
+        logger.error('Notifications create error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    update: async (id: string, updates: any) => {
+    getForUser: async (userId: string, options: { unreadOnly?: boolean; page?: number; limit?: number } = {}) => {
       const client = await pool.connect();
       try {
-        const setClause: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(options.page || 1, 1);
+        const unreadClause = options.unreadOnly ? ' AND read_at IS NULL' : '';
 
-        Object.entries(updates).forEach(([key, value]) => {
-          if (key !== 'id') {
-            if (typeof value === 'object' && value !== null) {
-              setClause.push(`${key} = $${paramIndex}`);
-              values.push(JSON.stringify(value));
-            } else {
-              setClause.push(`${key} = $${paramIndex}`);
-              values.push(value);
-            }
-            paramIndex++;
-          }
+        const countResult = await client.query(`
+          SELECT COUNT(*)::int AS total,
+            COUNT(*) FILTER (WHERE read_at IS NULL)::int AS unread
+          FROM notifications
+          WHERE user_id = $1${unreadClause}
+        `, [userId]);
+
+        const result = await client.query(`
+          SELECT * FROM notifications
+          WHERE user_id = $1${unreadClause}
+          ORDER BY created_at DESC
+          LIMIT $2 OFFSET $3
+        `, [userId, limit, (page - 1) * limit]);
+
+        return formatResponse({
+          rows: result.rows,
+          total: countResult.rows[0].total,
+          unread: countResult.rows[0].unread,
+          page,
+          limit
         });
+      } catch (error: any) {
+        logger.error('Notifications getForUser error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
 
-        setClause.push(`updated_at = NOW()`);
-        values.push(id);
+    getUnreadCount: async (userId: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          'SELECT COUNT(*)::int AS unread FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+          [userId]
+        );
+        return formatResponse(result.rows[0].unread as number);
+      } catch (error: any) {
+        logger.error('Notifications getUnreadCount error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
 
-        const query = `
-          UPDATE properties 
-          SET ${setClause.join(', ')}
-          WHERE id = $${paramIndex}
+    /**
+     * Mark notifications read - the given IDs, or every unread one when none are given
+     */
+    markRead: async (userId: string, ids?: string[]) => {
+      const client = await pool.connect();
+      try {
+        const result = ids
+          ? await client.query(
+            'UPDATE notifications SET read_at = NOW() WHERE user_id = $1 AND id = ANY($2::uuid[]) AND read_at IS NULL',
+            [userId, ids]
+          )
+          : await client.query(
+            'UPDATE notifications SET read_at = NOW() WHERE user_id = $1 AND read_at IS NULL',
+            [userId]
+          );
+        return formatResponse(result.rowCount ?? 0);
+      } catch (error: any) {
+        logger.error('Notifications markRead error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
+
+  /**
+   * Per-user notification channel preferences
+   */
+  notificationPreferences: {
+    /**
+     * Stored preferences for a set of users (users without a row are simply absent)
+     */
+    getForUsers: async (userIds: string[]) => {
+      if (userIds.length === 0) return formatResponse([]);
+
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          'SELECT * FROM notification_preferences WHERE user_id = ANY($1::varchar[])',
+          [userIds]
+        );
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Notification preferences getForUsers error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    upsert: async (userId: string, preferences: { channels?: Record<string, any>; webhook_url?: string | null; webhook_secret?: string | null }) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO notification_preferences (user_id, channels, webhook_url, webhook_secret)
+          VALUES ($1, COALESCE($2::jsonb, '{}'::jsonb), $3, $4)
+          ON CONFLICT (user_id) DO UPDATE SET
+            channels = CASE WHEN $2::jsonb IS NULL THEN notification_preferences.channels
+                            ELSE notification_preferences.channels || $2::jsonb END,
+            webhook_url = CASE WHEN $5 THEN EXCLUDED.webhook_url ELSE notification_preferences.webhook_url END,
+            webhook_secret = CASE WHEN $6 THEN EXCLUDED.webhook_secret ELSE notification_preferences.webhook_secret END,
+            updated_at = NOW()
           RETURNING *
-        `;
+        `, [
+          userId,
+          preferences.channels ? JSON.stringify(preferences.channels) : null,
+          preferences.webhook_url ?? null,
+          preferences.webhook_secret ?? null,
+          preferences.webhook_url !== undefined,
+          preferences.webhook_secret !== undefined
+        ]);
 
-        const result = await client.query(query, values);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Properties update error:', error);
+        logger.error('Notification preferences upsert error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
-    },
+    }
+  },
 
-    delete: async (id: string) => {
+  /**
+   * Notification delivery log and retry queue
+   */
+  notificationDeliveries: {
+    create: async (delivery: {
+      notification_id?: string | null;
+      user_id: string;
+      event: string;
+      channel: 'in_app' | 'email' | 'webhook';
+      recipient: string;
+      payload: Record<string, any>;
+      status?: 'pending' | 'sent';
+    }) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('DELETE FROM properties WHERE id = $1', [id]);
-        return formatResponse((result.rowCount ?? 0) > 0);
+        const sent = delivery.status === 'sent';
+        const result = await client.query(`
+          INSERT INTO notification_deliveries
+            (notification_id, user_id, event, channel, recipient, payload, status, attempts, sent_at)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CASE WHEN $9 THEN NOW() END)
+          RETURNING *
+        `, [
+          delivery.notification_id ?? null,
+          delivery.user_id,
+          delivery.event,
+          delivery.channel,
+          delivery.recipient,
+          JSON.stringify(delivery.payload),
+          sent ? 'sent' : 'pending',
+          sent ? 1 : 0,
+          sent
+        ]);
+
+        return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Properties delete error:', error);
+        logger.error('Notification deliveries create error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    search: async (searchQuery: string, filters: any = {}) => {
+    /**
+     * Claim due deliveries for sending (safe with several API instances). Rows left in
+     * "sending" by a crashed worker are picked up again after `staleAfterMinutes`.
+     */
+    claimDue: async (limit = 25, staleAfterMinutes = 10) => {
       const client = await pool.connect();
       try {
-        let query = `
-          SELECT p.*, u.name as agent_name 
-          FROM properties p 
-          LEFT JOIN users u ON p.listing_agent_id = u.id 
-          WHERE (
-            p.title ILIKE $1 OR 
-            p.description ILIKE $1 OR 
-            p.location ILIKE $1
+        const result = await client.query(`
+          UPDATE notification_deliveries
+          SET status = 'sending', attempts = attempts + 1, updated_at = NOW()
+          WHERE id IN (
+            SELECT id FROM notification_deliveries
+            WHERE (status = 'pending' AND next_attempt_at <= NOW())
+               OR (status = 'sending' AND updated_at < NOW() - $2 * INTERVAL '1 minute')
+            ORDER BY next_attempt_at
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
           )
-        `;
-        const params = [`%${searchQuery}%`];
-        let paramIndex = 2;
+          RETURNING *
+        `, [limit, staleAfterMinutes]);
 
-        if (filters.status) {
-          query += ` AND p.status = $${paramIndex}`;
-          params.push(filters.status);
-          paramIndex++;
-        }
-        if (filters.property_type) {
-          query += ` AND p.property_type = $${paramIndex}`;
-          params.push(filters.property_type);
-          paramIndex++;
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Notification deliveries claimDue error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    markSent: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        await client.query(`
+          UPDATE notification_deliveries
+          SET status = 'sent', sent_at = NOW(), last_error = NULL, updated_at = NOW()
+          WHERE id = $1
+        `, [id]);
+        return formatResponse(true);
+      } catch (error: any) {
+        logger.error('Notification deliveries markSent error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Record a failed attempt - back to pending for a retry at `retryAt`, or failed for good when null
+     */
+    markAttemptFailed: async (id: string, errorMessage: string, retryAt: Date | null) => {
+      const client = await pool.connect();
+      try {
+        await client.query(`
+          UPDATE notification_deliveries
+          SET status = CASE WHEN $3::timestamptz IS NULL THEN 'failed' ELSE 'pending' END,
+            next_attempt_at = COALESCE($3::timestamptz, next_attempt_at),
+            last_error = $2,
+            updated_at = NOW()
+          WHERE id = $1
+        `, [id, errorMessage.slice(0, 1000), retryAt]);
+        return formatResponse(true);
+      } catch (error: any) {
+        logger.error('Notification deliveries markAttemptFailed error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    getAll: async (filters: { status?: string; channel?: string; event?: string } = {}, options: { page?: number; limit?: number } = {}) => {
+      const client = await pool.connect();
+      try {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(options.page || 1, 1);
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        (['status', 'channel', 'event'] as const).forEach(key => {
+          if (filters[key]) {
+            params.push(filters[key]);
+            conditions.push(`d.${key} = $${params.length}`);
+          }
+        });
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const countResult = await client.query(
+          `SELECT COUNT(*)::int AS total FROM notification_deliveries d ${where}`,
+          params
+        );
+
+        const result = await client.query(`
+          SELECT d.*, u.name AS user_name, u.email AS user_email
+          FROM notification_deliveries d
+          LEFT JOIN users u ON u.id = d.user_id
+          ${where}
+          ORDER BY d.created_at DESC
+          LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+        `, [...params, limit, (page - 1) * limit]);
+
+        return formatResponse({ rows: result.rows, total: countResult.rows[0].total, page, limit });
+      } catch (error: any) {
+        logger.error('Notification deliveries getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Put a failed delivery back in the queue with a fresh set of attempts
+     */
+    retry: async (id: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE notification_deliveries
+          SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL, updated_at = NOW()
+          WHERE id = $1 AND status = 'failed'
+          RETURNING *
+        `, [id]);
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Failed delivery not found', code: 'NOT_FOUND' });
         }
 
-        query += ' ORDER BY p.created_at DESC';
-        
-        const result = await client.query(query, params);
-        return formatResponse(result.rows);
+        return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Properties search error:', error);
+        logger.error('Notification deliveries retry error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -307,94 +4460,77 @@ export const DatabaseService = {
   },
 
   /**
-   * Testimonials operations
+   * Companies operations
    */
-  testimonials: {
+  companies: {
     getAll: async () => {
       const client = await pool.connect();
       try {
-        const result = await client.query(`
-          SELECT t.*, p.title as property_title 
-          FROM testimonials t 
-          LEFT JOIN properties p ON t.property_id = p.id 
-          ORDER BY t.created_at DESC
-        `);
-        
+        const query = 'SELECT * FROM companies ORDER BY "order" ASC, created_at DESC';
+        const result = await client.query(query);
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Testimonials getAll error:', error);
+        logger.error('Companies getAll error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getApproved: async () => {
+    getActive: async () => {
       const client = await pool.connect();
       try {
-        const result = await client.query(`
-          SELECT t.*, p.title as property_title 
-          FROM testimonials t 
-          LEFT JOIN properties p ON t.property_id = p.id 
-          WHERE t.status = 'approved' 
-          ORDER BY t.approved_at DESC
-        `);
-        
+        const query = 'SELECT * FROM companies WHERE is_active = true ORDER BY "order" ASC, created_at DESC';
+        const result = await client.query(query);
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Testimonials getApproved error:', error);
+        logger.error('Companies getActive error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getPending: async () => {
+    getById: async (id: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query(`
-          SELECT t.*, p.title as property_title 
-          FROM testimonials t 
-          LEFT JOIN properties p ON t.property_id = p.id 
-          WHERE t.status = 'pending' 
-          ORDER BY t.created_at DESC
-        `);
+        const result = await client.query('SELECT * FROM companies WHERE id = $1', [id]);
         
-        return formatResponse(result.rows);
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Company not found' });
+        }
+        
+        return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Testimonials getPending error:', error);
+        logger.error('Companies getById error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    create: async (testimonialData: any) => {
+    create: async (companyData: any) => {
       const client = await pool.connect();
       try {
         const query = `
-          INSERT INTO testimonials (
-            client_name, client_email, client_phone, property_id, rating,
-            title, content, status
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-          RETURNING *
-        `;
-        
-        const values = [
-          testimonialData.client_name,
-          testimonialData.client_email,
-          testimonialData.client_phone,
-          testimonialData.property_id,
-          testimonialData.rating,
-          testimonialData.title,
-          testimonialData.content,
-          'pending'
+          INSERT INTO companies (name, logo, website, description, "order", is_active)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING *
+        `;
+        
+        const values = [
+          companyData.name,
+          companyData.logo,
+          companyData.website || null,
+          companyData.description || null,
+          companyData.order || 0,
+          companyData.is_active !== false
         ];
 
         const result = await client.query(query, values);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Testimonials create error:', error);
+        logger.error('Companies create error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -410,7 +4546,11 @@ export const DatabaseService = {
 
         Object.entries(updates).forEach(([key, value]) => {
           if (key !== 'id') {
-            setClause.push(`${key} = $${paramIndex}`);
+            if (key === 'order') {
+              setClause.push(`"order" = $${paramIndex}`);
+            } else {
+              setClause.push(`${key} = $${paramIndex}`);
+            }
             values.push(value);
             paramIndex++;
           }
@@ -420,7 +4560,7 @@ export const DatabaseService = {
         values.push(id);
 
         const query = `
-          UPDATE testimonials 
+          UPDATE companies 
           SET ${setClause.join(', ')}
           WHERE id = $${paramIndex}
           RETURNING *
@@ -429,37 +4569,7 @@ export const DatabaseService = {
         const result = await client.query(query, values);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Testimonials update error:', error);
-        return formatResponse(null, { message: error.message });
-      } finally {
-        client.release();
-      }
-    },
-
-    updateStatus: async (id: string, status: string, reviewerId: string, reason?: string) => {
-      const client = await pool.connect();
-      try {
-        let query = `UPDATE testimonials SET status = $1, updated_at = NOW()`;
-        const values = [status];
-        let paramIndex = 2;
-
-        if (status === 'approved') {
-          query += `, approved_at = NOW(), approved_by = $${paramIndex}`;
-          values.push(reviewerId);
-          paramIndex++;
-        } else if (status === 'rejected' && reason) {
-          query += `, rejection_reason = $${paramIndex}`;
-          values.push(reason);
-          paramIndex++;
-        }
-
-        query += ` WHERE id = $${paramIndex} RETURNING *`;
-        values.push(id);
-
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
-      } catch (error: any) {
-        logger.error('Testimonials updateStatus error:', error);
+        logger.error('Companies update error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -469,10 +4579,10 @@ export const DatabaseService = {
     delete: async (id: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('DELETE FROM testimonials WHERE id = $1', [id]);
+        const result = await client.query('DELETE FROM companies WHERE id = $1', [id]);
         return formatResponse((result.rowCount ?? 0) > 0);
       } catch (error: any) {
-        logger.error('Testimonials delete error:', error);
+        logger.error('Companies delete error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -481,38 +4591,40 @@ export const DatabaseService = {
   },
 
   /**
-   * Inquiries operations
+   * Tags operations
    */
-  inquiries: {
-    getAll: async (filters: any = {}) => {
+  tags: {
+    /**
+     * All tags, each with usage_count - the number of properties it is assigned to
+     */
+    getAll: async () => {
       const client = await pool.connect();
       try {
-        let query = `
-          SELECT i.*, p.title as property_title 
-          FROM inquiries i 
-          LEFT JOIN properties p ON i.property_id = p.id 
-          WHERE 1=1
+        const query = `
+          SELECT t.*, COUNT(pta.id)::int AS usage_count
+          FROM tags t
+          LEFT JOIN property_tag_assignments pta ON pta.tag_id = t.id
+          GROUP BY t.id
+          ORDER BY t.name ASC
         `;
-        const params: any[] = [];
-        let paramIndex = 1;
-
-        if (filters.status) {
-          query += ` AND i.status = $${paramIndex}`;
-          params.push(filters.status);
-          paramIndex++;
-        }
-        if (filters.assigned_to) {
-          query += ` AND i.assigned_to = $${paramIndex}`;
-          params.push(filters.assigned_to);
-          paramIndex++;
-        }
+        const result = await client.query(query);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Tags getAll error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
 
-        query += ' ORDER BY i.created_at DESC';
-        
-        const result = await client.query(query, params);
+    getActive: async () => {
+      const client = await pool.connect();
+      try {
+        const query = 'SELECT * FROM tags WHERE is_active = true ORDER BY name ASC';
+        const result = await client.query(query);
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Inquiries getAll error:', error);
+        logger.error('Tags getActive error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -522,65 +4634,83 @@ export const DatabaseService = {
     getById: async (id: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query(`
-          SELECT i.*, p.title as property_title 
-          FROM inquiries i 
-          LEFT JOIN properties p ON i.property_id = p.id 
-          WHERE i.id = $1
-        `, [id]);
+        const result = await client.query('SELECT * FROM tags WHERE id = $1', [id]);
         
         if (result.rows.length === 0) {
-          return formatResponse(null, { message: 'Inquiry not found' });
+          return formatResponse(null, { message: 'Tag not found' });
         }
         
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Inquiries getById error:', error);
+        logger.error('Tags getById error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    create: async (inquiryData: any) => {
+    create: async (tagData: {
+      name: string;
+      color?: string;
+      backgroundColor?: string;
+      description?: string;
+      isActive?: boolean;
+    }) => {
       const client = await pool.connect();
       try {
         const query = `
-          INSERT INTO inquiries (property_id, name, email, phone, message, inquiry_type, status)
-          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          INSERT INTO tags (name, color, background_color, description, is_active)
+          VALUES ($1, $2, $3, $4, $5)
           RETURNING *
         `;
-        
+
         const values = [
-          inquiryData.property_id,
-          inquiryData.name,
-          inquiryData.email,
-          inquiryData.phone,
-          inquiryData.message,
-          inquiryData.inquiry_type || 'general',
-          'new'
+          tagData.name,
+          tagData.color || '#000000',
+          tagData.backgroundColor || '#f0f9ff',
+          tagData.description || null,
+          tagData.isActive !== undefined ? tagData.isActive : true
         ];
 
         const result = await client.query(query, values);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Inquiries create error:', error);
+        logger.error('Tags create error:', error);
+        if (error.code === '23505') {
+          return formatResponse(null, { message: 'Tag name already exists' });
+        }
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    update: async (id: string, updates: any) => {
+    update: async (id: string, tagData: {
+      name?: string;
+      color?: string;
+      backgroundColor?: string;
+      description?: string;
+      isActive?: boolean;
+    }) => {
       const client = await pool.connect();
       try {
+        // Check if tag exists first
+        const existsResult = await client.query('SELECT id FROM tags WHERE id = $1', [id]);
+        if (existsResult.rows.length === 0) {
+          return formatResponse(null, { message: 'Tag not found' });
+        }
+
+        // Build dynamic update query
         const setClause: string[] = [];
         const values: any[] = [];
         let paramIndex = 1;
 
-        Object.entries(updates).forEach(([key, value]) => {
-          if (key !== 'id') {
-            setClause.push(`${key} = $${paramIndex}`);
+        Object.entries(tagData).forEach(([key, value]) => {
+          if (value !== undefined) {
+            // Convert camelCase to snake_case for database columns
+            const dbKey = key === 'backgroundColor' ? 'background_color' : 
+                         key === 'isActive' ? 'is_active' : key;
+            setClause.push(`${dbKey} = $${paramIndex}`);
             values.push(value);
             paramIndex++;
           }
@@ -590,7 +4720,7 @@ export const DatabaseService = {
         values.push(id);
 
         const query = `
-          UPDATE inquiries 
+          UPDATE tags 
           SET ${setClause.join(', ')}
           WHERE id = $${paramIndex}
           RETURNING *
@@ -599,52 +4729,66 @@ export const DatabaseService = {
         const result = await client.query(query, values);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Inquiries update error:', error);
+        logger.error('Tags update error:', error);
+        if (error.code === '23505') {
+          return formatResponse(null, { message: 'Tag name already exists' });
+        }
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    updateStatus: async (id: string, status: string, notes?: string) => {
+    delete: async (id: string) => {
       const client = await pool.connect();
       try {
-        let query = `UPDATE inquiries SET status = $1, updated_at = NOW()`;
-        const values = [status];
-        let paramIndex = 2;
-
-        if (notes) {
-          query += `, notes = $${paramIndex}`;
-          values.push(notes);
-          paramIndex++;
-        }
-
-        query += ` WHERE id = $${paramIndex} RETURNING *`;
-        values.push(id);
+        const result = await client.query('DELETE FROM tags WHERE id = $1', [id]);
+        return formatResponse((result.rowCount ?? 0) > 0);
+      } catch (error: any) {
+        logger.error('Tags delete error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
 
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+    /**
+     * Assign every tag to every property. Existing assignments are kept and
+     * unknown property or tag ids are skipped; returns how many were added.
+     */
+    bulkAssign: async (propertyIds: string[], tagIds: string[], actorId: string | null = null) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO property_tag_assignments (property_id, tag_id, assigned_by)
+          SELECT p.id, t.id, $3
+          FROM properties p
+          CROSS JOIN tags t
+          WHERE p.id = ANY($1::uuid[]) AND t.id = ANY($2::uuid[])
+          ON CONFLICT (property_id, tag_id) DO NOTHING
+        `, [propertyIds, tagIds, actorId]);
+        return formatResponse({ assigned: result.rowCount ?? 0 });
       } catch (error: any) {
-        logger.error('Inquiries updateStatus error:', error);
+        logger.error('Tags bulkAssign error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    assign: async (id: string, agentId: string) => {
+    /**
+     * Remove every tag from every property; returns how many assignments were removed
+     */
+    bulkRemove: async (propertyIds: string[], tagIds: string[]) => {
       const client = await pool.connect();
       try {
         const result = await client.query(`
-          UPDATE inquiries 
-          SET assigned_to = $1, updated_at = NOW()
-          WHERE id = $2 
-          RETURNING *
-        `, [agentId, id]);
-        
-        return formatResponse(result.rows[0]);
+          DELETE FROM property_tag_assignments
+          WHERE property_id = ANY($1::uuid[]) AND tag_id = ANY($2::uuid[])
+        `, [propertyIds, tagIds]);
+        return formatResponse({ removed: result.rowCount ?? 0 });
       } catch (error: any) {
-        logger.error('Inquiries assign error:', error);
+        logger.error('Tags bulkRemove error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -653,244 +4797,330 @@ export const DatabaseService = {
   },
 
   /**
-   * FAQs operations
+   * AI assistant conversation threads and their messages
    */
-  faqs: {
-    getAll: async () => {
+  chatThreads: {
+    /**
+     * A user's threads, most recently active first
+     */
+    getAll: async (userId: string) => {
       const client = await pool.connect();
       try {
         const result = await client.query(`
-          SELECT f.*, c.name as category_name 
-          FROM faqs f 
-          LEFT JOIN faq_categories c ON f.category_id = c.id 
-          WHERE f.is_active = true 
-          ORDER BY f."order" ASC, f.created_at DESC
-        `);
-        
+          ${CHAT_THREAD_SELECT}
+          WHERE t.user_id = $1
+          ORDER BY COALESCE(t.last_message_at, t.created_at) DESC
+        `, [userId]);
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('FAQs getAll error:', error);
+        logger.error('Chat threads getAll error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getById: async (id: string) => {
+    getById: async (userId: string, id: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query(`
-          SELECT f.*, c.name as category_name 
-          FROM faqs f 
-          LEFT JOIN faq_categories c ON f.category_id = c.id 
-          WHERE f.id = $1
-        `, [id]);
-        
+        const result = await client.query(`${CHAT_THREAD_SELECT} WHERE t.id = $1 AND t.user_id = $2`, [id, userId]);
+
         if (result.rows.length === 0) {
-          return formatResponse(null, { message: 'FAQ not found' });
+          return formatResponse(null, { message: 'Chat thread not found', code: 'NOT_FOUND' });
         }
-        
+
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('FAQs getById error:', error);
+        logger.error('Chat threads getById error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    create: async (faqData: any) => {
+    create: async (userId: string, title?: string) => {
       const client = await pool.connect();
       try {
-        const query = `
-          INSERT INTO faqs (category_id, question, answer, "order", is_active, tags, created_by)
-          VALUES ($1, $2, $3, $4, $5, $6, $7)
-          RETURNING *
-        `;
-        
-        const values = [
-          faqData.category_id,
-          faqData.question,
-          faqData.answer,
-          faqData.order || 0,
-          true,
-          JSON.stringify(faqData.tags || []),
-          faqData.created_by
-        ];
-
-        const result = await client.query(query, values);
+        const result = await client.query(`
+          INSERT INTO chat_threads (user_id, title)
+          VALUES ($1, COALESCE($2, 'New conversation'))
+          RETURNING *, 0 AS message_count
+        `, [userId, title || null]);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('FAQs create error:', error);
+        logger.error('Chat threads create error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    update: async (id: string, updates: any) => {
+    /**
+     * The thread a chat message belongs to, created on its first message. A thread started signed
+     * out is stored with newSecretHash and afterwards needs secretHash to match it. A signed-in user
+     * presenting the secret of a thread they started signed out takes it over, so it syncs to their
+     * devices. The thread comes back with created set when this message started it
+     */
+    ensure: async (userId: string | null, id: string, title: string, secretHash: string | null, newSecretHash: string) => {
       const client = await pool.connect();
       try {
-        const setClause: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
+        const inserted = await client.query(`
+          INSERT INTO chat_threads (id, user_id, title, session_secret_hash)
+          VALUES ($1, $2, $3, CASE WHEN $2::varchar IS NULL THEN $4 END)
+          ON CONFLICT (id) DO NOTHING
+        `, [id, userId, title, newSecretHash]);
+        const created = (inserted.rowCount ?? 0) > 0;
 
-        Object.entries(updates).forEach(([key, value]) => {
-          if (key !== 'id') {
-            if (key === 'tags') {
-              setClause.push(`${key} = $${paramIndex}`);
-              values.push(JSON.stringify(value));
-            } else {
-              setClause.push(`${key} = $${paramIndex}`);
-              values.push(value);
-            }
-            paramIndex++;
-          }
-        });
+        if (!created && userId && secretHash) {
+          await client.query(`
+            UPDATE chat_threads SET user_id = $2, session_secret_hash = NULL, updated_at = NOW()
+            WHERE id = $1 AND user_id IS NULL AND session_secret_hash = $3
+          `, [id, userId, secretHash]);
+        }
+
+        const result = await client.query(
+          `${CHAT_THREAD_SELECT} WHERE t.id = $1 AND ${CHAT_THREAD_ACCESS}`,
+          [id, userId, created ? newSecretHash : secretHash]
+        );
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Chat thread not found', code: 'NOT_FOUND' });
+        }
 
-        setClause.push(`updated_at = NOW()`);
-        values.push(id);
+        return formatResponse({ ...result.rows[0], created });
+      } catch (error: any) {
+        logger.error('Chat threads ensure error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
 
-        const query = `
-          UPDATE faqs 
-          SET ${setClause.join(', ')}
-          WHERE id = $${paramIndex}
-          RETURNING *
-        `;
+    rename: async (userId: string, id: string, title: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE chat_threads
+          SET title = $3, updated_at = NOW()
+          WHERE id = $1 AND user_id = $2
+          RETURNING id
+        `, [id, userId, title]);
 
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Chat thread not found', code: 'NOT_FOUND' });
+        }
+
+        const thread = await client.query(`${CHAT_THREAD_SELECT} WHERE t.id = $1`, [id]);
+        return formatResponse(thread.rows[0]);
       } catch (error: any) {
-        logger.error('FAQs update error:', error);
+        logger.error('Chat threads rename error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    delete: async (id: string) => {
+    delete: async (userId: string, id: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('DELETE FROM faqs WHERE id = $1', [id]);
+        const result = await client.query(
+          'DELETE FROM chat_threads WHERE id = $1 AND user_id = $2',
+          [id, userId]
+        );
         return formatResponse((result.rowCount ?? 0) > 0);
       } catch (error: any) {
-        logger.error('FAQs delete error:', error);
+        logger.error('Chat threads delete error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
-    }
-  },
+    },
 
-  /**
-   * FAQ Categories operations
-   */
-  faqCategories: {
-    getAll: async () => {
+    /**
+     * Messages of a thread in order; with unsummarizedOnly, just those its summary does not cover yet
+     */
+    getMessages: async (threadId: string, unsummarizedOnly = false) => {
       const client = await pool.connect();
       try {
         const result = await client.query(`
-          SELECT * FROM faq_categories 
-          WHERE is_active = true 
-          ORDER BY "order" ASC
-        `);
-        
+          SELECT m.id, m.thread_id, m.role, m.content, m.client_message_id, m.token_estimate, m.metadata, m.created_at
+          FROM chat_messages m
+          JOIN chat_threads t ON t.id = m.thread_id
+          WHERE m.thread_id = $1
+            AND (NOT $2 OR t.summarized_through IS NULL OR m.created_at > t.summarized_through)
+          ORDER BY m.created_at, m.id
+        `, [threadId, unsummarizedOnly]);
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('FAQ Categories getAll error:', error);
+        logger.error('Chat threads getMessages error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getById: async (id: string) => {
+    /**
+     * Save turns in order and bump the thread's activity
+     */
+    appendMessages: async (threadId: string, messages: ChatMessageInput[]) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('SELECT * FROM faq_categories WHERE id = $1', [id]);
-        
-        if (result.rows.length === 0) {
-          return formatResponse(null, { message: 'Category not found' });
+        await client.query('BEGIN');
+
+        const saved: any[] = [];
+        for (const message of messages) {
+          const result = await client.query(`
+            INSERT INTO chat_messages (thread_id, role, content, client_message_id, token_estimate, metadata)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING id, thread_id, role, content, client_message_id, token_estimate, metadata, created_at
+          `, [
+            threadId,
+            message.role,
+            message.content,
+            message.clientMessageId || null,
+            message.tokenEstimate,
+            JSON.stringify(message.metadata || {})
+          ]);
+          saved.push(result.rows[0]);
         }
-        
-        return formatResponse(result.rows[0]);
+
+        await client.query(
+          'UPDATE chat_threads SET last_message_at = NOW(), updated_at = NOW() WHERE id = $1',
+          [threadId]
+        );
+
+        await client.query('COMMIT');
+        return formatResponse(saved);
       } catch (error: any) {
-        logger.error('FAQ Categories getById error:', error);
+        await client.query('ROLLBACK');
+        logger.error('Chat threads appendMessages error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    create: async (categoryData: any) => {
+    /**
+     * Replace the running summary, which now covers every message up to and including lastMessageId
+     */
+    updateSummary: async (threadId: string, summary: string, lastMessageId: string) => {
       const client = await pool.connect();
       try {
-        const query = `
-          INSERT INTO faq_categories (name, slug, description, "order", is_active)
-          VALUES ($1, $2, $3, $4, $5)
-          RETURNING *
-        `;
-        
-        const values = [
-          categoryData.name,
-          categoryData.slug || categoryData.name.toLowerCase().replace(/\s+/g, '-'),
-          categoryData.description,
-          categoryData.order || 0,
-          true
-        ];
+        await client.query(`
+          UPDATE chat_threads
+          SET summary = $2,
+            summarized_through = (SELECT created_at FROM chat_messages WHERE id = $3 AND thread_id = $1),
+            updated_at = NOW()
+          WHERE id = $1
+        `, [threadId, summary, lastMessageId]);
+        return formatResponse(true);
+      } catch (error: any) {
+        logger.error('Chat threads updateSummary error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
 
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+  /**
+   * C1/LLM usage log
+   */
+  llmUsage: {
+    record: async (entry: LlmUsageRecord) => {
+      const client = await pool.connect();
+      try {
+        await client.query(`
+          INSERT INTO llm_usage (
+            user_id, client_key, user_role, endpoint, use_case, model, prompt_tokens, completion_tokens,
+            total_tokens, cost_usd, usage_estimated, outcome, latency_ms
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        `, [
+          entry.userId,
+          entry.clientKey,
+          entry.role,
+          entry.endpoint,
+          entry.useCase,
+          entry.model,
+          entry.promptTokens,
+          entry.completionTokens,
+          entry.totalTokens,
+          entry.costUsd,
+          entry.usageEstimated,
+          entry.outcome,
+          entry.latencyMs
+        ]);
+        return formatResponse(true);
       } catch (error: any) {
-        logger.error('FAQ Categories create error:', error);
+        logger.error('LLM usage record error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    update: async (id: string, updates: any) => {
+    /**
+     * Tokens used today by one client, by everyone with the same role, and by everyone
+     */
+    getDailyTotals: async (clientKey: string, role: string) => {
       const client = await pool.connect();
       try {
-        const setClause: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
-
-        Object.entries(updates).forEach(([key, value]) => {
-          if (key !== 'id') {
-            setClause.push(`${key} = $${paramIndex}`);
-            values.push(value);
-            paramIndex++;
-          }
-        });
-
-        setClause.push(`updated_at = NOW()`);
-        values.push(id);
-
-        const query = `
-          UPDATE faq_categories 
-          SET ${setClause.join(', ')}
-          WHERE id = $${paramIndex}
-          RETURNING *
-        `;
-
-        const result = await client.query(query, values);
+        const result = await client.query(`
+          SELECT
+            COALESCE(SUM(total_tokens) FILTER (WHERE client_key = $1), 0)::int AS client,
+            COALESCE(SUM(total_tokens) FILTER (WHERE user_role = $2), 0)::int AS role,
+            COALESCE(SUM(total_tokens), 0)::int AS global
+          FROM llm_usage
+          WHERE ${LLM_USAGE_TODAY}
+        `, [clientKey, role]);
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('FAQ Categories update error:', error);
+        logger.error('LLM usage getDailyTotals error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    delete: async (id: string) => {
+    /**
+     * Requests, tokens and cost over the last N days: in total, per day, per use case, per model and per role
+     */
+    getSummary: async (days: number) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('DELETE FROM faq_categories WHERE id = $1', [id]);
-        return formatResponse((result.rowCount ?? 0) > 0);
+        const since = "created_at >= NOW() - $1::int * INTERVAL '1 day'";
+        const grouped = (column: string) => client.query(`
+          SELECT ${column} AS key, ${LLM_USAGE_TOTALS}
+          FROM llm_usage
+          WHERE ${since}
+          GROUP BY 1
+          ORDER BY total_tokens DESC, 1
+        `, [days]);
+
+        const [totals, byDay, byUseCase, byModel, byRole] = await Promise.all([
+          client.query(`SELECT ${LLM_USAGE_TOTALS} FROM llm_usage WHERE ${since}`, [days]),
+          client.query(`
+            SELECT to_char(date_trunc('day', created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS day, ${LLM_USAGE_TOTALS}
+            FROM llm_usage
+            WHERE ${since}
+            GROUP BY 1
+            ORDER BY 1
+          `, [days]),
+          grouped('use_case'),
+          grouped('model'),
+          grouped('user_role')
+        ]);
+
+        return formatResponse({
+          days,
+          totals: totals.rows[0],
+          byDay: byDay.rows,
+          byUseCase: byUseCase.rows,
+          byModel: byModel.rows,
+          byRole: byRole.rows
+        });
       } catch (error: any) {
-        logger.error('FAQ Categories delete error:', error);
+        logger.error('LLM usage getSummary error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -899,154 +5129,220 @@ export const DatabaseService = {
   },
 
   /**
-   * Users operations
+   * Listing prices for the budget calculator, and the admin-edited quote rules
    */
-  users: {
-    getAll: async (filters: any = {}) => {
+  pricing: {
+    /**
+     * Median, quartile and count of rent per sqft for every micro-market and category
+     */
+    getMarketRates: async (filters: { microMarket?: string | undefined; category?: string | undefined } = {}) => {
       const client = await pool.connect();
       try {
-        let query = 'SELECT id, email, name, role, is_active, created_at, updated_at FROM users WHERE 1=1';
         const params: any[] = [];
-        let paramIndex = 1;
-
-        if (filters.role) {
-          query += ` AND role = $${paramIndex}`;
-          params.push(filters.role);
-          paramIndex++;
-        }
-        if (filters.is_active !== undefined) {
-          query += ` AND is_active = $${paramIndex}`;
-          params.push(filters.is_active);
-          paramIndex++;
+        let where = PRICED_LISTING;
+        if (filters.microMarket) {
+          params.push(filters.microMarket.toLowerCase());
+          where += ` AND ${PROPERTY_MICRO_MARKET} = $${params.length}`;
         }
-        if (filters.email) {
-          query += ` AND email = $${paramIndex}`;
-          params.push(filters.email);
-          paramIndex++;
+        if (filters.category) {
+          params.push(filters.category);
+          where += ` AND p.property_type = $${params.length}`;
         }
 
-        query += ' ORDER BY created_at DESC';
-        
-        const result = await client.query(query, params);
+        const result = await client.query<MarketRateRow>(`
+          SELECT
+            ${PROPERTY_MICRO_MARKET} AS micro_market,
+            MIN(TRIM(SPLIT_PART(p.location, ',', 1))) AS micro_market_label,
+            p.property_type AS category,
+            COUNT(*)::int AS listings,
+            (PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY p.price / p.area_sqft))::float8 AS median_rate_per_sqft,
+            (PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY p.price / p.area_sqft))::float8 AS p25_rate_per_sqft,
+            (PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY p.price / p.area_sqft))::float8 AS p75_rate_per_sqft,
+            MAX(p.updated_at) AS last_listing_update
+          FROM properties p
+          WHERE ${where}
+          GROUP BY 1, 3
+          ORDER BY listings DESC, 1, 3
+        `, params);
+
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Users getAll error:', error);
+        logger.error('Pricing getMarketRates error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getById: async (id: string) => {
+    /**
+     * Priced listings in a micro-market and/or categories, with their rent per sqft
+     */
+    getComparables: async (filters: ComparableFilters = {}) => {
       const client = await pool.connect();
       try {
-        const result = await client.query(
-          'SELECT id, email, name, role, is_active, created_at, updated_at FROM users WHERE id = $1',
-          [id]
-        );
-        
-        if (result.rows.length === 0) {
-          return formatResponse(null, { message: 'User not found' });
+        const params: any[] = [];
+        let where = PRICED_LISTING;
+        if (filters.microMarket) {
+          params.push(filters.microMarket.toLowerCase());
+          where += ` AND ${PROPERTY_MICRO_MARKET} = $${params.length}`;
         }
-        
-        return formatResponse(result.rows[0]);
+        if (filters.categories && filters.categories.length > 0) {
+          params.push(filters.categories);
+          where += ` AND p.property_type = ANY($${params.length}::varchar[])`;
+        }
+        params.push(Math.min(filters.limit || 200, 500));
+
+        const result = await client.query<ComparableListing>(`
+          SELECT p.id, p.title, p.location, p.property_type AS category, p.price::float8 AS price, p.area_sqft,
+            (p.price / p.area_sqft)::float8 AS rate_per_sqft, p.updated_at
+          FROM properties p
+          WHERE ${where}
+          ORDER BY p.updated_at DESC
+          LIMIT $${params.length}
+        `, params);
+
+        return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Users getById error:', error);
+        logger.error('Pricing getComparables error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    create: async (userData: any) => {
+    getRules: async () => {
       const client = await pool.connect();
       try {
-        const query = `
-          INSERT INTO users (id, email, name, role, is_active)
-          VALUES ($1, $2, $3, $4, $5)
-          RETURNING id, email, name, role, is_active, created_at, updated_at
-        `;
-        
-        const values = [
-          userData.id, // Use provided Firebase UID as id
-          userData.email,
-          userData.name,
-          userData.role || 'user',
-          userData.is_active !== false
-        ];
-
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+        const result = await client.query<PricingRuleRow>('SELECT key, value::float8 AS value, updated_by, updated_at FROM pricing_rules');
+        return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Users create error:', error);
+        logger.error('Pricing getRules error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    update: async (id: string, updates: any) => {
+    /**
+     * Set the given rules; others keep their value
+     */
+    upsertRules: async (rules: Record<string, number>, userId: string) => {
       const client = await pool.connect();
       try {
-        const setClause: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
+        await client.query('BEGIN');
+        for (const [key, value] of Object.entries(rules)) {
+          await client.query(`
+            INSERT INTO pricing_rules (key, value, updated_by)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (key) DO UPDATE
+            SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+          `, [key, value, userId]);
+        }
+        await client.query('COMMIT');
+        return formatResponse(true);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        logger.error('Pricing upsertRules error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    }
+  },
 
-        Object.entries(updates).forEach(([key, value]) => {
-          if (key !== 'id') {
-            setClause.push(`${key} = $${paramIndex}`);
-            values.push(value);
-            paramIndex++;
-          }
-        });
+  /**
+   * Saved property comparisons, opened by anyone with the share link
+   */
+  comparisons: {
+    create: async (comparison: {
+      shareId: string;
+      userId: string | null;
+      title: string | null;
+      propertyIds: string[];
+      weights: Record<string, number>;
+      preferences: Record<string, unknown>;
+    }) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO saved_comparisons (share_id, user_id, title, property_ids, weights, preferences)
+          VALUES ($1, $2, $3, $4::uuid[], $5, $6)
+          RETURNING *
+        `, [
+          comparison.shareId,
+          comparison.userId,
+          comparison.title,
+          comparison.propertyIds,
+          JSON.stringify(comparison.weights),
+          JSON.stringify(comparison.preferences)
+        ]);
 
-        setClause.push(`updated_at = NOW()`);
-        values.push(id);
+        return formatResponse(result.rows[0]);
+      } catch (error: any) {
+        logger.error('Comparisons create error:', error);
+        return formatResponse(null, { message: error.message, code: error.code });
+      } finally {
+        client.release();
+      }
+    },
 
-        const query = `
-          UPDATE users 
-          SET ${setClause.join(', ')}
-          WHERE id = $${paramIndex}
-          RETURNING id, email, name, role, is_active, created_at, updated_at
-        `;
+    /**
+     * Open a shared comparison and count the view
+     */
+    getByShareId: async (shareId: string) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          UPDATE saved_comparisons
+          SET view_count = view_count + 1
+          WHERE share_id = $1
+          RETURNING *
+        `, [shareId]);
 
-        const result = await client.query(query, values);
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Comparison not found', code: 'NOT_FOUND' });
+        }
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Users update error:', error);
+        logger.error('Comparisons getByShareId error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    updateRole: async (id: string, role: string, _adminUserId: string) => {
-      // Simplified role update without RPC
+    getByUser: async (userId: string) => {
       const client = await pool.connect();
       try {
         const result = await client.query(`
-          UPDATE users 
-          SET role = $1, updated_at = NOW()
-          WHERE id = $2
-          RETURNING id, email, name, role, is_active, created_at, updated_at
-        `, [role, id]);
-        
-        return formatResponse(result.rows[0]);
+          SELECT * FROM saved_comparisons
+          WHERE user_id = $1
+          ORDER BY created_at DESC
+        `, [userId]);
+
+        return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Users updateRole error:', error);
+        logger.error('Comparisons getByUser error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    delete: async (id: string) => {
+    delete: async (userId: string, id: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('DELETE FROM users WHERE id = $1', [id]);
-        return formatResponse((result.rowCount ?? 0) > 0);
+        const result = await client.query(
+          'DELETE FROM saved_comparisons WHERE id = $1 AND user_id = $2 RETURNING id',
+          [id, userId]
+        );
+
+        if (result.rows.length === 0) {
+          return formatResponse(null, { message: 'Comparison not found', code: 'NOT_FOUND' });
+        }
+        return formatResponse(true);
       } catch (error: any) {
-        logger.error('Users delete error:', error);
+        logger.error('Comparisons delete error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -1055,129 +5351,238 @@ export const DatabaseService = {
   },
 
   /**
-   * Companies operations
+   * Listing interactions and recommendation feedback, the recommender's inputs
    */
-  companies: {
-    getAll: async () => {
+  interactions: {
+    record: async (actor: InteractionActor, events: InteractionEvent[]) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(`
+          INSERT INTO property_interactions (user_id, session_id, property_id, action, time_spent_seconds, context, occurred_at)
+          SELECT $1, $2, e.property_id, e.action, e.time_spent_seconds, e.context, LEAST(COALESCE(e.occurred_at, NOW()), NOW())
+          FROM UNNEST($3::uuid[], $4::varchar[], $5::int[], $6::varchar[], $7::timestamptz[])
+            AS e(property_id, action, time_spent_seconds, context, occurred_at)
+          JOIN properties p ON p.id = e.property_id
+        `, [
+          actor.userId,
+          actor.sessionId,
+          events.map(event => event.propertyId),
+          events.map(event => event.action),
+          events.map(event => event.timeSpentSeconds ?? null),
+          events.map(event => event.context ?? null),
+          events.map(event => event.occurredAt ?? null)
+        ]);
+
+        // Events for unknown properties are dropped by the join
+        return formatResponse({ recorded: result.rowCount || 0 });
+      } catch (error: any) {
+        logger.error('Interactions record error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * The actor's recent interactions, plus saved properties of a signed-in user
+     */
+    getHistory: async (actor: InteractionActor, days = 90, limit = 300) => {
       const client = await pool.connect();
       try {
-        const query = 'SELECT * FROM companies ORDER BY "order" ASC, created_at DESC';
-        const result = await client.query(query);
+        const params: any[] = [];
+        const actorClause = buildActorClause(actor, params);
+        params.push(days, limit);
+        const daysParam = params.length - 1;
+        const limitParam = params.length;
+
+        let savedUnion = '';
+        if (actor.userId) {
+          params.push(actor.userId);
+          savedUnion = `
+            UNION ALL
+            SELECT sp.property_id, 'save' AS action, NULL::int AS time_spent_seconds, sp.created_at AS occurred_at
+            FROM saved_properties sp
+            WHERE sp.user_id = $${params.length}
+          `;
+        }
+
+        const result = await client.query<InteractionHistoryRow>(`
+          SELECT * FROM (
+            SELECT i.property_id, i.action, i.time_spent_seconds, i.occurred_at
+            FROM property_interactions i
+            WHERE ${actorClause} AND i.occurred_at > NOW() - make_interval(days => $${daysParam})
+            ${savedUnion}
+          ) history
+          ORDER BY occurred_at DESC
+          LIMIT $${limitParam}
+        `, params);
+
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Companies getAll error:', error);
+        logger.error('Interactions getHistory error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getActive: async () => {
+    getFeedback: async (actor: InteractionActor) => {
       const client = await pool.connect();
       try {
-        const query = 'SELECT * FROM companies WHERE is_active = true ORDER BY "order" ASC, created_at DESC';
-        const result = await client.query(query);
+        const params: any[] = [];
+        const actorClause = buildActorClause(actor, params, 'f');
+        const result = await client.query<RecommendationFeedbackRow>(`
+          SELECT f.property_id, f.feedback, f.updated_at
+          FROM recommendation_feedback f
+          WHERE ${actorClause}
+        `, params);
+
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Companies getActive error:', error);
+        logger.error('Interactions getFeedback error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getById: async (id: string) => {
+    /**
+     * Like or dislike a property, replacing an earlier opinion
+     */
+    setFeedback: async (actor: InteractionActor, propertyId: string, feedback: 'like' | 'dislike') => {
       const client = await pool.connect();
       try {
-        const result = await client.query('SELECT * FROM companies WHERE id = $1', [id]);
-        
-        if (result.rows.length === 0) {
-          return formatResponse(null, { message: 'Company not found' });
-        }
-        
+        const conflictTarget = actor.userId
+          ? '(user_id, property_id) WHERE user_id IS NOT NULL'
+          : '(session_id, property_id) WHERE user_id IS NULL';
+
+        const result = await client.query(`
+          INSERT INTO recommendation_feedback (user_id, session_id, property_id, feedback)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT ${conflictTarget} DO UPDATE
+          SET feedback = EXCLUDED.feedback, updated_at = NOW()
+          RETURNING *
+        `, [actor.userId, actor.sessionId, propertyId, feedback]);
+
         return formatResponse(result.rows[0]);
       } catch (error: any) {
-        logger.error('Companies getById error:', error);
-        return formatResponse(null, { message: error.message });
+        logger.error('Interactions setFeedback error:', error);
+        return formatResponse(null, { message: error.message, code: error.code });
       } finally {
         client.release();
       }
     },
 
-    create: async (companyData: any) => {
+    /**
+     * Listings that can be recommended, with the columns content similarity compares
+     */
+    getCandidates: async (limit = 1000) => {
       const client = await pool.connect();
       try {
-        const query = `
-          INSERT INTO companies (name, logo, website, description, "order", is_active)
-          VALUES ($1, $2, $3, $4, $5, $6)
-          RETURNING *
-        `;
-        
-        const values = [
-          companyData.name,
-          companyData.logo,
-          companyData.website || null,
-          companyData.description || null,
-          companyData.order || 0,
-          companyData.is_active !== false
-        ];
+        const result = await client.query(`
+          SELECT p.id, p.title, p.location, ${PROPERTY_MICRO_MARKET} AS micro_market, p.property_type AS category,
+            p.area_sqft, p.amenities, p.features
+          FROM properties p
+          WHERE ${RECOMMENDABLE_LISTING}
+          ORDER BY p.updated_at DESC
+          LIMIT $1
+        `, [limit]);
 
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+        return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Companies create error:', error);
+        logger.error('Interactions getCandidates error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    update: async (id: string, updates: any) => {
+    /**
+     * For each seed property, the other properties its visitors (other than the actor)
+     * interacted with, and how many of them did
+     */
+    getCoInteractions: async (seedIds: string[], actor: InteractionActor, days = 180) => {
       const client = await pool.connect();
       try {
-        const setClause: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
+        const params: any[] = [seedIds, days];
+        const actorClause = buildActorClause(actor, params);
 
-        Object.entries(updates).forEach(([key, value]) => {
-          if (key !== 'id') {
-            if (key === 'order') {
-              setClause.push(`"order" = $${paramIndex}`);
-            } else {
-              setClause.push(`${key} = $${paramIndex}`);
-            }
-            values.push(value);
-            paramIndex++;
-          }
-        });
+        const result = await client.query<CoInteractionRow>(`
+          WITH seed_visitors AS (
+            SELECT DISTINCT ${INTERACTION_VISITOR} AS visitor, i.property_id AS seed_id
+            FROM property_interactions i
+            WHERE i.property_id = ANY($1::uuid[])
+              AND i.occurred_at > NOW() - make_interval(days => $2)
+              AND NOT COALESCE(${actorClause}, FALSE)
+          )
+          SELECT sv.seed_id, i.property_id, COUNT(DISTINCT sv.visitor)::int AS visitors
+          FROM seed_visitors sv
+          JOIN property_interactions i ON ${INTERACTION_VISITOR} = sv.visitor
+          WHERE i.property_id <> ALL($1::uuid[])
+            AND i.occurred_at > NOW() - make_interval(days => $2)
+          GROUP BY sv.seed_id, i.property_id
+          ORDER BY visitors DESC
+          LIMIT 1000
+        `, params);
 
-        setClause.push(`updated_at = NOW()`);
-        values.push(id);
+        return formatResponse(result.rows);
+      } catch (error: any) {
+        logger.error('Interactions getCoInteractions error:', error);
+        return formatResponse(null, { message: error.message });
+      } finally {
+        client.release();
+      }
+    },
 
-        const query = `
-          UPDATE companies 
-          SET ${setClause.join(', ')}
-          WHERE id = $${paramIndex}
-          RETURNING *
-        `;
+    /**
+     * For each seed property, the other properties enquired about by the same people
+     * (matched by email), leaving out the signed-in user's own enquiries
+     */
+    getCoInquiries: async (seedIds: string[], userId: string | null) => {
+      const client = await pool.connect();
+      try {
+        const result = await client.query<CoInquiryRow>(`
+          SELECT a.property_id AS seed_id, b.property_id, COUNT(DISTINCT LOWER(b.email))::int AS inquirers
+          FROM inquiries a
+          JOIN inquiries b ON LOWER(b.email) = LOWER(a.email) AND b.property_id <> a.property_id
+          WHERE a.property_id = ANY($1::uuid[])
+            AND b.property_id IS NOT NULL
+            AND b.property_id <> ALL($1::uuid[])
+            AND ($2::varchar IS NULL OR LOWER(a.email) <> (SELECT LOWER(email) FROM users WHERE id = $2))
+          GROUP BY a.property_id, b.property_id
+          ORDER BY inquirers DESC
+          LIMIT 500
+        `, [seedIds, userId]);
 
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+        return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Companies update error:', error);
+        logger.error('Interactions getCoInquiries error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    delete: async (id: string) => {
+    /**
+     * Properties with the most distinct visitors recently
+     */
+    getPopular: async (days = 30, limit = 50) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('DELETE FROM companies WHERE id = $1', [id]);
-        return formatResponse((result.rowCount ?? 0) > 0);
+        const result = await client.query<PopularPropertyRow>(`
+          SELECT i.property_id, COUNT(DISTINCT ${INTERACTION_VISITOR})::int AS visitors,
+            COUNT(*) FILTER (WHERE i.action = 'contact')::int AS contacts
+          FROM property_interactions i
+          JOIN properties p ON p.id = i.property_id
+          WHERE i.occurred_at > NOW() - make_interval(days => $1) AND ${RECOMMENDABLE_LISTING}
+          GROUP BY i.property_id
+          ORDER BY visitors DESC, contacts DESC
+          LIMIT $2
+        `, [days, limit]);
+
+        return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Companies delete error:', error);
+        logger.error('Interactions getPopular error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -1186,152 +5591,180 @@ export const DatabaseService = {
   },
 
   /**
-   * Tags operations
+   * Points of interest around listings
    */
-  tags: {
-    getAll: async () => {
+  pointsOfInterest: {
+    /**
+     * Insert or update one dataset's points in a transaction; returns how many were new
+     */
+    upsert: async (source: string, pois: PoiRecord[], batchSize = 1000) => {
       const client = await pool.connect();
       try {
-        const query = 'SELECT * FROM tags ORDER BY name ASC';
-        const result = await client.query(query);
-        return formatResponse(result.rows);
+        await client.query('BEGIN');
+
+        let inserted = 0;
+        let updated = 0;
+        for (let start = 0; start < pois.length; start += batchSize) {
+          const batch = pois.slice(start, start + batchSize);
+          const result = await client.query(`
+            INSERT INTO points_of_interest (source, external_id, category, name, latitude, longitude, tags)
+            SELECT $1, e.external_id, e.category, e.name, e.latitude, e.longitude, e.tags
+            FROM UNNEST($2::varchar[], $3::varchar[], $4::varchar[], $5::float8[], $6::float8[], $7::jsonb[])
+              AS e(external_id, category, name, latitude, longitude, tags)
+            ON CONFLICT (source, external_id) DO UPDATE SET
+              category = EXCLUDED.category,
+              name = EXCLUDED.name,
+              latitude = EXCLUDED.latitude,
+              longitude = EXCLUDED.longitude,
+              tags = EXCLUDED.tags,
+              updated_at = NOW()
+            RETURNING (xmax = 0) AS inserted
+          `, [
+            source,
+            batch.map(poi => poi.externalId),
+            batch.map(poi => poi.category),
+            batch.map(poi => poi.name),
+            batch.map(poi => poi.latitude),
+            batch.map(poi => poi.longitude),
+            batch.map(poi => JSON.stringify(poi.tags))
+          ]);
+
+          const batchInserted = result.rows.filter(row => row.inserted).length;
+          inserted += batchInserted;
+          updated += result.rows.length - batchInserted;
+        }
+
+        await client.query('COMMIT');
+        return formatResponse({ inserted, updated });
       } catch (error: any) {
-        logger.error('Tags getAll error:', error);
+        await client.query('ROLLBACK');
+        logger.error('Points of interest upsert error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getActive: async () => {
+    /**
+     * Point counts per dataset and category
+     */
+    getStats: async () => {
       const client = await pool.connect();
       try {
-        const query = 'SELECT * FROM tags WHERE is_active = true ORDER BY name ASC';
-        const result = await client.query(query);
+        const result = await client.query(`
+          SELECT source, category, COUNT(*)::int AS count, MAX(updated_at) AS last_imported_at
+          FROM points_of_interest
+          GROUP BY source, category
+          ORDER BY source, category
+        `);
+
         return formatResponse(result.rows);
       } catch (error: any) {
-        logger.error('Tags getActive error:', error);
+        logger.error('Points of interest getStats error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    getById: async (id: string) => {
+    /**
+     * Remove one dataset
+     */
+    deleteSource: async (source: string) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('SELECT * FROM tags WHERE id = $1', [id]);
-        
-        if (result.rows.length === 0) {
-          return formatResponse(null, { message: 'Tag not found' });
-        }
-        
-        return formatResponse(result.rows[0]);
+        const result = await client.query('DELETE FROM points_of_interest WHERE source = $1', [source]);
+        return formatResponse({ deleted: result.rowCount || 0 });
       } catch (error: any) {
-        logger.error('Tags getById error:', error);
+        logger.error('Points of interest deleteSource error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    create: async (tagData: {
-      name: string;
-      color?: string;
-      backgroundColor?: string;
-      description?: string;
-      isActive?: boolean;
-    }) => {
+    /**
+     * Points within radiusMeters of each property: the nearest perCategory of each category,
+     * with the category's total within the radius. Properties without coordinates come back
+     * with located = false.
+     */
+    getNearProperties: async (
+      propertyIds: string[],
+      options: { radiusMeters: number; categories?: PoiCategory[] | undefined; perCategory: number }
+    ) => {
       const client = await pool.connect();
       try {
-        const query = `
-          INSERT INTO tags (name, color, background_color, description, is_active)
-          VALUES ($1, $2, $3, $4, $5)
-          RETURNING *
-        `;
+        const located = await client.query(
+          'SELECT id, geo_location IS NOT NULL AS located FROM properties WHERE id = ANY($1::uuid[])',
+          [propertyIds]
+        );
 
-        const values = [
-          tagData.name,
-          tagData.color || '#000000',
-          tagData.backgroundColor || '#f0f9ff',
-          tagData.description || null,
-          tagData.isActive !== undefined ? tagData.isActive : true
-        ];
+        const result = await client.query(`
+          SELECT * FROM (
+            SELECT p.id AS property_id, poi.id, poi.category, poi.name, poi.latitude, poi.longitude,
+              ST_Distance(p.geo_location, poi.geo_location) AS distance_m,
+              ROW_NUMBER() OVER (PARTITION BY p.id, poi.category ORDER BY ST_Distance(p.geo_location, poi.geo_location)) AS category_rank,
+              COUNT(*) OVER (PARTITION BY p.id, poi.category)::int AS category_total
+            FROM properties p
+            JOIN points_of_interest poi ON ST_DWithin(p.geo_location, poi.geo_location, $2)
+            WHERE p.id = ANY($1::uuid[])
+              AND ($3::varchar[] IS NULL OR poi.category = ANY($3::varchar[]))
+          ) ranked
+          WHERE category_rank <= $4
+          ORDER BY property_id, distance_m
+        `, [propertyIds, options.radiusMeters, options.categories ?? null, options.perCategory]);
 
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+        return formatResponse({ properties: located.rows, pois: result.rows });
       } catch (error: any) {
-        logger.error('Tags create error:', error);
-        if (error.code === '23505') {
-          return formatResponse(null, { message: 'Tag name already exists' });
-        }
+        logger.error('Points of interest getNearProperties error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
-    },
+    }
+  },
 
-    update: async (id: string, tagData: {
-      name?: string;
-      color?: string;
-      backgroundColor?: string;
-      description?: string;
-      isActive?: boolean;
-    }) => {
+  /**
+   * Cached generate responses
+   */
+  llmResponseCache: {
+    /**
+     * The cached response for a key, if it has not expired; counts the hit
+     */
+    get: async (cacheKey: string) => {
       const client = await pool.connect();
       try {
-        // Check if tag exists first
-        const existsResult = await client.query('SELECT id FROM tags WHERE id = $1', [id]);
-        if (existsResult.rows.length === 0) {
-          return formatResponse(null, { message: 'Tag not found' });
-        }
-
-        // Build dynamic update query
-        const setClause: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
-
-        Object.entries(tagData).forEach(([key, value]) => {
-          if (value !== undefined) {
-            // Convert camelCase to snake_case for database columns
-            const dbKey = key === 'backgroundColor' ? 'background_color' : 
-                         key === 'isActive' ? 'is_active' : key;
-            setClause.push(`${dbKey} = $${paramIndex}`);
-            values.push(value);
-            paramIndex++;
-          }
-        });
-
-        setClause.push(`updated_at = NOW()`);
-        values.push(id);
-
-        const query = `
-          UPDATE tags 
-          SET ${setClause.join(', ')}
-          WHERE id = $${paramIndex}
-          RETURNING *
-        `;
-
-        const result = await client.query(query, values);
-        return formatResponse(result.rows[0]);
+        const result = await client.query(`
+          UPDATE llm_response_cache
+          SET hits = hits + 1
+          WHERE cache_key = $1 AND expires_at > NOW()
+          RETURNING response
+        `, [cacheKey]);
+        return formatResponse(result.rows[0]?.response ?? null);
       } catch (error: any) {
-        logger.error('Tags update error:', error);
-        if (error.code === '23505') {
-          return formatResponse(null, { message: 'Tag name already exists' });
-        }
+        logger.error('LLM response cache get error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
       }
     },
 
-    delete: async (id: string) => {
+    /**
+     * Store a response, replacing any earlier one for the key; expired entries are cleared on the way
+     */
+    set: async (cacheKey: string, useCase: string, model: string, response: any, ttlSeconds: number) => {
       const client = await pool.connect();
       try {
-        const result = await client.query('DELETE FROM tags WHERE id = $1', [id]);
-        return formatResponse((result.rowCount ?? 0) > 0);
+        await client.query('DELETE FROM llm_response_cache WHERE expires_at <= NOW()');
+        await client.query(`
+          INSERT INTO llm_response_cache (cache_key, use_case, model, response, expires_at)
+          VALUES ($1, $2, $3, $4, NOW() + $5::int * INTERVAL '1 second')
+          ON CONFLICT (cache_key) DO UPDATE
+          SET response = EXCLUDED.response, hits = 0, created_at = NOW(), expires_at = EXCLUDED.expires_at
+        `, [cacheKey, useCase, model, JSON.stringify(response), ttlSeconds]);
+        return formatResponse(true);
       } catch (error: any) {
-        logger.error('Tags delete error:', error);
+        logger.error('LLM response cache set error:', error);
         return formatResponse(null, { message: error.message });
       } finally {
         client.release();
@@ -1341,48 +5774,132 @@ export const DatabaseService = {
 };
 
 // Storage service functions for Cloud Storage compatibility
+/**
+ * Where uploaded files live. "gcs" is Google Cloud Storage; "local" keeps each bucket as a
+ * directory under STORAGE_LOCAL_DIR, served by the API at /uploads (see server.ts)
+ */
+interface StorageDriver {
+  upload: (bucketName: string, fileName: string, fileBuffer: Buffer, options: any) => Promise<void>;
+  // Streams a file from local disk (large uploads are never held in memory)
+  uploadFromPath: (bucketName: string, fileName: string, sourcePath: string, options: any) => Promise<void>;
+  getPublicUrl: (bucketName: string, fileName: string) => string;
+  delete: (bucketName: string, fileName: string) => Promise<void>;
+  deletePrefix: (bucketName: string, prefix: string) => Promise<void>;
+}
+
+const gcsStorageDriver: StorageDriver = {
+  upload: (bucketName, fileName, fileBuffer, options) => new Promise((resolve, reject) => {
+    const stream = storage.bucket(bucketName).file(fileName).createWriteStream({
+      metadata: {
+        contentType: options.contentType || 'application/octet-stream',
+        cacheControl: options.cacheControl || 'public, max-age=31536000'
+      },
+      public: options.public || false
+    });
+
+    stream.on('error', reject);
+    stream.on('finish', () => resolve());
+    stream.end(fileBuffer);
+  }),
+
+  uploadFromPath: async (bucketName, fileName, sourcePath, options) => {
+    await storage.bucket(bucketName).upload(sourcePath, {
+      destination: fileName,
+      metadata: {
+        contentType: options.contentType || 'application/octet-stream',
+        cacheControl: options.cacheControl || 'public, max-age=31536000'
+      },
+      public: options.public || false
+    });
+  },
+
+  getPublicUrl: (bucketName, fileName) => `https://storage.googleapis.com/${bucketName}/${fileName}`,
+
+  delete: async (bucketName, fileName) => {
+    await storage.bucket(bucketName).file(fileName).delete();
+  },
+
+  deletePrefix: async (bucketName, prefix) => {
+    await storage.bucket(bucketName).deleteFiles({ prefix: `${prefix.replace(/\/+$/, '')}/` });
+  }
+};
+
+const LOCAL_STORAGE_DIR = path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads');
+
+/**
+ * Absolute path of a locally stored object, refusing names that escape the bucket directory
+ */
+const resolveLocalPath = (bucketName: string, fileName: string) => {
+  const bucketDir = path.join(LOCAL_STORAGE_DIR, bucketName);
+  const filePath = path.resolve(bucketDir, fileName);
+  if (!filePath.startsWith(`${bucketDir}${path.sep}`)) {
+    throw new Error(`Invalid storage path: ${fileName}`);
+  }
+  return filePath;
+};
+
+const localStorageDriver: StorageDriver = {
+  upload: async (bucketName, fileName, fileBuffer) => {
+    const filePath = resolveLocalPath(bucketName, fileName);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, fileBuffer);
+  },
+
+  uploadFromPath: async (bucketName, fileName, sourcePath) => {
+    const filePath = resolveLocalPath(bucketName, fileName);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await copyFile(sourcePath, filePath);
+  },
+
+  getPublicUrl: (bucketName, fileName) => {
+    const baseUrl = process.env.STORAGE_PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || '3001'}/uploads`;
+    return `${baseUrl.replace(/\/+$/, '')}/${bucketName}/${fileName}`;
+  },
+
+  delete: async (bucketName, fileName) => {
+    await rm(resolveLocalPath(bucketName, fileName));
+  },
+
+  deletePrefix: async (bucketName, prefix) => {
+    await rm(resolveLocalPath(bucketName, prefix), { recursive: true, force: true });
+  }
+};
+
+const storageDriver: StorageDriver = process.env.STORAGE_DRIVER === 'local' ? localStorageDriver : gcsStorageDriver;
+
 export const StorageService = {
   uploadFile: async (bucketName: string, fileName: string, fileBuffer: Buffer, options: any = {}) => {
     try {
-      const bucket = storage.bucket(bucketName);
-      const file = bucket.file(fileName);
-      
-      const stream = file.createWriteStream({
-        metadata: {
-          contentType: options.contentType || 'application/octet-stream',
-          cacheControl: options.cacheControl || 'public, max-age=31536000'
-        },
-        public: options.public || false
-      });
-
-      return new Promise((resolve, reject) => {
-        stream.on('error', (error) => {
-          logger.error('Storage upload error:', error);
-          reject(error);
-        });
-
-        stream.on('finish', () => {
-          const publicUrl = `https://storage.googleapis.com/${bucketName}/${fileName}`;
-          logger.info('File uploaded successfully', { fileName, bucketName });
-          resolve(formatResponse({ publicUrl }));
-        });
-
-        stream.end(fileBuffer);
-      });
+      await storageDriver.upload(bucketName, fileName, fileBuffer, options);
+      logger.info('File uploaded successfully', { fileName, bucketName });
+      return formatResponse({ publicUrl: storageDriver.getPublicUrl(bucketName, fileName) });
     } catch (error: any) {
       logger.error('Storage uploadFile error:', error);
       return formatResponse(null, { message: error.message });
     }
   },
 
+  /**
+   * Store a file that is on local disk (e.g. a spooled upload) without reading it into memory
+   */
+  uploadLocalFile: async (bucketName: string, fileName: string, sourcePath: string, options: any = {}) => {
+    try {
+      await storageDriver.uploadFromPath(bucketName, fileName, sourcePath, options);
+      logger.info('File uploaded successfully', { fileName, bucketName });
+      return formatResponse({ publicUrl: storageDriver.getPublicUrl(bucketName, fileName) });
+    } catch (error: any) {
+      logger.error('Storage uploadLocalFile error:', error);
+      return formatResponse(null, { message: error.message });
+    }
+  },
+
   getPublicUrl: (bucketName: string, fileName: string) => {
-    return `https://storage.googleapis.com/${bucketName}/${fileName}`;
+    return storageDriver.getPublicUrl(bucketName, fileName);
   },
 
   deleteFile: async (bucketName: string, fileName: string) => {
     try {
-      const bucket = storage.bucket(bucketName);
-      await bucket.file(fileName).delete();
+      await storageDriver.delete(bucketName, fileName);
       
       logger.info('File deleted successfully', { fileName, bucketName });
       return formatResponse(true);
@@ -1390,6 +5907,21 @@ export const StorageService = {
       logger.error('Storage deleteFile error:', error);
       return formatResponse(null, { message: error.message });
     }
+  },
+
+  /**
+   * Delete every file under a folder (e.g. an upload and all of its generated variants)
+   */
+  deleteFolder: async (bucketName: string, prefix: string) => {
+    try {
+      await storageDriver.deletePrefix(bucketName, prefix);
+
+      logger.info('Folder deleted successfully', { prefix, bucketName });
+      return formatResponse(true);
+    } catch (error: any) {
+      logger.error('Storage deleteFolder error:', error);
+      return formatResponse(null, { message: error.message });
+    }
   }
 };
 
@@ -0,0 +1,129 @@
+/**
+ * Comparison Service
+ *
+ * Saves property comparisons with their criterion weights and preferences behind a share
+ * link, and scores them with the same engine the comparison view runs in the browser.
+ */
+
+import crypto from 'crypto';
+import { DatabaseService } from './cloudSqlService';
+import {
+  normalizeWeights,
+  scoreProperties,
+  ScorableProperty,
+  ScoringPreferences,
+  ScoringWeights
+} from '../shared/propertyScoring';
+
+export interface ComparisonInput {
+  title?: string | null | undefined;
+  propertyIds: string[];
+  weights?: Partial<ScoringWeights> | undefined;
+  preferences?: ScoringPreferences | undefined;
+}
+
+const toFinite = (value: unknown) => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+// Price and area of 0 mean "not listed"
+const toPositive = (value: unknown) => {
+  const number = toFinite(value);
+  return number !== null && number > 0 ? number : null;
+};
+
+/**
+ * The properties columns scoring reads
+ */
+export interface ComparedPropertyRow {
+  id: string;
+  price?: unknown;
+  area_sqft?: unknown;
+  amenities?: unknown;
+  features?: unknown;
+  coordinates?: { lat?: unknown; lng?: unknown } | null;
+  availability_status?: string | null;
+  available_from?: string | null;
+}
+
+/**
+ * A properties row in the shape the scoring engine reads. Features are stored either as
+ * flags ({ "wifi": true }) or as a list of names
+ */
+export const toScorableProperty = (row: ComparedPropertyRow): ScorableProperty => {
+  const features: Record<string, boolean> = {};
+  if (Array.isArray(row.features)) {
+    row.features.forEach((feature: unknown) => {
+      if (typeof feature === 'string') features[feature] = true;
+    });
+  } else if (row.features && typeof row.features === 'object') {
+    Object.entries(row.features).forEach(([feature, enabled]) => {
+      features[feature] = enabled === true;
+    });
+  }
+
+  const lat = toFinite(row.coordinates?.lat);
+  const lng = toFinite(row.coordinates?.lng);
+  const status = row.availability_status || 'available';
+
+  return {
+    id: row.id,
+    price: toPositive(row.price),
+    areaSqft: toPositive(row.area_sqft),
+    amenities: Array.isArray(row.amenities) ? row.amenities.filter((item: unknown) => typeof item === 'string') : [],
+    features,
+    coordinates: lat !== null && lng !== null ? { lat, lng } : null,
+    available: status === 'available',
+    availableFrom: row.available_from || null
+  };
+};
+
+export async function createComparison(input: ComparisonInput, userId: string | null) {
+  return DatabaseService.comparisons.create({
+    shareId: crypto.randomBytes(9).toString('base64url'),
+    userId,
+    title: input.title || null,
+    propertyIds: input.propertyIds,
+    weights: normalizeWeights(input.weights),
+    preferences: (input.preferences || {}) as Record<string, unknown>
+  });
+}
+
+/**
+ * A shared comparison with its current property rows, scored now with the saved weights
+ */
+export async function getSharedComparison(shareId: string) {
+  const comparison = await DatabaseService.comparisons.getByShareId(shareId);
+  if (comparison.error) {
+    return { data: null, error: comparison.error };
+  }
+
+  const properties = await DatabaseService.properties.getByIds(comparison.data.property_ids);
+  if (properties.error) {
+    return { data: null, error: properties.error };
+  }
+
+  const propertyRows: ComparedPropertyRow[] = properties.data;
+  const scores = scoreProperties(propertyRows.map(toScorableProperty), {
+    weights: normalizeWeights(comparison.data.weights),
+    preferences: comparison.data.preferences
+  });
+
+  return {
+    data: {
+      comparison: comparison.data,
+      properties: propertyRows,
+      scores
+    },
+    error: null
+  };
+}
+
+export const ComparisonService = {
+  createComparison,
+  getSharedComparison,
+  toScorableProperty
+};
+
+export default ComparisonService;
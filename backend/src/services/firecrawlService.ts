@@ -6,8 +6,9 @@
  * Key Architecture:
  * - We build search URLs using UrlBuilderService (our custom logic)
  * - Firecrawl scrapes those URLs using their /v2/scrape or /v2/crawl endpoints
- * - We use Firecrawl's JSON extraction format for structured property data
- * - We transform the extracted data to match our Property schema
+ * - We use Firecrawl's JSON extraction format for structured property data, or the portal
+ *   adapter's markdown parser when a page has no JSON
+ * - The portal's source adapter normalises the data to match our Property schema
  * 
  * Note: Firecrawl does NOT have built-in search functionality for specific sites.
  * We construct the search URLs, Firecrawl scrapes them.
@@ -20,16 +21,19 @@ import {
   ScrapedPropertyData, 
   SearchParameters, 
   FirecrawlScrapeConfig, 
-  FirecrawlCrawlConfig, 
-  PropertyExtractionSchema 
+  FirecrawlCrawlConfig
 } from '../types/scraper';
 import { UrlBuilderService } from './urlBuilderService';
+import { SourceAdapter, adapterForUrl, getSourceAdapter } from './sourceAdapters';
 import { getBackendConfig } from '../config/environment';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('FirecrawlService');
 const config = getBackendConfig();
 
+// Pages finished so far out of the pages a crawl is expected to cover
+export type CrawlProgressCallback = (completed: number, total: number) => Promise<void> | void;
+
 // Singleton Firecrawl client instance
 let firecrawlClient: FirecrawlApp | null = null;
 
@@ -51,72 +55,6 @@ function getFirecrawlClient(): FirecrawlApp {
   return firecrawlClient;
 }
 
-/**
- * JSON extraction schema for property data
- * This schema is used in Firecrawl's JSON format: { type: "json", prompt, schema }
- */
-const propertyExtractionSchema: PropertyExtractionSchema = {
-  title: {
-    type: 'string',
-    description: 'Property listing title'
-  },
-  description: {
-    type: 'string',
-    description: 'Detailed property description'
-  },
-  price: {
-    type: 'object',
-    properties: {
-      amount: { type: 'number' },
-      currency: { type: 'string' },
-      period: { type: 'string' } // monthly, yearly, one-time
-    }
-  },
-  location: {
-    type: 'string',
-    description: 'Property location/address'
-  },
-  size: {
-    type: 'object',
-    properties: {
-      area: { type: 'number' },
-      unit: { type: 'string' } // sqft, seats, etc.
-    }
-  },
-  amenities: {
-    type: 'array',
-    items: { type: 'string' },
-    description: 'List of available amenities'
-  },
-  features: {
-    type: 'object',
-    properties: {
-      furnished: { type: 'boolean' },
-      parking: { type: 'boolean' },
-      wifi: { type: 'boolean' },
-      ac: { type: 'boolean' },
-      security: { type: 'boolean' },
-      cafeteria: { type: 'boolean' }
-    }
-  },
-  contact: {
-    type: 'object',
-    properties: {
-      phone: { type: 'string' },
-      email: { type: 'string' }
-    }
-  },
-  images: {
-    type: 'array',
-    items: { type: 'string' },
-    description: 'Array of image URLs'
-  },
-  availability: {
-    type: 'string',
-    description: 'Availability status and date'
-  }
-};
-
 /**
  * Scrape a single property URL using Firecrawl v2 /scrape endpoint
  */
@@ -177,25 +115,28 @@ export async function scrapePropertyUrl(
 
 /**
  * Crawl multiple property pages using Firecrawl v2 /crawl endpoint
+ * onProgress hears pages completed after each status check; throwing from it stops the wait
  */
 export async function crawlPropertyPages(
   startUrl: string, 
   maxPages: number, 
-  config?: Partial<FirecrawlCrawlConfig>
+  config?: Partial<FirecrawlCrawlConfig>,
+  onProgress?: CrawlProgressCallback
 ): Promise<any> {
   try {
     logger.info('Starting property pages crawl', { startUrl, maxPages, config });
 
     const firecrawl = getFirecrawlClient();
+    const adapter = adapterForUrl(startUrl);
 
-    // Build default scrape options with JSON extraction schema
+    // Build default scrape options with the portal's JSON extraction schema
     const defaultScrapeOptions = {
       formats: [
         'markdown',
         {
           type: 'json',
-          prompt: 'Extract commercial property listing details including title, price, location, size, amenities, features, contact info, and images',
-          schema: propertyExtractionSchema
+          prompt: adapter.extractionPrompt,
+          schema: adapter.extractionSchema
         }
       ],
       actions: [
@@ -210,7 +151,7 @@ export async function crawlPropertyPages(
     // Build Firecrawl crawl request, merging any provided scrape options
     const crawlOptions: any = {
       limit: maxPages,
-      includePaths: ['.*page=[0-9]+.*', '.*p=[0-9]+.*'], // Match pagination patterns
+      includePaths: adapter.paginationPaths, // Match the portal's pagination patterns
       scrapeOptions: {
         ...defaultScrapeOptions,
         ...config?.scrapeOptions // Merge provided options, preserving JSON schema
@@ -262,6 +203,8 @@ export async function crawlPropertyPages(
         continue;
       }
 
+      await onProgress?.(jobStatus?.completed || 0, jobStatus?.total || maxPages);
+
     } while (jobStatus?.status === 'scraping' && attempts < maxAttempts);
 
     if (attempts >= maxAttempts) {
@@ -306,7 +249,8 @@ export async function crawlPropertyPages(
  */
 export async function scrapeWithSearchParams(
   searchParams: SearchParameters,
-  config?: Partial<ScraperConfig>
+  config?: Partial<ScraperConfig>,
+  onCrawlProgress?: CrawlProgressCallback
 ): Promise<ScrapeResult> {
   try {
     logger.info('Starting scrape with search parameters', { searchParams, config });
@@ -318,14 +262,15 @@ export async function scrapeWithSearchParams(
     }
 
     // Build search URL
-    const searchUrl = UrlBuilderService.buildMagicBricksSearchUrl(searchParams);
-    logger.info('Built search URL', { searchUrl, searchParams });
+    const adapter = getSourceAdapter(searchParams.portal);
+    const searchUrl = UrlBuilderService.buildSearchUrl(searchParams);
+    logger.info('Built search URL', { searchUrl, portal: adapter.id, searchParams });
 
     let firecrawlResponse;
 
     // Use crawl for multiple pages, scrape for single page
     if (config?.useCrawl && config?.maxPages && config.maxPages > 1) {
-      firecrawlResponse = await crawlPropertyPages(searchUrl, config.maxPages, config.firecrawlOptions);
+      firecrawlResponse = await crawlPropertyPages(searchUrl, config.maxPages, config.firecrawlOptions, onCrawlProgress);
     } else {
       firecrawlResponse = await scrapePropertyUrl(searchUrl, config?.firecrawlOptions);
     }
@@ -334,7 +279,8 @@ export async function scrapeWithSearchParams(
     const scrapedProperties = await transformFirecrawlData(
       firecrawlResponse,
       searchUrl,
-      searchParams
+      searchParams,
+      adapter
     );
 
     // Validate scraped properties
@@ -351,6 +297,7 @@ export async function scrapeWithSearchParams(
         scrapedAt: new Date().toISOString(),
         totalFound: validatedProperties.length,
         searchParams,
+        source: adapter.id,
         firecrawlJobId: firecrawlResponse.id || undefined
       }
     };
@@ -384,21 +331,24 @@ export async function scrapeWithSearchParams(
 }
 
 /**
- * Transform Firecrawl data to match our Property schema
+ * Transform Firecrawl data to match our Property schema, using Firecrawl's JSON extraction
+ * where a page has it and the adapter's markdown parser otherwise
  */
 export async function transformFirecrawlData(
   firecrawlResponse: any,
   sourceUrl: string,
-  searchParams?: SearchParameters
+  searchParams?: SearchParameters,
+  adapter: SourceAdapter = adapterForUrl(sourceUrl)
 ): Promise<ScrapedPropertyData[]> {
   try {
     logger.info('Transforming Firecrawl data', { 
       hasData: !!firecrawlResponse.data,
-      sourceUrl 
+      sourceUrl,
+      portal: adapter.id
     });
 
     const properties: ScrapedPropertyData[] = [];
-    const timestamp = new Date().toISOString();
+    const scrapedAt = new Date().toISOString();
 
     // Handle both single scrape and crawl responses
     const dataArray = Array.isArray(firecrawlResponse.data) 
@@ -406,103 +356,24 @@ export async function transformFirecrawlData(
       : [firecrawlResponse.data];
 
     for (const pageData of dataArray) {
-      if (!pageData?.json) {
-        logger.warn('No JSON data found in Firecrawl response', { pageData: Object.keys(pageData || {}) });
-        continue;
-      }
-
-      const jsonData = pageData.json;
+      const pageUrl = pageData?.url || pageData?.metadata?.sourceURL || pageData?.metadata?.url || sourceUrl;
 
       // Transform single property or array of properties
-      const propertyArray = Array.isArray(jsonData) ? jsonData : [jsonData];
+      const rawListings = pageData?.json
+        ? (Array.isArray(pageData.json) ? pageData.json : [pageData.json])
+        : adapter.parseMarkdown(pageData?.markdown || '', pageUrl);
 
-      for (const rawProperty of propertyArray) {
-        if (!rawProperty || typeof rawProperty !== 'object') {
-          logger.warn('Invalid property data structure', { rawProperty });
-          continue;
-        }
+      if (rawListings.length === 0) {
+        logger.warn('No listings found in Firecrawl page', { pageUrl, pageData: Object.keys(pageData || {}) });
+        continue;
+      }
 
+      for (const rawProperty of rawListings) {
         try {
-          // Build the base property data
-          const transformedProperty: ScrapedPropertyData = {
-            // Required fields
-            title: rawProperty.title || 'Untitled Property',
-            description: rawProperty.description || 'No description available',
-            location: rawProperty.location || 'Location not specified',
-
-            // Media (images and videos)
-            media: {
-              images: Array.isArray(rawProperty.images) 
-                ? rawProperty.images.filter((img: any) => typeof img === 'string' && img.startsWith('http'))
-                : [],
-              videos: [] // Videos not typically available in listings
-            },
-
-            // Availability status
-            availability: rawProperty.availability ? {
-              status: rawProperty.availability.includes('available') ? 'available' : 
-                     rawProperty.availability.includes('occupied') ? 'occupied' : 'coming-soon'
-            } : { status: 'available' },
-
-            // Scraper metadata
-            sourceUrl: pageData.url || sourceUrl,
-            scrapedAt: timestamp,
-            rawData: rawProperty // Store original data for debugging
-          };
-
-          // Add optional price information only if present
-          if (rawProperty.price) {
-            transformedProperty.price = {
-              amount: parseFloat(rawProperty.price.amount) || 0,
-              currency: rawProperty.price.currency || 'INR',
-              period: (rawProperty.price.period === 'monthly' || rawProperty.price.period === 'yearly' 
-                ? rawProperty.price.period 
-                : 'monthly') as 'monthly' | 'yearly' | 'one-time'
-            };
-          }
-
-          // Add optional size information only if present
-          if (rawProperty.size) {
-            transformedProperty.size = {
-              area: parseFloat(rawProperty.size.area) || 0,
-              unit: rawProperty.size.unit === 'sqft' || rawProperty.size.unit === 'seats' 
-                ? rawProperty.size.unit 
-                : 'sqft'
-            };
-          }
-
-          // Add amenities array only if present
-          if (Array.isArray(rawProperty.amenities) && rawProperty.amenities.length > 0) {
-            transformedProperty.amenities = rawProperty.amenities.filter((a: any) => typeof a === 'string');
-          }
-
-          // Add features object only if present
-          if (rawProperty.features) {
-            transformedProperty.features = {
-              furnished: Boolean(rawProperty.features.furnished),
-              parking: Boolean(rawProperty.features.parking),
-              wifi: Boolean(rawProperty.features.wifi),
-              ac: Boolean(rawProperty.features.ac),
-              security: Boolean(rawProperty.features.security),
-              cafeteria: Boolean(rawProperty.features.cafeteria),
-              elevator: Boolean(rawProperty.features.elevator),
-              powerBackup: Boolean(rawProperty.features.powerBackup || rawProperty.features.power_backup),
-              conferenceRoom: Boolean(rawProperty.features.conferenceRoom || rawProperty.features.conference_room)
-            };
-          }
-
-          // Add contact information only if present
-          if (rawProperty.contact && (rawProperty.contact.phone || rawProperty.contact.email || rawProperty.contact.contactPerson)) {
-            transformedProperty.contact = {
-              phone: rawProperty.contact.phone || undefined,
-              email: rawProperty.contact.email || undefined,
-              contactPerson: rawProperty.contact.contactPerson || undefined
-            };
-          }
-
-          // Add search parameters only if present
-          if (searchParams) {
-            transformedProperty.searchParams = searchParams;
+          const transformedProperty = adapter.normalise(rawProperty, { pageUrl, scrapedAt, searchParams });
+          if (!transformedProperty) {
+            logger.warn('Invalid property data structure', { rawProperty });
+            continue;
           }
 
           properties.push(transformedProperty);
@@ -609,13 +480,96 @@ export function validateScrapedProperty(property: ScrapedPropertyData): string[]
   return errors;
 }
 
+// Scraped availability as stored in properties.availability_status
+const AVAILABILITY_STATUS: Record<string, string> = {
+  available: 'available',
+  occupied: 'not-available',
+  'coming-soon': 'coming-soon'
+};
+
+export const toAvailabilityStatus = (property: ScrapedPropertyData): string =>
+  AVAILABILITY_STATUS[property.availability?.status || 'available'] || 'available';
+
+/**
+ * Map a scraped property onto a properties row for DatabaseService.properties.create,
+ * imported as a draft for review
+ */
+export function toPropertyRecord(property: ScrapedPropertyData, createdBy: string | null) {
+  const isC1Processed = property.c1Metadata?.extractedBy === 'c1';
+  const sourceAdapter = property.source || adapterForUrl(property.sourceUrl).id;
+
+  return {
+    title: property.title,
+    description: property.description,
+    location: property.location,
+    price: property.price?.amount || null,
+    currency: property.price?.currency || 'INR',
+    price_period: property.price?.period || 'monthly',
+    area_sqft: property.size?.area || null,
+    area_unit: property.size?.unit || 'sqft',
+    property_type: 'commercial', // All scraped properties are commercial
+    amenities: property.amenities || [],
+    images: property.media?.images || [],
+    features: {
+      furnished: property.features?.furnished,
+      parking: property.features?.parking,
+      wifi: property.features?.wifi,
+      ac: property.features?.ac,
+      security: property.features?.security,
+      cafeteria: property.features?.cafeteria,
+      elevator: property.features?.elevator,
+      power_backup: property.features?.powerBackup,
+      conference_room: property.features?.conferenceRoom
+    },
+    contact_info: {
+      phone: property.contact?.phone,
+      email: property.contact?.email,
+      contact_person: property.contact?.contactPerson
+    },
+    media: {
+      images: property.media?.images || [],
+      videos: property.media?.videos || []
+    },
+    availability: {
+      status: property.availability?.status || 'available',
+      available_from: property.availability?.date || null
+    },
+    availability_status: toAvailabilityStatus(property),
+    coordinates: property.coordinates || null,
+    source_url: property.sourceUrl,
+    // Portal adapter that read the listing
+    source_adapter: sourceAdapter,
+    scraped_at: property.scrapedAt || new Date().toISOString(),
+    search_params: property.searchParams || null,
+    created_by: createdBy,
+    status: 'draft', // Import as draft for review
+    tags: [
+      'imported',
+      'scraped',
+      sourceAdapter,
+      ...(isC1Processed ? ['c1-processed'] : []),
+      ...(isC1Processed && property.c1Metadata?.confidence && property.c1Metadata.confidence >= 0.8 ? ['high-confidence'] : [])
+    ],
+    // Add C1 metadata to the database record if present
+    extraction_metadata: isC1Processed && property.c1Metadata ? {
+      extractedBy: property.c1Metadata.extractedBy,
+      confidence: property.c1Metadata.confidence,
+      extractionWarnings: property.c1Metadata.extractionWarnings,
+      processedAt: property.c1Metadata.processedAt,
+      fieldsExtracted: property.c1Metadata.fieldsExtracted,
+      fieldsMissing: property.c1Metadata.fieldsMissing
+    } : null
+  };
+}
+
 // Export service object
 export const FirecrawlService = {
   scrapePropertyUrl,
   crawlPropertyPages,
   scrapeWithSearchParams,
   transformFirecrawlData,
-  validateScrapedProperty
+  validateScrapedProperty,
+  toPropertyRecord
 };
 
 export default FirecrawlService;
\ No newline at end of file
@@ -0,0 +1,110 @@
+/**
+ * Inquiry Lifecycle Service
+ *
+ * SLA targets per priority, the computed response/resolution times and breach flags that
+ * go out with every inquiry, and auto-assignment of new website inquiries to agents.
+ * The history itself (inquiry_events) is written by DatabaseService.inquiries.
+ */
+
+import { DatabaseService, type InquirySlaTarget } from './cloudSqlService';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Hours allowed until the first response and until resolution
+ */
+export const INQUIRY_SLA_TARGETS: Record<string, InquirySlaTarget> = {
+  urgent: { priority: 'urgent', firstResponseHours: 1, resolutionHours: 24 },
+  high: { priority: 'high', firstResponseHours: 4, resolutionHours: 72 },
+  medium: { priority: 'medium', firstResponseHours: 24, resolutionHours: 168 },
+  low: { priority: 'low', firstResponseHours: 48, resolutionHours: 336 }
+};
+
+const getSlaTarget = (priority?: string | null) =>
+  INQUIRY_SLA_TARGETS[priority || 'medium'] ?? INQUIRY_SLA_TARGETS.medium!;
+
+const hoursBetween = (from: Date, to: Date) => Math.round(((to.getTime() - from.getTime()) / HOUR_MS) * 10) / 10;
+
+/**
+ * Add response_time_hours, resolution_time_hours and an `sla` block to an inquiry row.
+ * A target still open past its due time counts as breached.
+ */
+export function withSla(inquiry: any, now: Date = new Date()) {
+  if (!inquiry) return inquiry;
+
+  const target = getSlaTarget(inquiry.priority);
+  const createdAt = new Date(inquiry.created_at);
+  const firstResponseAt = inquiry.first_response_at ? new Date(inquiry.first_response_at) : null;
+  const resolvedAt = inquiry.resolved_at ? new Date(inquiry.resolved_at) : null;
+
+  const firstResponseDue = new Date(createdAt.getTime() + target.firstResponseHours * HOUR_MS);
+  const resolutionDue = new Date(createdAt.getTime() + target.resolutionHours * HOUR_MS);
+
+  return {
+    ...inquiry,
+    response_time_hours: firstResponseAt ? hoursBetween(createdAt, firstResponseAt) : null,
+    resolution_time_hours: resolvedAt ? hoursBetween(createdAt, resolvedAt) : null,
+    sla: {
+      priority: target.priority,
+      first_response_target_hours: target.firstResponseHours,
+      resolution_target_hours: target.resolutionHours,
+      first_response_due_at: firstResponseDue.toISOString(),
+      resolution_due_at: resolutionDue.toISOString(),
+      first_response_breached: (firstResponseAt ?? now) > firstResponseDue,
+      resolution_breached: (resolvedAt ?? now) > resolutionDue
+    }
+  };
+}
+
+/**
+ * Hand a freshly submitted inquiry to an agent per INQUIRY_ASSIGNMENT_STRATEGY.
+ * Never throws - an inquiry that can't be assigned stays in the admin queue.
+ * Returns the assigned agent, or null.
+ */
+export async function autoAssignInquiry(inquiryId: string): Promise<{ id: string; name: string } | null> {
+  const strategy = config.INQUIRY_ASSIGNMENT_STRATEGY;
+  if (strategy === 'off') {
+    return null;
+  }
+
+  const { data, error } = await DatabaseService.inquiries.autoAssign(inquiryId, strategy);
+
+  if (error) {
+    logger.error('Inquiry auto-assignment failed', { inquiryId, strategy, error: error.message });
+    return null;
+  }
+
+  if (!data) {
+    logger.warn('Inquiry not auto-assigned - no active agent, or already assigned', { inquiryId, strategy });
+    return null;
+  }
+
+  logger.info('Inquiry auto-assigned', {
+    inquiryId,
+    strategy,
+    agentId: data.agent.id,
+    agentOpenInquiries: data.agent.open_count
+  });
+
+  return { id: data.agent.id, name: data.agent.name };
+}
+
+/**
+ * SLA metrics per priority (optionally for one agent)
+ */
+export async function getInquiryMetrics(filters: { assigned_to?: string } = {}) {
+  return DatabaseService.inquiries.getMetrics(Object.values(INQUIRY_SLA_TARGETS), filters);
+}
+
+export const InquiryLifecycleService = {
+  withSla,
+  autoAssignInquiry,
+  getInquiryMetrics
+};
+
+export default InquiryLifecycleService;
@@ -0,0 +1,231 @@
+/**
+ * LLM Usage Service
+ *
+ * Meters C1 calls: every request is logged with its tokens and cost, daily token budgets are
+ * checked before a call is made (per client, per role and overall), and generate responses are
+ * cached under their normalised prompt and context.
+ */
+
+import { Request } from 'express';
+import { createHash } from 'crypto';
+import { DatabaseService, LlmUsageOutcome } from './cloudSqlService';
+import { getClientKey } from '../middleware/rateLimiter';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+/**
+ * Daily token budgets per role: `perClient` for each user (or visitor IP), `total` for everyone
+ * with the role together. 0 means unlimited. LLM_DAILY_TOKEN_BUDGET caps all roles combined
+ */
+export const LLM_DAILY_TOKEN_BUDGETS: Record<string, { perClient: number; total: number }> = {
+  anonymous: { perClient: 20000, total: 500000 },
+  user: { perClient: 100000, total: 0 },
+  agent: { perClient: 300000, total: 0 },
+  admin: { perClient: 0, total: 0 }
+};
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface LlmCaller {
+  userId: string | null;
+  role: string;
+  // Same keys as the rate limiter: "user:<id>" or "ip:<address>"
+  clientKey: string;
+}
+
+export type LlmBudgetStatus =
+  | { allowed: true }
+  | { allowed: false; scope: 'client' | 'role' | 'global'; limit: number; used: number; resetsAt: Date };
+
+export interface LlmMeter {
+  caller: LlmCaller;
+  /** Log the request; never throws */
+  record: (outcome: LlmUsageOutcome, usage?: TokenUsage | null, usageEstimated?: boolean) => Promise<void>;
+}
+
+export const getLlmCaller = (req: Request): LlmCaller => ({
+  userId: req.user?.id ?? null,
+  role: req.user?.role || 'anonymous',
+  clientKey: getClientKey(req)
+});
+
+/**
+ * Budgets reset at midnight UTC
+ */
+export const nextBudgetReset = (now: Date = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+/**
+ * Whether the caller may make another LLM call today. If usage cannot be read the call is allowed
+ */
+export async function checkLlmBudget(caller: LlmCaller): Promise<LlmBudgetStatus> {
+  const budgets = LLM_DAILY_TOKEN_BUDGETS[caller.role] ?? LLM_DAILY_TOKEN_BUDGETS.anonymous!;
+  const limits = [
+    { scope: 'client' as const, limit: budgets.perClient },
+    { scope: 'role' as const, limit: budgets.total },
+    { scope: 'global' as const, limit: config.LLM_DAILY_TOKEN_BUDGET }
+  ].filter(({ limit }) => limit > 0);
+
+  if (limits.length === 0) {
+    return { allowed: true };
+  }
+
+  const { data: totals, error } = await DatabaseService.llmUsage.getDailyTotals(caller.clientKey, caller.role);
+  if (error) {
+    logger.warn('LLM budget check skipped', { clientKey: caller.clientKey, error: error.message });
+    return { allowed: true };
+  }
+
+  const exceeded = limits.find(({ scope, limit }) => totals[scope] >= limit);
+  if (!exceeded) {
+    return { allowed: true };
+  }
+
+  return { allowed: false, ...exceeded, used: totals[exceeded.scope], resetsAt: nextBudgetReset() };
+}
+
+// Model -> USD per million input and output tokens
+const pricing = new Map(
+  config.LLM_MODEL_PRICING.split(',')
+    .map(entry => entry.trim().split('='))
+    .filter(([model, prices]) => model && prices)
+    .map(([model, prices]) => {
+      const [input, output] = prices!.split(':').map(parseFloat);
+      return [model!.trim(), { input: input || 0, output: output ?? input ?? 0 }] as const;
+    })
+);
+
+export const estimateLlmCost = (model: string, usage: TokenUsage): number => {
+  const price = pricing.get(model) || pricing.get('*');
+  if (!price) return 0;
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+};
+
+/**
+ * Start metering one request. Latency is measured from here
+ */
+export const startLlmMeter = (req: Request, endpoint: string, useCase: string, model: string): LlmMeter =>
+  startLlmMeterFor(getLlmCaller(req), endpoint, useCase, model);
+
+/**
+ * Start metering a call made outside a request (background jobs) on behalf of `caller`
+ */
+export const startLlmMeterFor = (caller: LlmCaller, endpoint: string, useCase: string, model: string): LlmMeter => {
+  const startedAt = Date.now();
+
+  return {
+    caller,
+    record: async (outcome, usage = null, usageEstimated = false) => {
+      const tokens = usage || { prompt_tokens: 0, completion_tokens: 0 };
+      const costUsd = estimateLlmCost(model, tokens);
+
+      const { error } = await DatabaseService.llmUsage.record({
+        userId: caller.userId,
+        clientKey: caller.clientKey,
+        role: caller.role,
+        endpoint,
+        useCase,
+        model,
+        promptTokens: tokens.prompt_tokens,
+        completionTokens: tokens.completion_tokens,
+        totalTokens: tokens.prompt_tokens + tokens.completion_tokens,
+        costUsd,
+        usageEstimated,
+        outcome,
+        latencyMs: outcome === 'budget_exceeded' ? null : Date.now() - startedAt
+      });
+
+      if (error) {
+        logger.warn('Failed to record LLM usage', { endpoint, useCase, outcome, error: error.message });
+        return;
+      }
+
+      logger.debug('LLM usage', {
+        endpoint,
+        useCase,
+        model,
+        outcome,
+        clientKey: caller.clientKey,
+        tokens: tokens.prompt_tokens + tokens.completion_tokens,
+        costUsd
+      });
+    }
+  };
+};
+
+const normalizePrompt = (prompt: string) => prompt.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * JSON with object keys sorted, so equal contexts hash the same whatever their key order
+ */
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const llmCacheKey = (parts: {
+  prompt: string;
+  context?: Record<string, any> | undefined;
+  useCase: string;
+  model: string;
+  systemPrompt?: string | undefined;
+}) =>
+  createHash('sha256')
+    .update(stableStringify({ ...parts, prompt: normalizePrompt(parts.prompt), context: parts.context || {} }))
+    .digest('hex');
+
+/**
+ * A cached response, or null on a miss (or when the cache is off or unavailable)
+ */
+export async function getCachedLlmResponse(cacheKey: string): Promise<any | null> {
+  if (config.C1_CACHE_TTL_SECONDS === 0) return null;
+
+  const { data, error } = await DatabaseService.llmResponseCache.get(cacheKey);
+  if (error) {
+    logger.warn('LLM response cache unavailable', { error: error.message });
+    return null;
+  }
+  return data;
+}
+
+export async function cacheLlmResponse(cacheKey: string, useCase: string, model: string, response: any): Promise<void> {
+  if (config.C1_CACHE_TTL_SECONDS === 0) return;
+
+  const { error } = await DatabaseService.llmResponseCache.set(cacheKey, useCase, model, response, config.C1_CACHE_TTL_SECONDS);
+  if (error) {
+    logger.warn('Failed to cache LLM response', { useCase, error: error.message });
+  }
+}
+
+/**
+ * Usage over the last N days, with the budgets in force
+ */
+export async function getLlmUsageReport(days: number) {
+  const { data, error } = await DatabaseService.llmUsage.getSummary(days);
+  if (error) return { data: null, error };
+
+  return {
+    data: {
+      ...data,
+      budgets: {
+        dailyTokens: config.LLM_DAILY_TOKEN_BUDGET,
+        roles: LLM_DAILY_TOKEN_BUDGETS
+      }
+    },
+    error: null
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Mail Transport Service
+ *
+ * Pluggable delivery for outgoing email. The transport is picked by MAIL_TRANSPORT:
+ * - log:  writes each message to the logger (default, needs no infrastructure)
+ * - smtp: minimal plain SMTP relay to SMTP_HOST:SMTP_PORT, no auth or TLS - intended for
+ *         a local catcher such as MailHog or Mailpit in development
+ *
+ * Other providers can be plugged in with registerMailTransport() before the first send.
+ */
+
+import net from 'net';
+import { hostname } from 'os';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 15000;
+
+/**
+ * Bare address from a "Name <address>" mailbox
+ */
+const extractAddress = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+/**
+ * RFC 2047 encoded header value, so non-ASCII subjects (₹, names) survive
+ */
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * Full RFC 5322 message (headers + body), with CRLF line endings and SMTP dot-stuffing
+ */
+const buildRawMessage = (message: MailMessage & { from: string }) => {
+  const recipients = Array.isArray(message.to) ? message.to : [message.to];
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${recipients.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0'
+  ];
+
+  let body: string;
+  if (message.html) {
+    const boundary = `gsr-${Date.now().toString(36)}`;
+    headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+    body = [
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      message.html,
+      `--${boundary}--`
+    ].join('\r\n');
+  } else {
+    headers.push('Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 8bit');
+    body = message.text;
+  }
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`
+    .replace(/\r?\n/g, '\r\n')
+    .replace(/^\./gm, '..');
+};
+
+/**
+ * Writes messages to the logger instead of sending them
+ */
+const createLogTransport = (): MailTransport => ({
+  name: 'log',
+  send: async (message) => {
+    logger.info('Email (log transport)', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+});
+
+/**
+ * Plain SMTP conversation: EHLO, MAIL FROM, RCPT TO (each), DATA, QUIT.
+ * Any 4xx/5xx reply aborts the send.
+ */
+const createSmtpTransport = (host: string, port: number): MailTransport => ({
+  name: 'smtp',
+  send: (message) => new Promise<void>((resolve, reject) => {
+    const recipients = Array.isArray(message.to) ? message.to : [message.to];
+    const commands = [
+      `EHLO ${hostname()}`,
+      `MAIL FROM:<${extractAddress(message.from)}>`,
+      ...recipients.map(recipient => `RCPT TO:<${extractAddress(recipient)}>`),
+      'DATA',
+      `${buildRawMessage(message)}\r\n.`,
+      'QUIT'
+    ];
+
+    const socket = net.createConnection({ host, port });
+    let buffer = '';
+    let step = 0;
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      reject(error);
+    };
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => fail(new Error(`SMTP timeout talking to ${host}:${port}`)));
+    socket.on('error', fail);
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split('\r\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        // "250-..." lines continue a multi-line reply; the final line has a space after the code
+        if (!/^\d{3} /.test(line)) continue;
+
+        const code = parseInt(line.slice(0, 3), 10);
+        if (code >= 400) {
+          fail(new Error(`SMTP error after "${(commands[step - 1] ?? 'connect').split('\r\n')[0]}": ${line}`));
+          return;
+        }
+
+        if (step === commands.length) {
+          settled = true;
+          socket.end();
+          resolve();
+          return;
+        }
+
+        socket.write(`${commands[step++]}\r\n`);
+      }
+    });
+  })
+});
+
+const transportFactories: Record<string, () => MailTransport> = {
+  log: createLogTransport,
+  smtp: () => createSmtpTransport(config.SMTP_HOST, config.SMTP_PORT)
+};
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Register a transport (e.g. a provider SDK) under a MAIL_TRANSPORT name
+ */
+export function registerMailTransport(name: string, factory: () => MailTransport): void {
+  transportFactories[name] = factory;
+  if (activeTransport?.name === name) {
+    activeTransport = null;
+  }
+}
+
+/**
+ * Transport selected by MAIL_TRANSPORT (created once)
+ */
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    const factory = transportFactories[config.MAIL_TRANSPORT];
+    if (!factory) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${config.MAIL_TRANSPORT}". Available: ${Object.keys(transportFactories).join(', ')}`);
+    }
+    activeTransport = factory();
+    logger.info('Mail transport initialized', { transport: activeTransport.name });
+  }
+
+  return activeTransport;
+}
+
+/**
+ * Send an email from MAIL_FROM through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: config.MAIL_FROM });
+}
+
+export const MailTransportService = {
+  sendMail,
+  getMailTransport,
+  registerMailTransport
+};
+
+export default MailTransportService;
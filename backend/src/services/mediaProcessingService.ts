@@ -0,0 +1,335 @@
+/**
+ * Media Processing Service
+ *
+ * Turns an uploaded image, video or document into the files the site serves:
+ * - images: EXIF orientation is applied and then all metadata (GPS location included) is
+ *   dropped; WebP and AVIF variants are written at RESPONSIVE_WIDTHS with a JPEG/PNG fallback
+ * - videos: container metadata (e.g. the recording location) is stripped, the duration read
+ *   and a poster frame extracted with ffmpeg/ffprobe; the poster gets the image treatment.
+ *   A video whose metadata cannot be stripped (no ffmpeg, unreadable file) is rejected.
+ * - documents (PDF brochures and the like) are stored as uploaded
+ *
+ * Uploads arrive as files on local disk; videos and documents are streamed to storage from there.
+ *
+ * Every file of one upload is stored under `<folder>/<uploadId>/`, which is the upload's
+ * path - deleting it removes the upload together with its variants.
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { getBackendConfig } from '../config/environment';
+import { StorageService } from './cloudSqlService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+export type MediaKind = 'image' | 'video' | 'document';
+
+export interface ImageVariant {
+  format: 'webp' | 'avif';
+  width: number;
+  url: string;
+  size: number;
+}
+
+// Ready for <source srcset> - "url 320w, url 640w, ..."
+export interface MediaSrcset {
+  webp: string;
+  avif: string;
+}
+
+export interface ProcessedMedia {
+  type: MediaKind;
+  // Image: largest JPEG/PNG fallback. Video: the (metadata-stripped) video itself. Document: the file
+  url: string;
+  // Storage folder holding every file of this upload
+  path: string;
+  filename: string;
+  size: number;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  // Image: smallest WebP variant. Video: poster frame
+  thumbnailUrl?: string;
+  // Videos only, in whole seconds
+  duration?: number;
+  // For videos these describe the poster
+  variants: ImageVariant[];
+  srcset?: MediaSrcset;
+}
+
+// An upload spooled to local disk (multer disk storage)
+export interface UploadedFile {
+  path: string;
+  mimetype: string;
+  originalname: string;
+  size: number;
+}
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
+export const SUPPORTED_VIDEO_TYPES = ['video/mp4', 'video/mpeg', 'video/quicktime', 'video/webm'];
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+export const SUPPORTED_DOCUMENT_TYPES = ['application/pdf'];
+export const MAX_VIDEO_SIZE = 200 * 1024 * 1024; // 200MB
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024; // 20MB
+
+const RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920];
+const WEBP_QUALITY = 80;
+const AVIF_QUALITY = 50;
+const FALLBACK_QUALITY = 82;
+const FFMPEG_TIMEOUT_MS = 2 * 60 * 1000;
+
+const VIDEO_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/mpeg': 'mpg',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm'
+};
+
+/**
+ * 'image', 'video', 'document' or null for an unsupported MIME type
+ */
+export function getMediaKind(mimeType: string): MediaKind | null {
+  if (SUPPORTED_IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (SUPPORTED_VIDEO_TYPES.includes(mimeType)) return 'video';
+  if (SUPPORTED_DOCUMENT_TYPES.includes(mimeType)) return 'document';
+  return null;
+}
+
+const sanitizeFilename = (name: string) => name.replace(/[^a-zA-Z0-9.-]/g, '_').slice(-100) || 'file';
+
+/**
+ * Store one object publicly and return its URL
+ */
+const storeObject = async (fileName: string, buffer: Buffer, contentType: string): Promise<string> => {
+  const { data, error } = await StorageService.uploadFile(config.STORAGE_BUCKET, fileName, buffer, {
+    contentType,
+    public: true
+  });
+  if (error) {
+    throw new Error(`Failed to store ${fileName}: ${error.message}`);
+  }
+  return data.publicUrl;
+};
+
+/**
+ * Store a file from local disk publicly and return its URL
+ */
+const storeLocalFile = async (fileName: string, sourcePath: string, contentType: string): Promise<string> => {
+  const { data, error } = await StorageService.uploadLocalFile(config.STORAGE_BUCKET, fileName, sourcePath, {
+    contentType,
+    public: true
+  });
+  if (error) {
+    throw new Error(`Failed to store ${fileName}: ${error.message}`);
+  }
+  return data.publicUrl;
+};
+
+/**
+ * Error for a video that was not stored because its metadata could not be stripped.
+ * VIDEO_PROCESSING_UNAVAILABLE: ffmpeg is missing. INVALID_VIDEO: ffmpeg could not read the file.
+ */
+export type VideoProcessingError = Error & { code: 'VIDEO_PROCESSING_UNAVAILABLE' | 'INVALID_VIDEO' };
+
+const videoProcessingError = (toolError: any): VideoProcessingError =>
+  toolError?.code === 'ENOENT'
+    ? Object.assign(new Error('Video metadata cannot be stripped: ffmpeg is not available'), { code: 'VIDEO_PROCESSING_UNAVAILABLE' as const })
+    : Object.assign(new Error('Video could not be processed - the file may be damaged or in an unsupported format'), { code: 'INVALID_VIDEO' as const });
+
+/**
+ * Run ffmpeg/ffprobe and resolve with its stdout
+ */
+const runMediaTool = (command: string, args: string[]) => new Promise<Buffer>((resolve, reject) => {
+  execFile(command, args, { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024, timeout: FFMPEG_TIMEOUT_MS }, (error, stdout) => {
+    if (error) {
+      reject(error);
+    } else {
+      resolve(stdout);
+    }
+  });
+});
+
+/**
+ * Write the WebP/AVIF variants and the fallback of an image under `base`.
+ * The source is auto-rotated first; sharp never copies metadata to its output.
+ */
+const storeImageVariants = async (source: Buffer, base: string) => {
+  const { data: oriented, info } = await sharp(source).rotate().toBuffer({ resolveWithObject: true });
+  const largest = Math.min(info.width, RESPONSIVE_WIDTHS[RESPONSIVE_WIDTHS.length - 1]!);
+  const widths = [...RESPONSIVE_WIDTHS.filter(width => width < largest), largest];
+
+  // One variant at a time - AVIF encoding is memory hungry
+  const variants: ImageVariant[] = [];
+  for (const width of widths) {
+    const resized = sharp(oriented).resize({ width, withoutEnlargement: true });
+
+    const webp = await resized.clone().webp({ quality: WEBP_QUALITY }).toBuffer();
+    variants.push({ format: 'webp', width, size: webp.length, url: await storeObject(`${base}/${width}.webp`, webp, 'image/webp') });
+
+    const avif = await resized.clone().avif({ quality: AVIF_QUALITY }).toBuffer();
+    variants.push({ format: 'avif', width, size: avif.length, url: await storeObject(`${base}/${width}.avif`, avif, 'image/avif') });
+  }
+
+  // PNG keeps transparency; everything else falls back to JPEG
+  const hasAlpha = info.channels === 4;
+  const fallbackImage = sharp(oriented).resize({ width: largest, withoutEnlargement: true });
+  const fallback = hasAlpha
+    ? await fallbackImage.png().toBuffer()
+    : await fallbackImage.jpeg({ quality: FALLBACK_QUALITY, mozjpeg: true }).toBuffer();
+  const fallbackName = `${base}/${largest}.${hasAlpha ? 'png' : 'jpg'}`;
+  const url = await storeObject(fallbackName, fallback, hasAlpha ? 'image/png' : 'image/jpeg');
+
+  const toSrcset = (format: ImageVariant['format']) => variants
+    .filter(variant => variant.format === format)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(', ');
+
+  return {
+    url,
+    size: fallback.length,
+    mimeType: hasAlpha ? 'image/png' : 'image/jpeg',
+    width: largest,
+    height: Math.round(info.height * (largest / info.width)),
+    thumbnailUrl: variants.find(variant => variant.format === 'webp')?.url || url,
+    variants,
+    srcset: { webp: toSrcset('webp'), avif: toSrcset('avif') }
+  };
+};
+
+/**
+ * Process an uploaded image. Animated GIFs are stored unchanged (GIF carries no EXIF).
+ */
+export async function processImage(file: UploadedFile, folder: string): Promise<ProcessedMedia> {
+  const uploadPath = `${folder}/${uuidv4()}`;
+  const filename = sanitizeFilename(file.originalname);
+
+  if (file.mimetype === 'image/gif') {
+    const url = await storeLocalFile(`${uploadPath}/${filename}`, file.path, 'image/gif');
+    return { type: 'image', url, path: uploadPath, filename, size: file.size, mimeType: file.mimetype, thumbnailUrl: url, variants: [] };
+  }
+
+  // Images are capped at MAX_IMAGE_SIZE, so sharp works on them in memory
+  const image = await storeImageVariants(await readFile(file.path), uploadPath);
+  return { type: 'image', path: uploadPath, filename, ...image };
+}
+
+/**
+ * Process an uploaded video: strip metadata, read its duration and extract a poster frame.
+ * Throws a VideoProcessingError, storing nothing, when the metadata cannot be stripped.
+ */
+export async function processVideo(file: UploadedFile, folder: string): Promise<ProcessedMedia> {
+  const uploadPath = `${folder}/${uuidv4()}`;
+  const filename = sanitizeFilename(file.originalname);
+  const extension = VIDEO_EXTENSIONS[file.mimetype] || 'mp4';
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'gsr-media-'));
+  try {
+    const inputPath = file.path;
+    const strippedPath = path.join(workDir, `stripped.${extension}`);
+
+    try {
+      await runMediaTool(config.FFMPEG_PATH, [
+        '-v', 'error', '-i', inputPath,
+        '-map', '0', '-map_metadata', '-1', '-c', 'copy',
+        ...(extension === 'mp4' || extension === 'mov' ? ['-movflags', '+faststart'] : []),
+        strippedPath
+      ]);
+    } catch (error: any) {
+      logger.error('Video rejected: metadata not stripped', { filename, error: error.message });
+      throw videoProcessingError(error);
+    }
+
+    let duration: number | undefined;
+    try {
+      const output = await runMediaTool(config.FFPROBE_PATH, [
+        '-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', inputPath
+      ]);
+      const seconds = parseFloat(output.toString().trim());
+      if (Number.isFinite(seconds)) duration = Math.round(seconds);
+    } catch (error: any) {
+      logger.warn('Video duration not read (is ffprobe installed?)', { filename, error: error.message });
+    }
+
+    let poster: Awaited<ReturnType<typeof storeImageVariants>> | null = null;
+    try {
+      // A second in, unless the clip is shorter than that
+      const seekSeconds = duration !== undefined ? Math.min(1, duration / 2) : 0;
+      const frame = await runMediaTool(config.FFMPEG_PATH, [
+        '-v', 'error', '-ss', String(seekSeconds), '-i', inputPath,
+        '-frames:v', '1', '-f', 'image2', '-c:v', 'png', 'pipe:1'
+      ]);
+      if (frame.length > 0) {
+        poster = await storeImageVariants(frame, `${uploadPath}/poster`);
+      }
+    } catch (error: any) {
+      logger.warn('Video poster not extracted (is ffmpeg installed?)', { filename, error: error.message });
+    }
+
+    const url = await storeLocalFile(`${uploadPath}/video.${extension}`, strippedPath, file.mimetype);
+    const { size } = await stat(strippedPath);
+
+    return {
+      type: 'video',
+      url,
+      path: uploadPath,
+      filename,
+      size,
+      mimeType: file.mimetype,
+      ...(duration !== undefined ? { duration } : {}),
+      ...(poster ? { thumbnailUrl: poster.url, width: poster.width, height: poster.height, srcset: poster.srcset } : {}),
+      variants: poster?.variants || []
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Store an uploaded document as it is
+ */
+export async function processDocument(file: UploadedFile, folder: string): Promise<ProcessedMedia> {
+  const uploadPath = `${folder}/${uuidv4()}`;
+  const filename = sanitizeFilename(file.originalname);
+  const url = await storeLocalFile(`${uploadPath}/${filename}`, file.path, file.mimetype);
+  return { type: 'document', url, path: uploadPath, filename, size: file.size, mimeType: file.mimetype, variants: [] };
+}
+
+/**
+ * Process an uploaded file according to its MIME type
+ */
+export async function processUpload(file: UploadedFile, folder: string): Promise<ProcessedMedia> {
+  switch (getMediaKind(file.mimetype)) {
+    case 'image':
+      return processImage(file, folder);
+    case 'video':
+      return processVideo(file, folder);
+    case 'document':
+      return processDocument(file, folder);
+    default:
+      throw new Error(`Unsupported file type: ${file.mimetype}`);
+  }
+}
+
+/**
+ * Delete an upload (its path as returned by processUpload) with all of its variants
+ */
+export async function deleteUpload(uploadPath: string) {
+  return StorageService.deleteFolder(config.STORAGE_BUCKET, uploadPath);
+}
+
+export const MediaProcessingService = {
+  getMediaKind,
+  processImage,
+  processVideo,
+  processDocument,
+  processUpload,
+  deleteUpload
+};
+
+export default MediaProcessingService;
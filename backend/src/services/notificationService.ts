@@ -0,0 +1,434 @@
+/**
+ * Notification Service
+ *
+ * Tells admins and agents about things that need them: new inquiries, inquiry assignments,
+ * testimonials waiting for review and finished scraper imports.
+ *
+ * Each recipient gets the event on the channels they have switched on:
+ *   - in_app   a row in their notifications inbox (the admin header bell)
+ *   - email    through the configured mail transport
+ *   - webhook  a JSON POST to their webhook URL (Slack/Teams compatible "text" field,
+ *              HMAC-SHA256 signed when a secret is set)
+ *
+ * Every message is written to notification_deliveries. Email and webhook deliveries are
+ * sent by a background worker that retries failures with backoff.
+ */
+
+import { createHmac } from 'crypto';
+import { DatabaseService } from './cloudSqlService';
+import { sendMail } from './mailTransport';
+import {
+  NOTIFICATION_EVENTS,
+  renderNotification,
+  renderNotificationEmail,
+  type NotificationEvent
+} from './notificationTemplates';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+import { checkWebhookUrl } from '../utils/webhookUrl';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+export type NotificationChannel = 'in_app' | 'email' | 'webhook';
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+export interface NotificationPreferences {
+  events: Record<NotificationEvent, ChannelPreferences>;
+  webhook_url: string | null;
+  webhook_secret_set: boolean;
+}
+
+export interface NotificationRecipient {
+  id: string;
+  email?: string | null;
+  name?: string | null;
+}
+
+// Until a user chooses: in-app and email on, webhook off (there is no URL yet)
+const DEFAULT_CHANNELS: ChannelPreferences = { in_app: true, email: true, webhook: false };
+
+// Minutes to wait before retry n (the last value repeats)
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60];
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Stored preferences merged over the defaults
+ */
+const resolvePreferences = (row: any): NotificationPreferences => {
+  const stored = row?.channels || {};
+  const events = {} as Record<NotificationEvent, ChannelPreferences>;
+  NOTIFICATION_EVENTS.forEach(event => {
+    events[event] = { ...DEFAULT_CHANNELS, ...(stored[event] || {}) };
+  });
+
+  return {
+    events,
+    webhook_url: row?.webhook_url || null,
+    webhook_secret_set: !!row?.webhook_secret
+  };
+};
+
+/**
+ * Send `event` to the given users on their chosen channels.
+ * Returns the number of deliveries created.
+ */
+export async function notify(event: NotificationEvent, data: Record<string, any>, recipients: NotificationRecipient[]): Promise<number> {
+  const uniqueRecipients = [...new Map(recipients.map(recipient => [recipient.id, recipient])).values()];
+  if (uniqueRecipients.length === 0) return 0;
+
+  const { data: preferenceRows, error } = await DatabaseService.notificationPreferences.getForUsers(
+    uniqueRecipients.map(recipient => recipient.id)
+  );
+  if (error) {
+    throw new Error(`Failed to load notification preferences: ${error.message}`);
+  }
+  const preferencesByUser = new Map<string, any>(preferenceRows.map((row: any) => [row.user_id, row]));
+
+  const rendered = renderNotification(event, data);
+  let created = 0;
+
+  for (const recipient of uniqueRecipients) {
+    const preferences = resolvePreferences(preferencesByUser.get(recipient.id));
+    const channels = preferences.events[event];
+
+    if (channels.in_app) {
+      const { data: notification, error: notificationError } = await DatabaseService.notifications.create({
+        user_id: recipient.id,
+        event,
+        title: rendered.title,
+        body: rendered.body,
+        link: rendered.link,
+        data
+      });
+      if (notificationError) {
+        logger.error('In-app notification failed', { event, userId: recipient.id, error: notificationError.message });
+      } else {
+        await DatabaseService.notificationDeliveries.create({
+          notification_id: notification.id,
+          user_id: recipient.id,
+          event,
+          channel: 'in_app',
+          recipient: recipient.id,
+          payload: rendered,
+          status: 'sent'
+        });
+        created++;
+      }
+    }
+
+    if (channels.email && recipient.email) {
+      const email = renderNotificationEmail(rendered, recipient.name || null, config.APP_BASE_URL);
+      const { error: deliveryError } = await DatabaseService.notificationDeliveries.create({
+        user_id: recipient.id,
+        event,
+        channel: 'email',
+        recipient: recipient.email,
+        payload: email
+      });
+      if (!deliveryError) created++;
+    }
+
+    if (channels.webhook && preferences.webhook_url) {
+      const { error: deliveryError } = await DatabaseService.notificationDeliveries.create({
+        user_id: recipient.id,
+        event,
+        channel: 'webhook',
+        recipient: preferences.webhook_url,
+        payload: {
+          event,
+          text: `${rendered.title}\n${rendered.body}`,
+          title: rendered.title,
+          body: rendered.body,
+          url: `${config.APP_BASE_URL.replace(/\/$/, '')}${rendered.link}`,
+          data
+        }
+      });
+      if (!deliveryError) created++;
+    }
+  }
+
+  logger.info('Notification dispatched', { event, recipients: uniqueRecipients.length, deliveries: created });
+
+  // Send what was just queued without waiting for the next worker tick
+  processDueDeliveries().catch(processError => {
+    logger.error('Notification delivery run failed', { error: processError.message });
+  });
+
+  return created;
+}
+
+/**
+ * POST a webhook payload, signed with the user's secret when one is set. The host is
+ * resolved and checked again first, and redirects are not followed.
+ */
+const sendWebhook = async (delivery: any) => {
+  const urlProblem = await checkWebhookUrl(delivery.recipient);
+  if (urlProblem) {
+    throw new Error(urlProblem);
+  }
+
+  const { data: preferenceRows } = await DatabaseService.notificationPreferences.getForUsers([delivery.user_id]);
+  const secret: string | null = preferenceRows?.[0]?.webhook_secret || null;
+
+  const body = JSON.stringify({ ...delivery.payload, delivery_id: delivery.id, sent_at: new Date().toISOString() });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'GentleSpaceRealty-Notifications/1.0',
+    'X-Notification-Event': delivery.event
+  };
+  if (secret) {
+    headers['X-Notification-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  const response = await fetch(delivery.recipient, {
+    method: 'POST',
+    headers,
+    body,
+    redirect: 'error',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+  }
+};
+
+const sendDelivery = async (delivery: any) => {
+  switch (delivery.channel) {
+    case 'email':
+      await sendMail({
+        to: delivery.recipient,
+        subject: delivery.payload.subject,
+        text: delivery.payload.text,
+        html: delivery.payload.html
+      });
+      return;
+    case 'webhook':
+      await sendWebhook(delivery);
+      return;
+    default:
+      // In-app notifications are delivered when they are created
+      return;
+  }
+};
+
+/**
+ * Send every due email/webhook delivery once. Failures go back in the queue with
+ * backoff until max_attempts, then stay failed (retryable from the delivery log).
+ * Returns the number sent.
+ */
+export async function processDueDeliveries(): Promise<number> {
+  const { data: deliveries, error } = await DatabaseService.notificationDeliveries.claimDue();
+  if (error) {
+    throw new Error(`Failed to claim notification deliveries: ${error.message}`);
+  }
+
+  let sent = 0;
+  for (const delivery of deliveries) {
+    try {
+      await sendDelivery(delivery);
+      await DatabaseService.notificationDeliveries.markSent(delivery.id);
+      sent++;
+    } catch (sendError: any) {
+      const exhausted = delivery.attempts >= delivery.max_attempts;
+      const backoffMinutes = RETRY_BACKOFF_MINUTES[Math.min(delivery.attempts, RETRY_BACKOFF_MINUTES.length) - 1]!;
+      const retryAt = exhausted ? null : new Date(Date.now() + backoffMinutes * 60 * 1000);
+
+      await DatabaseService.notificationDeliveries.markAttemptFailed(delivery.id, sendError.message, retryAt);
+
+      logger.warn('Notification delivery failed', {
+        deliveryId: delivery.id,
+        channel: delivery.channel,
+        event: delivery.event,
+        attempt: delivery.attempts,
+        retryAt: retryAt?.toISOString() || null,
+        error: sendError.message
+      });
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Retry due deliveries every NOTIFICATION_RETRY_INTERVAL_SECONDS (0 disables)
+ * Returns a function that stops the worker
+ */
+export function startNotificationDeliveryWorker(): () => void {
+  const intervalSeconds = config.NOTIFICATION_RETRY_INTERVAL_SECONDS;
+  if (!intervalSeconds) {
+    logger.info('Notification delivery worker disabled');
+    return () => undefined;
+  }
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await processDueDeliveries();
+    } catch (error: any) {
+      logger.error('Notification delivery run failed', { error: error.message });
+    } finally {
+      running = false;
+    }
+  }, intervalSeconds * 1000);
+  timer.unref();
+
+  logger.info('Notification delivery worker scheduled', { intervalSeconds });
+  return () => clearInterval(timer);
+}
+
+/**
+ * Run a notification without holding up (or failing) the request that caused it
+ */
+const notifyInBackground = (event: NotificationEvent, data: Record<string, any>, getRecipients: () => Promise<NotificationRecipient[]>) => {
+  getRecipients()
+    .then(recipients => notify(event, data, recipients))
+    .catch(error => {
+      logger.error('Notification failed', { event, error: error.message });
+    });
+};
+
+const getActiveAdmins = async (): Promise<NotificationRecipient[]> => {
+  const { data, error } = await DatabaseService.users.getAll({ role: 'admin', is_active: true });
+  if (error) {
+    throw new Error(`Failed to load admins: ${error.message}`);
+  }
+  return data || [];
+};
+
+const getActiveUser = async (userId: string): Promise<NotificationRecipient[]> => {
+  const { data } = await DatabaseService.users.getById(userId);
+  return data && data.is_active ? [data] : [];
+};
+
+/**
+ * New website inquiry - admins
+ */
+export function notifyInquiryCreated(inquiry: any, assignedAgent: { id: string; name: string } | null) {
+  notifyInBackground('inquiry.created', {
+    inquiry_id: inquiry.id,
+    name: inquiry.name,
+    email: inquiry.email,
+    phone: inquiry.phone,
+    message: inquiry.message,
+    inquiry_type: inquiry.inquiry_type,
+    property_title: inquiry.property_title || null,
+    assigned_to_name: assignedAgent?.name || null
+  }, getActiveAdmins);
+}
+
+/**
+ * Inquiry handed to an agent - that agent (not when they assigned it to themselves)
+ */
+export function notifyInquiryAssigned(inquiry: any, agentId: string, assignedBy: { id: string; name?: string } | null) {
+  if (assignedBy?.id === agentId) return;
+
+  notifyInBackground('inquiry.assigned', {
+    inquiry_id: inquiry.id,
+    name: inquiry.name,
+    email: inquiry.email,
+    phone: inquiry.phone,
+    message: inquiry.message,
+    auto_assigned: !assignedBy,
+    assigned_by_name: assignedBy?.name || null
+  }, () => getActiveUser(agentId));
+}
+
+/**
+ * Testimonial submitted for review - admins
+ */
+export function notifyTestimonialPending(testimonial: any) {
+  notifyInBackground('testimonial.pending', {
+    testimonial_id: testimonial.id,
+    client_name: testimonial.client_name,
+    rating: testimonial.rating,
+    content: testimonial.content
+  }, getActiveAdmins);
+}
+
+/**
+ * Scraper bulk import finished - admins, and whoever started it
+ */
+export function notifyScraperImportCompleted(result: { imported: number; failed: number; total: number; createdIds: string[] }, userId: string | null) {
+  notifyInBackground('scraper.import_completed', {
+    imported: result.imported,
+    failed: result.failed,
+    total: result.total,
+    property_ids: result.createdIds.slice(0, 50)
+  }, async () => [
+    ...(await getActiveAdmins()),
+    ...(userId ? await getActiveUser(userId) : [])
+  ]);
+}
+
+/**
+ * A user's channel choices per event (defaults filled in)
+ */
+export async function getPreferences(userId: string) {
+  const { data, error } = await DatabaseService.notificationPreferences.getForUsers([userId]);
+  if (error) {
+    return { data: null, error };
+  }
+  return { data: resolvePreferences(data[0]), error: null };
+}
+
+/**
+ * Change channel choices and/or the webhook. Events and channels not given keep their value.
+ * A webhook URL that does not resolve to a public host is refused (INVALID_WEBHOOK_URL).
+ */
+export async function updatePreferences(userId: string, updates: {
+  events?: Partial<Record<NotificationEvent, Partial<ChannelPreferences>>>;
+  webhook_url?: string | null;
+  webhook_secret?: string | null;
+}) {
+  let channels: Record<string, ChannelPreferences> | undefined;
+
+  if (updates.webhook_url) {
+    const urlProblem = await checkWebhookUrl(updates.webhook_url);
+    if (urlProblem) {
+      return { data: null, error: { message: urlProblem, code: 'INVALID_WEBHOOK_URL' } };
+    }
+  }
+
+  if (updates.events) {
+    const current = await getPreferences(userId);
+    if (current.error) {
+      return { data: null, error: current.error };
+    }
+    channels = {};
+    Object.entries(updates.events).forEach(([event, eventChannels]) => {
+      channels![event] = { ...current.data!.events[event as NotificationEvent], ...eventChannels };
+    });
+  }
+
+  const { data, error } = await DatabaseService.notificationPreferences.upsert(userId, {
+    ...(channels ? { channels } : {}),
+    ...(updates.webhook_url !== undefined ? { webhook_url: updates.webhook_url || null } : {}),
+    ...(updates.webhook_secret !== undefined ? { webhook_secret: updates.webhook_secret || null } : {})
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+  return { data: resolvePreferences(data), error: null };
+}
+
+export const NotificationService = {
+  notify,
+  processDueDeliveries,
+  startNotificationDeliveryWorker,
+  notifyInquiryCreated,
+  notifyInquiryAssigned,
+  notifyTestimonialPending,
+  notifyScraperImportCompleted,
+  getPreferences,
+  updatePreferences
+};
+
+export default NotificationService;
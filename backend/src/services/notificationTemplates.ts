@@ -0,0 +1,110 @@
+/**
+ * Notification Templates
+ *
+ * One template per notification event. Each renders the in-app title/body and link,
+ * and the email built from them; webhooks get the same title/body as JSON.
+ */
+
+import { escapeHtml } from '../utils/html';
+
+export type NotificationEvent =
+  | 'inquiry.created'
+  | 'inquiry.assigned'
+  | 'testimonial.pending'
+  | 'scraper.import_completed';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'inquiry.created',
+  'inquiry.assigned',
+  'testimonial.pending',
+  'scraper.import_completed'
+];
+
+export interface RenderedNotification {
+  title: string;
+  body: string;
+  // Path in the web app (the admin panel for every current event)
+  link: string;
+}
+
+export interface NotificationEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const truncate = (value: string | undefined | null, length: number) => {
+  if (!value) return '';
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+};
+
+const INQUIRY_TYPE_LABELS: Record<string, string> = {
+  general: 'General inquiry',
+  property: 'Property inquiry',
+  viewing: 'Viewing request',
+  investment: 'Investment inquiry'
+};
+
+const templates: Record<NotificationEvent, (data: Record<string, any>) => RenderedNotification> = {
+  'inquiry.created': (data) => ({
+    title: `New inquiry from ${data.name}`,
+    body: [
+      `${INQUIRY_TYPE_LABELS[data.inquiry_type] || 'Inquiry'}${data.property_title ? ` about ${data.property_title}` : ''}.`,
+      `"${truncate(data.message, 200)}"`,
+      data.assigned_to_name ? `Assigned to ${data.assigned_to_name}.` : 'Not assigned yet.'
+    ].join('\n'),
+    link: '/admin/inquiries'
+  }),
+
+  'inquiry.assigned': (data) => ({
+    title: `Inquiry from ${data.name} assigned to you`,
+    body: [
+      `${data.email}${data.phone ? ` · ${data.phone}` : ''}`,
+      `"${truncate(data.message, 200)}"`,
+      data.auto_assigned ? 'Assigned automatically.' : data.assigned_by_name ? `Assigned by ${data.assigned_by_name}.` : ''
+    ].filter(Boolean).join('\n'),
+    link: '/admin/inquiries'
+  }),
+
+  'testimonial.pending': (data) => ({
+    title: `New testimonial from ${data.client_name} awaiting review`,
+    body: [
+      data.rating ? `Rated ${data.rating}/5.` : '',
+      `"${truncate(data.content, 200)}"`
+    ].filter(Boolean).join('\n'),
+    link: '/admin/testimonials'
+  }),
+
+  'scraper.import_completed': (data) => ({
+    title: `Scraper import finished: ${data.imported} imported${data.failed ? `, ${data.failed} failed` : ''}`,
+    body: data.imported > 0
+      ? `${data.imported} of ${data.total} properties were imported as drafts and are ready for review.`
+      : `None of the ${data.total} properties could be imported.`,
+    link: '/admin/properties'
+  })
+};
+
+/**
+ * Render the title, body and link for an event
+ */
+export function renderNotification(event: NotificationEvent, data: Record<string, any>): RenderedNotification {
+  return templates[event](data);
+}
+
+/**
+ * Build the email for a rendered notification (`appBaseUrl` turns the link absolute)
+ */
+export function renderNotificationEmail(rendered: RenderedNotification, recipientName: string | null, appBaseUrl: string): NotificationEmail {
+  const url = `${appBaseUrl.replace(/\/$/, '')}${rendered.link}`;
+  const greeting = `Hi${recipientName ? ` ${recipientName}` : ''},`;
+
+  return {
+    subject: rendered.title,
+    text: `${greeting}\n\n${rendered.title}\n\n${rendered.body}\n\nOpen: ${url}\n\n- Gentle Space Realty\n\nYou can change which notifications you receive in the admin panel settings.`,
+    html: `<p>${escapeHtml(greeting)}</p>
+      <h3 style="margin:16px 0 8px">${escapeHtml(rendered.title)}</h3>
+      <p style="white-space:pre-line">${escapeHtml(rendered.body)}</p>
+      <p><a href="${escapeHtml(url)}">Open in the admin panel</a></p>
+      <p style="color:#888;font-size:12px">You can change which notifications you receive in the admin panel settings.</p>`
+  };
+}
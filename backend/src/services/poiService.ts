@@ -0,0 +1,335 @@
+/**
+ * Points of Interest Service
+ *
+ * Imports metro stations, restaurants, hospitals, gyms, banks and bus stops from GeoJSON
+ * FeatureCollections or OpenStreetMap extracts (Overpass JSON), and answers "what is within
+ * N metres of these properties" with distances and walk times.
+ */
+
+import { DatabaseService, PoiCategory, PoiRecord } from './cloudSqlService';
+
+export const POI_CATEGORIES: PoiCategory[] = ['metro', 'restaurant', 'hospital', 'gym', 'bank', 'bus_stop'];
+
+export const DEFAULT_POI_RADIUS_METERS = 1500;
+export const DEFAULT_POIS_PER_CATEGORY = 3;
+
+// Walking at ~4.8 km/h; streets add about 30% to the straight-line distance
+const WALK_METERS_PER_MINUTE = 80;
+const DETOUR_FACTOR = 1.3;
+
+const MAX_STORED_TAGS = 30;
+
+const CATEGORY_LABELS: Record<PoiCategory, string> = {
+  metro: 'Metro station',
+  restaurant: 'Restaurant',
+  hospital: 'Hospital',
+  gym: 'Gym',
+  bank: 'Bank',
+  bus_stop: 'Bus stop'
+};
+
+// Category names accepted in a GeoJSON feature's "category" property
+const CATEGORY_ALIASES: Record<string, PoiCategory> = {
+  metro: 'metro',
+  metro_station: 'metro',
+  subway: 'metro',
+  subway_station: 'metro',
+  restaurant: 'restaurant',
+  cafe: 'restaurant',
+  fast_food: 'restaurant',
+  food_court: 'restaurant',
+  hospital: 'hospital',
+  clinic: 'hospital',
+  gym: 'gym',
+  fitness: 'gym',
+  fitness_centre: 'gym',
+  fitness_center: 'gym',
+  bank: 'bank',
+  atm: 'bank',
+  bus_stop: 'bus_stop',
+  bus_station: 'bus_stop',
+  bus: 'bus_stop'
+};
+
+export type PoiImportFormat = 'geojson' | 'osm';
+
+export interface PoiImportSummary {
+  source: string;
+  format: PoiImportFormat;
+  received: number;
+  inserted: number;
+  updated: number;
+  skipped: { no_category: number; no_coordinates: number; duplicate: number };
+  by_category: Partial<Record<PoiCategory, number>>;
+}
+
+interface ParsedImport {
+  format: PoiImportFormat;
+  received: number;
+  pois: PoiRecord[];
+  skipped: PoiImportSummary['skipped'];
+}
+
+type Tags = Record<string, unknown>;
+
+const tagValue = (tags: Tags, key: string) => {
+  const value = tags[key];
+  return typeof value === 'string' ? value.toLowerCase() : '';
+};
+
+/**
+ * Category of an OpenStreetMap-tagged place, or null when it is none of ours
+ */
+export const classifyOsmTags = (tags: Tags): PoiCategory | null => {
+  const amenity = tagValue(tags, 'amenity');
+  const railway = tagValue(tags, 'railway');
+
+  if (
+    (railway === 'station' || railway === 'halt' || tagValue(tags, 'public_transport') === 'station')
+    && (['subway', 'light_rail', 'monorail'].includes(tagValue(tags, 'station')) || tagValue(tags, 'subway') === 'yes'
+      || /metro/.test(tagValue(tags, 'network')))
+  ) {
+    return 'metro';
+  }
+  if (
+    tagValue(tags, 'highway') === 'bus_stop' || amenity === 'bus_station'
+    || (tagValue(tags, 'public_transport') === 'platform' && tagValue(tags, 'bus') === 'yes')
+  ) {
+    return 'bus_stop';
+  }
+  if (['restaurant', 'cafe', 'fast_food', 'food_court'].includes(amenity)) return 'restaurant';
+  if (['hospital', 'clinic'].includes(amenity) || ['hospital', 'clinic'].includes(tagValue(tags, 'healthcare'))) {
+    return 'hospital';
+  }
+  if (tagValue(tags, 'leisure') === 'fitness_centre' || amenity === 'gym') return 'gym';
+  if (amenity === 'bank' || amenity === 'atm') return 'bank';
+
+  return null;
+};
+
+const categoryFromName = (value: unknown): PoiCategory | null =>
+  typeof value === 'string' ? CATEGORY_ALIASES[value.trim().toLowerCase().replace(/[\s-]+/g, '_')] || null : null;
+
+const isCoordinate = (lat: unknown, lng: unknown): lat is number =>
+  typeof lat === 'number' && typeof lng === 'number' && Number.isFinite(lat) && Number.isFinite(lng)
+  && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+/**
+ * A representative point for a GeoJSON geometry: the point itself, else the average of
+ * the first ring's or line's vertices (good enough for a building footprint or platform)
+ */
+const geometryPoint = (geometry: any): { lat: number; lng: number } | null => {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return null;
+
+  let positions: any[];
+  switch (geometry.type) {
+    case 'Point':
+      positions = [geometry.coordinates];
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      positions = geometry.coordinates;
+      break;
+    case 'Polygon':
+    case 'MultiLineString':
+      positions = geometry.coordinates[0] || [];
+      break;
+    case 'MultiPolygon':
+      positions = geometry.coordinates[0]?.[0] || [];
+      break;
+    default:
+      return null;
+  }
+
+  const valid = positions.filter(position => Array.isArray(position) && isCoordinate(position[1], position[0]));
+  // A closed ring repeats its first vertex at the end
+  const first = valid[0];
+  const last = valid[valid.length - 1];
+  if (valid.length > 2 && first[0] === last[0] && first[1] === last[1]) valid.pop();
+  if (valid.length === 0) return null;
+  return {
+    lng: valid.reduce((sum, position) => sum + position[0], 0) / valid.length,
+    lat: valid.reduce((sum, position) => sum + position[1], 0) / valid.length
+  };
+};
+
+// Keep the plain attributes only, capped so one import cannot bloat the table
+const storableTags = (tags: Tags) => Object.fromEntries(
+  Object.entries(tags)
+    .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+    .slice(0, MAX_STORED_TAGS)
+);
+
+const poiName = (tags: Tags, category: PoiCategory) => {
+  const name = [tags.name, tags['name:en'], tags.title].find(value => typeof value === 'string' && value.trim());
+  return (name as string | undefined)?.trim().slice(0, 255) || CATEGORY_LABELS[category];
+};
+
+/**
+ * Format of an uploaded dataset: Overpass extracts carry an elements array, anything else
+ * is read as GeoJSON
+ */
+export const detectPoiImportFormat = (data: unknown): PoiImportFormat =>
+  typeof data === 'object' && data !== null && 'elements' in data && Array.isArray(data.elements) ? 'osm' : 'geojson';
+
+/**
+ * Read a GeoJSON FeatureCollection or an Overpass JSON extract into points of interest.
+ * Places whose category cannot be told get fallbackCategory when given, else are skipped.
+ */
+export const parsePoiImport = (data: any, fallbackCategory?: PoiCategory): ParsedImport | null => {
+  const skipped = { no_category: 0, no_coordinates: 0, duplicate: 0 };
+  const pois = new Map<string, PoiRecord>();
+
+  const add = (sourceId: string | null, tags: Tags, explicitCategory: PoiCategory | null, point: { lat: number; lng: number } | null) => {
+    const category = explicitCategory || classifyOsmTags(tags) || fallbackCategory || null;
+    if (!category) {
+      skipped.no_category++;
+      return;
+    }
+    if (!point) {
+      skipped.no_coordinates++;
+      return;
+    }
+    const name = poiName(tags, category);
+    // Without an id of its own, a place is identified by what and where it is
+    const externalId = sourceId || `${category}:${name}:${point.lat.toFixed(5)},${point.lng.toFixed(5)}`;
+    if (pois.has(externalId)) {
+      skipped.duplicate++;
+      return;
+    }
+    pois.set(externalId, {
+      externalId: externalId.slice(0, 255),
+      category,
+      name,
+      latitude: point.lat,
+      longitude: point.lng,
+      tags: storableTags(tags)
+    });
+  };
+
+  if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    data.features.forEach((feature: any) => {
+      const properties: Tags = feature?.properties && typeof feature.properties === 'object' ? feature.properties : {};
+      // osmtogeojson nests the OSM tags; hand-made files put them at the top level
+      const tags: Tags = properties.tags && typeof properties.tags === 'object'
+        ? { ...(properties.tags as Tags), name: (properties.tags as Tags).name ?? properties.name }
+        : properties;
+      const sourceId = feature?.id ?? properties['@id'] ?? properties.id;
+      add(sourceId !== undefined && sourceId !== null ? String(sourceId) : null, tags, categoryFromName(properties.category), geometryPoint(feature?.geometry));
+    });
+    return { format: 'geojson', received: data.features.length, pois: [...pois.values()], skipped };
+  }
+
+  if (Array.isArray(data?.elements)) {
+    // Ways and relations carry a centre when exported with "out center"
+    const places = data.elements.filter((element: any) => element?.tags);
+    places.forEach((element: any) => {
+      const lat = element.lat ?? element.center?.lat;
+      const lng = element.lon ?? element.center?.lon;
+      add(`${element.type}/${element.id}`, element.tags, null, isCoordinate(lat, lng) ? { lat, lng } : null);
+    });
+    return { format: 'osm', received: places.length, pois: [...pois.values()], skipped };
+  }
+
+  return null;
+};
+
+/**
+ * Import one dataset; re-importing the same source updates the points it already has
+ */
+export const importPois = async (source: string, data: any, fallbackCategory?: PoiCategory) => {
+  const parsed = parsePoiImport(data, fallbackCategory);
+  if (!parsed) {
+    return {
+      data: null,
+      error: { message: 'Expected a GeoJSON FeatureCollection or an Overpass JSON extract', code: 'INVALID_FORMAT' }
+    };
+  }
+
+  const { data: result, error } = await DatabaseService.pointsOfInterest.upsert(source, parsed.pois);
+  if (error) return { data: null, error };
+
+  const byCategory: PoiImportSummary['by_category'] = {};
+  parsed.pois.forEach(poi => {
+    byCategory[poi.category] = (byCategory[poi.category] || 0) + 1;
+  });
+
+  const summary: PoiImportSummary = {
+    source,
+    format: parsed.format,
+    received: parsed.received,
+    inserted: result.inserted,
+    updated: result.updated,
+    skipped: parsed.skipped,
+    by_category: byCategory
+  };
+  return { data: summary, error: null };
+};
+
+/**
+ * Minutes on foot for a straight-line distance
+ */
+export const walkMinutes = (distanceMeters: number) =>
+  Math.max(1, Math.round((distanceMeters * DETOUR_FACTOR) / WALK_METERS_PER_MINUTE));
+
+/**
+ * Nearest points of each category around each property, in the order the ids were given
+ */
+export const getNearbyPois = async (
+  propertyIds: string[],
+  options: { radiusMeters?: number | undefined; categories?: PoiCategory[] | undefined; perCategory?: number | undefined } = {}
+) => {
+  const radiusMeters = options.radiusMeters ?? DEFAULT_POI_RADIUS_METERS;
+  const { data, error } = await DatabaseService.pointsOfInterest.getNearProperties(propertyIds, {
+    radiusMeters,
+    categories: options.categories,
+    perCategory: options.perCategory ?? DEFAULT_POIS_PER_CATEGORY
+  });
+  if (error) return { data: null, error };
+
+  const located = new Map<string, boolean>(data.properties.map((row: any) => [row.id, row.located]));
+
+  const properties = propertyIds
+    .filter(id => located.has(id))
+    .map(propertyId => {
+      const rows = data.pois.filter((row: any) => row.property_id === propertyId);
+      const counts: Partial<Record<PoiCategory, number>> = {};
+      rows.forEach((row: any) => {
+        counts[row.category as PoiCategory] = row.category_total;
+      });
+
+      return {
+        property_id: propertyId,
+        located: located.get(propertyId) === true,
+        counts,
+        pois: rows.map((row: any) => ({
+          id: row.id,
+          category: row.category,
+          name: row.name,
+          latitude: row.latitude,
+          longitude: row.longitude,
+          distance_m: Math.round(row.distance_m),
+          walk_minutes: walkMinutes(row.distance_m)
+        }))
+      };
+    });
+
+  return { data: { radius_m: radiusMeters, properties }, error: null };
+};
+
+export const getPoiStats = () => DatabaseService.pointsOfInterest.getStats();
+
+export const deletePoiSource = (source: string) => DatabaseService.pointsOfInterest.deleteSource(source);
+
+export const PoiService = {
+  importPois,
+  getNearbyPois,
+  getPoiStats,
+  deletePoiSource,
+  parsePoiImport,
+  detectPoiImportFormat,
+  classifyOsmTags,
+  walkMinutes
+};
+
+export default PoiService;
@@ -0,0 +1,269 @@
+/**
+ * Pricing Service
+ *
+ * Rent rates per micro-market and category derived from listing prices, and budget quotes
+ * built from them with the admin-edited rules (deposit, maintenance, escalation, GST).
+ * Each quote cites the listings its rate came from.
+ */
+
+import { ComparableListing, DatabaseService, MarketRateRow, PricingRuleRow } from './cloudSqlService';
+
+export type SpaceType = 'office' | 'co-working' | 'meeting-room';
+
+export type PricingRuleKey =
+  | 'deposit_months'
+  | 'maintenance_percent'
+  | 'escalation_percent'
+  | 'gst_percent'
+  | 'sqft_per_seat'
+  | 'utilities_per_seat'
+  | 'amenities_per_seat'
+  | 'fallback_rate_per_seat'
+  | 'min_comparables';
+
+export type PricingRules = Record<PricingRuleKey, number>;
+
+/**
+ * Rules used until an admin changes them
+ */
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  deposit_months: 3,
+  maintenance_percent: 15,
+  // Yearly rent increase over the lease
+  escalation_percent: 5,
+  gst_percent: 18,
+  // Converts rent per sqft into rent per seat
+  sqft_per_seat: 60,
+  utilities_per_seat: 500,
+  amenities_per_seat: 1200,
+  // Per-seat rent when no listings are comparable
+  fallback_rate_per_seat: 8000,
+  // Fewer listings than this and the quote widens its search
+  min_comparables: 3
+};
+
+/**
+ * Listing categories (properties.property_type) that price each calculator space type
+ */
+export const SPACE_TYPE_CATEGORIES: Record<SpaceType, string[]> = {
+  office: ['fully-furnished-offices', 'custom-built-workspaces', 'private-office-cabins', 'enterprise-offices', 'commercial'],
+  'co-working': ['co-working-spaces'],
+  'meeting-room': ['meeting-conference-rooms']
+};
+
+const COMPARABLES_CITED = 5;
+
+// Lease lengths the quote projects the total cost for
+const PROJECTION_MONTHS = [6, 12, 24, 36];
+
+export interface QuoteInputs {
+  location: string;
+  spaceType: SpaceType;
+  teamSize: number;
+  durationMonths: number;
+}
+
+// Where the rate came from, most specific first
+export type RateBasis = 'micro_market' | 'category' | 'micro_market_all' | 'default';
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+};
+
+const round = (value: number) => Math.round(value);
+
+/**
+ * "Koramangala" of "Koramangala, Bengaluru" - the same key the rate queries group by
+ */
+export const toMicroMarket = (location: string) => location.split(',')[0]!.trim().toLowerCase().replace(/-/g, ' ');
+
+/**
+ * Defaults overlaid with the stored rules
+ */
+export async function getPricingRules() {
+  const { data, error } = await DatabaseService.pricing.getRules();
+  if (error) {
+    return { data: null, error };
+  }
+
+  const rules: PricingRules = { ...DEFAULT_PRICING_RULES };
+  const rows: PricingRuleRow[] = data;
+  rows.forEach(({ key, value }) => {
+    if (key in rules) rules[key as PricingRuleKey] = value;
+  });
+  return { data: rules, error: null };
+}
+
+export async function updatePricingRules(updates: Partial<PricingRules>, userId: string) {
+  const { error } = await DatabaseService.pricing.upsertRules(updates as Record<string, number>, userId);
+  if (error) {
+    return { data: null, error };
+  }
+  return getPricingRules();
+}
+
+/**
+ * Rent per sqft and per seat for every micro-market and category with priced listings
+ */
+export async function getMarketRates(filters: { location?: string | undefined; category?: string | undefined } = {}) {
+  const [rates, rules] = await Promise.all([
+    DatabaseService.pricing.getMarketRates({
+      microMarket: filters.location ? toMicroMarket(filters.location) : undefined,
+      category: filters.category
+    }),
+    getPricingRules()
+  ]);
+  if (rates.error || rules.error) {
+    return { data: null, error: rates.error || rules.error };
+  }
+
+  const sqftPerSeat = rules.data!.sqft_per_seat;
+  const rows: MarketRateRow[] = rates.data;
+  return {
+    data: rows.map(row => ({
+      ...row,
+      median_rate_per_seat: round(row.median_rate_per_sqft * sqftPerSeat)
+    })),
+    error: null
+  };
+}
+
+/**
+ * The most specific set of listings with enough entries: micro-market and category, then the
+ * category anywhere, then any category in the micro-market
+ */
+async function findComparables(
+  microMarket: string,
+  categories: string[],
+  minComparables: number
+): Promise<{ data: { basis: RateBasis; listings: ComparableListing[] } | null; error: any }> {
+  const attempts: Array<{ basis: RateBasis; filters: { microMarket?: string; categories?: string[] } }> = [
+    { basis: 'micro_market', filters: { microMarket, categories } },
+    { basis: 'category', filters: { categories } },
+    { basis: 'micro_market_all', filters: { microMarket } }
+  ];
+
+  for (const { basis, filters } of attempts) {
+    const { data, error } = await DatabaseService.pricing.getComparables(filters);
+    if (error) {
+      return { data: null, error };
+    }
+    const listings: ComparableListing[] = data;
+    if (listings.length >= Math.max(minComparables, 1)) {
+      return { data: { basis, listings }, error: null };
+    }
+  }
+
+  return { data: { basis: 'default', listings: [] }, error: null };
+}
+
+/**
+ * Monthly costs for a given base rent: maintenance follows the rent, per-seat charges do not
+ */
+const monthlyCosts = (baseRent: number, teamSize: number, rules: PricingRules) => {
+  const maintenance = round(baseRent * rules.maintenance_percent / 100);
+  const utilities = round(teamSize * rules.utilities_per_seat);
+  const amenities = round(teamSize * rules.amenities_per_seat);
+  const gst = round((baseRent + maintenance + utilities + amenities) * rules.gst_percent / 100);
+
+  return {
+    base_rent: baseRent,
+    maintenance,
+    utilities,
+    amenities,
+    gst,
+    total: baseRent + maintenance + utilities + amenities + gst
+  };
+};
+
+/**
+ * A budget quote: first-year monthly costs, deposit, the yearly schedule with escalation,
+ * and the comparable listings the rate is based on
+ */
+export async function buildQuote(inputs: QuoteInputs) {
+  const rulesResult = await getPricingRules();
+  if (rulesResult.error) {
+    return { data: null, error: rulesResult.error };
+  }
+  const rules = rulesResult.data!;
+
+  const microMarket = toMicroMarket(inputs.location);
+  const categories = SPACE_TYPE_CATEGORIES[inputs.spaceType];
+  const comparables = await findComparables(microMarket, categories, rules.min_comparables);
+  if (comparables.error) {
+    return { data: null, error: comparables.error };
+  }
+  const { basis, listings } = comparables.data!;
+
+  const sqftRates = listings.map(listing => listing.rate_per_sqft);
+  const ratePerSqft = sqftRates.length > 0 ? median(sqftRates) : rules.fallback_rate_per_seat / rules.sqft_per_seat;
+  const ratePerSeat = sqftRates.length > 0 ? round(ratePerSqft * rules.sqft_per_seat) : rules.fallback_rate_per_seat;
+
+  const monthly = monthlyCosts(round(ratePerSeat * inputs.teamSize), inputs.teamSize, rules);
+
+  // Rent escalates once a year over the lease
+  const scheduleFor = (durationMonths: number) => {
+    const schedule = [];
+    for (let year = 1, remaining = durationMonths; remaining > 0; year++, remaining -= 12) {
+      const months = Math.min(remaining, 12);
+      const escalation = Math.pow(1 + rules.escalation_percent / 100, year - 1);
+      const yearMonthly = monthlyCosts(round(monthly.base_rent * escalation), inputs.teamSize, rules);
+      schedule.push({ year, months, monthly_total: yearMonthly.total, total: yearMonthly.total * months });
+    }
+    return schedule;
+  };
+  const totalOf = (schedule: Array<{ total: number }>) => schedule.reduce((sum, entry) => sum + entry.total, 0);
+
+  const schedule = scheduleFor(inputs.durationMonths);
+  const securityDeposit = round(monthly.base_rent * rules.deposit_months);
+
+  return {
+    data: {
+      inputs: {
+        micro_market: microMarket,
+        space_type: inputs.spaceType,
+        team_size: inputs.teamSize,
+        duration_months: inputs.durationMonths
+      },
+      rate: {
+        basis,
+        per_sqft: Math.round(ratePerSqft * 100) / 100,
+        per_seat: ratePerSeat,
+        sample_size: listings.length,
+        categories
+      },
+      monthly,
+      security_deposit: securityDeposit,
+      schedule,
+      lease_total: totalOf(schedule),
+      // Cost of a lease of each length, deposit included
+      projections: PROJECTION_MONTHS.map(months => ({
+        months,
+        total: totalOf(scheduleFor(months)) + securityDeposit
+      })),
+      rules,
+      // The listings closest to the rate used
+      comparables: [...listings]
+        .sort((a, b) => Math.abs(a.rate_per_sqft - ratePerSqft) - Math.abs(b.rate_per_sqft - ratePerSqft))
+        .slice(0, COMPARABLES_CITED)
+        .map(listing => ({
+          ...listing,
+          rate_per_sqft: Math.round(listing.rate_per_sqft * 100) / 100,
+          rate_per_seat: round(listing.rate_per_sqft * rules.sqft_per_seat)
+        })),
+      generated_at: new Date().toISOString()
+    },
+    error: null
+  };
+}
+
+export const PricingService = {
+  getPricingRules,
+  updatePricingRules,
+  getMarketRates,
+  buildQuote
+};
+
+export default PricingService;
@@ -0,0 +1,137 @@
+/**
+ * Property Duplicate Service
+ *
+ * Finds scraped listings and existing properties that are likely the same space (see
+ * utils/duplicateMatching for the scoring) so imports can skip them, and merges duplicate
+ * properties field by field, keeping both originals in property_merges.
+ */
+
+import { DatabaseService } from './cloudSqlService';
+import { createLogger } from '../utils/logger';
+import {
+  DuplicateSubject,
+  LIKELY_DUPLICATE_SCORE,
+  PropertyMergeField,
+  propertySubject,
+  scoreDuplicate
+} from '../utils/duplicateMatching';
+import { DuplicateCheckResult, DuplicateMatch, ScrapedPropertyData } from '../types/scraper';
+
+const logger = createLogger('PropertyDuplicateService');
+
+// Map pins closer than this are looked at as candidates
+const CANDIDATE_RADIUS_METERS = 100;
+
+// Matches reported per listing
+const MAX_MATCHES = 3;
+
+const listingSubject = (listing: ScrapedPropertyData): DuplicateSubject => ({
+  sourceUrl: listing.sourceUrl,
+  title: listing.title,
+  address: listing.location,
+  coordinates: listing.coordinates || null,
+  areaSqft: listing.size?.unit === 'sqft' ? listing.size.area : null,
+  price: listing.price?.amount || null
+});
+
+/**
+ * Likely duplicates among existing properties for each listing, best match first.
+ * Listings without any are left out of the result.
+ */
+export const findDuplicates = async (listings: ScrapedPropertyData[]) => {
+  const { data: candidates, error } = await DatabaseService.propertyDuplicates.findCandidates(
+    listings.map(listing => ({
+      sourceUrl: listing.sourceUrl || null,
+      title: listing.title || '',
+      address: listing.location || '',
+      coordinates: listing.coordinates || null
+    })),
+    CANDIDATE_RADIUS_METERS
+  );
+  if (error) {
+    return { data: null, error };
+  }
+
+  const results: DuplicateCheckResult[] = [];
+  listings.forEach((listing, index) => {
+    const subject = listingSubject(listing);
+    const matches: DuplicateMatch[] = (candidates[index] || [])
+      .map((property: any) => ({ property, ...scoreDuplicate(subject, propertySubject(property)) }))
+      .filter((match: any) => match.score >= LIKELY_DUPLICATE_SCORE)
+      .sort((a: any, b: any) => b.score - a.score)
+      .slice(0, MAX_MATCHES)
+      .map((match: any) => ({
+        propertyId: match.property.id,
+        title: match.property.title,
+        score: match.score,
+        reasons: match.reasons,
+        property: match.property
+      }));
+
+    if (matches.length > 0) {
+      results.push({ index, matches });
+    }
+  });
+
+  return { data: results, error: null };
+};
+
+/**
+ * Pairs of existing properties that look like the same space, most likely first
+ */
+export const listDuplicatePairs = async (limit = 50) => {
+  const { data: pairs, error } = await DatabaseService.propertyDuplicates.findPairs(CANDIDATE_RADIUS_METERS, 500);
+  if (error) {
+    return { data: null, error };
+  }
+
+  const scored = pairs
+    .map((pair: any) => ({
+      property: pair.property,
+      other: pair.other,
+      ...scoreDuplicate(propertySubject(pair.property), propertySubject(pair.other))
+    }))
+    .filter((pair: any) => pair.score >= LIKELY_DUPLICATE_SCORE)
+    .sort((a: any, b: any) => b.score - a.score)
+    .slice(0, limit);
+
+  return { data: scored, error: null };
+};
+
+export const dismissDuplicatePair = (propertyId: string, otherPropertyId: string, userId: string | null) =>
+  DatabaseService.propertyDuplicates.dismiss(propertyId, otherPropertyId, userId);
+
+/**
+ * Keep `targetId`, taking the fields marked 'source' from `sourceId`, and fold the other
+ * property into it. Fields not listed keep the target's value.
+ */
+export const mergeProperties = async (
+  targetId: string,
+  sourceId: string,
+  fieldSources: Partial<Record<PropertyMergeField, 'target' | 'source'>>,
+  userId: string | null
+) => {
+  const result = await DatabaseService.propertyMerges.merge(targetId, sourceId, fieldSources, userId);
+  if (!result.error) {
+    logger.info('Properties merged', {
+      targetId,
+      sourceId,
+      fromSource: Object.keys(fieldSources).filter(field => fieldSources[field as PropertyMergeField] === 'source'),
+      userId
+    });
+  }
+  return result;
+};
+
+export const getMergeHistory = (filters: { propertyId?: string | undefined; limit?: number | undefined }) =>
+  DatabaseService.propertyMerges.getAll(filters);
+
+export const PropertyDuplicateService = {
+  findDuplicates,
+  listDuplicatePairs,
+  dismissDuplicatePair,
+  mergeProperties,
+  getMergeHistory
+};
+
+export default PropertyDuplicateService;
@@ -0,0 +1,169 @@
+/**
+ * Property Import Service
+ *
+ * Imports reviewed scraper listings as one batch (see DatabaseService.propertyImports).
+ * Validation and the duplicate check settle rows up front; the rest are inserted with every
+ * mapped column and their tags, all or nothing (atomic) or row by row (best_effort). Batches are
+ * keyed by an idempotency key so a retried request gets the first result back, and each keeps a
+ * per-row report.
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, PropertyImportBatchRow, PropertyImportRow } from './cloudSqlService';
+import { FirecrawlService } from './firecrawlService';
+import { PropertyDuplicateService } from './propertyDuplicateService';
+import {
+  BulkImportRequest,
+  BulkImportResult,
+  DuplicateCheckResult,
+  ImportBatchReport
+} from '../types/scraper';
+
+type ImportOutcome<T> =
+  | { data: T; error: null }
+  | { data: null; error: { message: string; code?: string } };
+
+// The parts of a request that decide its outcome, hashed so a key cannot be reused for another
+const hashRequest = (request: BulkImportRequest) =>
+  createHash('sha256')
+    .update(JSON.stringify({
+      properties: request.properties,
+      skipValidation: !!request.skipValidation,
+      importDuplicates: !!request.importDuplicates,
+      mode: request.mode || 'best_effort',
+      jobId: request.jobId || null
+    }))
+    .digest('hex');
+
+const toImportResult = (batch: PropertyImportBatchRow, duplicates: DuplicateCheckResult[], replayed: boolean): BulkImportResult => {
+  const report = batch.report || [];
+  return {
+    // Skipping only duplicates is not a failure
+    success: batch.status === 'completed' && (batch.imported > 0 || (batch.failed === 0 && batch.skipped > 0)),
+    imported: batch.imported,
+    failed: batch.failed,
+    skipped: batch.skipped,
+    errors: report
+      .filter(row => row.status === 'failed')
+      .map(row => ({ index: row.index, error: row.error || 'Import failed' })),
+    duplicates,
+    createdIds: report.flatMap(row => (row.status === 'imported' && row.propertyId ? [row.propertyId] : [])),
+    batchId: batch.id,
+    idempotencyKey: batch.idempotency_key,
+    mode: batch.mode,
+    status: batch.status,
+    replayed,
+    report
+  };
+};
+
+/**
+ * Import a batch of scraped listings. Without an idempotency key the batch gets a new one,
+ * returned in the result; keys are scoped to the importing user.
+ */
+export const importProperties = async (
+  request: BulkImportRequest,
+  userId: string,
+  idempotencyKey?: string
+): Promise<ImportOutcome<BulkImportResult>> => {
+  const key = idempotencyKey || uuidv4();
+  const requestHash = hashRequest(request);
+
+  // A finished batch is answered from its report without checking duplicates again
+  // (every listing would now match the property it created)
+  const { data: existingBatch, error: lookupError } = await DatabaseService.propertyImports.getByKey(userId, key);
+  if (lookupError) {
+    return { data: null, error: lookupError };
+  }
+  const existing: PropertyImportBatchRow | null = existingBatch;
+  if (existing && existing.status === 'completed') {
+    if (existing.request_hash !== requestHash) {
+      return { data: null, error: { message: 'Idempotency key was already used for a different import', code: 'IDEMPOTENCY_CONFLICT' } };
+    }
+    return { data: toImportResult(existing, [], true), error: null };
+  }
+
+  // Dedup stage: listings that look like existing properties are reported, not imported
+  let duplicates: DuplicateCheckResult[] = [];
+  if (!request.importDuplicates) {
+    const { data, error } = await PropertyDuplicateService.findDuplicates(request.properties);
+    if (error) {
+      return { data: null, error: { message: `Duplicate check failed: ${error.message}` } };
+    }
+    duplicates = data || [];
+  }
+  const duplicateOf = new Map(duplicates.map(duplicate => [duplicate.index, duplicate.matches.map(match => match.propertyId)]));
+
+  const rows: PropertyImportRow[] = request.properties.map((property, index) => {
+    const entry = { index, title: property?.title || '', sourceUrl: property?.sourceUrl || '' };
+    if (!property) {
+      return { ...entry, status: 'failed', error: 'Property data is undefined' };
+    }
+
+    const matches = duplicateOf.get(index);
+    if (matches) {
+      return { ...entry, status: 'skipped', duplicateOf: matches };
+    }
+
+    if (!request.skipValidation) {
+      const validationErrors = FirecrawlService.validateScrapedProperty(property);
+      if (validationErrors.length > 0) {
+        return { ...entry, status: 'failed', error: `Validation failed: ${validationErrors.join(', ')}` };
+      }
+    }
+
+    // Scraper tags become tag assignments rather than a column
+    const { tags, ...record } = FirecrawlService.toPropertyRecord(property, userId);
+    return { ...entry, record, tags };
+  });
+
+  const { data, error } = await DatabaseService.propertyImports.run({
+    idempotencyKey: key,
+    requestHash,
+    mode: request.mode || 'best_effort',
+    jobId: request.jobId || null,
+    createdBy: userId,
+    rows
+  });
+  if (error) {
+    return { data: null, error };
+  }
+
+  const batch: PropertyImportBatchRow = data.batch;
+  return { data: toImportResult(batch, data.replayed ? [] : duplicates, data.replayed), error: null };
+};
+
+/**
+ * A batch's per-row report (GET /import/:id/report)
+ */
+export const getImportReport = async (batchId: string): Promise<ImportOutcome<ImportBatchReport>> => {
+  const { data, error } = await DatabaseService.propertyImports.getById(batchId);
+  if (error) {
+    return { data: null, error };
+  }
+  const batch: PropertyImportBatchRow = data;
+
+  const report: ImportBatchReport = {
+    id: batch.id,
+    idempotencyKey: batch.idempotency_key,
+    mode: batch.mode,
+    status: batch.status,
+    total: batch.total,
+    imported: batch.imported,
+    failed: batch.failed,
+    skipped: batch.skipped,
+    jobId: batch.job_id,
+    createdAt: batch.created_at.toISOString(),
+    completedAt: batch.completed_at?.toISOString() ?? null,
+    rows: batch.report || []
+  };
+  return { data: report, error: null };
+};
+
+export const PropertyImportService = {
+  importProperties,
+  getImportReport
+};
+
+export default PropertyImportService;
@@ -0,0 +1,395 @@
+/**
+ * Recommendation Service
+ *
+ * Recommends listings from the visitor's own interactions (content similarity over category,
+ * micro-market, amenities and size) and from what other visitors did (properties co-viewed
+ * and co-enquired with the ones the visitor engaged with). Every recommendation carries the
+ * reasons behind it. Visitors without history get what is popular.
+ */
+
+import {
+  CoInquiryRow,
+  CoInteractionRow,
+  DatabaseService,
+  InteractionAction,
+  InteractionActor,
+  InteractionEvent,
+  InteractionHistoryRow,
+  PopularPropertyRow,
+  RecommendationFeedbackRow
+} from './cloudSqlService';
+
+export const DEFAULT_RECOMMENDATIONS = 6;
+export const MAX_RECOMMENDATIONS = 24;
+
+// How much each interaction says about interest
+const ACTION_WEIGHTS: Record<InteractionAction, number> = {
+  view: 1,
+  click: 1.5,
+  compare: 2,
+  save: 3,
+  contact: 4
+};
+
+const LIKE_WEIGHT = 4;
+
+// Interest halves every this many days
+const HALF_LIFE_DAYS = 30;
+
+// Content similarity: share of each attribute
+const CONTENT_WEIGHTS = { category: 0.3, location: 0.3, amenities: 0.2, size: 0.2 };
+
+// Blend of content similarity and co-visitor signals when both exist
+const COLLABORATIVE_SHARE = 0.35;
+
+// An enquiry says more than a view
+const INQUIRY_SIGNAL_WEIGHT = 2;
+
+const MAX_REASONS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  'fully-furnished-offices': 'Furnished office',
+  'custom-built-workspaces': 'Custom-built workspace',
+  'co-working-spaces': 'Co-working space',
+  'private-office-cabins': 'Private cabin',
+  'enterprise-offices': 'Enterprise office',
+  'virtual-offices': 'Virtual office',
+  'meeting-conference-rooms': 'Meeting room'
+};
+
+interface Candidate {
+  id: string;
+  title: string;
+  location: string;
+  micro_market: string;
+  category: string;
+  area_sqft: number | null;
+  amenities: unknown;
+  features: unknown;
+}
+
+interface Signal {
+  score: number;
+  reasons: Array<{ weight: number; text: string }>;
+}
+
+export interface Recommendation {
+  property_id: string;
+  score: number;
+  reasons: string[];
+  signals: { content: number; collaborative: number; popularity: number };
+}
+
+const titleCase = (value: string) => value.replace(/\b\w/g, letter => letter.toUpperCase());
+
+const categoryLabel = (category: string) => CATEGORY_LABELS[category] || titleCase(category.replace(/-/g, ' '));
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Amenities and enabled features as one normalized set; features are stored as flags or names
+ */
+const amenitySet = (candidate: Candidate) => {
+  const items = new Map<string, string>();
+  const add = (value: string) => {
+    const key = value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (key && !items.has(key)) items.set(key, value);
+  };
+
+  if (Array.isArray(candidate.amenities)) {
+    candidate.amenities.forEach(item => typeof item === 'string' && add(item));
+  }
+  if (Array.isArray(candidate.features)) {
+    candidate.features.forEach(item => typeof item === 'string' && add(item));
+  } else if (candidate.features && typeof candidate.features === 'object') {
+    Object.entries(candidate.features).forEach(([feature, enabled]) => enabled === true && add(titleCase(feature)));
+  }
+  return items;
+};
+
+const areaOf = (candidate: Candidate) => {
+  const area = Number(candidate.area_sqft);
+  return Number.isFinite(area) && area > 0 ? area : null;
+};
+
+/**
+ * Interest per property from the visitor's history and likes, decayed by age
+ */
+const buildInterest = (history: InteractionHistoryRow[], feedback: RecommendationFeedbackRow[], now: number) => {
+  const interest = new Map<string, number>();
+  const add = (propertyId: string, weight: number) => interest.set(propertyId, (interest.get(propertyId) || 0) + weight);
+
+  history.forEach(event => {
+    const ageDays = Math.max(0, (now - new Date(event.occurred_at).getTime()) / DAY_MS);
+    const dwellBonus = event.time_spent_seconds ? Math.min(event.time_spent_seconds / 60, 2) : 0;
+    const weight = (ACTION_WEIGHTS[event.action] || 1) + dwellBonus;
+    add(event.property_id, weight * Math.pow(0.5, ageDays / HALF_LIFE_DAYS));
+  });
+  feedback.filter(entry => entry.feedback === 'like').forEach(entry => add(entry.property_id, LIKE_WEIGHT));
+
+  return interest;
+};
+
+/**
+ * How closely a candidate matches the listings the visitor showed interest in
+ */
+const contentSignal = (candidate: Candidate, seeds: Array<{ listing: Candidate; weight: number }>, liked: Set<string>): Signal => {
+  const totalWeight = seeds.reduce((sum, seed) => sum + seed.weight, 0);
+  if (totalWeight === 0) return { score: 0, reasons: [] };
+
+  const reasons: Signal['reasons'] = [];
+
+  const sameCategory = seeds.filter(seed => seed.listing.category === candidate.category);
+  const categoryShare = sameCategory.reduce((sum, seed) => sum + seed.weight, 0) / totalWeight;
+  if (sameCategory.length > 0) {
+    reasons.push({
+      weight: categoryShare * CONTENT_WEIGHTS.category,
+      text: `${categoryLabel(candidate.category)}, like ${plural(sameCategory.length, 'space')} you looked at`
+    });
+  }
+
+  const sameMarket = seeds.filter(seed => candidate.micro_market && seed.listing.micro_market === candidate.micro_market);
+  const locationShare = sameMarket.reduce((sum, seed) => sum + seed.weight, 0) / totalWeight;
+  if (sameMarket.length > 0) {
+    reasons.push({
+      weight: locationShare * CONTENT_WEIGHTS.location,
+      text: `In ${titleCase(candidate.micro_market)}, where you looked at ${plural(sameMarket.length, 'space')}`
+    });
+  }
+
+  // Weighted Jaccard overlap with each seed's amenities
+  const amenities = amenitySet(candidate);
+  const shared = new Map<string, number>();
+  let amenityScore = 0;
+  seeds.forEach(seed => {
+    const seedAmenities = amenitySet(seed.listing);
+    const common = [...amenities.keys()].filter(key => seedAmenities.has(key));
+    const union = new Set([...amenities.keys(), ...seedAmenities.keys()]).size;
+    if (union > 0) amenityScore += (common.length / union) * seed.weight;
+    common.forEach(key => shared.set(key, (shared.get(key) || 0) + seed.weight));
+  });
+  amenityScore /= totalWeight;
+  if (shared.size > 0) {
+    const top = [...shared.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([key]) => amenities.get(key)!);
+    reasons.push({
+      weight: amenityScore * CONTENT_WEIGHTS.amenities,
+      text: `Has ${top.join(', ')}, like the spaces you engaged with`
+    });
+  }
+
+  // Size against the weighted average of the sized seeds
+  const sized = seeds.filter(seed => areaOf(seed.listing) !== null);
+  const area = areaOf(candidate);
+  let sizeScore = 0;
+  if (area !== null && sized.length > 0) {
+    const sizedWeight = sized.reduce((sum, seed) => sum + seed.weight, 0);
+    const typical = sized.reduce((sum, seed) => sum + areaOf(seed.listing)! * seed.weight, 0) / sizedWeight;
+    sizeScore = Math.min(area, typical) / Math.max(area, typical);
+    if (sizeScore >= 0.75) {
+      reasons.push({
+        weight: sizeScore * CONTENT_WEIGHTS.size,
+        text: `${Math.round(area).toLocaleString('en-IN')} sqft, close to the ~${Math.round(typical).toLocaleString('en-IN')} sqft you have been viewing`
+      });
+    }
+  }
+
+  const likedSeed = seeds.find(seed => liked.has(seed.listing.id) && seed.listing.category === candidate.category);
+  if (likedSeed) {
+    reasons.push({ weight: 1, text: `Similar to ${likedSeed.listing.title}, which you liked` });
+  }
+
+  return {
+    score: categoryShare * CONTENT_WEIGHTS.category
+      + locationShare * CONTENT_WEIGHTS.location
+      + amenityScore * CONTENT_WEIGHTS.amenities
+      + sizeScore * CONTENT_WEIGHTS.size,
+    reasons
+  };
+};
+
+/**
+ * Co-visitor evidence per candidate, weighted by how interested the visitor is in each seed
+ */
+const collaborativeSignals = (
+  coViews: CoInteractionRow[],
+  coInquiries: CoInquiryRow[],
+  interest: Map<string, number>,
+  titles: Map<string, string>
+) => {
+  const signals = new Map<string, Signal>();
+  const add = (propertyId: string, score: number, text: string) => {
+    const signal = signals.get(propertyId) || { score: 0, reasons: [] };
+    signal.score += score;
+    signal.reasons.push({ weight: score, text });
+    signals.set(propertyId, signal);
+  };
+
+  coViews.forEach(row => {
+    const seedTitle = titles.get(row.seed_id);
+    if (!seedTitle) return;
+    add(
+      row.property_id,
+      row.visitors * (interest.get(row.seed_id) || 1),
+      `${plural(row.visitors, 'visitor')} who looked at ${seedTitle} also looked here`
+    );
+  });
+  coInquiries.forEach(row => {
+    const seedTitle = titles.get(row.seed_id);
+    if (!seedTitle) return;
+    add(
+      row.property_id,
+      row.inquirers * INQUIRY_SIGNAL_WEIGHT * (interest.get(row.seed_id) || 1),
+      `People who enquired about ${seedTitle} also enquired here`
+    );
+  });
+
+  // Normalize to 0..1 against the strongest candidate
+  const strongest = Math.max(0, ...[...signals.values()].map(signal => signal.score));
+  if (strongest > 0) {
+    signals.forEach(signal => {
+      const scale = signal.score;
+      signal.score = scale / strongest;
+      signal.reasons.forEach(reason => { reason.weight = (reason.weight / scale) * signal.score * COLLABORATIVE_SHARE; });
+    });
+  }
+  return signals;
+};
+
+/**
+ * Recommendations for a visitor, best first, with the full property rows
+ */
+export async function getRecommendations(actor: InteractionActor, limit = DEFAULT_RECOMMENDATIONS) {
+  const count = Math.min(Math.max(limit, 1), MAX_RECOMMENDATIONS);
+
+  const [history, feedback, candidates] = await Promise.all([
+    DatabaseService.interactions.getHistory(actor),
+    DatabaseService.interactions.getFeedback(actor),
+    DatabaseService.interactions.getCandidates()
+  ]);
+  const failed = history.error || feedback.error || candidates.error;
+  if (failed) {
+    return { data: null, error: failed };
+  }
+
+  const historyRows: InteractionHistoryRow[] = history.data;
+  const feedbackRows: RecommendationFeedbackRow[] = feedback.data;
+  const candidateRows: Candidate[] = candidates.data;
+
+  const now = Date.now();
+  const interest = buildInterest(historyRows, feedbackRows, now);
+  const liked = new Set(feedbackRows.filter(entry => entry.feedback === 'like').map(entry => entry.property_id));
+  const listings = new Map(candidateRows.map(listing => [listing.id, listing]));
+  const titles = new Map([...listings.values()].map(listing => [listing.id, listing.title]));
+
+  // Anything the visitor already engaged with or turned down is not recommended again
+  const excluded = new Set<string>([...interest.keys(), ...feedbackRows.map(entry => entry.property_id)]);
+
+  const seeds = [...interest.entries()]
+    .filter(([propertyId]) => listings.has(propertyId))
+    .map(([propertyId, weight]) => ({ listing: listings.get(propertyId)!, weight }));
+
+  const seedIds = [...interest.keys()];
+  let collaborative = new Map<string, Signal>();
+  if (seedIds.length > 0) {
+    const [coViews, coInquiries] = await Promise.all([
+      DatabaseService.interactions.getCoInteractions(seedIds, actor),
+      DatabaseService.interactions.getCoInquiries(seedIds, actor.userId)
+    ]);
+    if (coViews.error || coInquiries.error) {
+      return { data: null, error: coViews.error || coInquiries.error };
+    }
+    const coViewRows: CoInteractionRow[] = coViews.data;
+    const coInquiryRows: CoInquiryRow[] = coInquiries.data;
+    collaborative = collaborativeSignals(coViewRows, coInquiryRows, interest, titles);
+  }
+
+  const scored: Recommendation[] = [];
+  if (seeds.length > 0 || collaborative.size > 0) {
+    const hasCollaborative = collaborative.size > 0;
+    listings.forEach(candidate => {
+      if (excluded.has(candidate.id)) return;
+
+      const content = contentSignal(candidate, seeds, liked);
+      const collab = collaborative.get(candidate.id) || { score: 0, reasons: [] };
+      const score = hasCollaborative && seeds.length > 0
+        ? (1 - COLLABORATIVE_SHARE) * content.score + COLLABORATIVE_SHARE * collab.score
+        : hasCollaborative ? collab.score : content.score;
+      if (score <= 0) return;
+
+      scored.push({
+        property_id: candidate.id,
+        score: Math.round(Math.min(score, 1) * 100),
+        reasons: [...content.reasons, ...collab.reasons]
+          .sort((a, b) => b.weight - a.weight)
+          .slice(0, MAX_REASONS)
+          .map(reason => reason.text),
+        signals: {
+          content: Math.round(content.score * 100) / 100,
+          collaborative: Math.round(collab.score * 100) / 100,
+          popularity: 0
+        }
+      });
+    });
+  }
+
+  const recommendations = scored.sort((a, b) => b.score - a.score).slice(0, count);
+  const strategy = recommendations.length === 0 ? 'popular' : 'personalized';
+
+  // Fill up with what is popular, for new visitors and thin histories
+  if (recommendations.length < count) {
+    const popular = await DatabaseService.interactions.getPopular();
+    if (popular.error) {
+      return { data: null, error: popular.error };
+    }
+    const popularRows: PopularPropertyRow[] = popular.data;
+    const mostVisitors = Math.max(1, ...popularRows.map(row => row.visitors));
+    const chosen = new Set(recommendations.map(item => item.property_id));
+
+    for (const row of popularRows) {
+      if (recommendations.length >= count) break;
+      if (excluded.has(row.property_id) || chosen.has(row.property_id)) continue;
+      recommendations.push({
+        property_id: row.property_id,
+        score: Math.round((row.visitors / mostVisitors) * 50),
+        reasons: [`Popular: ${plural(row.visitors, 'visitor')} in the last 30 days`],
+        signals: { content: 0, collaborative: 0, popularity: Math.round((row.visitors / mostVisitors) * 100) / 100 }
+      });
+    }
+  }
+
+  const properties = await DatabaseService.properties.getByIds(recommendations.map(item => item.property_id));
+  if (properties.error) {
+    return { data: null, error: properties.error };
+  }
+  const propertyRows: Array<{ id: string }> = properties.data;
+  const rows = new Map(propertyRows.map(row => [row.id, row]));
+
+  return {
+    data: {
+      strategy,
+      recommendations: recommendations
+        .filter(item => rows.has(item.property_id))
+        .map(item => ({ ...item, property: rows.get(item.property_id) })),
+      generated_at: new Date(now).toISOString()
+    },
+    error: null
+  };
+}
+
+export async function recordInteractions(actor: InteractionActor, events: InteractionEvent[]) {
+  return DatabaseService.interactions.record(actor, events);
+}
+
+export async function recordFeedback(actor: InteractionActor, propertyId: string, feedback: 'like' | 'dislike') {
+  return DatabaseService.interactions.setFeedback(actor, propertyId, feedback);
+}
+
+export const RecommendationService = {
+  getRecommendations,
+  recordInteractions,
+  recordFeedback
+};
+
+export default RecommendationService;
@@ -0,0 +1,485 @@
+/**
+ * Scrape Extraction Service
+ *
+ * Turns raw Firecrawl output (markdown, HTML or JSON) into ScrapedPropertyData listings with
+ * C1. Used by the /c1/transform-scrape endpoint and by the extraction stage of scrape jobs.
+ */
+
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { LlmBudgetStatus, LlmMeter, checkLlmBudget } from './llmUsageService';
+
+const c1Client = new OpenAI({
+  apiKey: process.env.THESYS_C1_API_KEY,
+  baseURL: process.env.THESYS_C1_ENDPOINT || 'https://api.thesys.dev/v1/embed'
+});
+
+export const getExtractionModel = () =>
+  process.env.C1_EXTRACTION_MODEL || process.env.ANTHROPIC_MODEL || 'c1/anthropic/claude-sonnet-4/v-20250815';
+
+export type ExtractionMethod = 'markdown' | 'html' | 'json' | 'mixed';
+
+export interface ExtractionRequest {
+  rawFirecrawlData?: any;
+  sourceUrl: string;
+  // Search parameters the page was found with, passed along to C1 and onto each listing
+  searchParams?: Record<string, any> | undefined;
+  extractionHints?: string | undefined;
+}
+
+export interface ExtractionMetadata {
+  propertiesExtracted: number;
+  propertiesValidated?: number;
+  propertiesFailed?: number;
+  confidenceScores?: Record<string, number>;
+  warnings: string[];
+  processingTime: number;
+  model: string;
+  tokensUsed: number;
+  extractionMethod: ExtractionMethod | 'unknown';
+}
+
+export interface ExtractionResult {
+  properties: any[];
+  uiSpec?: any;
+  metadata: ExtractionMetadata;
+}
+
+export type ExtractionErrorCode = 'BUDGET_EXCEEDED' | 'EMPTY_RESPONSE' | 'INVALID_RESPONSE' | 'VALIDATION_FAILED';
+
+export interface ExtractionError {
+  message: string;
+  code: ExtractionErrorCode;
+  details?: string;
+  validationErrors?: Array<{ index: number; errors: string[] }>;
+  budget?: Exclude<LlmBudgetStatus, { allowed: true }>;
+  metadata: ExtractionMetadata;
+}
+
+// Zod schema for ScrapedPropertyData validation
+export const ScrapedPropertyDataSchema = z.object({
+  // Required fields
+  title: z.string().min(1, "Title is required"),
+  description: z.string().min(1, "Description is required"),
+  location: z.string().min(1, "Location is required"),
+
+  // Optional structured fields
+  price: z.object({
+    amount: z.number().positive("Price amount must be positive"),
+    currency: z.enum(['INR', 'USD', 'EUR'], { errorMap: () => ({ message: "Currency must be INR, USD, or EUR" }) }),
+    period: z.enum(['monthly', 'yearly', 'one-time'], { errorMap: () => ({ message: "Period must be monthly, yearly, or one-time" }) })
+  }).optional(),
+
+  size: z.object({
+    area: z.number().positive("Area must be positive"),
+    unit: z.enum(['sqft', 'seats'], { errorMap: () => ({ message: "Unit must be sqft or seats" }) })
+  }).optional(),
+
+  amenities: z.array(z.string()).optional(),
+
+  features: z.object({
+    furnished: z.boolean().optional(),
+    parking: z.boolean().optional(),
+    wifi: z.boolean().optional(),
+    ac: z.boolean().optional(),
+    security: z.boolean().optional(),
+    cafeteria: z.boolean().optional(),
+    elevator: z.boolean().optional(),
+    powerBackup: z.boolean().optional(),
+    conferenceRoom: z.boolean().optional()
+  }).optional(),
+
+  contact: z.object({
+    phone: z.string().optional(),
+    email: z.string().email("Invalid email format").optional(),
+    contactPerson: z.string().optional()
+  }).optional(),
+
+  media: z.object({
+    images: z.array(z.string().url("Invalid image URL")).optional(),
+    videos: z.array(z.string().url("Invalid video URL")).optional()
+  }).optional(),
+
+  availability: z.object({
+    status: z.enum(['available', 'occupied', 'coming-soon'], { errorMap: () => ({ message: "Status must be available, occupied, or coming-soon" }) }),
+    date: z.string().optional()
+  }).optional(),
+
+  // Metadata fields
+  sourceUrl: z.string().url("Invalid source URL"),
+  scrapedAt: z.string().optional(),
+  searchParams: z.any().optional(),
+  validationErrors: z.array(z.string()).optional(),
+  rawData: z.any().optional(),
+
+  // C1 metadata
+  c1Metadata: z.object({
+    extractedBy: z.enum(['c1', 'firecrawl', 'manual'], { errorMap: () => ({ message: "ExtractedBy must be c1, firecrawl, or manual" }) }),
+    confidence: z.number().min(0).max(1, "Confidence must be between 0 and 1").optional(),
+    extractionWarnings: z.array(z.string()).optional(),
+    processedAt: z.string(),
+    fieldsExtracted: z.array(z.string()),
+    fieldsMissing: z.array(z.string())
+  }).optional()
+});
+
+// System prompt for property data extraction from raw Firecrawl data
+const getPropertyExtractionPrompt = (): string => {
+  return `You are an AI assistant specialized in extracting structured property data from raw web scraping results.
+
+TASK: Extract property listing information from raw Firecrawl data (markdown, HTML, JSON formats) and convert it to structured JSON matching the ScrapedPropertyData schema.
+
+PROPERTY SCHEMA (ScrapedPropertyData interface):
+{
+  title: string (required),
+  description: string (required),
+  price?: {
+    amount: number,
+    currency: string,
+    period: 'monthly' | 'yearly' | 'one-time'
+  },
+  location: string (required),
+  size?: {
+    area: number,
+    unit: 'sqft' | 'seats'
+  },
+  amenities?: string[],
+  features?: {
+    furnished?: boolean,
+    parking?: boolean,
+    wifi?: boolean,
+    ac?: boolean,
+    security?: boolean,
+    cafeteria?: boolean,
+    elevator?: boolean,
+    powerBackup?: boolean,
+    conferenceRoom?: boolean
+  },
+  contact?: {
+    phone?: string,
+    email?: string,
+    contactPerson?: string
+  },
+  media?: {
+    images?: string[],
+    videos?: string[]
+  },
+  availability?: {
+    status: 'available' | 'occupied' | 'coming-soon',
+    date?: string
+  }
+}
+
+EXTRACTION GUIDELINES:
+1. REQUIRED FIELDS: title, description, location must always be present
+2. PRICE: Extract amount, determine currency (usually INR), identify period (monthly/yearly)
+3. SIZE: Convert to sqft if possible, use "seats" for coworking spaces
+4. AMENITIES: List as strings (e.g., ["WiFi", "Parking", "AC", "Cafeteria"])
+5. FEATURES: Map to boolean values, infer from descriptions and amenities
+6. CONTACT: Extract phone numbers, emails, contact person names
+7. MEDIA: Include full URLs for images and videos
+8. AVAILABILITY: Determine status and extract availability dates
+
+HANDLING AMBIGUOUS DATA:
+- If price is "Contact for pricing" or similar: omit price object
+- If size is unclear: try to infer from context or omit
+- If location has multiple formats: use most complete address
+- If data is missing: omit optional fields rather than guessing
+- If multiple properties in data: extract each as separate object
+
+OUTPUT FORMAT:
+Return a JSON array of property objects. Each object must follow the ScrapedPropertyData schema exactly.
+Include confidence metadata for each extraction:
+{
+  "properties": [...],
+  "metadata": {
+    "confidence": 0.8,
+    "warnings": ["Price not specified", "Limited contact info"],
+    "fieldsExtracted": ["title", "description", "location", "amenities"],
+    "fieldsMissing": ["price", "size", "contact"]
+  }
+}
+
+EXAMPLE OUTPUT:
+{
+  "properties": [
+    {
+      "title": "Premium Office Space in Koramangala",
+      "description": "Fully furnished 2000 sqft office space with modern amenities",
+      "location": "Koramangala, Bangalore",
+      "size": { "area": 2000, "unit": "sqft" },
+      "amenities": ["WiFi", "Parking", "AC", "Security"],
+      "features": {
+        "furnished": true,
+        "parking": true,
+        "wifi": true,
+        "ac": true,
+        "security": true
+      }
+    }
+  ],
+  "metadata": {
+    "confidence": 0.85,
+    "warnings": [],
+    "fieldsExtracted": ["title", "description", "location", "size", "amenities", "features"],
+    "fieldsMissing": ["price", "contact", "media"]
+  }
+}
+
+Be thorough but accurate. Only extract data that is clearly present in the source material.`;
+};
+
+/**
+ * The text handed to C1 and how it was read from the Firecrawl response
+ */
+const extractionInput = (rawFirecrawlData: any): { method: ExtractionMethod; content: string } => {
+  if (typeof rawFirecrawlData === 'string') {
+    return { method: rawFirecrawlData.includes('<html') ? 'html' : 'markdown', content: rawFirecrawlData };
+  }
+  if (rawFirecrawlData && typeof rawFirecrawlData === 'object') {
+    // Handle structured Firecrawl response
+    if (rawFirecrawlData.markdown) {
+      return { method: 'markdown', content: rawFirecrawlData.markdown };
+    }
+    if (rawFirecrawlData.html) {
+      return { method: 'html', content: rawFirecrawlData.html };
+    }
+    if (rawFirecrawlData.structuredData || rawFirecrawlData.extractedData) {
+      return { method: 'json', content: JSON.stringify(rawFirecrawlData.structuredData || rawFirecrawlData.extractedData) };
+    }
+    // Try to use the entire raw data
+    return { method: 'mixed', content: JSON.stringify(rawFirecrawlData) };
+  }
+  return { method: 'mixed', content: String(rawFirecrawlData) };
+};
+
+/**
+ * Pull the JSON document out of a C1 reply: a <content> block, a fenced code block or the
+ * outermost braces
+ */
+const parseExtractionReply = (content: string) => {
+  let jsonContent = content;
+
+  const contentMatch = content.match(/<content>([\s\S]*?)<\/content>/);
+  if (contentMatch && contentMatch[1]) {
+    // C1 component format, HTML-encoded
+    jsonContent = contentMatch[1].trim()
+      .replace(/&quot;/g, '"')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  } else {
+    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    if (jsonMatch && jsonMatch[1]) {
+      jsonContent = jsonMatch[1];
+    } else {
+      const objectMatch = content.match(/\{[\s\S]*\}/);
+      if (objectMatch) {
+        jsonContent = objectMatch[0];
+      }
+    }
+  }
+
+  const parsedContent = JSON.parse(jsonContent);
+
+  // A component response carries UI specifications for the frontend to render instead
+  if (parsedContent.component || parsedContent.components) {
+    return {
+      properties: [],
+      uiSpec: parsedContent,
+      metadata: {
+        confidence: 0.8,
+        warnings: [],
+        fieldsExtracted: ['ui-components', 'structured-display'],
+        fieldsMissing: [],
+        extractionMode: 'ui-generation',
+        componentType: parsedContent.component?.component || 'unknown'
+      }
+    };
+  }
+
+  return parsedContent;
+};
+
+/**
+ * Extract property listings from raw Firecrawl data with C1, charged to the meter's caller.
+ * Budget, empty or unreadable replies and listings failing validation come back as errors;
+ * a failed C1 request is recorded on the meter and thrown.
+ */
+export const extractScrapedProperties = async (
+  request: ExtractionRequest,
+  meter: LlmMeter
+): Promise<{ data: ExtractionResult; error: null } | { data: null; error: ExtractionError }> => {
+  const startTime = Date.now();
+  const { rawFirecrawlData, sourceUrl, searchParams, extractionHints } = request;
+  const extractionModel = getExtractionModel();
+
+  // Extraction has no useful fallback, so an exhausted budget is an error the scraper can retry tomorrow
+  const budget = await checkLlmBudget(meter.caller);
+  if (!budget.allowed) {
+    await meter.record('budget_exceeded');
+    return {
+      data: null,
+      error: {
+        message: 'AI usage budget exhausted',
+        code: 'BUDGET_EXCEEDED',
+        details: `The ${budget.scope} daily token budget is used up until ${budget.resetsAt.toISOString()}`,
+        budget,
+        metadata: {
+          propertiesExtracted: 0,
+          warnings: ['AI usage budget exhausted'],
+          processingTime: Date.now() - startTime,
+          model: extractionModel,
+          tokensUsed: 0,
+          extractionMethod: 'unknown'
+        }
+      }
+    };
+  }
+
+  const { method: extractionMethod, content: dataForExtraction } = extractionInput(rawFirecrawlData);
+
+  let extractionPrompt = `Extract property data from the following ${extractionMethod} content scraped from: ${sourceUrl}
+
+${extractionHints ? `User hints: ${extractionHints}\n\n` : ''}`;
+
+  if (searchParams) {
+    extractionPrompt += `Original search parameters: ${JSON.stringify(searchParams)}\n\n`;
+  }
+
+  extractionPrompt += `Raw data to process:
+${dataForExtraction}
+
+Please extract all property listings found in this data and format them according to the schema.`;
+
+  let completion: OpenAI.Chat.Completions.ChatCompletion;
+  try {
+    completion = await c1Client.chat.completions.create({
+      model: extractionModel,
+      messages: [
+        { role: 'system', content: getPropertyExtractionPrompt() },
+        { role: 'user', content: extractionPrompt }
+      ],
+      stream: false,
+      max_tokens: parseInt(process.env.C1_EXTRACTION_MAX_TOKENS || '8000'),
+      temperature: parseFloat(process.env.C1_EXTRACTION_TEMPERATURE || '0.3')
+    });
+  } catch (error) {
+    await meter.record('failed');
+    throw error;
+  }
+  // Later failures are about the extracted data; the call itself is logged as completed
+  await meter.record('completed', completion.usage);
+
+  const replyMetadata = (warnings: string[]): ExtractionMetadata => ({
+    propertiesExtracted: 0,
+    processingTime: Date.now() - startTime,
+    model: completion.model || 'unknown',
+    tokensUsed: completion.usage?.total_tokens || 0,
+    extractionMethod,
+    warnings
+  });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    return {
+      data: null,
+      error: { message: 'No content received from C1 API', code: 'EMPTY_RESPONSE', metadata: replyMetadata(['Empty response from C1 API']) }
+    };
+  }
+
+  let extractedData: any;
+  try {
+    extractedData = parseExtractionReply(content);
+  } catch (parseError) {
+    console.error('Failed to parse C1 response as JSON:', parseError);
+    return {
+      data: null,
+      error: {
+        message: 'Failed to parse C1 response as structured data',
+        code: 'INVALID_RESPONSE',
+        metadata: replyMetadata(['Invalid JSON response from C1'])
+      }
+    };
+  }
+
+  const properties = extractedData.properties || [];
+  const extractionMetadata = extractedData.metadata || {};
+
+  // Add source metadata to each property and validate with Zod
+  const enrichedProperties: any[] = [];
+  const validationErrors: Array<{ index: number; errors: string[] }> = [];
+
+  properties.forEach((property: any, index: number) => {
+    const enrichedProperty = {
+      ...property,
+      sourceUrl,
+      scrapedAt: new Date().toISOString(),
+      searchParams: searchParams || undefined,
+      c1Metadata: {
+        extractedBy: 'c1' as const,
+        confidence: extractionMetadata.confidence || 0.5,
+        extractionWarnings: extractionMetadata.warnings || [],
+        processedAt: new Date().toISOString(),
+        fieldsExtracted: extractionMetadata.fieldsExtracted || [],
+        fieldsMissing: extractionMetadata.fieldsMissing || []
+      }
+    };
+
+    const parsed = ScrapedPropertyDataSchema.safeParse(enrichedProperty);
+    if (parsed.success) {
+      enrichedProperties.push(parsed.data);
+    } else {
+      validationErrors.push({
+        index,
+        errors: parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      });
+    }
+  });
+
+  if (validationErrors.length > 0) {
+    return {
+      data: null,
+      error: {
+        message: 'Property validation failed',
+        code: 'VALIDATION_FAILED',
+        details: 'One or more extracted properties failed validation',
+        validationErrors,
+        metadata: {
+          ...replyMetadata([
+            ...extractionMetadata.warnings || [],
+            `${validationErrors.length} properties failed validation`
+          ]),
+          propertiesValidated: enrichedProperties.length,
+          propertiesFailed: validationErrors.length,
+          confidenceScores: {}
+        }
+      }
+    };
+  }
+
+  const confidenceScores: Record<string, number> = {};
+  enrichedProperties.forEach((property: any, index: number) => {
+    confidenceScores[index.toString()] = property.c1Metadata?.confidence || 0.5;
+  });
+
+  return {
+    data: {
+      properties: enrichedProperties,
+      uiSpec: extractedData.uiSpec,
+      metadata: {
+        ...replyMetadata(extractionMetadata.warnings || []),
+        propertiesExtracted: enrichedProperties.length,
+        confidenceScores
+      }
+    },
+    error: null
+  };
+};
+
+export const ScrapeExtractionService = {
+  extractScrapedProperties,
+  getExtractionModel
+};
+
+export default ScrapeExtractionService;
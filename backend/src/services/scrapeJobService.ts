@@ -0,0 +1,408 @@
+/**
+ * Scrape Job Service
+ *
+ * Runs Firecrawl scrapes and C1 extraction in the background instead of inside the HTTP
+ * request. Jobs are queued in scrape_jobs and move queued -> running (Firecrawl) ->
+ * extracting (C1) -> review; importing the reviewed listings marks them done. Every change
+ * is published to the job's subscribers so the scraper page can stream progress.
+ */
+
+import { EventEmitter } from 'events';
+import { DatabaseService, ScrapeJobChanges } from './cloudSqlService';
+import { CrawlProgressCallback, FirecrawlService } from './firecrawlService';
+import { UrlBuilderService } from './urlBuilderService';
+import { adapterForUrl } from './sourceAdapters';
+import { extractScrapedProperties, getExtractionModel } from './scrapeExtractionService';
+import { LlmCaller, startLlmMeterFor } from './llmUsageService';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+import { FirecrawlScrapeConfig, ScrapeJobRequest, ScrapeRequest, ScrapeResult } from '../types/scraper';
+
+const logger = createLogger('ScrapeJobService');
+const config = getBackendConfig();
+
+// Claims of one job beyond this (a worker crashing on it each time) fail it for good
+const MAX_JOB_ATTEMPTS = 3;
+// A job whose worker has not reported for this long is taken over by another
+const STALE_JOB_MINUTES = 15;
+
+// Progress milestones: the scrape covers 5-70%, extraction 75-100%
+const SCRAPE_START_PROGRESS = 5;
+const SCRAPE_DONE_PROGRESS = 70;
+const EXTRACTION_START_PROGRESS = 75;
+
+const CANCELLED = 'Scrape job cancelled';
+
+const jobEvents = new EventEmitter();
+// One listener per open progress stream
+jobEvents.setMaxListeners(0);
+
+/**
+ * Hear every change to a job (summary row, without payloads). Returns the unsubscribe function
+ */
+export const subscribeToScrapeJob = (id: string, listener: (job: any) => void) => {
+  jobEvents.on(id, listener);
+  return () => {
+    jobEvents.off(id, listener);
+  };
+};
+
+const publish = (job: any) => {
+  jobEvents.emit(job.id, job);
+};
+
+/**
+ * Page a scrape request starts from
+ */
+export const scrapeRequestUrl = (request: ScrapeRequest): string | null => {
+  if (request.directUrl) return request.directUrl;
+  return request.searchParams ? UrlBuilderService.buildSearchUrl(request.searchParams) : null;
+};
+
+/**
+ * Scrape a direct URL (one page as raw Firecrawl data, or a crawl transformed into listings)
+ * or a portal search built from search parameters
+ */
+export async function performScrape(request: ScrapeRequest, onCrawlProgress?: CrawlProgressCallback): Promise<ScrapeResult> {
+  const { directUrl, searchParams, useCrawl, maxPages, waitFor, includeTags, excludeTags } = request;
+
+  // Build Firecrawl config from request parameters
+  const firecrawlOptions = {
+    waitFor,
+    includeTags,
+    excludeTags
+  } as Partial<FirecrawlScrapeConfig>;
+
+  if (searchParams) {
+    return FirecrawlService.scrapeWithSearchParams(searchParams, {
+      useCrawl: useCrawl || false,
+      maxPages: maxPages || 1,
+      firecrawlOptions
+    }, onCrawlProgress);
+  }
+
+  if (!directUrl) {
+    throw new Error('Either directUrl or searchParams must be provided');
+  }
+
+  if (useCrawl && maxPages && maxPages > 1) {
+    // Use crawl for multiple pages
+    const firecrawlResponse = await FirecrawlService.crawlPropertyPages(directUrl, maxPages, {
+      scrapeOptions: firecrawlOptions // Pass options under scrapeOptions key
+    }, onCrawlProgress);
+    const scrapedProperties = await FirecrawlService.transformFirecrawlData(firecrawlResponse, directUrl);
+
+    return {
+      success: true,
+      data: scrapedProperties.map(property => ({
+        ...property,
+        validationErrors: FirecrawlService.validateScrapedProperty(property)
+      })),
+      metadata: {
+        url: directUrl,
+        scrapedAt: new Date().toISOString(),
+        totalFound: scrapedProperties.length,
+        source: adapterForUrl(directUrl).id,
+        firecrawlJobId: firecrawlResponse.id
+      }
+    };
+  }
+
+  // Use single page scrape - RETURN ALL RAW DATA
+  const firecrawlResponse = await FirecrawlService.scrapePropertyUrl(directUrl, firecrawlOptions);
+
+  logger.info('Raw Firecrawl response received', {
+    directUrl,
+    hasRawData: !!firecrawlResponse.rawFirecrawlData,
+    responseKeys: Object.keys(firecrawlResponse),
+    dataKeys: Object.keys(firecrawlResponse.data || {})
+  });
+
+  return {
+    success: true,
+    data: firecrawlResponse.data || firecrawlResponse.rawFirecrawlData || [], // Return raw data directly
+    rawFirecrawlData: firecrawlResponse.rawFirecrawlData, // Include complete raw response
+    metadata: {
+      url: directUrl,
+      scrapedAt: new Date().toISOString(),
+      totalFound: 1, // Single page scrape
+      rawDataMode: true,
+      firecrawlFormats: firecrawlResponse.rawFirecrawlData ? Object.keys(firecrawlResponse.rawFirecrawlData) : []
+    }
+  };
+}
+
+/**
+ * Listings a scrape found (a raw single-page scrape counts as one page)
+ */
+export const scrapedCount = (result: ScrapeResult) =>
+  Array.isArray(result.data) ? result.data.length : result.metadata.totalFound;
+
+/**
+ * Update a preset's last run stats. Best effort - a missing preset never fails the scrape
+ */
+export const recordPresetRun = async (presetId: string | undefined, result: ScrapeResult) => {
+  if (!presetId || !result.success) return;
+
+  const { error } = await DatabaseService.searchPresets.recordRun(presetId, scrapedCount(result));
+  if (error) {
+    logger.warn('Failed to record search preset run', { presetId, error: error.message });
+  }
+};
+
+/**
+ * Record progress and tell subscribers. Throws CANCELLED once the job is no longer active
+ */
+const advance = async (id: string, changes: ScrapeJobChanges) => {
+  const { data, error } = await DatabaseService.scrapeJobs.update(id, changes);
+  if (error) {
+    throw new Error(`Failed to record scrape job progress: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(CANCELLED);
+  }
+  publish(data);
+  return data;
+};
+
+/**
+ * Take one claimed job through its remaining stages. A scrape kept from an earlier attempt
+ * is not repeated.
+ */
+async function runScrapeJob(job: any): Promise<void> {
+  const request: ScrapeJobRequest = job.request;
+  const startedAt = Date.now();
+
+  try {
+    if (job.attempts > MAX_JOB_ATTEMPTS) {
+      throw new Error(`Gave up after ${MAX_JOB_ATTEMPTS} attempts`);
+    }
+
+    let result: ScrapeResult | null = job.result;
+    if (!result) {
+      await advance(job.id, {
+        status: 'running',
+        progress: SCRAPE_START_PROGRESS,
+        stageMessage: `Scraping ${job.source_url || 'page'}`
+      });
+
+      result = await performScrape(request, async (completed, total) => {
+        const share = total > 0 ? Math.min(completed / total, 1) : 0;
+        await advance(job.id, {
+          progress: SCRAPE_START_PROGRESS + share * (SCRAPE_DONE_PROGRESS - SCRAPE_START_PROGRESS),
+          stageMessage: `Crawled ${completed} of ${total} pages`
+        });
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || 'Scrape failed');
+      }
+
+      await advance(job.id, {
+        progress: SCRAPE_DONE_PROGRESS,
+        stageMessage: result.metadata.rawDataMode ? 'Page scraped' : `Scraped ${scrapedCount(result)} listings`,
+        result
+      });
+      await recordPresetRun(request.presetId, result);
+    }
+
+    let extraction: Record<string, any> | undefined;
+    if (request.extract && result.rawFirecrawlData) {
+      await advance(job.id, {
+        status: 'extracting',
+        progress: EXTRACTION_START_PROGRESS,
+        stageMessage: 'Extracting listings with C1'
+      });
+
+      const caller: LlmCaller = job.llm_caller;
+      const meter = startLlmMeterFor(caller, 'scrape-job', 'extraction', getExtractionModel());
+      const { data, error } = await extractScrapedProperties({
+        rawFirecrawlData: result.rawFirecrawlData,
+        sourceUrl: result.metadata.url,
+        searchParams: result.metadata.searchParams,
+        extractionHints: request.extractionHints
+      }, meter);
+
+      if (error) {
+        const invalid = error.validationErrors?.length ? ` (${error.validationErrors.length} listings failed validation)` : '';
+        throw new Error(`${error.message}${error.details ? `: ${error.details}` : ''}${invalid}`);
+      }
+      extraction = data;
+    }
+
+    const listings = extraction ? extraction.properties.length : scrapedCount(result);
+    await advance(job.id, {
+      status: 'review',
+      progress: 100,
+      stageMessage: extraction || !result.metadata.rawDataMode
+        ? `${listings} listings ready for review`
+        : 'Raw page ready for review',
+      extraction
+    });
+
+    logger.info('Scrape job ready for review', { jobId: job.id, listings, durationMs: Date.now() - startedAt });
+  } catch (error: any) {
+    if (error.message === CANCELLED) {
+      logger.info('Scrape job cancelled', { jobId: job.id });
+      return;
+    }
+
+    logger.error('Scrape job failed', { jobId: job.id, attempt: job.attempts, error: error.message });
+    const { data } = await DatabaseService.scrapeJobs.update(job.id, {
+      status: 'failed',
+      stageMessage: 'Failed',
+      error: error.message || 'Unknown error'
+    });
+    if (data) publish(data);
+  }
+}
+
+let workerBusy = false;
+
+/**
+ * Run queued jobs one after another until the queue is empty. Returns how many were run
+ */
+export async function processQueuedScrapeJobs(): Promise<number> {
+  // One job at a time per instance; the running pass picks up anything queued meanwhile
+  if (workerBusy) return 0;
+  workerBusy = true;
+
+  let processed = 0;
+  try {
+    for (;;) {
+      const { data: job, error } = await DatabaseService.scrapeJobs.claimNext(STALE_JOB_MINUTES);
+      if (error) {
+        logger.error('Failed to claim scrape job', { error: error.message });
+        break;
+      }
+      if (!job) break;
+
+      await runScrapeJob(job);
+      processed++;
+    }
+  } finally {
+    workerBusy = false;
+  }
+
+  return processed;
+}
+
+/**
+ * Start on queued jobs now rather than at the next poll
+ */
+const wakeWorker = () => {
+  if (!config.SCRAPE_JOB_POLL_INTERVAL_SECONDS) return;
+
+  processQueuedScrapeJobs().catch(error => {
+    logger.error('Scrape job run failed', { error: error.message });
+  });
+};
+
+/**
+ * Look for queued jobs every SCRAPE_JOB_POLL_INTERVAL_SECONDS (0 disables)
+ * Returns a function that stops the worker
+ */
+export function startScrapeJobWorker(): () => void {
+  const intervalSeconds = config.SCRAPE_JOB_POLL_INTERVAL_SECONDS;
+  if (!intervalSeconds) {
+    logger.info('Scrape job worker disabled');
+    return () => undefined;
+  }
+
+  const timer = setInterval(wakeWorker, intervalSeconds * 1000);
+  timer.unref();
+
+  logger.info('Scrape job worker scheduled', { intervalSeconds });
+  return () => clearInterval(timer);
+}
+
+/**
+ * Queue a scrape; C1 extraction is charged to `caller`
+ */
+export const enqueueScrapeJob = async (request: ScrapeJobRequest, caller: LlmCaller) => {
+  const { data, error } = await DatabaseService.scrapeJobs.create({
+    createdBy: caller.userId,
+    request,
+    llmCaller: caller,
+    sourceUrl: scrapeRequestUrl(request)
+  });
+  if (error) return { data: null, error };
+
+  wakeWorker();
+  return { data, error: null };
+};
+
+/**
+ * Cancel a queued or running job. A Firecrawl or C1 call in flight finishes, but its result
+ * is dropped
+ */
+export const cancelScrapeJob = async (id: string) => {
+  const { data, error } = await DatabaseService.scrapeJobs.cancel(id);
+  if (error) return { data: null, error };
+
+  publish(data);
+  return { data, error: null };
+};
+
+/**
+ * Queue a failed or cancelled job again
+ */
+export const retryScrapeJob = async (id: string) => {
+  const { data, error } = await DatabaseService.scrapeJobs.retry(id);
+  if (error) return { data: null, error };
+
+  publish(data);
+  wakeWorker();
+  return { data, error: null };
+};
+
+/**
+ * Run C1 extraction on a scraped page waiting for review
+ */
+export const extractScrapeJob = async (id: string) => {
+  const { data, error } = await DatabaseService.scrapeJobs.requestExtraction(id);
+  if (error) return { data: null, error };
+
+  publish(data);
+  wakeWorker();
+  return { data, error: null };
+};
+
+/**
+ * Close a reviewed job (its listings were imported or dismissed)
+ */
+export const completeScrapeJob = async (id: string) => {
+  const { data, error } = await DatabaseService.scrapeJobs.markDone(id);
+  if (error) return { data: null, error };
+
+  publish(data);
+  return { data, error: null };
+};
+
+export const getScrapeJob = (id: string) => DatabaseService.scrapeJobs.getById(id);
+
+export const getScrapeJobSummary = (id: string) => DatabaseService.scrapeJobs.getSummary(id);
+
+export const listScrapeJobs = (
+  filters: Parameters<typeof DatabaseService.scrapeJobs.getAll>[0],
+  options: Parameters<typeof DatabaseService.scrapeJobs.getAll>[1]
+) => DatabaseService.scrapeJobs.getAll(filters, options);
+
+export const ScrapeJobService = {
+  performScrape,
+  recordPresetRun,
+  scrapeRequestUrl,
+  enqueueScrapeJob,
+  cancelScrapeJob,
+  retryScrapeJob,
+  extractScrapeJob,
+  completeScrapeJob,
+  getScrapeJob,
+  getScrapeJobSummary,
+  listScrapeJobs,
+  subscribeToScrapeJob,
+  processQueuedScrapeJobs,
+  startScrapeJobWorker
+};
+
+export default ScrapeJobService;
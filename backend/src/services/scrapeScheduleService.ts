@@ -0,0 +1,324 @@
+/**
+ * Scrape Schedule Service
+ *
+ * Re-runs saved scraper searches (search presets) on a cron schedule through
+ * FirecrawlService.scrapeWithSearchParams and compares the listings with imported
+ * properties by source_url. New listings, listings gone since the previous run and
+ * price/area/availability differences are queued in scrape_changes for an admin to apply
+ * to the linked property or dismiss, rather than imported as more drafts.
+ */
+
+import { DatabaseService, ScrapeChangeInput, ScrapeChangeType } from './cloudSqlService';
+import { FirecrawlService, toAvailabilityStatus } from './firecrawlService';
+import { getBackendConfig } from '../config/environment';
+import { createLogger } from '../utils/logger';
+import { nextCronRun } from '../utils/cron';
+import { ScrapedPropertyData } from '../types/scraper';
+
+const logger = createLogger('ScrapeScheduleService');
+const config = getBackendConfig();
+
+export interface ScheduleInput {
+  presetId?: string | undefined;
+  cron?: string | undefined;
+  maxPages?: number | undefined;
+  isActive?: boolean | undefined;
+}
+
+/**
+ * Compare a run's listings with the properties imported from them
+ * - new: no property has the listing's source URL
+ * - changed: price, area (sqft) or availability differs from the property
+ * - disappeared: seen by the previous run, missing now, and imported (and still available)
+ * Listing fields the scrape did not find are not treated as changes.
+ */
+export function diffListings(
+  listings: ScrapedPropertyData[],
+  imported: any[],
+  previousUrls: string[]
+): ScrapeChangeInput[] {
+  const bySourceUrl = new Map(imported.map(property => [property.source_url, property]));
+  const seen = new Set(listings.map(listing => listing.sourceUrl));
+  const changes: ScrapeChangeInput[] = [];
+
+  for (const listing of listings) {
+    const property = bySourceUrl.get(listing.sourceUrl);
+    if (!property) {
+      changes.push({ changeType: 'new', sourceUrl: listing.sourceUrl, propertyId: null, listing, changes: {} });
+      continue;
+    }
+
+    const diff: ScrapeChangeInput['changes'] = {};
+    const price = listing.price?.amount;
+    if (price && Math.round(price * 100) !== Math.round(Number(property.price || 0) * 100)) {
+      diff.price = { from: property.price === null ? null : Number(property.price), to: price };
+    }
+
+    const area = listing.size?.unit === 'sqft' ? Math.round(listing.size.area) : undefined;
+    if (area && area !== property.area_sqft) {
+      diff.area_sqft = { from: property.area_sqft, to: area };
+    }
+
+    const availability = toAvailabilityStatus(listing);
+    if (listing.availability && availability !== (property.availability_status || 'available')) {
+      diff.availability_status = { from: property.availability_status, to: availability };
+    }
+
+    if (Object.keys(diff).length > 0) {
+      changes.push({ changeType: 'changed', sourceUrl: listing.sourceUrl, propertyId: property.id, listing, changes: diff });
+    }
+  }
+
+  for (const sourceUrl of previousUrls) {
+    const property = bySourceUrl.get(sourceUrl);
+    if (seen.has(sourceUrl) || !property || property.availability_status === 'not-available') continue;
+
+    changes.push({
+      changeType: 'disappeared',
+      sourceUrl,
+      propertyId: property.id,
+      listing: null,
+      changes: { availability_status: { from: property.availability_status, to: 'not-available' } }
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Listings keyed by source URL. URLs shared by several listings (a search page without
+ * links to the listings' own pages) cannot identify a listing and are left out.
+ */
+const distinctListings = (listings: ScrapedPropertyData[]) => {
+  const byUrl = new Map<string, ScrapedPropertyData[]>();
+  for (const listing of listings) {
+    if (!listing.sourceUrl) continue;
+    byUrl.set(listing.sourceUrl, [...(byUrl.get(listing.sourceUrl) || []), listing]);
+  }
+
+  const distinct = [...byUrl.values()].filter(group => group.length === 1).map(group => group[0]!);
+  return { distinct, ambiguous: listings.length - distinct.length };
+};
+
+/**
+ * Scrape one claimed schedule, queue its differences and close the run
+ */
+async function runSchedule(schedule: any): Promise<void> {
+  const startedAt = Date.now();
+
+  try {
+    const maxPages = schedule.max_pages || 1;
+    const result = await FirecrawlService.scrapeWithSearchParams(schedule.search_params, {
+      useCrawl: maxPages > 1,
+      maxPages
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Scrape failed');
+    }
+
+    const scraped: ScrapedPropertyData[] = Array.isArray(result.data) ? result.data : [];
+    await DatabaseService.searchPresets.recordRun(schedule.preset_id, scraped.length);
+
+    const { distinct, ambiguous } = distinctListings(scraped);
+    if (ambiguous > 0) {
+      logger.warn('Scheduled scrape listings without their own URL were skipped', {
+        scheduleId: schedule.id,
+        skipped: ambiguous
+      });
+    }
+
+    const seenUrls = distinct.map(listing => listing.sourceUrl);
+    const previousUrls: string[] = schedule.last_seen_urls || [];
+    const { data: imported, error: lookupError } = await DatabaseService.scrapeChanges.findImported([
+      ...new Set([...seenUrls, ...previousUrls])
+    ]);
+    if (lookupError) {
+      throw new Error(`Failed to look up imported properties: ${lookupError.message}`);
+    }
+
+    const changes = diffListings(distinct, imported, previousUrls);
+    const { error: recordError } = await DatabaseService.scrapeChanges.record(schedule.id, schedule.run_id, changes, seenUrls);
+    if (recordError) {
+      throw new Error(`Failed to queue changes: ${recordError.message}`);
+    }
+
+    const counts: Record<ScrapeChangeType, number> = { new: 0, changed: 0, disappeared: 0 };
+    changes.forEach(change => counts[change.changeType]++);
+
+    await DatabaseService.scrapeSchedules.finishRun(schedule.id, schedule.run_id, {
+      status: 'completed',
+      listingsFound: scraped.length,
+      counts,
+      seenUrls
+    });
+
+    logger.info('Scheduled scrape completed', {
+      scheduleId: schedule.id,
+      preset: schedule.preset_name,
+      listings: scraped.length,
+      ...counts,
+      durationMs: Date.now() - startedAt
+    });
+  } catch (error: any) {
+    logger.error('Scheduled scrape failed', { scheduleId: schedule.id, error: error.message });
+    await DatabaseService.scrapeSchedules.finishRun(schedule.id, schedule.run_id, {
+      status: 'failed',
+      error: error.message || 'Unknown error'
+    });
+  }
+}
+
+let running = false;
+
+/**
+ * Run every due schedule, one at a time. Returns how many were run
+ */
+export async function runDueSchedules(): Promise<number> {
+  // Skip a tick rather than overlap a slow run
+  if (running) return 0;
+  running = true;
+
+  let processed = 0;
+  try {
+    for (;;) {
+      const { data: schedule, error } = await DatabaseService.scrapeSchedules.claimDue(cron => nextCronRun(cron));
+      if (error) {
+        logger.error('Failed to claim scrape schedule', { error: error.message });
+        break;
+      }
+      if (!schedule) break;
+
+      await runSchedule(schedule);
+      processed++;
+    }
+  } finally {
+    running = false;
+  }
+
+  return processed;
+}
+
+/**
+ * Look for due schedules now rather than at the next check
+ */
+const wakeScheduler = () => {
+  if (!config.SCRAPE_SCHEDULE_CHECK_INTERVAL_MINUTES) return;
+
+  runDueSchedules().catch(error => {
+    logger.error('Scheduled scrape run failed', { error: error.message });
+  });
+};
+
+/**
+ * Look for due schedules every SCRAPE_SCHEDULE_CHECK_INTERVAL_MINUTES (0 disables)
+ * Returns a function that stops the scheduler
+ */
+export function startScrapeScheduler(): () => void {
+  const intervalMinutes = config.SCRAPE_SCHEDULE_CHECK_INTERVAL_MINUTES;
+  if (!intervalMinutes) {
+    logger.info('Scheduled scrapes disabled');
+    return () => undefined;
+  }
+
+  const timer = setInterval(wakeScheduler, intervalMinutes * 60 * 1000);
+  timer.unref();
+
+  logger.info('Scheduled scrapes checked', { intervalMinutes });
+  return () => clearInterval(timer);
+}
+
+export const listSchedules = () => DatabaseService.scrapeSchedules.getAll();
+
+/**
+ * Schedule a preset the user can see (their own or a shared one)
+ */
+export const createSchedule = async (userId: string, input: ScheduleInput & { presetId: string; cron: string }) => {
+  const { error: presetError } = await DatabaseService.searchPresets.getById(userId, input.presetId);
+  if (presetError) {
+    return { data: null, error: presetError };
+  }
+
+  const isActive = input.isActive !== false;
+  return DatabaseService.scrapeSchedules.create({
+    presetId: input.presetId,
+    createdBy: userId,
+    cron: input.cron,
+    maxPages: input.maxPages || 1,
+    isActive,
+    nextRunAt: isActive ? nextCronRun(input.cron) : null
+  });
+};
+
+/**
+ * Change a schedule; the next run is worked out again when its cron or active flag changes
+ */
+export const updateSchedule = async (id: string, input: ScheduleInput) => {
+  const { data: schedule, error } = await DatabaseService.scrapeSchedules.getById(id);
+  if (error) {
+    return { data: null, error };
+  }
+
+  const cron = input.cron ?? schedule.cron;
+  const isActive = input.isActive ?? schedule.is_active;
+  const rescheduled = input.cron !== undefined || input.isActive !== undefined;
+
+  return DatabaseService.scrapeSchedules.update(id, {
+    cron: input.cron,
+    max_pages: input.maxPages,
+    is_active: input.isActive,
+    next_run_at: rescheduled ? (isActive ? nextCronRun(cron) : null) : undefined
+  });
+};
+
+export const deleteSchedule = (id: string) => DatabaseService.scrapeSchedules.delete(id);
+
+/**
+ * Run a schedule now; its regular cadence is unchanged afterwards
+ */
+export const runScheduleNow = async (id: string) => {
+  const result = await DatabaseService.scrapeSchedules.runNow(id);
+  if (!result.error) wakeScheduler();
+  return result;
+};
+
+export const getScheduleRuns = (id: string) => DatabaseService.scrapeSchedules.getRuns(id);
+
+export const listChanges = (
+  filters: { status?: string | undefined; scheduleId?: string | undefined; changeTypes?: string[] | undefined },
+  pagination: { page?: number | undefined; limit?: number | undefined }
+) => DatabaseService.scrapeChanges.getAll(filters, pagination);
+
+/**
+ * Apply a change to its property; a new listing is imported as a draft
+ */
+export const applyChange = async (id: string, reviewerId: string) => {
+  const { data: change, error } = await DatabaseService.scrapeChanges.getById(id);
+  if (error) {
+    return { data: null, error };
+  }
+
+  const newProperty = change.change_type === 'new' && change.listing
+    ? FirecrawlService.toPropertyRecord(change.listing, reviewerId)
+    : undefined;
+
+  return DatabaseService.scrapeChanges.apply(id, reviewerId, newProperty);
+};
+
+export const dismissChange = (id: string, reviewerId: string) => DatabaseService.scrapeChanges.dismiss(id, reviewerId);
+
+export const ScrapeScheduleService = {
+  diffListings,
+  runDueSchedules,
+  startScrapeScheduler,
+  listSchedules,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  runScheduleNow,
+  getScheduleRuns,
+  listChanges,
+  applyChange,
+  dismissChange
+};
+
+export default ScrapeScheduleService;
@@ -0,0 +1,211 @@
+/**
+ * Saved Search Alert Service
+ *
+ * When a property is listed, or an existing listing becomes available again, every saved
+ * search (with alerts on) whose filters match it gets an entry in the owner's in-app inbox.
+ * Pending entries are emailed periodically as one digest per user through the mail transport.
+ */
+
+import { DatabaseService } from './cloudSqlService';
+import { sendMail } from './mailTransport';
+import { getBackendConfig } from '../config/environment';
+import { escapeHtml } from '../utils/html';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+const config = getBackendConfig();
+
+export type SearchAlertReason = 'new' | 'available';
+
+/**
+ * A listing is on the market when its status and availability both say so
+ * (a missing availability_status counts as available, as in the listing filters)
+ */
+const isListingAvailable = (property: any) =>
+  !!property &&
+  (property.status ?? 'available') === 'available' &&
+  (property.availability_status ?? 'available') === 'available';
+
+/**
+ * Match a property against all saved searches and file alerts for the new matches
+ * Returns the number of alerts created
+ */
+export async function notifyMatchingSearches(propertyId: string, reason: SearchAlertReason): Promise<number> {
+  const { data: matches, error } = await DatabaseService.savedSearches.findMatchesForProperty(propertyId);
+  if (error) {
+    throw new Error(`Failed to match saved searches: ${error.message}`);
+  }
+
+  const { data: alerts, error: alertError } = await DatabaseService.searchAlerts.createForProperty(propertyId, matches, reason);
+  if (alertError) {
+    throw new Error(`Failed to create search alerts: ${alertError.message}`);
+  }
+
+  logger.info('Saved search alerts created', {
+    propertyId,
+    reason,
+    matchedSearches: matches.length,
+    alertsCreated: alerts.length
+  });
+
+  return alerts.length;
+}
+
+/**
+ * Run matching without holding up the request that changed the property
+ */
+const notifyInBackground = (propertyId: string, reason: SearchAlertReason) => {
+  notifyMatchingSearches(propertyId, reason).catch(error => {
+    logger.error('Saved search matching failed', { propertyId, reason, error: error.message });
+  });
+};
+
+/**
+ * Hook for a newly created property
+ */
+export function handlePropertyCreated(property: any): void {
+  if (isListingAvailable(property)) {
+    notifyInBackground(property.id, 'new');
+  }
+}
+
+/**
+ * Hook for an updated property - only a transition to available triggers alerts
+ */
+export function handlePropertyUpdated(before: any, after: any): void {
+  if (!isListingAvailable(before) && isListingAvailable(after)) {
+    notifyInBackground(after.id, 'available');
+  }
+}
+
+const formatPrice = (price: any) =>
+  price ? `₹${Number(price).toLocaleString('en-IN')}/month` : 'Price on request';
+
+/**
+ * Listing URL that re-runs the saved search
+ */
+const buildSearchUrl = (query: Record<string, any> = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+  });
+  const search = params.toString();
+  return `${config.APP_BASE_URL}/properties${search ? `?${search}` : ''}`;
+};
+
+/**
+ * One digest email for a user's pending alerts, grouped by saved search
+ */
+const buildDigestEmail = (alerts: any[]) => {
+  const groups = new Map<string, any[]>();
+  alerts.forEach(alert => {
+    groups.set(alert.saved_search_id, [...(groups.get(alert.saved_search_id) || []), alert]);
+  });
+
+  const greeting = `Hi ${alerts[0].user_name || 'there'},`;
+  const intro = `${alerts.length} ${alerts.length === 1 ? 'property matches' : 'properties match'} your saved searches.`;
+  const textSections: string[] = [];
+  const htmlSections: string[] = [];
+
+  groups.forEach(searchAlerts => {
+    const { saved_search_name: name, saved_search_query: query } = searchAlerts[0];
+    const url = buildSearchUrl(query);
+    const lines = searchAlerts.map(alert =>
+      `- ${alert.title} (${alert.location}) - ${formatPrice(alert.price)}${alert.reason === 'available' ? ' [available again]' : ''}`
+    );
+
+    textSections.push(`${name}\n${lines.join('\n')}\nView all: ${url}`);
+    htmlSections.push(`
+      <h3 style="margin:24px 0 8px">${escapeHtml(name)}</h3>
+      <ul>${searchAlerts.map(alert => `
+        <li><strong>${escapeHtml(alert.title)}</strong> - ${escapeHtml(alert.location)} - ${formatPrice(alert.price)}${alert.reason === 'available' ? ' <em>(available again)</em>' : ''}</li>`).join('')}
+      </ul>
+      <a href="${escapeHtml(url)}">View all matches</a>`);
+  });
+
+  const manageUrl = `${config.APP_BASE_URL}/dashboard`;
+
+  return {
+    subject: alerts.length === 1
+      ? `New match for "${alerts[0].saved_search_name}"`
+      : `${alerts.length} new matches for your saved searches`,
+    text: `${greeting}\n\n${intro}\n\n${textSections.join('\n\n')}\n\nManage your alerts: ${manageUrl}\n`,
+    html: `<p>${escapeHtml(greeting)}</p><p>${intro}</p>${htmlSections.join('')}
+      <p style="margin-top:24px;color:#6b7280;font-size:12px">Manage your alerts from your <a href="${manageUrl}">dashboard</a>.</p>`
+  };
+};
+
+/**
+ * Email every user their pending alerts as one digest
+ * Returns how many digests were sent; a failed user is retried on the next run
+ */
+export async function sendSearchAlertDigests(): Promise<number> {
+  const { data: pending, error } = await DatabaseService.searchAlerts.getPendingDigest();
+  if (error) {
+    throw new Error(`Failed to load pending search alerts: ${error.message}`);
+  }
+
+  const byUser = new Map<string, any[]>();
+  pending.forEach((alert: any) => {
+    byUser.set(alert.user_id, [...(byUser.get(alert.user_id) || []), alert]);
+  });
+
+  let sent = 0;
+  for (const [userId, alerts] of byUser) {
+    try {
+      await sendMail({ to: alerts[0].email, ...buildDigestEmail(alerts) });
+      await DatabaseService.searchAlerts.markEmailed(alerts.map(alert => alert.id));
+      sent++;
+    } catch (sendError: any) {
+      logger.error('Saved search digest failed', { userId, alerts: alerts.length, error: sendError.message });
+    }
+  }
+
+  if (byUser.size > 0) {
+    logger.info('Saved search digests sent', { users: byUser.size, sent, alerts: pending.length });
+  }
+
+  return sent;
+}
+
+/**
+ * Send digests every SEARCH_ALERT_DIGEST_INTERVAL_MINUTES (0 disables)
+ * Returns a function that stops the schedule
+ */
+export function startSearchAlertDigestScheduler(): () => void {
+  const intervalMinutes = config.SEARCH_ALERT_DIGEST_INTERVAL_MINUTES;
+  if (!intervalMinutes) {
+    logger.info('Saved search digest disabled');
+    return () => undefined;
+  }
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await sendSearchAlertDigests();
+    } catch (error: any) {
+      logger.error('Saved search digest run failed', { error: error.message });
+    } finally {
+      running = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+  timer.unref();
+
+  logger.info('Saved search digest scheduled', { intervalMinutes });
+  return () => clearInterval(timer);
+}
+
+export const SearchAlertService = {
+  notifyMatchingSearches,
+  handlePropertyCreated,
+  handlePropertyUpdated,
+  sendSearchAlertDigests,
+  startSearchAlertDigestScheduler
+};
+
+export default SearchAlertService;
@@ -0,0 +1,528 @@
+/**
+ * Source Adapter Helpers
+ *
+ * Parsing shared by the portal adapters: Indian price and area notation, listing cards in
+ * page markdown, search parameter checks and the common ScrapedPropertyData normaliser.
+ * Kept free of logging and I/O so adapters can be tested against saved pages.
+ */
+
+import {
+  PropertyExtractionSchema,
+  ScrapedPropertyData,
+  SearchParameters,
+  SourcePortal
+} from '../../types/scraper';
+import { NormaliseContext, RawListing, SourceCapabilities } from './types';
+
+/**
+ * JSON extraction schema for property data
+ * This schema is used in Firecrawl's JSON format: { type: "json", prompt, schema }
+ */
+export const PROPERTY_EXTRACTION_SCHEMA: PropertyExtractionSchema = {
+  title: {
+    type: 'string',
+    description: 'Property listing title'
+  },
+  description: {
+    type: 'string',
+    description: 'Detailed property description'
+  },
+  price: {
+    type: 'object',
+    properties: {
+      amount: { type: 'number' },
+      currency: { type: 'string' },
+      period: { type: 'string' } // monthly, yearly, one-time
+    }
+  },
+  location: {
+    type: 'string',
+    description: 'Property location/address'
+  },
+  size: {
+    type: 'object',
+    properties: {
+      area: { type: 'number' },
+      unit: { type: 'string' } // sqft, seats, etc.
+    }
+  },
+  amenities: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'List of available amenities'
+  },
+  features: {
+    type: 'object',
+    properties: {
+      furnished: { type: 'boolean' },
+      parking: { type: 'boolean' },
+      wifi: { type: 'boolean' },
+      ac: { type: 'boolean' },
+      security: { type: 'boolean' },
+      cafeteria: { type: 'boolean' }
+    }
+  },
+  contact: {
+    type: 'object',
+    properties: {
+      phone: { type: 'string' },
+      email: { type: 'string' }
+    }
+  },
+  images: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Array of image URLs'
+  },
+  availability: {
+    type: 'string',
+    description: 'Availability status and date'
+  },
+  url: {
+    type: 'string',
+    description: 'Link to the listing\'s own detail page, if shown'
+  },
+  coordinates: {
+    type: 'object',
+    properties: {
+      lat: { type: 'number' },
+      lng: { type: 'number' }
+    },
+    description: 'Latitude and longitude of the listing, if the page has a map pin'
+  }
+};
+
+export const DEFAULT_EXTRACTION_PROMPT =
+  'Extract commercial property listing details including title, price, location, size, amenities, features, contact info, and images';
+
+// Crawl includePaths for the common ?page=N and ?p=N result pages
+export const QUERY_PAGINATION_PATHS = ['.*page=[0-9]+.*', '.*p=[0-9]+.*'];
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  l: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7
+};
+
+const AMOUNT_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|lacs?|lakhs?|l|cr|crores?)?\b/i;
+
+const SQM_TO_SQFT = 10.7639;
+const ACRE_TO_SQFT = 43560;
+
+const SIZE_PATTERN =
+  /(\d[\d,]*(?:\.\d+)?)\s*(sq\.?\s*ft\.?|sqft|square\s*feet|sq\.?\s*(?:m|mt|mtr)s?\b\.?|sqm|square\s*met(?:er|re)s?|seats?|desks?|acres?)/i;
+
+const PRICE_PATTERN = /(?:₹|\brs\.?|\binr\b)\s*\d[\d,]*(?:\.\d+)?\s*(?:k|thousand|lacs?|lakhs?|l|cr|crores?)?\b(?:\s*(?:\/|per)\s*[a-z]+(?:\s*\/\s*[a-z]+)?)?/gi;
+
+/**
+ * Whitespace-collapsed text, or '' for anything that is not a string
+ */
+export const cleanText = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+/**
+ * URL path segment for a place or type name ("HSR Layout, Bangalore" -> "hsr-layout-bangalore")
+ */
+export const slugify = (value: string) =>
+  value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Rupee amount from a number or Indian notation ("₹ 1.2 Lac", "45K", "Rs 2,50,000"), or null
+ */
+export const parseAmount = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = value.replace(/₹|\brs\.?|\binr\b/gi, ' ').match(AMOUNT_PATTERN);
+  if (!match?.[1]) return null;
+
+  const amount = parseFloat(match[1].replace(/,/g, ''));
+  const multiplier = match[2] ? AMOUNT_MULTIPLIERS[match[2].toLowerCase()] || 1 : 1;
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount * multiplier) : null;
+};
+
+/**
+ * Billing period named in a price ("/month", "per annum", "outright"); monthly when unstated
+ */
+export const parsePeriod = (value: unknown): 'monthly' | 'yearly' | 'one-time' => {
+  const text = cleanText(value).toLowerCase();
+  if (/year|annum|annual|\byr\b|\bp\.?a\.?\b/.test(text)) return 'yearly';
+  if (/one[- ]?time|outright|\bsale\b/.test(text)) return 'one-time';
+  return 'monthly';
+};
+
+/**
+ * Price from Firecrawl JSON ({ amount, currency, period }) or listing text ("₹45,000/month")
+ */
+export const parsePrice = (value: unknown): ScrapedPropertyData['price'] | null => {
+  if (value && typeof value === 'object') {
+    const price = value as Record<string, unknown>;
+    const amount = parseAmount(price.amount);
+    if (!amount) return null;
+    const currency = cleanText(price.currency).toUpperCase();
+    return {
+      amount,
+      currency: ['INR', 'USD', 'EUR'].includes(currency) ? currency : 'INR',
+      period: parsePeriod(price.period)
+    };
+  }
+
+  const amount = parseAmount(value);
+  return amount ? { amount, currency: 'INR', period: parsePeriod(value) } : null;
+};
+
+const sizeUnit = (unit: string, defaultUnit: 'sqft' | 'seats') => {
+  const text = unit.toLowerCase().replace(/[\s.]/g, '');
+  if (/^(seats?|desks?)$/.test(text)) return { unit: 'seats' as const, factor: 1 };
+  if (/^(sqm|sqmt|sqmtr|sqmtrs|sqms|squaremet(er|re)s?)$/.test(text)) return { unit: 'sqft' as const, factor: SQM_TO_SQFT };
+  if (/^acres?$/.test(text)) return { unit: 'sqft' as const, factor: ACRE_TO_SQFT };
+  if (/^(sqft|squarefeet|sqfeet)$/.test(text)) return { unit: 'sqft' as const, factor: 1 };
+  return { unit: defaultUnit, factor: 1 };
+};
+
+/**
+ * Area from Firecrawl JSON ({ area, unit }) or listing text ("1,200 sq.ft", "111 sq m", "40 seats").
+ * Square metres and acres are converted to whole square feet.
+ */
+export const parseSize = (
+  value: unknown,
+  defaultUnit: 'sqft' | 'seats' = 'sqft'
+): ScrapedPropertyData['size'] | null => {
+  let area: number;
+  let unit = '';
+
+  if (typeof value === 'number') {
+    area = value;
+  } else if (value && typeof value === 'object') {
+    const size = value as Record<string, unknown>;
+    area = typeof size.area === 'number' ? size.area : parseFloat(cleanText(size.area).replace(/,/g, ''));
+    unit = cleanText(size.unit);
+  } else if (typeof value === 'string') {
+    const match = value.match(SIZE_PATTERN) || value.match(/(\d[\d,]*(?:\.\d+)?)/);
+    if (!match?.[1]) return null;
+    area = parseFloat(match[1].replace(/,/g, ''));
+    unit = match[2] || '';
+  } else {
+    return null;
+  }
+
+  if (!Number.isFinite(area) || area <= 0) return null;
+  const resolved = sizeUnit(unit, defaultUnit);
+  return { area: Math.round(area * resolved.factor), unit: resolved.unit };
+};
+
+/**
+ * Scraped availability text ("Ready to move", "Occupied", "Available from Dec") as a status
+ */
+export const parseAvailability = (value: unknown): NonNullable<ScrapedPropertyData['availability']> => {
+  const text = cleanText(value).toLowerCase();
+  if (/available (?:from|by)|under construction|coming soon/.test(text)) return { status: 'coming-soon' };
+  if (!text || /available|ready to move|immediate|vacant/.test(text)) return { status: 'available' };
+  if (/occupied|rented|leased out|not available/.test(text)) return { status: 'occupied' };
+  return { status: 'coming-soon' };
+};
+
+/**
+ * Absolute http(s) URL resolved against the page it was found on, or null
+ */
+export const resolveUrl = (url: unknown, pageUrl: string): string | null => {
+  if (typeof url !== 'string' || !url.trim()) return null;
+  try {
+    const resolved = new URL(url.trim(), pageUrl);
+    return ['http:', 'https:'].includes(resolved.protocol) ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Absolute URL of a listing's detail page, or the scraped page when it has none
+ */
+export const listingUrl = (url: unknown, pageUrl: string): string => resolveUrl(url, pageUrl) || pageUrl;
+
+/**
+ * Map a raw listing onto ScrapedPropertyData; null when it has nothing to identify it by
+ */
+export const normaliseListing = (
+  raw: RawListing,
+  context: NormaliseContext,
+  source: SourcePortal,
+  areaUnit: 'sqft' | 'seats' = 'sqft'
+): ScrapedPropertyData | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const title = cleanText(raw.title);
+  const location = cleanText(raw.location);
+  if (!title && !location) return null;
+
+  const images = Array.isArray(raw.images) ? raw.images : [];
+  const listing: ScrapedPropertyData = {
+    title: title || 'Untitled Property',
+    description: cleanText(raw.description) || 'No description available',
+    location: location || 'Location not specified',
+    media: {
+      images: images
+        .map((image: unknown) => resolveUrl(image, context.pageUrl))
+        .filter((image: string | null): image is string => !!image),
+      videos: [] // Videos not typically available in listings
+    },
+    availability: parseAvailability(raw.availability),
+    // A listing's own page identifies it across later scrapes
+    sourceUrl: listingUrl(raw.url, context.pageUrl),
+    scrapedAt: context.scrapedAt,
+    source,
+    rawData: raw // Store original data for debugging
+  };
+
+  const price = parsePrice(raw.price);
+  if (price) listing.price = price;
+
+  const size = parseSize(raw.size, areaUnit);
+  if (size) listing.size = size;
+
+  if (Array.isArray(raw.amenities)) {
+    const amenities = raw.amenities.map(cleanText).filter(Boolean);
+    if (amenities.length > 0) listing.amenities = amenities;
+  }
+
+  if (raw.features && typeof raw.features === 'object') {
+    listing.features = {
+      furnished: Boolean(raw.features.furnished),
+      parking: Boolean(raw.features.parking),
+      wifi: Boolean(raw.features.wifi),
+      ac: Boolean(raw.features.ac),
+      security: Boolean(raw.features.security),
+      cafeteria: Boolean(raw.features.cafeteria),
+      elevator: Boolean(raw.features.elevator),
+      powerBackup: Boolean(raw.features.powerBackup || raw.features.power_backup),
+      conferenceRoom: Boolean(raw.features.conferenceRoom || raw.features.conference_room)
+    };
+  }
+
+  if (raw.contact && typeof raw.contact === 'object') {
+    const contact: NonNullable<ScrapedPropertyData['contact']> = {};
+    const phone = cleanText(raw.contact.phone);
+    const email = cleanText(raw.contact.email);
+    const contactPerson = cleanText(raw.contact.contactPerson);
+    if (phone) contact.phone = phone;
+    if (email) contact.email = email;
+    if (contactPerson) contact.contactPerson = contactPerson;
+    if (Object.keys(contact).length > 0) listing.contact = contact;
+  }
+
+  // Map pin, used to spot the same listing on other portals
+  const lat = Number(raw.coordinates?.lat);
+  const lng = Number(raw.coordinates?.lng);
+  if (raw.coordinates && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && (lat !== 0 || lng !== 0)) {
+    listing.coordinates = { lat, lng };
+  }
+
+  if (context.searchParams) {
+    listing.searchParams = context.searchParams;
+  }
+
+  return listing;
+};
+
+// [text](href), ![alt](src) and [text](<href> "title")
+const LINK_PATTERN = /(!?)\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+// [![alt](src)](href): a linked photo
+const IMAGE_LINK_PATTERN = /\[(!\[[^\]]*\]\([^)]*\))\]\([^)]*\)/g;
+
+interface ListingCard {
+  url: string;
+  title: string;
+  lines: string[];
+  images: string[];
+}
+
+const plainLine = (line: string) =>
+  cleanText(
+    line
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^\s*(?:#+|[-*+>]|\d+\.)\s+/, '')
+      .replace(/[*_`]+/g, '')
+  );
+
+const cardListing = (card: ListingCard): RawListing => {
+  const body = card.lines.join('\n');
+  const raw: RawListing = { title: card.title, url: card.url, images: card.images };
+
+  // Coworking cards quote day passes too; prefer the monthly price and never take an hourly or daily one
+  const prices = [...body.matchAll(PRICE_PATTERN)].map(match => match[0]);
+  const price = prices.find(text => /month|\bmo\b/i.test(text)) || prices.find(text => !/hour|day|week/i.test(text));
+  if (price) raw.price = price;
+
+  const size = body.match(SIZE_PATTERN);
+  if (size) raw.size = size[0];
+
+  const labelledLocation = body.match(/^(?:location|locality|address)\s*[:\-–]\s*(.+)$/im);
+  const titleLocation = card.title.match(/\bin\s+([^|]+)$/i);
+  const location = labelledLocation?.[1] || titleLocation?.[1];
+  if (location) raw.location = cleanText(location);
+
+  const availability = body.match(
+    /ready to move|immediately available|available (?:immediately|now|from [^\n,.|]+)|under construction|occupied/i
+  );
+  if (availability) raw.availability = availability[0];
+
+  const furnishing = body.match(/\b(fully furnished|semi[- ]furnished|unfurnished|furnished)\b/i);
+  if (furnishing?.[1]) raw.features = { furnished: !/unfurnished/i.test(furnishing[1]) };
+
+  const amenities = body.match(/^amenities\s*[:\-–]\s*(.+)$/im);
+  if (amenities?.[1]) {
+    raw.amenities = amenities[1].split(/[,|·•]/).map(cleanText).filter(Boolean);
+  }
+
+  const description = card.lines.filter(line => line && line !== card.title).join(' ');
+  if (description) raw.description = description.slice(0, 500);
+
+  return raw;
+};
+
+/**
+ * Listing cards on a results page rendered as markdown. A card starts at the first link to a
+ * listing detail page (its text is the title) and runs until the next one; price, area,
+ * location, availability and furnishing are read from the card's text.
+ */
+export const parseMarkdownListings = (
+  markdown: string,
+  pageUrl: string,
+  isListingUrl: (url: URL) => boolean
+): RawListing[] => {
+  const cards: ListingCard[] = [];
+  const seen = new Set<string>();
+  let current: ListingCard | null = null;
+  let pendingImages: string[] = [];
+
+  for (const rawLine of (markdown || '').split('\n')) {
+    // A photo linking to the listing is just a photo; the title link starts the card
+    const line = rawLine.replace(IMAGE_LINK_PATTERN, '$1');
+
+    for (const match of line.matchAll(LINK_PATTERN)) {
+      const [, bang, text, href] = match;
+      const url = resolveUrl(href, pageUrl);
+      if (!url) continue;
+
+      // Photos belong to the card whose text follows them, which may be the next one
+      if (bang) {
+        pendingImages.push(url);
+        continue;
+      }
+
+      const parsed = new URL(url);
+      parsed.hash = '';
+      const key = parsed.toString();
+      // Repeat links to a card (photo, "View details") do not start a new one
+      if (!isListingUrl(parsed) || seen.has(key)) continue;
+
+      seen.add(key);
+      current = { url: key, title: cleanText(text), lines: [], images: pendingImages };
+      pendingImages = [];
+      cards.push(current);
+    }
+
+    const text = plainLine(line);
+    if (current && text) {
+      current.images.push(...pendingImages);
+      pendingImages = [];
+      if (!current.title) current.title = text;
+      current.lines.push(text);
+    }
+  }
+  current?.images.push(...pendingImages);
+
+  return cards.map(cardListing);
+};
+
+/**
+ * Search parameter problems for a portal with the given capabilities
+ */
+export const validateSearchParamsFor = (
+  name: string,
+  capabilities: SourceCapabilities,
+  searchParams: SearchParameters
+): string[] => {
+  const errors: string[] = [];
+  const supports = (filter: SourceCapabilities['filters'][number]) => capabilities.filters.includes(filter);
+
+  if (capabilities.requiresLocation && !searchParams.location?.trim()) {
+    errors.push(`${name} searches need a location`);
+  }
+
+  if (searchParams.propertyType && !capabilities.propertyTypes.includes(searchParams.propertyType)) {
+    errors.push(`${name} does not list ${searchParams.propertyType} properties`);
+  }
+
+  if ((searchParams.minPrice || searchParams.maxPrice) && !supports('price')) {
+    errors.push(`${name} searches cannot filter by price`);
+  }
+  if ((searchParams.minArea || searchParams.maxArea) && !supports('area')) {
+    errors.push(`${name} searches cannot filter by ${capabilities.areaUnit === 'seats' ? 'seats' : 'area'}`);
+  }
+  if (searchParams.furnished && !supports('furnished')) {
+    errors.push(`${name} searches cannot filter by furnishing`);
+  }
+  if (searchParams.availability && !supports('availability')) {
+    errors.push(`${name} searches cannot filter by availability`);
+  }
+  if (searchParams.amenities?.length && !supports('amenities')) {
+    errors.push(`${name} searches cannot filter by amenities`);
+  }
+  if (searchParams.sortBy && !capabilities.sortOrders.includes(searchParams.sortBy)) {
+    errors.push(`${name} cannot sort by ${searchParams.sortBy}`);
+  }
+
+  // Validate price range
+  if (searchParams.minPrice && searchParams.maxPrice && searchParams.minPrice >= searchParams.maxPrice) {
+    errors.push('Minimum price must be less than maximum price');
+  }
+
+  // Validate area range
+  if (searchParams.minArea && searchParams.maxArea && searchParams.minArea >= searchParams.maxArea) {
+    errors.push('Minimum area must be less than maximum area');
+  }
+
+  if (searchParams.furnished && !['furnished', 'semi-furnished', 'unfurnished'].includes(searchParams.furnished)) {
+    errors.push(`Invalid furnished status: ${searchParams.furnished}`);
+  }
+
+  if (
+    searchParams.availability &&
+    !['immediate', 'within-15-days', 'within-30-days', 'after-30-days'].includes(searchParams.availability)
+  ) {
+    errors.push(`Invalid availability: ${searchParams.availability}`);
+  }
+
+  // Validate page number
+  if (searchParams.page && (searchParams.page < 1 || searchParams.page > 100)) {
+    errors.push('Page number must be between 1 and 100');
+  }
+
+  // Validate numeric values
+  if (searchParams.minPrice && searchParams.minPrice < 0) {
+    errors.push('Minimum price cannot be negative');
+  }
+  if (searchParams.maxPrice && searchParams.maxPrice < 0) {
+    errors.push('Maximum price cannot be negative');
+  }
+  if (searchParams.minArea && searchParams.minArea < 0) {
+    errors.push('Minimum area cannot be negative');
+  }
+  if (searchParams.maxArea && searchParams.maxArea < 0) {
+    errors.push('Maximum area cannot be negative');
+  }
+
+  return errors;
+};
@@ -0,0 +1,114 @@
+/**
+ * Coworking Aggregator Source Adapters
+ *
+ * myHQ and Coworker list desks and private cabins by the seat, so prices are per seat per
+ * month and minArea/maxArea count seats rather than square feet.
+ */
+
+import { SearchParameters } from '../../types/scraper';
+import {
+  PROPERTY_EXTRACTION_SCHEMA,
+  QUERY_PAGINATION_PATHS,
+  normaliseListing,
+  parseMarkdownListings,
+  slugify,
+  validateSearchParamsFor
+} from './common';
+import { SourceAdapter, SourceCapabilities } from './types';
+
+const COWORKING_PROMPT =
+  'Extract each coworking space listing: the space name as title, description, price per seat per month, locality, seat capacity as size in seats, amenities, contact info, images and the link to the space\'s page';
+
+// "HSR Layout, Bangalore" -> { city: 'bangalore', locality: 'hsr-layout' }
+const splitLocation = (location: string) => {
+  const parts = location.split(',').map(part => slugify(part)).filter(Boolean);
+  return { city: parts[parts.length - 1] || '', locality: parts.length > 1 ? parts[0] || '' : '' };
+};
+
+/**
+ * myHQ: /{city}/coworking-spaces[/{locality}] with budget per seat and team size
+ */
+const myHqCapabilities: SourceCapabilities = {
+  propertyTypes: ['coworking'],
+  filters: ['price', 'area'],
+  sortOrders: ['relevance', 'price-low-to-high', 'price-high-to-low'],
+  requiresLocation: true,
+  areaUnit: 'seats'
+};
+
+const MY_HQ_SORT_MAP: Record<string, string> = {
+  'price-low-to-high': 'price_asc',
+  'price-high-to-low': 'price_desc'
+};
+
+const buildMyHqSearchUrl = (searchParams: SearchParameters): string => {
+  const { city, locality } = splitLocation(searchParams.location || '');
+  const url = `https://myhq.in/${city}/coworking-spaces${locality ? `/${locality}` : ''}`;
+
+  const queryParams = new URLSearchParams();
+  if (searchParams.minPrice) queryParams.set('budget_min', searchParams.minPrice.toString());
+  if (searchParams.maxPrice) queryParams.set('budget_max', searchParams.maxPrice.toString());
+  if (searchParams.minArea) queryParams.set('seats', searchParams.minArea.toString());
+  if (searchParams.maxArea) queryParams.set('seats_max', searchParams.maxArea.toString());
+
+  const sort = searchParams.sortBy && MY_HQ_SORT_MAP[searchParams.sortBy];
+  if (sort) queryParams.set('sort', sort);
+
+  if (searchParams.page && searchParams.page > 1) {
+    queryParams.set('page', searchParams.page.toString());
+  }
+
+  const queryString = queryParams.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+// Space pages: /{city}/coworking-spaces/{locality}/{space}
+const isMyHqListingUrl = (url: URL) => /^\/[^/]+\/coworking-spaces\/[^/]+\/[^/]+/i.test(url.pathname);
+
+export const myHqAdapter: SourceAdapter = {
+  id: 'myhq',
+  name: 'myHQ',
+  hosts: ['myhq.in'],
+  capabilities: myHqCapabilities,
+  buildSearchUrl: buildMyHqSearchUrl,
+  validateParams: searchParams => validateSearchParamsFor('myHQ', myHqCapabilities, searchParams),
+  extractionPrompt: COWORKING_PROMPT,
+  extractionSchema: PROPERTY_EXTRACTION_SCHEMA,
+  paginationPaths: QUERY_PAGINATION_PATHS,
+  parseMarkdown: (markdown, pageUrl) => parseMarkdownListings(markdown, pageUrl, isMyHqListingUrl),
+  normalise: (raw, context) => normaliseListing(raw, context, 'myhq', 'seats')
+};
+
+/**
+ * Coworker: /india/{city} results; only location and page can be set in the URL
+ */
+const coworkerCapabilities: SourceCapabilities = {
+  propertyTypes: ['coworking', 'office'],
+  filters: [],
+  sortOrders: ['relevance'],
+  requiresLocation: true,
+  areaUnit: 'seats'
+};
+
+const buildCoworkerSearchUrl = (searchParams: SearchParameters): string => {
+  const { city } = splitLocation(searchParams.location || '');
+  const page = searchParams.page && searchParams.page > 1 ? `?page=${searchParams.page}` : '';
+  return `https://www.coworker.com/india/${city}${page}`;
+};
+
+// Space pages: /india/{city}/{space}
+const isCoworkerListingUrl = (url: URL) => /^\/india\/[^/]+\/[^/]+/i.test(url.pathname);
+
+export const coworkerAdapter: SourceAdapter = {
+  id: 'coworker',
+  name: 'Coworker',
+  hosts: ['coworker.com'],
+  capabilities: coworkerCapabilities,
+  buildSearchUrl: buildCoworkerSearchUrl,
+  validateParams: searchParams => validateSearchParamsFor('Coworker', coworkerCapabilities, searchParams),
+  extractionPrompt: COWORKING_PROMPT,
+  extractionSchema: PROPERTY_EXTRACTION_SCHEMA,
+  paginationPaths: QUERY_PAGINATION_PATHS,
+  parseMarkdown: (markdown, pageUrl) => parseMarkdownListings(markdown, pageUrl, isCoworkerListingUrl),
+  normalise: (raw, context) => normaliseListing(raw, context, 'coworker', 'seats')
+};
@@ -0,0 +1,88 @@
+/**
+ * Housing.com Source Adapter
+ *
+ * Commercial rentals on housing.com: /in/rent/commercial-office-space-in-bangalore with
+ * rent, area, furnishing, sort and page in the query string
+ */
+
+import { SearchParameters } from '../../types/scraper';
+import {
+  DEFAULT_EXTRACTION_PROMPT,
+  PROPERTY_EXTRACTION_SCHEMA,
+  QUERY_PAGINATION_PATHS,
+  normaliseListing,
+  parseMarkdownListings,
+  slugify,
+  validateSearchParamsFor
+} from './common';
+import { SourceAdapter, SourceCapabilities } from './types';
+
+const BASE_URL = 'https://housing.com';
+
+const PROPERTY_TYPE_MAP: Record<string, string> = {
+  office: 'office-space',
+  coworking: 'coworking-space',
+  retail: 'shop',
+  warehouse: 'warehouse'
+};
+
+const FURNISHING_MAP: Record<string, string> = {
+  furnished: 'furnished',
+  'semi-furnished': 'semi_furnished',
+  unfurnished: 'unfurnished'
+};
+
+const SORT_MAP: Record<string, string> = {
+  'price-low-to-high': 'price_low',
+  'price-high-to-low': 'price_high',
+  newest: 'latest'
+};
+
+const capabilities: SourceCapabilities = {
+  propertyTypes: ['office', 'coworking', 'retail', 'warehouse'],
+  filters: ['price', 'area', 'furnished'],
+  sortOrders: ['relevance', 'price-low-to-high', 'price-high-to-low', 'newest'],
+  requiresLocation: true,
+  areaUnit: 'sqft'
+};
+
+const buildSearchUrl = (searchParams: SearchParameters): string => {
+  const type = (searchParams.propertyType && PROPERTY_TYPE_MAP[searchParams.propertyType]) || 'property';
+  const url = `${BASE_URL}/in/rent/commercial-${type}-in-${slugify(searchParams.location || '')}`;
+
+  const queryParams = new URLSearchParams();
+  if (searchParams.minPrice) queryParams.set('rent_min', searchParams.minPrice.toString());
+  if (searchParams.maxPrice) queryParams.set('rent_max', searchParams.maxPrice.toString());
+  if (searchParams.minArea) queryParams.set('area_min', searchParams.minArea.toString());
+  if (searchParams.maxArea) queryParams.set('area_max', searchParams.maxArea.toString());
+
+  const furnishing = searchParams.furnished && FURNISHING_MAP[searchParams.furnished];
+  if (furnishing) queryParams.set('furnishing', furnishing);
+
+  const sort = searchParams.sortBy && SORT_MAP[searchParams.sortBy];
+  if (sort) queryParams.set('sort', sort);
+
+  if (searchParams.page && searchParams.page > 1) {
+    queryParams.set('page', searchParams.page.toString());
+  }
+
+  const queryString = queryParams.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+// Detail pages sit one level below the results: /in/rent/commercial/{slug}-{listing id}
+const isListingUrl = (url: URL) => /^\/in\/rent\/commercial\/[^/]+/i.test(url.pathname);
+
+export const housingAdapter: SourceAdapter = {
+  id: 'housing',
+  name: 'Housing.com',
+  hosts: ['housing.com'],
+  capabilities,
+  buildSearchUrl,
+  validateParams: searchParams => validateSearchParamsFor('Housing.com', capabilities, searchParams),
+  extractionPrompt: DEFAULT_EXTRACTION_PROMPT,
+  extractionSchema: PROPERTY_EXTRACTION_SCHEMA,
+  paginationPaths: QUERY_PAGINATION_PATHS,
+  parseMarkdown: (markdown, pageUrl) => parseMarkdownListings(markdown, pageUrl, isListingUrl),
+  normalise: (raw, context) => normaliseListing(raw, context, 'housing')
+};
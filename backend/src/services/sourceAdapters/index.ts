@@ -0,0 +1,84 @@
+/**
+ * Source Adapters
+ *
+ * One adapter per listing portal (see ./types). Searches pick an adapter by
+ * SearchParameters.portal; scraped pages are read by the adapter for their host, falling
+ * back to the generic adapter for sites without one.
+ */
+
+import { SourcePortal } from '../../types/scraper';
+import {
+  DEFAULT_EXTRACTION_PROMPT,
+  PROPERTY_EXTRACTION_SCHEMA,
+  QUERY_PAGINATION_PATHS,
+  normaliseListing
+} from './common';
+import { coworkerAdapter, myHqAdapter } from './coworking';
+import { housingAdapter } from './housing';
+import { magicBricksAdapter } from './magicbricks';
+import { ninetyNineAcresAdapter } from './ninetyNineAcres';
+import { noBrokerAdapter } from './noBroker';
+import { SourceAdapter, SourceCapabilities } from './types';
+
+export * from './types';
+
+export const DEFAULT_PORTAL: SourcePortal = 'magicbricks';
+
+/**
+ * Any other site: Firecrawl's JSON extraction only, no search URLs or markdown parsing
+ */
+export const genericAdapter: SourceAdapter = {
+  id: 'generic',
+  name: 'Other website',
+  hosts: [],
+  validateParams: () => ['Choose a listing portal to search; other websites can only be scraped by URL'],
+  extractionPrompt: DEFAULT_EXTRACTION_PROMPT,
+  extractionSchema: PROPERTY_EXTRACTION_SCHEMA,
+  paginationPaths: QUERY_PAGINATION_PATHS,
+  parseMarkdown: () => [],
+  normalise: (raw, context) => normaliseListing(raw, context, 'generic')
+};
+
+// Portals that can be searched, in the order the search form lists them
+export const SEARCHABLE_ADAPTERS: SourceAdapter[] = [
+  magicBricksAdapter,
+  ninetyNineAcresAdapter,
+  noBrokerAdapter,
+  housingAdapter,
+  myHqAdapter,
+  coworkerAdapter
+];
+
+export const SOURCE_PORTALS: SourcePortal[] = [...SEARCHABLE_ADAPTERS.map(adapter => adapter.id), genericAdapter.id];
+
+/**
+ * Adapter for a search's portal (MagicBricks when none is set)
+ */
+export const getSourceAdapter = (portal?: SourcePortal): SourceAdapter =>
+  SEARCHABLE_ADAPTERS.find(adapter => adapter.id === (portal || DEFAULT_PORTAL)) || genericAdapter;
+
+/**
+ * Adapter for the site a URL is on
+ */
+export const adapterForUrl = (url: string): SourceAdapter => {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return genericAdapter;
+  }
+  return SEARCHABLE_ADAPTERS.find(adapter =>
+    adapter.hosts.some(adapterHost => host === adapterHost || host.endsWith(`.${adapterHost}`))
+  ) || genericAdapter;
+};
+
+/**
+ * Searchable portals and what their searches support (GET /scraper/sources)
+ */
+export const describeSourcePortals = (): Array<{ id: SourcePortal; name: string; hosts: string[] } & SourceCapabilities> =>
+  SEARCHABLE_ADAPTERS.map(adapter => ({
+    id: adapter.id,
+    name: adapter.name,
+    hosts: adapter.hosts,
+    ...(adapter.capabilities as SourceCapabilities)
+  }));
@@ -0,0 +1,199 @@
+/**
+ * MagicBricks Source Adapter
+ *
+ * Commercial rentals on magicbricks.com. Location and property type go in the URL path,
+ * every other filter in the query string:
+ * /property-for-rent/commercial/{location}/{property-type}?budget-min=...&page=N
+ */
+
+import { SearchParameters } from '../../types/scraper';
+import {
+  DEFAULT_EXTRACTION_PROMPT,
+  PROPERTY_EXTRACTION_SCHEMA,
+  QUERY_PAGINATION_PATHS,
+  normaliseListing,
+  parseMarkdownListings,
+  validateSearchParamsFor
+} from './common';
+import { SourceAdapter, SourceCapabilities } from './types';
+
+// MagicBricks URL structure constants
+const MAGICBRICKS_BASE_URL = 'https://www.magicbricks.com';
+const COMMERCIAL_SEARCH_PATH = '/property-for-rent/commercial';
+
+// Property type mappings for MagicBricks URLs
+const PROPERTY_TYPE_MAP: Record<string, string> = {
+  office: 'office-space',
+  coworking: 'co-working-space',
+  retail: 'retail-showroom',
+  warehouse: 'warehouse-godown',
+  land: 'industrial-land'
+};
+
+// Sort parameter mappings
+const SORT_MAP: Record<string, string> = {
+  'relevance': '',
+  'price-low-to-high': 'price-asc',
+  'price-high-to-low': 'price-desc',
+  'newest': 'date-desc'
+};
+
+// Availability mappings
+const AVAILABILITY_MAP: Record<string, string> = {
+  'immediate': 'immediate',
+  'within-15-days': '15days',
+  'within-30-days': '30days',
+  'after-30-days': '30plus'
+};
+
+const capabilities: SourceCapabilities = {
+  propertyTypes: ['office', 'coworking', 'retail', 'warehouse', 'land'],
+  filters: ['price', 'area', 'furnished', 'availability', 'amenities'],
+  sortOrders: ['relevance', 'price-low-to-high', 'price-high-to-low', 'newest'],
+  requiresLocation: false,
+  areaUnit: 'sqft'
+};
+
+/**
+ * Build MagicBricks search URL from search parameters
+ */
+const buildSearchUrl = (searchParams: SearchParameters): string => {
+  // Build base URL with location and property type
+  let url = `${MAGICBRICKS_BASE_URL}${COMMERCIAL_SEARCH_PATH}`;
+
+  // Add location to URL path
+  if (searchParams.location) {
+    const locationSlug = searchParams.location.toLowerCase()
+      .replace(/\s+/g, '-')
+      .replace(/[^a-z0-9-]/g, '');
+    url += `/${locationSlug}`;
+  }
+
+  // Add property type to URL path
+  if (searchParams.propertyType && PROPERTY_TYPE_MAP[searchParams.propertyType]) {
+    url += `/${PROPERTY_TYPE_MAP[searchParams.propertyType]}`;
+  }
+
+  // Build query parameters
+  const queryParams = new URLSearchParams();
+
+  // Price range
+  if (searchParams.minPrice) {
+    queryParams.set('budget-min', searchParams.minPrice.toString());
+  }
+  if (searchParams.maxPrice) {
+    queryParams.set('budget-max', searchParams.maxPrice.toString());
+  }
+
+  // Area range
+  if (searchParams.minArea) {
+    queryParams.set('carpet-min', searchParams.minArea.toString());
+  }
+  if (searchParams.maxArea) {
+    queryParams.set('carpet-max', searchParams.maxArea.toString());
+  }
+
+  // Furnished status
+  if (searchParams.furnished) {
+    queryParams.set('furnishing', searchParams.furnished);
+  }
+
+  // Availability
+  const availabilityValue = searchParams.availability && AVAILABILITY_MAP[searchParams.availability];
+  if (availabilityValue) {
+    queryParams.set('availability', availabilityValue);
+  }
+
+  // Amenities (as comma-separated values)
+  if (searchParams.amenities && searchParams.amenities.length > 0) {
+    queryParams.set('amenities', searchParams.amenities.join(','));
+  }
+
+  // Sort order
+  const sortValue = searchParams.sortBy && SORT_MAP[searchParams.sortBy];
+  if (sortValue) {
+    queryParams.set('sort', sortValue);
+  }
+
+  // Page number
+  if (searchParams.page && searchParams.page > 1) {
+    queryParams.set('page', searchParams.page.toString());
+  }
+
+  // Append query parameters to URL
+  const queryString = queryParams.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+const findKey = (map: Record<string, string>, value: string) =>
+  Object.keys(map).find(key => map[key] === value);
+
+/**
+ * Parse search parameters from MagicBricks URL (reverse operation)
+ */
+const parseSearchUrl = (url: string): SearchParameters => {
+  const urlObj = new URL(url);
+  const searchParams: SearchParameters = { portal: 'magicbricks' };
+
+  // Expected format: /property-for-rent/commercial/{location}/{property-type}
+  const pathParts = urlObj.pathname.split('/').filter(part => part.length > 0);
+  const locationSlug = pathParts[2];
+  if (locationSlug) {
+    searchParams.location = locationSlug.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+  }
+
+  const propertyType = pathParts[3] && findKey(PROPERTY_TYPE_MAP, pathParts[3]);
+  if (propertyType) searchParams.propertyType = propertyType as NonNullable<SearchParameters['propertyType']>;
+
+  // Parse query parameters
+  const params = urlObj.searchParams;
+
+  const minPrice = params.get('budget-min');
+  if (minPrice) searchParams.minPrice = parseInt(minPrice, 10);
+
+  const maxPrice = params.get('budget-max');
+  if (maxPrice) searchParams.maxPrice = parseInt(maxPrice, 10);
+
+  const minArea = params.get('carpet-min');
+  if (minArea) searchParams.minArea = parseInt(minArea, 10);
+
+  const maxArea = params.get('carpet-max');
+  if (maxArea) searchParams.maxArea = parseInt(maxArea, 10);
+
+  const furnished = params.get('furnishing');
+  if (furnished) searchParams.furnished = furnished as NonNullable<SearchParameters['furnished']>;
+
+  const availability = params.get('availability');
+  const availabilityKey = availability && findKey(AVAILABILITY_MAP, availability);
+  if (availabilityKey) searchParams.availability = availabilityKey as NonNullable<SearchParameters['availability']>;
+
+  const amenities = params.get('amenities');
+  if (amenities) searchParams.amenities = amenities.split(',');
+
+  const sort = params.get('sort');
+  const sortKey = sort && findKey(SORT_MAP, sort);
+  if (sortKey) searchParams.sortBy = sortKey as NonNullable<SearchParameters['sortBy']>;
+
+  const page = params.get('page');
+  if (page) searchParams.page = parseInt(page, 10);
+
+  return searchParams;
+};
+
+// Detail pages: /propertyDetails/{slug}&id={id} (older ones are /{slug}-pdpid-{id})
+const isListingUrl = (url: URL) => /\/propertydetails\/|-pdpid-/i.test(url.pathname);
+
+export const magicBricksAdapter: SourceAdapter = {
+  id: 'magicbricks',
+  name: 'MagicBricks',
+  hosts: ['magicbricks.com'],
+  capabilities,
+  buildSearchUrl,
+  parseSearchUrl,
+  validateParams: searchParams => validateSearchParamsFor('MagicBricks', capabilities, searchParams),
+  extractionPrompt: DEFAULT_EXTRACTION_PROMPT,
+  extractionSchema: PROPERTY_EXTRACTION_SCHEMA,
+  paginationPaths: QUERY_PAGINATION_PATHS,
+  parseMarkdown: (markdown, pageUrl) => parseMarkdownListings(markdown, pageUrl, isListingUrl),
+  normalise: (raw, context) => normaliseListing(raw, context, 'magicbricks')
+};
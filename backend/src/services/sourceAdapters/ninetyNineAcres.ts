@@ -0,0 +1,85 @@
+/**
+ * 99acres Source Adapter
+ *
+ * Commercial rentals on 99acres.com. Property type and city make up the results path and
+ * later pages add a -page-N suffix: /commercial-office-space-for-rent-in-pune-ffid-page-2
+ */
+
+import { SearchParameters } from '../../types/scraper';
+import {
+  DEFAULT_EXTRACTION_PROMPT,
+  PROPERTY_EXTRACTION_SCHEMA,
+  normaliseListing,
+  parseMarkdownListings,
+  slugify,
+  validateSearchParamsFor
+} from './common';
+import { SourceAdapter, SourceCapabilities } from './types';
+
+const BASE_URL = 'https://www.99acres.com';
+
+const PROPERTY_TYPE_MAP: Record<string, string> = {
+  office: 'commercial-office-space',
+  coworking: 'co-working-space',
+  retail: 'commercial-shops',
+  warehouse: 'warehouse-godown',
+  land: 'commercial-land'
+};
+
+const FURNISHING_MAP: Record<string, string> = {
+  furnished: '1',
+  'semi-furnished': '2',
+  unfurnished: '4'
+};
+
+const SORT_MAP: Record<string, string> = {
+  'price-low-to-high': 'price_asc',
+  'price-high-to-low': 'price_desc',
+  newest: 'date_desc'
+};
+
+const capabilities: SourceCapabilities = {
+  propertyTypes: ['office', 'coworking', 'retail', 'warehouse', 'land'],
+  filters: ['price', 'area', 'furnished'],
+  sortOrders: ['relevance', 'price-low-to-high', 'price-high-to-low', 'newest'],
+  requiresLocation: true,
+  areaUnit: 'sqft'
+};
+
+const buildSearchUrl = (searchParams: SearchParameters): string => {
+  const type = (searchParams.propertyType && PROPERTY_TYPE_MAP[searchParams.propertyType]) || 'commercial-property';
+  const page = searchParams.page && searchParams.page > 1 ? `-page-${searchParams.page}` : '';
+  const url = `${BASE_URL}/${type}-for-rent-in-${slugify(searchParams.location || '')}-ffid${page}`;
+
+  const queryParams = new URLSearchParams();
+  if (searchParams.minPrice) queryParams.set('budget_min', searchParams.minPrice.toString());
+  if (searchParams.maxPrice) queryParams.set('budget_max', searchParams.maxPrice.toString());
+  if (searchParams.minArea) queryParams.set('area_min', searchParams.minArea.toString());
+  if (searchParams.maxArea) queryParams.set('area_max', searchParams.maxArea.toString());
+
+  const furnishing = searchParams.furnished && FURNISHING_MAP[searchParams.furnished];
+  if (furnishing) queryParams.set('furnish', furnishing);
+
+  const sort = searchParams.sortBy && SORT_MAP[searchParams.sortBy];
+  if (sort) queryParams.set('sort', sort);
+
+  const queryString = queryParams.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+// Detail pages end in -spid-{listing id}
+const isListingUrl = (url: URL) => /-spid-[a-z0-9]+/i.test(url.pathname);
+
+export const ninetyNineAcresAdapter: SourceAdapter = {
+  id: '99acres',
+  name: '99acres',
+  hosts: ['99acres.com'],
+  capabilities,
+  buildSearchUrl,
+  validateParams: searchParams => validateSearchParamsFor('99acres', capabilities, searchParams),
+  extractionPrompt: `${DEFAULT_EXTRACTION_PROMPT}. Prices are shown in Indian notation such as "₹ 1.2 Lac" or "₹ 45,000/month"; report the full rupee amount.`,
+  extractionSchema: PROPERTY_EXTRACTION_SCHEMA,
+  paginationPaths: ['.*-page-[0-9]+.*'],
+  parseMarkdown: (markdown, pageUrl) => parseMarkdownListings(markdown, pageUrl, isListingUrl),
+  normalise: (raw, context) => normaliseListing(raw, context, '99acres')
+};
@@ -0,0 +1,106 @@
+/**
+ * NoBroker Source Adapter
+ *
+ * Owner-listed commercial rentals on nobroker.in. The results path names the property type
+ * and locality; filters are ranges and enums in the query string:
+ * /commercial/office-space-for-rent-in-koramangala_bangalore?rent=0,80000&pageNo=2
+ */
+
+import { SearchParameters } from '../../types/scraper';
+import {
+  DEFAULT_EXTRACTION_PROMPT,
+  PROPERTY_EXTRACTION_SCHEMA,
+  normaliseListing,
+  parseMarkdownListings,
+  slugify,
+  validateSearchParamsFor
+} from './common';
+import { SourceAdapter, SourceCapabilities } from './types';
+
+const BASE_URL = 'https://www.nobroker.in';
+
+const PROPERTY_TYPE_MAP: Record<string, string> = {
+  office: 'office-space',
+  coworking: 'co-working-space',
+  retail: 'shop',
+  warehouse: 'godown-warehouse'
+};
+
+const FURNISHING_MAP: Record<string, string> = {
+  furnished: 'FULLY_FURNISHED',
+  'semi-furnished': 'SEMI_FURNISHED',
+  unfurnished: 'NOT_FURNISHED'
+};
+
+const AVAILABILITY_MAP: Record<string, string> = {
+  immediate: 'immediate',
+  'within-15-days': 'within_15_days',
+  'within-30-days': 'within_30_days',
+  'after-30-days': 'after_30_days'
+};
+
+const SORT_MAP: Record<string, string> = {
+  'price-low-to-high': 'rent,asc',
+  'price-high-to-low': 'rent,desc',
+  newest: 'lastUpdateDate,desc'
+};
+
+const capabilities: SourceCapabilities = {
+  propertyTypes: ['office', 'coworking', 'retail', 'warehouse'],
+  filters: ['price', 'area', 'furnished', 'availability'],
+  sortOrders: ['relevance', 'price-low-to-high', 'price-high-to-low', 'newest'],
+  requiresLocation: true,
+  areaUnit: 'sqft'
+};
+
+// "Koramangala, Bangalore" -> "koramangala_bangalore"; NoBroker separates locality and city with _
+const locationSlug = (location: string) =>
+  location.split(',').map(part => slugify(part)).filter(Boolean).join('_');
+
+const range = (min?: number, max?: number) => `${min || 0},${max || ''}`;
+
+const buildSearchUrl = (searchParams: SearchParameters): string => {
+  const type = (searchParams.propertyType && PROPERTY_TYPE_MAP[searchParams.propertyType]) || 'commercial-property';
+  const url = `${BASE_URL}/commercial/${type}-for-rent-in-${locationSlug(searchParams.location || '')}`;
+
+  const queryParams = new URLSearchParams();
+  if (searchParams.minPrice || searchParams.maxPrice) {
+    queryParams.set('rent', range(searchParams.minPrice, searchParams.maxPrice));
+  }
+  if (searchParams.minArea || searchParams.maxArea) {
+    queryParams.set('area', range(searchParams.minArea, searchParams.maxArea));
+  }
+
+  const furnishing = searchParams.furnished && FURNISHING_MAP[searchParams.furnished];
+  if (furnishing) queryParams.set('furnishing', furnishing);
+
+  const availability = searchParams.availability && AVAILABILITY_MAP[searchParams.availability];
+  if (availability) queryParams.set('availability', availability);
+
+  const sort = searchParams.sortBy && SORT_MAP[searchParams.sortBy];
+  if (sort) queryParams.set('orderBy', sort);
+
+  if (searchParams.page && searchParams.page > 1) {
+    queryParams.set('pageNo', searchParams.page.toString());
+  }
+
+  const queryString = queryParams.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+// Detail pages: /property/commercial/rent/{city}/{locality}/{listing id}
+const isListingUrl = (url: URL) => /^\/property\/commercial\//i.test(url.pathname);
+
+export const noBrokerAdapter: SourceAdapter = {
+  id: 'nobroker',
+  name: 'NoBroker',
+  hosts: ['nobroker.in'],
+  capabilities,
+  buildSearchUrl,
+  validateParams: searchParams => validateSearchParamsFor('NoBroker', capabilities, searchParams),
+  extractionPrompt: `${DEFAULT_EXTRACTION_PROMPT}. Listings are posted by owners, so use the owner's name as the contact person; report the monthly rent, not the deposit, as the price.`,
+  extractionSchema: PROPERTY_EXTRACTION_SCHEMA,
+  paginationPaths: ['.*pageNo=[0-9]+.*'],
+  parseMarkdown: (markdown, pageUrl) => parseMarkdownListings(markdown, pageUrl, isListingUrl),
+  normalise: (raw, context) => normaliseListing(raw, context, 'nobroker')
+};
@@ -0,0 +1,57 @@
+/**
+ * Source Adapter Types
+ *
+ * A source adapter knows one listing portal: how to build its search URLs, which search
+ * parameters it honours, what to ask Firecrawl to extract, and how to turn what comes back
+ * (Firecrawl JSON or page markdown) into ScrapedPropertyData.
+ */
+
+import {
+  PropertyExtractionSchema,
+  ScrapedPropertyData,
+  SearchParameters,
+  SourcePortal
+} from '../../types/scraper';
+
+// Search parameters beyond location and property type that a portal can filter on
+export type SearchFilter = 'price' | 'area' | 'furnished' | 'availability' | 'amenities';
+
+// What a portal's search supports, for validation and the search form
+export interface SourceCapabilities {
+  propertyTypes: NonNullable<SearchParameters['propertyType']>[];
+  filters: SearchFilter[];
+  sortOrders: NonNullable<SearchParameters['sortBy']>[];
+  requiresLocation: boolean;
+  // What minArea/maxArea count: square feet, or seats for coworking portals
+  areaUnit: 'sqft' | 'seats';
+}
+
+// One listing as extracted from a page, before normalising
+export type RawListing = Record<string, any>;
+
+export interface NormaliseContext {
+  pageUrl: string;
+  scrapedAt: string;
+  searchParams?: SearchParameters | undefined;
+}
+
+export interface SourceAdapter {
+  id: SourcePortal;
+  name: string;
+  // Hostnames (without www.) whose pages this adapter reads
+  hosts: string[];
+  // Absent for adapters that only read pasted URLs
+  capabilities?: SourceCapabilities;
+  buildSearchUrl?: (params: SearchParameters) => string;
+  // Reverse of buildSearchUrl, where the portal's URLs carry the filters
+  parseSearchUrl?: (url: string) => SearchParameters;
+  // Problems with the parameters for this portal; empty when they can be searched
+  validateParams: (params: SearchParameters) => string[];
+  extractionPrompt: string;
+  extractionSchema: PropertyExtractionSchema;
+  // Crawl includePaths matching the portal's result pages
+  paginationPaths: string[];
+  // Listing cards on a search results page rendered as markdown
+  parseMarkdown: (markdown: string, pageUrl: string) => RawListing[];
+  normalise: (raw: RawListing, context: NormaliseContext) => ScrapedPropertyData | null;
+}
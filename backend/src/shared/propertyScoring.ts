@@ -0,0 +1,315 @@
+/**
+ * Property Scoring
+ *
+ * Scores properties against each other on price per sqft, amenity coverage, size fit,
+ * distance to chosen points and availability, with user-set weights. Every criterion comes
+ * with a sentence explaining its score.
+ *
+ * Dependency-free so the backend (shared comparisons) and the frontend (re-exported from
+ * src/lib/propertyScoring.ts) score identically.
+ */
+
+export type ScoringCriterion = 'price' | 'amenities' | 'size' | 'distance' | 'availability';
+
+export type ScoringWeights = Record<ScoringCriterion, number>;
+
+export const SCORING_CRITERIA: ScoringCriterion[] = ['price', 'amenities', 'size', 'distance', 'availability'];
+
+export const CRITERION_LABELS: Record<ScoringCriterion, string> = {
+  price: 'Price per sqft',
+  amenities: 'Amenities',
+  size: 'Size fit',
+  distance: 'Distance',
+  availability: 'Availability'
+};
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  price: 3,
+  amenities: 2,
+  size: 2,
+  distance: 2,
+  availability: 1
+};
+
+// Weights run from 0 (ignore) to this
+export const MAX_CRITERION_WEIGHT = 5;
+
+// Wanted when the user has not picked amenities
+export const DEFAULT_WANTED_AMENITIES = ['WiFi', 'Parking', 'Security', 'Cafeteria', 'AC', 'Meeting room'];
+
+/**
+ * The fields scoring reads, taken from a frontend Property or a properties row
+ */
+export interface ScorableProperty {
+  id: string;
+  // Monthly rent
+  price: number | null;
+  areaSqft: number | null;
+  amenities: string[];
+  features: Record<string, boolean>;
+  coordinates: { lat: number; lng: number } | null;
+  available: boolean;
+  availableFrom: string | null;
+}
+
+export interface ScoringPoint {
+  label: string;
+  lat: number;
+  lng: number;
+}
+
+export interface ScoringPreferences {
+  minSqft?: number | undefined;
+  maxSqft?: number | undefined;
+  amenities?: string[] | undefined;
+  // Office, clients, metro station... distances are averaged over them
+  points?: ScoringPoint[] | undefined;
+  // ISO date the space is needed by
+  moveInBy?: string | undefined;
+}
+
+export interface CriterionScore {
+  criterion: ScoringCriterion;
+  // 0-10, or null when the criterion does not apply (no preference set)
+  score: number | null;
+  weight: number;
+  // Points this criterion adds to the overall score
+  contribution: number;
+  explanation: string;
+}
+
+export interface PropertyScore {
+  propertyId: string;
+  overall: number;
+  // 1 is best; ties share a rank
+  rank: number;
+  criteria: CriterionScore[];
+}
+
+export interface ScoringOptions {
+  weights?: Partial<ScoringWeights> | undefined;
+  preferences?: ScoringPreferences | undefined;
+  now?: Date | undefined;
+}
+
+// Score for data a property does not list (price, size, location)
+const UNKNOWN_SCORE = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const clampScore = (value: number) => round1(Math.min(10, Math.max(0, value)));
+
+const formatInr = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+const normalizeAmenity = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Other ways listings name the same amenity (normalized)
+const AMENITY_ALIASES: Record<string, string[]> = {
+  ac: ['airconditioning', 'airconditioned', 'centralair'],
+  wifi: ['internet', 'broadband'],
+  cafeteria: ['pantry', 'cafe'],
+  security: ['cctv', 'guard'],
+  meetingroom: ['conferenceroom', 'boardroom']
+};
+
+const pricePerSqft = (property: ScorableProperty) =>
+  property.price && property.areaSqft ? property.price / property.areaSqft : null;
+
+/**
+ * Great-circle distance in km
+ */
+export const distanceKm = (from: { lat: number; lng: number }, to: { lat: number; lng: number }) => {
+  const toRad = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+type CriterionResult = { score: number | null; explanation: string };
+
+/**
+ * Cheapest per sqft in the set scores 10; the others by how much more they cost
+ */
+const scorePrice = (property: ScorableProperty, lowest: number | null): CriterionResult => {
+  const rate = pricePerSqft(property);
+  if (rate === null || lowest === null) {
+    return { score: UNKNOWN_SCORE, explanation: 'No price or size listed, scored as average' };
+  }
+  if (rate <= lowest) {
+    return { score: 10, explanation: `${formatInr(rate)}/sqft, the lowest of the compared spaces` };
+  }
+  const above = Math.round(((rate - lowest) / lowest) * 100);
+  return {
+    score: clampScore(10 * lowest / rate),
+    explanation: `${formatInr(rate)}/sqft, ${above}% above the lowest (${formatInr(lowest)}/sqft)`
+  };
+};
+
+/**
+ * Share of the wanted amenities found in the amenity list or the feature flags
+ */
+const scoreAmenities = (property: ScorableProperty, wanted: string[]): CriterionResult => {
+  if (wanted.length === 0) {
+    return { score: null, explanation: 'No amenities selected' };
+  }
+
+  const offered = [
+    ...property.amenities.map(normalizeAmenity),
+    ...Object.entries(property.features).filter(([, enabled]) => enabled).map(([feature]) => normalizeAmenity(feature))
+  ];
+  const has = (amenity: string) => {
+    const key = normalizeAmenity(amenity);
+    const names = [key, ...(AMENITY_ALIASES[key] || [])];
+    // Short names ("ac") only match whole, not inside "access" or "space"
+    return offered.some(item => names.some(name => name.length <= 3 ? item === name : item.includes(name)));
+  };
+
+  const matched = wanted.filter(has);
+  const missing = wanted.filter(amenity => !has(amenity));
+  const explanation = missing.length === 0
+    ? `Has all ${wanted.length} wanted amenities`
+    : `Has ${matched.length} of ${wanted.length} wanted amenities; missing ${missing.join(', ')}`;
+
+  return { score: clampScore(10 * matched.length / wanted.length), explanation };
+};
+
+/**
+ * 10 inside the wanted range, less the further outside it
+ */
+const scoreSize = (property: ScorableProperty, preferences: ScoringPreferences): CriterionResult => {
+  const { minSqft, maxSqft } = preferences;
+  if (!minSqft && !maxSqft) {
+    return { score: null, explanation: 'Set a size range to score size' };
+  }
+  if (!property.areaSqft) {
+    return { score: UNKNOWN_SCORE, explanation: 'Size not listed, scored as average' };
+  }
+
+  const area = property.areaSqft;
+  if (minSqft && area < minSqft) {
+    return {
+      score: clampScore(10 * area / minSqft),
+      explanation: `${area.toLocaleString('en-IN')} sqft, ${Math.round(((minSqft - area) / minSqft) * 100)}% below your minimum`
+    };
+  }
+  if (maxSqft && area > maxSqft) {
+    return {
+      score: clampScore(10 * maxSqft / area),
+      explanation: `${area.toLocaleString('en-IN')} sqft, ${Math.round(((area - maxSqft) / maxSqft) * 100)}% above your maximum`
+    };
+  }
+  return { score: 10, explanation: `${area.toLocaleString('en-IN')} sqft, within your range` };
+};
+
+/**
+ * Average distance to the chosen points: 10 within 1 km, 0 beyond 16 km
+ */
+const scoreDistance = (property: ScorableProperty, points: ScoringPoint[]): CriterionResult => {
+  if (points.length === 0) {
+    return { score: null, explanation: 'Add places you travel to, to score distance' };
+  }
+  if (!property.coordinates) {
+    return { score: UNKNOWN_SCORE, explanation: 'Location not on the map, scored as average' };
+  }
+
+  const distances = points.map(point => ({ label: point.label, km: distanceKm(property.coordinates!, point) }));
+  const average = distances.reduce((sum, { km }) => sum + km, 0) / distances.length;
+
+  return {
+    score: clampScore(10 - Math.max(0, average - 1) * (10 / 15)),
+    explanation: distances.map(({ label, km }) => `${round1(km)} km from ${label}`).join(', ')
+  };
+};
+
+/**
+ * Available now scores 10; later dates lose points, faster when past the move-in date
+ */
+const scoreAvailability = (property: ScorableProperty, moveInBy: string | undefined, now: Date): CriterionResult => {
+  const from = property.availableFrom ? new Date(property.availableFrom) : null;
+
+  if (!from || from <= now) {
+    return property.available
+      ? { score: 10, explanation: 'Available now' }
+      : { score: 2, explanation: 'Not available at the moment' };
+  }
+
+  if (moveInBy) {
+    const needed = new Date(moveInBy);
+    if (from <= needed) {
+      return { score: 10, explanation: `Available from ${formatDate(from)}, before your move-in date` };
+    }
+    const lateDays = Math.ceil((from.getTime() - needed.getTime()) / DAY_MS);
+    return { score: clampScore(10 - lateDays / 7), explanation: `Available from ${formatDate(from)}, ${lateDays} days after your move-in date` };
+  }
+
+  const days = Math.ceil((from.getTime() - now.getTime()) / DAY_MS);
+  return { score: clampScore(Math.max(2, 10 - days / 10)), explanation: `Available from ${formatDate(from)}, in ${days} days` };
+};
+
+/**
+ * Score a set of properties against each other. Results are in input order
+ */
+export function scoreProperties(properties: ScorableProperty[], options: ScoringOptions = {}): PropertyScore[] {
+  const weights: ScoringWeights = { ...DEFAULT_SCORING_WEIGHTS, ...options.weights };
+  const preferences = options.preferences || {};
+  const now = options.now || new Date();
+
+  const rates = properties.map(pricePerSqft).filter((rate): rate is number => rate !== null);
+  const lowestRate = rates.length > 0 ? Math.min(...rates) : null;
+  const wantedAmenities = preferences.amenities ?? DEFAULT_WANTED_AMENITIES;
+
+  const scored = properties.map(property => {
+    const results: Record<ScoringCriterion, CriterionResult> = {
+      price: scorePrice(property, lowestRate),
+      amenities: scoreAmenities(property, wantedAmenities),
+      size: scoreSize(property, preferences),
+      distance: scoreDistance(property, preferences.points || []),
+      availability: scoreAvailability(property, preferences.moveInBy, now)
+    };
+
+    const counted = SCORING_CRITERIA.filter(criterion => results[criterion].score !== null && weights[criterion] > 0);
+    const totalWeight = counted.reduce((sum, criterion) => sum + weights[criterion], 0);
+
+    const criteria: CriterionScore[] = SCORING_CRITERIA.map(criterion => {
+      const { score, explanation } = results[criterion];
+      const weight = Math.max(0, weights[criterion]);
+      const included = totalWeight > 0 && score !== null && weight > 0;
+      return {
+        criterion,
+        score,
+        weight,
+        contribution: included ? round1((score! * weight) / totalWeight) : 0,
+        explanation: score !== null && weight === 0 ? `${explanation} (not weighted)` : explanation
+      };
+    });
+
+    const overall = totalWeight > 0
+      ? round1(counted.reduce((sum, criterion) => sum + results[criterion].score! * weights[criterion], 0) / totalWeight)
+      : 0;
+
+    return { propertyId: property.id, overall, rank: 0, criteria };
+  });
+
+  scored.forEach(score => {
+    score.rank = 1 + scored.filter(other => other.overall > score.overall).length;
+  });
+
+  return scored;
+}
+
+/**
+ * Weights clamped to 0..MAX_CRITERION_WEIGHT, defaults for missing criteria
+ */
+export const normalizeWeights = (weights: Partial<Record<string, number>> = {}): ScoringWeights =>
+  SCORING_CRITERIA.reduce((acc, criterion) => {
+    const weight = weights[criterion];
+    acc[criterion] = typeof weight === 'number' && Number.isFinite(weight)
+      ? Math.min(MAX_CRITERION_WEIGHT, Math.max(0, weight))
+      : DEFAULT_SCORING_WEIGHTS[criterion];
+    return acc;
+  }, {} as ScoringWeights);
@@ -4,13 +4,17 @@
  * TypeScript type definitions for the property scraper feature with dynamic search support.
  * 
  * Key Architecture:
- * - We build MagicBricks search URLs from user parameters (our custom logic)
+ * - We build portal search URLs from user parameters with a source adapter per portal (our custom logic)
  * - Firecrawl scrapes those URLs and extracts structured property data
  * - This is NOT using Firecrawl's search capabilities (which search the web, not specific sites)
  */
 
-// Search Parameters for building MagicBricks URLs
+// Listing portals with a source adapter (services/sourceAdapters); 'generic' reads any other site
+export type SourcePortal = 'magicbricks' | '99acres' | 'nobroker' | 'housing' | 'myhq' | 'coworker' | 'generic';
+
+// Search Parameters for building portal search URLs
 export interface SearchParameters {
+  portal?: SourcePortal; // Listing portal to search (default: MagicBricks)
   location?: string; // City or area (e.g., "Bangalore", "Koramangala")
   propertyType?: 'office' | 'coworking' | 'retail' | 'warehouse' | 'land'; // Type of commercial property
   minPrice?: number; // Minimum price in INR
@@ -46,7 +50,7 @@ export interface FirecrawlCrawlConfig {
   maxDepth?: number; // Maximum crawl depth
   allowSubdomains?: boolean; // Follow subdomains
   allowExternalLinks?: boolean; // Follow external links
-  scrapeOptions?: FirecrawlScrapeConfig; // Options for each scraped page
+  scrapeOptions?: Partial<FirecrawlScrapeConfig>; // Options for each scraped page (the crawl supplies the URL)
 }
 
 // Our wrapper configuration for scraper requests
@@ -119,6 +123,18 @@ export interface PropertyExtractionSchema {
     type: 'string';
     description: 'Availability status and date';
   };
+  url: {
+    type: 'string';
+    description: string;
+  };
+  coordinates: {
+    type: 'object';
+    properties: {
+      lat: { type: 'number' };
+      lng: { type: 'number' };
+    };
+    description: string;
+  };
 }
 
 // Scraped property data (matches Property schema with additional metadata)
@@ -161,9 +177,14 @@ export interface ScrapedPropertyData {
     status: 'available' | 'occupied' | 'coming-soon';
     date?: string;
   };
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
   
   // Scraper-specific metadata
   sourceUrl: string; // URL where the data was scraped from
+  source?: SourcePortal; // Adapter that read the listing
   scrapedAt: string; // Timestamp when scraped
   searchParams?: SearchParameters; // Search parameters used to find this property
   rawData?: any; // Original Firecrawl response for debugging
@@ -191,20 +212,46 @@ export interface ScrapeResult {
     scrapedAt: string;
     totalFound: number;
     searchParams?: SearchParameters;
+    source?: SourcePortal; // Adapter that read the pages
     firecrawlJobId?: string; // Job ID if crawl was used
     rawDataMode?: boolean; // Indicates raw data mode
     firecrawlFormats?: string[]; // Available formats from Firecrawl
   };
 }
 
-// Search preset for saving common searches
+// What to scrape (POST /scrape body, and the request a scrape job replays)
+export interface ScrapeRequest {
+  directUrl?: string;
+  searchParams?: SearchParameters;
+  useCrawl?: boolean;
+  maxPages?: number;
+  waitFor?: number;
+  includeTags?: string[];
+  excludeTags?: string[];
+}
+
+// Background scrape job request (POST /jobs)
+export interface ScrapeJobRequest extends ScrapeRequest {
+  presetId?: string; // Preset being run (owned or shared), to update its last run stats
+  extract?: boolean; // Run C1 extraction on the scraped page before review
+  extractionHints?: string; // Passed to C1 with the page
+}
+
+// Search preset for saving common searches (search_presets row as returned by /presets)
 export interface SearchPreset {
   id: string;
+  user_id: string;
   name: string; // User-friendly name (e.g., "Bangalore Offices Under 50L")
-  description?: string;
-  searchParams: SearchParameters;
-  createdAt: string;
-  lastUsed?: string;
+  description: string | null;
+  search_params: SearchParameters;
+  is_shared: boolean; // Visible to all admins; only the owner can change it
+  run_count: number;
+  last_run_at: string | null;
+  last_result_count: number | null;
+  created_at: string;
+  updated_at: string;
+  owner_name?: string;
+  is_owner?: boolean;
 }
 
 // Bulk import request
@@ -212,6 +259,26 @@ export interface BulkImportRequest {
   properties: ScrapedPropertyData[];
   skipValidation?: boolean;
   overwriteExisting?: boolean;
+  importDuplicates?: boolean; // Import listings that look like existing properties instead of skipping them
+  jobId?: string; // Scrape job the properties came from, marked done after the import
+  mode?: ImportMode; // Default best_effort
+  idempotencyKey?: string; // Same as the Idempotency-Key header; a retry with it replays the first result
+}
+
+// atomic: nothing is imported if any row fails; best_effort: rows that can be imported are
+export type ImportMode = 'atomic' | 'best_effort';
+
+export type ImportBatchStatus = 'running' | 'completed' | 'rolled_back';
+
+// What happened to one submitted listing; rolled_back rows went in but their atomic batch failed
+export interface ImportReportRow {
+  index: number;
+  title: string;
+  sourceUrl: string;
+  status: 'imported' | 'failed' | 'skipped' | 'rolled_back';
+  propertyId?: string;
+  error?: string;
+  duplicateOf?: string[]; // Existing properties a skipped listing matched
 }
 
 // Bulk import result
@@ -219,6 +286,45 @@ export interface BulkImportResult {
   success: boolean;
   imported: number;
   failed: number;
+  skipped: number; // Likely duplicates left out of the import
   errors: Array<{ index: number; error: string }>;
+  duplicates: DuplicateCheckResult[];
   createdIds: string[];
+  batchId: string;
+  idempotencyKey: string;
+  mode: ImportMode;
+  status: ImportBatchStatus;
+  replayed: boolean; // Answered from an earlier request with the same idempotency key
+  report: ImportReportRow[];
+}
+
+// GET /import/:id/report
+export interface ImportBatchReport {
+  id: string;
+  idempotencyKey: string;
+  mode: ImportMode;
+  status: ImportBatchStatus;
+  total: number;
+  imported: number;
+  failed: number;
+  skipped: number;
+  jobId: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  rows: ImportReportRow[];
+}
+
+// Existing property a listing probably duplicates, with why it matched
+export interface DuplicateMatch {
+  propertyId: string;
+  title: string;
+  score: number; // 0-1; at or above the likely-duplicate threshold
+  reasons: string[];
+  property: any; // Matched property (duplicate-comparison fields)
+}
+
+// Likely duplicates of one listing in a batch (POST /duplicates/check, import)
+export interface DuplicateCheckResult {
+  index: number;
+  matches: DuplicateMatch[];
 }
\ No newline at end of file
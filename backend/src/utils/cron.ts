@@ -0,0 +1,140 @@
+/**
+ * Cron Expressions
+ * Five-field schedules ("minute hour day-of-month month day-of-week", evaluated in UTC)
+ * for recurring scrapes
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  anyDay: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+] as const;
+
+/**
+ * Expand one field ("*", "5", "1-5", "*\/15", "0,30", "9-17/2") into the values it allows
+ */
+const parseField = (text: string, field: typeof FIELDS[number]): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? field.min : Number(from);
+    const end = range === '*' ? field.max : to !== undefined ? Number(to) : step ? field.max : start;
+    const increment = step ? Number(step) : 1;
+
+    if (start < field.min || end > field.max || start > end || increment < 1) {
+      throw new Error(`Invalid ${field.name} "${part}" (allowed ${field.min}-${field.max})`);
+    }
+
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a cron expression or one of @hourly, @daily, @weekly, @monthly. Throws on invalid input
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const trimmed = expression.trim();
+  const parts = (ALIASES[trimmed] || trimmed).split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Expected five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]!));
+
+  // 7 is another way of writing Sunday
+  if (daysOfWeek!.delete(7)) daysOfWeek!.add(0);
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: daysOfWeek!,
+    anyDay: parts[2] !== '*' && parts[4] !== '*'
+  };
+};
+
+/**
+ * Whether an expression parses; for request validation
+ */
+export const isValidCron = (expression: string) => {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const dayMatches = (schedule: CronSchedule, date: Date) => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  return schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+};
+
+/**
+ * The first time after `after` (to the minute) that the expression matches, or null if it
+ * never does within five years (e.g. "0 0 31 2 *")
+ */
+export const nextCronRun = (expression: string | CronSchedule, after: Date = new Date()): Date | null => {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match before stepping through minutes
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  return null;
+};
@@ -0,0 +1,177 @@
+/**
+ * Duplicate Matching
+ * Scores how likely a scraped listing and a property (or two properties) are the same
+ * space: source URL, normalised title and address, map distance, area and price
+ */
+
+import { distanceKm } from '../shared/propertyScoring';
+
+export interface DuplicateSubject {
+  sourceUrl?: string | null | undefined;
+  title?: string | null | undefined;
+  address?: string | null | undefined;
+  coordinates?: { lat: number; lng: number } | null | undefined;
+  areaSqft?: number | null | undefined;
+  price?: number | null | undefined;
+  // Source URLs of records merged into this property earlier
+  mergedSourceUrls?: string[] | undefined;
+}
+
+export interface DuplicateScore {
+  score: number;
+  reasons: string[];
+}
+
+// Score at or above which a pair is flagged as a likely duplicate
+export const LIKELY_DUPLICATE_SCORE = 0.6;
+
+// Property columns the merge tool can take from either record
+export const PROPERTY_MERGE_FIELDS = [
+  'title',
+  'description',
+  'price',
+  'location',
+  'address',
+  'area_sqft',
+  'property_type',
+  'availability_status',
+  'amenities',
+  'features',
+  'coordinates',
+  'source_url'
+] as const;
+
+export type PropertyMergeField = typeof PROPERTY_MERGE_FIELDS[number];
+
+// Words every listing title uses; they say nothing about which space it is
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'of', 'in', 'at', 'on', 'near', 'for', 'with',
+  'rent', 'lease', 'sale', 'sq', 'ft', 'sqft', 'available'
+]);
+
+// Within these a pair counts as the same place, area and price
+const SAME_PLACE_METERS = 50;
+const SIZE_TOLERANCE = 0.05;
+
+/**
+ * Lowercase words without punctuation or filler ("Office Space for Rent, HSR Layout" -> "office space hsr layout")
+ */
+export const normaliseText = (text: string | null | undefined) =>
+  (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .join(' ');
+
+/**
+ * Comparable form of a listing URL: no scheme, www., fragment, tracking parameters or trailing slash
+ */
+export const normaliseSourceUrl = (url: string | null | undefined): string | null => {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    [...parsed.searchParams.keys()]
+      .filter(key => key.startsWith('utm_') || key === 'ref' || key === 'source')
+      .forEach(key => parsed.searchParams.delete(key));
+    const query = parsed.searchParams.toString();
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.replace(/^www\./, '')}${path}${query ? `?${query}` : ''}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+const trigrams = (text: string) => {
+  const grams = new Set<string>();
+  for (const word of text.split(' ').filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  }
+  return grams;
+};
+
+/**
+ * Shared trigrams over all trigrams (as pg_trgm's similarity()), 0-1, of normalised text
+ */
+export const textSimilarity = (a: string | null | undefined, b: string | null | undefined) => {
+  const left = trigrams(normaliseText(a));
+  const right = trigrams(normaliseText(b));
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  left.forEach(gram => { if (right.has(gram)) shared++; });
+  return shared / (left.size + right.size - shared);
+};
+
+const relativeDifference = (a: number, b: number) => Math.abs(a - b) / Math.max(a, b);
+
+/**
+ * Score a pair. The same source URL is conclusive; otherwise title (0.35), address (0.25),
+ * map distance (0.25), area (0.1) and price (0.1) add up, each with the reason it matched
+ */
+export const scoreDuplicate = (a: DuplicateSubject, b: DuplicateSubject): DuplicateScore => {
+  const urlA = normaliseSourceUrl(a.sourceUrl);
+  const urlsB = [b.sourceUrl, ...(b.mergedSourceUrls || [])].map(normaliseSourceUrl);
+  if (urlA && urlsB.includes(urlA)) {
+    return {
+      score: 1,
+      reasons: [normaliseSourceUrl(b.sourceUrl) === urlA ? 'Same source URL' : 'Source URL of a record merged into it']
+    };
+  }
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  const title = textSimilarity(a.title, b.title);
+  if (title >= 0.8) {
+    score += 0.35;
+    reasons.push(`Title ${Math.round(title * 100)}% similar`);
+  } else if (title >= 0.55) {
+    score += 0.2;
+    reasons.push(`Title ${Math.round(title * 100)}% similar`);
+  }
+
+  const address = textSimilarity(a.address, b.address);
+  if (address >= 0.7) {
+    score += 0.25;
+    reasons.push(`Address ${Math.round(address * 100)}% similar`);
+  }
+
+  if (a.coordinates && b.coordinates) {
+    const meters = distanceKm(a.coordinates, b.coordinates) * 1000;
+    if (meters <= SAME_PLACE_METERS) {
+      score += 0.25;
+      reasons.push(`${Math.round(meters)} m apart`);
+    }
+  }
+
+  if (a.areaSqft && b.areaSqft && relativeDifference(a.areaSqft, b.areaSqft) <= SIZE_TOLERANCE) {
+    score += 0.1;
+    reasons.push(a.areaSqft === b.areaSqft ? 'Same area' : 'Area within 5%');
+  }
+
+  if (a.price && b.price && relativeDifference(a.price, b.price) <= SIZE_TOLERANCE) {
+    score += 0.1;
+    reasons.push(a.price === b.price ? 'Same price' : 'Price within 5%');
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+};
+
+/**
+ * Matching fields of a properties row (as selected for duplicate lookups)
+ */
+export const propertySubject = (row: any): DuplicateSubject => ({
+  sourceUrl: row.source_url,
+  title: row.title,
+  address: row.address || row.location,
+  coordinates: row.coordinates && Number.isFinite(Number(row.coordinates.lat)) && Number.isFinite(Number(row.coordinates.lng))
+    ? { lat: Number(row.coordinates.lat), lng: Number(row.coordinates.lng) }
+    : null,
+  areaSqft: row.area_sqft,
+  price: row.price === null || row.price === undefined ? null : Number(row.price),
+  mergedSourceUrls: row.merged_source_urls || []
+});
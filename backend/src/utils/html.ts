@@ -0,0 +1,10 @@
+/**
+ * HTML Helpers
+ * Escaping for values interpolated into generated email bodies
+ */
+
+/**
+ * Escape text for use in HTML content and double-quoted attributes
+ */
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
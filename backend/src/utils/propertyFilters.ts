@@ -0,0 +1,60 @@
+/**
+ * Property Filter Parsing
+ * Translates listing query parameters into DatabaseService property filters
+ */
+
+/**
+ * Parse a comma-separated (or repeated `key[]=`) query parameter into a list
+ */
+export const parseList = (value: unknown): string[] | undefined => {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const items = raw.map(item => String(item).trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+/**
+ * Parse a "south,west,north,east" map viewport
+ */
+const parseBounds = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  const [south, west, north, east] = value.split(',').map(parseFloat);
+  return { south, west, north, east };
+};
+
+/**
+ * Map (already validated) listing query parameters to DatabaseService filters.
+ * Also used for saved searches, whose stored query may hold JSON numbers and booleans.
+ */
+export const parsePropertyFilters = (query: Record<string, any>) => {
+  const filters: Record<string, any> = {
+    status: query.status,
+    property_type: query.propertyType,
+    min_price: query.minPrice ? parseFloat(query.minPrice as string) : undefined,
+    max_price: query.maxPrice ? parseFloat(query.maxPrice as string) : undefined,
+    location: query.location,
+    locations: parseList(query.locations),
+    radius_km: query.locationRadius ? parseFloat(query.locationRadius as string) : undefined,
+    lat: query.lat ? parseFloat(query.lat as string) : undefined,
+    lng: query.lng ? parseFloat(query.lng as string) : undefined,
+    bounds: parseBounds(query.bounds),
+    min_size: query.minSize ? parseFloat(query.minSize as string) : undefined,
+    max_size: query.maxSize ? parseFloat(query.maxSize as string) : undefined,
+    amenities: parseList(query.amenities),
+    available: query.available !== undefined ? String(query.available) === 'true' : undefined,
+    availability_status: query.availabilityStatus,
+    tag_ids: parseList(query.tags),
+    min_bedrooms: query.minBedrooms ? parseInt(query.minBedrooms as string) : undefined,
+    max_bedrooms: query.maxBedrooms ? parseInt(query.maxBedrooms as string) : undefined,
+    min_bathrooms: query.minBathrooms ? parseFloat(query.minBathrooms as string) : undefined,
+    max_bathrooms: query.maxBathrooms ? parseFloat(query.maxBathrooms as string) : undefined
+  };
+
+  // Remove undefined values
+  Object.keys(filters).forEach(key => {
+    if (filters[key] === undefined) {
+      delete filters[key];
+    }
+  });
+
+  return filters;
+};
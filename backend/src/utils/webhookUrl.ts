@@ -0,0 +1,112 @@
+/**
+ * Webhook URL Checks
+ * Outgoing webhooks may only reach public hosts - a URL whose host resolves to a loopback,
+ * private, link-local (cloud metadata) or otherwise reserved address is refused
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4]       // reserved, broadcast
+];
+
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['64:ff9b::', 96],     // NAT64
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8]          // multicast
+];
+
+const blockedAddresses = new BlockList();
+BLOCKED_IPV4_SUBNETS.forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+BLOCKED_IPV6_SUBNETS.forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * IPv4 part of an IPv4-mapped IPv6 address, in any notation ("::ffff:127.0.0.1",
+ * "0:0:0:0:0:ffff:7f00:1" - URL parsing turns the former into "::ffff:7f00:1")
+ */
+const getMappedIPv4 = (address: string): string | null => {
+  let canonical: string;
+  try {
+    canonical = new URL(`http://[${address}]`).hostname.slice(1, -1);
+  } catch {
+    return null;
+  }
+
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(canonical);
+  if (!mapped) {
+    return null;
+  }
+  const high = parseInt(mapped[1]!, 16);
+  const low = parseInt(mapped[2]!, 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+};
+
+/**
+ * Whether an IP address is publicly routable (IPv4-mapped IPv6 addresses are judged by their IPv4 part)
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const mapped = isIP(address) === 6 ? getMappedIPv4(address) : null;
+  if (mapped) {
+    return isPublicAddress(mapped);
+  }
+
+  switch (isIP(address)) {
+    case 4:
+      return !blockedAddresses.check(address, 'ipv4');
+    case 6:
+      return !blockedAddresses.check(address, 'ipv6');
+    default:
+      return false;
+  }
+};
+
+/**
+ * Why a webhook URL may not be used, or null when it is an http(s) URL whose host
+ * resolves only to public addresses. Checked when the URL is saved and again before
+ * each delivery, since DNS can change in between.
+ */
+export const checkWebhookUrl = async (url: string): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Webhook URL must use http or https';
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      return `Webhook host ${hostname} could not be resolved`;
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return 'Webhook URL must point to a public host';
+  }
+
+  return null;
+};
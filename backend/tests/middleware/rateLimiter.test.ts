@@ -0,0 +1,271 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  RateLimitStore,
+  RedisCompatibleClient,
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  createRedisRateLimitStore,
+  getClientKey,
+  resetRateLimits,
+  setRateLimitStore
+} from '../../src/middleware/rateLimiter';
+
+jest.mock('../../src/config/environment', () => ({
+  getBackendConfig: () => ({ RATE_LIMIT_ENABLED: true })
+}));
+jest.mock('../../src/utils/logger', () => ({
+  createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+
+const MINUTE = 60 * 1000;
+// Start of a fixed one-minute window
+const WINDOW_START = Date.UTC(2025, 9, 20, 6, 0, 0);
+
+const makeRequest = (overrides: Partial<Request> = {}) =>
+  ({ method: 'GET', ip: '203.0.113.7', originalUrl: '/api/v1/test', path: '/api/v1/test', ...overrides }) as Request;
+
+const makeResponse = () => {
+  const headers: Record<string, string | number> = {};
+  const res = { setHeader: (name: string, value: string | number) => { headers[name] = value; } } as unknown as Response;
+  return { res, headers };
+};
+
+// Run a limiter once and return what it passed to next() along with the headers it set
+const hit = async (limiter: ReturnType<typeof createRateLimiter>, req: Request = makeRequest()) => {
+  const { res, headers } = makeResponse();
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+  await limiter(req, res, next);
+  return { error: next.mock.calls[0]?.[0] as any, headers };
+};
+
+// In-memory Redis stand-in with the commands the store uses; SCAN pages hold one key
+const createFakeRedis = (): RedisCompatibleClient & { data: Map<string, number> } => {
+  const data = new Map<string, number>();
+  let scanned: string[] = [];
+  const matches = (pattern: string, key: string) =>
+    new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`).test(key);
+
+  return {
+    data,
+    incr: async key => {
+      data.set(key, (data.get(key) || 0) + 1);
+      return data.get(key)!;
+    },
+    pexpire: async () => 1,
+    get: async key => (data.has(key) ? String(data.get(key)) : null),
+    scan: async (cursor, _match, pattern) => {
+      if (cursor === '0') scanned = [...data.keys()];
+      const position = parseInt(cursor, 10);
+      const next = position + 1 < scanned.length ? String(position + 1) : '0';
+      return [next, scanned.slice(position, position + 1).filter(key => matches(pattern, key))];
+    },
+    del: async (...keys) => keys.filter(key => data.delete(key)).length
+  };
+};
+
+describe('Rate limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(WINDOW_START);
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Client keys', () => {
+    it('should key signed-in users by account and everyone else by IP', () => {
+      expect(getClientKey(makeRequest({ user: { id: 'abc' } as any }))).toBe('user:abc');
+      expect(getClientKey(makeRequest())).toBe('ip:203.0.113.7');
+    });
+  });
+
+  describe('Memory store', () => {
+    it('should carry the current count into the previous window when the window rolls over', async () => {
+      const store = createMemoryRateLimitStore();
+      await store.increment('k', MINUTE);
+      await store.increment('k', MINUTE);
+
+      jest.setSystemTime(WINDOW_START + MINUTE + 1000);
+      expect(await store.increment('k', MINUTE)).toEqual({ current: 1, previous: 2, windowStart: WINDOW_START + MINUTE });
+    });
+
+    it('should forget counts older than the previous window', async () => {
+      const store = createMemoryRateLimitStore();
+      await store.increment('k', MINUTE);
+
+      jest.setSystemTime(WINDOW_START + 2 * MINUTE);
+      expect(await store.increment('k', MINUTE)).toEqual({ current: 1, previous: 0, windowStart: WINDOW_START + 2 * MINUTE });
+    });
+
+    it('should reset one client across limiters', async () => {
+      const store = createMemoryRateLimitStore();
+      await store.increment('global:ip:1.1.1.1', MINUTE);
+      await store.increment('strict:ip:1.1.1.1', MINUTE);
+      await store.increment('global:ip:2.2.2.2', MINUTE);
+
+      expect(await store.reset('ip:1.1.1.1')).toBe(2);
+      expect(await store.reset()).toBe(1);
+    });
+  });
+
+  describe('Redis store', () => {
+    it('should count per window and read the previous window', async () => {
+      const client = createFakeRedis();
+      const store = createRedisRateLimitStore(client);
+      await store.increment('global:ip:1.1.1.1', MINUTE);
+
+      jest.setSystemTime(WINDOW_START + MINUTE);
+      expect(await store.increment('global:ip:1.1.1.1', MINUTE)).toEqual({
+        current: 1,
+        previous: 1,
+        windowStart: WINDOW_START + MINUTE
+      });
+    });
+
+    it('should reset only the given client', async () => {
+      const client = createFakeRedis();
+      const store = createRedisRateLimitStore(client);
+      await store.increment('global:ip:1.1.1.1', MINUTE);
+      await store.increment('global:ip:2.2.2.2', MINUTE);
+
+      expect(await store.reset('ip:1.1.1.1')).toBe(1);
+      expect([...client.data.keys()]).toEqual([`gsr:ratelimit:global:ip:2.2.2.2:${WINDOW_START}`]);
+    });
+
+    it('should reset every key across SCAN pages', async () => {
+      const client = createFakeRedis();
+      const store = createRedisRateLimitStore(client);
+      await store.increment('global:ip:1.1.1.1', MINUTE);
+      await store.increment('strict:ip:1.1.1.1', MINUTE);
+      await store.increment('global:ip:2.2.2.2', MINUTE);
+      const scan = jest.spyOn(client, 'scan');
+
+      expect(await store.reset()).toBe(3);
+      expect(client.data.size).toBe(0);
+      expect(scan).toHaveBeenCalledTimes(3);
+      expect(scan).toHaveBeenCalledWith('0', 'MATCH', 'gsr:ratelimit:*', 'COUNT', 500);
+    });
+  });
+
+  describe('Middleware', () => {
+    it('should allow requests up to the limit and set the RateLimit headers', async () => {
+      const limiter = createRateLimiter({ name: 'test', windowMs: MINUTE, limit: 3 });
+
+      const first = await hit(limiter);
+      expect(first.error).toBeUndefined();
+      expect(first.headers).toMatchObject({
+        'RateLimit-Policy': '3;w=60',
+        'RateLimit-Limit': 3,
+        'RateLimit-Remaining': 2,
+        'RateLimit-Reset': 60
+      });
+
+      await hit(limiter);
+      const third = await hit(limiter);
+      expect(third.error).toBeUndefined();
+      expect(third.headers['RateLimit-Remaining']).toBe(0);
+    });
+
+    it('should reject the request over the limit with 429 and Retry-After', async () => {
+      const limiter = createRateLimiter({ name: 'test', windowMs: MINUTE, limit: 2, message: 'Slow down' });
+      await hit(limiter);
+      await hit(limiter);
+
+      jest.setSystemTime(WINDOW_START + 15 * 1000);
+      const rejected = await hit(limiter);
+
+      expect(rejected.error).toMatchObject({ statusCode: 429, code: 'RATE_LIMIT_EXCEEDED', message: 'Slow down' });
+      expect(rejected.headers['Retry-After']).toBe(45);
+      expect(rejected.error.details).toEqual({ limit: 2, windowSeconds: 60, retryAfter: 45 });
+    });
+
+    it('should weight the previous window by how much of it still overlaps', async () => {
+      const limiter = createRateLimiter({ name: 'test', windowMs: MINUTE, limit: 4 });
+      for (let i = 0; i < 4; i++) {
+        await hit(limiter);
+      }
+
+      // A quarter into the next window, 3 of the previous 4 hits still count
+      jest.setSystemTime(WINDOW_START + MINUTE + 15 * 1000);
+      expect((await hit(limiter)).error).toBeUndefined();
+      const rejected = await hit(limiter);
+
+      expect(rejected.error).toMatchObject({ statusCode: 429 });
+      // Allowed again once half of the previous window has slid out: 30s in, i.e. 15s from now
+      expect(rejected.headers['Retry-After']).toBe(15);
+    });
+
+    it('should count limiters and clients separately', async () => {
+      const strict = createRateLimiter({ name: 'strict', windowMs: MINUTE, limit: 1 });
+      const other = createRateLimiter({ name: 'other', windowMs: MINUTE, limit: 1 });
+
+      await hit(strict);
+      expect((await hit(other)).error).toBeUndefined();
+      expect((await hit(strict, makeRequest({ ip: '198.51.100.1' }))).error).toBeUndefined();
+      expect((await hit(strict)).error).toMatchObject({ statusCode: 429 });
+    });
+
+    it('should decide the limit per request', async () => {
+      const limiter = createRateLimiter({
+        name: 'test',
+        windowMs: MINUTE,
+        limit: req => (req.user?.role === 'admin' ? 2 : 1)
+      });
+      const admin = makeRequest({ user: { id: 'a1', role: 'admin' } as any });
+
+      await hit(limiter, admin);
+      expect((await hit(limiter, admin)).error).toBeUndefined();
+      expect((await hit(limiter, admin)).error).toMatchObject({ statusCode: 429 });
+    });
+
+    it('should let skipped requests and preflights through uncounted', async () => {
+      const limiter = createRateLimiter({ name: 'test', windowMs: MINUTE, limit: 1, skip: req => req.path === '/health' });
+
+      expect((await hit(limiter, makeRequest({ path: '/health' }))).headers).toEqual({});
+      expect((await hit(limiter, makeRequest({ method: 'OPTIONS' }))).headers).toEqual({});
+      expect((await hit(limiter)).error).toBeUndefined();
+    });
+
+    it('should fail open when the store is unavailable', async () => {
+      const brokenStore: RateLimitStore = {
+        name: 'broken',
+        increment: async () => { throw new Error('connection refused'); },
+        reset: async () => 0
+      };
+      setRateLimitStore(brokenStore);
+      const limiter = createRateLimiter({ name: 'test', windowMs: MINUTE, limit: 0 });
+
+      expect((await hit(limiter)).error).toBeUndefined();
+    });
+
+    it('should start counting again after a reset', async () => {
+      const limiter = createRateLimiter({ name: 'test', windowMs: MINUTE, limit: 1 });
+      await hit(limiter);
+
+      await resetRateLimits('ip:203.0.113.7');
+      expect((await hit(limiter)).error).toBeUndefined();
+    });
+  });
+
+  describe('Hits outside a route', () => {
+    it('should share the counters of the route limiter with the same name', async () => {
+      const options = { name: 'strict', windowMs: MINUTE, limit: 2 };
+      const limiter = createRateLimiter(options);
+      await hit(limiter);
+
+      expect(await consumeRateLimit(options, 'ip:203.0.113.7')).toBe(true);
+      expect(await consumeRateLimit(options, 'ip:203.0.113.7')).toBe(false);
+      expect(await consumeRateLimit(options, 'ip:198.51.100.1')).toBe(true);
+      expect((await hit(limiter)).error).toMatchObject({ statusCode: 429 });
+    });
+
+    it('should allow the hit when the store is unavailable', async () => {
+      setRateLimitStore({ name: 'broken', increment: async () => { throw new Error('connection refused'); }, reset: async () => 0 });
+
+      expect(await consumeRateLimit({ name: 'strict', windowMs: MINUTE, limit: 0 }, 'ip:203.0.113.7')).toBe(true);
+    });
+  });
+});
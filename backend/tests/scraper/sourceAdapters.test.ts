@@ -0,0 +1,360 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  SourceAdapter,
+  adapterForUrl,
+  getSourceAdapter
+} from '../../src/services/sourceAdapters';
+import { parseAmount, parseSize } from '../../src/services/sourceAdapters/common';
+import { SourcePortal } from '../../src/types/scraper';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/portals', name), 'utf8');
+
+const SCRAPED_AT = '2025-10-20T06:00:00.000Z';
+
+// Read a saved results page the way transformFirecrawlData does for pages without JSON
+const parsePage = (adapter: SourceAdapter, name: string, pageUrl: string) =>
+  adapter
+    .parseMarkdown(fixture(name), pageUrl)
+    .map(raw => adapter.normalise(raw, { pageUrl, scrapedAt: SCRAPED_AT }));
+
+describe('Source adapters', () => {
+  describe('Registry', () => {
+    it('should default searches to MagicBricks', () => {
+      expect(getSourceAdapter().id).toBe('magicbricks');
+      expect(getSourceAdapter('nobroker').id).toBe('nobroker');
+    });
+
+    it('should pick the adapter for a URL by host', () => {
+      const cases: Array<[string, SourcePortal]> = [
+        ['https://www.magicbricks.com/propertyDetails/x&id=1', 'magicbricks'],
+        ['https://www.99acres.com/office-space-for-rent-in-baner-pune-spid-R1', '99acres'],
+        ['https://nobroker.in/property/commercial/rent/bangalore/x/1/detail', 'nobroker'],
+        ['https://housing.com/in/rent/commercial/x-1', 'housing'],
+        ['https://myhq.in/bangalore/coworking-spaces', 'myhq'],
+        ['https://www.coworker.com/india/mumbai', 'coworker'],
+        ['https://example.com/listing/1', 'generic'],
+        ['not a url', 'generic']
+      ];
+
+      cases.forEach(([url, portal]) => expect(adapterForUrl(url).id).toBe(portal));
+    });
+
+    it('should not search sites without an adapter', () => {
+      expect(getSourceAdapter('generic').validateParams({ location: 'Pune' })).toHaveLength(1);
+    });
+  });
+
+  describe('Search URLs', () => {
+    it('should keep the existing MagicBricks URL structure', () => {
+      const url = getSourceAdapter('magicbricks').buildSearchUrl!({
+        location: 'Koramangala',
+        propertyType: 'office',
+        minPrice: 50000,
+        furnished: 'furnished',
+        availability: 'immediate',
+        amenities: ['parking', 'wifi'],
+        sortBy: 'price-low-to-high',
+        page: 2
+      });
+
+      expect(url).toBe(
+        'https://www.magicbricks.com/property-for-rent/commercial/koramangala/office-space' +
+        '?budget-min=50000&furnishing=furnished&availability=immediate&amenities=parking%2Cwifi&sort=price-asc&page=2'
+      );
+    });
+
+    it('should read MagicBricks search parameters back from a URL', () => {
+      const adapter = getSourceAdapter('magicbricks');
+      const searchParams = {
+        location: 'Koramangala',
+        propertyType: 'warehouse' as const,
+        minArea: 5000,
+        maxArea: 20000,
+        sortBy: 'newest' as const,
+        page: 3
+      };
+
+      expect(adapter.parseSearchUrl!(adapter.buildSearchUrl!(searchParams))).toEqual({
+        portal: 'magicbricks',
+        ...searchParams
+      });
+    });
+
+    it('should build 99acres results paths with a page suffix', () => {
+      const url = getSourceAdapter('99acres').buildSearchUrl!({
+        location: 'Pune',
+        propertyType: 'office',
+        minArea: 1000,
+        furnished: 'semi-furnished',
+        sortBy: 'newest',
+        page: 2
+      });
+
+      expect(url).toBe(
+        'https://www.99acres.com/commercial-office-space-for-rent-in-pune-ffid-page-2?area_min=1000&furnish=2&sort=date_desc'
+      );
+    });
+
+    it('should build NoBroker URLs with locality_city slugs and range filters', () => {
+      const url = getSourceAdapter('nobroker').buildSearchUrl!({
+        location: 'Koramangala, Bangalore',
+        propertyType: 'retail',
+        maxPrice: 80000,
+        availability: 'within-15-days',
+        page: 2
+      });
+
+      expect(url).toBe(
+        'https://www.nobroker.in/commercial/shop-for-rent-in-koramangala_bangalore?rent=0%2C80000&availability=within_15_days&pageNo=2'
+      );
+    });
+
+    it('should build Housing.com URLs', () => {
+      const url = getSourceAdapter('housing').buildSearchUrl!({
+        location: 'Gurgaon',
+        propertyType: 'office',
+        minPrice: 100000,
+        sortBy: 'price-high-to-low'
+      });
+
+      expect(url).toBe('https://housing.com/in/rent/commercial-office-space-in-gurgaon?rent_min=100000&sort=price_high');
+    });
+
+    it('should build coworking aggregator URLs from city and locality', () => {
+      expect(getSourceAdapter('myhq').buildSearchUrl!({
+        location: 'HSR Layout, Bangalore',
+        minArea: 10,
+        maxPrice: 12000
+      })).toBe('https://myhq.in/bangalore/coworking-spaces/hsr-layout?budget_max=12000&seats=10');
+
+      expect(getSourceAdapter('coworker').buildSearchUrl!({ location: 'Mumbai', page: 2 }))
+        .toBe('https://www.coworker.com/india/mumbai?page=2');
+    });
+  });
+
+  describe('Parameter validation', () => {
+    it('should accept what a portal supports', () => {
+      expect(getSourceAdapter('magicbricks').validateParams({ amenities: ['wifi'], availability: 'immediate' })).toEqual([]);
+      expect(getSourceAdapter('myhq').validateParams({ location: 'Pune', propertyType: 'coworking', minArea: 5 })).toEqual([]);
+    });
+
+    it('should reject filters and property types a portal cannot search', () => {
+      expect(getSourceAdapter('99acres').validateParams({ location: 'Pune', amenities: ['wifi'] }))
+        .toEqual(['99acres searches cannot filter by amenities']);
+      expect(getSourceAdapter('nobroker').validateParams({ location: 'Pune', propertyType: 'land' }))
+        .toEqual(['NoBroker does not list land properties']);
+      expect(getSourceAdapter('coworker').validateParams({ location: 'Mumbai', maxPrice: 10000, sortBy: 'newest' }))
+        .toEqual(['Coworker searches cannot filter by price', 'Coworker cannot sort by newest']);
+    });
+
+    it('should require a location where the portal has no nationwide results', () => {
+      expect(getSourceAdapter('housing').validateParams({})).toEqual(['Housing.com searches need a location']);
+      expect(getSourceAdapter('magicbricks').validateParams({})).toEqual([]);
+    });
+
+    it('should still check ranges', () => {
+      expect(getSourceAdapter('magicbricks').validateParams({ minPrice: 100, maxPrice: 50 }))
+        .toEqual(['Minimum price must be less than maximum price']);
+    });
+  });
+
+  describe('Normalising', () => {
+    it('should parse Indian price notation', () => {
+      expect(parseAmount('₹1.8 Lac/month')).toBe(180000);
+      expect(parseAmount('Rs. 2,50,000')).toBe(250000);
+      expect(parseAmount('₹45K')).toBe(45000);
+      expect(parseAmount('1.25 Cr')).toBe(12500000);
+      expect(parseAmount('Price on request')).toBeNull();
+      expect(parseAmount(0)).toBeNull();
+    });
+
+    it('should convert areas to whole square feet', () => {
+      expect(parseSize('1,450 sq.ft.')).toEqual({ area: 1450, unit: 'sqft' });
+      expect(parseSize('200 sq.m.')).toEqual({ area: 2153, unit: 'sqft' });
+      expect(parseSize({ area: '0.5', unit: 'acres' })).toEqual({ area: 21780, unit: 'sqft' });
+      expect(parseSize('40 desks')).toEqual({ area: 40, unit: 'seats' });
+      expect(parseSize(25, 'seats')).toEqual({ area: 25, unit: 'seats' });
+    });
+
+    it('should normalise Firecrawl JSON extraction from a crawl', () => {
+      const adapter = getSourceAdapter('magicbricks');
+      const crawl = JSON.parse(fixture('magicbricks-crawl.json'));
+      const [page, otherPage] = crawl.data;
+      const pageUrl = page.metadata.sourceURL;
+
+      const listing = adapter.normalise(page.json, { pageUrl, scrapedAt: SCRAPED_AT });
+
+      expect(listing).toMatchObject({
+        title: '2,400 sqft Office Space for Rent in Koramangala 5th Block',
+        location: '80 Feet Road, Koramangala 5th Block, Bangalore',
+        price: { amount: 180000, currency: 'INR', period: 'monthly' },
+        size: { area: 2400, unit: 'sqft' },
+        amenities: ['Power Backup', 'Lift'],
+        contact: { phone: '+91 98450 12345', contactPerson: 'Ravi' },
+        media: { images: ['https://www.magicbricks.com/mbphoto/property/71234567_1.jpg'], videos: [] },
+        availability: { status: 'available' },
+        coordinates: { lat: 12.9352, lng: 77.6245 },
+        sourceUrl: 'https://www.magicbricks.com/propertyDetails/2400-Sq-ft-Office-Space-FOR-Rent-Koramangala-5th-Block-in-Bangalore&id=4d423731323334353637',
+        source: 'magicbricks',
+        scrapedAt: SCRAPED_AT
+      });
+      expect(listing?.features).toMatchObject({ furnished: true, parking: true, powerBackup: true, wifi: false });
+
+      const otherListings = otherPage.json.map((raw: any) =>
+        adapter.normalise(raw, { pageUrl: otherPage.metadata.sourceURL, scrapedAt: SCRAPED_AT })
+      );
+      expect(otherListings[0]).toMatchObject({
+        title: 'Office in Koramangala 1st Block',
+        price: { amount: 65000, period: 'monthly' },
+        sourceUrl: otherPage.metadata.sourceURL
+      });
+      expect(otherListings[0].coordinates).toBeUndefined();
+      expect(otherListings.slice(1)).toEqual([null, null]);
+    });
+  });
+
+  describe('Saved results pages', () => {
+    it('should read MagicBricks listing cards', () => {
+      const listings = parsePage(
+        getSourceAdapter('magicbricks'),
+        'magicbricks.md',
+        'https://www.magicbricks.com/property-for-rent/commercial/koramangala/office-space'
+      );
+
+      expect(listings).toHaveLength(2);
+      expect(listings[0]).toMatchObject({
+        title: '2,400 sqft Office Space for Rent in Koramangala 5th Block, Bangalore',
+        location: '80 Feet Road, Koramangala 5th Block, Bangalore',
+        price: { amount: 180000, period: 'monthly' },
+        size: { area: 2400, unit: 'sqft' },
+        amenities: ['Power Backup', 'Lift', 'Reserved Parking', 'Cafeteria'],
+        features: { furnished: true },
+        availability: { status: 'available' },
+        media: { images: ['https://img.staticmb.com/mbphoto/property/cropped_images/2025/Oct/01/Photo_h300_w450/71234567_1_PropertyImage.jpg'] },
+        source: 'magicbricks'
+      });
+      expect(listings[1]).toMatchObject({
+        location: 'Koramangala 1st Block, Bangalore',
+        price: { amount: 65000 },
+        size: { area: 850, unit: 'sqft' },
+        availability: { status: 'coming-soon' },
+        media: { images: ['https://img.staticmb.com/mbphoto/property/cropped_images/2025/Sep/22/Photo_h300_w450/71299881_1_PropertyImage.jpg'] }
+      });
+    });
+
+    it('should read 99acres listing cards', () => {
+      const listings = parsePage(
+        getSourceAdapter('99acres'),
+        '99acres.md',
+        'https://www.99acres.com/commercial-office-space-for-rent-in-pune-ffid'
+      );
+
+      expect(listings).toHaveLength(2);
+      expect(listings[0]).toMatchObject({
+        title: 'Office Space in Baner, Pune',
+        sourceUrl: 'https://www.99acres.com/office-space-for-rent-in-baner-pune-1450-sq-ft-spid-R71455321',
+        location: 'Baner, Pune',
+        price: { amount: 110000, period: 'monthly' },
+        size: { area: 1450, unit: 'sqft' },
+        features: { furnished: true },
+        media: { images: ['https://imagecdn.99acres.com/media1/24601/8/492028314M-1729162018923.jpg'] },
+        source: '99acres'
+      });
+      expect(listings[1]).toMatchObject({
+        location: 'Hinjewadi Phase 1, Pune',
+        price: { amount: 95000 },
+        size: { area: 2153, unit: 'sqft' },
+        features: { furnished: false }
+      });
+    });
+
+    it('should read NoBroker listing cards', () => {
+      const listings = parsePage(
+        getSourceAdapter('nobroker'),
+        'nobroker.md',
+        'https://www.nobroker.in/commercial/office-space-for-rent-in-koramangala_bangalore'
+      );
+
+      expect(listings).toHaveLength(2);
+      expect(listings[0]).toMatchObject({
+        title: 'Office Space For Rent In Koramangala 6th Block',
+        location: 'Koramangala 6th Block',
+        price: { amount: 90000 },
+        size: { area: 1200, unit: 'sqft' },
+        availability: { status: 'available' },
+        media: { images: ['https://images.nobroker.in/images/8a9f8c8391a7e2b40191a8110d6e4f21/8a9f8c8391a7e2b40191a8110d6e4f21_54321_large.jpg'] },
+        source: 'nobroker'
+      });
+      expect(listings[1]).toMatchObject({
+        location: '17th Main, Koramangala 4th Block, Bangalore',
+        price: { amount: 45000 },
+        size: { area: 400 },
+        media: { images: [] }
+      });
+    });
+
+    it('should read Housing.com listing cards', () => {
+      const listings = parsePage(
+        getSourceAdapter('housing'),
+        'housing.md',
+        'https://housing.com/in/rent/commercial-office-space-in-gurgaon'
+      );
+
+      expect(listings).toHaveLength(2);
+      expect(listings[0]).toMatchObject({
+        title: 'Office space in Cyber City, DLF Phase 2',
+        location: 'Building 10, DLF Cyber City Phase 2, Gurgaon',
+        price: { amount: 350000 },
+        size: { area: 3200, unit: 'sqft' },
+        media: { images: ['https://is1-3.housingcdn.com/01c16c28/3a3b84cf7f0e3fd4d9ea1b3c4c6d2b2a/v0/medium.jpg'] },
+        source: 'housing'
+      });
+      expect(listings[1]).toMatchObject({
+        price: { amount: 120000 },
+        availability: { status: 'occupied' },
+        features: { furnished: false }
+      });
+    });
+
+    it('should read coworking spaces priced per seat', () => {
+      const myHq = parsePage(
+        getSourceAdapter('myhq'),
+        'myhq.md',
+        'https://myhq.in/bangalore/coworking-spaces/hsr-layout'
+      );
+
+      expect(myHq).toHaveLength(2);
+      expect(myHq[0]).toMatchObject({
+        title: 'Workafella HSR Layout',
+        price: { amount: 9500, period: 'monthly' },
+        size: { area: 120, unit: 'seats' },
+        amenities: ['High-speed WiFi', 'Meeting Rooms', 'Cafeteria', 'Power Backup'],
+        media: { images: ['https://images.myhq.in/spaces/workafella-hsr/cover.jpg'] },
+        source: 'myhq'
+      });
+      expect(myHq[1]).toMatchObject({ location: 'HSR Layout Sector 7, Bangalore', price: { amount: 11000 } });
+
+      const coworker = parsePage(
+        getSourceAdapter('coworker'),
+        'coworker.md',
+        'https://www.coworker.com/india/mumbai'
+      );
+
+      expect(coworker).toHaveLength(2);
+      // The monthly desk price, not the day pass
+      expect(coworker[0]).toMatchObject({
+        title: 'WeWork Enam Sambhav, BKC',
+        price: { amount: 18000, period: 'monthly' },
+        size: { area: 40, unit: 'seats' },
+        source: 'coworker'
+      });
+      expect(coworker[1]).toMatchObject({ price: { amount: 12500 } });
+      expect(coworker[1]?.size).toBeUndefined();
+    });
+
+    it('should find nothing on pages without listing links', () => {
+      expect(getSourceAdapter('magicbricks').parseMarkdown(fixture('housing.md'), 'https://housing.com/in/rent')).toEqual([]);
+    });
+  });
+});
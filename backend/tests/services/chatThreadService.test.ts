@@ -0,0 +1,137 @@
+import { DatabaseService } from '../../src/services/cloudSqlService';
+import {
+  createThreadSecret,
+  estimateTokens,
+  hashThreadSecret,
+  loadThreadHistory,
+  threadTitleFromPrompt
+} from '../../src/services/chatThreadService';
+
+jest.mock('../../src/config/environment', () => ({
+  getBackendConfig: () => ({ C1_HISTORY_TOKEN_BUDGET: 100 })
+}));
+jest.mock('../../src/utils/logger', () => ({
+  createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+jest.mock('../../src/services/cloudSqlService', () => ({
+  DatabaseService: {
+    chatThreads: { getMessages: jest.fn(), updateSummary: jest.fn() }
+  }
+}));
+
+const chatThreads = DatabaseService.chatThreads as unknown as Record<string, jest.Mock>;
+
+// Turns m1..mN alternating user/assistant, each estimated at the given token count
+const turns = (...tokens: number[]) => tokens.map((tokenEstimate, index) => ({
+  id: `m${index + 1}`,
+  role: index % 2 === 0 ? 'user' : 'assistant',
+  content: `Turn ${index + 1}`,
+  token_estimate: tokenEstimate
+}));
+
+const thread = (summary: string | null = null) => ({ id: 'thread-1', summary });
+
+describe('Chat threads', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chatThreads.updateSummary!.mockResolvedValue({ data: true, error: null });
+  });
+
+  describe('History budget', () => {
+    it('should replay every turn that fits the budget', async () => {
+      chatThreads.getMessages!.mockResolvedValue({ data: turns(30, 30, 30), error: null });
+
+      const history = await loadThreadHistory(thread());
+
+      expect(history.map(message => message.content)).toEqual(['Turn 1', 'Turn 2', 'Turn 3']);
+      expect(chatThreads.getMessages).toHaveBeenCalledWith('thread-1', true);
+    });
+
+    it('should keep the newest turns and drop the older ones without a summarizer', async () => {
+      chatThreads.getMessages!.mockResolvedValue({ data: turns(40, 40, 30, 30), error: null });
+
+      const history = await loadThreadHistory(thread());
+
+      expect(history).toEqual([
+        { role: 'assistant', content: 'Turn 2' },
+        { role: 'user', content: 'Turn 3' },
+        { role: 'assistant', content: 'Turn 4' }
+      ]);
+      expect(chatThreads.updateSummary).not.toHaveBeenCalled();
+    });
+
+    it('should stop at the first turn that does not fit, even if older ones would', async () => {
+      chatThreads.getMessages!.mockResolvedValue({ data: turns(10, 90, 60), error: null });
+
+      const history = await loadThreadHistory(thread());
+
+      expect(history.map(message => message.content)).toEqual(['Turn 3']);
+    });
+
+    it('should estimate turns saved without a token count', async () => {
+      const long = { id: 'm1', role: 'user', content: 'x'.repeat(400), token_estimate: 0 };
+      chatThreads.getMessages!.mockResolvedValue({ data: [long, ...turns(0, 50).slice(1)], error: null });
+
+      const history = await loadThreadHistory(thread());
+
+      expect(estimateTokens(long.content)).toBe(100);
+      expect(history.map(message => message.content)).toEqual(['Turn 2']);
+    });
+
+    it('should take the existing summary out of the budget and send it first', async () => {
+      chatThreads.getMessages!.mockResolvedValue({ data: turns(30, 30, 30), error: null });
+
+      const history = await loadThreadHistory(thread('s'.repeat(160)));
+
+      expect(history[0]).toEqual({ role: 'system', content: `Summary of the earlier conversation:\n${'s'.repeat(160)}` });
+      expect(history.slice(1).map(message => message.content)).toEqual(['Turn 2', 'Turn 3']);
+    });
+
+    it('should fold the turns that no longer fit into the summary', async () => {
+      chatThreads.getMessages!.mockResolvedValue({ data: turns(60, 60, 40), error: null });
+      const summarize = jest.fn().mockResolvedValue('They want 40 seats in HSR Layout');
+
+      const history = await loadThreadHistory(thread('Earlier: budget ₹2L'), summarize);
+
+      expect(summarize).toHaveBeenCalledWith('User: Turn 1\n\nAssistant: Turn 2', 'Earlier: budget ₹2L');
+      expect(chatThreads.updateSummary).toHaveBeenCalledWith('thread-1', 'They want 40 seats in HSR Layout', 'm2');
+      expect(history).toEqual([
+        { role: 'system', content: 'Summary of the earlier conversation:\nThey want 40 seats in HSR Layout' },
+        { role: 'user', content: 'Turn 3' }
+      ]);
+    });
+
+    it('should answer with the old summary when summarizing fails', async () => {
+      chatThreads.getMessages!.mockResolvedValue({ data: turns(60, 60), error: null });
+      const summarize = jest.fn().mockRejectedValue(new Error('C1 unavailable'));
+
+      const history = await loadThreadHistory(thread('Earlier summary'), summarize);
+
+      expect(chatThreads.updateSummary).not.toHaveBeenCalled();
+      expect(history.map(message => message.content)).toEqual(['Summary of the earlier conversation:\nEarlier summary', 'Turn 2']);
+    });
+
+    it('should fail when the messages cannot be loaded', async () => {
+      chatThreads.getMessages!.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+      await expect(loadThreadHistory(thread())).rejects.toThrow('Failed to load chat thread messages: connection refused');
+    });
+  });
+
+  describe('Titles and secrets', () => {
+    it('should name a thread after the first line of its first message', () => {
+      expect(threadTitleFromPrompt('  Offices in Koramangala\nfor 40 people')).toBe('Offices in Koramangala');
+      expect(threadTitleFromPrompt('a'.repeat(100))).toBe(`${'a'.repeat(79)}…`);
+      expect(threadTitleFromPrompt('   ')).toBe('New conversation');
+    });
+
+    it('should issue unguessable secrets and store only their hash', () => {
+      const secret = createThreadSecret();
+
+      expect(secret).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(createThreadSecret()).not.toBe(secret);
+      expect(hashThreadSecret(secret)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashThreadSecret(secret)).toBe(hashThreadSecret(secret));
+    });
+  });
+});
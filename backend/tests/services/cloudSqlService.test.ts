@@ -0,0 +1,314 @@
+import { DatabaseService } from '../../src/services/cloudSqlService';
+import { parsePropertyFilters } from '../../src/utils/propertyFilters';
+
+jest.mock('../../src/utils/logger', () => ({
+  createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+// Queries run against a scripted database client
+jest.mock('pg', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+  return { Pool: jest.fn(() => ({ connect: async () => client })), mockClient: client };
+});
+jest.mock('firebase-admin', () => ({ __esModule: true, default: { apps: [{}] } }));
+jest.mock('@google-cloud/storage', () => ({ Storage: jest.fn() }));
+
+const { mockClient: client } = jest.requireMock('pg') as { mockClient: { query: jest.Mock; release: jest.Mock } };
+
+// Statements sent to the client, whitespace collapsed, with their parameters
+const queries = () =>
+  client.query.mock.calls.map(([sql, params]) => ({ sql: String(sql).replace(/\s+/g, ' ').trim(), params: params || [] }));
+
+const listQuery = () => queries().find(query => query.sql.startsWith('SELECT p.*'))!;
+
+describe('Database service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client.query.mockResolvedValue({ rows: [{ total: '0' }] });
+  });
+
+  describe('Property listing', () => {
+    it('should pass every filter value as a parameter', async () => {
+      await DatabaseService.properties.getAll(parsePropertyFilters({
+        propertyType: 'office',
+        minPrice: '50000',
+        maxPrice: '90000',
+        location: "Koramangala'; DROP TABLE properties; --",
+        amenities: 'WiFi,Parking',
+        tags: 't1,t2',
+        available: 'true'
+      }));
+
+      const [count] = queries();
+      expect(count!.sql).toBe(
+        'SELECT COUNT(*) AS total FROM properties p WHERE 1=1 AND p.property_type = $1 AND p.price >= $2 AND p.price <= $3' +
+        ' AND p.location ILIKE $4 AND p.amenities @> $5::jsonb' +
+        " AND COALESCE(p.availability_status, 'available') = $6" +
+        ' AND EXISTS (SELECT 1 FROM property_tag_assignments pta WHERE pta.property_id = p.id AND pta.tag_id = ANY($7::uuid[]))'
+      );
+      expect(count!.params).toEqual([
+        'office',
+        50000,
+        90000,
+        "%Koramangala'; DROP TABLE properties; --%",
+        '["WiFi","Parking"]',
+        'available',
+        ['t1', 't2']
+      ]);
+    });
+
+    it('should match any of several areas on their locality', async () => {
+      await DatabaseService.properties.getAll(parsePropertyFilters({ locations: 'HSR Layout, Bengaluru,Indiranagar' }));
+
+      const [count] = queries();
+      expect(count!.sql).toContain('(p.location ILIKE ANY($1) OR p.city ILIKE ANY($1) OR p.formatted_address ILIKE ANY($1))');
+      expect(count!.params).toEqual([['%HSR Layout%', '%Bengaluru%', '%Indiranagar%']]);
+    });
+
+    it('should filter by radius and map viewport with numeric parameters', async () => {
+      await DatabaseService.properties.getAll(parsePropertyFilters({
+        lat: '12.93',
+        lng: '77.62',
+        locationRadius: '2.5',
+        bounds: '12.9,77.6,13.0,77.7'
+      }));
+
+      const [count] = queries();
+      expect(count!.sql).toContain('ST_DWithin(p.geo_location, ST_SetSRID(ST_MakePoint($2::float8, $1::float8), 4326)::geography, $3)');
+      expect(count!.sql).toContain('p.geo_location && ST_MakeEnvelope($4, $5, $6, $7, 4326)::geography');
+      expect(count!.params).toEqual([12.93, 77.62, 2500, 77.6, 12.9, 77.7, 13.0]);
+    });
+
+    it('should leave out filters that are not set', async () => {
+      await DatabaseService.properties.getAll({});
+
+      expect(queries()[0]).toEqual({ sql: 'SELECT COUNT(*) AS total FROM properties p WHERE 1=1', params: [] });
+    });
+
+    it('should sort by whitelisted columns only, with the id as tie-breaker', async () => {
+      await DatabaseService.properties.getAll({}, { sortBy: 'price', sortOrder: 'asc' });
+      expect(listQuery().sql).toContain('ORDER BY p.price ASC NULLS LAST, p.id ASC');
+
+      jest.clearAllMocks();
+      client.query.mockResolvedValue({ rows: [{ total: '0' }] });
+      await DatabaseService.properties.getAll({}, { sortBy: 'price; DROP TABLE properties' as 'price', sortOrder: 'sideways' as 'asc' });
+      expect(listQuery().sql).toContain('ORDER BY p.created_at DESC NULLS LAST, p.id DESC');
+    });
+
+    it('should sort by distance only when there is an origin', async () => {
+      await DatabaseService.properties.getAll({}, { sortBy: 'distance' });
+      expect(listQuery().sql).toContain('ORDER BY p.created_at DESC');
+
+      jest.clearAllMocks();
+      client.query.mockResolvedValue({ rows: [{ total: '0' }] });
+      await DatabaseService.properties.getAll({ lat: 12.93, lng: 77.62 }, { sortBy: 'distance', sortOrder: 'asc' });
+      expect(listQuery().sql).toContain('AS distance_km');
+      expect(listQuery().sql).toContain('ORDER BY distance_km ASC NULLS LAST');
+    });
+
+    it('should clamp the page size and page number', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ total: '250' }] }).mockResolvedValueOnce({ rows: [] });
+
+      const { data } = await DatabaseService.properties.getAll({}, { page: 3, limit: 500 });
+
+      expect(data).toEqual({ rows: [], total: 250, page: 3, limit: 100 });
+      expect(listQuery().params).toEqual([100, 200]);
+
+      jest.clearAllMocks();
+      client.query.mockResolvedValue({ rows: [{ total: '0' }] });
+      const { data: first } = await DatabaseService.properties.getAll({}, { page: -2, limit: 0 });
+      expect(first).toMatchObject({ page: 1, limit: 20 });
+      expect(listQuery().params).toEqual([20, 0]);
+    });
+
+    it('should keep internal search columns out of the rows', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [{ total: '1' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'p1', title: 'Office', search_vector: "'offic':1", geo_location: '0101' }] });
+
+      const { data } = await DatabaseService.properties.getAll({});
+
+      expect(data.rows).toEqual([{ id: 'p1', title: 'Office' }]);
+    });
+  });
+
+  describe('Property search', () => {
+    // Answer the exact-match probe and the vocabulary lookup; other statements find nothing
+    const searchDatabase = (found: boolean, corrections: Array<{ token: string; word: string | null }> = []) => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('AS found')) return { rows: [{ found }] };
+        if (sql.includes('FROM property_search_words')) return { rows: corrections };
+        if (sql.startsWith('SELECT COUNT(*)')) return { rows: [{ total: '0' }] };
+        return { rows: [] };
+      });
+    };
+    const wordLookup = () => queries().find(query => query.sql.includes('FROM property_search_words'));
+
+    it('should not look for corrections when the query matches as typed', async () => {
+      searchDatabase(true);
+
+      const { data } = await DatabaseService.properties.search('Koramangala office');
+
+      expect(data.suggestion).toBeNull();
+      expect(wordLookup()).toBeUndefined();
+      expect(listQuery().params).toEqual(['Koramangala office', 20, 0]);
+    });
+
+    it('should look up each distinct word of three or more characters once', async () => {
+      searchDatabase(false);
+
+      await DatabaseService.properties.search('Kormangala 2 BHK near HSR, hsr-layout');
+
+      expect(wordLookup()!.params).toEqual([['kormangala', 'bhk', 'near', 'hsr', 'layout']]);
+    });
+
+    it('should skip the lookup when no word is long enough', async () => {
+      searchDatabase(false);
+
+      const { data } = await DatabaseService.properties.search('a 1 --');
+
+      expect(wordLookup()).toBeUndefined();
+      expect(data.suggestion).toBeNull();
+    });
+
+    it('should suggest the corrected query and search it too', async () => {
+      searchDatabase(false, [
+        { token: 'kormangala', word: 'koramangala' },
+        { token: 'office', word: 'office' },
+        { token: 'cowrking', word: null }
+      ]);
+
+      const { data } = await DatabaseService.properties.search('Kormangala office cowrking');
+
+      expect(data.suggestion).toBe('koramangala office cowrking');
+      expect(listQuery().sql).toContain("(websearch_to_tsquery('english', $1) || websearch_to_tsquery('english', $2))");
+      expect(listQuery().params.slice(0, 2)).toEqual(['Kormangala office cowrking', 'koramangala office cowrking']);
+    });
+
+    it('should HTML-escape listing text, ampersands first, before highlighting', async () => {
+      searchDatabase(true);
+
+      await DatabaseService.properties.search('office');
+
+      const escapedTitle = `replace(replace(replace(replace(replace(coalesce(p.title, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+      expect(listQuery().sql).toContain(`ts_headline('english', ${escapedTitle},`);
+      expect(listQuery().sql).toContain("coalesce(p.location, ''), '&', '&amp;')");
+      expect(listQuery().sql).toContain("coalesce(p.description, ''), '&', '&amp;')");
+    });
+
+    it('should return the highlights with each row', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('AS found')) return { rows: [{ found: true }] };
+        if (sql.startsWith('SELECT COUNT(*)')) return { rows: [{ total: '1' }] };
+        return {
+          rows: [{
+            id: 'p1',
+            title: 'Office <b>HSR</b>',
+            relevance: 0.4,
+            title_highlight: '<mark>Office</mark> &lt;b&gt;HSR&lt;/b&gt;',
+            location_highlight: 'HSR Layout',
+            description_highlight: 'Bright <mark>office</mark>',
+            search_vector: "'offic':1"
+          }]
+        };
+      });
+
+      const { data } = await DatabaseService.properties.search('office');
+
+      expect(data.rows).toEqual([{
+        id: 'p1',
+        title: 'Office <b>HSR</b>',
+        relevance: 0.4,
+        highlights: {
+          title: '<mark>Office</mark> &lt;b&gt;HSR&lt;/b&gt;',
+          location: 'HSR Layout',
+          description: 'Bright <mark>office</mark>'
+        }
+      }]);
+    });
+  });
+
+  describe('Chat threads', () => {
+    // The insert reports whether this message started the thread; the access check finds it or not
+    const threadDatabase = ({ created, found }: { created: boolean; found: boolean }) => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO chat_threads')) return { rows: [], rowCount: created ? 1 : 0 };
+        if (sql.includes('FROM chat_threads t')) return { rows: found ? [{ id: 'thread-1', user_id: null }] : [] };
+        return { rows: [], rowCount: 0 };
+      });
+    };
+    const claim = () => queries().find(query => query.sql.startsWith('UPDATE chat_threads SET user_id'));
+    const access = () => queries().find(query => query.sql.includes('FROM chat_threads t'))!;
+
+    it('should bind a thread started signed out to the new secret', async () => {
+      threadDatabase({ created: true, found: true });
+
+      const { data } = await DatabaseService.chatThreads.ensure(null, 'thread-1', 'Offices', null, 'new-hash');
+
+      expect(data).toMatchObject({ id: 'thread-1', created: true });
+      expect(queries()[0]!.params).toEqual(['thread-1', null, 'Offices', 'new-hash']);
+      expect(access().sql).toContain('(t.user_id = $2 OR (t.user_id IS NULL AND t.session_secret_hash = $3))');
+      expect(access().params).toEqual(['thread-1', null, 'new-hash']);
+    });
+
+    it('should only reach an anonymous thread with its secret', async () => {
+      threadDatabase({ created: false, found: false });
+
+      const { data, error } = await DatabaseService.chatThreads.ensure(null, 'thread-1', 'Offices', null, 'new-hash');
+
+      expect(data).toBeNull();
+      expect(error).toMatchObject({ code: 'NOT_FOUND' });
+      expect(access().params).toEqual(['thread-1', null, null]);
+    });
+
+    it('should move a thread to the account that presents its secret', async () => {
+      threadDatabase({ created: false, found: true });
+
+      await DatabaseService.chatThreads.ensure('user-1', 'thread-1', 'Offices', 'old-hash', 'new-hash');
+
+      expect(claim()!.sql).toContain('WHERE id = $1 AND user_id IS NULL AND session_secret_hash = $3');
+      expect(claim()!.params).toEqual(['thread-1', 'user-1', 'old-hash']);
+      expect(access().params).toEqual(['thread-1', 'user-1', 'old-hash']);
+    });
+
+    it('should never claim a thread without its secret', async () => {
+      threadDatabase({ created: false, found: false });
+
+      const { error } = await DatabaseService.chatThreads.ensure('user-1', 'thread-1', 'Offices', null, 'new-hash');
+
+      expect(claim()).toBeUndefined();
+      expect(error).toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('Property merges', () => {
+    beforeEach(() => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return { rows: [{ id: 'target-1' }, { id: 'source-1' }] };
+        return { rows: [{ id: 'target-1' }], rowCount: 1 };
+      });
+    });
+
+    const statementIndex = (start: string) => queries().findIndex(query => query.sql.startsWith(start));
+
+    it('should point saved comparisons at the kept property', async () => {
+      await DatabaseService.propertyMerges.merge('target-1', 'source-1', {}, 'admin-1');
+
+      const remap = queries()[statementIndex('UPDATE saved_comparisons')]!;
+      expect(remap.sql).toContain('unnest(array_replace(c.property_ids, $2::uuid, $1::uuid))');
+      expect(remap.sql).toContain('WHERE $2::uuid = ANY(c.property_ids)');
+      expect(remap.params).toEqual(['target-1', 'source-1']);
+    });
+
+    it('should settle the kept property\'s cover and images before committing', async () => {
+      await DatabaseService.propertyMerges.merge('target-1', 'source-1', {}, 'admin-1');
+
+      const cover = statementIndex('UPDATE property_media SET is_cover = true');
+      const images = statementIndex('UPDATE properties SET images');
+      expect(queries()[cover]!.params).toEqual(['target-1']);
+      expect(queries()[images]!.params).toEqual(['target-1']);
+      expect(cover).toBeGreaterThan(statementIndex('DELETE FROM properties'));
+      expect(images).toBeGreaterThan(cover);
+      expect(statementIndex('COMMIT')).toBeGreaterThan(images);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { getBackendConfig } from '../../src/config/environment';
+import { DatabaseService } from '../../src/services/cloudSqlService';
+import {
+  LlmCaller,
+  cacheLlmResponse,
+  checkLlmBudget,
+  estimateLlmCost,
+  getCachedLlmResponse,
+  llmCacheKey,
+  nextBudgetReset
+} from '../../src/services/llmUsageService';
+
+jest.mock('../../src/config/environment', () => {
+  const config = {
+    LLM_DAILY_TOKEN_BUDGET: 0,
+    LLM_MODEL_PRICING: 'c1-large=3:15, c1-small=1, *=2:8',
+    C1_CACHE_TTL_SECONDS: 3600
+  };
+  return { getBackendConfig: () => config };
+});
+jest.mock('../../src/utils/logger', () => ({
+  createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+jest.mock('../../src/services/cloudSqlService', () => ({
+  DatabaseService: {
+    llmUsage: { getDailyTotals: jest.fn() },
+    llmResponseCache: { get: jest.fn(), set: jest.fn() }
+  }
+}));
+
+// The mocked config object the service reads on every call
+const mockConfig = getBackendConfig() as { LLM_DAILY_TOKEN_BUDGET: number; C1_CACHE_TTL_SECONDS: number };
+const getDailyTotals = DatabaseService.llmUsage.getDailyTotals as jest.Mock;
+const cacheGet = DatabaseService.llmResponseCache.get as jest.Mock;
+const cacheSet = DatabaseService.llmResponseCache.set as jest.Mock;
+
+const caller = (role: string): LlmCaller => ({ userId: role === 'anonymous' ? null : 'u1', role, clientKey: 'user:u1' });
+const totals = (client: number, role = client, global = role) => ({ data: { client, role, global }, error: null });
+
+describe('LLM usage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig.LLM_DAILY_TOKEN_BUDGET = 0;
+    mockConfig.C1_CACHE_TTL_SECONDS = 3600;
+  });
+
+  describe('Daily budgets', () => {
+    it('should allow a caller under every budget', async () => {
+      getDailyTotals.mockResolvedValue(totals(19999, 100000));
+      expect(await checkLlmBudget(caller('anonymous'))).toEqual({ allowed: true });
+    });
+
+    it('should stop a visitor at their own budget first', async () => {
+      getDailyTotals.mockResolvedValue(totals(20000, 600000));
+
+      expect(await checkLlmBudget(caller('anonymous'))).toMatchObject({
+        allowed: false,
+        scope: 'client',
+        limit: 20000,
+        used: 20000
+      });
+    });
+
+    it('should stop a role at its shared budget', async () => {
+      getDailyTotals.mockResolvedValue(totals(100, 500000));
+      expect(await checkLlmBudget(caller('anonymous'))).toMatchObject({ allowed: false, scope: 'role', limit: 500000 });
+    });
+
+    it('should apply the overall budget to every role', async () => {
+      mockConfig.LLM_DAILY_TOKEN_BUDGET = 1000000;
+      getDailyTotals.mockResolvedValue(totals(50, 50, 1000000));
+      expect(await checkLlmBudget(caller('user'))).toMatchObject({ allowed: false, scope: 'global', limit: 1000000 });
+    });
+
+    it('should not read usage for unlimited roles', async () => {
+      expect(await checkLlmBudget(caller('admin'))).toEqual({ allowed: true });
+      expect(getDailyTotals).not.toHaveBeenCalled();
+    });
+
+    it('should treat unknown roles as anonymous', async () => {
+      getDailyTotals.mockResolvedValue(totals(20000));
+      expect(await checkLlmBudget(caller('guest'))).toMatchObject({ allowed: false, scope: 'client', limit: 20000 });
+    });
+
+    it('should allow the call when usage cannot be read', async () => {
+      getDailyTotals.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+      expect(await checkLlmBudget(caller('anonymous'))).toEqual({ allowed: true });
+    });
+
+    it('should reset at the next midnight UTC', () => {
+      expect(nextBudgetReset(new Date('2025-10-20T23:59:59.000Z')).toISOString()).toBe('2025-10-21T00:00:00.000Z');
+      expect(nextBudgetReset(new Date('2025-12-31T00:00:00.000Z')).toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('Cost', () => {
+    it('should price input and output tokens per model', () => {
+      expect(estimateLlmCost('c1-large', { prompt_tokens: 1000000, completion_tokens: 100000 })).toBeCloseTo(4.5);
+    });
+
+    it('should use the input price for output when only one is given', () => {
+      expect(estimateLlmCost('c1-small', { prompt_tokens: 500000, completion_tokens: 500000 })).toBeCloseTo(1);
+    });
+
+    it('should fall back to the wildcard price', () => {
+      expect(estimateLlmCost('other-model', { prompt_tokens: 1000000, completion_tokens: 1000000 })).toBeCloseTo(10);
+    });
+  });
+
+  describe('Response cache', () => {
+    const parts = { prompt: 'Offices in  Koramangala', useCase: 'generate', model: 'c1-large' };
+
+    it('should key equal prompts and contexts the same', () => {
+      expect(llmCacheKey({ ...parts, prompt: '  offices IN koramangala ', context: { b: 2, a: 1 } }))
+        .toBe(llmCacheKey({ ...parts, context: { a: 1, b: 2 } }));
+      expect(llmCacheKey(parts)).toBe(llmCacheKey({ ...parts, context: {} }));
+    });
+
+    it('should key different contexts, use cases and models apart', () => {
+      const key = llmCacheKey(parts);
+      expect(llmCacheKey({ ...parts, context: { budget: 50000 } })).not.toBe(key);
+      expect(llmCacheKey({ ...parts, useCase: 'chat' })).not.toBe(key);
+      expect(llmCacheKey({ ...parts, model: 'c1-small' })).not.toBe(key);
+      expect(llmCacheKey({ ...parts, systemPrompt: 'Be brief' })).not.toBe(key);
+    });
+
+    it('should read and write through the cache table', async () => {
+      cacheGet.mockResolvedValue({ data: { text: 'cached' }, error: null });
+      cacheSet.mockResolvedValue({ data: true, error: null });
+
+      expect(await getCachedLlmResponse('key')).toEqual({ text: 'cached' });
+      await cacheLlmResponse('key', 'generate', 'c1-large', { text: 'fresh' });
+      expect(cacheSet).toHaveBeenCalledWith('key', 'generate', 'c1-large', { text: 'fresh' }, 3600);
+    });
+
+    it('should treat an unavailable cache as a miss', async () => {
+      cacheGet.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+      expect(await getCachedLlmResponse('key')).toBeNull();
+    });
+
+    it('should bypass the cache when its TTL is 0', async () => {
+      mockConfig.C1_CACHE_TTL_SECONDS = 0;
+
+      expect(await getCachedLlmResponse('key')).toBeNull();
+      await cacheLlmResponse('key', 'generate', 'c1-large', { text: 'fresh' });
+      expect(cacheGet).not.toHaveBeenCalled();
+      expect(cacheSet).not.toHaveBeenCalled();
+    });
+  });
+});
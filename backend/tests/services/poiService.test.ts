@@ -0,0 +1,186 @@
+import { DatabaseService } from '../../src/services/cloudSqlService';
+import { detectPoiImportFormat, importPois, parsePoiImport } from '../../src/services/poiService';
+
+jest.mock('../../src/services/cloudSqlService', () => ({
+  DatabaseService: {
+    pointsOfInterest: { upsert: jest.fn() }
+  }
+}));
+
+const upsert = DatabaseService.pointsOfInterest.upsert as jest.Mock;
+
+const feature = (properties: Record<string, unknown>, geometry: unknown, id?: unknown) => ({
+  type: 'Feature',
+  ...(id !== undefined ? { id } : {}),
+  properties,
+  geometry
+});
+
+const point = (lng: number, lat: number) => ({ type: 'Point', coordinates: [lng, lat] });
+
+const collection = (...features: unknown[]) => ({ type: 'FeatureCollection', features });
+
+// An Overpass JSON extract ("[out:json]; ... out center;")
+const overpass = (...elements: unknown[]) => ({ version: 0.6, generator: 'Overpass API', elements });
+
+describe('Points of interest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Format detection', () => {
+    it('should read an elements array as OSM and anything else as GeoJSON', () => {
+      expect(detectPoiImportFormat(overpass())).toBe('osm');
+      expect(detectPoiImportFormat(collection())).toBe('geojson');
+      expect(detectPoiImportFormat({ elements: 'none' })).toBe('geojson');
+      expect(detectPoiImportFormat(null)).toBe('geojson');
+      expect(detectPoiImportFormat('elements')).toBe('geojson');
+    });
+  });
+
+  describe('GeoJSON', () => {
+    it('should take the category from the feature or its OSM tags', () => {
+      const parsed = parsePoiImport(collection(
+        feature({ category: 'Metro Station', name: 'Indiranagar' }, point(77.6408, 12.9784), 'metro-1'),
+        feature({ amenity: 'cafe', name: 'Third Wave Coffee', cuisine: 'coffee_shop' }, point(77.6387, 12.9719), 'node/42')
+      ));
+
+      expect(parsed).toEqual({
+        format: 'geojson',
+        received: 2,
+        pois: [
+          { externalId: 'metro-1', category: 'metro', name: 'Indiranagar', latitude: 12.9784, longitude: 77.6408, tags: { category: 'Metro Station', name: 'Indiranagar' } },
+          { externalId: 'node/42', category: 'restaurant', name: 'Third Wave Coffee', latitude: 12.9719, longitude: 77.6387, tags: { amenity: 'cafe', name: 'Third Wave Coffee', cuisine: 'coffee_shop' } }
+        ],
+        skipped: { no_category: 0, no_coordinates: 0, duplicate: 0 }
+      });
+    });
+
+    it('should read the nested tags osmtogeojson writes', () => {
+      const parsed = parsePoiImport(collection(
+        feature({ '@id': 'way/7', name: 'Manipal Hospital', tags: { amenity: 'hospital', 'healthcare:speciality': 'general' } }, point(77.6485, 12.9592))
+      ));
+
+      expect(parsed!.pois[0]).toMatchObject({
+        externalId: 'way/7',
+        category: 'hospital',
+        name: 'Manipal Hospital',
+        tags: { amenity: 'hospital', 'healthcare:speciality': 'general', name: 'Manipal Hospital' }
+      });
+    });
+
+    it('should place a footprint at the average of its ring, without the closing vertex', () => {
+      const footprint = {
+        type: 'Polygon',
+        coordinates: [[[77.60, 12.90], [77.62, 12.90], [77.62, 12.92], [77.60, 12.92], [77.60, 12.90]]]
+      };
+
+      const parsed = parsePoiImport(collection(feature({ leisure: 'fitness_centre', name: 'Cult' }, footprint, 'way/9')));
+
+      expect(parsed!.pois[0]!.latitude).toBeCloseTo(12.91);
+      expect(parsed!.pois[0]!.longitude).toBeCloseTo(77.61);
+    });
+
+    it('should count what it skips and why', () => {
+      const parsed = parsePoiImport(collection(
+        feature({ shop: 'bakery', name: 'Bakery' }, point(77.6, 12.9), 'node/1'),
+        feature({ amenity: 'bank', name: 'HDFC Bank' }, null, 'node/2'),
+        feature({ amenity: 'bank', name: 'HDFC Bank' }, point(200, 12.9), 'node/3'),
+        feature({ amenity: 'atm', name: 'SBI ATM' }, point(77.6, 12.9), 'node/4'),
+        feature({ amenity: 'atm', name: 'SBI ATM' }, point(77.6, 12.9), 'node/4')
+      ));
+
+      expect(parsed!.received).toBe(5);
+      expect(parsed!.pois.map(poi => poi.externalId)).toEqual(['node/4']);
+      expect(parsed!.skipped).toEqual({ no_category: 1, no_coordinates: 2, duplicate: 1 });
+    });
+
+    it('should identify a place without an id by category, name and position', () => {
+      const parsed = parsePoiImport(collection(
+        feature({ category: 'gym' }, point(77.612345678, 12.912345678)),
+        feature({ category: 'gym' }, point(77.612345678, 12.912345678))
+      ));
+
+      expect(parsed!.pois).toEqual([expect.objectContaining({ externalId: 'gym:Gym:12.91235,77.61235', name: 'Gym' })]);
+      expect(parsed!.skipped.duplicate).toBe(1);
+    });
+
+    it('should give unclassified places the fallback category', () => {
+      const parsed = parsePoiImport(collection(feature({ name: 'Stop 14' }, point(77.6, 12.9), 'stop-14')), 'bus_stop');
+
+      expect(parsed!.pois[0]).toMatchObject({ category: 'bus_stop', name: 'Stop 14' });
+    });
+  });
+
+  describe('OSM', () => {
+    it('should classify tagged nodes, ways and relations', () => {
+      const parsed = parsePoiImport(overpass(
+        { type: 'node', id: 1, lat: 12.9756, lon: 77.6068, tags: { railway: 'station', station: 'subway', name: 'MG Road' } },
+        { type: 'node', id: 2, lat: 12.9352, lon: 77.6245, tags: { highway: 'bus_stop', name: 'Forum Mall' } },
+        { type: 'way', id: 3, center: { lat: 12.9279, lon: 77.6271 }, tags: { amenity: 'bank', 'name:en': 'ICICI Bank' } },
+        { type: 'relation', id: 4, center: { lat: 12.9304, lon: 77.6784 }, tags: { railway: 'halt', network: 'Namma Metro' } }
+      ));
+
+      expect(parsed!.format).toBe('osm');
+      expect(parsed!.pois.map(poi => [poi.externalId, poi.category, poi.name, poi.latitude, poi.longitude])).toEqual([
+        ['node/1', 'metro', 'MG Road', 12.9756, 77.6068],
+        ['node/2', 'bus_stop', 'Forum Mall', 12.9352, 77.6245],
+        ['way/3', 'bank', 'ICICI Bank', 12.9279, 77.6271],
+        ['relation/4', 'metro', 'Metro station', 12.9304, 77.6784]
+      ]);
+    });
+
+    it('should leave out untagged elements and count unusable ones', () => {
+      const parsed = parsePoiImport(overpass(
+        { type: 'node', id: 1, lat: 12.9, lon: 77.6 },
+        { type: 'way', id: 2, nodes: [1], tags: { amenity: 'clinic' } },
+        { type: 'node', id: 3, lat: 12.9, lon: 77.6, tags: { amenity: 'parking' } },
+        { type: 'node', id: 4, lat: 12.9, lon: 77.6, tags: { amenity: 'fast_food', name: 'Empire' } }
+      ));
+
+      expect(parsed!.received).toBe(3);
+      expect(parsed!.pois.map(poi => poi.externalId)).toEqual(['node/4']);
+      expect(parsed!.skipped).toEqual({ no_category: 1, no_coordinates: 1, duplicate: 0 });
+    });
+
+    it('should store only plain tag values', () => {
+      const parsed = parsePoiImport(overpass(
+        { type: 'node', id: 1, lat: 12.9, lon: 77.6, tags: { amenity: 'gym', name: 'Gold\'s Gym', opening_hours: { days: 'Mo-Su' } } }
+      ));
+
+      expect(parsed!.pois[0]!.tags).toEqual({ amenity: 'gym', name: 'Gold\'s Gym' });
+    });
+  });
+
+  describe('Import', () => {
+    it('should reject data in neither format', async () => {
+      expect(parsePoiImport({ type: 'Feature' })).toBeNull();
+
+      const { error } = await importPois('upload', { rows: [] });
+
+      expect(error).toMatchObject({ code: 'INVALID_FORMAT' });
+      expect(upsert).not.toHaveBeenCalled();
+    });
+
+    it('should summarise the stored points by category', async () => {
+      upsert.mockResolvedValue({ data: { inserted: 1, updated: 1 }, error: null });
+
+      const { data } = await importPois('osm-bengaluru', overpass(
+        { type: 'node', id: 1, lat: 12.97, lon: 77.60, tags: { amenity: 'restaurant' } },
+        { type: 'node', id: 2, lat: 12.98, lon: 77.61, tags: { amenity: 'cafe' } },
+        { type: 'node', id: 3, lat: 12.99, lon: 77.62, tags: { shop: 'books' } }
+      ));
+
+      expect(upsert).toHaveBeenCalledWith('osm-bengaluru', expect.any(Array));
+      expect(data).toEqual({
+        source: 'osm-bengaluru',
+        format: 'osm',
+        received: 3,
+        inserted: 1,
+        updated: 1,
+        skipped: { no_category: 1, no_coordinates: 0, duplicate: 0 },
+        by_category: { restaurant: 2 }
+      });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { ComparableListing, DatabaseService } from '../../src/services/cloudSqlService';
+import {
+  DEFAULT_PRICING_RULES,
+  buildQuote,
+  getMarketRates,
+  getPricingRules,
+  toMicroMarket
+} from '../../src/services/pricingService';
+
+jest.mock('../../src/services/cloudSqlService', () => ({
+  DatabaseService: {
+    pricing: { getRules: jest.fn(), getMarketRates: jest.fn(), getComparables: jest.fn() }
+  }
+}));
+
+const getRules = DatabaseService.pricing.getRules as jest.Mock;
+const getMarketRatesQuery = DatabaseService.pricing.getMarketRates as jest.Mock;
+const getComparables = DatabaseService.pricing.getComparables as jest.Mock;
+
+const listing = (id: string, ratePerSqft: number): ComparableListing => ({
+  id,
+  title: `Office ${id}`,
+  location: 'Koramangala, Bengaluru',
+  category: 'fully-furnished-offices',
+  price: ratePerSqft * 1000,
+  area_sqft: 1000,
+  rate_per_sqft: ratePerSqft,
+  updated_at: new Date('2025-10-01T00:00:00.000Z')
+});
+
+// Flat rules so the arithmetic is easy to follow
+const SIMPLE_RULES = [
+  { key: 'maintenance_percent', value: 10 },
+  { key: 'gst_percent', value: 0 },
+  { key: 'utilities_per_seat', value: 0 },
+  { key: 'amenities_per_seat', value: 0 },
+  { key: 'escalation_percent', value: 10 },
+  { key: 'deposit_months', value: 2 },
+  { key: 'sqft_per_seat', value: 50 }
+];
+
+const quoteInputs = { location: 'Koramangala, Bengaluru', spaceType: 'office' as const, teamSize: 10, durationMonths: 18 };
+
+describe('Pricing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getRules.mockResolvedValue({ data: SIMPLE_RULES, error: null });
+  });
+
+  describe('Rules', () => {
+    it('should overlay stored rules on the defaults and ignore unknown keys', async () => {
+      getRules.mockResolvedValue({ data: [{ key: 'gst_percent', value: 12 }, { key: 'unknown', value: 1 }], error: null });
+
+      const { data } = await getPricingRules();
+      expect(data).toEqual({ ...DEFAULT_PRICING_RULES, gst_percent: 12 });
+    });
+  });
+
+  describe('Market rates', () => {
+    it('should add the per-seat rate and query by micro-market', async () => {
+      getMarketRatesQuery.mockResolvedValue({
+        data: [{ micro_market: 'hsr layout', category: 'co-working-spaces', listings: 4, median_rate_per_sqft: 90.4 }],
+        error: null
+      });
+
+      const { data } = await getMarketRates({ location: 'HSR-Layout, Bengaluru' });
+
+      expect(getMarketRatesQuery).toHaveBeenCalledWith({ microMarket: 'hsr layout', category: undefined });
+      expect(data![0]).toMatchObject({ micro_market: 'hsr layout', median_rate_per_seat: 4520 });
+    });
+
+    it('should use the locality of a location as its micro-market', () => {
+      expect(toMicroMarket('  Electronic-City , Bengaluru')).toBe('electronic city');
+    });
+  });
+
+  describe('Quotes', () => {
+    it('should price from the median comparable in the micro-market', async () => {
+      getComparables.mockResolvedValue({ data: [listing('a', 80), listing('b', 100), listing('c', 120)], error: null });
+
+      const { data } = await buildQuote(quoteInputs);
+
+      expect(getComparables).toHaveBeenCalledTimes(1);
+      expect(data!.rate).toMatchObject({ basis: 'micro_market', per_sqft: 100, per_seat: 5000, sample_size: 3 });
+      expect(data!.monthly).toEqual({ base_rent: 50000, maintenance: 5000, utilities: 0, amenities: 0, gst: 0, total: 55000 });
+      expect(data!.security_deposit).toBe(100000);
+    });
+
+    it('should escalate rent once a year over the lease', async () => {
+      getComparables.mockResolvedValue({ data: [listing('a', 80), listing('b', 100), listing('c', 120)], error: null });
+
+      const { data } = await buildQuote(quoteInputs);
+
+      expect(data!.schedule).toEqual([
+        { year: 1, months: 12, monthly_total: 55000, total: 660000 },
+        { year: 2, months: 6, monthly_total: 60500, total: 363000 }
+      ]);
+      expect(data!.lease_total).toBe(1023000);
+      expect(data!.projections.find(projection => projection.months === 12)!.total).toBe(660000 + 100000);
+    });
+
+    it('should widen the search when the micro-market has too few listings', async () => {
+      getComparables
+        .mockResolvedValueOnce({ data: [listing('a', 100)], error: null })
+        .mockResolvedValueOnce({ data: [listing('b', 60), listing('c', 70), listing('d', 80), listing('e', 90)], error: null });
+
+      const { data } = await buildQuote(quoteInputs);
+
+      expect(getComparables).toHaveBeenNthCalledWith(2, { categories: expect.arrayContaining(['fully-furnished-offices']) });
+      expect(data!.rate).toMatchObject({ basis: 'category', per_sqft: 75, sample_size: 4 });
+    });
+
+    it('should fall back to the default seat rate without comparables', async () => {
+      getComparables.mockResolvedValue({ data: [], error: null });
+
+      const { data } = await buildQuote({ ...quoteInputs, durationMonths: 12 });
+
+      expect(getComparables).toHaveBeenCalledTimes(3);
+      expect(data!.rate).toMatchObject({ basis: 'default', per_seat: DEFAULT_PRICING_RULES.fallback_rate_per_seat, sample_size: 0 });
+      expect(data!.comparables).toEqual([]);
+    });
+
+    it('should cite the comparables closest to the rate used', async () => {
+      getComparables.mockResolvedValue({
+        data: [10, 40, 95, 100, 105, 150, 400].map((rate, index) => listing(String(index), rate)),
+        error: null
+      });
+
+      const { data } = await buildQuote(quoteInputs);
+
+      expect(data!.comparables.map(comparable => comparable.rate_per_sqft)).toEqual([100, 95, 105, 150, 40]);
+      expect(data!.comparables[0]!.rate_per_seat).toBe(5000);
+    });
+
+    it('should return the error when comparables cannot be read', async () => {
+      getComparables.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+      expect(await buildQuote(quoteInputs)).toEqual({ data: null, error: { message: 'connection refused' } });
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { PropertyDuplicateService } from '../../src/services/propertyDuplicateService';
+import { getImportReport, importProperties } from '../../src/services/propertyImportService';
+import { BulkImportRequest, ImportMode, ScrapedPropertyData } from '../../src/types/scraper';
+
+jest.mock('../../src/config/environment', () => ({
+  getBackendConfig: () => ({})
+}));
+jest.mock('../../src/utils/logger', () => ({
+  createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+// The batch runs against the real DatabaseService over a scripted database client
+jest.mock('pg', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+  return { Pool: jest.fn(() => ({ connect: async () => client })), mockClient: client };
+});
+jest.mock('firebase-admin', () => ({ __esModule: true, default: { apps: [{}] } }));
+jest.mock('@google-cloud/storage', () => ({ Storage: jest.fn() }));
+jest.mock('../../src/services/propertyDuplicateService', () => ({
+  PropertyDuplicateService: { findDuplicates: jest.fn() }
+}));
+
+const { mockClient: client } = jest.requireMock('pg') as { mockClient: { query: jest.Mock; release: jest.Mock } };
+const findDuplicates = PropertyDuplicateService.findDuplicates as jest.Mock;
+
+const ADMIN_ID = 'admin-1';
+const CREATED_AT = new Date('2025-10-21T09:00:00.000Z');
+
+const listing = (title: string): ScrapedPropertyData => ({
+  title,
+  description: 'Fully furnished office with 40 workstations',
+  location: 'HSR Layout, Bengaluru',
+  sourceUrl: `https://www.magicbricks.com/${encodeURIComponent(title)}`
+} as ScrapedPropertyData);
+
+// Listings titled "Broken ..." fail their insert, as a constraint violation would
+const request = (mode: ImportMode, ...titles: string[]): BulkImportRequest => ({
+  properties: titles.map(listing),
+  mode
+});
+
+interface FakeDatabase {
+  // Batch stored under the key before this request, if any
+  existing?: Record<string, unknown> | null;
+  claimed?: boolean;
+}
+
+/**
+ * Answer the statements an import runs; returns every statement in order
+ */
+const fakeDatabase = ({ existing = null, claimed = true }: FakeDatabase = {}) => {
+  const statements: string[] = [];
+  let inserted = 0;
+
+  client.query.mockImplementation(async (sql: string, params: any[] = []) => {
+    const statement = sql.trim().replace(/\s+/g, ' ');
+    statements.push(statement);
+
+    if (statement.startsWith('SELECT * FROM property_import_batches')) {
+      return { rows: existing ? [existing] : [] };
+    }
+    if (statement.startsWith('INSERT INTO property_import_batches (idempotency_key, request_hash, mode, total')) {
+      return { rows: claimed ? [{ id: 'batch-1' }] : [] };
+    }
+    if (statement.startsWith('INSERT INTO properties')) {
+      if (String(params[0]).startsWith('Broken')) {
+        throw new Error('null value in column "price" violates not-null constraint');
+      }
+      inserted++;
+      return { rows: [{ id: `property-${inserted}` }] };
+    }
+    if (statement.startsWith('INSERT INTO property_import_batches')) {
+      const [key, requestHash, mode, status, total, imported, failed, skipped, report, jobId, createdBy] = params;
+      return {
+        rows: [{
+          id: 'batch-1',
+          idempotency_key: key,
+          request_hash: requestHash,
+          mode,
+          status,
+          total,
+          imported,
+          failed,
+          skipped,
+          report: JSON.parse(report),
+          job_id: jobId,
+          created_by: createdBy,
+          created_at: CREATED_AT,
+          completed_at: CREATED_AT
+        }]
+      };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return statements;
+};
+
+describe('Property imports', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findDuplicates.mockResolvedValue({ data: [], error: null });
+  });
+
+  describe('Best effort', () => {
+    it('should keep every row that went in and report the ones that failed', async () => {
+      const statements = fakeDatabase();
+
+      const { data } = await importProperties(request('best_effort', 'Office One', 'Broken Office', 'Office Three'), ADMIN_ID, 'key-1');
+
+      expect(data).toMatchObject({
+        success: true,
+        status: 'completed',
+        mode: 'best_effort',
+        imported: 2,
+        failed: 1,
+        skipped: 0,
+        createdIds: ['property-1', 'property-2'],
+        errors: [{ index: 1, error: 'null value in column "price" violates not-null constraint' }],
+        replayed: false
+      });
+      expect(data!.report.map(row => [row.index, row.status, row.propertyId])).toEqual([
+        [0, 'imported', 'property-1'],
+        [1, 'failed', undefined],
+        [2, 'imported', 'property-2']
+      ]);
+      expect(statements).toContain('ROLLBACK TO SAVEPOINT import_row');
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+    });
+  });
+
+  describe('Atomic', () => {
+    it('should import every row when none fails', async () => {
+      const statements = fakeDatabase();
+
+      const { data } = await importProperties(request('atomic', 'Office One', 'Office Two'), ADMIN_ID, 'key-1');
+
+      expect(data).toMatchObject({ success: true, status: 'completed', imported: 2, failed: 0, createdIds: ['property-1', 'property-2'] });
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+    });
+
+    it('should roll back the whole batch when a row fails, keeping only the report', async () => {
+      const statements = fakeDatabase();
+
+      const { data } = await importProperties(request('atomic', 'Office One', 'Broken Office', 'Office Three'), ADMIN_ID, 'key-1');
+
+      expect(data).toMatchObject({ success: false, status: 'rolled_back', imported: 0, failed: 1, createdIds: [] });
+      expect(data!.report.map(row => [row.index, row.status, row.propertyId])).toEqual([
+        [0, 'rolled_back', undefined],
+        [1, 'failed', undefined],
+        [2, 'rolled_back', undefined]
+      ]);
+      // The report is saved after the rollback, outside the batch transaction
+      const rollback = statements.lastIndexOf('ROLLBACK');
+      expect(rollback).toBeGreaterThan(-1);
+      expect(statements.slice(rollback + 1)).toEqual([expect.stringContaining('INSERT INTO property_import_batches')]);
+      expect(statements).not.toContain('COMMIT');
+    });
+  });
+
+  describe('Rows settled before the batch', () => {
+    it('should report likely duplicates as skipped and invalid listings as failed', async () => {
+      const statements = fakeDatabase();
+      findDuplicates.mockResolvedValue({
+        data: [{ index: 1, listing: { title: 'Office Two' }, matches: [{ propertyId: 'existing-9', score: 1, reasons: ['Same source URL'] }] }],
+        error: null
+      });
+
+      const { data } = await importProperties(request('atomic', 'Office One', 'Office Two', 'Tiny'), ADMIN_ID, 'key-1');
+
+      expect(data!.report.map(row => [row.status, row.duplicateOf, row.error])).toEqual([
+        ['rolled_back', undefined, undefined],
+        ['skipped', ['existing-9'], undefined],
+        ['failed', undefined, 'Validation failed: Title is too short (minimum 5 characters)']
+      ]);
+      expect(data!.duplicates).toHaveLength(1);
+      expect(statements.filter(statement => statement.startsWith('INSERT INTO properties'))).toHaveLength(1);
+    });
+  });
+
+  describe('Idempotency', () => {
+    const completedBatch = (requestHash: string) => ({
+      id: 'batch-0',
+      idempotency_key: 'key-1',
+      request_hash: requestHash,
+      mode: 'best_effort',
+      status: 'completed',
+      total: 1,
+      imported: 1,
+      failed: 0,
+      skipped: 0,
+      report: [{ index: 0, title: 'Office One', sourceUrl: 'https://example.com/1', status: 'imported', propertyId: 'property-0' }],
+      job_id: null,
+      created_by: ADMIN_ID,
+      created_at: CREATED_AT,
+      completed_at: CREATED_AT
+    });
+
+    // Hash the service stores for a request, read from the batch it claims
+    const requestHashOf = async (batchRequest: BulkImportRequest) => {
+      fakeDatabase();
+      await importProperties(batchRequest, ADMIN_ID, 'key-1');
+      const claim = client.query.mock.calls.find(([sql]) => sql.includes('idempotency_key, request_hash, mode, total'))!;
+      jest.clearAllMocks();
+      return claim[1][1] as string;
+    };
+
+    it('should look keys up for the importing admin only', async () => {
+      fakeDatabase();
+
+      await importProperties(request('best_effort', 'Office One'), ADMIN_ID, 'key-1');
+
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('WHERE created_by = $1 AND idempotency_key = $2'), [ADMIN_ID, 'key-1']);
+    });
+
+    it('should answer a retry from the completed batch without importing again', async () => {
+      const batchRequest = request('best_effort', 'Office One');
+      const statements = fakeDatabase({ existing: completedBatch(await requestHashOf(batchRequest)) });
+
+      const { data } = await importProperties(batchRequest, ADMIN_ID, 'key-1');
+
+      expect(data).toMatchObject({ replayed: true, batchId: 'batch-0', imported: 1, createdIds: ['property-0'], duplicates: [] });
+      expect(findDuplicates).not.toHaveBeenCalled();
+      expect(statements.some(statement => statement.startsWith('INSERT'))).toBe(false);
+    });
+
+    it('should reject a key reused for a different import', async () => {
+      fakeDatabase({ existing: completedBatch('another-request') });
+
+      const { data, error } = await importProperties(request('best_effort', 'Office One'), ADMIN_ID, 'key-1');
+
+      expect(data).toBeNull();
+      expect(error).toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+    });
+
+    it('should replay a batch a concurrent request finished first', async () => {
+      const batchRequest = request('best_effort', 'Office One');
+      const statements = fakeDatabase({ existing: completedBatch(await requestHashOf(batchRequest)), claimed: false });
+
+      // The lookup before the batch finds nothing; the one after the lost claim finds the winner
+      client.query.mockImplementationOnce(async () => ({ rows: [] }));
+      const { data } = await importProperties(batchRequest, ADMIN_ID, 'key-1');
+
+      expect(data).toMatchObject({ replayed: true, batchId: 'batch-0', duplicates: [] });
+      expect(statements.some(statement => statement.startsWith('INSERT INTO properties'))).toBe(false);
+      expect(statements[statements.length - 1]).toBe('ROLLBACK');
+    });
+  });
+
+  describe('Reports', () => {
+    it('should report a stored batch row by row', async () => {
+      fakeDatabase({
+        existing: {
+          id: 'batch-1',
+          idempotency_key: 'key-1',
+          mode: 'atomic',
+          status: 'rolled_back',
+          total: 2,
+          imported: 0,
+          failed: 1,
+          skipped: 0,
+          report: [],
+          job_id: null,
+          created_at: CREATED_AT,
+          completed_at: null
+        }
+      });
+
+      const { data } = await getImportReport('batch-1');
+
+      expect(data).toEqual({
+        id: 'batch-1',
+        idempotencyKey: 'key-1',
+        mode: 'atomic',
+        status: 'rolled_back',
+        total: 2,
+        imported: 0,
+        failed: 1,
+        skipped: 0,
+        jobId: null,
+        createdAt: '2025-10-21T09:00:00.000Z',
+        completedAt: null,
+        rows: []
+      });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { DatabaseService, InteractionHistoryRow } from '../../src/services/cloudSqlService';
+import { getRecommendations } from '../../src/services/recommendationService';
+
+jest.mock('../../src/services/cloudSqlService', () => ({
+  DatabaseService: {
+    interactions: {
+      getHistory: jest.fn(),
+      getFeedback: jest.fn(),
+      getCandidates: jest.fn(),
+      getCoInteractions: jest.fn(),
+      getCoInquiries: jest.fn(),
+      getPopular: jest.fn()
+    },
+    properties: { getByIds: jest.fn() }
+  }
+}));
+
+const interactions = DatabaseService.interactions as unknown as Record<string, jest.Mock>;
+const getByIds = DatabaseService.properties.getByIds as jest.Mock;
+
+const ok = <T>(data: T) => ({ data, error: null });
+
+const candidate = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: `Space ${id}`,
+  location: 'Koramangala, Bengaluru',
+  micro_market: 'koramangala',
+  category: 'co-working-spaces',
+  area_sqft: 1000,
+  amenities: ['WiFi', 'Parking'],
+  features: { cafeteria: true, gym: false },
+  ...overrides
+});
+
+const CANDIDATES = [
+  candidate('seed'),
+  candidate('similar'),
+  candidate('elsewhere', { micro_market: 'whitefield', location: 'Whitefield', category: 'enterprise-offices', amenities: [], features: null, area_sqft: 9000 }),
+  candidate('nearby-office', { category: 'enterprise-offices', amenities: ['Parking'], features: {}, area_sqft: 1100 })
+];
+
+const view = (propertyId: string, daysAgo = 0): InteractionHistoryRow => ({
+  property_id: propertyId,
+  action: 'view',
+  time_spent_seconds: null,
+  occurred_at: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000)
+});
+
+const anonymous = { userId: null, sessionId: 'session-1' };
+
+describe('Recommendations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    interactions.getHistory!.mockResolvedValue(ok([]));
+    interactions.getFeedback!.mockResolvedValue(ok([]));
+    interactions.getCandidates!.mockResolvedValue(ok(CANDIDATES));
+    interactions.getCoInteractions!.mockResolvedValue(ok([]));
+    interactions.getCoInquiries!.mockResolvedValue(ok([]));
+    interactions.getPopular!.mockResolvedValue(ok([]));
+    getByIds.mockImplementation(async (ids: string[]) => ok(ids.map(id => ({ id, title: `Space ${id}` }))));
+  });
+
+  it('should recommend popular listings to a visitor without history', async () => {
+    interactions.getPopular!.mockResolvedValue(ok([
+      { property_id: 'similar', visitors: 10, contacts: 1 },
+      { property_id: 'elsewhere', visitors: 5, contacts: 0 }
+    ]));
+
+    const { data } = await getRecommendations(anonymous, 6);
+
+    expect(data!.strategy).toBe('popular');
+    expect(data!.recommendations.map(item => [item.property_id, item.score])).toEqual([['similar', 50], ['elsewhere', 25]]);
+    expect(data!.recommendations[0]!.reasons).toEqual(['Popular: 10 visitors in the last 30 days']);
+    expect(interactions.getCoInteractions).not.toHaveBeenCalled();
+  });
+
+  it('should rank listings like the ones viewed first, with reasons', async () => {
+    interactions.getHistory!.mockResolvedValue(ok([view('seed')]));
+
+    const { data } = await getRecommendations(anonymous, 3);
+    const ids = data!.recommendations.map(item => item.property_id);
+
+    expect(data!.strategy).toBe('personalized');
+    expect(ids).toEqual(['similar', 'nearby-office', 'elsewhere']);
+    expect(data!.recommendations[0]!.score).toBe(100);
+    expect(data!.recommendations[0]!.reasons).toEqual([
+      'Co-working space, like 1 space you looked at',
+      'In Koramangala, where you looked at 1 space',
+      'Has WiFi, Parking, Cafeteria, like the spaces you engaged with'
+    ]);
+    expect(data!.recommendations[0]!.property).toEqual({ id: 'similar', title: 'Space similar' });
+  });
+
+  it('should never recommend what the visitor viewed or disliked', async () => {
+    interactions.getHistory!.mockResolvedValue(ok([view('seed')]));
+    interactions.getFeedback!.mockResolvedValue(ok([{ property_id: 'similar', feedback: 'dislike', updated_at: new Date() }]));
+    interactions.getPopular!.mockResolvedValue(ok([
+      { property_id: 'seed', visitors: 8, contacts: 0 },
+      { property_id: 'similar', visitors: 6, contacts: 0 },
+      { property_id: 'elsewhere', visitors: 2, contacts: 0 }
+    ]));
+
+    const { data } = await getRecommendations(anonymous, 6);
+
+    expect(data!.recommendations.map(item => item.property_id)).toEqual(['nearby-office', 'elsewhere']);
+  });
+
+  it('should blend in what other visitors of the same listings looked at', async () => {
+    interactions.getHistory!.mockResolvedValue(ok([view('seed')]));
+    interactions.getCoInteractions!.mockResolvedValue(ok([{ seed_id: 'seed', property_id: 'elsewhere', visitors: 3 }]));
+    interactions.getCoInquiries!.mockResolvedValue(ok([{ seed_id: 'seed', property_id: 'elsewhere', inquirers: 1 }]));
+
+    const { data } = await getRecommendations(anonymous, 3);
+    const elsewhere = data!.recommendations.find(item => item.property_id === 'elsewhere')!;
+
+    expect(interactions.getCoInteractions).toHaveBeenCalledWith(['seed'], anonymous);
+    expect(elsewhere.signals).toMatchObject({ collaborative: 1, popularity: 0 });
+    expect(elsewhere.reasons).toEqual([
+      '3 visitors who looked at Space seed also looked here',
+      'People who enquired about Space seed also enquired here'
+    ]);
+  });
+
+  it('should explain a match with a liked listing', async () => {
+    interactions.getFeedback!.mockResolvedValue(ok([{ property_id: 'seed', feedback: 'like', updated_at: new Date() }]));
+
+    const { data } = await getRecommendations(anonymous, 1);
+
+    expect(data!.recommendations[0]!.property_id).toBe('similar');
+    expect(data!.recommendations[0]!.reasons[0]).toBe('Similar to Space seed, which you liked');
+  });
+
+  it('should weigh recent interest above old interest', async () => {
+    const other = candidate('other-seed', { micro_market: 'whitefield', category: 'enterprise-offices', amenities: [], features: null, area_sqft: 9000 });
+    interactions.getCandidates!.mockResolvedValue(ok([...CANDIDATES, other]));
+    interactions.getHistory!.mockResolvedValue(ok([view('seed', 120), view('other-seed')]));
+
+    const { data } = await getRecommendations(anonymous, 1);
+
+    expect(data!.recommendations[0]!.property_id).toBe('elsewhere');
+  });
+
+  it('should cap the number of recommendations', async () => {
+    interactions.getHistory!.mockResolvedValue(ok([view('seed')]));
+
+    const { data } = await getRecommendations(anonymous, 1);
+    expect(data!.recommendations).toHaveLength(1);
+  });
+
+  it('should return the first query error', async () => {
+    interactions.getFeedback!.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+    expect(await getRecommendations(anonymous)).toEqual({ data: null, error: { message: 'connection refused' } });
+  });
+});
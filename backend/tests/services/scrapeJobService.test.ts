@@ -0,0 +1,207 @@
+import { DatabaseService } from '../../src/services/cloudSqlService';
+import { FirecrawlService } from '../../src/services/firecrawlService';
+import { extractScrapedProperties } from '../../src/services/scrapeExtractionService';
+import {
+  enqueueScrapeJob,
+  processQueuedScrapeJobs,
+  subscribeToScrapeJob
+} from '../../src/services/scrapeJobService';
+
+jest.mock('../../src/config/environment', () => ({
+  // The worker is driven by the tests, not a timer
+  getBackendConfig: () => ({ SCRAPE_JOB_POLL_INTERVAL_SECONDS: 0 })
+}));
+jest.mock('../../src/utils/logger', () => ({
+  createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+jest.mock('../../src/services/cloudSqlService', () => ({
+  DatabaseService: {
+    scrapeJobs: { create: jest.fn(), claimNext: jest.fn(), update: jest.fn() },
+    searchPresets: { recordRun: jest.fn() }
+  }
+}));
+jest.mock('../../src/services/firecrawlService', () => ({
+  FirecrawlService: {
+    scrapePropertyUrl: jest.fn(),
+    crawlPropertyPages: jest.fn(),
+    transformFirecrawlData: jest.fn(),
+    validateScrapedProperty: jest.fn(() => []),
+    scrapeWithSearchParams: jest.fn()
+  }
+}));
+jest.mock('../../src/services/scrapeExtractionService', () => ({
+  extractScrapedProperties: jest.fn(),
+  getExtractionModel: () => 'c1-large'
+}));
+jest.mock('../../src/services/llmUsageService', () => ({
+  startLlmMeterFor: jest.fn(() => ({}))
+}));
+
+const scrapeJobs = DatabaseService.scrapeJobs as unknown as Record<string, jest.Mock>;
+const recordRun = DatabaseService.searchPresets.recordRun as jest.Mock;
+const scrapePropertyUrl = FirecrawlService.scrapePropertyUrl as jest.Mock;
+const crawlPropertyPages = FirecrawlService.crawlPropertyPages as jest.Mock;
+const transformFirecrawlData = FirecrawlService.transformFirecrawlData as jest.Mock;
+const extract = extractScrapedProperties as jest.Mock;
+
+const PAGE_URL = 'https://www.99acres.com/office-space-for-rent-in-koramangala';
+
+const queuedJob = (overrides: Record<string, unknown> = {}) => ({
+  id: 'job-1',
+  status: 'running',
+  attempts: 1,
+  source_url: PAGE_URL,
+  request: { directUrl: PAGE_URL },
+  llm_caller: { userId: 'u1', role: 'admin', clientKey: 'user:u1' },
+  result: null,
+  ...overrides
+});
+
+// Claim the given jobs in turn, then report an empty queue
+const queue = (...jobs: unknown[]) => {
+  jobs.forEach(job => scrapeJobs.claimNext!.mockResolvedValueOnce({ data: job, error: null }));
+  scrapeJobs.claimNext!.mockResolvedValue({ data: null, error: null });
+};
+
+// Every update the worker recorded, in order
+const updates = () => scrapeJobs.update!.mock.calls.map(([, changes]) => changes);
+
+describe('Scrape jobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scrapeJobs.update!.mockImplementation(async (id: string, changes: Record<string, unknown>) => ({ data: { id, ...changes }, error: null }));
+    scrapePropertyUrl.mockResolvedValue({ data: { markdown: '# Offices' }, rawFirecrawlData: { markdown: '# Offices' } });
+    recordRun.mockResolvedValue({ data: true, error: null });
+  });
+
+  describe('Worker', () => {
+    it('should take a queued scrape through to review', async () => {
+      queue(queuedJob());
+
+      expect(await processQueuedScrapeJobs()).toBe(1);
+
+      expect(scrapePropertyUrl).toHaveBeenCalledWith(PAGE_URL, expect.any(Object));
+      expect(updates().map(changes => [changes.status, changes.progress])).toEqual([
+        ['running', 5],
+        [undefined, 70],
+        ['review', 100]
+      ]);
+      expect(updates()[1].result).toMatchObject({ success: true, metadata: { url: PAGE_URL, rawDataMode: true } });
+      expect(updates()[2].stageMessage).toBe('Raw page ready for review');
+    });
+
+    it('should run every queued job, one after another', async () => {
+      queue(queuedJob(), queuedJob({ id: 'job-2' }));
+
+      expect(await processQueuedScrapeJobs()).toBe(2);
+      expect(scrapeJobs.claimNext).toHaveBeenCalledTimes(3);
+    });
+
+    it('should publish each change to the job\'s subscribers', async () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToScrapeJob('job-1', listener);
+      queue(queuedJob());
+
+      await processQueuedScrapeJobs();
+      unsubscribe();
+
+      expect(listener.mock.calls.map(([job]) => job.progress)).toEqual([5, 70, 100]);
+    });
+
+    it('should report crawl progress within the scrape stage', async () => {
+      crawlPropertyPages.mockImplementation(async (_url, _pages, _config, onProgress) => {
+        await onProgress(1, 2);
+        return { id: 'crawl-1' };
+      });
+      transformFirecrawlData.mockResolvedValue([{ title: 'Office A' }, { title: 'Office B' }]);
+      queue(queuedJob({ request: { directUrl: PAGE_URL, useCrawl: true, maxPages: 2 } }));
+
+      await processQueuedScrapeJobs();
+
+      expect(updates()[1]).toEqual({ progress: 37.5, stageMessage: 'Crawled 1 of 2 pages' });
+      expect(updates()[2].stageMessage).toBe('Scraped 2 listings');
+      expect(updates()[3].stageMessage).toBe('2 listings ready for review');
+    });
+
+    it('should extract listings with C1 when asked', async () => {
+      extract.mockResolvedValue({ data: { properties: [{ title: 'Office A' }] }, error: null });
+      queue(queuedJob({ request: { directUrl: PAGE_URL, extract: true } }));
+
+      await processQueuedScrapeJobs();
+
+      expect(extract).toHaveBeenCalledWith(expect.objectContaining({ sourceUrl: PAGE_URL }), {});
+      expect(updates().map(changes => changes.status)).toEqual(['running', undefined, 'extracting', 'review']);
+      expect(updates()[3]).toMatchObject({ stageMessage: '1 listings ready for review', extraction: { properties: [{ title: 'Office A' }] } });
+    });
+
+    it('should not scrape again when an earlier attempt kept its result', async () => {
+      const result = { success: true, data: [{ title: 'Office A' }], metadata: { url: PAGE_URL, totalFound: 1 } };
+      queue(queuedJob({ attempts: 2, result }));
+
+      await processQueuedScrapeJobs();
+
+      expect(scrapePropertyUrl).not.toHaveBeenCalled();
+      expect(updates()).toEqual([expect.objectContaining({ status: 'review', stageMessage: '1 listings ready for review' })]);
+    });
+
+    it('should record the run against the search preset', async () => {
+      queue(queuedJob({ request: { directUrl: PAGE_URL, presetId: 'preset-1' } }));
+
+      await processQueuedScrapeJobs();
+
+      expect(recordRun).toHaveBeenCalledWith('preset-1', 1);
+    });
+
+    it('should fail a job with the scrape error', async () => {
+      scrapePropertyUrl.mockRejectedValue(new Error('Firecrawl timed out'));
+      queue(queuedJob());
+
+      await processQueuedScrapeJobs();
+
+      expect(updates().pop()).toEqual({ status: 'failed', stageMessage: 'Failed', error: 'Firecrawl timed out' });
+    });
+
+    it('should give up on a job claimed too many times', async () => {
+      queue(queuedJob({ attempts: 4 }));
+
+      await processQueuedScrapeJobs();
+
+      expect(scrapePropertyUrl).not.toHaveBeenCalled();
+      expect(updates()).toEqual([{ status: 'failed', stageMessage: 'Failed', error: 'Gave up after 3 attempts' }]);
+    });
+
+    it('should stop quietly once the job is cancelled', async () => {
+      scrapeJobs.update!.mockResolvedValue({ data: null, error: null });
+      queue(queuedJob());
+
+      expect(await processQueuedScrapeJobs()).toBe(1);
+
+      expect(scrapePropertyUrl).not.toHaveBeenCalled();
+      expect(updates()).toHaveLength(1);
+    });
+
+    it('should stop when a job cannot be claimed', async () => {
+      scrapeJobs.claimNext!.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+      expect(await processQueuedScrapeJobs()).toBe(0);
+      expect(scrapeJobs.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Queue', () => {
+    it('should queue a request with its source URL and caller', async () => {
+      scrapeJobs.create!.mockResolvedValue({ data: { id: 'job-1', status: 'queued' }, error: null });
+      const caller = { userId: 'u1', role: 'admin', clientKey: 'user:u1' };
+
+      const { data } = await enqueueScrapeJob({ directUrl: PAGE_URL }, caller);
+
+      expect(data).toEqual({ id: 'job-1', status: 'queued' });
+      expect(scrapeJobs.create).toHaveBeenCalledWith({
+        createdBy: 'u1',
+        request: { directUrl: PAGE_URL },
+        llmCaller: caller,
+        sourceUrl: PAGE_URL
+      });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { diffListings } from '../../src/services/scrapeScheduleService';
+import { ScrapedPropertyData } from '../../src/types/scraper';
+
+jest.mock('../../src/config/environment', () => ({
+  getBackendConfig: () => ({})
+}));
+jest.mock('../../src/utils/logger', () => ({
+  createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+jest.mock('../../src/services/cloudSqlService', () => ({
+  DatabaseService: {}
+}));
+
+const url = (id: string) => `https://www.magicbricks.com/office-${id}`;
+
+const listing = (id: string, overrides: Partial<ScrapedPropertyData> = {}): ScrapedPropertyData => ({
+  title: `Office ${id}`,
+  description: '',
+  location: 'Koramangala, Bengaluru',
+  sourceUrl: url(id),
+  price: { amount: 85000, currency: 'INR', period: 'monthly' },
+  size: { area: 1200, unit: 'sqft' },
+  ...overrides
+} as ScrapedPropertyData);
+
+const property = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id: `property-${id}`,
+  source_url: url(id),
+  price: '85000.00',
+  area_sqft: 1200,
+  availability_status: 'available',
+  ...overrides
+});
+
+describe('Scrape schedules', () => {
+  describe('Listing changes', () => {
+    it('should report listings no property was imported from as new', () => {
+      expect(diffListings([listing('a')], [], [])).toEqual([
+        { changeType: 'new', sourceUrl: url('a'), propertyId: null, listing: listing('a'), changes: {} }
+      ]);
+    });
+
+    it('should report nothing for listings that match their property', () => {
+      expect(diffListings([listing('a')], [property('a')], [url('a')])).toEqual([]);
+    });
+
+    it('should report price, area and availability differences', () => {
+      const changed = listing('a', {
+        price: { amount: 90000, currency: 'INR', period: 'monthly' },
+        size: { area: 1250.4, unit: 'sqft' },
+        availability: { status: 'occupied' }
+      });
+
+      expect(diffListings([changed], [property('a')], [])).toEqual([{
+        changeType: 'changed',
+        sourceUrl: url('a'),
+        propertyId: 'property-a',
+        listing: changed,
+        changes: {
+          price: { from: 85000, to: 90000 },
+          area_sqft: { from: 1200, to: 1250 },
+          availability_status: { from: 'available', to: 'not-available' }
+        }
+      }]);
+    });
+
+    it('should compare prices to the paisa', () => {
+      const changes = diffListings([listing('a', { price: { amount: 85000.004, currency: 'INR', period: 'monthly' } })], [property('a')], []);
+      expect(changes).toEqual([]);
+    });
+
+    it('should not treat fields the scrape missed as changes', () => {
+      const sparse = listing('a', { size: { area: 40, unit: 'seats' } });
+      delete sparse.price;
+
+      expect(diffListings([sparse], [property('a', { availability_status: 'coming-soon' })], [])).toEqual([]);
+    });
+
+    it('should read a property without a status as available', () => {
+      const available = listing('a', { availability: { status: 'available' } });
+      expect(diffListings([available], [property('a', { availability_status: null })], [])).toEqual([]);
+    });
+
+    it('should price a property without a price from nothing', () => {
+      const [change] = diffListings([listing('a')], [property('a', { price: null })], []);
+      expect(change!.changes).toEqual({ price: { from: null, to: 85000 } });
+    });
+
+    it('should report imported listings missing since the previous run as disappeared', () => {
+      expect(diffListings([listing('a')], [property('a'), property('b')], [url('a'), url('b')])).toEqual([{
+        changeType: 'disappeared',
+        sourceUrl: url('b'),
+        propertyId: 'property-b',
+        listing: null,
+        changes: { availability_status: { from: 'available', to: 'not-available' } }
+      }]);
+    });
+
+    it('should not report listings that were never imported or are already unavailable as disappeared', () => {
+      const imported = [property('b', { availability_status: 'not-available' })];
+      expect(diffListings([], imported, [url('b'), url('c')])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  ScorableProperty,
+  normalizeWeights,
+  scoreProperties
+} from '../../src/shared/propertyScoring';
+
+const NOW = new Date('2025-10-20T06:00:00.000Z');
+
+const property = (id: string, overrides: Partial<ScorableProperty> = {}): ScorableProperty => ({
+  id,
+  price: 100000,
+  areaSqft: 1000,
+  amenities: ['WiFi', 'Parking'],
+  features: {},
+  coordinates: null,
+  available: true,
+  availableFrom: null,
+  ...overrides
+});
+
+// The scored criterion of one property, by name
+const criterion = (scores: ReturnType<typeof scoreProperties>, index: number, name: string) =>
+  scores[index]!.criteria.find(item => item.criterion === name)!;
+
+describe('Property scoring', () => {
+  describe('Weights', () => {
+    it('should clamp weights to 0-5 and default missing or invalid ones', () => {
+      expect(normalizeWeights({ price: 9, amenities: -2, size: 2.5, distance: Number.NaN })).toEqual({
+        price: 5,
+        amenities: 0,
+        size: 2.5,
+        distance: DEFAULT_SCORING_WEIGHTS.distance,
+        availability: DEFAULT_SCORING_WEIGHTS.availability
+      });
+      expect(normalizeWeights()).toEqual(DEFAULT_SCORING_WEIGHTS);
+    });
+
+    it('should average only the weighted criteria that apply', () => {
+      const scores = scoreProperties([property('cheap'), property('dear', { price: 200000 })], {
+        weights: { price: 1, amenities: 0, size: 3, distance: 3, availability: 1 },
+        now: NOW
+      });
+
+      // Size and distance have no preference set, amenities are not weighted
+      expect(scores.map(score => score.overall)).toEqual([10, 7.5]);
+      expect(criterion(scores, 1, 'price')).toMatchObject({ score: 5, weight: 1, contribution: 2.5 });
+      expect(criterion(scores, 1, 'size')).toMatchObject({ score: null, contribution: 0 });
+      expect(criterion(scores, 1, 'amenities')).toMatchObject({ weight: 0, contribution: 0 });
+    });
+
+    it('should rank by overall score, ties sharing a rank', () => {
+      const scores = scoreProperties([property('a', { price: 200000 }), property('b'), property('c')], { now: NOW });
+
+      expect(scores.map(score => [score.propertyId, score.rank])).toEqual([['a', 3], ['b', 1], ['c', 1]]);
+    });
+
+    it('should score 0 overall when every criterion is switched off', () => {
+      const scores = scoreProperties([property('a')], {
+        weights: { price: 0, amenities: 0, size: 0, distance: 0, availability: 0 },
+        now: NOW
+      });
+
+      expect(scores[0]!.overall).toBe(0);
+    });
+  });
+
+  describe('Explanations', () => {
+    it('should explain price against the lowest price per sqft', () => {
+      const scores = scoreProperties([property('cheap'), property('dear', { price: 150000 })], { now: NOW });
+
+      expect(criterion(scores, 0, 'price').explanation).toBe('₹100/sqft, the lowest of the compared spaces');
+      expect(criterion(scores, 1, 'price')).toMatchObject({
+        score: 6.7,
+        explanation: '₹150/sqft, 50% above the lowest (₹100/sqft)'
+      });
+    });
+
+    it('should name the missing amenities, matching aliases and feature flags', () => {
+      const scores = scoreProperties([property('a', { amenities: ['Broadband'], features: { parking: true, gym: false } })], {
+        preferences: { amenities: ['WiFi', 'Parking', 'Gym', 'AC'] },
+        now: NOW
+      });
+
+      expect(criterion(scores, 0, 'amenities')).toMatchObject({
+        score: 5,
+        explanation: 'Has 2 of 4 wanted amenities; missing Gym, AC'
+      });
+    });
+
+    it('should explain size against the wanted range', () => {
+      const scores = scoreProperties([property('small', { areaSqft: 800 }), property('fits'), property('large', { areaSqft: 2500 })], {
+        preferences: { minSqft: 1000, maxSqft: 2000 },
+        now: NOW
+      });
+
+      expect(scores.map((_, index) => criterion(scores, index, 'size').explanation)).toEqual([
+        '800 sqft, 20% below your minimum',
+        '1,000 sqft, within your range',
+        '2,500 sqft, 25% above your maximum'
+      ]);
+    });
+
+    it('should list the distance to each chosen point', () => {
+      const scores = scoreProperties([property('a', { coordinates: { lat: 12.9352, lng: 77.6245 } })], {
+        preferences: { points: [{ label: 'Office', lat: 12.9352, lng: 77.6245 }] },
+        now: NOW
+      });
+
+      expect(criterion(scores, 0, 'distance')).toMatchObject({ score: 10, explanation: '0 km from Office' });
+    });
+
+    it('should explain availability against the move-in date', () => {
+      const scores = scoreProperties([property('late', { availableFrom: '2025-11-30' }), property('taken', { available: false })], {
+        preferences: { moveInBy: '2025-11-16' },
+        now: NOW
+      });
+
+      expect(criterion(scores, 0, 'availability')).toMatchObject({
+        score: 8,
+        explanation: 'Available from 2025-11-30, 14 days after your move-in date'
+      });
+      expect(criterion(scores, 1, 'availability').explanation).toBe('Not available at the moment');
+    });
+
+    it('should mark criteria that are scored but not weighted', () => {
+      const scores = scoreProperties([property('a')], { weights: { availability: 0 }, now: NOW });
+
+      expect(criterion(scores, 0, 'availability').explanation).toBe('Available now (not weighted)');
+    });
+  });
+
+  describe('Missing data', () => {
+    it('should score a property without price or area as average on price', () => {
+      const scores = scoreProperties([property('no-price', { price: null }), property('no-area', { areaSqft: null }), property('listed')], { now: NOW });
+
+      expect(criterion(scores, 0, 'price')).toMatchObject({ score: 5, explanation: 'No price or size listed, scored as average' });
+      expect(criterion(scores, 1, 'price')).toMatchObject({ score: 5, explanation: 'No price or size listed, scored as average' });
+      expect(criterion(scores, 2, 'price').score).toBe(10);
+    });
+
+    it('should score price as average for every property when none lists both', () => {
+      const scores = scoreProperties([property('a', { price: null }), property('b', { areaSqft: null })], { now: NOW });
+
+      expect(scores.map((_, index) => criterion(scores, index, 'price').score)).toEqual([5, 5]);
+    });
+
+    it('should score a property without area as average on size', () => {
+      const scores = scoreProperties([property('a', { areaSqft: null })], { preferences: { minSqft: 500 }, now: NOW });
+
+      expect(criterion(scores, 0, 'size')).toMatchObject({ score: 5, explanation: 'Size not listed, scored as average' });
+    });
+
+    it('should score a property off the map as average on distance', () => {
+      const scores = scoreProperties([property('a')], {
+        preferences: { points: [{ label: 'Office', lat: 12.9352, lng: 77.6245 }] },
+        now: NOW
+      });
+
+      expect(criterion(scores, 0, 'distance')).toMatchObject({ score: 5, explanation: 'Location not on the map, scored as average' });
+    });
+  });
+});
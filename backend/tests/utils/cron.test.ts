@@ -0,0 +1,69 @@
+import { isValidCron, nextCronRun, parseCron } from '../../src/utils/cron';
+
+const next = (expression: string, after: string) => nextCronRun(expression, new Date(after))?.toISOString() ?? null;
+
+describe('Cron', () => {
+  describe('Parsing', () => {
+    it('should expand ranges, steps and lists', () => {
+      const schedule = parseCron('*/20 9-17/4 1,15 * 1-5');
+
+      expect([...schedule.minutes]).toEqual([0, 20, 40]);
+      expect([...schedule.hours]).toEqual([9, 13, 17]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should read 7 as Sunday and a stepped start as running to the end of the field', () => {
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+      expect([...parseCron('50/5 * * * *').minutes]).toEqual([50, 55]);
+    });
+
+    it('should accept the aliases', () => {
+      expect(parseCron(' @weekly ')).toEqual(parseCron('0 0 * * 0'));
+    });
+
+    it('should reject malformed expressions', () => {
+      ['* * * *', '60 * * * *', '0 24 * * *', '0 0 0 * *', '0 0 * 13 *', '5-1 * * * *', '*/0 * * * *', 'a * * * *', '@yearly']
+        .forEach(expression => expect(isValidCron(expression)).toBe(false));
+      expect(() => parseCron('0 0 32 * *')).toThrow('Invalid day of month "32" (allowed 1-31)');
+    });
+  });
+
+  describe('Next run', () => {
+    it('should be strictly after the given time, to the minute', () => {
+      expect(next('0 9 * * *', '2025-10-20T09:00:00.000Z')).toBe('2025-10-21T09:00:00.000Z');
+      expect(next('* * * * *', '2025-10-20T10:00:30.000Z')).toBe('2025-10-20T10:01:00.000Z');
+      expect(next('*/15 * * * *', '2025-10-20T10:07:00.000Z')).toBe('2025-10-20T10:15:00.000Z');
+    });
+
+    it('should roll over hours, days, months and years', () => {
+      expect(next('0 * * * *', '2025-10-20T23:59:00.000Z')).toBe('2025-10-21T00:00:00.000Z');
+      expect(next('@monthly', '2025-01-31T12:00:00.000Z')).toBe('2025-02-01T00:00:00.000Z');
+      expect(next('30 23 31 12 *', '2025-12-31T23:30:00.000Z')).toBe('2026-12-31T23:30:00.000Z');
+    });
+
+    it('should skip months without the day', () => {
+      expect(next('0 0 31 * *', '2025-04-01T00:00:00.000Z')).toBe('2025-05-31T00:00:00.000Z');
+      expect(next('0 0 29 2 *', '2025-03-01T00:00:00.000Z')).toBe('2028-02-29T00:00:00.000Z');
+    });
+
+    it('should skip the weekend for a weekday schedule', () => {
+      expect(next('0 9 * * 1-5', '2025-10-24T09:00:00.000Z')).toBe('2025-10-27T09:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 13th or any Friday; 1 October 2025 is a Wednesday
+      expect(next('0 12 13 * 5', '2025-10-01T00:00:00.000Z')).toBe('2025-10-03T12:00:00.000Z');
+      expect(next('0 12 13 * 5', '2025-10-10T12:00:00.000Z')).toBe('2025-10-13T12:00:00.000Z');
+    });
+
+    it('should return null for a date that never comes', () => {
+      expect(next('0 0 31 2 *', '2025-10-20T00:00:00.000Z')).toBeNull();
+    });
+
+    it('should accept a parsed schedule', () => {
+      expect(nextCronRun(parseCron('@daily'), new Date('2025-10-20T06:00:00.000Z'))!.toISOString()).toBe('2025-10-21T00:00:00.000Z');
+    });
+  });
+});
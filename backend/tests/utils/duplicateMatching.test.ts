@@ -0,0 +1,131 @@
+import {
+  DuplicateSubject,
+  LIKELY_DUPLICATE_SCORE,
+  normaliseSourceUrl,
+  normaliseText,
+  propertySubject,
+  scoreDuplicate,
+  textSimilarity
+} from '../../src/utils/duplicateMatching';
+
+const listing: DuplicateSubject = {
+  sourceUrl: 'https://www.magicbricks.com/office-space-hsr-layout/12345',
+  title: 'Furnished Office Space in HSR Layout',
+  address: '27th Main Road, Sector 2, HSR Layout, Bengaluru',
+  coordinates: { lat: 12.9116, lng: 77.6474 },
+  areaSqft: 2400,
+  price: 180000
+};
+
+describe('Duplicate matching', () => {
+  describe('Normalising', () => {
+    it('should drop punctuation, case and filler words from text', () => {
+      expect(normaliseText('Office Space for Rent, HSR Layout')).toBe('office space hsr layout');
+      expect(normaliseText(null)).toBe('');
+    });
+
+    it('should compare source URLs without scheme, www., tracking or trailing slash', () => {
+      expect(normaliseSourceUrl('https://www.MagicBricks.com/office/12345/?utm_source=mail&ref=home#photos'))
+        .toBe('magicbricks.com/office/12345');
+      expect(normaliseSourceUrl('http://magicbricks.com/office/12345?page=2')).toBe('magicbricks.com/office/12345?page=2');
+      expect(normaliseSourceUrl(' Not A URL ')).toBe('not a url');
+      expect(normaliseSourceUrl(undefined)).toBeNull();
+    });
+
+    it('should score text similarity from shared trigrams', () => {
+      expect(textSimilarity('HSR Layout office', 'Office in HSR layout')).toBe(1);
+      expect(textSimilarity('Koramangala', 'Whitefield')).toBe(0);
+      expect(textSimilarity('', 'Whitefield')).toBe(0);
+      expect(textSimilarity('Prestige Tech Park', 'Prestige Tech Park II')).toBeGreaterThan(0.7);
+    });
+  });
+
+  describe('Scoring', () => {
+    it('should treat the same source URL as conclusive', () => {
+      expect(scoreDuplicate(listing, { sourceUrl: 'http://magicbricks.com/office-space-hsr-layout/12345/' }))
+        .toEqual({ score: 1, reasons: ['Same source URL'] });
+    });
+
+    it('should match the source URL of a record merged in earlier', () => {
+      const merged = { sourceUrl: 'https://99acres.com/listing/9', mergedSourceUrls: [listing.sourceUrl!] };
+      expect(scoreDuplicate(listing, merged)).toEqual({ score: 1, reasons: ['Source URL of a record merged into it'] });
+    });
+
+    it('should add up every matching field with its reason', () => {
+      const property = {
+        title: 'HSR Layout Furnished Office Space',
+        address: '27th Main Rd, Sector 2, HSR Layout, Bengaluru',
+        coordinates: { lat: 12.9117, lng: 77.6475 },
+        areaSqft: 2450,
+        price: 180000
+      };
+
+      const { score, reasons } = scoreDuplicate(listing, property);
+
+      expect(score).toBe(1);
+      expect(reasons).toEqual([
+        'Title 100% similar',
+        expect.stringMatching(/^Address \d+% similar$/),
+        '16 m apart',
+        'Area within 5%',
+        'Same price'
+      ]);
+    });
+
+    it('should give a partial title match less weight', () => {
+      const { score, reasons } = scoreDuplicate(listing, { title: 'Furnished Office Space in HSR' });
+
+      expect(score).toBe(0.2);
+      expect(reasons).toEqual([expect.stringMatching(/^Title \d+% similar$/)]);
+    });
+
+    it('should flag the same space listed by another portal', () => {
+      const other = { ...listing, sourceUrl: 'https://www.99acres.com/office-hsr/777', areaSqft: 2500, price: 200000 };
+      expect(scoreDuplicate(listing, other).score).toBeGreaterThanOrEqual(LIKELY_DUPLICATE_SCORE);
+    });
+
+    it('should not flag a different space in the same building', () => {
+      const neighbour = { ...listing, sourceUrl: null, title: 'Plug and play coworking desks', areaSqft: 800, price: 45000 };
+      const { score } = scoreDuplicate(listing, neighbour);
+
+      expect(score).toBe(0.5);
+      expect(score).toBeLessThan(LIKELY_DUPLICATE_SCORE);
+    });
+
+    it('should ignore fields either side is missing', () => {
+      expect(scoreDuplicate({ title: null, coordinates: null }, { areaSqft: 2400, price: 0 })).toEqual({ score: 0, reasons: [] });
+    });
+
+    it('should not count places more than 50 m apart', () => {
+      const { reasons } = scoreDuplicate(listing, { coordinates: { lat: 12.9126, lng: 77.6474 } });
+      expect(reasons).toEqual([]);
+    });
+  });
+
+  describe('Property rows', () => {
+    it('should read the matching fields of a properties row', () => {
+      expect(propertySubject({
+        source_url: 'https://example.com/1',
+        title: 'Office',
+        address: null,
+        location: 'HSR Layout',
+        coordinates: { lat: '12.9', lng: '77.6' },
+        area_sqft: 1000,
+        price: '50000.00',
+        merged_source_urls: null
+      })).toEqual({
+        sourceUrl: 'https://example.com/1',
+        title: 'Office',
+        address: 'HSR Layout',
+        coordinates: { lat: 12.9, lng: 77.6 },
+        areaSqft: 1000,
+        price: 50000,
+        mergedSourceUrls: []
+      });
+    });
+
+    it('should leave out coordinates that are not numbers', () => {
+      expect(propertySubject({ coordinates: { lat: 'n/a', lng: 77.6 }, price: null })).toMatchObject({ coordinates: null, price: null });
+    });
+  });
+});
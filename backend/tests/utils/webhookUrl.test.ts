@@ -0,0 +1,80 @@
+import { lookup } from 'dns/promises';
+import { checkWebhookUrl, isPublicAddress } from '../../src/utils/webhookUrl';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const resolve = lookup as unknown as jest.Mock;
+
+// Host names resolve to the given addresses
+const resolvesTo = (...addresses: string[]) =>
+  resolve.mockResolvedValue(addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })));
+
+describe('Webhook URLs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Public addresses', () => {
+    it('should accept publicly routable addresses', () => {
+      ['8.8.8.8', '203.0.113.7', '172.32.0.1', '2606:4700:4700::1111']
+        .forEach(address => expect(isPublicAddress(address)).toBe(true));
+    });
+
+    it('should refuse loopback, private, link-local and reserved addresses', () => {
+      [
+        '0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255',
+        '192.0.0.8', '192.168.1.1', '198.18.0.1', '224.0.0.1', '255.255.255.255',
+        '::', '::1', '64:ff9b::a00:1', 'fd00::1', 'fe80::1', 'ff02::1'
+      ].forEach(address => expect(isPublicAddress(address)).toBe(false));
+    });
+
+    it('should judge IPv4-mapped IPv6 addresses by their IPv4 part, in any notation', () => {
+      expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+      expect(isPublicAddress('::FFFF:7f00:1')).toBe(false);
+      expect(isPublicAddress('0:0:0:0:0:ffff:a9fe:a9fe')).toBe(false);
+      expect(isPublicAddress('::ffff:8.8.8.8')).toBe(true);
+    });
+
+    it('should refuse anything that is not an IP address', () => {
+      ['localhost', '', '999.1.1.1'].forEach(address => expect(isPublicAddress(address)).toBe(false));
+    });
+  });
+
+  describe('URL checks', () => {
+    it('should accept an http(s) URL whose host resolves only to public addresses', async () => {
+      resolvesTo('93.184.216.34', '2606:2800:220:1::248');
+
+      expect(await checkWebhookUrl('https://hooks.example.com/gsr?token=abc')).toBeNull();
+      expect(resolve).toHaveBeenCalledWith('hooks.example.com', { all: true, verbatim: true });
+    });
+
+    it('should refuse malformed URLs and other protocols', async () => {
+      expect(await checkWebhookUrl('not a url')).toBe('Webhook URL is not a valid URL');
+      expect(await checkWebhookUrl('ftp://hooks.example.com/')).toBe('Webhook URL must use http or https');
+      expect(await checkWebhookUrl('file:///etc/passwd')).toBe('Webhook URL must use http or https');
+      expect(resolve).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a host with any private address', async () => {
+      resolvesTo('93.184.216.34', '10.0.0.5');
+
+      expect(await checkWebhookUrl('https://internal.example.com/')).toBe('Webhook URL must point to a public host');
+    });
+
+    it('should check IP literals without resolving them', async () => {
+      expect(await checkWebhookUrl('http://169.254.169.254/latest/meta-data')).toBe('Webhook URL must point to a public host');
+      expect(await checkWebhookUrl('http://[::1]:8080/')).toBe('Webhook URL must point to a public host');
+      expect(await checkWebhookUrl('http://[::ffff:127.0.0.1]/')).toBe('Webhook URL must point to a public host');
+      expect(await checkWebhookUrl('https://8.8.8.8/hook')).toBeNull();
+      expect(resolve).not.toHaveBeenCalled();
+    });
+
+    it('should refuse hosts that do not resolve, or resolve to nothing', async () => {
+      resolve.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+      expect(await checkWebhookUrl('https://missing.example.com/')).toBe('Webhook host missing.example.com could not be resolved');
+
+      resolvesTo();
+      expect(await checkWebhookUrl('https://empty.example.com/')).toBe('Webhook URL must point to a public host');
+    });
+  });
+});
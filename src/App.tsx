@@ -6,6 +6,7 @@ import HomePage from './pages/HomePage';
 import PropertiesPage from './pages/PropertiesPage';
 import AdminPage from './pages/AdminPage';
 import AuthCallback from './pages/AuthCallback';
+import SharedComparisonPage from './pages/SharedComparisonPage';
 import { UserDashboard } from './components/user/UserDashboard';
 import { FloatingContactForm } from './components/contact/FloatingContactForm';
 import { InitializationScreen } from './components/InitializationScreen';
@@ -189,6 +190,7 @@ const App: React.FC = () => {
                 <Routes>
                   <Route path="/" element={<HomePage />} />
                   <Route path="/properties" element={<PropertiesPage />} />
+                  <Route path="/compare/:shareId" element={<SharedComparisonPage />} />
                   <Route path="/test-c1" element={<C1APITest />} />
                   <Route path="/c1-template" element={<C1ComponentTemplate />} />
                   <Route path="/c1-real-estate" element={<C1RealEstateComponent />} />
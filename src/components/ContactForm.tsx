@@ -9,6 +9,7 @@ import { API } from '@/services/apiService';
 import { formatApiError } from '@/utils/apiMigrationUtils';
 import { Property } from '@/types/property';
 import { Loader2, Mail, Phone, User, MessageSquare } from 'lucide-react';
+import { trackInteraction } from '@/services/interactionService';
 
 interface ContactFormProps {
   property?: Property;
@@ -72,6 +73,10 @@ const ContactForm: React.FC<ContactFormProps> = ({ property, onSuccess, onClose
 
       console.log('✅ Inquiry submitted successfully');
 
+      if (property?.id) {
+        trackInteraction(property.id, 'contact', { context: 'contact_form' });
+      }
+
       setSuccess(true);
       setFormData({
         name: '',
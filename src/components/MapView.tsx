@@ -1,7 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Loader } from '@googlemaps/js-api-loader';
 
-import { Property } from '@/types/property';
+import { MapBounds, Property } from '@/types/property';
 import { Environment } from '@/config/environment';
 
 interface MapViewProps {
@@ -20,6 +20,53 @@ interface MapViewProps {
   zoom?: number;
   showRadius?: boolean;
   interactive?: boolean;
+  // Called (debounced) with the visible viewport after the user pans or zooms
+  onBoundsChange?: (bounds: MapBounds) => void;
+}
+
+const BOUNDS_CHANGE_DEBOUNCE_MS = 400;
+
+// Geocoded approximate areas, shared across renders and refetches so each area is looked up once
+const geocodedAreas = new Map<string, Promise<google.maps.LatLng | null>>();
+
+function geocodeArea(area: string): Promise<google.maps.LatLng | null> {
+  let position = geocodedAreas.get(area);
+  if (!position) {
+    position = new Promise(resolve => {
+      new google.maps.Geocoder().geocode(
+        { address: `${area}, Bangalore, Karnataka, India` },
+        (results, status) => {
+          resolve(status === 'OK' && results && results.length > 0 ? results[0].geometry.location : null);
+        }
+      );
+    });
+    geocodedAreas.set(area, position);
+  }
+  return position;
+}
+
+// Helper function to create marker icons (only call once the Maps API is loaded)
+function createMarkerIcon(color: string) {
+  return {
+    url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
+      <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" fill="${color}"/>
+      </svg>
+    `),
+    scaledSize: new google.maps.Size(32, 32),
+    anchor: new google.maps.Point(16, 32)
+  };
+}
+
+// Helper function to get status badge classes
+function getStatusBadgeClasses(status: string) {
+  switch (status) {
+    case 'available': return 'bg-green-100 text-green-800';
+    case 'not-available': return 'bg-red-100 text-red-800';
+    case 'coming-soon': return 'bg-yellow-100 text-yellow-800';
+    case 'under-maintenance': return 'bg-gray-100 text-gray-800';
+    default: return 'bg-green-100 text-green-800';
+  }
 }
 
 export const MapView: React.FC<MapViewProps> = ({
@@ -30,16 +77,27 @@ export const MapView: React.FC<MapViewProps> = ({
   height = '400px',
   zoom = 15,
   showRadius = false,
-  interactive = true
+  interactive = true,
+  onBoundsChange
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<google.maps.Map | null>(null);
+  const overlaysRef = useRef<Array<google.maps.Marker | google.maps.Circle>>([]);
+  const onBoundsChangeRef = useRef(onBoundsChange);
   const [isLoading, setIsLoading] = useState(true);
+  const [isMapReady, setIsMapReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Keep the latest callback without re-creating the map
+  useEffect(() => {
+    onBoundsChangeRef.current = onBoundsChange;
+  }, [onBoundsChange]);
+
   useEffect(() => {
     if (!mapRef.current) return;
 
+    let boundsTimer: ReturnType<typeof setTimeout> | undefined;
+
     const initMap = async () => {
       try {
         const apiKey = Environment.getGoogleMapsApiKey();
@@ -109,35 +167,8 @@ export const MapView: React.FC<MapViewProps> = ({
 
         mapInstance.current = new google.maps.Map(mapRef.current, mapOptions);
 
-        // Add markers for properties if provided
-        if (properties && properties.length > 0) {
-          properties.forEach((property, index) => {
-            let markerPosition: google.maps.LatLng;
-            
-            // Use property coordinates if available
-            if (property.coordinates) {
-              markerPosition = new google.maps.LatLng(property.coordinates.lat, property.coordinates.lng);
-            } else if (property.approximateLocation) {
-              // For approximate locations, we'll need to geocode
-              const geocoder = new google.maps.Geocoder();
-              geocoder.geocode(
-                { address: `${property.approximateLocation.area}, Bangalore, Karnataka, India` },
-                (results, status) => {
-                  if (status === 'OK' && results && results.length > 0) {
-                    const position = results[0].geometry.location;
-                    createPropertyMarker(property, position, index);
-                  }
-                }
-              );
-              return; // Skip creating marker here for approximate locations
-            } else {
-              return; // Skip if no location data
-            }
-            
-            createPropertyMarker(property, markerPosition, index);
-          });
-        } else if (coordinates) {
-          // Add single marker for exact coordinates (fallback behavior)
+        // Single marker for exact coordinates when there are no property markers
+        if (properties.length === 0 && coordinates) {
           new google.maps.Marker({
             position: center,
             map: mapInstance.current,
@@ -146,107 +177,23 @@ export const MapView: React.FC<MapViewProps> = ({
           });
         }
 
-        // Helper function to create property markers
-        function createPropertyMarker(property: Property, position: google.maps.LatLng, index: number) {
-          if (!mapInstance.current) return;
-          
-          // Determine marker color based on availability
-          let markerColor = '#3B82F6'; // Default blue
-          if (property.availability?.status === 'not-available') {
-            markerColor = '#EF4444'; // Red
-          } else if (property.availability?.status === 'coming-soon') {
-            markerColor = '#F59E0B'; // Amber
-          } else if (property.availability?.status === 'under-maintenance') {
-            markerColor = '#6B7280'; // Gray
-          }
-
-          const marker = new google.maps.Marker({
-            position,
-            map: mapInstance.current,
-            title: property.title,
-            icon: createMarkerIcon(markerColor)
-          });
-
-          // Add info window with property details
-          const infoWindow = new google.maps.InfoWindow({
-            content: `
-              <div class="p-4 max-w-xs">
-                <h3 class="font-semibold text-gray-900 mb-2">${property.title}</h3>
-                <p class="text-sm text-gray-600 mb-2">${property.location.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-                <p class="text-sm text-gray-700 mb-2">${property.size.area} ${property.size.unit}</p>
-                <div class="mb-2">
-                  <span class="inline-block px-2 py-1 text-xs rounded-full ${getStatusBadgeClasses(property.availability?.status || 'available')}">
-                    ${property.availability?.status?.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase()) || 'Available'}
-                  </span>
-                </div>
-                ${property.customTags && property.customTags.length > 0 ? `
-                  <div class="flex flex-wrap gap-1 mb-2">
-                    ${property.customTags.map(tag => 
-                      `<span class="inline-block px-2 py-1 text-xs rounded" style="background-color: ${tag.backgroundColor}; color: ${tag.color};">
-                        ${tag.name}
-                      </span>`
-                    ).join('')}
-                  </div>
-                ` : ''}
-                <div class="mt-3 flex space-x-2">
-                  <button onclick="window.dispatchEvent(new CustomEvent('viewProperty', {detail: '${property.id}'}))" 
-                          class="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
-                    View Details
-                  </button>
-                  <button onclick="window.open('https://wa.me/${property.contact.whatsapp?.replace('+', '')}?text=${encodeURIComponent(`Hi, I'm interested in ${property.title}`)}', '_blank')"
-                          class="px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700">
-                    Contact
-                  </button>
-                </div>
-              </div>
-            `
-          });
-
-          marker.addListener('click', () => {
-            infoWindow.open(mapInstance.current, marker);
-          });
-
-          // Add radius circle for approximate locations
-          if (property.approximateLocation && showRadius) {
-            const radiusValue = parseFloat(property.approximateLocation.radius.replace(/[^\d.]/g, ''));
-            const radiusMeters = property.approximateLocation.radius.includes('km') ? radiusValue * 1000 : radiusValue;
-            
-            new google.maps.Circle({
-              strokeColor: markerColor,
-              strokeOpacity: 0.6,
-              strokeWeight: 1,
-              fillColor: markerColor,
-              fillOpacity: 0.1,
-              map: mapInstance.current,
-              center: position,
-              radius: radiusMeters
+        // Report the viewport once the map settles after a pan or zoom
+        mapInstance.current.addListener('idle', () => {
+          if (!onBoundsChangeRef.current) return;
+          clearTimeout(boundsTimer);
+          boundsTimer = setTimeout(() => {
+            const bounds = mapInstance.current?.getBounds();
+            if (!bounds || !onBoundsChangeRef.current) return;
+            const northEast = bounds.getNorthEast();
+            const southWest = bounds.getSouthWest();
+            onBoundsChangeRef.current({
+              south: southWest.lat(),
+              west: southWest.lng(),
+              north: northEast.lat(),
+              east: northEast.lng()
             });
-          }
-        }
-
-        // Helper function to create marker icons
-        function createMarkerIcon(color: string) {
-          return {
-            url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
-              <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" fill="${color}"/>
-              </svg>
-            `),
-            scaledSize: new google.maps.Size(32, 32),
-            anchor: new google.maps.Point(16, 32)
-          };
-        }
-
-        // Helper function to get status badge classes
-        function getStatusBadgeClasses(status: string) {
-          switch (status) {
-            case 'available': return 'bg-green-100 text-green-800';
-            case 'not-available': return 'bg-red-100 text-red-800';
-            case 'coming-soon': return 'bg-yellow-100 text-yellow-800';
-            case 'under-maintenance': return 'bg-gray-100 text-gray-800';
-            default: return 'bg-green-100 text-green-800';
-          }
-        }
+          }, BOUNDS_CHANGE_DEBOUNCE_MS);
+        });
 
         // Add radius circle for approximate location
         if (approximateLocation && showRadius) {
@@ -291,6 +238,7 @@ export const MapView: React.FC<MapViewProps> = ({
         }
 
         setIsLoading(false);
+        setIsMapReady(true);
 
       } catch (err) {
         console.error('Error initializing map:', err);
@@ -303,10 +251,131 @@ export const MapView: React.FC<MapViewProps> = ({
 
     // Cleanup
     return () => {
+      clearTimeout(boundsTimer);
       mapInstance.current = null;
+      setIsMapReady(false);
     };
   }, [coordinates, approximateLocation, zoom, showRadius, interactive]);
 
+  // Property markers follow the properties prop, so refetches don't rebuild the map
+  useEffect(() => {
+    if (!isMapReady || !mapInstance.current) return;
+
+    overlaysRef.current.forEach(overlay => overlay.setMap(null));
+    overlaysRef.current = [];
+
+    let cancelled = false;
+
+    // Add markers for properties if provided
+    if (properties && properties.length > 0) {
+      properties.forEach((property, index) => {
+        let markerPosition: google.maps.LatLng;
+
+        // Use property coordinates if available
+        if (property.coordinates) {
+          markerPosition = new google.maps.LatLng(property.coordinates.lat, property.coordinates.lng);
+        } else if (property.approximateLocation) {
+          // For approximate locations, we'll need to geocode
+          geocodeArea(property.approximateLocation.area).then(position => {
+            if (position) createPropertyMarker(property, position, index);
+          });
+          return; // Skip creating marker here for approximate locations
+        } else {
+          return; // Skip if no location data
+        }
+
+        createPropertyMarker(property, markerPosition, index);
+      });
+    }
+
+    // Helper function to create property markers
+    function createPropertyMarker(property: Property, position: google.maps.LatLng, index: number) {
+      // Geocoding callbacks can land after the properties changed
+      if (cancelled || !mapInstance.current) return;
+
+      // Determine marker color based on availability
+      let markerColor = '#3B82F6'; // Default blue
+      if (property.availability?.status === 'not-available') {
+        markerColor = '#EF4444'; // Red
+      } else if (property.availability?.status === 'coming-soon') {
+        markerColor = '#F59E0B'; // Amber
+      } else if (property.availability?.status === 'under-maintenance') {
+        markerColor = '#6B7280'; // Gray
+      }
+
+      const marker = new google.maps.Marker({
+        position,
+        map: mapInstance.current,
+        title: property.title,
+        icon: createMarkerIcon(markerColor)
+      });
+      overlaysRef.current.push(marker);
+
+      // Add info window with property details
+      const infoWindow = new google.maps.InfoWindow({
+        content: `
+          <div class="p-4 max-w-xs">
+            <h3 class="font-semibold text-gray-900 mb-2">${property.title}</h3>
+            <p class="text-sm text-gray-600 mb-2">${property.location.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
+            <p class="text-sm text-gray-700 mb-2">${property.size.area} ${property.size.unit}</p>
+            <div class="mb-2">
+              <span class="inline-block px-2 py-1 text-xs rounded-full ${getStatusBadgeClasses(property.availability?.status || 'available')}">
+                ${property.availability?.status?.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase()) || 'Available'}
+              </span>
+            </div>
+            ${property.customTags && property.customTags.length > 0 ? `
+              <div class="flex flex-wrap gap-1 mb-2">
+                ${property.customTags.map(tag => 
+                  `<span class="inline-block px-2 py-1 text-xs rounded" style="background-color: ${tag.backgroundColor}; color: ${tag.color};">
+                    ${tag.name}
+                  </span>`
+                ).join('')}
+              </div>
+            ` : ''}
+            <div class="mt-3 flex space-x-2">
+              <button onclick="window.dispatchEvent(new CustomEvent('viewProperty', {detail: '${property.id}'}))" 
+                      class="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+                View Details
+              </button>
+              <button onclick="window.open('https://wa.me/${property.contact.whatsapp?.replace('+', '')}?text=${encodeURIComponent(`Hi, I'm interested in ${property.title}`)}', '_blank')"
+                      class="px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700">
+                Contact
+              </button>
+            </div>
+          </div>
+        `
+      });
+
+      marker.addListener('click', () => {
+        infoWindow.open(mapInstance.current, marker);
+      });
+
+      // Add radius circle for approximate locations
+      if (property.approximateLocation && showRadius) {
+        const radiusValue = parseFloat(property.approximateLocation.radius.replace(/[^\d.]/g, ''));
+        const radiusMeters = property.approximateLocation.radius.includes('km') ? radiusValue * 1000 : radiusValue;
+
+        const circle = new google.maps.Circle({
+          strokeColor: markerColor,
+          strokeOpacity: 0.6,
+          strokeWeight: 1,
+          fillColor: markerColor,
+          fillOpacity: 0.1,
+          map: mapInstance.current,
+          center: position,
+          radius: radiusMeters
+        });
+        overlaysRef.current.push(circle);
+      }
+    }
+
+    return () => {
+      cancelled = true;
+      overlaysRef.current.forEach(overlay => overlay.setMap(null));
+      overlaysRef.current = [];
+    };
+  }, [properties, isMapReady, showRadius]);
+
   if (error) {
     return (
       <div 
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef } from 'react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PropertyMedia } from '@/types/property';
+import MediaPlayer from '@/components/MediaPlayer';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { getMediaAlt, getMediaKind, MEDIA_KIND_LABELS } from '@/lib/mediaUtils';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface MediaLightboxProps {
+  // Already in gallery order
+  media: PropertyMedia[];
+  index: number | null; // null = closed
+  onIndexChange: (index: number | null) => void;
+  title: string;
+}
+
+/**
+ * Full-screen viewer for a property gallery: arrow keys step through the items in order,
+ * 360° panoramas can be panned horizontally
+ */
+const MediaLightbox: React.FC<MediaLightboxProps> = ({ media, index, onIndexChange, title }) => {
+  const panoramaRef = useRef<HTMLDivElement>(null);
+  const current = index !== null ? media[index] : undefined;
+  const kind = current ? getMediaKind(current) : null;
+
+  // Panoramas open centred on the middle of the image
+  useEffect(() => {
+    const container = panoramaRef.current;
+    if (kind === 'panorama' && container) {
+      container.scrollLeft = (container.scrollWidth - container.clientWidth) / 2;
+    }
+  }, [kind, index]);
+
+  if (!current || index === null) return null;
+
+  const step = (delta: number) => onIndexChange((index + delta + media.length) % media.length);
+  const alt = getMediaAlt(current, `${title} - ${MEDIA_KIND_LABELS[kind!].toLowerCase()} ${index + 1}`);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (media.length < 2) return;
+    if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      step(1);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      step(-1);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent
+        className="max-w-6xl w-[95vw] h-[90vh] p-0 gap-0 bg-black border-none text-white flex flex-col [&>button]:text-white"
+        onKeyDown={handleKeyDown}
+      >
+        <DialogTitle className="sr-only">{title} gallery</DialogTitle>
+
+        <div className="relative flex-1 min-h-0 flex items-center justify-center">
+          {kind === 'video' ? (
+            <MediaPlayer
+              src={current.url}
+              poster={current.thumbnailUrl}
+              duration={current.duration}
+              className="w-full h-full"
+              controls={true}
+              autoPlay={false}
+            />
+          ) : kind === 'panorama' ? (
+            <div ref={panoramaRef} className="w-full h-full overflow-x-auto overflow-y-hidden">
+              <img src={current.url} alt={alt} className="h-full w-auto max-w-none" />
+            </div>
+          ) : (
+            <ResponsiveImage
+              src={current.url}
+              srcset={current.srcset}
+              sizes="95vw"
+              alt={alt}
+              className="max-w-full max-h-full object-contain"
+            />
+          )}
+
+          {kind === 'panorama' && (
+            <Badge className="absolute top-4 left-4 bg-white/90 text-gray-900">360° · scroll to look around</Badge>
+          )}
+
+          {media.length > 1 && (
+            <>
+              <Button
+                variant="outline"
+                size="icon"
+                className="absolute left-4 top-1/2 -translate-y-1/2 bg-white/80 hover:bg-white text-gray-900"
+                onClick={() => step(-1)}
+                aria-label="Previous"
+              >
+                <ChevronLeft size={20} />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                className="absolute right-4 top-1/2 -translate-y-1/2 bg-white/80 hover:bg-white text-gray-900"
+                onClick={() => step(1)}
+                aria-label="Next"
+              >
+                <ChevronRight size={20} />
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div className="px-4 py-3 flex items-center justify-between gap-4 text-sm">
+          <span className="truncate">{current.caption || ''}</span>
+          <span className="shrink-0 text-white/70">{index + 1} / {media.length}</span>
+        </div>
+
+        {media.length > 1 && (
+          <div className="px-4 pb-4 flex gap-2 overflow-x-auto">
+            {media.map((item, itemIndex) => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => onIndexChange(itemIndex)}
+                className={`shrink-0 w-20 h-14 rounded overflow-hidden border-2 ${
+                  itemIndex === index ? 'border-white' : 'border-transparent opacity-60 hover:opacity-100'
+                }`}
+                title={item.caption || MEDIA_KIND_LABELS[getMediaKind(item)]}
+              >
+                {item.thumbnailUrl || getMediaKind(item) !== 'video' ? (
+                  <img
+                    src={item.thumbnailUrl || item.url}
+                    alt=""
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <span className="w-full h-full flex items-center justify-center bg-gray-800 text-xs">Video</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MediaLightbox;
@@ -4,7 +4,9 @@ import { Button } from '@/components/ui/button';
 
 interface MediaPlayerProps {
   src: string;
-  poster?: string;
+  poster?: string | undefined;
+  // Known length in seconds (from upload processing), shown before the video metadata loads
+  duration?: number | undefined;
   className?: string;
   autoPlay?: boolean;
   controls?: boolean;
@@ -15,6 +17,7 @@ interface MediaPlayerProps {
 export const MediaPlayer: React.FC<MediaPlayerProps> = ({
   src,
   poster,
+  duration: knownDuration,
   className = '',
   autoPlay = false,
   controls = true,
@@ -25,7 +28,7 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(muted);
   const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const [duration, setDuration] = useState(knownDuration || 0);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
 
@@ -98,6 +101,7 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
         ref={videoRef}
         src={src}
         poster={poster}
+        preload="metadata"
         autoPlay={autoPlay}
         muted={muted}
         loop={loop}
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { PropertyNeighbourhood, PoiCategory } from '@/types/poi';
+import { API } from '@/services/apiService';
+import { mapNearbyPoisData } from '@/utils/apiMigrationUtils';
+import { POI_CATEGORIES, POI_CATEGORY_LABELS, WALKABLE_MINUTES, formatDistance, formatWalk, nearestOf } from '@/lib/poiUtils';
+import { Bus, Coffee, Dumbbell, Footprints, Landmark, Loader2, Stethoscope, TrainFront } from 'lucide-react';
+
+interface NeighbourhoodSectionProps {
+  propertyId: string;
+  radiusMeters?: number;
+}
+
+const CATEGORY_ICONS: Record<PoiCategory, React.ReactNode> = {
+  metro: <TrainFront size={16} />,
+  bus_stop: <Bus size={16} />,
+  restaurant: <Coffee size={16} />,
+  hospital: <Stethoscope size={16} />,
+  gym: <Dumbbell size={16} />,
+  bank: <Landmark size={16} />
+};
+
+const COMMUTE_CATEGORIES: PoiCategory[] = ['metro', 'bus_stop'];
+
+/**
+ * Commute & neighbourhood: walk times to the nearest metro and bus stop, and what else is
+ * within walking distance of the property
+ */
+const NeighbourhoodSection: React.FC<NeighbourhoodSectionProps> = ({ propertyId, radiusMeters = 2000 }) => {
+  const [neighbourhood, setNeighbourhood] = useState<PropertyNeighbourhood | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadNeighbourhood = async () => {
+      setLoading(true);
+      setFailed(false);
+      try {
+        const [result] = mapNearbyPoisData(await API.pois.getNearby({
+          propertyIds: [propertyId],
+          radius: radiusMeters,
+          perCategory: 5
+        }));
+        if (!cancelled) setNeighbourhood(result || null);
+      } catch (error) {
+        console.error('Error loading nearby places:', error);
+        if (!cancelled) setFailed(true);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadNeighbourhood();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId, radiusMeters]);
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 size={16} className="mr-2 animate-spin" />
+          Finding nearby places...
+        </div>
+      );
+    }
+    if (failed) {
+      return <p className="text-sm text-gray-500">Nearby places could not be loaded right now.</p>;
+    }
+    if (!neighbourhood?.located) {
+      return <p className="text-sm text-gray-500">Nearby places are shown once the exact location is on the map.</p>;
+    }
+
+    const radius = formatDistance(neighbourhood.radiusMeters);
+    const neighbourhoodCategories = POI_CATEGORIES.filter(category => !COMMUTE_CATEGORIES.includes(category));
+
+    return (
+      <div className="space-y-4">
+        {/* Commute */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {COMMUTE_CATEGORIES.map(category => {
+            const nearest = nearestOf(neighbourhood.pois, category);
+            return (
+              <div key={category} className="p-3 bg-gray-50 rounded-lg border">
+                <div className="flex items-center text-sm font-medium text-gray-900 mb-1">
+                  <span className="mr-2 text-primary-600">{CATEGORY_ICONS[category]}</span>
+                  Nearest {category === 'metro' ? 'metro station' : 'bus stop'}
+                </div>
+                {nearest ? (
+                  <>
+                    <div className="text-sm text-gray-700 truncate">{nearest.name}</div>
+                    <div className={`flex items-center text-xs mt-1 ${nearest.walkMinutes <= WALKABLE_MINUTES ? 'text-green-600' : 'text-amber-600'}`}>
+                      <Footprints size={12} className="mr-1" />
+                      {formatWalk(nearest.walkMinutes)} · {formatDistance(nearest.distanceMeters)}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-gray-500">None within {radius}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Neighbourhood */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {neighbourhoodCategories.map(category => {
+            const places = neighbourhood.pois.filter(poi => poi.category === category);
+            const count = neighbourhood.counts[category] || 0;
+            return (
+              <div key={category} className="p-3 rounded-lg border">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center text-sm font-medium text-gray-900">
+                    <span className="mr-2 text-gray-500">{CATEGORY_ICONS[category]}</span>
+                    {POI_CATEGORY_LABELS[category]}
+                  </div>
+                  <span className="text-xs text-gray-500">{count} within {radius}</span>
+                </div>
+                {places.length > 0 ? (
+                  <ul className="space-y-1">
+                    {places.slice(0, 3).map(place => (
+                      <li key={place.id} className="flex items-center justify-between text-xs text-gray-600">
+                        <span className="truncate mr-2">{place.name}</span>
+                        <span className="whitespace-nowrap text-gray-400">{formatWalk(place.walkMinutes)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="text-xs text-gray-500">None nearby</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Walk times are estimates from straight-line distance.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">Commute & Neighbourhood</h3>
+      {renderBody()}
+    </div>
+  );
+};
+
+export default NeighbourhoodSection;
@@ -2,7 +2,7 @@ import React, { useState, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Property } from '@/types/property';
+import { Property, PropertyMedia } from '@/types/property';
 import { 
   MapPin, 
   Wifi, 
@@ -24,7 +24,9 @@ import {
 import { useUserStore } from '@/store/userStore';
 import { useToast } from '@/hooks/use-toast';
 import MiniMap from '@/components/MiniMap';
-import { parseRadiusToMeters, getPropertyCoordinates } from '@/lib/mapUtils';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { parseRadiusToMeters, getPropertyCoordinates, formatDistanceKm } from '@/lib/mapUtils';
+import { getCoverMedia, getMediaAlt } from '@/lib/mediaUtils';
 
 interface PropertyCardProps {
   property: Property;
@@ -60,7 +62,7 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
   const { isAuthenticated, saveProperty, unsaveProperty, isPropertySaved } = useUserStore();
   const { toast } = useToast();
   
-  const isPropertyCurrentlySaved = isAuthenticated ? isPropertySaved(property.id) : false;
+  const isPropertyCurrentlySaved = isPropertySaved(property.id);
 
   const formatLocation = (location: string) => {
     return location.split('-').map(word => 
@@ -102,13 +104,15 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
     return icons;
   };
 
-  // Get the primary media item (prefer media array, fallback to images)
-  const getPrimaryMedia = () => {
-    if (property.media && property.media.length > 0) {
-      return property.media[0];
+  // Get the primary media item (the gallery cover, fallback to images)
+  const getPrimaryMedia = (): PropertyMedia | null => {
+    const cover = property.media ? getCoverMedia(property.media) : null;
+    if (cover) {
+      return cover;
     }
     if (property.images && property.images.length > 0) {
       return {
+        id: 'image-1',
         type: 'image' as const,
         url: property.images[0],
         filename: 'property-image.jpg',
@@ -143,15 +147,6 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
   };
 
   const handleSaveToggle = async () => {
-    if (!isAuthenticated) {
-      toast({
-        title: 'Authentication Required',
-        description: 'Please sign in to save properties.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
     setIsSaving(true);
     try {
       if (isPropertyCurrentlySaved) {
@@ -167,7 +162,9 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
         if (success) {
           toast({
             title: 'Property Saved',
-            description: 'Property has been added to your saved list.',
+            description: isAuthenticated
+              ? 'Property has been added to your saved list.'
+              : 'Saved on this device. Sign in to keep it with your account.',
           });
         }
       }
@@ -209,9 +206,12 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
             {primaryMedia ? (
               <>
                 {primaryMedia.type === 'image' ? (
-                  <img
+                  <ResponsiveImage
                     src={primaryMedia.url}
-                    alt={property.title}
+                    srcset={primaryMedia.srcset}
+                    // Half of a card in a one-to-three column grid
+                    sizes="(min-width: 1024px) 17vw, (min-width: 768px) 25vw, 50vw"
+                    alt={getMediaAlt(primaryMedia, property.title)}
                     className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
                     loading="lazy"
                   />
@@ -245,7 +245,7 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
                     {/* Optional: Video duration indicator */}
                     {primaryMedia.duration && (
                       <div className="absolute bottom-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
-                        {Math.floor(primaryMedia.duration / 60)}:{(primaryMedia.duration % 60).toString().padStart(2, '0')}
+                        {Math.floor(primaryMedia.duration / 60)}:{Math.floor(primaryMedia.duration % 60).toString().padStart(2, '0')}
                       </div>
                     )}
                   </div>
@@ -348,6 +348,9 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
             <div className="flex items-center text-gray-600 mb-2">
               <MapPin size={16} className="mr-1" />
               <span className="text-sm">{getLocationDisplay()}</span>
+              {property.distanceKm !== undefined && (
+                <span className="text-sm text-gray-500 ml-2">· {formatDistanceKm(property.distanceKm)} away</span>
+              )}
             </div>
           </div>
         </div>
@@ -1,12 +1,42 @@
 import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { usePropertyStore } from '@/store/propertyStore';
+import { useUserStore } from '@/store/userStore';
 import PropertyCard from './PropertyCard';
 import PropertySearch from './PropertySearch';
 import MapView from './MapView';
-import { Property } from '@/types/property';
+import SaveSearchButton from './SaveSearchButton';
+import { MapBounds, Property, PropertyFilters, PropertySortField } from '@/types/property';
+import { mapQueryToSearchState, mapSearchParamsToQuery } from '@/utils/apiMigrationUtils';
 import { Button } from '@/components/ui/button';
 import { Loader2, Map, Grid3X3 } from 'lucide-react';
 
+const SORT_OPTIONS: { value: string; label: string; sortBy: PropertySortField; sortOrder: 'asc' | 'desc' }[] = [
+  { value: 'relevance-desc', label: 'Best match', sortBy: 'relevance', sortOrder: 'desc' },
+  { value: 'date-desc', label: 'Newest first', sortBy: 'date', sortOrder: 'desc' },
+  { value: 'date-asc', label: 'Oldest first', sortBy: 'date', sortOrder: 'asc' },
+  { value: 'price-asc', label: 'Price: low to high', sortBy: 'price', sortOrder: 'asc' },
+  { value: 'price-desc', label: 'Price: high to low', sortBy: 'price', sortOrder: 'desc' },
+  { value: 'area-asc', label: 'Area: small to large', sortBy: 'area', sortOrder: 'asc' },
+  { value: 'area-desc', label: 'Area: large to small', sortBy: 'area', sortOrder: 'desc' },
+  { value: 'distance-asc', label: 'Nearest first', sortBy: 'distance', sortOrder: 'asc' },
+];
+
+// Map mode shows everything in the viewport rather than a grid page
+const MAP_PAGE_SIZE = 100;
+
+const MAP_APPROXIMATE_AREA = {
+  area: 'Bangalore',
+  radius: '25km',
+  landmarks: ['Electronic City', 'Whitefield', 'Koramangala', 'Indiranagar']
+};
+
+// Ignore sub-metre viewport jitter so an idle map doesn't refetch
+const sameBounds = (a?: MapBounds, b?: MapBounds) =>
+  !!a && !!b &&
+  Math.abs(a.south - b.south) < 1e-5 && Math.abs(a.west - b.west) < 1e-5 &&
+  Math.abs(a.north - b.north) < 1e-5 && Math.abs(a.east - b.east) < 1e-5;
+
 interface PropertyListingsProps {
   onPropertySelect?: (property: Property) => void;
 }
@@ -15,25 +45,64 @@ const PropertyListings: React.FC<PropertyListingsProps> = ({ onPropertySelect })
   const {
     filteredProperties,
     filters,
+    searchParams,
+    searchSuggestion,
+    pagination,
     loading,
     error,
     loadProperties,
     setFilters,
+    setSearchParams,
+    setPage,
   } = usePropertyStore();
 
+  const isAuthenticated = useUserStore(state => state.isAuthenticated);
+
   const isLoading = loading.isLoading;
+  // The store types filters with the API shape; the listing works with the UI shape
+  const listingFilters = filters as PropertyFilters;
 
-  const [currentPage, setCurrentPage] = useState(1);
   const [viewMode, setViewMode] = useState<'grid' | 'map'>('grid');
   const propertiesPerPage = 6;
 
+  const [urlParams, setUrlParams] = useSearchParams();
+  // The state a shared link opened with; later URL changes are written by this component
+  const [fromUrl] = useState(() => mapQueryToSearchState(urlParams));
+
   useEffect(() => {
-    loadProperties();
-  }, [loadProperties]);
+    // A shared link wins over persisted filters
+    if (Object.keys(fromUrl.filters).length > 0 || Object.keys(fromUrl.searchParams).length > 0) {
+      usePropertyStore.setState({ filters: fromUrl.filters });
+      setSearchParams({ page: 1, ...fromUrl.searchParams, limit: propertiesPerPage });
+      return;
+    }
+    // Always start from the first page; sorting preference is kept
+    setSearchParams({ ...usePropertyStore.getState().searchParams, page: 1, limit: propertiesPerPage });
+  }, [fromUrl, setSearchParams]);
+
+  // Mirror filters, query, sort and page into the URL so results can be shared
+  useEffect(() => {
+    const { limit: _limit, ...query } = mapSearchParamsToQuery(filters, searchParams);
+    setUrlParams(query, { replace: true });
+  }, [filters, searchParams, setUrlParams]);
+
+  // What "Save search" stores: the same parameters, minus paging
+  const { limit: _limit, page: _page, ...savedSearchQuery } = mapSearchParamsToQuery(filters, searchParams);
+  const suggestedSearchName = [
+    searchParams.query,
+    listingFilters.locations?.join(', ') || listingFilters.location
+  ].filter(Boolean).join(' in ') || 'My property search';
 
   const handleSearch = (query: string) => {
-    // Implement search logic here
-    console.log('Searching for:', query);
+    const trimmed = query.trim();
+    if (trimmed) {
+      // New searches start ranked by relevance
+      setSearchParams({ ...searchParams, query: trimmed, sortBy: 'relevance', sortOrder: 'desc', page: 1 });
+      return;
+    }
+    // Relevance is meaningless without a query - fall back to the default sort
+    const sortBy = searchParams.sortBy === 'relevance' ? undefined : searchParams.sortBy;
+    setSearchParams({ ...searchParams, query: undefined, sortBy, page: 1 });
   };
 
   const handleViewDetails = (property: Property) => {
@@ -49,18 +118,66 @@ const PropertyListings: React.FC<PropertyListingsProps> = ({ onPropertySelect })
     window.open(whatsappUrl, '_blank');
   };
 
-  // Pagination logic
-  const totalPages = Math.ceil(filteredProperties.length / propertiesPerPage);
+  // Pagination is done server-side - the store holds the current page only
+  const currentPage = pagination?.currentPage || 1;
+  const totalPages = pagination?.totalPages || 1;
+  const totalCount = pagination?.totalCount ?? filteredProperties.length;
   const startIndex = (currentPage - 1) * propertiesPerPage;
-  const endIndex = startIndex + propertiesPerPage;
-  const currentProperties = filteredProperties.slice(startIndex, endIndex);
+  const endIndex = startIndex + filteredProperties.length;
+  const currentProperties = filteredProperties;
+  const currentSort = `${searchParams.sortBy || 'date'}-${searchParams.sortOrder || 'desc'}`;
+  const sortOptions = SORT_OPTIONS.filter(o =>
+    (o.sortBy !== 'relevance' || !!searchParams.query) &&
+    (o.sortBy !== 'distance' || !!listingFilters.locationCenter)
+  );
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    setPage(page);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  if (isLoading) {
+  const handleFiltersChange = (nextFilters: PropertyFilters) => {
+    const { searchParams: current } = usePropertyStore.getState();
+    if (nextFilters.locationCenter && !listingFilters.locationCenter) {
+      // Picking a landmark sorts by distance from it
+      usePropertyStore.setState({ searchParams: { ...current, sortBy: 'distance', sortOrder: 'asc' } });
+    } else if (!nextFilters.locationCenter && current.sortBy === 'distance') {
+      // Distance sorting needs a reference point
+      usePropertyStore.setState({ searchParams: { ...current, sortBy: undefined, sortOrder: undefined } });
+    }
+    setFilters(nextFilters);
+  };
+
+  const handleViewModeChange = (mode: 'grid' | 'map') => {
+    if (mode === viewMode) return;
+    setViewMode(mode);
+
+    if (mode === 'map') {
+      // The map reports its viewport once idle, which narrows results to it
+      setSearchParams({ ...searchParams, page: 1, limit: MAP_PAGE_SIZE });
+      return;
+    }
+
+    const { bounds: _bounds, ...gridFilters } = listingFilters;
+    usePropertyStore.setState({ searchParams: { ...searchParams, limit: propertiesPerPage } });
+    setFilters(gridFilters);
+  };
+
+  const handleBoundsChange = (bounds: MapBounds) => {
+    const current = usePropertyStore.getState().filters as PropertyFilters;
+    if (sameBounds(current.bounds, bounds)) return;
+    setFilters({ ...current, bounds });
+  };
+
+  const handleSortChange = (value: string) => {
+    const option = SORT_OPTIONS.find(o => o.value === value);
+    if (option) {
+      setSearchParams({ ...searchParams, sortBy: option.sortBy, sortOrder: option.sortOrder, page: 1 });
+    }
+  };
+
+  // Keep the map mounted while it refetches for a new viewport
+  if (isLoading && viewMode === 'grid') {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
@@ -93,8 +210,9 @@ const PropertyListings: React.FC<PropertyListingsProps> = ({ onPropertySelect })
       {/* Search and Filters */}
       <PropertySearch
         filters={filters}
-        onFiltersChange={setFilters}
+        onFiltersChange={handleFiltersChange}
         onSearch={handleSearch}
+        suggestion={searchSuggestion}
       />
 
       {/* Results Summary and View Toggle */}
@@ -102,13 +220,13 @@ const PropertyListings: React.FC<PropertyListingsProps> = ({ onPropertySelect })
         <div className="flex items-center space-x-3">
           <div>
             <h2 className="text-2xl font-bold text-gray-900">
-              {filteredProperties.length} Properties Found
+              {totalCount} Properties Found
             </h2>
             <p className="text-gray-600 mt-1">
-              Showing {startIndex + 1}-{Math.min(endIndex, filteredProperties.length)} of {filteredProperties.length} results
+              Showing {totalCount > 0 ? startIndex + 1 : 0}-{endIndex} of {totalCount} results
             </p>
           </div>
-          {loading.isRefreshing && (
+          {(loading.isRefreshing || isLoading) && (
             <div className="flex items-center text-primary-600">
               <Loader2 className="h-4 w-4 animate-spin mr-1" />
               <span className="text-sm">Updating...</span>
@@ -116,31 +234,49 @@ const PropertyListings: React.FC<PropertyListingsProps> = ({ onPropertySelect })
           )}
         </div>
         
-        {/* View Mode Toggle */}
-        <div className="flex items-center space-x-2 bg-gray-100 rounded-lg p-1">
-          <Button
-            variant={viewMode === 'grid' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => setViewMode('grid')}
-            className="flex items-center space-x-2"
-          >
-            <Grid3X3 className="w-4 h-4" />
-            <span>Grid</span>
-          </Button>
-          <Button
-            variant={viewMode === 'map' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => setViewMode('map')}
-            className="flex items-center space-x-2"
+        <div className="flex items-center space-x-3">
+          {isAuthenticated && (
+            <SaveSearchButton query={savedSearchQuery} suggestedName={suggestedSearchName} />
+          )}
+
+          {/* Sort Order */}
+          <select
+            aria-label="Sort properties"
+            value={currentSort}
+            onChange={(e) => handleSortChange(e.target.value)}
+            className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm text-gray-700"
           >
-            <Map className="w-4 h-4" />
-            <span>Map</span>
-          </Button>
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          {/* View Mode Toggle */}
+          <div className="flex items-center space-x-2 bg-gray-100 rounded-lg p-1">
+            <Button
+              variant={viewMode === 'grid' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => handleViewModeChange('grid')}
+              className="flex items-center space-x-2"
+            >
+              <Grid3X3 className="w-4 h-4" />
+              <span>Grid</span>
+            </Button>
+            <Button
+              variant={viewMode === 'map' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => handleViewModeChange('map')}
+              className="flex items-center space-x-2"
+            >
+              <Map className="w-4 h-4" />
+              <span>Map</span>
+            </Button>
+          </div>
         </div>
       </div>
 
-      {/* Property Grid or Map View */}
-      {currentProperties.length > 0 ? (
+      {/* Property Grid or Map View - the map stays up even when the viewport is empty */}
+      {currentProperties.length > 0 || viewMode === 'map' ? (
         viewMode === 'grid' ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {currentProperties.map((property) => (
@@ -159,11 +295,8 @@ const PropertyListings: React.FC<PropertyListingsProps> = ({ onPropertySelect })
               <MapView
                 properties={currentProperties}
                 // Show approximate area for all properties or center of Bangalore
-                approximateLocation={{
-                  area: 'Bangalore',
-                  radius: '25km',
-                  landmarks: ['Electronic City', 'Whitefield', 'Koramangala', 'Indiranagar']
-                }}
+                approximateLocation={MAP_APPROXIMATE_AREA}
+                onBoundsChange={handleBoundsChange}
                 className="w-full"
                 height="500px"
                 zoom={11}
@@ -229,10 +362,7 @@ const PropertyListings: React.FC<PropertyListingsProps> = ({ onPropertySelect })
           <p className="text-gray-600 mb-4">Try adjusting your search criteria or filters</p>
           <Button
             variant="outline"
-            onClick={() => {
-              setFilters({});
-              setCurrentPage(1);
-            }}
+            onClick={() => handleFiltersChange({})}
           >
             Clear Filters
           </Button>
@@ -1,13 +1,19 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Property } from '@/types/property';
+import { Property, PropertyMedia } from '@/types/property';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import MediaPlayer from '@/components/MediaPlayer';
+import MediaLightbox from '@/components/MediaLightbox';
+import ResponsiveImage from '@/components/ResponsiveImage';
 import StaticMapView from './StaticMapView';
 import MapView from './MapView';
 import MiniMap from '@/components/MiniMap';
+import NeighbourhoodSection from '@/components/NeighbourhoodSection';
 import { parseRadiusToMeters, getPropertyCoordinates } from '@/lib/mapUtils';
+import { getMediaAlt, getMediaKind, MEDIA_KIND_LABELS, sortGallery } from '@/lib/mediaUtils';
+import { trackInteraction } from '@/services/interactionService';
 import { 
   MapPin, 
   IndianRupee, 
@@ -26,9 +32,13 @@ import {
   X,
   Map,
   Eye,
-  ExternalLink
+  ExternalLink,
+  FileText,
+  Maximize2
 } from 'lucide-react';
 
+type GalleryTab = 'media' | 'floor_plans';
+
 interface PropertyModalProps {
   property: Property | null;
   isOpen: boolean;
@@ -37,17 +47,28 @@ interface PropertyModalProps {
 
 const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose }) => {
   const [currentMediaIndex, setCurrentMediaIndex] = useState(0);
+  const [activeGallery, setActiveGallery] = useState<GalleryTab>('media');
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
   const [showFullMap, setShowFullMap] = useState(false);
 
+  // Record the view with how long the listing stayed open
+  const propertyId = isOpen ? property?.id : undefined;
+  useEffect(() => {
+    if (!propertyId) return;
+    const openedAt = Date.now();
+    return () => trackInteraction(propertyId, 'view', { timeSpent: (Date.now() - openedAt) / 1000, context: 'property_modal' });
+  }, [propertyId]);
+
   if (!property) return null;
 
   // Get all media items (prefer media array, fallback to images for backward compatibility)
-  const getAllMedia = () => {
+  const getAllMedia = (): PropertyMedia[] => {
     if (property.media && property.media.length > 0) {
       return property.media;
     }
     if (property.images && property.images.length > 0) {
       return property.images.map((url, index) => ({
+        id: `image-${index + 1}`,
         type: 'image' as const,
         url,
         filename: `property-image-${index + 1}.jpg`,
@@ -58,7 +79,18 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
     return [];
   };
 
-  const allMedia = getAllMedia();
+  // Gallery order; floor plans get their own tab and documents are listed as downloads
+  const allMedia = sortGallery(getAllMedia());
+  const galleryMedia = allMedia.filter(item => !['floor_plan', 'document'].includes(getMediaKind(item)));
+  const floorPlans = allMedia.filter(item => getMediaKind(item) === 'floor_plan');
+  const documents = allMedia.filter(item => getMediaKind(item) === 'document');
+  const shownMedia = activeGallery === 'floor_plans' && floorPlans.length > 0 ? floorPlans : galleryMedia;
+  const currentMedia = shownMedia[currentMediaIndex] || shownMedia[0];
+
+  const handleGalleryChange = (tab: GalleryTab) => {
+    setActiveGallery(tab);
+    setCurrentMediaIndex(0);
+  };
 
   // Removed formatPrice as per "contact for pricing" model
 
@@ -106,13 +138,13 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
 
   const nextMedia = () => {
     setCurrentMediaIndex((prev) => 
-      prev === allMedia.length - 1 ? 0 : prev + 1
+      prev >= shownMedia.length - 1 ? 0 : prev + 1
     );
   };
 
   const prevMedia = () => {
     setCurrentMediaIndex((prev) => 
-      prev === 0 ? allMedia.length - 1 : prev - 1
+      prev === 0 ? shownMedia.length - 1 : prev - 1
     );
   };
 
@@ -146,25 +178,44 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
         </DialogHeader>
 
         <div className="space-y-6">
-          {/* Mixed Media Gallery */}
+          {/* Media Gallery - photos and videos, with floor plans in their own tab */}
+          {floorPlans.length > 0 && (
+            <Tabs value={activeGallery} onValueChange={(value) => handleGalleryChange(value as GalleryTab)}>
+              <TabsList>
+                <TabsTrigger value="media">Photos &amp; Videos ({galleryMedia.length})</TabsTrigger>
+                <TabsTrigger value="floor_plans">Floor Plans ({floorPlans.length})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
           <div className="relative">
             <div className="aspect-video rounded-lg overflow-hidden bg-gray-100">
-              {allMedia.length > 0 ? (
+              {currentMedia ? (
                 <>
-                  {allMedia[currentMediaIndex].type === 'image' ? (
-                    <img
-                      src={allMedia[currentMediaIndex].url}
-                      alt={`${property.title} - ${allMedia[currentMediaIndex].type} ${currentMediaIndex + 1}`}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
+                  {currentMedia.type === 'video' ? (
                     <MediaPlayer
-                      src={allMedia[currentMediaIndex].url}
-                      poster={allMedia[currentMediaIndex].thumbnailUrl}
+                      src={currentMedia.url}
+                      poster={currentMedia.thumbnailUrl}
+                      duration={currentMedia.duration}
                       className="w-full h-full"
                       controls={true}
                       autoPlay={false}
                     />
+                  ) : (
+                    <button
+                      type="button"
+                      className="w-full h-full cursor-zoom-in"
+                      onClick={() => setLightboxIndex(currentMediaIndex)}
+                      title="View full screen"
+                    >
+                      <ResponsiveImage
+                        src={currentMedia.url}
+                        srcset={currentMedia.srcset}
+                        sizes="(min-width: 896px) 848px, 100vw"
+                        alt={getMediaAlt(currentMedia, `${property.title} - ${MEDIA_KIND_LABELS[getMediaKind(currentMedia)].toLowerCase()} ${currentMediaIndex + 1}`)}
+                        className={`w-full h-full ${getMediaKind(currentMedia) === 'floor_plan' ? 'object-contain bg-white' : 'object-cover'}`}
+                      />
+                    </button>
                   )}
                 </>
               ) : (
@@ -173,8 +224,25 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
                 </div>
               )}
             </div>
+
+            {currentMedia && (
+              <div className="absolute top-4 right-4 flex gap-2">
+                {getMediaKind(currentMedia) === 'panorama' && (
+                  <Badge className="bg-white/90 text-gray-900">360°</Badge>
+                )}
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="bg-white/80 hover:bg-white"
+                  onClick={() => setLightboxIndex(currentMediaIndex)}
+                  title="View full screen"
+                >
+                  <Maximize2 size={16} />
+                </Button>
+              </div>
+            )}
             
-            {allMedia.length > 1 && (
+            {shownMedia.length > 1 && (
               <>
                 <Button
                   variant="outline"
@@ -192,16 +260,15 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
                 >
                   <ChevronRight size={20} />
                 </Button>
-                
                 <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex space-x-2">
-                  {allMedia.map((mediaItem, index) => (
+                  {shownMedia.map((mediaItem, index) => (
                     <button
-                      key={index}
+                      key={mediaItem.id}
                       className={`w-2 h-2 rounded-full transition-colors ${
                         index === currentMediaIndex ? 'bg-white' : 'bg-white/50'
                       }`}
                       onClick={() => setCurrentMediaIndex(index)}
-                      title={`${mediaItem.type} ${index + 1}`}
+                      title={mediaItem.caption || `${MEDIA_KIND_LABELS[getMediaKind(mediaItem)]} ${index + 1}`}
                     />
                   ))}
                 </div>
@@ -209,6 +276,20 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
             )}
           </div>
 
+          {currentMedia?.caption && (
+            <p className="-mt-4 text-sm text-gray-600">{currentMedia.caption}</p>
+          )}
+
+          <MediaLightbox
+            media={shownMedia}
+            index={lightboxIndex}
+            onIndexChange={(index) => {
+              setLightboxIndex(index);
+              if (index !== null) setCurrentMediaIndex(index);
+            }}
+            title={property.title}
+          />
+
           {/* Property Details */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2 space-y-6">
@@ -329,6 +410,28 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
                 </div>
               </div>
 
+              {/* Documents */}
+              {documents.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Documents</h3>
+                  <ul className="space-y-2">
+                    {documents.map((document) => (
+                      <li key={document.id}>
+                        <a
+                          href={document.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center text-primary-600 hover:underline"
+                        >
+                          <FileText size={16} className="mr-2" />
+                          {document.caption || document.filename}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Location */}
               <div>
                 <div className="flex items-center justify-between mb-3">
@@ -396,19 +499,10 @@ const PropertyModal: React.FC<PropertyModalProps> = ({ property, isOpen, onClose
                     alt={`Location map for ${property.title}`}
                   />
                 )}
-                
-                {/* Location Benefits */}
-                <div className="mt-4 grid grid-cols-2 gap-3">
-                  <div className="text-center p-2 bg-white rounded border">
-                    <div className="text-xs font-medium text-gray-900">Transport</div>
-                    <div className="text-xs text-green-600">Excellent</div>
-                  </div>
-                  <div className="text-center p-2 bg-white rounded border">
-                    <div className="text-xs font-medium text-gray-900">Business Hub</div>
-                    <div className="text-xs text-green-600">Prime</div>
-                  </div>
-                </div>
               </div>
+
+              {/* Commute & Neighbourhood */}
+              <NeighbourhoodSection propertyId={property.id} />
               
               {/* Availability */}
               {property.availability.availableFrom && (
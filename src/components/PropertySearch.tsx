@@ -5,17 +5,24 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { PropertyFilters, PropertyCategory, PropertyTag, LocationData } from '@/types/property';
 import { API } from '@/services/apiService';
-import { Building, Square, X, Tag, CheckCircle } from 'lucide-react';
+import { mapTagData } from '@/utils/apiMigrationUtils';
+import { Building, Square, X, Tag, CheckCircle, Navigation } from 'lucide-react';
 import MultiLocationFilter from '@/components/ui/MultiLocationFilter';
 import SmartSearchInput from '@/components/ui/SmartSearchInput';
+import { BENGALURU_LANDMARKS } from '@/lib/mapUtils';
+
+// Distance origin that isn't a known landmark (searched location or shared link)
+const CUSTOM_ORIGIN = 'custom';
+const RADIUS_OPTIONS_KM = [1, 3, 5, 10];
 
 interface PropertySearchProps {
   filters: PropertyFilters;
   onFiltersChange: (filters: PropertyFilters) => void;
   onSearch: (query: string) => void;
+  suggestion?: string | null;
 }
 
-const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChange, onSearch }) => {
+const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChange, onSearch, suggestion = null }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [availableTags, setAvailableTags] = useState<PropertyTag[]>([]);
@@ -47,7 +54,7 @@ const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChang
       try {
         setLoadingTags(true);
         const tags = await API.getActiveTags();
-        setAvailableTags(tags);
+        setAvailableTags(tags.map(mapTagData));
       } catch (error) {
         console.error('Error loading tags:', error);
       } finally {
@@ -63,6 +70,11 @@ const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChang
     onSearch(searchQuery);
   };
 
+  const handleSuggestionSelect = (correctedQuery: string) => {
+    setSearchQuery(correctedQuery);
+    onSearch(correctedQuery);
+  };
+
   const handleMainSearchLocationSelect = (locationData: LocationData) => {
     // When a location is selected from main search, add it to the location filters
     const currentLocations = filters.locations || [];
@@ -126,11 +138,42 @@ const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChang
     });
   };
 
+  const currentOriginId = filters.locationCenter
+    ? BENGALURU_LANDMARKS.find(landmark =>
+        landmark.coordinates.lat === filters.locationCenter!.lat &&
+        landmark.coordinates.lng === filters.locationCenter!.lng
+      )?.id || CUSTOM_ORIGIN
+    : '';
+
+  const handleOriginSelect = (originId: string) => {
+    const landmark = BENGALURU_LANDMARKS.find(l => l.id === originId);
+    const locationCenter = landmark
+      ? landmark.coordinates
+      : originId === CUSTOM_ORIGIN
+        ? selectedLocationData?.coordinates || filters.locationCenter
+        : undefined;
+
+    onFiltersChange({
+      ...filters,
+      locationCenter,
+      // A radius only makes sense around a point
+      locationRadius: locationCenter ? filters.locationRadius : undefined
+    });
+  };
+
+  const handleRadiusSelect = (radiusKm: number) => {
+    onFiltersChange({
+      ...filters,
+      locationRadius: filters.locationRadius === radiusKm ? undefined : radiusKm
+    });
+  };
+
   // Removed handlePriceRangeChange as per "contact for pricing" model
 
   const clearFilters = () => {
     onFiltersChange({});
     setSearchQuery('');
+    onSearch('');
   };
 
   const getActiveFiltersCount = () => {
@@ -139,6 +182,7 @@ const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChang
     if (filters.locations && filters.locations.length > 0) count += filters.locations.length;
     else if (filters.location) count++;
     if (filters.category) count++;
+    if (filters.locationCenter) count++;
     if (filters.sizeRange) count++;
     if (filters.availabilityStatus) count++;
     if (filters.customTags && filters.customTags.length > 0) count += filters.customTags.length;
@@ -156,6 +200,8 @@ const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChang
                 value={searchQuery}
                 onChange={setSearchQuery}
                 onLocationSelect={handleMainSearchLocationSelect}
+                didYouMean={suggestion}
+                onDidYouMeanSelect={handleSuggestionSelect}
                 placeholder="Search for office spaces, locations, or amenities..."
                 className=""
               />
@@ -204,6 +250,51 @@ const PropertySearch: React.FC<PropertySearchProps> = ({ filters, onFiltersChang
               maxSelections={5}
             />
 
+            {/* Distance Filter - measured from a metro station or landmark */}
+            <div>
+              <Label htmlFor="distance-origin" className="text-base font-semibold mb-3 block">
+                <Navigation className="inline mr-2" size={16} />
+                Distance From
+              </Label>
+              <select
+                id="distance-origin"
+                value={currentOriginId}
+                onChange={(e) => handleOriginSelect(e.target.value)}
+                className="h-9 w-full md:w-80 rounded-md border border-gray-300 bg-white px-3 text-sm text-gray-700"
+              >
+                <option value="">Anywhere</option>
+                {(selectedLocationData || currentOriginId === CUSTOM_ORIGIN) && (
+                  <option value={CUSTOM_ORIGIN}>
+                    Near {selectedLocationData?.address || 'selected location'}
+                  </option>
+                )}
+                <optgroup label="Metro stations">
+                  {BENGALURU_LANDMARKS.filter(l => l.kind === 'metro').map(landmark => (
+                    <option key={landmark.id} value={landmark.id}>{landmark.name}</option>
+                  ))}
+                </optgroup>
+                <optgroup label="Landmarks">
+                  {BENGALURU_LANDMARKS.filter(l => l.kind === 'landmark').map(landmark => (
+                    <option key={landmark.id} value={landmark.id}>{landmark.name}</option>
+                  ))}
+                </optgroup>
+              </select>
+              {filters.locationCenter && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {RADIUS_OPTIONS_KM.map((radiusKm) => (
+                    <Badge
+                      key={radiusKm}
+                      variant={filters.locationRadius === radiusKm ? "default" : "outline"}
+                      className="cursor-pointer hover:bg-primary-100"
+                      onClick={() => handleRadiusSelect(radiusKm)}
+                    >
+                      Within {radiusKm} km
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Category Filter */}
             <div>
               <Label className="text-base font-semibold mb-3 block">
@@ -0,0 +1,31 @@
+import React from 'react';
+import { MediaSrcset } from '@/types/property';
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'srcSet'> {
+  src: string;
+  alt: string;
+  // Variants generated on upload; older media without them render as a plain <img>
+  srcset?: MediaSrcset | undefined;
+  // Rendered width of the image, e.g. "(min-width: 1024px) 33vw, 100vw"
+  sizes?: string;
+}
+
+/**
+ * <picture> that lets the browser pick the AVIF or WebP variant closest to the rendered size,
+ * falling back to the original URL
+ */
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ src, alt, srcset, sizes = '100vw', ...imgProps }) => {
+  if (!srcset?.webp && !srcset?.avif) {
+    return <img src={src} alt={alt} {...imgProps} />;
+  }
+
+  return (
+    <picture>
+      {srcset.avif && <source type="image/avif" srcSet={srcset.avif} sizes={sizes} />}
+      {srcset.webp && <source type="image/webp" srcSet={srcset.webp} sizes={sizes} />}
+      <img src={src} alt={alt} sizes={sizes} {...imgProps} />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
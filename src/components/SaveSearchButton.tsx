@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { BellPlus, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useSavedSearchStore } from '@/store/savedSearchStore';
+import { useToast } from '@/hooks/use-toast';
+
+interface SaveSearchButtonProps {
+  // Listing API parameters for the current search (as mirrored into the URL)
+  query: Record<string, string>;
+  suggestedName: string;
+}
+
+/**
+ * "Save search" action for the listings toolbar - names the current search and opts into alerts
+ */
+const SaveSearchButton: React.FC<SaveSearchButtonProps> = ({ query, suggestedName }) => {
+  const { saveSearch } = useSavedSearchStore();
+  const { toast } = useToast();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const [emailDigest, setEmailDigest] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openDialog = () => {
+    setName(suggestedName);
+    setAlertsEnabled(true);
+    setEmailDigest(true);
+    setIsOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    const saved = await saveSearch(name.trim(), query, { alertsEnabled, emailDigest: alertsEnabled && emailDigest });
+    setIsSaving(false);
+
+    if (saved) {
+      toast({
+        title: 'Search Saved',
+        description: alertsEnabled
+          ? "We'll let you know when new properties match."
+          : 'Find it again from your dashboard.',
+      });
+      setIsOpen(false);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to save search. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={openDialog} className="flex items-center space-x-2">
+        <BellPlus className="w-4 h-4" />
+        <span>Save search</span>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>
+              Re-run it from your dashboard and get alerted about new matches.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <Label htmlFor="savedSearchName">Name</Label>
+              <Input
+                id="savedSearchName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Furnished offices in HSR Layout"
+                className="mt-1"
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={alertsEnabled}
+                  onCheckedChange={(checked) => setAlertsEnabled(checked === true)}
+                />
+                <span>Alert me when new properties match</span>
+              </label>
+              <label className={`flex items-center space-x-2 text-sm ${alertsEnabled ? 'text-gray-700' : 'text-gray-400'}`}>
+                <Checkbox
+                  checked={alertsEnabled && emailDigest}
+                  disabled={!alertsEnabled}
+                  onCheckedChange={(checked) => setEmailDigest(checked === true)}
+                />
+                <span>Also send me an email digest</span>
+              </label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                <Save className="mr-2 h-4 w-4" />
+                {isSaving ? 'Saving...' : 'Save search'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SaveSearchButton;
@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LlmUsageGroup, LlmUsageReport } from '@/types/thesys';
+import { API } from '@/services/apiService';
+import { formatApiError, mapLlmUsageReport } from '@/utils/apiMigrationUtils';
+import { Activity, Coins, Database, Gauge, RefreshCw, Zap } from 'lucide-react';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+// Readable names for the use cases the C1 endpoints record
+const USE_CASE_LABELS: Record<string, string> = {
+  propertySearch: 'Property search',
+  inquiryForm: 'Inquiry form',
+  propertyComparison: 'Property comparison',
+  extraction: 'Extraction',
+  chat: 'Chat'
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k`
+    : tokens.toString();
+
+const formatCost = (cost: number) => `$${cost < 10 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+const formatBudget = (tokens: number) => tokens > 0 ? `${formatTokens(tokens)} tokens` : 'Unlimited';
+
+interface UsageBarsProps {
+  rows: LlmUsageGroup[];
+  label?: (key: string) => string;
+  color: string;
+}
+
+// Horizontal bars of total tokens per group, with requests and cost alongside
+const UsageBars: React.FC<UsageBarsProps> = ({ rows, label = key => key, color }) => {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">No usage in this period</p>;
+  }
+
+  const max = Math.max(...rows.map(row => row.totalTokens), 1);
+
+  return (
+    <div className="space-y-3">
+      {rows.map(row => (
+        <div key={row.key}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-900 truncate mr-2">{label(row.key)}</span>
+            <span className="text-gray-600 whitespace-nowrap">
+              {formatTokens(row.totalTokens)} tokens · {row.requests} req · {formatCost(row.costUsd)}
+            </span>
+          </div>
+          <div className="bg-gray-200 rounded-full h-3">
+            <div
+              className={`${color} h-3 rounded-full transition-all duration-500`}
+              style={{ width: `${(row.totalTokens / max) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const AIUsageDashboard: React.FC = () => {
+  const [report, setReport] = useState<LlmUsageReport | null>(null);
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, [days]);
+
+  const loadReport = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await API.c1Usage.getReport(days);
+      setReport(mapLlmUsageReport(data));
+    } catch (error) {
+      console.error('Error loading AI usage:', error);
+      setError(formatApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = report?.totals;
+  const maxDayTokens = Math.max(...(report?.byDay || []).map(day => day.totalTokens), 1);
+
+  const statCards = totals ? [
+    {
+      title: 'Requests',
+      value: totals.requests.toLocaleString(),
+      description: `${totals.failed} failed`,
+      icon: Activity,
+      color: 'text-blue-600',
+      bgColor: 'bg-blue-100'
+    },
+    {
+      title: 'Tokens',
+      value: formatTokens(totals.totalTokens),
+      description: `${formatTokens(totals.promptTokens)} in · ${formatTokens(totals.completionTokens)} out`,
+      icon: Zap,
+      color: 'text-purple-600',
+      bgColor: 'bg-purple-100'
+    },
+    {
+      title: 'Estimated Cost',
+      value: formatCost(totals.costUsd),
+      description: `Last ${report!.days} days`,
+      icon: Coins,
+      color: 'text-green-600',
+      bgColor: 'bg-green-100'
+    },
+    {
+      title: 'Cache Hits',
+      value: totals.cached.toLocaleString(),
+      description: totals.requests > 0 ? `${((totals.cached / totals.requests) * 100).toFixed(1)}% of requests` : 'No requests',
+      icon: Database,
+      color: 'text-teal-600',
+      bgColor: 'bg-teal-100'
+    },
+    {
+      title: 'Over Budget',
+      value: totals.budgetExceeded.toLocaleString(),
+      description: 'Requests refused by a daily budget',
+      icon: Gauge,
+      color: 'text-orange-600',
+      bgColor: 'bg-orange-100'
+    }
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">AI Usage</h1>
+          <p className="text-gray-600 mt-2">Tokens, cost and budgets of the AI assistant and generated UI</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={days.toString()} onValueChange={(value) => setDays(parseInt(value, 10))}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(option => (
+                <SelectItem key={option} value={option.toString()}>Last {option} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={loadReport} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4 text-sm text-red-700">{error}</CardContent>
+        </Card>
+      )}
+
+      {loading && !report ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : report && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {statCards.map(stat => (
+              <Card key={stat.title}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium text-gray-600">{stat.title}</CardTitle>
+                  <div className={`p-2 rounded-full ${stat.bgColor}`}>
+                    <stat.icon className={`h-4 w-4 ${stat.color}`} />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                  <p className="text-xs text-gray-500 mt-1">{stat.description}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Tokens per day */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily Tokens</CardTitle>
+              <CardDescription>Days are in UTC, as are the budget resets</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.byDay.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">No usage in this period</p>
+              ) : (
+                <div className="flex items-end gap-1 h-40">
+                  {report.byDay.map(day => (
+                    <div
+                      key={day.key}
+                      className="flex-1 bg-blue-500 rounded-t hover:bg-blue-600 transition-colors"
+                      style={{ height: `${Math.max((day.totalTokens / maxDayTokens) * 100, 2)}%` }}
+                      title={`${day.key}: ${day.totalTokens.toLocaleString()} tokens, ${day.requests} requests, ${formatCost(day.costUsd)}`}
+                    />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>By Use Case</CardTitle>
+                <CardDescription>Which AI features the tokens went to</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UsageBars rows={report.byUseCase} label={key => USE_CASE_LABELS[key] || key} color="bg-purple-500" />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Model</CardTitle>
+                <CardDescription>Cost is estimated from the configured model pricing</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UsageBars rows={report.byModel} color="bg-green-500" />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Budgets */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily Budgets</CardTitle>
+              <CardDescription>
+                Overall cap: {formatBudget(report.budgets.dailyTokens)}. Callers over a budget get a short notice
+                instead of an AI answer until midnight UTC.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Role</th>
+                      <th className="py-2 pr-4 font-medium">Per user / visitor</th>
+                      <th className="py-2 pr-4 font-medium">Role total</th>
+                      <th className="py-2 pr-4 font-medium">Tokens ({report.days}d)</th>
+                      <th className="py-2 font-medium">Over budget</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.entries(report.budgets.roles).map(([role, budget]) => {
+                      const usage = report.byRole.find(row => row.key === role);
+                      return (
+                        <tr key={role} className="border-b last:border-0">
+                          <td className="py-2 pr-4 font-medium text-gray-900 capitalize">{role}</td>
+                          <td className="py-2 pr-4">{formatBudget(budget.perClient)}</td>
+                          <td className="py-2 pr-4">{formatBudget(budget.total)}</td>
+                          <td className="py-2 pr-4">{formatTokens(usage?.totalTokens || 0)}</td>
+                          <td className="py-2">
+                            {usage?.budgetExceeded ? (
+                              <Badge variant="destructive">{usage.budgetExceeded}</Badge>
+                            ) : (
+                              <span className="text-gray-400">0</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AIUsageDashboard;
@@ -9,7 +9,6 @@ import {
   LogOut, 
   Menu, 
   X,
-  Bell,
   Settings,
   Home,
   MessageSquare,
@@ -18,10 +17,12 @@ import {
   Building2,
   TestTube,
   Globe,
-  Beaker
+  Beaker,
+  BarChart3
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import Logo from '@/components/Logo';
+import NotificationBell from '@/components/admin/NotificationBell';
 
 interface AdminLayoutProps {
   children: React.ReactNode;
@@ -89,6 +90,12 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, currentPage, onPage
       icon: Globe,
       current: currentPage === 'scraper',
     },
+    {
+      name: 'AI Usage',
+      id: 'ai-usage',
+      icon: BarChart3,
+      current: currentPage === 'ai-usage',
+    },
     {
       name: 'Mock Accounts',
       id: 'mock-accounts',
@@ -231,14 +238,9 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, currentPage, onPage
                 <span className="hidden sm:inline">Home</span>
               </Button>
 
-              <Button variant="ghost" size="sm" className="relative">
-                <Bell size={20} />
-                {newInquiriesCount > 0 && (
-                  <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
-                    {newInquiriesCount}
-                  </span>
-                )}
-              </Button>
+              <NotificationBell
+                onNavigate={(link) => onPageChange(link.replace(/^\/admin\/?/, '') || 'dashboard')}
+              />
               
               <div className="text-sm text-gray-600 hidden sm:block">
                 Welcome back, {admin?.name}
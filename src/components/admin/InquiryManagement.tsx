@@ -7,6 +7,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { useAdminStore } from '@/store/adminStore';
 import { CustomerInquiry } from '@/types/admin';
+import { API } from '@/services/apiService';
+import { mapInquiryData } from '@/utils/apiMigrationUtils';
+import InquiryTimeline from './InquiryTimeline';
 import { 
   Search, 
   Filter, 
@@ -23,11 +26,13 @@ import {
   Trash2,
   MoreVertical,
   X,
-  Save
+  Save,
+  History,
+  AlertTriangle
 } from 'lucide-react';
 
 const InquiryManagement: React.FC = () => {
-  const { inquiries, updateInquiry, loadInquiries, addInquiry, deleteInquiry } = useAdminStore();
+  const { inquiries, updateInquiry, loadInquiries, addInquiry, deleteInquiry, setInquiries } = useAdminStore();
 
   // Load inquiries on component mount
   useEffect(() => {
@@ -61,6 +66,7 @@ const InquiryManagement: React.FC = () => {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [inquiryToDelete, setInquiryToDelete] = useState<CustomerInquiry | null>(null);
+  const [expandedInquiryId, setExpandedInquiryId] = useState<string | null>(null);
 
   const filteredInquiries = inquiries.filter(inquiry => {
     const matchesSearch = 
@@ -192,6 +198,32 @@ const InquiryManagement: React.FC = () => {
     }
   };
 
+  // Logging a call/email can satisfy the first-response SLA - pick up the server's view
+  const refreshInquiry = async (inquiryId: string) => {
+    try {
+      const row = await API.inquiries.getById(inquiryId);
+      setInquiries(useAdminStore.getState().inquiries.map(inquiry =>
+        inquiry.id === inquiryId ? mapInquiryData(row) : inquiry
+      ));
+    } catch (error) {
+      console.error('❌ InquiryManagement: Failed to refresh inquiry:', error);
+    }
+  };
+
+  const formatHours = (hours: number) => hours < 1 ? `${Math.round(hours * 60)}m` : `${hours}h`;
+
+  // The SLA target currently at stake: first response until answered, then resolution
+  const getSlaStatus = (inquiry: CustomerInquiry) => {
+    if (!inquiry.sla || inquiry.resolvedAt) return null;
+    const answered = !!inquiry.firstResponseAt;
+    const breached = answered ? inquiry.sla.resolutionBreached : inquiry.sla.firstResponseBreached;
+    const dueAt = answered ? inquiry.sla.resolutionDueAt : inquiry.sla.firstResponseDueAt;
+    return {
+      breached,
+      label: `${answered ? 'Resolution' : 'Response'} ${breached ? 'overdue' : 'due'} ${new Date(dueAt).toLocaleString()}`
+    };
+  };
+
   const getResponseTimeColor = (hours?: number) => {
     if (!hours) return 'text-gray-500';
     if (hours <= 1) return 'text-green-600';
@@ -284,6 +316,19 @@ const InquiryManagement: React.FC = () => {
                         <Badge className={`${getPriorityColor(inquiry.priority)} text-xs`}>
                           {inquiry.priority}
                         </Badge>
+                        {(() => {
+                          const slaStatus = getSlaStatus(inquiry);
+                          if (!slaStatus) return null;
+                          return (
+                            <Badge
+                              className={`${slaStatus.breached ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'} text-xs`}
+                              title={slaStatus.label}
+                            >
+                              {slaStatus.breached && <AlertTriangle size={12} className="mr-1" />}
+                              {slaStatus.breached ? 'SLA breached' : 'Within SLA'}
+                            </Badge>
+                          );
+                        })()}
                       </div>
                       <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
                         {inquiry.company && (
@@ -299,15 +344,37 @@ const InquiryManagement: React.FC = () => {
                         {inquiry.responseTime !== undefined && (
                           <div className="flex items-center">
                             <Clock size={14} className="mr-1" />
-                            <span className={getResponseTimeColor(inquiry.responseTime)}>
-                              Response: {inquiry.responseTime}h
+                            <span className={inquiry.sla?.firstResponseBreached ? 'text-red-600' : getResponseTimeColor(inquiry.responseTime)}>
+                              Response: {formatHours(inquiry.responseTime)}
+                            </span>
+                          </div>
+                        )}
+                        {inquiry.resolutionTime !== undefined && (
+                          <div className="flex items-center">
+                            <CheckCircle size={14} className="mr-1" />
+                            <span className={inquiry.sla?.resolutionBreached ? 'text-red-600' : 'text-gray-600'}>
+                              Resolved in {formatHours(inquiry.resolutionTime)}
                             </span>
                           </div>
                         )}
+                        {inquiry.assignedToName && (
+                          <div className="flex items-center">
+                            <User size={14} className="mr-1" />
+                            <span>{inquiry.assignedToName}</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                     
                     <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        variant={expandedInquiryId === inquiry.id ? 'default' : 'outline'}
+                        onClick={() => setExpandedInquiryId(expandedInquiryId === inquiry.id ? null : inquiry.id)}
+                      >
+                        <History size={14} className="mr-1" />
+                        Activity
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -345,16 +412,27 @@ const InquiryManagement: React.FC = () => {
                     <p className="text-gray-600 text-sm leading-relaxed">{inquiry.message}</p>
                   </div>
 
-                  {/* Notes */}
-                  {inquiry.notes && (
+                  {/* Latest note */}
+                  {inquiry.notes && expandedInquiryId !== inquiry.id && (
                     <div>
-                      <div className="text-sm font-medium text-gray-900 mb-2">Notes:</div>
+                      <div className="text-sm font-medium text-gray-900 mb-2">Latest note:</div>
                       <p className="text-gray-600 text-sm leading-relaxed bg-blue-50 p-3 rounded-lg">
                         {inquiry.notes}
                       </p>
                     </div>
                   )}
 
+                  {/* Activity Timeline */}
+                  {expandedInquiryId === inquiry.id && (
+                    <div>
+                      <div className="text-sm font-medium text-gray-900 mb-2">Activity:</div>
+                      <InquiryTimeline
+                        inquiryId={inquiry.id}
+                        onEventAdded={() => refreshInquiry(inquiry.id)}
+                      />
+                    </div>
+                  )}
+
                   {/* Contact Actions */}
                   <div className="flex items-center justify-between pt-4 border-t border-gray-100">
                     <div className="flex items-center space-x-4">
@@ -704,12 +782,11 @@ const InquiryManagement: React.FC = () => {
                   />
                 </div>
                 <div>
-                  <Label htmlFor="edit-notes">Notes</Label>
+                  <Label htmlFor="edit-notes">Add a note</Label>
                   <Textarea
                     id="edit-notes"
                     name="notes"
-                    defaultValue={selectedInquiry.notes || ''}
-                    placeholder="Internal notes..."
+                    placeholder="Added to the inquiry's activity timeline..."
                     rows={3}
                   />
                 </div>
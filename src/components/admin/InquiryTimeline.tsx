@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { API } from '@/services/apiService';
+import { formatApiError, mapInquiryEventData } from '@/utils/apiMigrationUtils';
+import { InquiryEvent } from '@/types/admin';
+import {
+  ArrowRightLeft,
+  Flag,
+  Inbox,
+  Mail,
+  MessageSquare,
+  Phone,
+  Send,
+  UserCheck
+} from 'lucide-react';
+
+interface InquiryTimelineProps {
+  inquiryId: string;
+  // Called after something is logged, so the list can pick up the new SLA state
+  onEventAdded?: () => void;
+}
+
+type LoggableEventType = 'note' | 'call' | 'email';
+
+const EVENT_ICONS: Record<InquiryEvent['type'], React.ElementType> = {
+  created: Inbox,
+  status_change: ArrowRightLeft,
+  priority_change: Flag,
+  assignment: UserCheck,
+  note: MessageSquare,
+  call: Phone,
+  email: Mail
+};
+
+const formatValue = (value?: string) => value ? value.replace(/_/g, ' ') : 'none';
+
+const describeEvent = (event: InquiryEvent) => {
+  switch (event.type) {
+    case 'created':
+      return 'Inquiry submitted';
+    case 'status_change':
+      return `Status changed from ${formatValue(event.fromValue)} to ${formatValue(event.toValue)}`;
+    case 'priority_change':
+      return `Priority changed from ${formatValue(event.fromValue)} to ${formatValue(event.toValue)}`;
+    case 'assignment':
+      return event.metadata.auto_assigned
+        ? `Auto-assigned (${formatValue(event.metadata.strategy)})`
+        : event.toValue ? 'Reassigned' : 'Unassigned';
+    case 'note':
+      return 'Note added';
+    case 'call': {
+      const direction = event.metadata.direction === 'inbound' ? 'Inbound call' : 'Call';
+      return event.metadata.duration_minutes ? `${direction} (${event.metadata.duration_minutes} min)` : direction;
+    }
+    case 'email':
+      return event.metadata.subject ? `Email: ${event.metadata.subject}` : 'Email sent';
+    default:
+      return event.type;
+  }
+};
+
+/**
+ * Activity history of one inquiry, with a form to log notes, calls and emails
+ */
+const InquiryTimeline: React.FC<InquiryTimelineProps> = ({ inquiryId, onEventAdded }) => {
+  const [events, setEvents] = useState<InquiryEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [eventType, setEventType] = useState<LoggableEventType>('note');
+  const [body, setBody] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEvents = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const rows = await API.inquiries.getEvents(inquiryId);
+        if (!cancelled) setEvents((rows || []).map(mapInquiryEventData));
+      } catch (err) {
+        console.error('❌ InquiryTimeline: Failed to load events:', err);
+        if (!cancelled) setError(formatApiError(err));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [inquiryId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (eventType === 'note' && !body.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const metadata: Record<string, any> = {};
+      if (eventType === 'call' && durationMinutes) {
+        metadata.duration_minutes = parseInt(durationMinutes, 10);
+      }
+      if (eventType !== 'note') {
+        metadata.direction = 'outbound';
+      }
+
+      const row = await API.inquiries.addEvent(inquiryId, {
+        type: eventType,
+        body: body.trim() || undefined,
+        metadata
+      });
+      setEvents(current => [...current, mapInquiryEventData(row)]);
+      setBody('');
+      setDurationMinutes('');
+      onEventAdded?.();
+    } catch (err) {
+      console.error('❌ InquiryTimeline: Failed to log event:', err);
+      setError(formatApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {events.map(event => {
+            const Icon = EVENT_ICONS[event.type] || MessageSquare;
+            return (
+              <li key={event.id} className="ml-5">
+                <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white border border-gray-200 rounded-full">
+                  <Icon size={12} className="text-gray-600" />
+                </span>
+                <div className="text-sm text-gray-900">{describeEvent(event)}</div>
+                {event.body && (
+                  <p className="text-sm text-gray-600 bg-gray-50 p-2 rounded mt-1 whitespace-pre-line">{event.body}</p>
+                )}
+                <div className="text-xs text-gray-500 mt-1">
+                  {event.actorName || 'System'} · {new Date(event.createdAt).toLocaleString()}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <form onSubmit={handleSubmit} className="space-y-2 pt-2 border-t border-gray-100">
+        <div className="flex items-center space-x-2">
+          <select
+            value={eventType}
+            onChange={(e) => setEventType(e.target.value as LoggableEventType)}
+            className="text-sm px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            <option value="note">Note</option>
+            <option value="call">Call</option>
+            <option value="email">Email</option>
+          </select>
+          {eventType === 'call' && (
+            <Input
+              type="number"
+              min={0}
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(e.target.value)}
+              placeholder="Minutes"
+              className="w-28 h-8 text-sm"
+            />
+          )}
+        </div>
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={2000}
+          rows={2}
+          placeholder={eventType === 'note' ? 'Internal note...' : 'Summary (optional)'}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={isSaving || (eventType === 'note' && !body.trim())}>
+            <Send size={14} className="mr-1" />
+            {isSaving ? 'Saving...' : eventType === 'note' ? 'Add note' : `Log ${eventType}`}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default InquiryTimeline;
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useNotificationStore } from '@/store/notificationStore';
+import { AppNotification } from '@/types/notification';
+import { Bell, CheckCheck } from 'lucide-react';
+
+interface NotificationBellProps {
+  // Called with the notification's app path (e.g. /admin/inquiries)
+  onNavigate: (link: string) => void;
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const formatTimeAgo = (createdAt: string) => {
+  const minutes = Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(createdAt).toLocaleDateString();
+};
+
+/**
+ * Admin header bell: unread count (polled) and a dropdown of recent notifications
+ */
+const NotificationBell: React.FC<NotificationBellProps> = ({ onNavigate }) => {
+  const { notifications, unreadCount, isLoading, error, loadUnreadCount, loadNotifications, markRead } = useNotificationStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadUnreadCount();
+    const timer = setInterval(loadUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadUnreadCount]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    if (!isOpen) loadNotifications();
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = (notification: AppNotification) => {
+    if (!notification.readAt) markRead([notification.id]);
+    setIsOpen(false);
+    if (notification.link) onNavigate(notification.link);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button variant="ghost" size="sm" className="relative" onClick={handleToggle} title="Notifications">
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-5 h-5 px-1 flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead()}
+                className="flex items-center text-xs text-primary-600 hover:text-primary-700"
+              >
+                <CheckCheck size={14} className="mr-1" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading && notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">Loading...</p>
+            ) : error ? (
+              <p className="px-4 py-6 text-sm text-red-600 text-center">{error}</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">You're all caught up.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {notifications.map(notification => (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      onClick={() => handleSelect(notification)}
+                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-primary-50/40'}`}
+                    >
+                      <div className="flex items-start justify-between space-x-2">
+                        <span className={`text-sm ${notification.readAt ? 'text-gray-700' : 'text-gray-900 font-medium'}`}>
+                          {notification.title}
+                        </span>
+                        {!notification.readAt && <span className="mt-1.5 w-2 h-2 rounded-full bg-primary-600 flex-shrink-0" />}
+                      </div>
+                      {notification.body && (
+                        <p className="text-xs text-gray-500 mt-1 line-clamp-2 whitespace-pre-line">{notification.body}</p>
+                      )}
+                      <span className="text-xs text-gray-400 mt-1 block">{formatTimeAgo(notification.createdAt)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
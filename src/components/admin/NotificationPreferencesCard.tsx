@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useNotificationStore } from '@/store/notificationStore';
+import { NotificationChannel, NotificationEvent } from '@/types/notification';
+import { Bell } from 'lucide-react';
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  'inquiry.created': 'New inquiry',
+  'inquiry.assigned': 'Inquiry assigned to me',
+  'testimonial.pending': 'Testimonial awaiting review',
+  'scraper.import_completed': 'Scraper import finished'
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  email: 'Email',
+  webhook: 'Webhook'
+};
+
+/**
+ * The signed-in admin's notification channels per event, and their outgoing webhook
+ */
+const NotificationPreferencesCard: React.FC = () => {
+  const { preferences, error, loadPreferences, updatePreferences } = useNotificationStore();
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [isSavingWebhook, setIsSavingWebhook] = useState(false);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  useEffect(() => {
+    setWebhookUrl(preferences?.webhookUrl || '');
+  }, [preferences?.webhookUrl]);
+
+  const handleToggle = (event: NotificationEvent, channel: NotificationChannel, enabled: boolean) => {
+    updatePreferences({ events: { [event]: { [channel]: enabled } } });
+  };
+
+  const handleSaveWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingWebhook(true);
+    const saved = await updatePreferences({
+      webhookUrl: webhookUrl.trim() || null,
+      // Leave the stored secret alone unless a new one was typed
+      ...(webhookSecret ? { webhookSecret } : {})
+    });
+    if (saved) setWebhookSecret('');
+    setIsSavingWebhook(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Bell className="w-5 h-5 text-orange-600" />
+          <CardTitle>Notifications</CardTitle>
+        </div>
+        <CardDescription>
+          How you hear about new inquiries, assignments, testimonials and scraper imports
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!preferences ? (
+          <p className="text-sm text-gray-500">{error || 'Loading preferences...'}</p>
+        ) : (
+          <div className="space-y-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium pb-2">Event</th>
+                  {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                    <th key={channel} className="font-medium pb-2 text-center">{CHANNEL_LABELS[channel]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(EVENT_LABELS) as NotificationEvent[]).map(event => (
+                  <tr key={event} className="border-t border-gray-100">
+                    <td className="py-2">{EVENT_LABELS[event]}</td>
+                    {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                      <td key={channel} className="py-2 text-center">
+                        <Checkbox
+                          checked={!!preferences.events[event]?.[channel]}
+                          disabled={channel === 'webhook' && !preferences.webhookUrl}
+                          onCheckedChange={(checked) => handleToggle(event, channel, checked === true)}
+                          aria-label={`${EVENT_LABELS[event]} by ${CHANNEL_LABELS[channel]}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <form onSubmit={handleSaveWebhook} className="space-y-3 pt-4 border-t border-gray-100">
+              <div className="space-y-1">
+                <Label htmlFor="notification-webhook-url">Webhook URL</Label>
+                <Input
+                  id="notification-webhook-url"
+                  type="url"
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                  placeholder="https://hooks.slack.com/services/..."
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="notification-webhook-secret">Signing secret (optional)</Label>
+                <Input
+                  id="notification-webhook-secret"
+                  type="password"
+                  value={webhookSecret}
+                  onChange={(e) => setWebhookSecret(e.target.value)}
+                  placeholder={preferences.webhookSecretSet ? 'Secret set - type to replace' : 'At least 8 characters'}
+                  minLength={8}
+                />
+                <p className="text-xs text-gray-500">
+                  Requests are signed with an X-Notification-Signature header (HMAC-SHA256) when a secret is set.
+                </p>
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <div className="flex justify-end">
+                <Button type="submit" size="sm" disabled={isSavingWebhook}>
+                  {isSavingWebhook ? 'Saving...' : 'Save webhook'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferencesCard;
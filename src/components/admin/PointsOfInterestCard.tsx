@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PoiCategory, PoiImportSummary, PoiSourceStats } from '@/types/poi';
+import { API } from '@/services/apiService';
+import { formatApiError, mapPoiImportSummaryData, mapPoiStatsData } from '@/utils/apiMigrationUtils';
+import { POI_CATEGORIES, POI_CATEGORY_LABELS } from '@/lib/poiUtils';
+import { MapPinned, Trash2 } from 'lucide-react';
+
+/**
+ * Imports metro stations, restaurants, hospitals, gyms, banks and bus stops that feed the
+ * property "Commute & Neighbourhood" section and the Amenity Explorer
+ */
+const PointsOfInterestCard: React.FC = () => {
+  const [sources, setSources] = useState<PoiSourceStats[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState('');
+  const [fallbackCategory, setFallbackCategory] = useState<PoiCategory | ''>('');
+  const [summary, setSummary] = useState<PoiImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const loadStats = async () => {
+    try {
+      setSources(mapPoiStatsData(await API.pois.getStats()));
+    } catch (error) {
+      console.error('Error loading points of interest:', error);
+      setError(formatApiError(error));
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    setSummary(null);
+    try {
+      const result = await API.pois.import(file, {
+        source: source.trim() || undefined,
+        category: fallbackCategory || undefined
+      });
+      setSummary(mapPoiImportSummaryData(result));
+      setFile(null);
+      if (fileInput.current) fileInput.current.value = '';
+      await loadStats();
+    } catch (error) {
+      console.error('Error importing points of interest:', error);
+      setError(formatApiError(error));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (sourceName: string) => {
+    if (!window.confirm(`Remove every place imported as "${sourceName}"?`)) return;
+
+    try {
+      await API.pois.deleteSource(sourceName);
+      await loadStats();
+    } catch (error) {
+      console.error('Error deleting points of interest:', error);
+      setError(formatApiError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <MapPinned className="w-5 h-5 text-rose-600" />
+          <CardTitle>Nearby Places</CardTitle>
+        </div>
+        <CardDescription>
+          Import a GeoJSON FeatureCollection or an OpenStreetMap (Overpass JSON) extract. Importing
+          the same source again updates it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sources === null ? (
+          <p className="text-sm text-gray-500">{error || 'Loading nearby places...'}</p>
+        ) : sources.length === 0 ? (
+          <p className="text-sm text-gray-500">No places imported yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {sources.map(stats => (
+              <div key={stats.source} className="flex items-start justify-between text-sm border rounded p-2">
+                <div>
+                  <div className="font-medium">{stats.source}</div>
+                  <div className="text-xs text-gray-500">
+                    {POI_CATEGORIES.filter(category => stats.counts[category])
+                      .map(category => `${POI_CATEGORY_LABELS[category]}: ${stats.counts[category]}`)
+                      .join(' · ')}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    Updated {new Date(stats.lastImportedAt).toLocaleDateString('en-IN')}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(stats.source)} title="Remove source">
+                  <Trash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleImport} className="space-y-3 border-t pt-4">
+          <div className="space-y-1">
+            <Label htmlFor="poi-file">File (.geojson or .json)</Label>
+            <Input
+              id="poi-file"
+              ref={fileInput}
+              type="file"
+              accept=".json,.geojson,application/json,application/geo+json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="poi-source">Source name</Label>
+              <Input
+                id="poi-source"
+                placeholder="e.g. osm-bengaluru"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Defaults to the file format</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="poi-category">Untagged places are</Label>
+              <select
+                id="poi-category"
+                value={fallbackCategory}
+                onChange={(e) => setFallbackCategory(e.target.value as PoiCategory | '')}
+                className="w-full h-10 text-sm border rounded-md px-2"
+              >
+                <option value="">Skipped</option>
+                {POI_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{POI_CATEGORY_LABELS[category]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {error && sources !== null && <p className="text-sm text-red-600">{error}</p>}
+          {summary && (
+            <p className="text-sm text-green-700">
+              {summary.inserted} added and {summary.updated} updated from {summary.received} {summary.format === 'osm' ? 'elements' : 'features'}
+              {summary.skipped.noCategory + summary.skipped.noCoordinates + summary.skipped.duplicate > 0 && (
+                <> ({summary.skipped.noCategory} without a known category, {summary.skipped.noCoordinates} without coordinates, {summary.skipped.duplicate} duplicates skipped)</>
+              )}
+            </p>
+          )}
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={!file || isImporting}>
+              {isImporting ? 'Importing...' : 'Import places'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PointsOfInterestCard;
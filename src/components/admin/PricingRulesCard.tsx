@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PricingRules } from '@/types/pricing';
+import { API } from '@/services/apiService';
+import { formatApiError, mapPricingRulesData, toPricingRulesPayload } from '@/utils/apiMigrationUtils';
+import { IndianRupee } from 'lucide-react';
+
+const RULE_FIELDS: Array<{ key: keyof PricingRules; label: string; hint: string; step?: number }> = [
+  { key: 'depositMonths', label: 'Security deposit (months)', hint: 'Months of base rent held as deposit', step: 0.5 },
+  { key: 'maintenancePercent', label: 'Maintenance (%)', hint: 'Of base rent, every month' },
+  { key: 'escalationPercent', label: 'Yearly escalation (%)', hint: 'Rent increase each lease year' },
+  { key: 'gstPercent', label: 'GST (%)', hint: 'On rent, maintenance and per-seat charges' },
+  { key: 'sqftPerSeat', label: 'Sqft per seat', hint: 'Turns listing rent per sqft into rent per seat' },
+  { key: 'utilitiesPerSeat', label: 'Utilities per seat (₹)', hint: 'Monthly' },
+  { key: 'amenitiesPerSeat', label: 'Amenities per seat (₹)', hint: 'Monthly' },
+  { key: 'fallbackRatePerSeat', label: 'Fallback rent per seat (₹)', hint: 'Used when no listings are comparable' },
+  { key: 'minComparables', label: 'Minimum comparables', hint: 'Below this the quote widens to the whole city', step: 1 }
+];
+
+/**
+ * Rules the budget calculator applies on top of the rates derived from listing prices
+ */
+const PricingRulesCard: React.FC = () => {
+  const [rules, setRules] = useState<PricingRules | null>(null);
+  const [draft, setDraft] = useState<Partial<Record<keyof PricingRules, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setRules(mapPricingRulesData(await API.pricing.getRules()));
+    } catch (error) {
+      console.error('Error loading pricing rules:', error);
+      setError(formatApiError(error));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rules) return;
+
+    // Only the fields that were changed
+    const changes: Partial<PricingRules> = {};
+    (Object.entries(draft) as Array<[keyof PricingRules, string]>).forEach(([key, value]) => {
+      const parsed = parseFloat(value);
+      if (!Number.isNaN(parsed) && parsed !== rules[key]) changes[key] = parsed;
+    });
+    if (Object.keys(changes).length === 0) {
+      setDraft({});
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      setRules(mapPricingRulesData(await API.pricing.updateRules(toPricingRulesPayload(changes))));
+      setDraft({});
+    } catch (error) {
+      console.error('Error saving pricing rules:', error);
+      setError(formatApiError(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <IndianRupee className="w-5 h-5 text-green-600" />
+          <CardTitle>Budget Calculator Pricing</CardTitle>
+        </div>
+        <CardDescription>
+          Rents come from listing prices per micro-market; these rules turn them into quotes
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!rules ? (
+          <p className="text-sm text-gray-500">{error || 'Loading pricing rules...'}</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {RULE_FIELDS.map(({ key, label, hint, step }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`pricing-rule-${key}`}>{label}</Label>
+                  <Input
+                    id={`pricing-rule-${key}`}
+                    type="number"
+                    min={0}
+                    step={step ?? 'any'}
+                    value={draft[key] ?? rules[key].toString()}
+                    onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                  />
+                  <p className="text-xs text-gray-500">{hint}</p>
+                </div>
+              ))}
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              {Object.keys(draft).length > 0 && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setDraft({})}>
+                  Discard
+                </Button>
+              )}
+              <Button type="submit" size="sm" disabled={isSaving || Object.keys(draft).length === 0}>
+                {isSaving ? 'Saving...' : 'Save rules'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PricingRulesCard;
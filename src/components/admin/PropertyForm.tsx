@@ -8,12 +8,14 @@ import { Badge } from '@/components/ui/badge';
 import { FileUpload } from '@/components/ui/file-upload';
 import LocationInput from '@/components/ui/LocationInput';
 import { useAdminStore } from '@/store/adminStore';
-import { Property, PropertyCategory, PropertyMedia, PropertyTag } from '@/types/property';
+import { Property, PropertyCategory, PropertyMedia, PropertyMediaKind, PropertyTag } from '@/types/property';
 import type { LocationData } from '@/types/property';
-import { UploadService } from '@/services/uploadService';
+import { UploadService, type UploadResult } from '@/services/uploadService';
 import { API } from '@/services/apiService';
+import { mapTagData } from '@/utils/apiMigrationUtils';
+import { getMediaKind, MEDIA_KIND_LABELS, sortGallery } from '@/lib/mediaUtils';
 import { v4 as uuidv4 } from 'uuid';
-import { ArrowLeft, Plus, X, Upload, Trash2, Map, MapPin, Target } from 'lucide-react';
+import { ArrowLeft, Plus, X, Upload, Trash2, Map, MapPin, Target, GripVertical, ArrowUp, ArrowDown, Star, FileText } from 'lucide-react';
 import { Environment } from '@/config/environment';
 
 interface PropertyFormProps {
@@ -71,6 +73,10 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
   const [newAmenity, setNewAmenity] = useState('');
   const [selectedImageFiles, setSelectedImageFiles] = useState<File[]>([]);
   const [selectedVideoFiles, setSelectedVideoFiles] = useState<File[]>([]);
+  const [selectedFloorPlanFiles, setSelectedFloorPlanFiles] = useState<File[]>([]);
+  const [selectedPanoramaFiles, setSelectedPanoramaFiles] = useState<File[]>([]);
+  const [selectedDocumentFiles, setSelectedDocumentFiles] = useState<File[]>([]);
+  const [draggedMediaIndex, setDraggedMediaIndex] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [locationInput, setLocationInput] = useState('');
   const [coordinatesInput, setCoordinatesInput] = useState({ lat: '', lng: '' });
@@ -81,7 +87,7 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
       try {
         setLoadingTags(true);
         const tags = await API.getAllTags();
-        setAvailableTags(tags);
+        setAvailableTags(tags.map(mapTagData));
       } catch (error) {
         console.error('Error loading tags:', error);
       } finally {
@@ -106,7 +112,7 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
         price: property.price || { amount: 0, period: 'monthly' },
         size: property.size,
         images: property.images || [],
-        media: property.media || [],
+        media: sortGallery(property.media || []),
         amenities: property.amenities,
         availability: property.availability,
         features: property.features,
@@ -188,8 +194,6 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
     
     console.log('🚀 PropertyForm.handleSubmit called');
     console.log('📝 Form data:', formData);
-    console.log('🖼️ Selected image files:', selectedImageFiles.length);
-    console.log('🎥 Selected video files:', selectedVideoFiles.length);
     console.log('✏️ Is editing:', isEditing);
     
     // Auth is handled by admin store and service - no need for explicit checks here
@@ -202,7 +206,9 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
       
       // Upload selected files first
       let uploadedMedia: PropertyMedia[] = [];
-      if (selectedImageFiles.length > 0 || selectedVideoFiles.length > 0) {
+      const selectedFileCount = selectedImageFiles.length + selectedVideoFiles.length + selectedFloorPlanFiles.length +
+        selectedPanoramaFiles.length + selectedDocumentFiles.length;
+      if (selectedFileCount > 0) {
         console.log('📤 Uploading files before property creation...');
         uploadedMedia = await uploadSelectedFiles();
         console.log('✅ Files uploaded successfully:', uploadedMedia.length);
@@ -222,18 +228,17 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
       if (isEditing && property) {
         console.log('📝 Updating existing property:', property.id);
         await updateProperty(property.id, finalFormData);
+        await saveGallery(property.id, allMedia);
         
-        // Update tag assignments
-        if (finalFormData.customTags && finalFormData.customTags.length > 0) {
-          const tagIds = finalFormData.customTags.map(tag => tag.id);
-          await API.assignTagsToProperty(property.id, tagIds);
-          console.log('✅ Tags assigned to property');
-        }
+        // Replace tag assignments (an empty list clears removed tags)
+        const tagIds = (finalFormData.customTags || []).map(tag => tag.id);
+        await API.assignTagsToProperty(property.id, tagIds);
         
         console.log('✅ Property updated successfully');
       } else {
         console.log('🆕 Creating new property');
         const newProperty = await addProperty(finalFormData);
+        await saveGallery(newProperty.id, allMedia);
         
         // Assign tags to new property
         if (finalFormData.customTags && finalFormData.customTags.length > 0 && newProperty?.id) {
@@ -302,6 +307,33 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
     setSelectedVideoFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Floor plans, panoramas and documents are uploaded with their kind set
+  const handleFloorPlanFilesSelected = (files: File[]) => {
+    setSelectedFloorPlanFiles(prev => [...prev, ...files]);
+  };
+
+  const handleRemoveFloorPlanFile = (index: number) => {
+    setSelectedFloorPlanFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handlePanoramaFilesSelected = (files: File[]) => {
+    setSelectedPanoramaFiles(prev => [...prev, ...files]);
+  };
+
+  const handleRemovePanoramaFile = (index: number) => {
+    setSelectedPanoramaFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleDocumentFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    setSelectedDocumentFiles(prev => [...prev, ...files]);
+    e.target.value = '';
+  };
+
+  const handleRemoveDocumentFile = (index: number) => {
+    setSelectedDocumentFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
   // Remove existing media item (with storage cleanup)
   const handleRemoveExistingMedia = async (mediaId: string) => {
     console.log('🗑️ PropertyForm.handleRemoveExistingMedia:', mediaId);
@@ -318,21 +350,21 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
       console.log('📄 Media item to remove:', mediaItem);
 
       // If this is an existing media item with a database ID, delete from database + storage
-      if (mediaId && !mediaId.startsWith('temp-')) {
+      if (property && !mediaId.startsWith('temp-')) {
         console.log('🗑️ Deleting existing media from database + storage...');
         
         // Call service to delete from database and storage
-        await API.deletePropertyMedia(mediaId);
+        await API.deletePropertyMedia(property.id, mediaId);
         console.log('✅ Media deleted from database + storage successfully');
         
       } else {
         console.log('🗑️ Removing temporary/new media from form only...');
         
         // For new media items (uploaded but not yet saved), try to clean up storage
-        if (mediaItem.url && !mediaItem.url.startsWith('/images/properties/')) {
+        if (mediaItem.path) {
           try {
             console.log('🧹 Attempting cleanup of temporary uploaded file...');
-            await UploadService.deletePropertyMediaFile(mediaItem.url);
+            await UploadService.deleteFile(mediaItem.path);
             console.log('✅ Temporary file cleanup successful');
           } catch (cleanupError) {
             console.warn('⚠️ Temporary file cleanup failed (non-critical):', cleanupError);
@@ -357,61 +389,45 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
     }
   };
 
-  // Upload files and update form data
+  // Media fields from an upload result, including the backend-generated poster/variants
+  const toMediaFields = (result: UploadResult & { duration?: number }) => ({
+    url: result.url,
+    path: result.path,
+    filename: result.filename,
+    size: result.size,
+    ...(result.thumbnailUrl ? { thumbnailUrl: result.thumbnailUrl } : {}),
+    ...(result.duration !== undefined ? { duration: result.duration } : {}),
+    ...(result.width ? { width: result.width, height: result.height } : {}),
+    ...(result.srcset ? { srcset: result.srcset } : {})
+  });
+
+  // Upload files and update form data; new items get "temp-" ids until the gallery is saved
   const uploadSelectedFiles = async (): Promise<PropertyMedia[]> => {
     const uploadedMedia: PropertyMedia[] = [];
-    
-    // Upload images
-    if (selectedImageFiles.length > 0) {
-      console.log('📤 Uploading images:', selectedImageFiles.length);
-      
-      for (const file of selectedImageFiles) {
-        try {
-          console.log('📤 Uploading image:', file.name);
-          const result = await UploadService.uploadFile(file, 'image');
-          
-          const mediaItem: PropertyMedia = {
-            id: uuidv4(),
-            type: 'image',
-            url: result.url,
-            filename: result.filename,
-            size: result.size,
-            createdAt: new Date().toISOString()
-          };
-          
-          uploadedMedia.push(mediaItem);
-          console.log('✅ Image uploaded successfully:', file.name);
-          
-        } catch (error) {
-          console.error('❌ Image upload failed:', error);
-          throw error;
-        }
-      }
-    }
+    const batches: { files: File[]; kind: PropertyMediaKind; type: PropertyMedia['type'] }[] = [
+      { files: selectedImageFiles, kind: 'photo', type: 'image' },
+      { files: selectedFloorPlanFiles, kind: 'floor_plan', type: 'image' },
+      { files: selectedPanoramaFiles, kind: 'panorama', type: 'image' },
+      { files: selectedVideoFiles, kind: 'video', type: 'video' },
+      { files: selectedDocumentFiles, kind: 'document', type: 'document' }
+    ];
 
-    // Upload videos
-    if (selectedVideoFiles.length > 0) {
-      console.log('📤 Uploading videos:', selectedVideoFiles.length);
-      
-      for (const file of selectedVideoFiles) {
+    for (const { files, kind, type } of batches) {
+      if (files.length === 0) continue;
+
+      for (const file of files) {
         try {
-          console.log('📤 Uploading video:', file.name);
-          const result = await UploadService.uploadFile(file, 'video');
-          
-          const mediaItem: PropertyMedia = {
-            id: uuidv4(),
-            type: 'video',
-            url: result.url,
-            filename: result.filename,
-            size: result.size,
+          const result = await UploadService.uploadFile(file, type);
+
+          uploadedMedia.push({
+            id: `temp-${uuidv4()}`,
+            type,
+            kind,
+            ...toMediaFields(result),
             createdAt: new Date().toISOString()
-          };
-          
-          uploadedMedia.push(mediaItem);
-          console.log('✅ Video uploaded successfully:', file.name);
-          
+          });
         } catch (error) {
-          console.error('❌ Video upload failed:', error);
+          console.error('❌ Upload failed:', error);
           throw error;
         }
       }
@@ -420,6 +436,98 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
     return uploadedMedia;
   };
 
+  // Gallery fields the API stores for a new item
+  const toGalleryItem = (mediaItem: PropertyMedia) => ({
+    kind: getMediaKind(mediaItem),
+    url: mediaItem.url,
+    filename: mediaItem.filename,
+    size: mediaItem.size,
+    ...(mediaItem.thumbnailUrl ? { thumbnailUrl: mediaItem.thumbnailUrl } : {}),
+    ...(mediaItem.srcset ? { srcset: mediaItem.srcset } : {}),
+    ...(mediaItem.path ? { path: mediaItem.path } : {}),
+    ...(mediaItem.width ? { width: mediaItem.width, height: mediaItem.height } : {}),
+    ...(mediaItem.duration !== undefined ? { duration: mediaItem.duration } : {}),
+    ...(mediaItem.caption ? { caption: mediaItem.caption } : {}),
+    ...(mediaItem.altText ? { altText: mediaItem.altText } : {})
+  });
+
+  // Bring the stored gallery in line with the editor: add new uploads, then kinds/captions, order and cover
+  const saveGallery = async (propertyId: string, media: PropertyMedia[]) => {
+    let rows = await API.properties.media.list(propertyId);
+    const savedIds = new Set(rows.map(row => row.id));
+    // Editor id -> gallery id
+    const finalIds: Record<string, string> = {};
+    media.filter(item => savedIds.has(item.id)).forEach(item => { finalIds[item.id] = item.id; });
+
+    const newItems = media.filter(item => item.id.startsWith('temp-'));
+    if (newItems.length > 0) {
+      rows = await API.properties.media.add(propertyId, newItems.map(toGalleryItem));
+      // Added items come back at the end of the gallery, in the order they were sent
+      const addedRows = rows.filter(row => !savedIds.has(row.id));
+      newItems.forEach((item, index) => {
+        if (addedRows[index]) finalIds[item.id] = addedRows[index].id;
+      });
+    }
+
+    for (const item of media) {
+      const row = rows.find(r => r.id === item.id);
+      if (!row) continue;
+      const changes = {
+        ...(getMediaKind(item) !== row.kind ? { kind: getMediaKind(item) } : {}),
+        ...((item.caption || null) !== row.caption ? { caption: item.caption || null } : {}),
+        ...((item.altText || null) !== row.alt_text ? { altText: item.altText || null } : {})
+      };
+      if (Object.keys(changes).length > 0) {
+        rows = await API.properties.media.update(propertyId, item.id, changes);
+      }
+    }
+
+    // Items the editor does not know about (e.g. added elsewhere meanwhile) keep their place at the end
+    const orderedIds = media.map(item => finalIds[item.id]).filter((id): id is string => !!id);
+    const order = [...orderedIds, ...rows.map(row => row.id).filter(id => !orderedIds.includes(id))];
+    if (order.join() !== rows.map(row => row.id).join()) {
+      rows = await API.properties.media.reorder(propertyId, order);
+    }
+
+    const cover = media.find(item => item.isCover);
+    const coverId = cover && finalIds[cover.id];
+    if (coverId && !rows.find(row => row.id === coverId)?.is_cover) {
+      await API.properties.media.update(propertyId, coverId, { isCover: true });
+    }
+  };
+
+  // Gallery editor: drag (or the arrow buttons) to reorder
+  const moveMedia = (from: number, to: number) => {
+    if (to < 0 || to >= formData.media.length || from === to) return;
+    setFormData(prev => {
+      const media = [...prev.media];
+      const [moved] = media.splice(from, 1);
+      media.splice(to, 0, moved);
+      return { ...prev, media };
+    });
+  };
+
+  const handleMediaDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedMediaIndex === null || draggedMediaIndex === index) return;
+    moveMedia(draggedMediaIndex, index);
+    setDraggedMediaIndex(index);
+  };
+
+  const updateMediaItem = (mediaId: string, changes: Partial<PropertyMedia>) => {
+    setFormData(prev => ({
+      ...prev,
+      media: prev.media.map(m => (m.id === mediaId ? { ...m, ...changes } : m))
+    }));
+  };
+
+  const handleSetCover = (mediaId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      media: prev.media.map(m => ({ ...m, isCover: m.id === mediaId }))
+    }));
+  };
+
   // Tag management functions
   const handleTagSelect = (tag: PropertyTag) => {
     const isSelected = formData.customTags.some(t => t.id === tag.id);
@@ -937,7 +1045,7 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
         <Card>
           <CardHeader>
             <CardTitle>Property Media</CardTitle>
-            <CardDescription>Upload property images and videos</CardDescription>
+            <CardDescription>Upload images, videos, floor plans and documents, and arrange the gallery</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
             {/* Image Upload Section */}
@@ -968,70 +1076,201 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
               />
             </div>
 
-            {/* Existing Media Display */}
+            {/* Floor Plan and Panorama Upload Section */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <Label className="text-base font-medium">Floor Plans</Label>
+                <p className="text-sm text-gray-500 mb-3">Shown in their own tab on the listing</p>
+                <FileUpload
+                  onFilesSelected={handleFloorPlanFilesSelected}
+                  onFileRemove={handleRemoveFloorPlanFile}
+                  acceptedTypes="image"
+                  maxFiles={5}
+                  maxFileSize={10}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div>
+                <Label className="text-base font-medium">360° Panoramas</Label>
+                <p className="text-sm text-gray-500 mb-3">Equirectangular images, panned in the gallery</p>
+                <FileUpload
+                  onFilesSelected={handlePanoramaFilesSelected}
+                  onFileRemove={handleRemovePanoramaFile}
+                  acceptedTypes="image"
+                  maxFiles={5}
+                  maxFileSize={10}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            {/* Document Upload Section */}
+            <div>
+              <Label htmlFor="property-documents" className="text-base font-medium">Documents</Label>
+              <p className="text-sm text-gray-500 mb-3">Brochures and other PDFs (up to 20MB each)</p>
+              <Input
+                id="property-documents"
+                type="file"
+                accept="application/pdf"
+                multiple
+                onChange={handleDocumentFilesSelected}
+                disabled={isSubmitting}
+              />
+              {selectedDocumentFiles.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {selectedDocumentFiles.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center text-sm text-gray-600">
+                      <FileText className="w-4 h-4 mr-2" />
+                      <span className="truncate">{file.name}</span>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="ml-auto h-6 w-6 p-0"
+                        onClick={() => handleRemoveDocumentFile(index)}
+                        disabled={isSubmitting}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Gallery Editor */}
             {formData.media.length > 0 && (
               <div>
-                <Label className="text-base font-medium">Current Property Media</Label>
-                <p className="text-sm text-gray-500 mb-3">Existing images and videos for this property</p>
-                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                  {formData.media.map((mediaItem) => (
-                    <Card key={mediaItem.id} className="relative overflow-hidden">
-                      <div className="aspect-square relative">
-                        {mediaItem.type === 'image' ? (
-                          <img
-                            src={mediaItem.url}
-                            alt={mediaItem.filename}
-                            className="w-full h-full object-cover"
-                          />
-                        ) : (
-                          <div className="w-full h-full bg-gray-100 flex items-center justify-center relative">
-                            {mediaItem.thumbnailUrl ? (
-                              <img
-                                src={mediaItem.thumbnailUrl}
-                                alt="Video thumbnail"
-                                className="w-full h-full object-cover"
-                              />
-                            ) : (
-                              <div className="text-gray-400 text-center">
-                                <Upload className="w-8 h-8 mx-auto mb-1" />
-                                <p className="text-xs">Video</p>
-                              </div>
-                            )}
-                            <div className="absolute inset-0 bg-black bg-opacity-30 flex items-center justify-center">
-                              <Upload className="w-6 h-6 text-white" />
+                <Label className="text-base font-medium">Gallery</Label>
+                <p className="text-sm text-gray-500 mb-3">
+                  Drag to reorder. The cover leads the listing card; new uploads join the end of the gallery when you save.
+                </p>
+                <ul className="space-y-2">
+                  {formData.media.map((mediaItem, index) => {
+                    const kind = getMediaKind(mediaItem);
+                    return (
+                      <li
+                        key={mediaItem.id}
+                        draggable={!isSubmitting}
+                        onDragStart={() => setDraggedMediaIndex(index)}
+                        onDragOver={(e) => handleMediaDragOver(e, index)}
+                        onDragEnd={() => setDraggedMediaIndex(null)}
+                        className={`flex items-start gap-3 rounded-lg border bg-white p-2 ${
+                          draggedMediaIndex === index ? 'opacity-50 border-primary-400' : ''
+                        }`}
+                      >
+                        <div className="flex flex-col items-center gap-1 pt-1 text-gray-400">
+                          <GripVertical className="w-4 h-4 cursor-grab" aria-hidden="true" />
+                          <button
+                            type="button"
+                            onClick={() => moveMedia(index, index - 1)}
+                            disabled={isSubmitting || index === 0}
+                            className="hover:text-gray-700 disabled:opacity-30"
+                            title="Move up"
+                          >
+                            <ArrowUp className="w-3 h-3" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveMedia(index, index + 1)}
+                            disabled={isSubmitting || index === formData.media.length - 1}
+                            className="hover:text-gray-700 disabled:opacity-30"
+                            title="Move down"
+                          >
+                            <ArrowDown className="w-3 h-3" />
+                          </button>
+                        </div>
+
+                        <div className="relative w-28 h-20 shrink-0 overflow-hidden rounded bg-gray-100">
+                          {kind === 'document' ? (
+                            <div className="w-full h-full flex flex-col items-center justify-center text-gray-400">
+                              <FileText className="w-6 h-6" />
+                              <span className="text-xs">PDF</span>
                             </div>
-                          </div>
-                        )}
-                        
-                        {/* Remove Button */}
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="absolute top-1 right-1 w-6 h-6 p-0 bg-white hover:bg-gray-50"
-                          onClick={() => {
-                            // Handle async media deletion
-                            handleRemoveExistingMedia(mediaItem.id).catch(error => {
-                              console.error('❌ Failed to remove media:', error);
-                            });
-                          }}
-                          type="button"
-                          disabled={isSubmitting}
-                        >
-                          <Trash2 className="w-3 h-3" />
-                        </Button>
-                      </div>
-                      
-                      <div className="p-2">
-                        <p className="text-xs text-gray-600 truncate" title={mediaItem.filename}>
-                          {mediaItem.filename}
-                        </p>
-                        <p className="text-xs text-gray-400">
-                          {(mediaItem.size / 1024 / 1024).toFixed(1)} MB
-                        </p>
-                      </div>
-                    </Card>
-                  ))}
-                </div>
+                          ) : mediaItem.thumbnailUrl || mediaItem.type === 'image' ? (
+                            <img
+                              src={mediaItem.thumbnailUrl || mediaItem.url}
+                              alt={mediaItem.altText || mediaItem.filename}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center text-gray-400">
+                              <Upload className="w-6 h-6" />
+                            </div>
+                          )}
+                          {mediaItem.isCover && (
+                            <Badge className="absolute bottom-1 left-1 px-1 py-0 text-[10px]">Cover</Badge>
+                          )}
+                        </div>
+
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2">
+                          {mediaItem.type === 'image' ? (
+                            <select
+                              value={kind}
+                              onChange={(e) => updateMediaItem(mediaItem.id, { kind: e.target.value as PropertyMediaKind })}
+                              disabled={isSubmitting}
+                              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                              aria-label="Media kind"
+                            >
+                              {(['photo', 'floor_plan', 'panorama'] as PropertyMediaKind[]).map(option => (
+                                <option key={option} value={option}>{MEDIA_KIND_LABELS[option]}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <div className="h-9 flex items-center text-sm text-gray-600">{MEDIA_KIND_LABELS[kind]}</div>
+                          )}
+                          <Input
+                            value={mediaItem.caption || ''}
+                            onChange={(e) => updateMediaItem(mediaItem.id, { caption: e.target.value })}
+                            placeholder="Caption"
+                            maxLength={500}
+                            disabled={isSubmitting}
+                          />
+                          <Input
+                            value={mediaItem.altText || ''}
+                            onChange={(e) => updateMediaItem(mediaItem.id, { altText: e.target.value })}
+                            placeholder="Alt text (describe the image)"
+                            maxLength={300}
+                            disabled={isSubmitting || kind === 'document'}
+                          />
+                          <p className="md:col-span-3 text-xs text-gray-400 truncate" title={mediaItem.filename}>
+                            {mediaItem.filename} · {(mediaItem.size / 1024 / 1024).toFixed(1)} MB
+                          </p>
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="w-7 h-7 p-0"
+                            onClick={() => handleSetCover(mediaItem.id)}
+                            type="button"
+                            disabled={isSubmitting || kind === 'document'}
+                            title={mediaItem.isCover ? 'Cover image' : 'Make cover'}
+                          >
+                            <Star className={`w-3 h-3 ${mediaItem.isCover ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="w-7 h-7 p-0"
+                            onClick={() => {
+                              // Handle async media deletion
+                              handleRemoveExistingMedia(mediaItem.id).catch(error => {
+                                console.error('❌ Failed to remove media:', error);
+                              });
+                            }}
+                            type="button"
+                            disabled={isSubmitting}
+                            title="Remove"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
               </div>
             )}
           </CardContent>
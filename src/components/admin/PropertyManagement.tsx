@@ -3,9 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useAdminStore } from '@/store/adminStore';
 import { API } from '@/services/apiService';
-import { Property } from '@/types/property';
+import { mapPropertiesData, mapTagData } from '@/utils/apiMigrationUtils';
+import { Property, PropertyTag } from '@/types/property';
 import { 
   Plus, 
   Search, 
@@ -15,7 +17,8 @@ import {
   MapPin, 
   IndianRupee,
   Square,
-  Calendar
+  Calendar,
+  Tag
 } from 'lucide-react';
 import PropertyForm from './PropertyForm';
 
@@ -26,6 +29,10 @@ const PropertyManagement: React.FC = () => {
   const [editingProperty, setEditingProperty] = useState<Property | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [availableTags, setAvailableTags] = useState<PropertyTag[]>([]);
+  const [bulkTagId, setBulkTagId] = useState('');
+  const [isBulkTagging, setIsBulkTagging] = useState(false);
   
   // Use ref to prevent unnecessary re-renders
   const loadedRef = useRef(false);
@@ -39,8 +46,8 @@ const PropertyManagement: React.FC = () => {
     loadedRef.current = true;
     
     try {
-      const properties = await API.properties.getAll();
-      setAdminProperties(properties);
+      const properties = await API.properties.getAllPages();
+      setAdminProperties(mapPropertiesData(properties));
     } catch (error) {
       console.error('Failed to load admin properties:', error);
       setError('Failed to load properties. Please try again.');
@@ -56,6 +63,12 @@ const PropertyManagement: React.FC = () => {
     }
   }, []); // Empty dependency array - only run on mount
 
+  useEffect(() => {
+    API.getAllTags()
+      .then(tags => setAvailableTags(tags.map(mapTagData).filter(tag => tag.isActive)))
+      .catch(error => console.error('Failed to load tags:', error));
+  }, []);
+
   // Memoize filtered properties to prevent unnecessary recalculations
   const filteredProperties = useMemo(() => {
     if (!searchTerm.trim()) return adminProperties;
@@ -86,24 +99,68 @@ const PropertyManagement: React.FC = () => {
     }
   };
 
+  const refreshProperties = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const properties = await API.properties.getAllPages();
+      setAdminProperties(mapPropertiesData(properties));
+    } catch (error) {
+      console.error('Failed to refresh properties:', error);
+      setError('Failed to refresh properties. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [setAdminProperties]);
+
   const handleCloseForm = useCallback(async (shouldRefresh: boolean = false) => {
     setShowForm(false);
     setEditingProperty(null);
     
     // Only refresh if a property was actually saved/updated
     if (shouldRefresh) {
-      setIsLoading(true);
-      try {
-        const properties = await API.properties.getAll();
-        setAdminProperties(properties);
-      } catch (error) {
-        console.error('Failed to refresh properties:', error);
-        setError('Failed to refresh properties. Please try again.');
-      } finally {
-        setIsLoading(false);
+      await refreshProperties();
+    }
+  }, [refreshProperties]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
       }
+      return next;
+    });
+  };
+
+  const allShownSelected = filteredProperties.length > 0 && filteredProperties.every(property => selectedIds.has(property.id));
+
+  const toggleSelectAllShown = () => {
+    setSelectedIds(allShownSelected ? new Set() : new Set(filteredProperties.map(property => property.id)));
+  };
+
+  // Add or remove the chosen tag on every selected property
+  const handleBulkTag = async (action: 'assign' | 'remove') => {
+    if (!bulkTagId || selectedIds.size === 0) return;
+
+    setIsBulkTagging(true);
+    try {
+      const propertyIds = Array.from(selectedIds);
+      if (action === 'assign') {
+        await API.tags.bulkAssign(propertyIds, [bulkTagId]);
+      } else {
+        await API.tags.bulkRemove(propertyIds, [bulkTagId]);
+      }
+      setSelectedIds(new Set());
+      await refreshProperties();
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      alert('Failed to update tags. Please try again.');
+    } finally {
+      setIsBulkTagging(false);
     }
-  }, [setAdminProperties]);
+  };
 
   const formatPrice = (price: Property['price']) => {
     // Handle case where price is undefined or null
@@ -189,6 +246,50 @@ const PropertyManagement: React.FC = () => {
               {filteredProperties.length} of {adminProperties.length} properties
             </div>
           </div>
+          <div className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-gray-100">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <Checkbox
+                checked={allShownSelected}
+                onCheckedChange={toggleSelectAllShown}
+                disabled={filteredProperties.length === 0}
+              />
+              <span>{selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}</span>
+            </label>
+            {selectedIds.size > 0 && (
+              <>
+                <Tag size={16} className="text-gray-400" />
+                <select
+                  value={bulkTagId}
+                  onChange={(e) => setBulkTagId(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="">Choose a tag...</option>
+                  {availableTags.map(tag => (
+                    <option key={tag.id} value={tag.id}>{tag.name}</option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!bulkTagId || isBulkTagging}
+                  onClick={() => handleBulkTag('assign')}
+                >
+                  Add tag
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!bulkTagId || isBulkTagging}
+                  onClick={() => handleBulkTag('remove')}
+                >
+                  Remove tag
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())}>
+                  Clear selection
+                </Button>
+              </>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -212,6 +313,13 @@ const PropertyManagement: React.FC = () => {
                   <Badge variant="destructive">Not Available</Badge>
                 </div>
               )}
+              <div className="absolute bottom-3 left-3 bg-white/90 rounded p-1 flex">
+                <Checkbox
+                  checked={selectedIds.has(property.id)}
+                  onCheckedChange={() => toggleSelected(property.id)}
+                  aria-label={`Select ${property.title}`}
+                />
+              </div>
             </div>
 
             <CardHeader className="pb-3">
@@ -242,6 +350,20 @@ const PropertyManagement: React.FC = () => {
                   {property.description}
                 </div>
 
+                {property.customTags && property.customTags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {property.customTags.map(tag => (
+                      <Badge
+                        key={tag.id}
+                        className="text-xs"
+                        style={{ backgroundColor: tag.backgroundColor, color: tag.color, borderColor: tag.color }}
+                      >
+                        {tag.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
                 {property.availability?.availableFrom && (
                   <div className="flex items-center text-xs text-gray-500">
                     <Calendar size={12} className="mr-1" />
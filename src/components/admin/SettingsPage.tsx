@@ -1,6 +1,9 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import GoogleCloudStatus from './GoogleCloudStatus';
+import NotificationPreferencesCard from './NotificationPreferencesCard';
+import PricingRulesCard from './PricingRulesCard';
+import PointsOfInterestCard from './PointsOfInterestCard';
 import { Settings, Database, Cloud, Shield } from 'lucide-react';
 
 const SettingsPage: React.FC = () => {
@@ -18,6 +21,15 @@ const SettingsPage: React.FC = () => {
         {/* Google Cloud Integration */}
         <GoogleCloudStatus />
 
+        {/* Notification channels */}
+        <NotificationPreferencesCard />
+
+        {/* Budget calculator quote rules */}
+        <PricingRulesCard />
+
+        {/* Nearby places datasets */}
+        <PointsOfInterestCard />
+
         {/* Database Status */}
         <Card>
           <CardHeader>
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { PropertyTag } from '@/types/property';
 import { API } from '@/services/apiService';
+import { mapTagData } from '@/utils/apiMigrationUtils';
 import { Plus, Edit, Trash2, Save, X, Tag, Palette, Eye } from 'lucide-react';
 
 const TagManagement: React.FC = () => {
@@ -46,7 +47,7 @@ const TagManagement: React.FC = () => {
     try {
       setLoading(true);
       const allTags = await API.getAllTags();
-      setTags(allTags);
+      setTags(allTags.map(mapTagData));
     } catch (error) {
       console.error('Error loading tags:', error);
       alert('Failed to load tags. Please refresh the page.');
@@ -140,7 +141,9 @@ const TagManagement: React.FC = () => {
 
   const handleDelete = async (tag: PropertyTag) => {
     const confirmation = window.confirm(
-      `Are you sure you want to delete the tag "${tag.name}"?\n\nThis action cannot be undone and will remove the tag from all properties.`
+      `Are you sure you want to delete the tag "${tag.name}"?\n\nThis action cannot be undone and will remove the tag from ${
+        tag.usageCount ? `${tag.usageCount} ${tag.usageCount === 1 ? 'property' : 'properties'}` : 'all properties'
+      }.`
     );
     
     if (!confirmation) return;
@@ -241,6 +244,9 @@ const TagManagement: React.FC = () => {
                         <span className="text-xs text-gray-400">
                           Created: {new Date(tag.createdAt).toLocaleDateString()}
                         </span>
+                        <span className="text-xs text-gray-500">
+                          Used on {tag.usageCount ?? 0} {tag.usageCount === 1 ? 'property' : 'properties'}
+                        </span>
                         <span className={`text-xs px-2 py-1 rounded-full ${
                           tag.isActive 
                             ? 'bg-green-100 text-green-800' 
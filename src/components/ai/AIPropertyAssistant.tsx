@@ -7,8 +7,14 @@ import { Property } from '@/types/property';
 import { Message, UserPreferences, PropertyFilters } from '@/types/thesys';
 import { usePropertyStore } from '@/store/propertyStore';
 import { useAIStore } from '@/store/aiStore';
+import { useChatThreadStore } from '@/store/chatThreadStore';
+import { useUserStore } from '@/store/userStore';
 import { useThesysC1 } from '@/hooks/useThesysC1';
+import { API } from '@/services/apiService';
+import { mapPropertyData } from '@/utils/apiMigrationUtils';
 import { GenUIRenderer } from './GenUIRenderer';
+import { ChatThreadSidebar } from './ChatThreadSidebar';
+import { ChatThreadMessage } from '@/types/thesys';
 
 interface AIPropertyAssistantProps {
   onClose?: () => void;
@@ -19,6 +25,22 @@ interface AIPropertyAssistantProps {
   onAddToComparison?: (property: Property) => void;
 }
 
+const describeResults = (query: string) =>
+  `I've generated a personalized property search based on your query: "${query}". Here are the results tailored to your needs:`;
+
+/**
+ * Saved turns as chat bubbles - replies were generated UI, so they are described rather than shown raw
+ */
+const toDisplayMessages = (threadMessages: ChatThreadMessage[]): Message[] =>
+  threadMessages.map((message, index) => ({
+    id: message.id,
+    role: message.role,
+    content: message.role === 'assistant'
+      ? describeResults(threadMessages[index - 1]?.content || '')
+      : message.content,
+    timestamp: new Date(message.createdAt)
+  }));
+
 export const AIPropertyAssistant: React.FC<AIPropertyAssistantProps> = ({
   onClose,
   initialQuery = '',
@@ -35,11 +57,23 @@ export const AIPropertyAssistant: React.FC<AIPropertyAssistantProps> = ({
 
   const { properties } = usePropertyStore();
   const { 
-    conversationHistory, 
     userPreferences, 
     addToHistory, 
     updateUserPreferences 
   } = useAIStore();
+  const {
+    threads,
+    activeThreadId,
+    messages: threadMessages,
+    isLoading: threadsLoading,
+    loadThreads,
+    ensureActiveThread,
+    selectThread,
+    startNewThread,
+    renameThread,
+    deleteThread
+  } = useChatThreadStore();
+  const { isAuthenticated } = useUserStore();
   
   const {
     uiSpec,
@@ -53,12 +87,18 @@ export const AIPropertyAssistant: React.FC<AIPropertyAssistantProps> = ({
   const effectiveProperties = availableProperties.length > 0 ? availableProperties : properties;
 
   useEffect(() => {
-    // Load conversation history on mount
-    setMessages(conversationHistory);
-    
     // Focus input on mount
     inputRef.current?.focus();
-  }, [conversationHistory]);
+  }, []);
+
+  useEffect(() => {
+    loadThreads();
+  }, [isAuthenticated, loadThreads]);
+
+  useEffect(() => {
+    // Show the selected thread's saved turns
+    setMessages(toDisplayMessages(threadMessages));
+  }, [threadMessages]);
 
   useEffect(() => {
     // Scroll to bottom when messages change
@@ -90,25 +130,36 @@ export const AIPropertyAssistant: React.FC<AIPropertyAssistantProps> = ({
     setIsTyping(true);
 
     try {
+      // The backend replays the thread's earlier turns; without one, send the last few along
+      let threadId: string | undefined;
+      try {
+        threadId = await ensureActiveThread(currentQuery.slice(0, 80));
+      } catch (threadError) {
+        console.warn('Chat thread unavailable, this conversation will not be saved:', threadError);
+      }
+
       // Generate AI response with property search UI
       await generateUI(currentQuery, {
         availableProperties: effectiveProperties,
         userPreferences,
-        previousMessages: updatedMessages.slice(-3), // Last 3 messages for context
+        ...(!threadId && { previousMessages: updatedMessages.slice(-3) }), // Last 3 messages for context
         query: currentQuery
-      });
+      }, threadId ? { threadId } : undefined);
 
       // Create assistant message
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: `I've generated a personalized property search based on your query: "${currentQuery}". Here are the results tailored to your needs:`,
+        content: describeResults(currentQuery),
         timestamp: new Date()
       };
 
       setMessages(prev => [...prev, assistantMessage]);
       addToHistory(assistantMessage);
 
+      // Move the thread to the top of the list
+      if (threadId) loadThreads();
+
       // Extract preferences from query (simple keyword matching)
       extractPreferencesFromQuery(currentQuery);
 
@@ -194,10 +245,33 @@ export const AIPropertyAssistant: React.FC<AIPropertyAssistantProps> = ({
 
   const handleClearChat = () => {
     setMessages([]);
+    startNewThread();
     reset();
     inputRef.current?.focus();
   };
 
+  // Generated cards link to listings by id; ones not already loaded are fetched
+  const handleOpenProperty = async (propertyId: string) => {
+    if (!onPropertySelect) return;
+
+    const loaded = effectiveProperties.find(property => property.id === propertyId);
+    if (loaded) {
+      onPropertySelect(loaded);
+      return;
+    }
+
+    try {
+      onPropertySelect(mapPropertyData(await API.properties.getById(propertyId)));
+    } catch (err) {
+      console.error('Failed to load property from AI results:', err);
+    }
+  };
+
+  const handleSelectThread = (threadId: string) => {
+    reset();
+    selectThread(threadId);
+  };
+
   const exampleQueries = [
     "Find me a 1500 sqft office in Koramangala with parking",
     "Show co-working spaces near metro stations under 1000 sqft",
@@ -211,7 +285,7 @@ export const AIPropertyAssistant: React.FC<AIPropertyAssistantProps> = ({
   };
 
   return (
-    <Card className="flex flex-col h-full max-h-[80vh] w-full max-w-4xl mx-auto bg-white shadow-lg">
+    <Card className="flex flex-col h-full max-h-[80vh] w-full max-w-5xl mx-auto bg-white shadow-lg overflow-hidden">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b">
         <div className="flex items-center gap-2">
@@ -251,127 +325,144 @@ export const AIPropertyAssistant: React.FC<AIPropertyAssistantProps> = ({
         </div>
       </div>
 
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 ? (
-          <div className="text-center py-8">
-            <MessageCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">
-              Find Your Perfect Office Space
-            </h3>
-            <p className="text-gray-600 mb-6">
-              Describe what you're looking for in natural language, and I'll help you find the best properties.
-            </p>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-w-2xl mx-auto">
-              {exampleQueries.map((example, index) => (
-                <Button
-                  key={index}
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleExampleClick(example)}
-                  className="text-left text-gray-600 hover:text-gray-900 h-auto p-3 text-wrap"
-                >
-                  "{example}"
-                </Button>
-              ))}
-            </div>
-          </div>
-        ) : (
-          <>
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                    message.role === 'user'
-                      ? 'bg-blue-500 text-white'
-                      : 'bg-gray-100 text-gray-900'
-                  }`}
-                >
-                  <p className="text-sm">{message.content}</p>
-                  <span className="text-xs opacity-70 mt-1 block">
-                    {message.timestamp.toLocaleTimeString([], {
-                      hour: '2-digit',
-                      minute: '2-digit'
-                    })}
-                  </span>
-                </div>
-              </div>
-            ))}
-
-            {/* Generated UI Results */}
-            {uiSpec && (
-              <div className="w-full">
-                <GenUIRenderer
-                  uiSpec={uiSpec}
-                  context={{
-                    properties: effectiveProperties,
-                    userPreferences,
-                    messages
-                  }}
-                  className="border rounded-lg bg-gray-50 p-4"
-                />
-              </div>
-            )}
-
-            {/* Loading indicator */}
-            {(loading || isTyping) && (
-              <div className="flex justify-start">
-                <div className="bg-gray-100 text-gray-900 rounded-lg px-4 py-2 flex items-center gap-2">
-                  <Loader className="h-4 w-4 animate-spin" />
-                  <span className="text-sm">
-                    {loading ? 'Generating personalized results...' : 'Typing...'}
-                  </span>
-                </div>
-              </div>
-            )}
-
-            {/* Error state */}
-            {error && (
-              <div className="w-full p-4 bg-red-50 border border-red-200 rounded-lg">
-                <p className="text-red-700 text-sm">
-                  <strong>Error:</strong> {error}
+      <div className="flex flex-1 min-h-0">
+        <ChatThreadSidebar
+          threads={threads}
+          activeThreadId={activeThreadId}
+          isLoading={threadsLoading}
+          isSignedIn={isAuthenticated}
+          onSelect={handleSelectThread}
+          onNew={handleClearChat}
+          onRename={renameThread}
+          onDelete={deleteThread}
+          className="hidden md:flex"
+        />
+
+        <div className="flex flex-col flex-1 min-w-0">
+          {/* Messages Area */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {messages.length === 0 ? (
+              <div className="text-center py-8">
+                <MessageCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  Find Your Perfect Office Space
+                </h3>
+                <p className="text-gray-600 mb-6">
+                  Describe what you're looking for in natural language, and I'll help you find the best properties.
                 </p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleRegenerateLast}
-                  className="mt-2"
-                >
-                  Try Again
-                </Button>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-w-2xl mx-auto">
+                  {exampleQueries.map((example, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleExampleClick(example)}
+                      className="text-left text-gray-600 hover:text-gray-900 h-auto p-3 text-wrap"
+                    >
+                      "{example}"
+                    </Button>
+                  ))}
+                </div>
               </div>
+            ) : (
+              <>
+                {messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div
+                      className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                        message.role === 'user'
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-100 text-gray-900'
+                      }`}
+                    >
+                      <p className="text-sm">{message.content}</p>
+                      <span className="text-xs opacity-70 mt-1 block">
+                        {message.timestamp.toLocaleTimeString([], {
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+
+                {/* Generated UI Results */}
+                {uiSpec && (
+                  <div className="w-full">
+                    <GenUIRenderer
+                      uiSpec={uiSpec}
+                      context={{
+                        properties: effectiveProperties,
+                        userPreferences,
+                        messages
+                      }}
+                      onPropertySelect={onPropertySelect ? handleOpenProperty : undefined}
+                      className="border rounded-lg bg-gray-50 p-4"
+                    />
+                  </div>
+                )}
+
+                {/* Loading indicator */}
+                {(loading || isTyping) && (
+                  <div className="flex justify-start">
+                    <div className="bg-gray-100 text-gray-900 rounded-lg px-4 py-2 flex items-center gap-2">
+                      <Loader className="h-4 w-4 animate-spin" />
+                      <span className="text-sm">
+                        {loading ? 'Generating personalized results...' : 'Typing...'}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Error state */}
+                {error && (
+                  <div className="w-full p-4 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-700 text-sm">
+                      <strong>Error:</strong> {error}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRegenerateLast}
+                      className="mt-2"
+                    >
+                      Try Again
+                    </Button>
+                  </div>
+                )}
+              </>
             )}
-          </>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+            <div ref={messagesEndRef} />
+          </div>
 
-      {/* Input Area */}
-      <div className="border-t p-4">
-        <div className="flex gap-2">
-          <Input
-            ref={inputRef}
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Describe your ideal office space... (e.g., 1500 sqft in Koramangala with parking)"
-            disabled={loading}
-            className="flex-1"
-          />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!query.trim() || loading}
-            className="bg-blue-500 hover:bg-blue-600 text-white"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {/* Input Area */}
+          <div className="border-t p-4">
+            <div className="flex gap-2">
+              <Input
+                ref={inputRef}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyPress={handleKeyPress}
+                placeholder="Describe your ideal office space... (e.g., 1500 sqft in Koramangala with parking)"
+                disabled={loading}
+                className="flex-1"
+              />
+              <Button
+                onClick={handleSendMessage}
+                disabled={!query.trim() || loading}
+                className="bg-blue-500 hover:bg-blue-600 text-white"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Press Enter to send • AI-powered property search with personalized results
+            </p>
+          </div>
         </div>
-        <p className="text-xs text-gray-500 mt-2">
-          Press Enter to send • AI-powered property search with personalized results
-        </p>
       </div>
     </Card>
   );
@@ -39,6 +39,10 @@ import { usePropertyStore } from '@/store/propertyStore';
 import { useAIStore } from '@/store/aiStore';
 import { useThesysC1 } from '@/hooks/useThesysC1';
 import { GenUIRenderer } from './GenUIRenderer';
+import { PoiCategory, PropertyNeighbourhood } from '@/types/poi';
+import { API } from '@/services/apiService';
+import { mapNearbyPoisData } from '@/utils/apiMigrationUtils';
+import { formatDistance } from '@/lib/poiUtils';
 
 interface AmenityExplorerProps {
   properties?: Property[];
@@ -65,15 +69,20 @@ interface PropertyAmenityScore {
   matches: AmenityData[];
   missing: AmenityData[];
   nearbyFacilities: NearbyFacility[];
+  // Places of all categories within the search radius
+  nearbyTotal: number;
 }
 
 interface NearbyFacility {
-  type: 'restaurant' | 'metro' | 'hospital' | 'bank' | 'gym' | 'shopping';
+  type: PoiCategory;
   name: string;
   distance: string;
-  rating?: number;
+  walkMinutes: number;
 }
 
+// The nearby-places API takes this many properties per request
+const NEARBY_BATCH_SIZE = 50;
+
 export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
   properties: propProperties,
   userPreferences,
@@ -89,6 +98,7 @@ export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
   const [viewMode, setViewMode] = useState<'grid' | 'list' | 'map'>('grid');
   const [propertyScores, setPropertyScores] = useState<PropertyAmenityScore[]>([]);
   const [loading, setLoading] = useState(false);
+  const [neighbourhoods, setNeighbourhoods] = useState<Record<string, PropertyNeighbourhood>>({});
 
   const { properties: storeProperties } = usePropertyStore();
   const { userPreferences: storePreferences } = useAIStore();
@@ -202,9 +212,40 @@ export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
     }
   }, [effectivePreferences]);
 
+  // Nearest place of each category around every listed property
+  const propertyIdsKey = properties.map(property => property.id).join(',');
+  useEffect(() => {
+    if (!propertyIdsKey) return;
+    let cancelled = false;
+
+    const loadNeighbourhoods = async () => {
+      const ids = propertyIdsKey.split(',');
+      const loaded: Record<string, PropertyNeighbourhood> = {};
+      try {
+        for (let start = 0; start < ids.length; start += NEARBY_BATCH_SIZE) {
+          const result = await API.pois.getNearby({
+            propertyIds: ids.slice(start, start + NEARBY_BATCH_SIZE),
+            perCategory: 1
+          });
+          mapNearbyPoisData(result).forEach(neighbourhood => {
+            loaded[neighbourhood.propertyId] = neighbourhood;
+          });
+        }
+      } catch (error) {
+        console.error('Failed to load nearby places:', error);
+      }
+      if (!cancelled) setNeighbourhoods(loaded);
+    };
+    loadNeighbourhoods();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyIdsKey]);
+
   useEffect(() => {
     calculatePropertyScores();
-  }, [properties, selectedAmenities, importanceFilter]);
+  }, [properties, selectedAmenities, importanceFilter, neighbourhoods]);
 
   useEffect(() => {
     if (propertyScores.length > 0) {
@@ -245,15 +286,16 @@ export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
         const matchedImportance = matches.reduce((sum, a) => sum + a.importance, 0);
         const score = totalImportance > 0 ? (matchedImportance / totalImportance) * 100 : 0;
 
-        // Generate mock nearby facilities
-        const nearbyFacilities = generateNearbyFacilities(property);
+        const nearbyFacilities = getNearbyFacilities(property);
+        const counts = neighbourhoods[property.id]?.counts || {};
 
         return {
           property,
           score: Math.round(score * 10) / 10,
           matches,
           missing,
-          nearbyFacilities
+          nearbyFacilities,
+          nearbyTotal: Object.values(counts).reduce((sum, count) => sum + (count || 0), 0)
         };
       });
 
@@ -267,29 +309,15 @@ export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
     }
   };
 
-  const generateNearbyFacilities = (property: Property): NearbyFacility[] => {
-    // Mock nearby facilities based on location
-    const facilitiesByLocation: Record<string, NearbyFacility[]> = {
-      'koramangala': [
-        { type: 'metro', name: 'Koramangala Metro Station', distance: '0.5 km', rating: 4.2 },
-        { type: 'restaurant', name: 'Social Koramangala', distance: '0.2 km', rating: 4.5 },
-        { type: 'hospital', name: 'Manipal Hospital', distance: '1.2 km', rating: 4.3 },
-        { type: 'shopping', name: 'Forum Mall', distance: '0.8 km', rating: 4.4 }
-      ],
-      'indiranagar': [
-        { type: 'metro', name: 'Indiranagar Metro Station', distance: '0.3 km', rating: 4.1 },
-        { type: 'restaurant', name: 'Toit Brewpub', distance: '0.4 km', rating: 4.6 },
-        { type: 'hospital', name: 'St. Theresa Hospital', distance: '0.9 km', rating: 4.2 },
-        { type: 'gym', name: 'Gold\'s Gym', distance: '0.6 km', rating: 4.3 }
-      ]
-    };
-
-    const locationKey = property.location.toLowerCase();
-    return facilitiesByLocation[locationKey] || [
-      { type: 'restaurant', name: 'Local Restaurant', distance: '0.5 km' },
-      { type: 'bank', name: 'ATM/Bank', distance: '0.3 km' }
-    ];
-  };
+  const getNearbyFacilities = (property: Property): NearbyFacility[] =>
+    (neighbourhoods[property.id]?.pois || [])
+      .map(poi => ({
+        type: poi.category,
+        name: poi.name,
+        distance: formatDistance(poi.distanceMeters),
+        walkMinutes: poi.walkMinutes
+      }))
+      .sort((a, b) => a.walkMinutes - b.walkMinutes);
 
   const generateAIAmenityInsights = async () => {
     if (propertyScores.length === 0) return;
@@ -338,7 +366,7 @@ export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
       'hospital': <Building className="h-3 w-3" />,
       'bank': <Building className="h-3 w-3" />,
       'gym': <TrendingUp className="h-3 w-3" />,
-      'shopping': <Building className="h-3 w-3" />
+      'bus_stop': <Navigation className="h-3 w-3" />
     };
     return icons[type as keyof typeof icons] || <MapPin className="h-3 w-3" />;
   };
@@ -451,14 +479,12 @@ export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
                   {getFacilityIcon(facility.type)}
                   <span className="flex-1">{facility.name}</span>
                   <span className="text-gray-400">{facility.distance}</span>
-                  {facility.rating && (
-                    <div className="flex items-center gap-1">
-                      <Star className="h-2 w-2 fill-current text-yellow-400" />
-                      <span>{facility.rating}</span>
-                    </div>
-                  )}
+                  <span className="text-gray-500">{facility.walkMinutes} min walk</span>
                 </div>
               ))}
+              {nearbyFacilities.length === 0 && (
+                <p className="text-xs text-gray-400">No nearby places on record</p>
+              )}
             </div>
           </div>
 
@@ -680,7 +706,7 @@ export const AmenityExplorer: React.FC<AmenityExplorerProps> = ({
                               <span className="text-red-600">{scoreData.missing.length}</span> missing
                             </div>
                             <div className="text-sm">
-                              <span className="text-gray-600">{scoreData.nearbyFacilities.length}</span> nearby
+                              <span className="text-gray-600">{scoreData.nearbyTotal}</span> nearby
                             </div>
                           </div>
                         </div>
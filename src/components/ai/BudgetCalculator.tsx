@@ -13,7 +13,8 @@ import {
   PieChart,
   BarChart3,
   Info,
-  Download,
+  FileText,
+  FileSpreadsheet,
   Share2,
   Sparkles,
   Building,
@@ -24,10 +25,15 @@ import {
   CheckCircle,
   ArrowUpRight,
   ArrowDownRight,
-  Minus
+  Minus,
+  MapPin
 } from 'lucide-react';
 import { Property } from '@/types/property';
 import { Calculation, CalculationResult } from '@/types/thesys';
+import { BudgetQuote, MarketRate, SpaceType } from '@/types/pricing';
+import { API } from '@/services/apiService';
+import { formatApiError, mapBudgetQuoteData, mapMarketRateData } from '@/utils/apiMigrationUtils';
+import { describeRateBasis, downloadQuoteCsv, printQuote } from '@/utils/quoteExport';
 import { useAIStore } from '@/store/aiStore';
 import { useThesysC1 } from '@/hooks/useThesysC1';
 import { GenUIRenderer } from './GenUIRenderer';
@@ -39,7 +45,7 @@ interface BudgetCalculatorProps {
 }
 
 interface BudgetInputs {
-  propertyType: 'office' | 'co-working' | 'meeting-room';
+  propertyType: SpaceType;
   teamSize: number;
   duration: number; // in months
   location: string;
@@ -48,23 +54,26 @@ interface BudgetInputs {
   budgetRange: [number, number]; // min, max per month in INR
 }
 
-interface CostBreakdown {
-  baseRent: number;
-  securityDeposit: number;
-  maintenanceFee: number;
-  utilities: number;
-  amenityCharges: number;
-  gst: number;
-  total: number;
+interface ScenarioQuote {
+  name: string;
+  quote: BudgetQuote;
 }
 
-interface ROIProjection {
-  period: string;
-  cost: number;
-  savings: number;
-  efficiency: number;
-  netBenefit: number;
-}
+// Offered until market rates load, or when there are no priced listings yet
+const DEFAULT_LOCATIONS = [
+  { value: 'koramangala', label: 'Koramangala' },
+  { value: 'indiranagar', label: 'Indiranagar' },
+  { value: 'whitefield', label: 'Whitefield' },
+  { value: 'hsr layout', label: 'HSR Layout' },
+  { value: 'electronic city', label: 'Electronic City' }
+];
+
+const PROJECTION_LABELS: Record<number, string> = {
+  6: '6 months',
+  12: '1 year',
+  24: '2 years',
+  36: '3 years'
+};
 
 export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
   properties = [],
@@ -86,6 +95,10 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
   const [currentCalculation, setCurrentCalculation] = useState<Calculation | null>(null);
   const [loading, setLoading] = useState(false);
   const [scenarios, setScenarios] = useState<string[]>([]);
+  const [quote, setQuote] = useState<BudgetQuote | null>(null);
+  const [scenarioQuotes, setScenarioQuotes] = useState<ScenarioQuote[]>([]);
+  const [marketRates, setMarketRates] = useState<MarketRate[]>([]);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
 
   const { savedCalculations, addCalculation } = useAIStore();
   const {
@@ -95,6 +108,10 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
     generateUI
   } = useThesysC1();
 
+  useEffect(() => {
+    loadMarketRates();
+  }, []);
+
   useEffect(() => {
     if (savedCalculations.length > 0) {
       setCalculations(savedCalculations);
@@ -107,132 +124,127 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
     }
   }, [currentCalculation?.id]); // Only depend on calculation ID to prevent infinite loops
 
+  const loadMarketRates = async () => {
+    try {
+      const rates = await API.pricing.getRates();
+      setMarketRates((rates || []).map(mapMarketRateData));
+    } catch (error) {
+      console.error('Failed to load market rates:', error);
+    }
+  };
+
+  // Micro-markets with priced listings, busiest first
+  const locationOptions = (() => {
+    const counts = new Map<string, { label: string; listings: number }>();
+    marketRates.forEach(rate => {
+      const entry = counts.get(rate.microMarket) || { label: rate.microMarketLabel, listings: 0 };
+      entry.listings += rate.listings;
+      counts.set(rate.microMarket, entry);
+    });
+    if (counts.size === 0) return DEFAULT_LOCATIONS;
+
+    const options = [...counts.entries()]
+      .sort(([, a], [, b]) => b.listings - a.listings)
+      .map(([value, { label, listings }]) => ({ value, label: `${label} (${listings} listings)` }));
+    return options.some(option => option.value === inputs.location)
+      ? options
+      : [...options, ...DEFAULT_LOCATIONS.filter(option => option.value === inputs.location)];
+  })();
+
+  const fetchQuote = async (scenario: BudgetInputs) =>
+    mapBudgetQuoteData(await API.pricing.getQuote({
+      location: scenario.location,
+      spaceType: scenario.propertyType,
+      teamSize: scenario.teamSize,
+      duration: scenario.duration
+    }));
+
   const calculateBudget = async () => {
     setLoading(true);
+    setQuoteError(null);
     
     try {
-      // Calculate base costs
-      const breakdown = calculateCostBreakdown();
-      const projections = calculateROIProjections(breakdown);
-      const insights = generateBudgetInsights(breakdown, projections);
+      const [budgetQuote, ...alternatives] = await Promise.all([
+        fetchQuote(inputs),
+        fetchQuote({ ...inputs, propertyType: 'office' }),
+        fetchQuote({ ...inputs, propertyType: 'co-working' }),
+        fetchQuote({ ...inputs, teamSize: Math.ceil(inputs.teamSize * 0.7) })
+      ]);
+      const { monthly, rules } = budgetQuote;
 
       const result: CalculationResult = {
-        totalCost: breakdown.total,
+        totalCost: monthly.total,
         breakdown: {
-          'Base Rent': breakdown.baseRent,
-          'Security Deposit': breakdown.securityDeposit,
-          'Maintenance': breakdown.maintenanceFee,
-          'Utilities': breakdown.utilities,
-          'Amenities': breakdown.amenityCharges,
-          'GST (18%)': breakdown.gst
+          'Base Rent': monthly.baseRent,
+          'Security Deposit': budgetQuote.securityDeposit,
+          'Maintenance': monthly.maintenance,
+          'Utilities': monthly.utilities,
+          'Amenities': monthly.amenities,
+          [`GST (${rules.gstPercent}%)`]: monthly.gst
         },
-        projections: projections.reduce((acc, proj) => ({
+        projections: budgetQuote.projections.reduce((acc, projection) => ({
           ...acc,
-          [proj.period]: proj.cost
+          [PROJECTION_LABELS[projection.months] || `${projection.months} months`]: projection.total
         }), {}),
-        insights
+        insights: generateBudgetInsights(budgetQuote)
       };
 
       const calculation: Calculation = {
         id: Date.now().toString(),
         type: 'budget',
-        parameters: { ...inputs },
+        parameters: { ...inputs, ratePerSeat: budgetQuote.rate.perSeat, rateBasis: budgetQuote.rate.basis },
         results: result,
         timestamp: new Date()
       };
 
+      setQuote(budgetQuote);
+      setScenarioQuotes([
+        { name: 'Private Office', quote: alternatives[0]! },
+        { name: 'Co-working Space', quote: alternatives[1]! },
+        { name: 'Optimized Team Size', quote: alternatives[2]! }
+      ]);
       setCurrentCalculation(calculation);
       addCalculation(calculation);
       onCalculationComplete?.(calculation);
 
     } catch (error) {
       console.error('Budget calculation failed:', error);
+      setQuoteError(formatApiError(error));
     } finally {
       setLoading(false);
     }
   };
 
-  const calculateCostBreakdown = (): CostBreakdown => {
-    // Base rent calculation (mock pricing based on location and type)
-    const locationMultiplier = {
-      'koramangala': 1.3,
-      'indiranagar': 1.2,
-      'whitefield': 1.0,
-      'hsr-layout': 1.1,
-      'electronic-city': 0.9
-    }[inputs.location] || 1.0;
-
-    const typeMultiplier = {
-      'office': 1.2,
-      'co-working': 0.8,
-      'meeting-room': 1.5
-    }[inputs.propertyType];
-
-    const baseRatePerSeat = 8000; // INR per seat per month
-    const baseRent = Math.round(inputs.teamSize * baseRatePerSeat * locationMultiplier * typeMultiplier);
-    
-    // Other cost components
-    const securityDeposit = baseRent * 3; // 3 months rent as deposit
-    const maintenanceFee = Math.round(baseRent * 0.15); // 15% of rent
-    const utilities = Math.round(inputs.teamSize * 500); // ₹500 per person
-    const amenityCharges = Math.round(inputs.teamSize * 1200); // ₹1200 per person for amenities
-    
-    const subtotal = baseRent + maintenanceFee + utilities + amenityCharges;
-    const gst = Math.round(subtotal * 0.18); // 18% GST
-    const total = subtotal + gst;
-
-    return {
-      baseRent,
-      securityDeposit,
-      maintenanceFee,
-      utilities,
-      amenityCharges,
-      gst,
-      total
-    };
-  };
-
-  const calculateROIProjections = (breakdown: CostBreakdown): ROIProjection[] => {
-    const monthlyOperationalCost = breakdown.total;
-    const periods = ['6 months', '1 year', '2 years', '3 years'];
-
-    return periods.map(period => {
-      const months = period === '6 months' ? 6 : 
-                   period === '1 year' ? 12 :
-                   period === '2 years' ? 24 : 36;
-
-      const totalCost = monthlyOperationalCost * months + breakdown.securityDeposit;
-      
-      // Mock efficiency and savings calculations
-      const efficiencyGain = Math.min(months * 0.5, 15); // Up to 15% efficiency gain
-      const potentialSavings = totalCost * 0.1 * (efficiencyGain / 15); // Savings based on efficiency
-      const netBenefit = potentialSavings - (totalCost * 0.05); // Subtract opportunity cost
-
-      return {
-        period,
-        cost: totalCost,
-        savings: Math.round(potentialSavings),
-        efficiency: Math.round(efficiencyGain * 10) / 10,
-        netBenefit: Math.round(netBenefit)
-      };
-    });
-  };
-
-  const generateBudgetInsights = (breakdown: CostBreakdown, projections: ROIProjection[]): string[] => {
+  const generateBudgetInsights = (budgetQuote: BudgetQuote): string[] => {
     const insights: string[] = [];
+    const { monthly, rate, rules } = budgetQuote;
 
     // Cost analysis insights
-    if (breakdown.baseRent > inputs.budgetRange[1] * 0.7) {
+    if (monthly.baseRent > inputs.budgetRange[1] * 0.7) {
       insights.push('Base rent is high relative to your budget. Consider co-working spaces or smaller locations.');
-    } else if (breakdown.baseRent < inputs.budgetRange[0] * 0.5) {
+    } else if (monthly.baseRent < inputs.budgetRange[0] * 0.5) {
       insights.push('You have budget flexibility. Consider premium locations or larger spaces.');
     }
 
-    // Location insights
-    if (inputs.location === 'koramangala' || inputs.location === 'indiranagar') {
-      insights.push('Prime location with excellent connectivity but higher costs.');
+    // Location insights, against the typical rate of other micro-markets
+    const otherMarkets = marketRates.filter(marketRate =>
+      marketRate.microMarket !== budgetQuote.microMarket && rate.categories.includes(marketRate.category)
+    );
+    if (rate.basis === 'micro_market' && otherMarkets.length > 0) {
+      const cityRate = otherMarkets.reduce((sum, marketRate) => sum + marketRate.medianRatePerSeat * marketRate.listings, 0) /
+        otherMarkets.reduce((sum, marketRate) => sum + marketRate.listings, 0);
+      const difference = Math.round(((rate.perSeat - cityRate) / cityRate) * 100);
+      if (difference > 10) {
+        insights.push(`Seats here cost about ${difference}% more than elsewhere in the city; nearby micro-markets could save on rent.`);
+      } else if (difference < -10) {
+        insights.push(`Seats here cost about ${Math.abs(difference)}% less than elsewhere in the city.`);
+      } else {
+        insights.push('Rents here are in line with the rest of the city.');
+      }
+    } else if (rate.basis === 'default') {
+      insights.push('No comparable listings yet, so this quote uses our standard rate. Ask us for current availability.');
     } else {
-      insights.push('Cost-effective location with good potential for savings.');
+      insights.push(`Too few listings in this micro-market to price it alone; the rate is based on ${rate.sampleSize} wider listings.`);
     }
 
     // Team size insights
@@ -244,7 +256,7 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
 
     // Duration insights
     if (inputs.duration >= 24) {
-      insights.push('Long-term commitment can secure better rates and reduced deposits.');
+      insights.push(`Rent rises ${rules.escalationPercent}% a year; a long-term commitment can secure a lower escalation and reduced deposits.`);
     } else if (inputs.duration < 6) {
       insights.push('Short-term commitment may have higher per-month costs but more flexibility.');
     }
@@ -271,29 +283,6 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
     }
   };
 
-  const compareScenarios = () => {
-    const scenarios = [
-      { ...inputs, propertyType: 'office' as const, name: 'Private Office' },
-      { ...inputs, propertyType: 'co-working' as const, name: 'Co-working Space' },
-      { ...inputs, teamSize: Math.ceil(inputs.teamSize * 0.7), name: 'Optimized Team Size' }
-    ];
-
-    const comparisons = scenarios.map(scenario => {
-      const originalInputs = { ...inputs };
-      setInputs(scenario);
-      const breakdown = calculateCostBreakdown();
-      setInputs(originalInputs);
-      
-      return {
-        ...scenario,
-        monthlyCost: breakdown.total,
-        yearlyTotal: breakdown.total * 12 + breakdown.securityDeposit
-      };
-    });
-
-    return comparisons;
-  };
-
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -306,21 +295,10 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
     setInputs(prev => ({ ...prev, [field]: value }));
   };
 
-  const exportCalculation = () => {
-    if (!currentCalculation) return;
-    
-    const data = {
-      inputs,
-      calculation: currentCalculation,
-      timestamp: new Date().toISOString()
-    };
-    
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `budget-calculation-${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
+  const exportPdf = () => {
+    if (quote && !printQuote(quote)) {
+      setQuoteError('Allow pop-ups for this site to export the quote as PDF');
+    }
   };
 
   return (
@@ -340,11 +318,15 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
         </div>
         
         <div className="flex items-center gap-3">
-          {currentCalculation && (
+          {quote && (
             <>
-              <Button variant="outline" size="sm" onClick={exportCalculation}>
-                <Download className="h-4 w-4 mr-1" />
-                Export
+              <Button variant="outline" size="sm" onClick={exportPdf}>
+                <FileText className="h-4 w-4 mr-1" />
+                PDF
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadQuoteCsv(quote)}>
+                <FileSpreadsheet className="h-4 w-4 mr-1" />
+                CSV
               </Button>
               <Button variant="outline" size="sm">
                 <Share2 className="h-4 w-4 mr-1" />
@@ -410,11 +392,9 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="koramangala">Koramangala (Premium)</SelectItem>
-                  <SelectItem value="indiranagar">Indiranagar (Prime)</SelectItem>
-                  <SelectItem value="whitefield">Whitefield (Tech Hub)</SelectItem>
-                  <SelectItem value="hsr-layout">HSR Layout (Growing)</SelectItem>
-                  <SelectItem value="electronic-city">Electronic City (Budget)</SelectItem>
+                  {locationOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -508,6 +488,13 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
             </Button>
           </div>
 
+          {quoteError && (
+            <div className="flex items-center justify-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              {quoteError}
+            </div>
+          )}
+
           {/* AI-Generated Calculator Insights */}
           {uiSpec && (
             <div className="mt-8 border-t pt-6">
@@ -597,6 +584,40 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
                 </div>
               </Card>
 
+              {/* Comparable listings behind the rate */}
+              {quote && (
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium mb-1 flex items-center gap-2">
+                    <MapPin className="h-5 w-5" />
+                    How We Priced This
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {formatCurrency(quote.rate.perSeat)} per seat ({formatCurrency(quote.rate.perSqft)} per sqft at{' '}
+                    {quote.rules.sqftPerSeat} sqft a seat): {describeRateBasis(quote.rate.basis).toLowerCase()}
+                    {quote.rate.sampleSize > 0 && `, median of ${quote.rate.sampleSize} listings`}.
+                    Deposit is {quote.rules.depositMonths} months' rent; rent rises {quote.rules.escalationPercent}% a year.
+                  </p>
+                  {quote.comparables.length > 0 && (
+                    <div className="space-y-2">
+                      {quote.comparables.map(listing => (
+                        <div key={listing.id} className="flex items-center justify-between text-sm border-b last:border-0 pb-2">
+                          <div className="min-w-0 mr-3">
+                            <p className="font-medium text-gray-900 truncate">{listing.title}</p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {listing.location} · {listing.areaSqft.toLocaleString('en-IN')} sqft · {formatCurrency(listing.price)}/month
+                            </p>
+                          </div>
+                          <div className="text-right whitespace-nowrap">
+                            <p className="font-medium">{formatCurrency(listing.ratePerSeat)}/seat</p>
+                            <p className="text-xs text-gray-500">{formatCurrency(listing.ratePerSqft)}/sqft</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Card>
+              )}
+
               {/* Insights */}
               {currentCalculation.results.insights && (
                 <Card className="p-6">
@@ -670,31 +691,44 @@ export const BudgetCalculator: React.FC<BudgetCalculatorProps> = ({
           <div className="space-y-6">
             <h3 className="text-lg font-medium">Scenario Comparison</h3>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {compareScenarios().map((scenario, index) => (
-                <Card key={index} className="p-4">
-                  <h4 className="font-medium mb-3">{scenario.name}</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span>Team Size:</span>
-                      <span>{scenario.teamSize} people</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Type:</span>
-                      <span className="capitalize">{scenario.propertyType.replace('-', ' ')}</span>
-                    </div>
-                    <div className="flex justify-between border-t pt-2 mt-2">
-                      <span>Monthly:</span>
-                      <span className="font-medium">{formatCurrency(scenario.monthlyCost)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Yearly Total:</span>
-                      <span className="font-medium">{formatCurrency(scenario.yearlyTotal)}</span>
+            {scenarioQuotes.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {scenarioQuotes.map(({ name, quote: scenarioQuote }) => (
+                  <Card key={name} className="p-4">
+                    <h4 className="font-medium mb-3">{name}</h4>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span>Team Size:</span>
+                        <span>{scenarioQuote.teamSize} people</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Type:</span>
+                        <span className="capitalize">{scenarioQuote.spaceType.replace('-', ' ')}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Per Seat:</span>
+                        <span>{formatCurrency(scenarioQuote.rate.perSeat)}</span>
+                      </div>
+                      <div className="flex justify-between border-t pt-2 mt-2">
+                        <span>Monthly:</span>
+                        <span className="font-medium">{formatCurrency(scenarioQuote.monthly.total)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Yearly Total:</span>
+                        <span className="font-medium">
+                          {formatCurrency((scenarioQuote.projections.find(projection => projection.months === 12)?.total) ?? 0)}
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                </Card>
-              ))}
-            </div>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <BarChart3 className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-600">Run a budget calculation to compare scenarios</p>
+              </div>
+            )}
           </div>
         </TabsContent>
       </Tabs>
@@ -1,64 +1,83 @@
 import React from 'react';
-import { C1Chat, ThemeProvider } from '@thesysai/genui-sdk';
+import { C1Chat, ThemeProvider, useThreadListManager, useThreadManager } from '@thesysai/genui-sdk';
 import '@crayonai/react-ui/styles/index.css';
+import { API, getAuthToken } from '@/services/apiService';
+import { useChatThreadStore } from '@/store/chatThreadStore';
+import { ChatThread } from '@/types/thesys';
+import { chatThreadSecretHeaders, rememberChatThreadSecret } from '@/utils/chatThreadSecrets';
 
-interface C1ChatComponentProps {
-  initialContext?: {
-    properties?: Array<{
-      id: string;
-      title: string;
-      location: string;
-      size: number;
-      [key: string]: any;
-    }>;
-    userPreferences?: any;
-  };
-  onPropertySelect?: (propertyId: string) => void;
-}
+const toSdkThread = (thread: ChatThread) => ({
+  threadId: thread.id,
+  title: thread.title,
+  createdAt: new Date(thread.createdAt)
+});
 
 /**
  * C1ChatComponent demonstrates the C1Chat component for conversational property search.
- * This is a "batteries-included" solution that manages its own state, data fetching, and conversation history.
+ * Conversations are threads saved by the backend: the sidebar lists the signed-in user's threads
+ * on every device, and each message is answered with the thread's earlier turns as context.
  */
-export const C1ChatComponent: React.FC<C1ChatComponentProps> = ({
-  initialContext,
-  onPropertySelect
-}) => {
+export const C1ChatComponent: React.FC = () => {
   // C1Chat endpoint that accepts messages[] for conversational flows
   const apiUrl = import.meta.env.VITE_API_BASE_URL 
     ? `${import.meta.env.VITE_API_BASE_URL}/v1/c1/chat`
     : '/api/v1/c1/chat';
 
-  // Initial messages to provide context about Gentle Space Realty
-  const initialMessages = [
-    {
-      role: 'system' as const,
-      content: `You are an AI assistant for Gentle Space Realty, specializing in commercial real estate in Bangalore. 
-      Help users find office spaces, meeting rooms, and co-working facilities that match their requirements.
-      Available locations include Koramangala, HSR Layout, Whitefield, Electronic City, and MG Road.
-      Focus on understanding their space requirements, budget, preferred location, and amenities needed.`
+  const { loadThreads, createThread, renameThread, deleteThread } = useChatThreadStore();
+
+  const threadListManager = useThreadListManager({
+    fetchThreadList: async () => {
+      await loadThreads();
+      return useChatThreadStore.getState().threads.map(toSdkThread);
     },
-    {
-      role: 'assistant' as const,
-      content: `Welcome to Gentle Space Realty! 🏢 I'm here to help you find the perfect commercial space in Bangalore. 
-      Whether you're looking for office space, meeting rooms, or co-working facilities, I can assist you with:
-      
-      • Finding spaces that match your requirements
-      • Comparing different properties
-      • Scheduling viewings
-      • Understanding pricing and amenities
-      
-      What kind of space are you looking for today?`
-    }
-  ];
+    deleteThread: async (threadId) => {
+      await deleteThread(threadId);
+    },
+    updateThread: async (thread) => {
+      await renameThread(thread.threadId, thread.title);
+      return thread;
+    },
+    onSwitchToNew: () => {},
+    onSelectThread: () => {},
+    createThread: async (firstMessage) => toSdkThread(await createThread(firstMessage.message?.slice(0, 80)))
+  });
 
-  // Add initial context if provided
-  if (initialContext?.properties) {
-    initialMessages.push({
-      role: 'system' as const,
-      content: `Available properties context: ${JSON.stringify(initialContext.properties, null, 2)}`
-    });
-  }
+  const threadManager = useThreadManager({
+    threadListManager,
+    loadThread: async (threadId) => {
+      try {
+        const { messages } = await API.c1Threads.getMessages(threadId);
+        return (messages || []).map(message => ({
+          id: message.client_message_id || message.id,
+          role: message.role,
+          content: message.content
+        }));
+      } catch (error) {
+        // Threads started signed out cannot be listed or reopened
+        console.error('❌ Error loading chat thread:', error);
+        return [];
+      }
+    },
+    // Same request the SDK sends on its own, plus the user's token so the thread is saved to their
+    // account, or the secret of a thread started signed out
+    processMessage: async ({ threadId, messages, responseId, abortController }) => {
+      const authToken = getAuthToken();
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authToken && { Authorization: `Bearer ${authToken}` }),
+          ...chatThreadSecretHeaders(threadId)
+        },
+        body: JSON.stringify({ prompt: messages[messages.length - 1], threadId, responseId }),
+        signal: abortController.signal
+      });
+      rememberChatThreadSecret(threadId, response);
+      return response;
+    },
+    // The backend saves both sides of every turn
+    onUpdateMessage: () => {}
+  });
 
   const examplePrompts = [
     "Show me office spaces in Koramangala under ₹50,000/month",
@@ -96,32 +115,8 @@ export const C1ChatComponent: React.FC<C1ChatComponentProps> = ({
       <div className="bg-white rounded-lg border shadow-sm" style={{ minHeight: '600px' }}>
         <ThemeProvider>
           <C1Chat
-            apiUrl={apiUrl}
-            initialMessages={initialMessages}
-            onAction={(action: any, data: any) => {
-              console.log('C1Chat Action:', action, data);
-              
-              // Handle property selection
-              if (action === 'selectProperty' && data?.propertyId && onPropertySelect) {
-                onPropertySelect(data.propertyId);
-              }
-              
-              // Handle other custom actions
-              if (action === 'scheduleViewing') {
-                console.log('Schedule viewing requested:', data);
-                // Could integrate with calendar/booking system
-              }
-              
-              if (action === 'requestCallback') {
-                console.log('Callback requested:', data);
-                // Could integrate with CRM or notification system
-              }
-            }}
-            style={{
-              height: '600px',
-              width: '100%'
-            }}
-            placeholder="Ask me about commercial properties in Bangalore..."
+            threadManager={threadManager}
+            threadListManager={threadListManager}
           />
         </ThemeProvider>
       </div>
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MessageSquare, Pencil, Plus, Trash2, Loader } from 'lucide-react';
+import { ChatThread } from '@/types/thesys';
+
+interface ChatThreadSidebarProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  isLoading?: boolean;
+  // Signed-out visitors get a hint instead of a list
+  isSignedIn: boolean;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+  className?: string;
+}
+
+/**
+ * List of the user's saved assistant conversations, with rename and delete
+ */
+export const ChatThreadSidebar: React.FC<ChatThreadSidebarProps> = ({
+  threads,
+  activeThreadId,
+  isLoading = false,
+  isSignedIn,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  className = ''
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    const thread = threads.find(t => t.id === editingId);
+    if (thread && title && title !== thread.title) {
+      onRename(thread.id, title);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (window.confirm(`Delete "${thread.title}"? Its messages will be removed on all your devices.`)) {
+      onDelete(thread.id);
+    }
+  };
+
+  return (
+    <aside className={`flex flex-col w-60 shrink-0 border-r bg-gray-50 ${className}`}>
+      <div className="p-3 border-b">
+        <Button variant="outline" size="sm" onClick={onNew} className="w-full justify-start gap-2">
+          <Plus className="h-4 w-4" />
+          New conversation
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {!isSignedIn ? (
+          <p className="text-xs text-gray-500 p-2">
+            Sign in to keep your conversations and pick them up on any device.
+          </p>
+        ) : isLoading && threads.length === 0 ? (
+          <div className="flex justify-center p-4">
+            <Loader className="h-4 w-4 animate-spin text-gray-400" />
+          </div>
+        ) : threads.length === 0 ? (
+          <p className="text-xs text-gray-500 p-2">No conversations yet.</p>
+        ) : (
+          threads.map(thread => (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm ${
+                thread.id === activeThreadId ? 'bg-blue-100 text-blue-900' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {editingId === thread.id ? (
+                <Input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  maxLength={200}
+                  autoFocus
+                  className="h-7 text-sm"
+                />
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(thread.id)}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                    title={thread.title}
+                  >
+                    <MessageSquare className="h-4 w-4 shrink-0 opacity-60" />
+                    <span className="truncate">{thread.title}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startRename(thread)}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-700"
+                    aria-label="Rename conversation"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(thread)}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+                    aria-label="Delete conversation"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ChatThreadSidebar;
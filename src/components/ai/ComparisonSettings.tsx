@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import LocationInput from '@/components/ui/LocationInput';
+import { MapPin, RotateCcw, X } from 'lucide-react';
+import {
+  CRITERION_LABELS,
+  DEFAULT_SCORING_WEIGHTS,
+  DEFAULT_WANTED_AMENITIES,
+  MAX_CRITERION_WEIGHT,
+  SCORING_CRITERIA,
+  ScoringPreferences,
+  ScoringWeights
+} from '@/lib/propertyScoring';
+
+interface ComparisonSettingsProps {
+  weights: ScoringWeights;
+  preferences: ScoringPreferences;
+  // Amenities listed by the compared properties, offered next to the defaults
+  availableAmenities?: string[];
+  onWeightsChange: (weights: ScoringWeights) => void;
+  onPreferencesChange: (preferences: ScoringPreferences) => void;
+}
+
+const MAX_POINTS = 5;
+
+const parseSqft = (value: string) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+};
+
+/**
+ * Criterion weights and the preferences scores are measured against
+ */
+export const ComparisonSettings: React.FC<ComparisonSettingsProps> = ({
+  weights,
+  preferences,
+  availableAmenities = [],
+  onWeightsChange,
+  onPreferencesChange
+}) => {
+  // Remounts the place search after each point so it starts empty
+  const [pointInputKey, setPointInputKey] = useState(0);
+
+  const wanted = preferences.amenities ?? DEFAULT_WANTED_AMENITIES;
+  const amenityOptions = Array.from(new Set([...DEFAULT_WANTED_AMENITIES, ...wanted, ...availableAmenities])).slice(0, 16);
+  const points = preferences.points || [];
+
+  const update = (changes: Partial<ScoringPreferences>) => onPreferencesChange({ ...preferences, ...changes });
+
+  const toggleAmenity = (amenity: string) => {
+    update({
+      amenities: wanted.includes(amenity) ? wanted.filter(item => item !== amenity) : [...wanted, amenity]
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-gray-900">What matters to you</h3>
+          <Button variant="ghost" size="sm" onClick={() => onWeightsChange({ ...DEFAULT_SCORING_WEIGHTS })}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        </div>
+        {SCORING_CRITERIA.map(criterion => (
+          <div key={criterion} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label>{CRITERION_LABELS[criterion]}</Label>
+              <span className="text-gray-500">
+                {weights[criterion] === 0 ? 'Ignored' : `${weights[criterion]} / ${MAX_CRITERION_WEIGHT}`}
+              </span>
+            </div>
+            <Slider
+              value={[weights[criterion]]}
+              min={0}
+              max={MAX_CRITERION_WEIGHT}
+              step={1}
+              onValueChange={([value]) => onWeightsChange({ ...weights, [criterion]: value ?? 0 })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-5">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="compare-min-sqft">Min size (sqft)</Label>
+            <Input
+              id="compare-min-sqft"
+              type="number"
+              min={0}
+              value={preferences.minSqft ?? ''}
+              onChange={(e) => update({ minSqft: parseSqft(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="compare-max-sqft">Max size (sqft)</Label>
+            <Input
+              id="compare-max-sqft"
+              type="number"
+              min={0}
+              value={preferences.maxSqft ?? ''}
+              onChange={(e) => update({ maxSqft: parseSqft(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="compare-move-in">Move in by</Label>
+          <Input
+            id="compare-move-in"
+            type="date"
+            value={preferences.moveInBy ?? ''}
+            onChange={(e) => update({ moveInBy: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Places you travel to</Label>
+          {points.map((point, index) => (
+            <div key={`${point.label}-${index}`} className="flex items-center gap-2 text-sm">
+              <MapPin className="h-4 w-4 text-gray-400 shrink-0" />
+              <span className="flex-1 truncate">{point.label}</span>
+              <button
+                type="button"
+                className="text-gray-400 hover:text-gray-600"
+                aria-label={`Remove ${point.label}`}
+                onClick={() => update({ points: points.filter((_, i) => i !== index) })}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          {points.length < MAX_POINTS && (
+            <LocationInput
+              key={pointInputKey}
+              value=""
+              placeholder="Office, client site, metro station..."
+              onChange={(location) => {
+                update({
+                  points: [...points, { label: location.address, ...location.coordinates }]
+                });
+                setPointInputKey(key => key + 1);
+              }}
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Amenities you need</Label>
+          <div className="flex flex-wrap gap-2">
+            {amenityOptions.map(amenity => (
+              <Badge
+                key={amenity}
+                variant={wanted.includes(amenity) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleAmenity(amenity)}
+              >
+                {amenity}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonSettings;
@@ -64,6 +64,8 @@ interface GenUIRendererProps {
   uiSpec: UISpec;
   context?: Record<string, any>;
   onAction?: (action: UIAction) => void;
+  // Open a property's details; only called for properties listed in uiSpec.propertyIds
+  onPropertySelect?: (propertyId: string) => void;
   className?: string;
 }
 
@@ -80,6 +82,7 @@ export const GenUIRenderer: React.FC<GenUIRendererProps> = ({
   uiSpec,
   context = {},
   onAction,
+  onPropertySelect,
   className = ''
 }) => {
   const [expandedSections, setExpandedSections] = useState<ExpandableSection[]>([]);
@@ -98,12 +101,23 @@ export const GenUIRenderer: React.FC<GenUIRendererProps> = ({
     }
   }, [uiSpec]);
 
+  // Ids the model made up are not in the list, so they never become links
+  const isLinkedProperty = (propertyId: unknown): propertyId is string =>
+    typeof propertyId === 'string' && !!onPropertySelect && !!uiSpec.propertyIds?.includes(propertyId);
+
   const handleAction = (action: UIAction) => {
     // Handle built-in actions
     switch (action.type) {
       case 'expand':
         toggleSection(action.payload?.sectionId);
         break;
+      case 'view_property': {
+        const propertyId = action.payload?.propertyId;
+        if (isLinkedProperty(propertyId)) {
+          onPropertySelect?.(propertyId);
+        }
+        break;
+      }
       case 'feedback':
         handleFeedback(action.payload?.componentId, action.payload?.value);
         break;
@@ -223,6 +237,20 @@ export const GenUIRenderer: React.FC<GenUIRendererProps> = ({
     }
   };
 
+  const renderPropertyLink = (propertyId: unknown) => {
+    if (!isLinkedProperty(propertyId)) return null;
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onPropertySelect?.(propertyId)}
+      >
+        <Eye className="h-4 w-4 mr-1" />
+        View details
+      </Button>
+    );
+  };
+
   const renderComponent = (component: UIComponent): React.ReactNode => {
     const { type, properties, children, id } = component;
     const key = id || `${type}-${Math.random()}`;
@@ -322,6 +350,9 @@ export const GenUIRenderer: React.FC<GenUIRendererProps> = ({
                     {children.map((child, index) => renderComponent({...child, id: child.id || `${id}-child-${index}`}))}
                   </div>
                 )}
+                {isLinkedProperty(properties?.propertyId) && (
+                  <div className="mt-4">{renderPropertyLink(properties?.propertyId)}</div>
+                )}
               </div>
             )}
           </Card>
@@ -509,9 +540,10 @@ export const GenUIRenderer: React.FC<GenUIRendererProps> = ({
                   </ul>
                 )}
               </div>
-              {properties?.actions && (
+              {(properties?.actions || isLinkedProperty(properties?.propertyId)) && (
                 <div className="flex gap-2">
-                  {properties.actions.map((action: UIAction, index: number) => (
+                  {renderPropertyLink(properties?.propertyId)}
+                  {properties?.actions?.map((action: UIAction, index: number) => (
                     <Button
                       key={index}
                       size="sm"
@@ -1,19 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { 
+import {
   BarChart3,
   MapPin,
-  Users,
   Building,
-  Wifi,
-  Car,
-  Coffee,
-  Shield,
   Star,
-  TrendingUp,
   ArrowRight,
   CheckCircle,
   XCircle,
@@ -21,216 +15,115 @@ import {
   Sparkles,
   Eye,
   Phone,
-  Heart,
   Share2,
-  Download
+  Download,
+  SlidersHorizontal
 } from 'lucide-react';
 import { Property } from '@/types/property';
-import { ComparisonContext, UserPreferences } from '@/types/thesys';
-import { useAIStore } from '@/store/aiStore';
+import { ComparisonContext } from '@/types/thesys';
 import { useThesysC1 } from '@/hooks/useThesysC1';
+import { API } from '@/services/apiService';
+import { formatApiError, mapSavedComparisonData } from '@/utils/apiMigrationUtils';
+import { getCoverMedia } from '@/lib/mediaUtils';
+import {
+  CRITERION_LABELS,
+  DEFAULT_SCORING_WEIGHTS,
+  CriterionScore,
+  PropertyScore,
+  SCORING_CRITERIA,
+  ScoringCriterion,
+  ScoringPreferences,
+  ScoringWeights,
+  scoreProperties,
+  toScorableProperty
+} from '@/lib/propertyScoring';
 import { GenUIRenderer } from './GenUIRenderer';
+import { ComparisonSettings } from './ComparisonSettings';
 
 interface PropertyComparisonProps {
   properties: Property[];
   criteria?: string[];
   userPriorities?: string[];
+  // Weights and preferences to start from, e.g. those of a shared comparison
+  initialWeights?: ScoringWeights;
+  initialPreferences?: ScoringPreferences;
   onPropertySelect?: (property: Property) => void;
   onViewProperty?: (property: Property) => void;
   onContactProperty?: (property: Property) => void;
   className?: string;
 }
 
-interface ComparisonScore {
-  overall: number;
-  location: number;
-  amenities: number;
-  size: number;
-  value: number;
-}
+const CRITERION_COLORS: Record<ScoringCriterion, string> = {
+  price: 'bg-blue-500',
+  amenities: 'bg-purple-500',
+  size: 'bg-amber-500',
+  distance: 'bg-green-500',
+  availability: 'bg-pink-500'
+};
 
-interface ComparisonInsight {
-  type: 'pro' | 'con' | 'neutral';
-  category: string;
-  text: string;
-  importance: 'high' | 'medium' | 'low';
-}
+const MAX_COMPARED = 4;
+
+const formatPrice = (property: Property) =>
+  property.price?.amount
+    ? `₹${property.price.amount.toLocaleString('en-IN')}/${property.price.period === 'monthly' ? 'month' : property.price.period === 'daily' ? 'day' : 'hour'}`
+    : 'Price on request';
+
+const formatSize = (property: Property) =>
+  property.size?.area ? `${property.size.area.toLocaleString('en-IN')} ${property.size.unit}` : 'Size not specified';
+
+const coverImage = (property: Property) =>
+  getCoverMedia(property.media || [])?.url || property.images?.[0] || '/placeholder-property.jpg';
 
 export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
   properties,
   criteria = ['location', 'size', 'amenities', 'price'],
   userPriorities = [],
+  initialWeights = DEFAULT_SCORING_WEIGHTS,
+  initialPreferences = {},
   onPropertySelect,
   onViewProperty,
   onContactProperty,
   className = ''
 }) => {
-  const [selectedProperties, setSelectedProperties] = useState<Property[]>(properties.slice(0, 3));
+  const [selectedProperties, setSelectedProperties] = useState<Property[]>(properties.slice(0, MAX_COMPARED));
   const [comparisonMode, setComparisonMode] = useState<'table' | 'cards' | 'chart'>('table');
-  const [scores, setScores] = useState<Map<string, ComparisonScore>>(new Map());
-  const [insights, setInsights] = useState<Map<string, ComparisonInsight[]>>(new Map());
-  const [recommendedProperty, setRecommendedProperty] = useState<Property | null>(null);
+  const [weights, setWeights] = useState<ScoringWeights>(initialWeights);
+  const [preferences, setPreferences] = useState<ScoringPreferences>(initialPreferences);
+  const [showSettings, setShowSettings] = useState(false);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
 
-  const { userPreferences } = useAIStore();
   const {
     uiSpec,
     loading,
-    error,
     generateUI
   } = useThesysC1();
 
-  useEffect(() => {
-    calculateComparisonScores();
-    generateInsights();
-    generateAIComparison();
-  }, [selectedProperties, userPriorities]);
-
-  const calculateComparisonScores = () => {
-    const newScores = new Map<string, ComparisonScore>();
-
-    selectedProperties.forEach(property => {
-      // Calculate scores based on various factors
-      const locationScore = calculateLocationScore(property);
-      const amenitiesScore = calculateAmenitiesScore(property);
-      const sizeScore = calculateSizeScore(property);
-      const valueScore = calculateValueScore(property);
-      
-      const overall = (locationScore + amenitiesScore + sizeScore + valueScore) / 4;
-
-      newScores.set(property.id, {
-        overall: Math.round(overall * 10) / 10,
-        location: Math.round(locationScore * 10) / 10,
-        amenities: Math.round(amenitiesScore * 10) / 10,
-        size: Math.round(sizeScore * 10) / 10,
-        value: Math.round(valueScore * 10) / 10
-      });
-    });
-
-    setScores(newScores);
-
-    // Find recommended property (highest overall score)
-    let bestProperty = null;
-    let bestScore = 0;
-    
-    selectedProperties.forEach(property => {
-      const score = newScores.get(property.id);
-      if (score && score.overall > bestScore) {
-        bestScore = score.overall;
-        bestProperty = property;
-      }
-    });
-    
-    setRecommendedProperty(bestProperty);
-  };
-
-  const calculateLocationScore = (property: Property): number => {
-    // Mock scoring based on location desirability
-    const locationScores: Record<string, number> = {
-      'koramangala': 9.0,
-      'indiranagar': 8.5,
-      'whitefield': 8.0,
-      'hsr layout': 8.5,
-      'electronic city': 7.5,
-      'marathahalli': 7.0
-    };
-
-    const location = property.location.toLowerCase();
-    return locationScores[location] || 7.0;
-  };
-
-  const calculateAmenitiesScore = (property: Property): number => {
-    const totalAmenities = property.tags.length;
-    const importantAmenities = property.tags.filter(tag => 
-      ['parking', 'wifi', 'meeting rooms', 'cafeteria', 'security'].includes(tag.toLowerCase())
-    ).length;
+  const scores = useMemo(
+    () => scoreProperties(selectedProperties.map(toScorableProperty), { weights, preferences }),
+    [selectedProperties, weights, preferences]
+  );
+  const scoreById = useMemo(() => new Map(scores.map(score => [score.propertyId, score])), [scores]);
 
-    return Math.min((totalAmenities * 0.5 + importantAmenities * 2), 10);
-  };
+  const recommendedProperty = useMemo(() => {
+    const best = scores.find(score => score.rank === 1 && score.overall > 0);
+    return best ? selectedProperties.find(property => property.id === best.propertyId) || null : null;
+  }, [scores, selectedProperties]);
 
-  const calculateSizeScore = (property: Property): number => {
-    // Score based on how well the size matches user preferences
-    if (!userPreferences.spaceSize) return 8.0;
-    
-    const { min, max } = userPreferences.spaceSize;
-    const propertySize = property.area || 1000; // Default size if not specified
-    
-    if (propertySize >= min && propertySize <= max) return 10.0;
-    if (propertySize < min) return Math.max(6.0, 10 - ((min - propertySize) / min) * 4);
-    return Math.max(6.0, 10 - ((propertySize - max) / max) * 4);
-  };
+  const availableAmenities = useMemo(
+    () => Array.from(new Set(selectedProperties.flatMap(property => property.amenities || []))),
+    [selectedProperties]
+  );
 
-  const calculateValueScore = (property: Property): number => {
-    // Mock value scoring (in real app, this would consider price vs features)
-    const baseScore = 8.0;
-    const amenityBonus = property.tags.length * 0.1;
-    return Math.min(baseScore + amenityBonus, 10);
-  };
+  useEffect(() => {
+    generateAIComparison();
+  }, [selectedProperties, userPriorities]);
 
-  const generateInsights = () => {
-    const newInsights = new Map<string, ComparisonInsight[]>();
-
-    selectedProperties.forEach(property => {
-      const propertyInsights: ComparisonInsight[] = [];
-      const score = scores.get(property.id);
-
-      if (!score) return;
-
-      // Generate insights based on scores
-      if (score.location >= 8.5) {
-        propertyInsights.push({
-          type: 'pro',
-          category: 'Location',
-          text: 'Excellent location with great connectivity and nearby amenities',
-          importance: 'high'
-        });
-      } else if (score.location < 7.0) {
-        propertyInsights.push({
-          type: 'con',
-          category: 'Location',
-          text: 'Location may have limited connectivity or fewer nearby amenities',
-          importance: 'medium'
-        });
-      }
-
-      if (score.amenities >= 8.0) {
-        propertyInsights.push({
-          type: 'pro',
-          category: 'Amenities',
-          text: 'Comprehensive amenities package with all essential facilities',
-          importance: 'high'
-        });
-      }
-
-      if (score.size >= 9.0) {
-        propertyInsights.push({
-          type: 'pro',
-          category: 'Space',
-          text: 'Perfect size match for your team requirements',
-          importance: 'high'
-        });
-      } else if (score.size < 7.0) {
-        propertyInsights.push({
-          type: 'con',
-          category: 'Space',
-          text: 'Space size may not be optimal for your team',
-          importance: 'medium'
-        });
-      }
-
-      if (score.value >= 8.5) {
-        propertyInsights.push({
-          type: 'pro',
-          category: 'Value',
-          text: 'Excellent value for money with great features',
-          importance: 'medium'
-        });
-      }
-
-      newInsights.set(property.id, propertyInsights);
-    });
-
-    setInsights(newInsights);
-  };
+  // A saved link no longer matches once the comparison changes
+  useEffect(() => {
+    setShareUrl(null);
+  }, [selectedProperties, weights, preferences]);
 
   const generateAIComparison = async () => {
     if (selectedProperties.length < 2) return;
@@ -251,20 +144,62 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
     }
   };
 
-  const getScoreColor = (score: number): string => {
+  const handleShare = async () => {
+    setIsSharing(true);
+    setShareError(null);
+    try {
+      const saved = mapSavedComparisonData(await API.comparisons.create({
+        propertyIds: selectedProperties.map(property => property.id),
+        weights,
+        preferences: { ...preferences }
+      }));
+      const url = `${window.location.origin}/compare/${saved.shareId}`;
+      setShareUrl(url);
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+    } catch (error) {
+      console.error('Failed to share comparison:', error);
+      setShareError(formatApiError(error));
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const getScoreColor = (score: number | null): string => {
+    if (score === null) return 'text-gray-500 bg-gray-100';
     if (score >= 8.5) return 'text-green-600 bg-green-50';
     if (score >= 7.0) return 'text-yellow-600 bg-yellow-50';
     return 'text-red-600 bg-red-50';
   };
 
-  const getInsightIcon = (type: ComparisonInsight['type']) => {
-    switch (type) {
-      case 'pro': return <CheckCircle className="h-4 w-4 text-green-500" />;
-      case 'con': return <XCircle className="h-4 w-4 text-red-500" />;
-      case 'neutral': return <Minus className="h-4 w-4 text-gray-500" />;
-    }
+  const getCriterionIcon = (criterion: CriterionScore) => {
+    if (criterion.score === null || criterion.weight === 0) return <Minus className="h-4 w-4 text-gray-400 shrink-0" />;
+    if (criterion.score >= 7) return <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />;
+    if (criterion.score < 5) return <XCircle className="h-4 w-4 text-red-500 shrink-0" />;
+    return <Minus className="h-4 w-4 text-gray-500 shrink-0" />;
   };
 
+  const renderScoreBadge = (score: number | null, size: 'sm' | 'md' = 'sm') => (
+    <span className={`inline-flex items-center rounded-full font-medium ${size === 'md' ? 'px-3 py-1 text-sm' : 'px-2 py-0.5 text-xs'} ${getScoreColor(score)}`}>
+      {score === null ? 'N/A' : `${score}/10`}
+    </span>
+  );
+
+  /**
+   * Each criterion's share of the overall score, as a stacked bar
+   */
+  const renderContributionBar = (score: PropertyScore | undefined) => (
+    <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100">
+      {score?.criteria.filter(criterion => criterion.contribution > 0).map(criterion => (
+        <div
+          key={criterion.criterion}
+          className={CRITERION_COLORS[criterion.criterion]}
+          style={{ width: `${criterion.contribution * 10}%` }}
+          title={`${CRITERION_LABELS[criterion.criterion]}: +${criterion.contribution}`}
+        />
+      ))}
+    </div>
+  );
+
   const renderTableComparison = () => (
     <div className="overflow-x-auto">
       <table className="w-full border-collapse">
@@ -274,8 +209,8 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
             {selectedProperties.map((property) => (
               <th key={property.id} className="text-center p-4 font-medium text-gray-900 bg-gray-50 min-w-48">
                 <div className="flex flex-col items-center gap-2">
-                  <img 
-                    src={property.images[0] || '/placeholder-property.jpg'} 
+                  <img
+                    src={coverImage(property)}
                     alt={property.title}
                     className="w-16 h-16 object-cover rounded-lg"
                   />
@@ -300,19 +235,28 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
               </td>
             ))}
           </tr>
-          
+
           <tr className="border-b">
             <td className="p-4 font-medium">Size</td>
             {selectedProperties.map((property) => (
               <td key={`${property.id}-size`} className="p-4 text-center">
                 <div className="flex items-center justify-center gap-1">
                   <Building className="h-4 w-4 text-gray-400" />
-                  <span className="text-sm">{property.area || 'N/A'} sqft</span>
+                  <span className="text-sm">{formatSize(property)}</span>
                 </div>
               </td>
             ))}
           </tr>
 
+          <tr className="border-b">
+            <td className="p-4 font-medium">Price</td>
+            {selectedProperties.map((property) => (
+              <td key={`${property.id}-price`} className="p-4 text-center text-sm">
+                {formatPrice(property)}
+              </td>
+            ))}
+          </tr>
+
           <tr className="border-b">
             <td className="p-4 font-medium">Category</td>
             {selectedProperties.map((property) => (
@@ -327,14 +271,14 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
             {selectedProperties.map((property) => (
               <td key={`${property.id}-amenities`} className="p-4">
                 <div className="flex flex-wrap gap-1 justify-center">
-                  {property.tags.slice(0, 4).map((tag, index) => (
-                    <Badge key={index} variant="secondary" className="text-xs">
-                      {tag}
+                  {property.amenities.slice(0, 4).map((amenity) => (
+                    <Badge key={amenity} variant="secondary" className="text-xs">
+                      {amenity}
                     </Badge>
                   ))}
-                  {property.tags.length > 4 && (
+                  {property.amenities.length > 4 && (
                     <Badge variant="outline" className="text-xs">
-                      +{property.tags.length - 4}
+                      +{property.amenities.length - 4}
                     </Badge>
                   )}
                 </div>
@@ -342,16 +286,37 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
             ))}
           </tr>
 
+          {SCORING_CRITERIA.map((criterion) => (
+            <tr key={criterion} className="border-b">
+              <td className="p-4">
+                <div className="font-medium">{CRITERION_LABELS[criterion]}</div>
+                <div className="text-xs text-gray-500">
+                  {weights[criterion] === 0 ? 'Ignored' : `Weight ${weights[criterion]}`}
+                </div>
+              </td>
+              {selectedProperties.map((property) => {
+                const result = scoreById.get(property.id)?.criteria.find(item => item.criterion === criterion);
+                return (
+                  <td key={`${property.id}-${criterion}`} className="p-4 text-center">
+                    {renderScoreBadge(result?.score ?? null)}
+                    <p className="text-xs text-gray-500 mt-1">{result?.explanation}</p>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+
           <tr className="border-b bg-blue-50">
             <td className="p-4 font-medium">Overall Score</td>
             {selectedProperties.map((property) => {
-              const score = scores.get(property.id);
+              const score = scoreById.get(property.id);
               return (
                 <td key={`${property.id}-score`} className="p-4 text-center">
-                  <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getScoreColor(score?.overall || 0)}`}>
+                  <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getScoreColor(score?.overall ?? null)}`}>
                     <Star className="h-3 w-3 mr-1" />
-                    {score?.overall || 'N/A'}/10
+                    {score ? `${score.overall}/10` : 'N/A'}
                   </div>
+                  {score && <p className="text-xs text-gray-500 mt-1">Ranked #{score.rank}</p>}
                 </td>
               );
             })}
@@ -391,8 +356,7 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
   const renderCardComparison = () => (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
       {selectedProperties.map((property) => {
-        const score = scores.get(property.id);
-        const propertyInsights = insights.get(property.id) || [];
+        const score = scoreById.get(property.id);
         const isRecommended = recommendedProperty?.id === property.id;
 
         return (
@@ -405,15 +369,15 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
                 </Badge>
               </div>
             )}
-            
-            <img 
-              src={property.images[0] || '/placeholder-property.jpg'} 
+
+            <img
+              src={coverImage(property)}
               alt={property.title}
               className="w-full h-48 object-cover rounded-lg mb-4"
             />
-            
+
             <h3 className="text-lg font-semibold mb-2">{property.title}</h3>
-            
+
             <div className="space-y-2 mb-4">
               <div className="flex items-center gap-2 text-sm text-gray-600">
                 <MapPin className="h-4 w-4" />
@@ -421,32 +385,26 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
               </div>
               <div className="flex items-center gap-2 text-sm text-gray-600">
                 <Building className="h-4 w-4" />
-                {property.area || 'Size not specified'} sqft
+                {formatSize(property)} · {formatPrice(property)}
               </div>
             </div>
 
-            {/* Scores */}
-            <div className="grid grid-cols-2 gap-3 mb-4">
-              <div className="text-center">
-                <div className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getScoreColor(score?.overall || 0)}`}>
-                  {score?.overall || 'N/A'}/10
-                </div>
-                <p className="text-xs text-gray-500 mt-1">Overall</p>
-              </div>
-              <div className="text-center">
-                <div className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getScoreColor(score?.location || 0)}`}>
-                  {score?.location || 'N/A'}/10
-                </div>
-                <p className="text-xs text-gray-500 mt-1">Location</p>
-              </div>
+            {/* Overall score and what it is made of */}
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-gray-600">Overall</span>
+              {renderScoreBadge(score?.overall ?? null, 'md')}
             </div>
+            <div className="mb-4">{renderContributionBar(score)}</div>
 
-            {/* Insights */}
+            {/* Per-criterion explanations */}
             <div className="space-y-2 mb-4">
-              {propertyInsights.slice(0, 2).map((insight, index) => (
-                <div key={index} className="flex items-start gap-2">
-                  {getInsightIcon(insight.type)}
-                  <span className="text-xs text-gray-600">{insight.text}</span>
+              {score?.criteria.map((criterion) => (
+                <div key={criterion.criterion} className="flex items-start gap-2">
+                  {getCriterionIcon(criterion)}
+                  <div className="text-xs text-gray-600">
+                    <span className="font-medium text-gray-800">{CRITERION_LABELS[criterion.criterion]}</span>
+                    {criterion.score !== null && ` ${criterion.score}/10`} — {criterion.explanation}
+                  </div>
                 </div>
               ))}
             </div>
@@ -477,6 +435,39 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
     </div>
   );
 
+  const renderChartComparison = () => (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {SCORING_CRITERIA.map(criterion => (
+          <div key={criterion} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${CRITERION_COLORS[criterion]}`} />
+            {CRITERION_LABELS[criterion]}
+          </div>
+        ))}
+      </div>
+      {[...selectedProperties]
+        .sort((a, b) => (scoreById.get(a.id)?.rank ?? 0) - (scoreById.get(b.id)?.rank ?? 0))
+        .map((property) => {
+          const score = scoreById.get(property.id);
+          return (
+            <div key={property.id} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  className="font-medium text-gray-900 hover:underline text-left"
+                  onClick={() => onPropertySelect?.(property)}
+                >
+                  #{score?.rank} {property.title}
+                </button>
+                <span className="text-gray-600">{score?.overall ?? 'N/A'}/10</span>
+              </div>
+              {renderContributionBar(score)}
+            </div>
+          );
+        })}
+    </div>
+  );
+
   return (
     <Card className={`w-full bg-white shadow-lg ${className}`}>
       {/* Header */}
@@ -492,7 +483,7 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
             </p>
           </div>
         </div>
-        
+
         <div className="flex items-center gap-3">
           <Select value={comparisonMode} onValueChange={(value: any) => setComparisonMode(value)}>
             <SelectTrigger className="w-32">
@@ -504,19 +495,57 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
               <SelectItem value="chart">Chart</SelectItem>
             </SelectContent>
           </Select>
-          
+
+          <Button
+            variant={showSettings ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowSettings(!showSettings)}
+          >
+            <SlidersHorizontal className="h-4 w-4 mr-1" />
+            Priorities
+          </Button>
+
           <Button variant="outline" size="sm">
             <Download className="h-4 w-4 mr-1" />
             Export
           </Button>
-          
-          <Button variant="outline" size="sm">
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleShare}
+            disabled={isSharing || selectedProperties.length < 2}
+          >
             <Share2 className="h-4 w-4 mr-1" />
-            Share
+            {isSharing ? 'Sharing...' : 'Share'}
           </Button>
         </div>
       </div>
 
+      {(shareUrl || shareError) && (
+        <div className={`px-6 py-3 border-b text-sm ${shareError ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-700'}`}>
+          {shareError || (
+            <>
+              Link copied — anyone with it sees this comparison with your priorities:{' '}
+              <a href={shareUrl!} className="font-medium underline break-all">{shareUrl}</a>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Criterion weights and preferences */}
+      {showSettings && (
+        <div className="p-6 border-b bg-gray-50">
+          <ComparisonSettings
+            weights={weights}
+            preferences={preferences}
+            availableAmenities={availableAmenities}
+            onWeightsChange={setWeights}
+            onPreferencesChange={setPreferences}
+          />
+        </div>
+      )}
+
       {/* AI-Generated Comparison Insights */}
       {uiSpec && (
         <div className="p-6 border-b bg-gray-50">
@@ -530,8 +559,8 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
               properties: selectedProperties,
               criteria,
               userPriorities,
-              scores: Object.fromEntries(scores),
-              insights: Object.fromEntries(insights)
+              weights,
+              scores: Object.fromEntries(scoreById)
             }}
           />
         </div>
@@ -544,7 +573,7 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
               <span className="text-sm font-medium text-green-700">
-                Based on your preferences, we recommend: <strong>{recommendedProperty.title}</strong>
+                Based on your priorities, we recommend: <strong>{recommendedProperty.title}</strong>
               </span>
             </div>
             <Button
@@ -571,10 +600,7 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
         ) : comparisonMode === 'cards' ? (
           renderCardComparison()
         ) : (
-          <div className="text-center py-8">
-            <BarChart3 className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-600">Chart view coming soon</p>
-          </div>
+          renderChartComparison()
         )}
       </div>
 
@@ -588,8 +614,8 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
               .slice(0, 3)
               .map((property) => (
                 <div key={property.id} className="flex items-center gap-3 p-3 border rounded-lg bg-white">
-                  <img 
-                    src={property.images[0] || '/placeholder-property.jpg'} 
+                  <img
+                    src={coverImage(property)}
                     alt={property.title}
                     className="w-12 h-12 object-cover rounded"
                   />
@@ -601,11 +627,11 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
                     size="sm"
                     variant="outline"
                     onClick={() => {
-                      if (selectedProperties.length < 4) {
+                      if (selectedProperties.length < MAX_COMPARED) {
                         setSelectedProperties([...selectedProperties, property]);
                       }
                     }}
-                    disabled={selectedProperties.length >= 4}
+                    disabled={selectedProperties.length >= MAX_COMPARED}
                   >
                     Add
                   </Button>
@@ -616,4 +642,4 @@ export const PropertyComparison: React.FC<PropertyComparisonProps> = ({
       )}
     </Card>
   );
-};
\ No newline at end of file
+};
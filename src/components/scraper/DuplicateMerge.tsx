@@ -0,0 +1,340 @@
+/**
+ * DuplicateMerge Component
+ *
+ * Existing properties that look like the same space, compared side by side. The admin keeps
+ * one record, picks each field from either, and the other is merged into it; past merges
+ * list both originals.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeftRight, Copy, GitMerge, RefreshCw, XCircle } from 'lucide-react';
+
+import { DuplicatePair, DuplicateRecord, PropertyMerge, PropertyMergeField } from '../../types/scraper';
+import { ScraperService } from '../../services/scraperService';
+
+const MERGE_FIELDS: Array<{ field: PropertyMergeField; label: string; value: (record: DuplicateRecord) => unknown }> = [
+  { field: 'title', label: 'Title', value: record => record.title },
+  { field: 'description', label: 'Description', value: record => record.description },
+  { field: 'price', label: 'Price', value: record => record.price },
+  { field: 'location', label: 'Location', value: record => record.location },
+  { field: 'address', label: 'Address', value: record => record.address },
+  { field: 'area_sqft', label: 'Area (sqft)', value: record => record.areaSqft },
+  { field: 'property_type', label: 'Type', value: record => record.propertyType },
+  { field: 'availability_status', label: 'Availability', value: record => record.availabilityStatus },
+  { field: 'amenities', label: 'Amenities', value: record => record.amenities },
+  { field: 'features', label: 'Features', value: record => record.features },
+  { field: 'coordinates', label: 'Map pin', value: record => record.coordinates },
+  { field: 'source_url', label: 'Source URL', value: record => record.sourceUrl }
+];
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+const formatValue = (field: PropertyMergeField, value: unknown): string => {
+  if (isEmpty(value)) return '—';
+  if (field === 'price' && typeof value === 'number') return `₹${value.toLocaleString('en-IN')}`;
+  if (field === 'coordinates') {
+    const { lat, lng } = value as { lat: number; lng: number };
+    return `${Number(lat).toFixed(5)}, ${Number(lng).toFixed(5)}`;
+  }
+  if (field === 'features') {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, enabled]) => enabled)
+      .map(([feature]) => feature.replace(/_/g, ' '))
+      .join(', ') || '—';
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Keep the target's value, except where only the other record has one
+ */
+const defaultFieldSources = (target: DuplicateRecord, source: DuplicateRecord) =>
+  Object.fromEntries(
+    MERGE_FIELDS.map(({ field, value }) => [
+      field,
+      isEmpty(value(target)) && !isEmpty(value(source)) ? 'source' : 'target'
+    ])
+  ) as Record<PropertyMergeField, 'target' | 'source'>;
+
+export const DuplicateMerge: React.FC = () => {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [merges, setMerges] = useState<PropertyMerge[]>([]);
+  const [comparing, setComparing] = useState<{ target: DuplicateRecord; source: DuplicateRecord } | null>(null);
+  const [fieldSources, setFieldSources] = useState<Record<PropertyMergeField, 'target' | 'source'> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDuplicates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [pairList, history] = await Promise.all([
+        ScraperService.getDuplicatePairs(),
+        ScraperService.getMergeHistory()
+      ]);
+      setPairs(pairList);
+      setMerges(history);
+    } catch (error) {
+      console.error('Failed to load duplicate properties:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load duplicates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const openComparison = (target: DuplicateRecord, source: DuplicateRecord) => {
+    setComparing({ target, source });
+    setFieldSources(defaultFieldSources(target, source));
+    setError(null);
+  };
+
+  /**
+   * Keep the other record instead; every field choice flips with it
+   */
+  const swapKept = () => {
+    if (!comparing || !fieldSources) return;
+    setComparing({ target: comparing.source, source: comparing.target });
+    setFieldSources(Object.fromEntries(
+      Object.entries(fieldSources).map(([field, from]) => [field, from === 'target' ? 'source' : 'target'])
+    ) as Record<PropertyMergeField, 'target' | 'source'>);
+  };
+
+  const handleMerge = async () => {
+    if (!comparing || !fieldSources) return;
+    if (!confirm(`Merge "${comparing.source.title}" into "${comparing.target.title}"? The merged record is deleted; its original is kept in the merge history.`)) return;
+
+    setIsMerging(true);
+    setError(null);
+    try {
+      await ScraperService.mergeProperties(comparing.target.id, comparing.source.id, fieldSources);
+      setComparing(null);
+      setFieldSources(null);
+      await loadDuplicates();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Merge failed');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setError(null);
+    try {
+      await ScraperService.dismissDuplicatePair(pair.property.id, pair.other.id);
+      setPairs(prev => prev.filter(p => p !== pair));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to dismiss pair');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Side-by-side merge */}
+      {comparing && fieldSources && (
+        <div className="border border-blue-200 rounded-lg overflow-hidden">
+          <div className="bg-blue-50 px-4 py-3 flex items-center justify-between">
+            <h3 className="font-medium text-blue-900">Merge duplicate properties</h3>
+            <div className="flex gap-3">
+              <button
+                onClick={swapKept}
+                className="text-sm text-blue-700 hover:text-blue-900 flex items-center gap-1"
+              >
+                <ArrowLeftRight className="h-4 w-4" />
+                Keep the other record
+              </button>
+              <button
+                onClick={() => { setComparing(null); setFieldSources(null); }}
+                className="text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 w-32">Field</th>
+                <th className="px-4 py-2">
+                  Kept: {comparing.target.title}
+                  <span className="block text-xs font-normal text-gray-500">
+                    {comparing.target.mediaCount} photos · added {new Date(comparing.target.createdAt).toLocaleDateString()}
+                  </span>
+                </th>
+                <th className="px-4 py-2">
+                  Merged in: {comparing.source.title}
+                  <span className="block text-xs font-normal text-gray-500">
+                    {comparing.source.mediaCount} photos (moved to the kept record) · added {new Date(comparing.source.createdAt).toLocaleDateString()}
+                  </span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {MERGE_FIELDS.map(({ field, label, value }) => {
+                const targetValue = value(comparing.target);
+                const sourceValue = value(comparing.source);
+                const differs = !sameValue(targetValue, sourceValue);
+
+                return (
+                  <tr key={field} className={differs ? '' : 'text-gray-400'}>
+                    <td className="px-4 py-2 font-medium text-gray-700">{label}</td>
+                    {(['target', 'source'] as const).map(side => (
+                      <td key={side} className="px-4 py-2 align-top">
+                        <label className="flex items-start gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`merge-${field}`}
+                            checked={fieldSources[field] === side}
+                            disabled={!differs}
+                            onChange={() => setFieldSources(prev => prev && { ...prev, [field]: side })}
+                            className="mt-1"
+                          />
+                          <span className="break-words line-clamp-3">
+                            {formatValue(field, side === 'target' ? targetValue : sourceValue)}
+                          </span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="px-4 py-3 bg-gray-50 flex justify-end">
+            <button
+              onClick={handleMerge}
+              disabled={isMerging}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              <GitMerge className="h-4 w-4" />
+              {isMerging ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Likely duplicates */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Likely Duplicates ({pairs.length})</h3>
+          <button
+            onClick={loadDuplicates}
+            disabled={isLoading}
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {pairs.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Copy className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>No likely duplicates among existing properties</p>
+          </div>
+        ) : (
+          pairs.map(pair => (
+            <div key={`${pair.property.id}-${pair.other.id}`} className="bg-gray-50 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800">
+                      {Math.round(pair.score * 100)}% match
+                    </span>
+                    <span className="text-sm text-gray-600">{pair.reasons.join(' · ')}</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4 mt-2 text-sm">
+                    {[pair.property, pair.other].map(record => (
+                      <div key={record.id} className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{record.title}</p>
+                        <p className="text-gray-600 truncate">{record.address || record.location || '—'}</p>
+                        <p className="text-xs text-gray-500">
+                          {record.status || 'available'}
+                          {record.price !== undefined && ` · ₹${record.price.toLocaleString('en-IN')}`}
+                          {record.areaSqft && ` · ${record.areaSqft} sqft`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-col gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => openComparison(pair.property, pair.other)}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                  >
+                    <GitMerge className="h-4 w-4" />
+                    Compare &amp; merge
+                  </button>
+                  <button
+                    onClick={() => handleDismiss(pair)}
+                    className="text-sm text-gray-600 hover:text-gray-800 flex items-center gap-1"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Not duplicates
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Provenance */}
+      {merges.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium text-gray-900">Merge History</h3>
+          {merges.map(merge => {
+            const fromSource = Object.entries(merge.fieldSources)
+              .filter(([, from]) => from === 'source')
+              .map(([field]) => MERGE_FIELDS.find(f => f.field === field)?.label || field);
+
+            return (
+              <div key={merge.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                <p className="text-gray-900">
+                  <span className="font-medium">{merge.sourceSnapshot.title || 'Untitled'}</span>
+                  {' merged into '}
+                  <span className="font-medium">{merge.targetTitle}</span>
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {new Date(merge.createdAt).toLocaleString()}
+                  {merge.mergedByName && ` by ${merge.mergedByName}`}
+                  {` · taken from the merged record: ${fromSource.length ? fromSource.join(', ') : 'nothing'}`}
+                </p>
+                {merge.sourceUrl && (
+                  <a
+                    href={merge.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:underline break-all"
+                  >
+                    {merge.sourceUrl}
+                  </a>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateMerge;
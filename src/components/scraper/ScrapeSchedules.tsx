@@ -0,0 +1,354 @@
+/**
+ * ScrapeSchedules Component
+ *
+ * Schedules that re-scrape saved search presets on a cron cadence, and the review queue
+ * of listing changes (new, changed, disappeared) those runs found.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  CalendarClock,
+  CheckCircle,
+  Pause,
+  Play,
+  RefreshCw,
+  Trash2,
+  XCircle
+} from 'lucide-react';
+
+import { ScrapeChange, ScrapeChangeType, ScrapeSchedule, SearchPreset } from '../../types/scraper';
+import { ScraperService } from '../../services/scraperService';
+
+interface ScrapeSchedulesProps {
+  presets: SearchPreset[];
+}
+
+const CRON_EXAMPLES = [
+  { label: 'Daily at 06:00 UTC', cron: '0 6 * * *' },
+  { label: 'Weekdays at 09:30 UTC', cron: '30 9 * * 1-5' },
+  { label: 'Every Monday', cron: '@weekly' },
+  { label: 'Every 6 hours', cron: '0 */6 * * *' }
+];
+
+const CHANGE_TYPE_STYLES: Record<ScrapeChangeType, string> = {
+  new: 'bg-green-100 text-green-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+  disappeared: 'bg-red-100 text-red-800'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  price: 'Price',
+  area_sqft: 'Area (sqft)',
+  availability_status: 'Availability'
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'price' && typeof value === 'number') return `₹${value.toLocaleString('en-IN')}`;
+  return String(value);
+};
+
+export const ScrapeSchedules: React.FC<ScrapeSchedulesProps> = ({ presets }) => {
+  const [schedules, setSchedules] = useState<ScrapeSchedule[]>([]);
+  const [changes, setChanges] = useState<ScrapeChange[]>([]);
+  const [form, setForm] = useState({ presetId: '', cron: '0 6 * * *', maxPages: 1, isActive: true });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load schedules and the pending review queue
+   */
+  const loadSchedules = useCallback(async () => {
+    try {
+      const [scheduleList, pending] = await Promise.all([
+        ScraperService.getSchedules(),
+        ScraperService.getChanges({ status: 'pending' })
+      ]);
+      setSchedules(scheduleList);
+      setChanges(pending);
+    } catch (error) {
+      console.error('Failed to load scrape schedules:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load schedules');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  /**
+   * Run an action against a schedule or change, then reload both lists
+   */
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await loadSchedules();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Request failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.presetId) {
+      setError('Choose a search preset to schedule');
+      return;
+    }
+    await runAction('new', () => ScraperService.createSchedule(form));
+  };
+
+  const handleDelete = (schedule: ScrapeSchedule) => {
+    if (!confirm(`Stop re-scraping "${schedule.presetName}"? Its pending changes are removed too.`)) return;
+    runAction(schedule.id, () => ScraperService.deleteSchedule(schedule.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* New Schedule */}
+      <form onSubmit={handleCreate} className="bg-gray-50 rounded-lg p-4 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Schedule a Search Preset</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Search preset</label>
+            <select
+              value={form.presetId}
+              onChange={(e) => setForm(prev => ({ ...prev, presetId: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Select a preset…</option>
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cron (UTC)</label>
+            <input
+              type="text"
+              value={form.cron}
+              onChange={(e) => setForm(prev => ({ ...prev, cron: e.target.value }))}
+              placeholder="0 6 * * *"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Pages</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={form.maxPages}
+              onChange={(e) => setForm(prev => ({ ...prev, maxPages: Math.min(10, Math.max(1, Number(e.target.value) || 1)) }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {CRON_EXAMPLES.map(example => (
+            <button
+              key={example.cron}
+              type="button"
+              onClick={() => setForm(prev => ({ ...prev, cron: example.cron }))}
+              className="px-2 py-1 rounded border border-gray-300 text-gray-600 hover:bg-white"
+            >
+              {example.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm(prev => ({ ...prev, isActive: e.target.checked }))}
+            />
+            Start active
+          </label>
+          <button
+            type="submit"
+            disabled={busyId === 'new'}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add Schedule
+          </button>
+        </div>
+      </form>
+
+      {/* Schedules */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Schedules</h3>
+          <button
+            onClick={loadSchedules}
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </button>
+        </div>
+
+        {schedules.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <CalendarClock className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>No scheduled scrapes yet</p>
+          </div>
+        ) : (
+          schedules.map(schedule => (
+            <div key={schedule.id} className="bg-gray-50 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-1 text-xs rounded-full ${
+                      schedule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                    }`}>
+                      {schedule.isActive ? 'active' : 'paused'}
+                    </span>
+                    <span className="font-medium text-gray-900 truncate">{schedule.presetName}</span>
+                    <code className="text-xs text-gray-600">{schedule.cron}</code>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {schedule.nextRunAt ? `Next run: ${new Date(schedule.nextRunAt).toLocaleString()}` : 'Not scheduled'}
+                    {schedule.lastRunAt && ` · Last run: ${new Date(schedule.lastRunAt).toLocaleString()}`}
+                    {` · ${schedule.maxPages} page${schedule.maxPages === 1 ? '' : 's'}`}
+                    {` · tracking ${schedule.trackedListings} listings`}
+                  </p>
+                  {schedule.lastRun && (
+                    <p className={`text-sm mt-1 ${schedule.lastRun.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>
+                      {schedule.lastRun.status === 'running'
+                        ? 'Running…'
+                        : schedule.lastRun.status === 'failed'
+                        ? `Failed: ${schedule.lastRun.error}`
+                        : `${schedule.lastRun.listingsFound} listings: ${schedule.lastRun.newCount} new, ${schedule.lastRun.changedCount} changed, ${schedule.lastRun.disappearedCount} disappeared`}
+                    </p>
+                  )}
+                  {schedule.pendingChanges > 0 && (
+                    <p className="text-xs text-yellow-700 mt-1">{schedule.pendingChanges} changes awaiting review</p>
+                  )}
+                </div>
+
+                <div className="flex gap-3 flex-shrink-0">
+                  {schedule.isActive && (
+                    <button
+                      onClick={() => runAction(schedule.id, () => ScraperService.runSchedule(schedule.id))}
+                      disabled={busyId === schedule.id || schedule.lastRun?.status === 'running'}
+                      className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      Run now
+                    </button>
+                  )}
+                  <button
+                    onClick={() => runAction(schedule.id, () => ScraperService.updateSchedule(schedule.id, { isActive: !schedule.isActive }))}
+                    disabled={busyId === schedule.id}
+                    className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    {schedule.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    {schedule.isActive ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule)}
+                    disabled={busyId === schedule.id}
+                    className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Review Queue */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-gray-900">Changes to Review ({changes.length})</h3>
+
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing to review. Changes appear here after a scheduled run.</p>
+        ) : (
+          changes.map(change => (
+            <div key={change.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-1 text-xs rounded-full ${CHANGE_TYPE_STYLES[change.changeType]}`}>
+                      {change.changeType}
+                    </span>
+                    <span className="font-medium text-gray-900 truncate">
+                      {change.property?.title || change.listing?.title || 'Untitled listing'}
+                    </span>
+                  </div>
+                  <a
+                    href={change.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:underline break-all"
+                  >
+                    {change.sourceUrl}
+                  </a>
+
+                  {change.changeType === 'new' && change.listing && (
+                    <p className="text-sm text-gray-600 mt-2">
+                      {change.listing.location}
+                      {change.listing.price && ` · ₹${change.listing.price.amount.toLocaleString('en-IN')}/${change.listing.price.period}`}
+                      {change.listing.size && ` · ${change.listing.size.area} ${change.listing.size.unit}`}
+                    </p>
+                  )}
+
+                  {Object.keys(change.changes).length > 0 && (
+                    <ul className="text-sm text-gray-700 mt-2 space-y-1">
+                      {Object.entries(change.changes).map(([field, diff]) => (
+                        <li key={field}>
+                          <span className="text-gray-500">{FIELD_LABELS[field] || field}:</span>{' '}
+                          <span className="line-through text-gray-400">{formatValue(field, diff.from)}</span>
+                          {' → '}
+                          <span className="font-medium">{formatValue(field, diff.to)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <p className="text-xs text-gray-500 mt-2">
+                    {change.presetName} · found {new Date(change.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+
+                <div className="flex gap-3 flex-shrink-0">
+                  <button
+                    onClick={() => runAction(change.id, () => ScraperService.applyChange(change.id))}
+                    disabled={busyId === change.id}
+                    className="text-sm text-green-600 hover:text-green-800 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    {change.changeType === 'new' ? 'Import draft' : 'Apply'}
+                  </button>
+                  <button
+                    onClick={() => runAction(change.id, () => ScraperService.dismissChange(change.id))}
+                    disabled={busyId === change.id}
+                    className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScrapeSchedules;
@@ -5,7 +5,7 @@
  * Orchestrates the complete workflow from search parameter definition to property import.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Download,
   Eye,
@@ -20,7 +20,11 @@ import {
   RefreshCw,
   ExternalLink,
   Info,
-  Upload
+  Upload,
+  XCircle,
+  RotateCcw,
+  CalendarClock,
+  Copy
 } from 'lucide-react';
 
 import {
@@ -28,7 +32,10 @@ import {
   ScrapedPropertyData,
   ScrapeResult,
   ScraperState,
+  ScrapeJob,
+  ScrapeJobStatus,
   BulkImportResult,
+  DuplicateMatch,
   SearchPreset,
   C1TransformMetadata,
   isC1ProcessedProperty,
@@ -41,11 +48,12 @@ import {
   ProgressTracker
 } from '../../services/scraperService';
 
-import { C1TransformService } from '../../services/c1TransformService';
 import { C1PropertyReview } from './C1PropertyReview';
 import { C1UISpecRenderer } from './C1UISpecRenderer';
-
-// Removed SearchParametersForm import - using direct URL input only
+import { SearchParametersForm } from './SearchParametersForm';
+import { ScrapeSchedules } from './ScrapeSchedules';
+import { DuplicateMerge } from './DuplicateMerge';
+import { downloadImportReportCsv } from '../../utils/importReportExport';
 
 // Direct URL Form Component
 interface DirectUrlFormProps {
@@ -178,6 +186,39 @@ const DirectUrlForm: React.FC<DirectUrlFormProps> = ({ onSubmit, onPreview, isLo
   );
 };
 
+// Job this page follows, so a reload reattaches to it
+const ACTIVE_JOB_KEY = 'gsr_active_scrape_job';
+const RUNNING_JOB_STATUSES: ScrapeJobStatus[] = ['queued', 'running', 'extracting'];
+
+const JOB_STATUS_STYLES: Record<ScrapeJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  extracting: 'bg-purple-100 text-purple-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+const isJobRunning = (job: ScrapeJob | null) => !!job && RUNNING_JOB_STATUSES.includes(job.status);
+
+const rememberActiveJob = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_JOB_KEY, id);
+    else localStorage.removeItem(ACTIVE_JOB_KEY);
+  } catch {
+    // Storage blocked: the Jobs tab still lists the job after a reload
+  }
+};
+
+const getRememberedJob = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_JOB_KEY);
+  } catch {
+    return null;
+  }
+};
+
 interface ScraperManagementProps {
   className?: string;
 }
@@ -211,19 +252,37 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     
     // C1 UI specification state
     c1UISpecResponse: null,
-    showC1UISpec: false
+    showC1UISpec: false,
+
+    // Background scrape jobs
+    jobs: [],
+    activeJob: null
   });
 
-  // C1 Transform Service instance
-  const c1Service = new C1TransformService();
+  // Progress stream of the job being followed
+  const jobWatch = useRef<AbortController | null>(null);
 
   // UI state
-  const [activeTab, setActiveTab] = useState<'search' | 'results' | 'history' | 'presets'>('search');
+  const [activeTab, setActiveTab] = useState<'search' | 'results' | 'jobs' | 'history' | 'presets' | 'schedules' | 'duplicates'>('search');
+  const [extractWithC1, setExtractWithC1] = useState(true);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [importSettings, setImportSettings] = useState({
     skipValidation: false,
-    overwriteExisting: false
+    overwriteExisting: false,
+    importDuplicates: false,
+    atomic: false
   });
+  // Latest import batch, whose per-row report can be downloaded
+  const [lastImport, setLastImport] = useState<BulkImportResult | null>(null);
+  // Idempotency key of the import being attempted; kept across retries of the same selection
+  const importKey = useRef<string | null>(null);
+  // Likely duplicates of the listings under review, by source URL
+  const [duplicateMatches, setDuplicateMatches] = useState<Record<string, DuplicateMatch[]>>({});
+
+  // A different selection is a different import
+  useEffect(() => {
+    importKey.current = null;
+  }, [state.selectedProperties]);
 
   // Progress tracker
   const progressTracker = new ProgressTracker((progress, status) => {
@@ -244,8 +303,34 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     loadExamples();
     loadPresets();
     loadHistory();
+    reattachJob();
+
+    return () => jobWatch.current?.abort();
   }, []);
 
+  /**
+   * Flag listings under review that look like existing properties
+   */
+  useEffect(() => {
+    const listings = state.scrapeResults?.data;
+    setDuplicateMatches({});
+    if (!Array.isArray(listings) || listings.length === 0) return;
+
+    let cancelled = false;
+    ScraperService.checkDuplicates(listings.slice(0, 100))
+      .then(results => {
+        if (cancelled) return;
+        setDuplicateMatches(Object.fromEntries(
+          results
+            .filter(result => listings[result.index])
+            .map(result => [listings[result.index]!.sourceUrl, result.matches])
+        ));
+      })
+      .catch(error => console.error('Failed to check listings for duplicates:', error));
+
+    return () => { cancelled = true; };
+  }, [state.scrapeResults]);
+
   /**
    * Load search examples
    */
@@ -291,6 +376,190 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     }
   };
 
+  /**
+   * Load recent scrape jobs
+   */
+  const loadJobs = async () => {
+    try {
+      const jobs = await ScraperService.getJobs();
+      setState(prev => ({ ...prev, jobs }));
+      return jobs;
+    } catch (error) {
+      console.error('Failed to load scrape jobs:', error);
+      return [];
+    }
+  };
+
+  /**
+   * Apply a job update to the jobs list and the followed job
+   */
+  const updateJob = (job: ScrapeJob) => {
+    setState(prev => ({
+      ...prev,
+      jobs: prev.jobs.some(j => j.id === job.id)
+        ? prev.jobs.map(j => (j.id === job.id ? { ...j, ...job } : j))
+        : [job, ...prev.jobs],
+      activeJob: prev.activeJob?.id === job.id ? { ...prev.activeJob, ...job } : prev.activeJob
+    }));
+  };
+
+  /**
+   * Pick up the job followed before a page reload, or else any job still running
+   */
+  const reattachJob = async () => {
+    const jobs = await loadJobs();
+    const id = getRememberedJob() || jobs.find(isJobRunning)?.id;
+    if (!id) return;
+
+    try {
+      const job = await ScraperService.getJob(id);
+      if (isJobRunning(job)) {
+        followJob(job);
+      } else if (job.status === 'review') {
+        openJob(job);
+      } else {
+        rememberActiveJob(null);
+      }
+    } catch (error) {
+      console.error('Failed to reattach to scrape job:', error);
+      rememberActiveJob(null);
+    }
+  };
+
+  /**
+   * Stream a job's progress; once it is ready for review its results are opened
+   */
+  const followJob = (job: ScrapeJob) => {
+    jobWatch.current?.abort();
+    const controller = new AbortController();
+    jobWatch.current = controller;
+
+    rememberActiveJob(job.id);
+    setState(prev => ({ ...prev, activeJob: job, error: null }));
+    updateJob(job);
+
+    let latest = job;
+    ScraperService.watchJob(job.id, update => {
+      latest = update;
+      updateJob(update);
+    }, controller.signal)
+      .then(async () => {
+        if (controller.signal.aborted) return;
+
+        if (latest.status === 'review') {
+          openJob(await ScraperService.getJob(job.id));
+          return;
+        }
+
+        rememberActiveJob(null);
+        setState(prev => ({
+          ...prev,
+          c1TransformInProgress: false,
+          error: latest.status === 'failed' ? latest.error || 'Scrape job failed' : prev.error
+        }));
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        setState(prev => ({
+          ...prev,
+          c1TransformInProgress: false,
+          error: error instanceof Error ? error.message : 'Lost the scrape job progress stream'
+        }));
+      });
+  };
+
+  /**
+   * Show a job's scraped data (and C1 extraction, if it ran) for review
+   */
+  const openJob = (job: ScrapeJob) => {
+    if (!job.result) {
+      setState(prev => ({ ...prev, error: 'This job has no scraped data' }));
+      return;
+    }
+
+    const result = job.result;
+    const extraction = job.extraction;
+    const scraped: ScrapedPropertyData[] = Array.isArray(result.data) ? result.data : [];
+
+    rememberActiveJob(job.status === 'review' ? job.id : null);
+    setState(prev => ({
+      ...prev,
+      activeJob: job,
+      error: null,
+      scrapeResults: { ...result, success: true, data: result.data || [] },
+      rawData: result.rawFirecrawlData,
+      selectedProperties: scraped,
+      displayMode: result.rawFirecrawlData ? 'both' : 'processed',
+      c1TransformInProgress: false,
+      c1TransformError: null,
+      c1ExtractedProperties: null,
+      c1TransformMetadata: null,
+      showC1Review: false,
+      c1UISpecResponse: null,
+      showC1UISpec: false,
+      // A UI specification is rendered as is; plain listings go through the review modal
+      ...(extraction && extraction.uiSpec ? {
+        c1UISpecResponse: {
+          success: true,
+          uiSpec: extraction.uiSpec,
+          properties: extraction.properties || [],
+          metadata: extraction.metadata
+        },
+        showC1UISpec: true,
+        displayMode: 'c1-ui-spec' as const
+      } : {}),
+      ...(extraction && !extraction.uiSpec ? {
+        c1ExtractedProperties: extraction.properties,
+        c1TransformMetadata: extraction.metadata,
+        showC1Review: true,
+        displayMode: 'c1-processed' as const
+      } : {})
+    }));
+    setActiveTab('results');
+  };
+
+  /**
+   * Load a job from the Jobs tab
+   */
+  const handleOpenJob = async (id: string) => {
+    try {
+      openJob(await ScraperService.getJob(id));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to load scrape job'
+      }));
+    }
+  };
+
+  /**
+   * Cancel, retry or close a job from the Jobs tab
+   */
+  const handleJobAction = async (id: string, action: 'cancel' | 'retry' | 'complete') => {
+    try {
+      if (action === 'retry') {
+        followJob(await ScraperService.retryJob(id));
+        return;
+      }
+
+      const job = action === 'cancel'
+        ? await ScraperService.cancelJob(id)
+        : await ScraperService.completeJob(id);
+      updateJob(job);
+
+      if (state.activeJob?.id === id) {
+        jobWatch.current?.abort();
+        rememberActiveJob(null);
+        setState(prev => ({ ...prev, c1TransformInProgress: false }));
+      }
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : `Failed to ${action} scrape job`
+      }));
+    }
+  };
+
   /**
    * Handle URL preview (direct URL only)
    */
@@ -311,9 +580,41 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
   };
 
   /**
-   * Handle property scraping (direct URL only)
+   * Handle search preview (MagicBricks URL built from search parameters)
+   */
+  const handleSearchPreview = async (searchParams: SearchParameters) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    try {
+      const response = await ScraperService.previewSearch({ searchParams });
+      if (response.success && response.data?.constructedUrl) {
+        setPreviewUrl(response.data.constructedUrl);
+      }
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Preview failed'
+      }));
+    }
+  };
+
+  /**
+   * Handle property scraping (direct URL)
    */
-  const handleScrape = async (directUrl: string) => {
+  const handleScrape = (directUrl: string) => runScrape({ directUrl });
+
+  /**
+   * Handle search parameter scraping (from the preset tab's search form)
+   */
+  const handleSearchScrape = (searchParams: SearchParameters | { directUrl: string }, presetId?: string) => {
+    // The form's URL mode submits { directUrl }
+    if ('directUrl' in searchParams) {
+      return runScrape({ directUrl: searchParams.directUrl });
+    }
+    return runScrape({ searchParams, ...(presetId ? { presetId } : {}) });
+  };
+
+  const runScrape = async (request: { directUrl?: string; searchParams?: SearchParameters; presetId?: string }) => {
     setState(prev => ({
       ...prev,
       isLoading: true,
@@ -322,46 +623,20 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     }));
 
     try {
-      // Direct URL scraping only
-      progressTracker.trackScraping('Preparing to scrape URL', 4, 1);
-      progressTracker.trackScraping('Scraping page', 4, 2);
-      
-      const response = await ScraperService.scrapeProperties({
-        directUrl,
+      const job = await ScraperService.createJob({
+        ...request,
         useCrawl: false,
-        maxPages: 1
+        maxPages: 1,
+        extract: extractWithC1
       });
 
-      progressTracker.trackScraping('Extracting data', 4, 3);
-      progressTracker.trackScraping('Transforming results', 4, 4);
-
-      if (response.success) {
-        setState(prev => ({
-          ...prev,
-          scrapeResults: {
-            success: true,
-            data: response.data || [],
-            rawFirecrawlData: response.rawFirecrawlData, // Include raw Firecrawl data
-            metadata: response.metadata
-          },
-          rawData: response.rawFirecrawlData, // Store raw data separately for display
-          selectedProperties: response.data || [],
-          displayMode: response.rawFirecrawlData ? 'both' : 'processed' // Auto-detect display mode
-        }));
-        
-        setActiveTab('results');
-        progressTracker.complete(`Found ${response.data?.length || 0} properties`);
-      } else {
-        throw new Error(response.error || 'Scraping failed');
-      }
-
+      followJob(job);
+      setActiveTab('jobs');
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Scraping failed';
       setState(prev => ({
         ...prev,
-        error: errorMessage
+        error: error instanceof Error ? error.message : 'Scraping failed'
       }));
-      progressTracker.error(errorMessage);
     } finally {
       setState(prev => ({ ...prev, isLoading: false }));
     }
@@ -389,6 +664,37 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     }));
   };
 
+  /**
+   * The job whose results are under review; the import marks it done
+   */
+  const reviewedJobId = () =>
+    state.activeJob?.status === 'review' ? state.activeJob.id : undefined;
+
+  /**
+   * Send the import with the pending idempotency key, so a retry after a lost response
+   * cannot import the listings twice; the key is dropped once a batch result comes back
+   */
+  const runImport = async (properties: ScrapedPropertyData[]) => {
+    importKey.current ||= crypto.randomUUID();
+    const response = await ScraperService.importProperties({
+      properties,
+      skipValidation: importSettings.skipValidation,
+      overwriteExisting: importSettings.overwriteExisting,
+      importDuplicates: importSettings.importDuplicates,
+      mode: importSettings.atomic ? 'atomic' : 'best_effort',
+      jobId: reviewedJobId()
+    }, importKey.current);
+    importKey.current = null;
+    setLastImport(response);
+    return response;
+  };
+
+  const finishJobImport = () => {
+    rememberActiveJob(null);
+    setState(prev => ({ ...prev, activeJob: null }));
+    loadJobs();
+  };
+
   /**
    * Handle property import
    */
@@ -409,19 +715,19 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     }));
 
     try {
-      const response = await ScraperService.importProperties({
-        properties: state.selectedProperties,
-        skipValidation: importSettings.skipValidation,
-        overwriteExisting: importSettings.overwriteExisting
-      });
+      const response = await runImport(state.selectedProperties);
 
       progressTracker.trackImporting(response.imported, state.selectedProperties.length);
 
       if (response.success) {
-        progressTracker.complete(`Successfully imported ${response.imported} properties`);
+        progressTracker.complete(
+          `Successfully imported ${response.imported} properties` +
+          (response.skipped ? `, skipped ${response.skipped} likely duplicates` : '')
+        );
         
         // Reload history
         loadHistory();
+        finishJobImport();
         
         // Clear results
         setState(prev => ({
@@ -432,7 +738,11 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
         
         setActiveTab('history');
       } else {
-        throw new Error('Import failed');
+        throw new Error(
+          response.status === 'rolled_back'
+            ? `Nothing was imported: ${response.failed} of ${response.report.length} listings failed, so the batch was rolled back`
+            : 'Import failed'
+        );
       }
 
     } catch (error) {
@@ -467,17 +777,19 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
       showC1Review: false,
       c1TransformMetadata: null,
       c1UISpecResponse: null,
-      showC1UISpec: false
+      showC1UISpec: false,
+      activeJob: isJobRunning(prev.activeJob) ? prev.activeJob : null
     }));
+    if (!isJobRunning(state.activeJob)) rememberActiveJob(null);
     setPreviewUrl(null);
     setActiveTab('search');
   };
 
   /**
-   * Handle C1 transformation of raw Firecrawl data
+   * Handle C1 transformation of the reviewed job's raw Firecrawl data (runs as part of the job)
    */
   const handleC1Transform = async () => {
-    if (!state.rawData) {
+    if (!state.rawData || !state.activeJob) {
       setState(prev => ({ ...prev, error: 'No raw data available for C1 processing' }));
       return;
     }
@@ -490,70 +802,15 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     }));
 
     try {
-      const response = await c1Service.transformFirecrawlData(
-        state.rawData,
-        state.scrapeResults?.metadata.url || 'unknown',
-        state.scrapeResults?.metadata.searchParams,
-        undefined, // extractionHints
-        (progress) => {
-          // Update progress in state if needed
-          setState(prev => ({
-            ...prev,
-            importProgress: {
-              isImporting: false,
-              progress: progress.progress,
-              status: progress.message
-            }
-          }));
-        }
-      );
-
-      if (response.success) {
-        // Check if this is a UI specification response or traditional property extraction
-        if (response.uiSpec) {
-          // Handle UI specification response
-          setState(prev => ({
-            ...prev,
-            c1UISpecResponse: {
-              success: true,
-              uiSpec: response.uiSpec,
-              properties: response.properties || [],
-              metadata: response.metadata
-            },
-            showC1UISpec: true,
-            displayMode: 'c1-ui-spec'
-          }));
-        } else {
-          // Handle traditional property extraction
-          setState(prev => ({
-            ...prev,
-            c1ExtractedProperties: response.properties,
-            c1TransformMetadata: response.metadata,
-            showC1Review: true,
-            displayMode: 'c1-processed'
-          }));
-        }
-      } else {
-        throw new Error(response.error || 'C1 transformation failed');
-      }
-
+      followJob(await ScraperService.extractJob(state.activeJob.id));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'C1 transformation failed';
       setState(prev => ({
         ...prev,
+        c1TransformInProgress: false,
         c1TransformError: errorMessage,
         error: errorMessage
       }));
-    } finally {
-      setState(prev => ({
-        ...prev,
-        c1TransformInProgress: false,
-        importProgress: {
-          isImporting: false,
-          progress: 0,
-          status: ''
-        }
-      }));
     }
   };
 
@@ -578,13 +835,16 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
     }));
 
     try {
-      const response = await ScraperService.importProperties({
-        properties: approvedProperties,
-        skipValidation: importSettings.skipValidation,
-        overwriteExisting: importSettings.overwriteExisting
-      });
+      const response = await runImport(approvedProperties);
+      if (response.status === 'rolled_back') {
+        throw new Error(`Nothing was imported: ${response.failed} of ${response.report.length} listings failed, so the batch was rolled back`);
+      }
+      finishJobImport();
 
-      progressTracker.complete(`Successfully imported ${response.imported} C1-processed properties`);
+      progressTracker.complete(
+        `Successfully imported ${response.imported} C1-processed properties` +
+        (response.skipped ? `, skipped ${response.skipped} likely duplicates` : '')
+      );
       
       // Load updated history
       await loadHistory();
@@ -704,6 +964,18 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
               Results ({state.scrapeResults?.data?.length || 0})
             </button>
             
+            <button
+              onClick={() => { setActiveTab('jobs'); loadJobs(); }}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'jobs'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <Clock className="h-4 w-4 inline mr-2" />
+              Jobs ({state.jobs.filter(isJobRunning).length} running)
+            </button>
+
             <button
               onClick={() => setActiveTab('history')}
               className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -715,11 +987,74 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
               <History className="h-4 w-4 inline mr-2" />
               History
             </button>
+
+            <button
+              onClick={() => setActiveTab('presets')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'presets'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <Settings className="h-4 w-4 inline mr-2" />
+              Search Presets
+            </button>
+
+            <button
+              onClick={() => { setActiveTab('schedules'); loadPresets(); }}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'schedules'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <CalendarClock className="h-4 w-4 inline mr-2" />
+              Schedules
+            </button>
+
+            <button
+              onClick={() => setActiveTab('duplicates')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'duplicates'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <Copy className="h-4 w-4 inline mr-2" />
+              Duplicates
+            </button>
           </nav>
         </div>
 
         {/* Tab Content */}
         <div className="p-6">
+          {/* Followed Job Progress */}
+          {state.activeJob && isJobRunning(state.activeJob) && (
+            <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-center gap-3">
+                <RefreshCw className="h-5 w-5 text-blue-600 animate-spin" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-blue-900 truncate">
+                    {state.activeJob.stageMessage || 'Waiting for a worker'}
+                  </p>
+                  <div className="mt-2 bg-blue-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 rounded-full h-2 transition-all"
+                      style={{ width: `${state.activeJob.progress}%` }}
+                    />
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleJobAction(state.activeJob!.id, 'cancel')}
+                  className="text-sm text-red-600 hover:text-red-800 flex items-center gap-1"
+                >
+                  <XCircle className="h-4 w-4" />
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Search Tab */}
           {activeTab === 'search' && (
             <div className="space-y-6">
@@ -727,10 +1062,20 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
               <DirectUrlForm
                 onSubmit={handleScrape}
                 onPreview={handlePreview}
-                isLoading={state.isLoading}
+                isLoading={state.isLoading || isJobRunning(state.activeJob)}
                 showPreview={true}
               />
 
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={extractWithC1}
+                  onChange={(e) => setExtractWithC1(e.target.checked)}
+                  className="mr-2"
+                />
+                Extract listings with C1 AI once the page is scraped
+              </label>
+
               {/* URL Preview */}
               {previewUrl && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -782,6 +1127,27 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
             </div>
           )}
 
+          {/* Search Presets Tab */}
+          {activeTab === 'presets' && (
+            <div className="space-y-6">
+              <SearchParametersForm
+                onSubmit={handleSearchScrape}
+                onPreview={handleSearchPreview}
+                isLoading={state.isLoading || isJobRunning(state.activeJob)}
+                showPreview={true}
+              />
+
+              {previewUrl && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <p className="text-blue-700 text-sm">This URL will be scraped by Firecrawl:</p>
+                  <code className="mt-2 block p-3 bg-white rounded border text-sm text-gray-800 break-all">
+                    {previewUrl}
+                  </code>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Results Tab */}
           {activeTab === 'results' && state.scrapeResults && (
             <div className="space-y-6">
@@ -926,6 +1292,30 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
                     />
                     <span className="text-sm">Overwrite existing properties</span>
                   </label>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={importSettings.importDuplicates}
+                      onChange={(e) => setImportSettings(prev => ({ 
+                        ...prev, 
+                        importDuplicates: e.target.checked 
+                      }))}
+                      className="mr-2"
+                    />
+                    <span className="text-sm">Import likely duplicates anyway (they are skipped otherwise)</span>
+                  </label>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={importSettings.atomic}
+                      onChange={(e) => setImportSettings(prev => ({ 
+                        ...prev, 
+                        atomic: e.target.checked 
+                      }))}
+                      className="mr-2"
+                    />
+                    <span className="text-sm">All or nothing (import none of the listings if any fails)</span>
+                  </label>
                 </div>
               </div>
 
@@ -1001,6 +1391,25 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
                               </div>
                             )}
 
+                            {/* Likely duplicates */}
+                            {duplicateMatches[property.sourceUrl] && (
+                              <div className="mt-3 p-2 bg-orange-50 border border-orange-200 rounded">
+                                <div className="flex items-center gap-2">
+                                  <Copy className="h-4 w-4 text-orange-600" />
+                                  <span className="text-sm font-medium text-orange-800">
+                                    Possible duplicate{importSettings.importDuplicates ? '' : ' (skipped on import)'}
+                                  </span>
+                                </div>
+                                <ul className="text-xs text-orange-700 mt-1 list-disc list-inside">
+                                  {duplicateMatches[property.sourceUrl]!.map(match => (
+                                    <li key={match.propertyId}>
+                                      {match.title} ({Math.round(match.score * 100)}%): {match.reasons.join(', ')}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+
                             {/* Source URL */}
                             <div className="mt-3 flex items-center gap-2">
                               <a
@@ -1044,7 +1453,7 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
                   {state.rawData && (
                     <button
                       onClick={handleC1Transform}
-                      disabled={state.c1TransformInProgress}
+                      disabled={state.c1TransformInProgress || isJobRunning(state.activeJob)}
                       className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
                     >
                       {state.c1TransformInProgress ? (
@@ -1093,6 +1502,120 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
             </div>
           )}
 
+          {/* Jobs Tab */}
+          {activeTab === 'jobs' && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">Scrape Jobs</h3>
+                <button
+                  onClick={loadJobs}
+                  className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  Refresh
+                </button>
+              </div>
+
+              {state.jobs.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Clock className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                  <p>No scrape jobs yet</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {state.jobs.map((job) => (
+                    <div key={job.id} className="bg-gray-50 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-2 py-1 text-xs rounded-full ${JOB_STATUS_STYLES[job.status]}`}>
+                              {job.status}
+                            </span>
+                            <code className="text-xs text-gray-700 truncate">{job.sourceUrl}</code>
+                          </div>
+                          <p className={`text-sm mt-2 ${job.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>
+                            {job.status === 'failed' ? job.error : job.stageMessage}
+                          </p>
+                          {isJobRunning(job) && (
+                            <div className="mt-2 bg-blue-200 rounded-full h-2">
+                              <div
+                                className="bg-blue-600 rounded-full h-2 transition-all"
+                                style={{ width: `${job.progress}%` }}
+                              />
+                            </div>
+                          )}
+                          <p className="text-xs text-gray-500 mt-1">
+                            Queued: {new Date(job.createdAt).toLocaleString()}
+                            {job.createdByName && ` by ${job.createdByName}`}
+                            {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                          </p>
+                        </div>
+
+                        <div className="flex gap-3 flex-shrink-0">
+                          {isJobRunning(job) && state.activeJob?.id !== job.id && (
+                            <button
+                              onClick={() => followJob(job)}
+                              className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                            >
+                              <Eye className="h-4 w-4" />
+                              Follow
+                            </button>
+                          )}
+                          {isJobRunning(job) && (
+                            <button
+                              onClick={() => handleJobAction(job.id, 'cancel')}
+                              className="text-sm text-red-600 hover:text-red-800 flex items-center gap-1"
+                            >
+                              <XCircle className="h-4 w-4" />
+                              Cancel
+                            </button>
+                          )}
+                          {(job.status === 'failed' || job.status === 'cancelled') && (
+                            <button
+                              onClick={() => handleJobAction(job.id, 'retry')}
+                              className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                              Retry
+                            </button>
+                          )}
+                          {(job.status === 'review' || job.status === 'done') && job.hasResult && (
+                            <button
+                              onClick={() => handleOpenJob(job.id)}
+                              className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                            >
+                              <Database className="h-4 w-4" />
+                              Open
+                            </button>
+                          )}
+                          {job.status === 'review' && (
+                            <button
+                              onClick={() => handleJobAction(job.id, 'complete')}
+                              className="text-sm text-green-600 hover:text-green-800 flex items-center gap-1"
+                            >
+                              <CheckCircle className="h-4 w-4" />
+                              Done
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Schedules Tab */}
+          {activeTab === 'schedules' && (
+            <ScrapeSchedules presets={state.presets} />
+          )}
+
+          {/* Duplicates Tab */}
+          {activeTab === 'duplicates' && (
+            <DuplicateMerge />
+          )}
+
           {/* History Tab */}
           {activeTab === 'history' && (
             <div className="space-y-4">
@@ -1157,6 +1680,37 @@ export const ScraperManagement: React.FC<ScraperManagementProps> = ({
         />
       )}
 
+      {/* Last import report */}
+      {lastImport && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Database className="h-5 w-5 text-gray-600" />
+            <p className="text-sm text-gray-700">
+              {lastImport.replayed ? 'Import already done: ' : 'Last import: '}
+              {lastImport.status === 'rolled_back'
+                ? `rolled back, ${lastImport.failed} failed`
+                : `${lastImport.imported} imported, ${lastImport.failed} failed, ${lastImport.skipped} skipped`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadImportReportCsv(lastImport)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-700 hover:bg-blue-50 rounded-lg"
+            >
+              <Download className="h-4 w-4" />
+              Download report
+            </button>
+            <button
+              onClick={() => setLastImport(null)}
+              className="p-1.5 text-gray-400 hover:text-gray-600"
+              title="Dismiss"
+            >
+              <XCircle className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Error Display */}
       {state.error && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -2,16 +2,18 @@
  * SearchParametersForm Component
  * 
  * Form component for defining search parameters for property scraping.
- * Allows users to specify location, property type, price range, amenities, etc.
- * to build MagicBricks search URLs for scraping.
+ * Allows users to pick a listing portal and specify location, property type, price range,
+ * amenities, etc. to build that portal's search URLs; filters the portal cannot apply are disabled.
  */
 
 import React, { useState, useEffect } from 'react';
-import { Search, MapPin, Building, DollarSign, Home, Calendar, Package, ArrowUpDown, Plus, X, Eye, Link, Settings } from 'lucide-react';
+import { Search, MapPin, Building, DollarSign, Home, Calendar, Package, ArrowUpDown, Plus, X, Eye, Link, Settings, Bookmark, Save, Trash2, Users, Globe } from 'lucide-react';
 import {
   SearchParameters,
   SearchParametersFormData,
   SearchParametersFormErrors,
+  SearchPreset,
+  SourcePortalInfo,
   PROPERTY_TYPES,
   FURNISHED_OPTIONS,
   AVAILABILITY_OPTIONS,
@@ -19,10 +21,11 @@ import {
   COMMON_AMENITIES,
   DEFAULT_SEARCH_PARAMS
 } from '../../types/scraper';
-import { ScraperValidation } from '../../services/scraperService';
+import { ScraperService, ScraperValidation } from '../../services/scraperService';
 
 interface SearchParametersFormProps {
-  onSubmit: (searchParams: SearchParameters) => void;
+  // presetId is set when the search is an unchanged saved preset (so its run stats update)
+  onSubmit: (searchParams: SearchParameters, presetId?: string) => void;
   onPreview?: (searchParams: SearchParameters) => void;
   isLoading?: boolean;
   initialValues?: SearchParameters;
@@ -30,6 +33,266 @@ interface SearchParametersFormProps {
   className?: string;
 }
 
+// Portal searched when none is picked (as on the backend)
+const DEFAULT_PORTAL = 'magicbricks';
+
+const SEARCH_FILTERS: SourcePortalInfo['filters'] = ['price', 'area', 'furnished', 'availability', 'amenities'];
+
+const formatRunDate = (value: string) => {
+  const days = Math.floor((Date.now() - new Date(value).getTime()) / (24 * 60 * 60 * 1000));
+  if (days < 1) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 30) return `${days} days ago`;
+  return new Date(value).toLocaleDateString();
+};
+
+interface SearchPresetPanelProps {
+  formData: SearchParametersFormData;
+  activePreset: SearchPreset | null;
+  onLoad: (preset: SearchPreset) => void;
+  // Called after the current parameters were saved to `preset` (or the active preset was deleted)
+  onSaved: (preset: SearchPreset | null) => void;
+}
+
+/**
+ * Load, save, overwrite and share saved search presets
+ */
+const SearchPresetPanel: React.FC<SearchPresetPanelProps> = ({ formData, activePreset, onLoad, onSaved }) => {
+  const [presets, setPresets] = useState<SearchPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [presetError, setPresetError] = useState('');
+  const [presetMessage, setPresetMessage] = useState('');
+
+  useEffect(() => {
+    ScraperService.getPresets()
+      .then(response => setPresets(response.data))
+      .catch(() => setPresetError('Saved presets could not be loaded'));
+  }, []);
+
+  useEffect(() => {
+    setPresetName(activePreset?.name || '');
+    setIsShared(activePreset?.isShared || false);
+  }, [activePreset]);
+
+  const ownPresets = presets.filter(preset => preset.isOwner);
+  const sharedPresets = presets.filter(preset => !preset.isOwner);
+
+  const replacePreset = (saved: SearchPreset) => {
+    setPresets(current => [saved, ...current.filter(preset => preset.id !== saved.id)]);
+    onSaved(saved);
+  };
+
+  const handleSelect = (presetId: string) => {
+    setPresetError('');
+    setPresetMessage('');
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) onLoad(preset);
+  };
+
+  const getSearchParams = () => {
+    const validation = ScraperValidation.validateSearchForm(formData);
+    if (!validation.isValid || !validation.searchParams) {
+      setPresetError('Fix the highlighted search parameters before saving');
+      return null;
+    }
+    return validation.searchParams;
+  };
+
+  const overwrite = async (preset: SearchPreset, searchParams: SearchParameters) => {
+    const response = await ScraperService.updatePreset(preset.id, {
+      name: presetName.trim(),
+      searchParams,
+      isShared
+    });
+    if (response.data) {
+      replacePreset(response.data);
+      setPresetMessage(`Preset "${response.data.name}" updated`);
+    }
+  };
+
+  const handleSaveNew = async () => {
+    const searchParams = getSearchParams();
+    if (!searchParams || presetName.trim().length < 3) {
+      if (searchParams) setPresetError('Preset name must be at least 3 characters');
+      return;
+    }
+
+    setIsSaving(true);
+    setPresetError('');
+    setPresetMessage('');
+    try {
+      const response = await ScraperService.savePreset({ name: presetName.trim(), searchParams, isShared });
+      if (response.data) {
+        replacePreset(response.data);
+        setPresetMessage(`Preset "${response.data.name}" saved`);
+      }
+    } catch (error: any) {
+      const existing = ownPresets.find(preset => preset.name.toLowerCase() === presetName.trim().toLowerCase());
+      if (error?.statusCode === 409 && existing) {
+        if (window.confirm(`You already have a preset named "${existing.name}". Overwrite it with these parameters?`)) {
+          try {
+            await overwrite(existing, searchParams);
+          } catch (overwriteError: any) {
+            setPresetError(overwriteError?.message || 'Failed to overwrite preset');
+          }
+        }
+      } else {
+        setPresetError(error?.message || 'Failed to save preset');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activePreset) return;
+    const searchParams = getSearchParams();
+    if (!searchParams) return;
+
+    setIsSaving(true);
+    setPresetError('');
+    setPresetMessage('');
+    try {
+      await overwrite(activePreset, searchParams);
+    } catch (error: any) {
+      setPresetError(error?.message || 'Failed to update preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activePreset || !window.confirm(`Delete the preset "${activePreset.name}"?`)) return;
+
+    setIsSaving(true);
+    setPresetError('');
+    setPresetMessage('');
+    try {
+      await ScraperService.deletePreset(activePreset.id);
+      setPresets(current => current.filter(preset => preset.id !== activePreset.id));
+      onSaved(null);
+      setPresetMessage('Preset deleted');
+    } catch (error: any) {
+      setPresetError(error?.message || 'Failed to delete preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canEdit = !!activePreset?.isOwner;
+
+  return (
+    <div className="mb-6 bg-gray-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Bookmark className="h-4 w-4 text-blue-600" />
+        <h4 className="font-medium text-gray-900 text-sm">Saved Presets</h4>
+      </div>
+
+      <select
+        value={activePreset?.id || ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+      >
+        <option value="">{presets.length > 0 ? 'Load a preset...' : 'No saved presets yet'}</option>
+        {ownPresets.length > 0 && (
+          <optgroup label="My presets">
+            {ownPresets.map(preset => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}{preset.isShared ? ' (shared)' : ''}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {sharedPresets.length > 0 && (
+          <optgroup label="Shared by other admins">
+            {sharedPresets.map(preset => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}{preset.ownerName ? ` - ${preset.ownerName}` : ''}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      {activePreset && (
+        <p className="text-xs text-gray-500">
+          {activePreset.lastRunAt
+            ? `Last run ${formatRunDate(activePreset.lastRunAt)} · ${activePreset.lastResultCount ?? 0} results · run ${activePreset.runCount} time${activePreset.runCount === 1 ? '' : 's'}`
+            : 'Not run yet'}
+          {!activePreset.isOwner && activePreset.ownerName ? ` · shared by ${activePreset.ownerName}` : ''}
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          maxLength={100}
+          placeholder="Preset name, e.g. Bangalore Offices Under 50L"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          onKeyPress={(e) => {
+            // Enter saves the preset instead of submitting the scrape
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSaveNew();
+            }
+          }}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-600 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={isShared}
+            onChange={(e) => setIsShared(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <Users className="h-4 w-4" />
+          Share with admins
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {canEdit && (
+          <button
+            type="button"
+            onClick={handleUpdate}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            Update "{activePreset!.name}"
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSaveNew}
+          disabled={isSaving || !presetName.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-white disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          Save as new preset
+        </button>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </button>
+        )}
+      </div>
+
+      {presetError && <p className="text-sm text-red-600">{presetError}</p>}
+      {presetMessage && <p className="text-sm text-green-600">{presetMessage}</p>}
+    </div>
+  );
+};
+
 export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
   onSubmit,
   onPreview,
@@ -49,6 +312,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
       return ScraperValidation.searchParamsToFormData(initialValues);
     }
     return {
+      portal: '',
       location: '',
       propertyType: DEFAULT_SEARCH_PARAMS.propertyType || '',
       minPrice: '',
@@ -65,6 +329,22 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
   const [errors, setErrors] = useState<SearchParametersFormErrors>({});
   const [customAmenity, setCustomAmenity] = useState('');
 
+  // Searchable portals; until they load every field stays enabled
+  const [sources, setSources] = useState<SourcePortalInfo[]>([]);
+  const portalInfo = sources.find(source => source.id === (formData.portal || DEFAULT_PORTAL));
+  const supports = (filter: SourcePortalInfo['filters'][number]) => !portalInfo || portalInfo.filters.includes(filter);
+  const areaLabel = portalInfo?.areaUnit === 'seats' ? 'Seats' : 'Area (sq ft)';
+
+  // Loaded or just-saved preset, and the form values it holds (to tell if they were edited since)
+  const [activePreset, setActivePreset] = useState<SearchPreset | null>(null);
+  const [presetFormKey, setPresetFormKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    ScraperService.getSources()
+      .then(setSources)
+      .catch(() => setSources([]));
+  }, []);
+
   // Update form when initial values change
   useEffect(() => {
     if (initialValues) {
@@ -72,6 +352,22 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
     }
   }, [initialValues]);
 
+  /**
+   * Fill the form from a saved preset
+   */
+  const handleLoadPreset = (preset: SearchPreset) => {
+    const presetFormData = ScraperValidation.searchParamsToFormData(preset.searchParams);
+    setFormData(presetFormData);
+    setErrors({});
+    setActivePreset(preset);
+    setPresetFormKey(JSON.stringify(presetFormData));
+  };
+
+  const handlePresetSaved = (preset: SearchPreset | null) => {
+    setActivePreset(preset);
+    setPresetFormKey(preset ? JSON.stringify(formData) : null);
+  };
+
   /**
    * Handle form field changes
    */
@@ -91,6 +387,33 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
     }
   };
 
+  /**
+   * Switch portal, clearing what the new one cannot search by
+   */
+  const handlePortalChange = (portal: string) => {
+    const info = sources.find(source => source.id === portal);
+    setFormData(prev => {
+      if (!info) return { ...prev, portal };
+      const keeps = (filter: SourcePortalInfo['filters'][number]) => info.filters.includes(filter);
+      // Square feet and seats are not interchangeable
+      const keepsArea = keeps('area') && info.areaUnit === (portalInfo?.areaUnit || 'sqft');
+      return {
+        ...prev,
+        portal,
+        propertyType: (info.propertyTypes as string[]).includes(prev.propertyType) ? prev.propertyType : '',
+        minPrice: keeps('price') ? prev.minPrice : '',
+        maxPrice: keeps('price') ? prev.maxPrice : '',
+        minArea: keepsArea ? prev.minArea : '',
+        maxArea: keepsArea ? prev.maxArea : '',
+        furnished: keeps('furnished') ? prev.furnished : '',
+        availability: keeps('availability') ? prev.availability : '',
+        amenities: keeps('amenities') ? prev.amenities : [],
+        sortBy: (info.sortOrders as string[]).includes(prev.sortBy) ? prev.sortBy : 'relevance'
+      };
+    });
+    setErrors({});
+  };
+
   /**
    * Add amenity to the list
    */
@@ -170,7 +493,8 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
       }
 
       if (validation.searchParams) {
-        onSubmit(validation.searchParams);
+        const runsPreset = activePreset && JSON.stringify(formData) === presetFormKey;
+        onSubmit(validation.searchParams, runsPreset ? activePreset.id : undefined);
       }
     }
   };
@@ -277,7 +601,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
                 <p className="mt-1 text-sm text-red-600">{urlError}</p>
               )}
               <p className="mt-1 text-xs text-gray-500">
-                Enter any property listing URL to scrape it directly. Works with MagicBricks, 99acres, and other real estate sites.
+                Enter any property listing URL to scrape it directly. Pages on {(sources.length ? sources.map(source => source.name) : ['MagicBricks']).join(', ')} are read by that portal's adapter; other real estate sites use AI extraction only.
               </p>
             </div>
 
@@ -294,6 +618,47 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
         ) : (
           /* Search Parameters Form */
           <div className="space-y-6">
+        <SearchPresetPanel
+          formData={formData}
+          activePreset={activePreset}
+          onLoad={handleLoadPreset}
+          onSaved={handlePresetSaved}
+        />
+
+        {/* Listing portal */}
+        <div>
+          <label htmlFor="portal" className="block text-sm font-medium text-gray-700 mb-2">
+            <Globe className="h-4 w-4 inline mr-1" />
+            Listing Portal
+          </label>
+          <select
+            id="portal"
+            value={formData.portal || DEFAULT_PORTAL}
+            onChange={(e) => handlePortalChange(e.target.value)}
+            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              errors.portal ? 'border-red-300' : 'border-gray-300'
+            }`}
+          >
+            {sources.length === 0 && <option value={DEFAULT_PORTAL}>MagicBricks</option>}
+            {sources.map(source => (
+              <option key={source.id} value={source.id}>
+                {source.name}
+              </option>
+            ))}
+          </select>
+          {errors.portal && (
+            <p className="mt-1 text-sm text-red-600">{errors.portal}</p>
+          )}
+          {portalInfo && portalInfo.filters.length < SEARCH_FILTERS.length && (
+            <p className="mt-1 text-xs text-gray-500">
+              {portalInfo.name} cannot filter by {SEARCH_FILTERS
+                .filter(filter => !portalInfo.filters.includes(filter))
+                .map(filter => filter === 'area' && portalInfo.areaUnit === 'seats' ? 'seats' : filter)
+                .join(', ')}
+            </p>
+          )}
+        </div>
+
         {/* Location */}
         <div>
           <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
@@ -314,7 +679,9 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
             <p className="mt-1 text-sm text-red-600">{errors.location}</p>
           )}
           <p className="mt-1 text-xs text-gray-500">
-            Optional but recommended for better search results
+            {portalInfo?.requiresLocation
+              ? `Required for ${portalInfo.name}; use "Locality, City" to narrow the search`
+              : 'Optional but recommended for better search results'}
           </p>
         </div>
 
@@ -333,7 +700,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
             }`}
           >
             <option value="">Select property type...</option>
-            {PROPERTY_TYPES.map(type => (
+            {PROPERTY_TYPES.filter(type => !portalInfo || (portalInfo.propertyTypes as string[]).includes(type.value)).map(type => (
               <option key={type.value} value={type.value}>
                 {type.label}
               </option>
@@ -349,13 +716,14 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
           <div>
             <label htmlFor="minPrice" className="block text-sm font-medium text-gray-700 mb-2">
               <DollarSign className="h-4 w-4 inline mr-1" />
-              Min Price (INR)
+              Min Price (INR{portalInfo?.areaUnit === 'seats' ? ' per seat' : ''})
             </label>
             <input
               type="number"
               id="minPrice"
               value={formData.minPrice}
               onChange={(e) => handleChange('minPrice', e.target.value)}
+              disabled={!supports('price')}
               placeholder="e.g., 50000"
               min="0"
               className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
@@ -369,13 +737,14 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
           
           <div>
             <label htmlFor="maxPrice" className="block text-sm font-medium text-gray-700 mb-2">
-              Max Price (INR)
+              Max Price (INR{portalInfo?.areaUnit === 'seats' ? ' per seat' : ''})
             </label>
             <input
               type="number"
               id="maxPrice"
               value={formData.maxPrice}
               onChange={(e) => handleChange('maxPrice', e.target.value)}
+              disabled={!supports('price')}
               placeholder="e.g., 500000"
               min="0"
               className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
@@ -392,13 +761,14 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label htmlFor="minArea" className="block text-sm font-medium text-gray-700 mb-2">
-              Min Area (sq ft)
+              Min {areaLabel}
             </label>
             <input
               type="number"
               id="minArea"
               value={formData.minArea}
               onChange={(e) => handleChange('minArea', e.target.value)}
+              disabled={!supports('area')}
               placeholder="e.g., 500"
               min="0"
               className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
@@ -412,13 +782,14 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
           
           <div>
             <label htmlFor="maxArea" className="block text-sm font-medium text-gray-700 mb-2">
-              Max Area (sq ft)
+              Max {areaLabel}
             </label>
             <input
               type="number"
               id="maxArea"
               value={formData.maxArea}
               onChange={(e) => handleChange('maxArea', e.target.value)}
+              disabled={!supports('area')}
               placeholder="e.g., 5000"
               min="0"
               className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
@@ -441,6 +812,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
             id="furnished"
             value={formData.furnished}
             onChange={(e) => handleChange('furnished', e.target.value)}
+            disabled={!supports('furnished')}
             className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
               errors.furnished ? 'border-red-300' : 'border-gray-300'
             }`}
@@ -467,6 +839,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
             id="availability"
             value={formData.availability}
             onChange={(e) => handleChange('availability', e.target.value)}
+            disabled={!supports('availability')}
             className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
               errors.availability ? 'border-red-300' : 'border-gray-300'
             }`}
@@ -499,7 +872,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
                   key={amenity}
                   type="button"
                   onClick={() => addAmenity(amenity)}
-                  disabled={formData.amenities.includes(amenity)}
+                  disabled={!supports('amenities') || formData.amenities.includes(amenity)}
                   className={`px-3 py-1 text-xs rounded-full border transition-colors ${
                     formData.amenities.includes(amenity)
                       ? 'bg-blue-100 text-blue-800 border-blue-200 cursor-not-allowed'
@@ -519,6 +892,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
                 type="text"
                 value={customAmenity}
                 onChange={(e) => setCustomAmenity(e.target.value)}
+                disabled={!supports('amenities')}
                 placeholder="Add custom amenity..."
                 className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                 onKeyPress={(e) => {
@@ -531,7 +905,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
               <button
                 type="button"
                 onClick={addCustomAmenity}
-                disabled={!customAmenity.trim()}
+                disabled={!supports('amenities') || !customAmenity.trim()}
                 className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
               >
                 <Plus className="h-4 w-4" />
@@ -582,7 +956,7 @@ export const SearchParametersForm: React.FC<SearchParametersFormProps> = ({
                   errors.sortBy ? 'border-red-300' : 'border-gray-300'
                 }`}
               >
-                {SORT_OPTIONS.map(option => (
+                {SORT_OPTIONS.filter(option => !portalInfo || (portalInfo.sortOrders as string[]).includes(option.value)).map(option => (
                   <option key={option.value} value={option.value}>
                     {option.label}
                   </option>
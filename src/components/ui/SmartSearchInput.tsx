@@ -12,6 +12,9 @@ interface SmartSearchInputProps {
   placeholder?: string;
   className?: string;
   disabled?: boolean;
+  // Spelling correction from the last search ("did you mean")
+  didYouMean?: string | null;
+  onDidYouMeanSelect?: (suggestion: string) => void;
 }
 
 interface SearchSuggestion {
@@ -28,7 +31,9 @@ const SmartSearchInput: React.FC<SmartSearchInputProps> = ({
   onLocationSelect,
   placeholder = "Search for office spaces, locations, or amenities...",
   className = "",
-  disabled = false
+  disabled = false,
+  didYouMean = null,
+  onDidYouMeanSelect
 }) => {
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isApiLoaded, setIsApiLoaded] = useState(false);
@@ -367,6 +372,21 @@ const SmartSearchInput: React.FC<SmartSearchInputProps> = ({
         )}
       </div>
 
+      {/* Did you mean - hidden while the dropdown is open so it doesn't shift it */}
+      {didYouMean && onDidYouMeanSelect && !showSuggestions && (
+        <p className="mt-2 text-sm text-gray-600">
+          Did you mean{' '}
+          <button
+            type="button"
+            onClick={() => onDidYouMeanSelect(didYouMean)}
+            className="font-medium text-primary-600 hover:text-primary-700 hover:underline"
+          >
+            {didYouMean}
+          </button>
+          ?
+        </p>
+      )}
+
       {/* Suggestions Dropdown */}
       {showSuggestions && (suggestions.length > 0 || placeSuggestions.length > 0) && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg z-50 max-h-80 overflow-y-auto">
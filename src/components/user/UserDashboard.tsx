@@ -1,24 +1,33 @@
 import React, { useState, useEffect } from 'react';
-import { User, Settings, Heart, MessageSquare, Edit2, Save, X, Phone, Mail } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { User, Settings, Heart, MessageSquare, Edit2, Save, X, Phone, Mail, Bell, Search, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useUserStore } from '@/store/userStore';
+import { useSavedSearchStore } from '@/store/savedSearchStore';
+import type { SavedProperty, SavedSearch } from '@/types/user';
 import { useToast } from '@/hooks/use-toast';
 import { API } from '@/services/apiService';
 
-interface Property {
-  id: string;
-  title: string;
-  location: string;
-  price: number;
-  image: string;
-  type: 'sale' | 'rent';
-  bedrooms?: number;
-  bathrooms?: number;
-  area?: number;
-}
+const PRICE_PERIOD_LABELS = { monthly: 'month', daily: 'day', hourly: 'hour' } as const;
+
+// Readable labels for the saved search summary chips
+const SEARCH_QUERY_LABELS: Record<string, string> = {
+  q: 'Keywords',
+  location: 'Location',
+  locations: 'Areas',
+  propertyType: 'Type',
+  minPrice: 'Min ₹',
+  maxPrice: 'Max ₹',
+  minSize: 'Min sqft',
+  maxSize: 'Max sqft',
+  amenities: 'Amenities',
+  locationRadius: 'Within km',
+  availabilityStatus: 'Availability',
+};
 
 interface UserInquiry {
   id: string;
@@ -31,17 +40,37 @@ interface UserInquiry {
 }
 
 export const UserDashboard: React.FC = () => {
-  const { user, isAuthenticated, updateProfile, getSavedProperties, unsaveProperty } = useUserStore();
+  const {
+    user,
+    isAuthenticated,
+    updateProfile,
+    savedPropertyItems: savedProperties,
+    refreshSavedProperties,
+    unsaveProperty,
+    updateSavedPropertyNotes
+  } = useUserStore();
+  const {
+    savedSearches,
+    alerts,
+    unreadAlertCount,
+    loadSavedSearches,
+    updateSavedSearch,
+    deleteSavedSearch,
+    loadAlerts,
+    markAlertsRead
+  } = useSavedSearchStore();
   const { toast } = useToast();
+  const navigate = useNavigate();
   
-  const [activeTab, setActiveTab] = useState<'profile' | 'saved' | 'inquiries'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'saved' | 'searches' | 'alerts' | 'inquiries'>('profile');
   const [isEditing, setIsEditing] = useState(false);
   const [profileData, setProfileData] = useState({
     name: '',
     email: '',
     phone: '',
   });
-  const [savedProperties, setSavedProperties] = useState<Property[]>([]);
+  const [editingNotesFor, setEditingNotesFor] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
   const [userInquiries, setUserInquiries] = useState<UserInquiry[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -57,46 +86,23 @@ export const UserDashboard: React.FC = () => {
 
   useEffect(() => {
     if (isAuthenticated && user) {
-      loadSavedProperties();
       loadUserInquiries();
     }
   }, [isAuthenticated, user]);
 
-  const loadSavedProperties = async () => {
-    try {
-      const savedPropertyIds = getSavedProperties();
-      
-      if (savedPropertyIds.length === 0) {
-        setSavedProperties([]);
-        return;
-      }
+  // Re-fetch on mount so availability reflects the live listings
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshSavedProperties();
+    }
+  }, [isAuthenticated, refreshSavedProperties]);
 
-      // Fetch real properties from backend using SupabaseService
-      const properties = await API.getPropertiesByIds(savedPropertyIds);
-      
-      // Transform Supabase properties to UserDashboard Property interface
-      const transformedProperties: Property[] = properties.map((prop: any) => ({
-        id: prop.id,
-        title: prop.title,
-        location: prop.location,
-        price: prop.price || 0,
-        image: prop.images?.[0] || '/images/property-placeholder.jpg',
-        type: prop.property_type === 'residential' ? 'rent' : 'sale',
-        bedrooms: prop.bedrooms,
-        bathrooms: prop.bathrooms,
-        area: prop.area_sqft,
-      }));
-      
-      setSavedProperties(transformedProperties);
-    } catch (error) {
-      console.error('Error loading saved properties:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to load saved properties.',
-        variant: 'destructive',
-      });
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadSavedSearches();
+      loadAlerts();
     }
-  };
+  }, [isAuthenticated, loadSavedSearches, loadAlerts]);
 
   const loadUserInquiries = async () => {
     if (!user) return;
@@ -160,15 +166,59 @@ export const UserDashboard: React.FC = () => {
   const handleUnsaveProperty = async (propertyId: string) => {
     const success = await unsaveProperty(propertyId);
     if (success) {
-      // Refresh saved properties
-      loadSavedProperties();
       toast({
         title: 'Property Removed',
         description: 'Property has been removed from your saved list.',
       });
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to remove saved property. Please try again.',
+        variant: 'destructive',
+      });
     }
   };
 
+  const handleEditNotes = (item: SavedProperty) => {
+    setEditingNotesFor(item.propertyId);
+    setNotesDraft(item.notes || '');
+  };
+
+  const handleSaveNotes = async (propertyId: string) => {
+    const success = await updateSavedPropertyNotes(propertyId, notesDraft);
+    if (success) {
+      setEditingNotesFor(null);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to save notes. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRunSearch = (search: SavedSearch) => {
+    navigate(`/properties?${new URLSearchParams(search.query).toString()}`);
+  };
+
+  const handleToggleSearchOption = async (search: SavedSearch, updates: { alertsEnabled?: boolean; emailDigest?: boolean }) => {
+    const success = await updateSavedSearch(search.id, updates);
+    if (!success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update saved search. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    const success = await deleteSavedSearch(search.id);
+    toast(success
+      ? { title: 'Search Deleted', description: `"${search.name}" and its alerts have been removed.` }
+      : { title: 'Error', description: 'Failed to delete saved search. Please try again.', variant: 'destructive' });
+  };
+
   if (!isAuthenticated || !user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -235,6 +285,31 @@ export const UserDashboard: React.FC = () => {
                 <MessageSquare className="w-4 h-4 inline mr-2" />
                 Inquiries ({userInquiries.length})
               </button>
+              <button
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'searches'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+                onClick={() => setActiveTab('searches')}
+              >
+                <Search className="w-4 h-4 inline mr-2" />
+                Saved Searches ({savedSearches.length})
+              </button>
+              <button
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'alerts'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+                onClick={() => setActiveTab('alerts')}
+              >
+                <Bell className="w-4 h-4 inline mr-2" />
+                Alerts
+                {unreadAlertCount > 0 && (
+                  <Badge className="ml-2 bg-red-500 text-white">{unreadAlertCount}</Badge>
+                )}
+              </button>
             </nav>
           </div>
 
@@ -324,35 +399,211 @@ export const UserDashboard: React.FC = () => {
                   </div>
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {savedProperties.map((property) => (
-                      <div key={property.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow">
-                        <img
-                          src={property.image}
-                          alt={property.title}
-                          className="w-full h-48 object-cover"
-                        />
-                        <div className="p-4">
-                          <h3 className="font-semibold text-gray-900 mb-2">{property.title}</h3>
-                          <p className="text-gray-600 text-sm mb-2">{property.location}</p>
-                          <p className="text-lg font-bold text-primary-600 mb-3">
-                            ${property.price.toLocaleString()}
-                          </p>
-                          
-                          <div className="flex justify-between items-center text-sm text-gray-500 mb-3">
-                            {property.bedrooms && <span>{property.bedrooms} bed</span>}
-                            {property.bathrooms && <span>{property.bathrooms} bath</span>}
-                            {property.area && <span>{property.area} sqft</span>}
+                    {savedProperties.map((item) => {
+                      const { property } = item;
+                      const isAvailable = property?.availability?.available !== false &&
+                        (property?.availability?.status ?? 'available') === 'available';
+
+                      return (
+                        <div key={item.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow">
+                          <img
+                            src={property?.media?.[0]?.url || property?.images?.[0] || '/images/property-placeholder.jpg'}
+                            alt={property?.title || 'Saved property'}
+                            className="w-full h-48 object-cover"
+                          />
+                          <div className="p-4">
+                            <div className="flex items-start justify-between gap-2 mb-2">
+                              <h3 className="font-semibold text-gray-900">{property?.title || 'Listing removed'}</h3>
+                              <Badge variant={isAvailable ? 'default' : 'destructive'}>
+                                {isAvailable
+                                  ? 'Available'
+                                  : (property?.availability?.status || 'not-available')
+                                      .replace('-', ' ')
+                                      .replace(/\b\w/g, l => l.toUpperCase())}
+                              </Badge>
+                            </div>
+                            <p className="text-gray-600 text-sm mb-2">{property?.location}</p>
+                            {property?.price && (
+                              <p className="text-lg font-bold text-primary-600 mb-3">
+                                ₹{property.price.amount.toLocaleString('en-IN')}/{PRICE_PERIOD_LABELS[property.price.period]}
+                              </p>
+                            )}
+
+                            <div className="flex justify-between items-center text-sm text-gray-500 mb-3">
+                              {property?.size?.area ? <span>{property.size.area} {property.size.unit}</span> : null}
+                              <span>Saved {new Date(item.savedAt).toLocaleDateString()}</span>
+                            </div>
+
+                            {editingNotesFor === item.propertyId ? (
+                              <div className="space-y-2 mb-3">
+                                <Textarea
+                                  value={notesDraft}
+                                  onChange={(e) => setNotesDraft(e.target.value)}
+                                  placeholder="Private notes, e.g. visit scheduled, negotiable rent..."
+                                  maxLength={1000}
+                                  rows={3}
+                                />
+                                <div className="flex space-x-2">
+                                  <Button size="sm" onClick={() => handleSaveNotes(item.propertyId)}>
+                                    <Save className="w-4 h-4 mr-1" />
+                                    Save
+                                  </Button>
+                                  <Button size="sm" variant="ghost" onClick={() => setEditingNotesFor(null)}>
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </div>
+                            ) : (
+                              <button
+                                className="w-full text-left text-sm mb-3 p-2 rounded-md bg-gray-50 hover:bg-gray-100"
+                                onClick={() => handleEditNotes(item)}
+                              >
+                                {item.notes
+                                  ? <span className="text-gray-700 whitespace-pre-line">{item.notes}</span>
+                                  : <span className="text-gray-400 flex items-center"><Edit2 className="w-3 h-3 mr-1" />Add a note</span>}
+                              </button>
+                            )}
+
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleUnsaveProperty(item.propertyId)}
+                              className="w-full"
+                            >
+                              <Heart className="w-4 h-4 mr-2 fill-current text-red-500" />
+                              Remove from Saved
+                            </Button>
                           </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
 
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleUnsaveProperty(property.id)}
-                            className="w-full"
-                          >
-                            <Heart className="w-4 h-4 mr-2 fill-current text-red-500" />
-                            Remove from Saved
-                          </Button>
+            {/* Saved Searches Tab */}
+            {activeTab === 'searches' && (
+              <div className="space-y-6">
+                <h2 className="text-lg font-semibold text-gray-900">Saved Searches</h2>
+
+                {savedSearches.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Search className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No Saved Searches</h3>
+                    <p className="text-gray-600">
+                      Use "Save search" on the properties page to get alerted about new matches.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {savedSearches.map((search) => (
+                      <div key={search.id} className="bg-white border border-gray-200 rounded-lg p-5">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <h3 className="font-semibold text-gray-900 flex items-center">
+                              {search.name}
+                              {search.unreadAlerts > 0 && (
+                                <Badge className="ml-2" variant="secondary">{search.unreadAlerts} new</Badge>
+                              )}
+                            </h3>
+                            <div className="flex flex-wrap gap-2 mt-2">
+                              {Object.entries(search.query)
+                                .filter(([key]) => SEARCH_QUERY_LABELS[key])
+                                .map(([key, value]) => (
+                                  <Badge key={key} variant="outline" className="font-normal">
+                                    {SEARCH_QUERY_LABELS[key]}: {value}
+                                  </Badge>
+                                ))}
+                            </div>
+                          </div>
+                          <div className="flex space-x-2 shrink-0">
+                            <Button size="sm" onClick={() => handleRunSearch(search)}>
+                              <Search className="w-4 h-4 mr-1" />
+                              Run
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleDeleteSearch(search)} aria-label={`Delete ${search.name}`}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-6 mt-4 text-sm text-gray-700">
+                          <label className="flex items-center space-x-2">
+                            <Checkbox
+                              checked={search.alertsEnabled}
+                              onCheckedChange={(checked) => handleToggleSearchOption(search, { alertsEnabled: checked === true })}
+                            />
+                            <span>Alerts</span>
+                          </label>
+                          <label className={`flex items-center space-x-2 ${search.alertsEnabled ? '' : 'text-gray-400'}`}>
+                            <Checkbox
+                              checked={search.alertsEnabled && search.emailDigest}
+                              disabled={!search.alertsEnabled}
+                              onCheckedChange={(checked) => handleToggleSearchOption(search, { emailDigest: checked === true })}
+                            />
+                            <span>Email digest</span>
+                          </label>
+                          {search.lastAlertedAt && (
+                            <span className="text-gray-500">
+                              Last match {new Date(search.lastAlertedAt).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Alerts Tab */}
+            {activeTab === 'alerts' && (
+              <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-gray-900">Alerts</h2>
+                  {unreadAlertCount > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => markAlertsRead()}>
+                      Mark all as read
+                    </Button>
+                  )}
+                </div>
+
+                {alerts.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Bell className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No Alerts Yet</h3>
+                    <p className="text-gray-600">
+                      New properties matching your saved searches will show up here.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {alerts.map((alert) => (
+                      <div
+                        key={alert.id}
+                        className={`flex items-start justify-between gap-4 border rounded-lg p-4 ${
+                          alert.readAt ? 'bg-white border-gray-200' : 'bg-primary-50 border-primary-200'
+                        }`}
+                      >
+                        <div className="min-w-0">
+                          <p className="text-xs text-gray-500 mb-1">
+                            {alert.savedSearchName} · {new Date(alert.createdAt).toLocaleDateString()}
+                          </p>
+                          <h3 className="font-semibold text-gray-900">
+                            {alert.property?.title || 'Listing removed'}
+                          </h3>
+                          <p className="text-sm text-gray-600">{alert.property?.location}</p>
+                        </div>
+                        <div className="flex flex-col items-end space-y-2 shrink-0">
+                          <Badge variant={alert.reason === 'new' ? 'default' : 'secondary'}>
+                            {alert.reason === 'new' ? 'New listing' : 'Available again'}
+                          </Badge>
+                          {!alert.readAt && (
+                            <Button variant="ghost" size="sm" onClick={() => markAlertsRead([alert.id])}>
+                              Mark as read
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
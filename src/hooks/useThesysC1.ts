@@ -113,8 +113,8 @@ export function useThesysC1(options: UseThesysC1Options = {}): UseThesysC1Return
       return null;
     }
 
-    // Check cache first
-    if (enableCache) {
+    // Check cache first (thread turns are never cached - the backend saves each one)
+    if (enableCache && !options?.threadId) {
       const cacheKey = getCacheKey(prompt, context);
       const cached = cache.current.get(cacheKey);
       if (cached) {
@@ -342,6 +342,40 @@ export function geocodeAreaName(areaName: string): Coordinates | null {
   return { lat: 12.9716, lng: 77.5946 };
 }
 
+/**
+ * Reference points users can measure distance from (metro stations and major landmarks)
+ */
+export interface Landmark {
+  id: string;
+  name: string;
+  kind: 'metro' | 'landmark';
+  coordinates: Coordinates;
+}
+
+export const BENGALURU_LANDMARKS: Landmark[] = [
+  { id: 'mg-road-metro', name: 'MG Road Metro', kind: 'metro', coordinates: { lat: 12.9755, lng: 77.6069 } },
+  { id: 'majestic-metro', name: 'Kempegowda (Majestic) Metro', kind: 'metro', coordinates: { lat: 12.9757, lng: 77.5728 } },
+  { id: 'indiranagar-metro', name: 'Indiranagar Metro', kind: 'metro', coordinates: { lat: 12.9784, lng: 77.6385 } },
+  { id: 'baiyappanahalli-metro', name: 'Baiyappanahalli Metro', kind: 'metro', coordinates: { lat: 12.9907, lng: 77.6525 } },
+  { id: 'whitefield-metro', name: 'Whitefield (Kadugodi) Metro', kind: 'metro', coordinates: { lat: 12.9957, lng: 77.7579 } },
+  { id: 'yeshwanthpur-metro', name: 'Yeshwanthpur Metro', kind: 'metro', coordinates: { lat: 13.0236, lng: 77.5501 } },
+  { id: 'silk-board', name: 'Silk Board Junction', kind: 'landmark', coordinates: { lat: 12.9177, lng: 77.6238 } },
+  { id: 'manyata-tech-park', name: 'Manyata Tech Park', kind: 'landmark', coordinates: { lat: 13.0450, lng: 77.6210 } },
+  { id: 'embassy-golf-links', name: 'Embassy Golf Links', kind: 'landmark', coordinates: { lat: 12.9539, lng: 77.6433 } },
+  { id: 'electronic-city', name: 'Electronic City Phase 1', kind: 'landmark', coordinates: { lat: 12.8452, lng: 77.6602 } },
+  { id: 'kempegowda-airport', name: 'Kempegowda International Airport', kind: 'landmark', coordinates: { lat: 13.1986, lng: 77.7066 } }
+];
+
+/**
+ * Format a distance in kilometres for display ("850 m", "3.2 km")
+ */
+export function formatDistanceKm(distanceKm: number): string {
+  if (distanceKm < 1) {
+    return `${Math.round(distanceKm * 1000)} m`;
+  }
+  return `${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km`;
+}
+
 /**
  * Property input type for coordinate extraction
  */
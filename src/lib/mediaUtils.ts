@@ -0,0 +1,47 @@
+/**
+ * Property gallery helpers: display order, cover and media kinds
+ */
+
+import type { PropertyMedia, PropertyMediaKind } from '@/types/property';
+
+export const MEDIA_KIND_LABELS: Record<PropertyMediaKind, string> = {
+  photo: 'Photo',
+  video: 'Video',
+  floor_plan: 'Floor plan',
+  panorama: '360° panorama',
+  document: 'Document'
+};
+
+/**
+ * Kind of a gallery item - media saved before kinds existed is a photo or a video, by type
+ */
+export const getMediaKind = (media: PropertyMedia): PropertyMediaKind => {
+  if (media.kind) return media.kind;
+  if (media.type === 'video') return 'video';
+  return media.type === 'document' ? 'document' : 'photo';
+};
+
+/**
+ * Media in gallery order; items without a position keep their place in the list
+ */
+export const sortGallery = (media: PropertyMedia[]): PropertyMedia[] =>
+  media
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.position ?? a.index) - (b.item.position ?? b.index) || a.index - b.index)
+    .map(({ item }) => item);
+
+/**
+ * The marked cover, else the first item that can be shown as an image
+ */
+export const getCoverMedia = (media: PropertyMedia[]): PropertyMedia | null => {
+  const gallery = sortGallery(media);
+  return gallery.find(item => item.isCover && getMediaKind(item) !== 'document')
+    || gallery.find(item => getMediaKind(item) !== 'document')
+    || null;
+};
+
+/**
+ * Alt text for an item: its own, else its caption, else the fallback
+ */
+export const getMediaAlt = (media: PropertyMedia, fallback: string): string =>
+  media.altText || media.caption || fallback;
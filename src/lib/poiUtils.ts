@@ -0,0 +1,28 @@
+import type { NearbyPoi, PoiCategory } from '@/types/poi';
+
+export const POI_CATEGORIES: PoiCategory[] = ['metro', 'bus_stop', 'restaurant', 'hospital', 'gym', 'bank'];
+
+export const POI_CATEGORY_LABELS: Record<PoiCategory, string> = {
+  metro: 'Metro',
+  bus_stop: 'Bus stops',
+  restaurant: 'Restaurants & cafés',
+  hospital: 'Hospitals & clinics',
+  gym: 'Gyms',
+  bank: 'Banks & ATMs'
+};
+
+// Beyond this a place is better reached by auto or cab than on foot
+export const WALKABLE_MINUTES = 15;
+
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export const formatWalk = (minutes: number): string => `${minutes} min walk`;
+
+/**
+ * The closest place of a category, if any is within the radius
+ */
+export const nearestOf = (pois: NearbyPoi[], category: PoiCategory): NearbyPoi | undefined =>
+  pois
+    .filter(poi => poi.category === category)
+    .reduce<NearbyPoi | undefined>((nearest, poi) => (!nearest || poi.distanceMeters < nearest.distanceMeters ? poi : nearest), undefined);
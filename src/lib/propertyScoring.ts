@@ -0,0 +1,30 @@
+/**
+ * Property comparison scoring
+ * The engine is shared with the backend, which scores shared comparisons the same way
+ */
+
+import { Property } from '@/types/property';
+import { ScorableProperty } from '../../backend/src/shared/propertyScoring';
+
+export * from '../../backend/src/shared/propertyScoring';
+
+// Listing prices quoted per day or hour, as a month of working days
+const MONTHLY_MULTIPLIER: Record<string, number> = {
+  monthly: 1,
+  daily: 22,
+  hourly: 22 * 8
+};
+
+export const toScorableProperty = (property: Property): ScorableProperty => ({
+  id: property.id,
+  price: property.price?.amount
+    ? property.price.amount * (MONTHLY_MULTIPLIER[property.price.period] ?? 1)
+    : null,
+  // Sizes given in seats cannot be priced per sqft
+  areaSqft: property.size?.unit === 'sqft' && property.size.area > 0 ? property.size.area : null,
+  amenities: property.amenities || [],
+  features: { ...property.features },
+  coordinates: property.coordinates || null,
+  available: property.availability?.available ?? true,
+  availableFrom: property.availability?.availableFrom || null
+});
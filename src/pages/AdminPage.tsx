@@ -14,6 +14,7 @@ import FAQManagement from '@/components/admin/FAQManagement';
 import CompanyManagement from '@/components/admin/CompanyManagement';
 import MockAccountManager from '@/components/admin/MockAccountManager';
 import SettingsPage from '@/components/admin/SettingsPage';
+import AIUsageDashboard from '@/components/admin/AIUsageDashboard';
 import ScraperManagement from '@/components/scraper/ScraperManagement';
 import SamplePage from '@/components/admin/SamplePage';
 import { logComponentEvent } from '@/utils/debugHelper';
@@ -47,6 +48,7 @@ const AdminPage: React.FC = () => {
     if (pathname.includes('/admin/faq')) return 'faq';
     if (pathname.includes('/admin/companies')) return 'companies';
     if (pathname.includes('/admin/scraper')) return 'scraper';
+    if (pathname.includes('/admin/ai-usage')) return 'ai-usage';
     if (pathname.includes('/admin/sample')) return 'sample';
     if (pathname.includes('/admin/settings')) return 'settings';
     return 'dashboard'; // default
@@ -250,6 +252,8 @@ const AdminPage: React.FC = () => {
           return <CompanyManagement />;
         case 'scraper':
           return <ScraperManagement />;
+        case 'ai-usage':
+          return <AIUsageDashboard />;
         case 'mock-accounts':
           return <MockAccountManager />;
         case 'sample':
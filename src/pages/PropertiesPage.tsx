@@ -30,6 +30,7 @@ import { Property } from '@/types/property';
 import { useTestimonialStore } from '@/store/testimonialStore';
 import { usePropertyStore } from '@/store/propertyStore';
 import { mockTestimonials } from '@/data/mockTestimonials';
+import { trackInteraction } from '@/services/interactionService';
 
 const PropertiesPage: React.FC = () => {
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
@@ -74,6 +75,7 @@ const PropertiesPage: React.FC = () => {
   const handleAddToComparison = (property: Property) => {
     if (propertiesForComparison.length < 4 && !propertiesForComparison.find(p => p.id === property.id)) {
       setPropertiesForComparison(prev => [...prev, property]);
+      trackInteraction(property.id, 'compare', { context: 'properties_page' });
     }
   };
 
@@ -86,6 +88,9 @@ const PropertiesPage: React.FC = () => {
   };
 
   const handleInquirySubmit = () => {
+    if (selectedProperty) {
+      trackInteraction(selectedProperty.id, 'contact', { context: 'inquiry_form' });
+    }
     setShowInquiryForm(false);
     setSelectedProperty(null);
   };
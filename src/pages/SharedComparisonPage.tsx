@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import PropertyModal from '@/components/PropertyModal';
+import { PropertyComparison } from '@/components/ai/PropertyComparison';
+import { Property } from '@/types/property';
+import { SharedComparison } from '@/types/comparison';
+import { API } from '@/services/apiService';
+import { formatApiError, mapSharedComparisonData } from '@/utils/apiMigrationUtils';
+import { BarChart3, Loader2 } from 'lucide-react';
+
+/**
+ * A comparison opened from its share link, starting from the sender's priorities
+ */
+const SharedComparisonPage: React.FC = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const [shared, setShared] = useState<SharedComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
+
+  useEffect(() => {
+    if (!shareId) return;
+
+    const loadComparison = async () => {
+      try {
+        setShared(mapSharedComparisonData(await API.comparisons.getShared(shareId)));
+      } catch (error) {
+        console.error('Error loading shared comparison:', error);
+        setError(formatApiError(error));
+      }
+    };
+    loadComparison();
+  }, [shareId]);
+
+  if (error || (shared && shared.properties.length < 2)) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16">
+        <Card className="p-12 text-center">
+          <BarChart3 className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Comparison unavailable</h1>
+          <p className="text-gray-600 mb-6">
+            {error || 'Some of the compared properties are no longer listed.'}
+          </p>
+          <Button asChild>
+            <Link to="/properties">Browse properties</Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex items-center justify-center py-24 text-gray-600">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading comparison...
+      </div>
+    );
+  }
+
+  const leader = shared.scores.find(score => score.rank === 1);
+  const leaderTitle = shared.properties.find(property => property.id === leader?.propertyId)?.title;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {shared.comparison.title || 'Shared property comparison'}
+        </h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Shared on {new Date(shared.comparison.createdAt).toLocaleDateString('en-IN')}
+          {leaderTitle && leader && <> · With the sender's priorities, <strong>{leaderTitle}</strong> scores highest ({leader.overall}/10)</>}
+        </p>
+        <p className="text-xs text-gray-500 mt-1">
+          Scores use today's listing details. Change the priorities to see how the ranking shifts for you.
+        </p>
+      </div>
+
+      <PropertyComparison
+        properties={shared.properties}
+        initialWeights={shared.comparison.weights}
+        initialPreferences={shared.comparison.preferences}
+        onPropertySelect={setSelectedProperty}
+        onViewProperty={setSelectedProperty}
+        onContactProperty={setSelectedProperty}
+      />
+
+      <PropertyModal
+        property={selectedProperty}
+        isOpen={selectedProperty !== null}
+        onClose={() => setSelectedProperty(null)}
+      />
+    </div>
+  );
+};
+
+export default SharedComparisonPage;
@@ -9,8 +9,10 @@ import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } f
 import { Environment } from '@/config/environment';
 import { createAppError, logError } from '@/utils/errorHandler';
 import { logApiRequest, logApiResponse } from '@/utils/debugHelper';
-import type { Property, PropertyFilters as CorePropertyFilters } from '@/types/property';
+import type { Property, PropertyMediaKind, PropertyFilters as CorePropertyFilters } from '@/types/property';
 import type { PropertyFilters as ApiPropertyFilters, CreatePropertyRequest, UpdatePropertyRequest, ApiError } from '@/types/api';
+import type { InteractionEvent, RecommendationFeedback } from '@/types/recommendation';
+import type { PoiCategory } from '@/types/poi';
 
 // Enhanced API configuration with debug mode awareness
 const API_TIMEOUT = 30000; // 30 seconds
@@ -28,7 +30,9 @@ export interface ApiResponse<T = any> {
     page?: number;
     limit?: number;
     total?: number;
+    totalPages?: number;
     hasMore?: boolean;
+    [key: string]: any;
   };
 }
 
@@ -460,13 +464,14 @@ const delay = (ms: number): Promise<void> => {
 
 /**
  * Enhanced generic API request method with comprehensive error handling
+ * Resolves with the full response envelope (data plus meta)
  */
-const request = async <T>(
+const requestEnvelope = async <T>(
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
   endpoint: string,
   data?: any,
   config?: AxiosRequestConfig
-): Promise<T> => {
+): Promise<ApiResponse<T>> => {
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   const fullUrl = `${Environment.getApiBaseUrl()}${endpoint}`;
   
@@ -496,7 +501,7 @@ const request = async <T>(
               }
             });
           }
-          return apiResponse.data;
+          return apiResponse;
         } else {
           // Create enhanced error for API-level failures
           const errorMessage = apiResponse.error || apiResponse.message || 'API request failed';
@@ -514,14 +519,27 @@ const request = async <T>(
         }
       }
 
-      // Return raw data if not in standard API format
-      return response.data;
+      // Wrap raw data if not in standard API format
+      return { success: true, data: response.data } as ApiResponse<T>;
     },
     MAX_RETRIES,
     { method, url: fullUrl, requestId }
   );
 };
 
+/**
+ * Generic API request method - resolves with the response data only
+ */
+const request = async <T>(
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+  endpoint: string,
+  data?: any,
+  config?: AxiosRequestConfig
+): Promise<T> => {
+  const response = await requestEnvelope<T>(method, endpoint, data, config);
+  return response.data;
+};
+
 /**
  * API Service - Main export with all HTTP methods
  */
@@ -533,6 +551,13 @@ export const ApiService = {
     return request<T>('GET', endpoint, params, config);
   },
 
+  /**
+   * GET request resolving with the full response envelope (data plus meta)
+   */
+  getWithMeta: <T>(endpoint: string, params?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> => {
+    return requestEnvelope<T>('GET', endpoint, params, config);
+  },
+
   /**
    * POST request
    */
@@ -698,6 +723,23 @@ export const API = {
     getAll: (filters?: CorePropertyFilters | ApiPropertyFilters | Record<string, any>) => 
       ApiService.get<Property[]>('/v1/properties', filters),
     
+    // Paginated listing - includes total count and page info in meta
+    list: (query?: Record<string, any>) =>
+      ApiService.getWithMeta<Property[]>('/v1/properties', query),
+    
+    // Every matching property, fetched page by page until meta.total is reached (admin lists)
+    getAllPages: async (query?: Record<string, any>) => {
+      const properties: Property[] = [];
+      for (let page = 1; ; page++) {
+        const response = await ApiService.getWithMeta<Property[]>('/v1/properties', { ...query, page, limit: 100 });
+        properties.push(...(response.data || []));
+        const total = response.meta?.total ?? properties.length;
+        if (!response.meta?.hasMore || properties.length >= total || (response.data || []).length === 0) {
+          return properties;
+        }
+      }
+    },
+    
     getById: (id: string) => 
       ApiService.get<Property>(`/v1/properties/${id}`),
     
@@ -710,8 +752,33 @@ export const API = {
     delete: (id: string) =>
       ApiService.delete<{ success: boolean; message?: string }>(`/v1/properties/${id}`),
     
+    // Replaces the property's tags - an empty list clears them; resolves to the tags afterwards
+    setTags: (id: string, tagIds: string[]) =>
+      ApiService.put<any[]>(`/v1/properties/${id}/tags`, { tagIds }),
+    
+    // Gallery - every change resolves to the whole gallery in display order
+    media: {
+      list: (id: string) =>
+        ApiService.get<any[]>(`/v1/properties/${id}/media`),
+      
+      // Items as returned by the upload API, plus kind, caption, altText and isCover
+      add: (id: string, items: Record<string, any>[]) =>
+        ApiService.post<any[]>(`/v1/properties/${id}/media`, { items }),
+      
+      update: (id: string, mediaId: string, changes: { kind?: PropertyMediaKind; caption?: string | null; altText?: string | null; isCover?: true }) =>
+        ApiService.patch<any[]>(`/v1/properties/${id}/media/${mediaId}`, changes),
+      
+      // mediaIds must list every item of the gallery
+      reorder: (id: string, mediaIds: string[]) =>
+        ApiService.put<any[]>(`/v1/properties/${id}/media/order`, { mediaIds }),
+      
+      remove: (id: string, mediaId: string) =>
+        ApiService.delete<any[]>(`/v1/properties/${id}/media/${mediaId}`)
+    },
+    
+    // Full-text search - meta carries paging info and a "did you mean" suggestion
     search: (query: string, filters?: CorePropertyFilters | ApiPropertyFilters | Record<string, any>) =>
-      ApiService.get<Property[]>('/v1/properties/search', { q: query, ...filters })
+      ApiService.getWithMeta<Property[]>('/v1/properties/search', { ...filters, q: query })
   },
 
   // Testimonials endpoints
@@ -762,7 +829,16 @@ export const API = {
       ApiService.patch<any>(`/v1/inquiries/${id}/assign`, { agentId }),
     
     delete: (id: string) =>
-      ApiService.delete(`/v1/inquiries/${id}`)
+      ApiService.delete(`/v1/inquiries/${id}`),
+
+    getEvents: (id: string) =>
+      ApiService.get<any[]>(`/v1/inquiries/${id}/events`),
+
+    addEvent: (id: string, event: { type: 'note' | 'call' | 'email'; body?: string; metadata?: Record<string, any> }) =>
+      ApiService.post<any>(`/v1/inquiries/${id}/events`, event),
+
+    getMetrics: () =>
+      ApiService.get<any[]>('/v1/inquiries/metrics')
   },
 
   // FAQs endpoints
@@ -830,18 +906,6 @@ export const API = {
       return ApiService.patch<any>(`/v1/users/${id}/role`, { role });
     },
     
-    // DEPRECATED: Property saving not implemented in backend
-    saveProperty: (userId: string, propertyId: string) => {
-      console.warn('DEPRECATED: API.users.saveProperty is not implemented in backend. Use local state only.');
-      return Promise.reject(new Error('API.users.saveProperty endpoint not implemented in backend'));
-    },
-    
-    // DEPRECATED: Property unsaving not implemented in backend
-    unsaveProperty: (userId: string, propertyId: string) => {
-      console.warn('DEPRECATED: API.users.unsaveProperty is not implemented in backend. Use local state only.');
-      return Promise.reject(new Error('API.users.unsaveProperty endpoint not implemented in backend'));
-    },
-    
     // DEPRECATED: User deletion not implemented in backend
     delete: (id: string) => {
       console.warn('DEPRECATED: API.users.delete is not implemented in backend.');
@@ -849,6 +913,170 @@ export const API = {
     }
   },
 
+  // Saved properties (favourites) for the signed-in user
+  savedProperties: {
+    list: () =>
+      ApiService.get<any[]>('/v1/users/me/saved-properties'),
+
+    save: (propertyId: string, notes?: string) =>
+      ApiService.post<any>('/v1/users/me/saved-properties', { propertyId, notes }),
+
+    updateNotes: (propertyId: string, notes: string | null) =>
+      ApiService.patch<any>(`/v1/users/me/saved-properties/${propertyId}`, { notes }),
+
+    remove: (propertyId: string) =>
+      ApiService.delete<{ success: boolean; message?: string }>(`/v1/users/me/saved-properties/${propertyId}`),
+
+    // Merge favourites saved while signed out; resolves with the full saved list
+    merge: (propertyIds: string[]) =>
+      ApiService.post<any[]>('/v1/users/me/saved-properties/merge', { propertyIds })
+  },
+
+  // Saved searches for the signed-in user; `query` uses the listing API parameters
+  savedSearches: {
+    list: () =>
+      ApiService.get<any[]>('/v1/users/me/saved-searches'),
+
+    create: (search: { name: string; query: Record<string, string>; alerts_enabled?: boolean; email_digest?: boolean }) =>
+      ApiService.post<any>('/v1/users/me/saved-searches', search),
+
+    update: (id: string, updates: { name?: string; query?: Record<string, string>; alerts_enabled?: boolean; email_digest?: boolean }) =>
+      ApiService.patch<any>(`/v1/users/me/saved-searches/${id}`, updates),
+
+    delete: (id: string) =>
+      ApiService.delete<{ success: boolean; message?: string }>(`/v1/users/me/saved-searches/${id}`)
+  },
+
+  // Saved search alert inbox - meta carries paging info and the unread count
+  searchAlerts: {
+    list: (params?: { unreadOnly?: boolean; page?: number; limit?: number }) =>
+      ApiService.getWithMeta<any[]>('/v1/users/me/search-alerts', params),
+
+    // Marks every unread alert when no IDs are given
+    markRead: (ids?: string[]) =>
+      ApiService.patch<{ updated: number }>('/v1/users/me/search-alerts/read', ids ? { ids } : {})
+  },
+
+  // AI assistant conversations of the signed-in user; the C1 chat endpoints add their messages
+  c1Threads: {
+    list: () =>
+      ApiService.get<any[]>('/v1/c1/threads'),
+
+    create: (title?: string) =>
+      ApiService.post<any>('/v1/c1/threads', title ? { title } : {}),
+
+    rename: (id: string, title: string) =>
+      ApiService.patch<any>(`/v1/c1/threads/${id}`, { title }),
+
+    delete: (id: string) =>
+      ApiService.delete<{ success: boolean; message?: string }>(`/v1/c1/threads/${id}`),
+
+    getMessages: (id: string) =>
+      ApiService.get<{ thread: any; messages: any[] }>(`/v1/c1/threads/${id}/messages`)
+  },
+
+  // Admin AI usage report (tokens, cost and budgets of the C1 features)
+  c1Usage: {
+    getReport: (days?: number) =>
+      ApiService.get<any>('/v1/c1/usage', days ? { days } : undefined)
+  },
+
+  // Notification inbox (admin header bell) and channel preferences
+  notifications: {
+    list: (params?: { unreadOnly?: boolean; page?: number; limit?: number }) =>
+      ApiService.getWithMeta<any[]>('/v1/notifications', params),
+
+    getUnreadCount: () =>
+      ApiService.get<{ unread: number }>('/v1/notifications/unread-count'),
+
+    // Marks every unread notification when no IDs are given
+    markRead: (ids?: string[]) =>
+      ApiService.patch<{ updated: number }>('/v1/notifications/read', ids ? { ids } : {}),
+
+    getPreferences: () =>
+      ApiService.get<any>('/v1/notifications/preferences'),
+
+    updatePreferences: (preferences: {
+      events?: Record<string, Record<string, boolean>>;
+      webhook_url?: string | null;
+      webhook_secret?: string | null;
+    }) =>
+      ApiService.put<any>('/v1/notifications/preferences', preferences)
+  },
+
+  // Market rates, budget quotes and the quote rules (admins change rules)
+  pricing: {
+    getRates: (params?: { location?: string; category?: string }) =>
+      ApiService.get<any[]>('/v1/pricing/rates', params),
+
+    getQuote: (params: { location: string; spaceType: string; teamSize: number; duration: number }) =>
+      ApiService.get<any>('/v1/pricing/quote', params),
+
+    getRules: () =>
+      ApiService.get<any>('/v1/pricing/rules'),
+
+    updateRules: (rules: Record<string, number>) =>
+      ApiService.put<any>('/v1/pricing/rules', rules)
+  },
+
+  // Saved property comparisons and share links
+  comparisons: {
+    create: (comparison: {
+      title?: string;
+      propertyIds: string[];
+      weights: Record<string, number>;
+      preferences: Record<string, unknown>;
+    }) =>
+      ApiService.post<any>('/v1/comparisons', comparison),
+
+    getMine: () =>
+      ApiService.get<any[]>('/v1/comparisons'),
+
+    getShared: (shareId: string) =>
+      ApiService.get<any>(`/v1/comparisons/shared/${shareId}`),
+
+    delete: (id: string) =>
+      ApiService.delete<any>(`/v1/comparisons/${id}`)
+  },
+
+  // Listing interactions (views, saves, contacts...) that feed recommendations
+  interactions: {
+    track: (batch: { sessionId?: string; events: InteractionEvent[] }) =>
+      ApiService.post<any>('/v1/interactions', batch)
+  },
+
+  // Recommendations with reasons, and like/dislike feedback on them
+  recommendations: {
+    get: (params?: { sessionId?: string; limit?: number }) =>
+      ApiService.get<any>('/v1/recommendations', params),
+
+    feedback: (feedback: { sessionId?: string; propertyId: string; feedback: RecommendationFeedback }) =>
+      ApiService.post<any>('/v1/recommendations/feedback', feedback)
+  },
+
+  // Points of interest near listings; admins import GeoJSON / OpenStreetMap extracts
+  pois: {
+    getNearby: (params: { propertyIds: string[]; radius?: number; categories?: PoiCategory[]; perCategory?: number }) =>
+      ApiService.get<any>('/v1/pois/nearby', {
+        ...params,
+        propertyIds: params.propertyIds.join(','),
+        categories: params.categories?.join(',')
+      }),
+
+    getStats: () =>
+      ApiService.get<any[]>('/v1/pois/stats'),
+
+    import: (file: File, options: { source?: string; category?: PoiCategory } = {}) =>
+      ApiService.upload<any>(
+        '/v1/pois/import',
+        file,
+        Object.fromEntries(Object.entries(options).filter(([, value]) => value))
+      ),
+
+    deleteSource: (source: string) =>
+      ApiService.delete<any>(`/v1/pois/sources/${encodeURIComponent(source)}`)
+  },
+
   // Companies endpoints
   companies: {
     getAll: () => 
@@ -888,7 +1116,14 @@ export const API = {
       ApiService.put<any>(`/v1/tags/${id}`, updates),
     
     delete: (id: string) =>
-      ApiService.delete(`/v1/tags/${id}`)
+      ApiService.delete(`/v1/tags/${id}`),
+
+    // Add or remove every tag on every property (admin only)
+    bulkAssign: (propertyIds: string[], tagIds: string[]) =>
+      ApiService.post<{ assigned: number }>('/v1/tags/bulk-assign', { propertyIds, tagIds }),
+
+    bulkRemove: (propertyIds: string[], tagIds: string[]) =>
+      ApiService.post<{ removed: number }>('/v1/tags/bulk-remove', { propertyIds, tagIds })
   },
 
   // Company API methods - Direct methods for company store
@@ -904,6 +1139,10 @@ export const API = {
   createTag: (tagData: any) => API.tags.create(tagData),
   updateTag: (id: string, updates: any) => API.tags.update(id, updates),
   deleteTag: (id: string) => API.tags.delete(id),
+  assignTagsToProperty: (propertyId: string, tagIds: string[]) => API.properties.setTags(propertyId, tagIds),
+
+  // Property media API methods - removes the item and its uploaded files
+  deletePropertyMedia: (propertyId: string, mediaId: string) => API.properties.media.remove(propertyId, mediaId),
 
   // FAQ API methods - Legacy compatibility methods for FAQ store
   getAllFAQs: () => API.faqs.getAll(),
@@ -924,22 +1163,93 @@ export const API = {
     preview: (searchParams: any) =>
       ApiService.post<any>('/v1/scraper/preview', { searchParams }),
     
-    // Scrape properties using search parameters or direct URL
-    scrape: (request: {
-      searchParams?: any;
-      directUrl?: string;
-      useCrawl?: boolean;
-      maxPages?: number;
-    }) =>
-      ApiService.post<any>('/v1/scraper/scrape', request),
+    // Background scrape jobs (progress streams from /v1/scraper/jobs/:id/events)
+    jobs: {
+      create: (request: {
+        searchParams?: any;
+        directUrl?: string;
+        useCrawl?: boolean;
+        maxPages?: number;
+        presetId?: string;
+        extract?: boolean;
+        extractionHints?: string;
+      }) =>
+        ApiService.post<any>('/v1/scraper/jobs', request),
+      list: (params?: { status?: string; page?: number; limit?: number }) =>
+        ApiService.get<any[]>('/v1/scraper/jobs', params),
+      get: (id: string) =>
+        ApiService.get<any>(`/v1/scraper/jobs/${id}`),
+      cancel: (id: string) =>
+        ApiService.post<any>(`/v1/scraper/jobs/${id}/cancel`),
+      retry: (id: string) =>
+        ApiService.post<any>(`/v1/scraper/jobs/${id}/retry`),
+      // Run C1 extraction on a job waiting for review
+      extract: (id: string) =>
+        ApiService.post<any>(`/v1/scraper/jobs/${id}/extract`),
+      // Close a reviewed job without importing
+      complete: (id: string) =>
+        ApiService.post<any>(`/v1/scraper/jobs/${id}/complete`)
+    },
+
+    // Scheduled re-scrapes of search presets (cron in UTC)
+    schedules: {
+      list: () =>
+        ApiService.get<any[]>('/v1/scraper/schedules'),
+      create: (schedule: { presetId: string; cron: string; maxPages?: number; isActive?: boolean }) =>
+        ApiService.post<any>('/v1/scraper/schedules', schedule),
+      update: (id: string, updates: { cron?: string; maxPages?: number; isActive?: boolean }) =>
+        ApiService.put<any>(`/v1/scraper/schedules/${id}`, updates),
+      delete: (id: string) =>
+        ApiService.delete<any>(`/v1/scraper/schedules/${id}`),
+      run: (id: string) =>
+        ApiService.post<any>(`/v1/scraper/schedules/${id}/run`),
+      getRuns: (id: string) =>
+        ApiService.get<any[]>(`/v1/scraper/schedules/${id}/runs`)
+    },
+
+    // Review queue of differences found by scheduled scrapes
+    changes: {
+      list: (params?: { status?: string; scheduleId?: string; type?: string; page?: number; limit?: number }) =>
+        ApiService.get<any[]>('/v1/scraper/changes', params),
+      apply: (id: string) =>
+        ApiService.post<any>(`/v1/scraper/changes/${id}/apply`),
+      dismiss: (id: string) =>
+        ApiService.post<any>(`/v1/scraper/changes/${id}/dismiss`)
+    },
     
+    // Existing properties that look like the same space as scraped listings, or as each other
+    duplicates: {
+      check: (properties: any[]) =>
+        ApiService.post<any[]>('/v1/scraper/duplicates/check', { properties }),
+      list: (limit?: number) =>
+        ApiService.get<any[]>('/v1/scraper/duplicates', limit ? { limit } : undefined),
+      dismiss: (propertyId: string, otherPropertyId: string) =>
+        ApiService.post<any>('/v1/scraper/duplicates/dismiss', { propertyId, otherPropertyId })
+    },
+
+    // Merge duplicate properties, keeping both originals in the merge history
+    merges: {
+      create: (merge: { targetId: string; sourceId: string; fieldSources: Record<string, 'target' | 'source'> }) =>
+        ApiService.post<any>('/v1/scraper/merges', merge),
+      list: (params?: { propertyId?: string; limit?: number }) =>
+        ApiService.get<any[]>('/v1/scraper/merges', params)
+    },
+
     // Import scraped properties into database
     import: (request: {
       properties: any[];
       skipValidation?: boolean;
       overwriteExisting?: boolean;
+      importDuplicates?: boolean;
+      jobId?: string;
+      mode?: 'atomic' | 'best_effort';
+      idempotencyKey?: string;
     }) =>
       ApiService.post<any>('/v1/scraper/import', request),
+
+    // Per-row report of an import batch
+    getImportReport: (batchId: string) =>
+      ApiService.get<any>(`/v1/scraper/import/${batchId}/report`),
     
     // Get scraping history with pagination
     getHistory: (page = 1, limit = 20) =>
@@ -948,22 +1258,31 @@ export const API = {
     // Get search configuration examples
     getExamples: () =>
       ApiService.get<any>('/v1/scraper/examples'),
+
+    // Listing portals that can be searched and the filters each supports
+    getSources: () =>
+      ApiService.get<any[]>('/v1/scraper/sources'),
     
     // Save a search preset
     savePreset: (preset: {
       name: string;
       description?: string;
       searchParams: any;
-      tags?: string[];
+      isShared?: boolean;
     }) =>
       ApiService.post<any>('/v1/scraper/presets', preset),
     
-    // Get saved search presets
+    // Get own search presets plus those shared by other admins
     getPresets: () =>
-      ApiService.get<any>('/v1/scraper/presets'),
+      ApiService.get<any[]>('/v1/scraper/presets'),
     
-    // Update a search preset
-    updatePreset: (id: string, updates: any) =>
+    // Update (or overwrite) a search preset - owner only
+    updatePreset: (id: string, updates: {
+      name?: string;
+      description?: string | null;
+      searchParams?: any;
+      isShared?: boolean;
+    }) =>
       ApiService.put<any>(`/v1/scraper/presets/${id}`, updates),
     
     // Delete a search preset
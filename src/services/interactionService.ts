@@ -0,0 +1,101 @@
+import { API } from './apiService';
+import type { InteractionAction, InteractionEvent, RecommendationFeedback } from '@/types/recommendation';
+
+declare global {
+  interface Window {
+    // Visitor id for this page when localStorage is unavailable
+    __gsrSessionId?: string;
+  }
+}
+
+const SESSION_KEY = 'gsr_session_id';
+const FLUSH_DELAY_MS = 5000;
+const MAX_BATCH = 50;
+
+let queue: InteractionEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+/**
+ * The browser's visitor id; ties anonymous interactions and feedback together
+ */
+export const getSessionId = (): string => {
+  try {
+    const existing = localStorage.getItem(SESSION_KEY);
+    if (existing) return existing;
+
+    const sessionId = crypto.randomUUID();
+    localStorage.setItem(SESSION_KEY, sessionId);
+    return sessionId;
+  } catch {
+    // Storage blocked (private mode): a per-page id still groups this visit
+    return window.__gsrSessionId ||= crypto.randomUUID();
+  }
+};
+
+/**
+ * Sends everything queued so far; failures are logged and the events dropped
+ */
+export const flushInteractions = async (): Promise<void> => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  while (queue.length > 0) {
+    const events = queue.splice(0, MAX_BATCH);
+    try {
+      await API.interactions.track({ sessionId: getSessionId(), events });
+    } catch (error) {
+      console.warn('Failed to record property interactions:', error);
+      return;
+    }
+  }
+};
+
+/**
+ * Queues an interaction with a listing; batches go out every few seconds and when the page is hidden
+ */
+export const trackInteraction = (
+  propertyId: string,
+  action: InteractionAction,
+  details: { timeSpent?: number; context?: string } = {}
+): void => {
+  if (!propertyId) return;
+
+  queue.push({
+    propertyId,
+    action,
+    ...(details.timeSpent !== undefined && { timeSpent: Math.round(details.timeSpent) }),
+    ...(details.context && { context: details.context }),
+    occurredAt: new Date().toISOString()
+  });
+
+  if (!listening && typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flushInteractions();
+    });
+    listening = true;
+  }
+
+  if (queue.length >= MAX_BATCH) {
+    flushInteractions();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushInteractions, FLUSH_DELAY_MS);
+  }
+};
+
+/**
+ * Stores a like/dislike on a recommended property
+ */
+export const sendRecommendationFeedback = (propertyId: string, feedback: RecommendationFeedback) =>
+  API.recommendations.feedback({ sessionId: getSessionId(), propertyId, feedback });
+
+export const InteractionService = {
+  getSessionId,
+  trackInteraction,
+  flushInteractions,
+  sendRecommendationFeedback
+};
+
+export default InteractionService;
@@ -10,12 +10,13 @@
  * - Bulk property import with progress tracking
  * - Search preset management
  * - Scraping history retrieval
+ * - Background scrape jobs with streamed progress
+ * - Scheduled re-scrapes and review of the changes they find
+ * - Duplicate detection and merging of imported properties
  */
 
 import {
   SearchParameters,
-  ScrapeRequest,
-  ScrapeResponse,
   PreviewRequest,
   PreviewResponse,
   ImportRequest,
@@ -27,13 +28,38 @@ import {
   GetExamplesResponse,
   SearchParametersFormData,
   SearchParametersFormErrors,
+  SourcePortalInfo,
   ScrapedPropertyData,
   ScraperConfig,
+  ScrapeJob,
+  ScrapeJobRequest,
+  ScrapeJobStatus,
+  ScrapeSchedule,
+  ScrapeScheduleRun,
+  ScrapeChange,
+  ScrapeChangeStatus,
+  DuplicateCheckResult,
+  DuplicatePair,
+  PropertyMerge,
+  PropertyMergeField,
+  isValidPortal,
   isValidPropertyType,
   isValidFurnishedStatus,
   isValidAvailability,
   isValidSortBy
 } from '../types/scraper';
+import { API, getAuthToken } from './apiService';
+import { Environment } from '../config/environment';
+import {
+  mapDuplicateCheckResult,
+  mapDuplicatePairData,
+  mapPropertyMergeData,
+  mapScrapeChangeData,
+  mapScrapeJobData,
+  mapScrapeScheduleData,
+  mapScrapeScheduleRunData,
+  mapSearchPresetData
+} from '../utils/apiMigrationUtils';
 
 const API_BASE = '/api/v1/scraper';
 
@@ -51,6 +77,10 @@ export class ScraperValidation {
   } {
     const errors: SearchParametersFormErrors = {};
 
+    if (formData.portal && !isValidPortal(formData.portal)) {
+      errors.portal = 'Invalid listing portal selected';
+    }
+
     // Location validation (optional but recommended)
     if (formData.location && formData.location.trim().length < 2) {
       errors.location = 'Location must be at least 2 characters';
@@ -125,6 +155,9 @@ export class ScraperValidation {
     const searchParams: SearchParameters = {};
 
     // String fields
+    if (formData.portal && isValidPortal(formData.portal)) {
+      searchParams.portal = formData.portal;
+    }
     if (formData.location?.trim()) {
       searchParams.location = formData.location.trim();
     }
@@ -180,6 +213,7 @@ export class ScraperValidation {
    */
   static searchParamsToFormData(searchParams: SearchParameters): SearchParametersFormData {
     return {
+      portal: searchParams.portal || '',
       location: searchParams.location || '',
       propertyType: searchParams.propertyType || '',
       minPrice: searchParams.minPrice ? searchParams.minPrice.toString() : '',
@@ -224,53 +258,16 @@ export class ScraperService {
   }
 
   /**
-   * Scrape properties using search parameters or direct URL
+   * Import scraped properties into the database. Sending the same idempotency key again
+   * (e.g. retrying after a network error) returns the first import's result.
    */
-  static async scrapeProperties(request: ScrapeRequest): Promise<ScrapeResponse> {
-    try {
-      // Create AbortController for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 150000); // 2.5 minutes timeout
-
-      const response = await fetch(`${API_BASE}/scrape`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(request),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Network error' }));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Property scraping failed:', error);
-      
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Scraping request timeout - the operation took too long to complete');
-        }
-      }
-      
-      throw error;
-    }
-  }
-
-  /**
-   * Import scraped properties into the database
-   */
-  static async importProperties(request: ImportRequest): Promise<ImportResponse> {
+  static async importProperties(request: ImportRequest, idempotencyKey?: string): Promise<ImportResponse> {
     try {
       const response = await fetch(`${API_BASE}/import`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
         },
         body: JSON.stringify(request)
       });
@@ -280,7 +277,13 @@ export class ScraperService {
         throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
-      return await response.json();
+      const result = await response.json();
+      return {
+        ...result,
+        skipped: result.skipped || 0,
+        duplicates: (result.duplicates || []).map(mapDuplicateCheckResult),
+        report: result.report || []
+      };
     } catch (error) {
       console.error('Property import failed:', error);
       throw error;
@@ -312,24 +315,13 @@ export class ScraperService {
   }
 
   /**
-   * Save a search preset
+   * Save a search preset (presets belong to the signed-in admin, so these calls go
+   * through the authenticated API client)
    */
   static async savePreset(request: SavePresetRequest): Promise<SavePresetResponse> {
     try {
-      const response = await fetch(`${API_BASE}/presets`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(request)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Network error' }));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      return await response.json();
+      const row = await API.scraper.savePreset(request);
+      return { success: true, data: mapSearchPresetData(row) };
     } catch (error) {
       console.error('Save preset failed:', error);
       throw error;
@@ -337,23 +329,25 @@ export class ScraperService {
   }
 
   /**
-   * Get saved search presets
+   * Overwrite or change a search preset (owner only)
    */
-  static async getPresets(): Promise<GetPresetsResponse> {
+  static async updatePreset(presetId: string, updates: Partial<SavePresetRequest>): Promise<SavePresetResponse> {
     try {
-      const response = await fetch(`${API_BASE}/presets`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Network error' }));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
+      const row = await API.scraper.updatePreset(presetId, updates);
+      return { success: true, data: mapSearchPresetData(row) };
+    } catch (error) {
+      console.error('Update preset failed:', error);
+      throw error;
+    }
+  }
 
-      return await response.json();
+  /**
+   * Get own search presets plus those shared by other admins
+   */
+  static async getPresets(): Promise<GetPresetsResponse> {
+    try {
+      const rows = await API.scraper.getPresets();
+      return { success: true, data: (rows || []).map(mapSearchPresetData) };
     } catch (error) {
       console.error('Get presets failed:', error);
       throw error;
@@ -385,28 +379,211 @@ export class ScraperService {
   }
 
   /**
-   * Delete a search preset
+   * Listing portals that can be searched, with the property types, filters and sort orders each supports
+   */
+  static async getSources(): Promise<SourcePortalInfo[]> {
+    return (await API.scraper.getSources()) || [];
+  }
+
+  /**
+   * Delete a search preset (owner only)
    */
   static async deletePreset(presetId: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const response = await fetch(`${API_BASE}/presets/${presetId}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
+      await API.scraper.deletePreset(presetId);
+      return { success: true };
+    } catch (error) {
+      console.error('Delete preset failed:', error);
+      throw error;
+    }
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Network error' }));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
+  /**
+   * Queue a scrape (and optionally C1 extraction) to run in the background
+   */
+  static async createJob(request: ScrapeJobRequest): Promise<ScrapeJob> {
+    return mapScrapeJobData(await API.scraper.jobs.create(request));
+  }
 
-      return await response.json();
+  /**
+   * Recent scrape jobs, newest first, without their results
+   */
+  static async getJobs(statuses?: ScrapeJobStatus[]): Promise<ScrapeJob[]> {
+    const rows = await API.scraper.jobs.list(statuses?.length ? { status: statuses.join(',') } : undefined);
+    return (rows || []).map(mapScrapeJobData);
+  }
+
+  /**
+   * A scrape job with its scraped data and extracted listings
+   */
+  static async getJob(id: string): Promise<ScrapeJob> {
+    return mapScrapeJobData(await API.scraper.jobs.get(id));
+  }
+
+  static async cancelJob(id: string): Promise<ScrapeJob> {
+    return mapScrapeJobData(await API.scraper.jobs.cancel(id));
+  }
+
+  /**
+   * Queue a failed or cancelled job again; a finished scrape is kept and only extraction reruns
+   */
+  static async retryJob(id: string): Promise<ScrapeJob> {
+    return mapScrapeJobData(await API.scraper.jobs.retry(id));
+  }
+
+  /**
+   * Run C1 extraction on a job waiting for review
+   */
+  static async extractJob(id: string): Promise<ScrapeJob> {
+    return mapScrapeJobData(await API.scraper.jobs.extract(id));
+  }
+
+  /**
+   * Close a reviewed job without importing from it
+   */
+  static async completeJob(id: string): Promise<ScrapeJob> {
+    return mapScrapeJobData(await API.scraper.jobs.complete(id));
+  }
+
+  /**
+   * Follow a job's progress stream, calling onUpdate with each change. Resolves once the job
+   * stops running (review, done, failed or cancelled) or the signal aborts
+   */
+  static async watchJob(id: string, onUpdate: (job: ScrapeJob) => void, signal?: AbortSignal): Promise<void> {
+    const response = await fetch(`${Environment.getApiBaseUrl()}/v1/scraper/jobs/${id}/events`, {
+      headers: {
+        Authorization: `Bearer ${getAuthToken()}`
+      },
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Network error' }));
+      throw new Error(errorData.error?.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Response body stream not found');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true });
+        // Events end with a blank line; keep a partial one for the next chunk
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          if (line === 'data: [DONE]') return;
+          onUpdate(mapScrapeJobData(JSON.parse(line.slice(6))));
+        }
+      }
     } catch (error) {
-      console.error('Delete preset failed:', error);
+      if (signal?.aborted) return;
       throw error;
+    } finally {
+      reader.cancel().catch(() => undefined);
     }
   }
+
+  /**
+   * Scheduled re-scrapes of search presets
+   */
+  static async getSchedules(): Promise<ScrapeSchedule[]> {
+    const rows = await API.scraper.schedules.list();
+    return (rows || []).map(mapScrapeScheduleData);
+  }
+
+  /**
+   * Re-scrape a preset on a cron schedule (UTC)
+   */
+  static async createSchedule(schedule: { presetId: string; cron: string; maxPages?: number; isActive?: boolean }): Promise<ScrapeSchedule> {
+    return mapScrapeScheduleData(await API.scraper.schedules.create(schedule));
+  }
+
+  static async updateSchedule(id: string, updates: { cron?: string; maxPages?: number; isActive?: boolean }): Promise<ScrapeSchedule> {
+    return mapScrapeScheduleData(await API.scraper.schedules.update(id, updates));
+  }
+
+  static async deleteSchedule(id: string): Promise<void> {
+    await API.scraper.schedules.delete(id);
+  }
+
+  /**
+   * Run an active schedule now; it keeps its regular cadence
+   */
+  static async runSchedule(id: string): Promise<ScrapeSchedule> {
+    return mapScrapeScheduleData(await API.scraper.schedules.run(id));
+  }
+
+  static async getScheduleRuns(id: string): Promise<ScrapeScheduleRun[]> {
+    const rows = await API.scraper.schedules.getRuns(id);
+    return (rows || []).map(mapScrapeScheduleRunData);
+  }
+
+  /**
+   * Changes found by scheduled scrapes, newest first
+   */
+  static async getChanges(filters: { status?: ScrapeChangeStatus; scheduleId?: string } = {}): Promise<ScrapeChange[]> {
+    const rows = await API.scraper.changes.list({ ...filters, limit: 100 });
+    return (rows || []).map(mapScrapeChangeData);
+  }
+
+  /**
+   * Apply a change to its property (a new listing is imported as a draft)
+   */
+  static async applyChange(id: string): Promise<ScrapeChange> {
+    return mapScrapeChangeData(await API.scraper.changes.apply(id));
+  }
+
+  static async dismissChange(id: string): Promise<ScrapeChange> {
+    return mapScrapeChangeData(await API.scraper.changes.dismiss(id));
+  }
+
+  /**
+   * Flag listings that look like existing properties; only flagged listings are returned
+   */
+  static async checkDuplicates(properties: ScrapedPropertyData[]): Promise<DuplicateCheckResult[]> {
+    const results = await API.scraper.duplicates.check(properties);
+    return (results || []).map(mapDuplicateCheckResult);
+  }
+
+  /**
+   * Existing properties that look like the same space, most likely first
+   */
+  static async getDuplicatePairs(limit?: number): Promise<DuplicatePair[]> {
+    const pairs = await API.scraper.duplicates.list(limit);
+    return (pairs || []).map(mapDuplicatePairData);
+  }
+
+  static async dismissDuplicatePair(propertyId: string, otherPropertyId: string): Promise<void> {
+    await API.scraper.duplicates.dismiss(propertyId, otherPropertyId);
+  }
+
+  /**
+   * Keep `targetId`, taking the fields marked 'source' from `sourceId`, and fold the other into it
+   */
+  static async mergeProperties(
+    targetId: string,
+    sourceId: string,
+    fieldSources: Partial<Record<PropertyMergeField, 'target' | 'source'>>
+  ): Promise<PropertyMerge> {
+    const result = await API.scraper.merges.create({ targetId, sourceId, fieldSources });
+    return mapPropertyMergeData({ ...result.merge, target_title: result.property?.title });
+  }
+
+  static async getMergeHistory(propertyId?: string): Promise<PropertyMerge[]> {
+    const rows = await API.scraper.merges.list(propertyId ? { propertyId } : undefined);
+    return (rows || []).map(mapPropertyMergeData);
+  }
 }
 
 /**
@@ -1,4 +1,6 @@
 import { Property } from '@/types/property';
+import { getAuthToken } from '@/services/apiService';
+import { chatThreadSecretHeaders, rememberChatThreadSecret } from '@/utils/chatThreadSecrets';
 
 // C1 API Request/Response types
 export interface C1Request {
@@ -7,6 +9,8 @@ export interface C1Request {
   model?: string;
   stream?: boolean;
   systemPrompt?: string;
+  // Chat thread to continue (and save this turn to)
+  threadId?: string;
 }
 
 export interface C1Response {
@@ -24,6 +28,8 @@ export interface UISpec {
   components: UIComponent[];
   layout?: LayoutConfig;
   styling?: StyleConfig;
+  // Properties the backend's search tools returned
+  propertyIds?: string[];
 }
 
 export interface UIComponent {
@@ -240,17 +246,22 @@ Output format: Generate amenity exploration UI with grids, maps, and filtering c
       useCase: request.context?.useCase
     });
 
-    // Check cache first
-    if (this.cache.has(cacheKey)) {
+    // Check cache first - a thread turn always goes to the backend, which saves it
+    if (!request.threadId && this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey)!;
     }
 
     try {
+      // Signed-in users' threads are saved to their account
+      const authToken = getAuthToken();
+
       // Make request to backend API instead of direct C1 API
       const response = await fetch(`${this.backendUrl}/c1/generate`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(authToken && { Authorization: `Bearer ${authToken}` }),
+          ...chatThreadSecretHeaders(request.threadId)
         },
         body: JSON.stringify({
           prompt: request.prompt,
@@ -258,7 +269,8 @@ Output format: Generate amenity exploration UI with grids, maps, and filtering c
           model: request.model,
           stream: request.stream || false,
           systemPrompt: request.systemPrompt,
-          useCase: request.context?.useCase || this.determineUseCase(request.prompt, request.context)
+          useCase: request.context?.useCase || this.determineUseCase(request.prompt, request.context),
+          threadId: request.threadId
         }),
       });
 
@@ -266,6 +278,7 @@ Output format: Generate amenity exploration UI with grids, maps, and filtering c
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
         throw new Error(`Backend API error: ${response.status} - ${errorData.error || response.statusText}`);
       }
+      rememberChatThreadSecret(request.threadId, response);
 
       const data = await response.json();
       
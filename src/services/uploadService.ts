@@ -10,6 +10,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { ApiService } from '@/services/apiService';
+import type { MediaSrcset } from '@/types/property';
 
 export interface UploadResult {
   url: string;
@@ -17,22 +18,27 @@ export interface UploadResult {
   filename: string;
   size: number;
   mimeType: string;
+  // Generated by the backend: responsive WebP/AVIF variants (of the poster for videos)
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  srcset?: MediaSrcset;
 }
 
 export interface VideoUploadResult extends UploadResult {
   duration?: number;
-  thumbnailUrl?: string;
 }
 
 export interface PropertyMediaUpload {
   file: File;
-  type: 'image' | 'video';
+  type: 'image' | 'video' | 'document';
 }
 
 export class UploadService {
   // File size limits
   private static readonly MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
   private static readonly MAX_VIDEO_SIZE = 200 * 1024 * 1024; // 200MB
+  private static readonly MAX_DOCUMENT_SIZE = 20 * 1024 * 1024; // 20MB
 
   // Supported MIME types
   private static readonly SUPPORTED_IMAGE_TYPES = [
@@ -50,6 +56,10 @@ export class UploadService {
     'video/webm'
   ];
 
+  private static readonly SUPPORTED_DOCUMENT_TYPES = [
+    'application/pdf'
+  ];
+
   /**
    * Upload a single file via API endpoint
    */
@@ -61,7 +71,7 @@ export class UploadService {
 
     try {
       // Upload via API service
-      const result = await ApiService.upload<UploadResult>('/upload/single', file, {
+      const result = await ApiService.upload<UploadResult>('/v1/upload/single', file, {
         folder: folder,
         generateUniqueName: true
       });
@@ -123,24 +133,30 @@ export class UploadService {
       type: 'video' as const
     }));
 
-    const results = await this.uploadPropertyMedia(uploads, propertyId);
-    
-    // Convert to VideoUploadResult (backend may provide additional video metadata)
-    return results.map(result => ({
-      ...result,
-      duration: undefined, // Would be provided by backend video processing
-      thumbnailUrl: undefined // Would be generated by backend
+    // The backend adds the poster (thumbnailUrl) and duration when ffmpeg is available
+    return this.uploadPropertyMedia(uploads, propertyId);
+  }
+
+  /**
+   * Upload property documents (PDF brochures, floor plan sheets)
+   */
+  static async uploadPropertyDocuments(files: File[], propertyId?: string): Promise<UploadResult[]> {
+    const uploads: PropertyMediaUpload[] = files.map(file => ({
+      file,
+      type: 'document' as const
     }));
+
+    return this.uploadPropertyMedia(uploads, propertyId);
   }
 
   /**
-   * Delete uploaded file via API
+   * Delete an upload (its path from UploadResult) and its generated variants via API
    */
   static async deleteFile(path: string): Promise<boolean> {
     console.log(`🗑️ UploadService: Deleting file ${path}`);
 
     try {
-      await ApiService.delete(`/upload/file`, { path });
+      await ApiService.delete(`/v1/upload/file?path=${encodeURIComponent(path)}`);
       console.log(`✅ File deleted successfully: ${path}`);
       return true;
     } catch (error) {
@@ -170,11 +186,12 @@ export class UploadService {
       throw new Error('No file provided');
     }
 
-    // Check if it's an image or video
+    // Check if it's an image, video or document
     const isImage = this.SUPPORTED_IMAGE_TYPES.includes(file.type);
     const isVideo = this.SUPPORTED_VIDEO_TYPES.includes(file.type);
+    const isDocument = this.SUPPORTED_DOCUMENT_TYPES.includes(file.type);
 
-    if (!isImage && !isVideo) {
+    if (!isImage && !isVideo && !isDocument) {
       throw new Error(`Unsupported file type: ${file.type}`);
     }
 
@@ -186,12 +203,16 @@ export class UploadService {
     if (isVideo && file.size > this.MAX_VIDEO_SIZE) {
       throw new Error(`Video file size exceeds ${this.MAX_VIDEO_SIZE / 1024 / 1024}MB limit`);
     }
+
+    if (isDocument && file.size > this.MAX_DOCUMENT_SIZE) {
+      throw new Error(`Document file size exceeds ${this.MAX_DOCUMENT_SIZE / 1024 / 1024}MB limit`);
+    }
   }
 
   /**
    * Validate media file based on specific type
    */
-  private static validateMediaFile(file: File, expectedType: 'image' | 'video'): void {
+  private static validateMediaFile(file: File, expectedType: PropertyMediaUpload['type']): void {
     this.validateFile(file); // Basic validation first
 
     if (expectedType === 'image' && !this.SUPPORTED_IMAGE_TYPES.includes(file.type)) {
@@ -201,6 +222,10 @@ export class UploadService {
     if (expectedType === 'video' && !this.SUPPORTED_VIDEO_TYPES.includes(file.type)) {
       throw new Error(`File ${file.name} is not a supported video format`);
     }
+
+    if (expectedType === 'document' && !this.SUPPORTED_DOCUMENT_TYPES.includes(file.type)) {
+      throw new Error(`File ${file.name} is not a supported document format`);
+    }
   }
 
   /**
@@ -216,13 +241,16 @@ export class UploadService {
   /**
    * Get file type from MIME type
    */
-  static getFileType(mimeType: string): 'image' | 'video' | 'unknown' {
+  static getFileType(mimeType: string): 'image' | 'video' | 'document' | 'unknown' {
     if (this.SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
       return 'image';
     }
     if (this.SUPPORTED_VIDEO_TYPES.includes(mimeType)) {
       return 'video';
     }
+    if (this.SUPPORTED_DOCUMENT_TYPES.includes(mimeType)) {
+      return 'document';
+    }
     return 'unknown';
   }
 
@@ -243,13 +271,14 @@ export class UploadService {
    * Check if file type is supported
    */
   static isFileTypeSupported(mimeType: string): boolean {
-    return [...this.SUPPORTED_IMAGE_TYPES, ...this.SUPPORTED_VIDEO_TYPES].includes(mimeType);
+    return [...this.SUPPORTED_IMAGE_TYPES, ...this.SUPPORTED_VIDEO_TYPES, ...this.SUPPORTED_DOCUMENT_TYPES].includes(mimeType);
   }
 
   /**
    * Get maximum file size for type
    */
-  static getMaxFileSize(type: 'image' | 'video'): number {
+  static getMaxFileSize(type: PropertyMediaUpload['type']): number {
+    if (type === 'document') return this.MAX_DOCUMENT_SIZE;
     return type === 'image' ? this.MAX_IMAGE_SIZE : this.MAX_VIDEO_SIZE;
   }
 }
\ No newline at end of file
@@ -3,7 +3,7 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import { Admin, CustomerInquiry, DashboardStats, Testimonial, TestimonialStats } from '@/types/admin';
 import { Property } from '@/types/property';
 import { API, ApiService } from '@/services/apiService';
-import { storeAuthTokens, clearAuthTokens, formatApiError } from '@/utils/apiMigrationUtils';
+import { mapInquiryData } from '@/utils/apiMigrationUtils';
 import { createAppError, logError } from '@/utils/errorHandler';
 import { Environment } from '@/config/environment';
 import type { LoadingState, BaseStoreState, AdminStoreState } from '@/types/api';
@@ -37,7 +37,7 @@ interface AdminStore extends AdminStoreState {
   setAuthenticated: (authenticated: boolean) => void;
   
   // Property actions
-  addProperty: (property: Omit<Property, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  addProperty: (property: Omit<Property, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Property>;
   updateProperty: (id: string, property: Partial<Property>) => Promise<void>;
   deleteProperty: (id: string) => void;
   setAdminProperties: (properties: Property[]) => void;
@@ -538,12 +538,13 @@ export const useAdminStore = create<AdminStore>()(
       if (newProperty) {
         console.log('✅ New property created, refreshing list...');
         // Refresh the entire admin properties list to ensure consistency
-        const updatedProperties = await API.properties.getAll();
+        const updatedProperties = await API.properties.getAllPages();
         console.log('📝 Updated properties list:', updatedProperties.length, 'items');
         set({
           adminProperties: updatedProperties
         });
         console.log('✅ AdminStore state updated successfully');
+        return newProperty;
       } else {
         console.error('❌ API.properties.create returned null');
         throw new Error('Property creation returned null');
@@ -562,7 +563,7 @@ export const useAdminStore = create<AdminStore>()(
       const updatedProperty = await API.properties.update(id, propertyData);
       if (updatedProperty) {
         // Refresh the entire admin properties list to ensure consistency
-        const updatedProperties = await API.properties.getAll();
+        const updatedProperties = await API.properties.getAllPages();
         set({
           adminProperties: updatedProperties
         });
@@ -599,21 +600,7 @@ export const useAdminStore = create<AdminStore>()(
         const updatedInquiries = await API.inquiries.getAll();
         console.log('📝 Updated inquiries list:', updatedInquiries.length, 'items');
         
-        // Transform the Supabase inquiries to match our CustomerInquiry type
-        const transformedInquiries: CustomerInquiry[] = updatedInquiries.map((inquiry: any) => ({
-          id: inquiry.id,
-          name: inquiry.name,
-          email: inquiry.email,
-          phone: inquiry.phone,
-          company: inquiry.company || undefined, // company field may not exist in DB
-          message: inquiry.message,
-          propertyTitle: inquiry.property_title || inquiry.propertyTitle || undefined, // Use direct field instead of joined
-          status: inquiry.status as CustomerInquiry['status'],
-          priority: inquiry.priority as CustomerInquiry['priority'],
-          notes: inquiry.notes,
-          createdAt: inquiry.created_at,
-          updatedAt: inquiry.updated_at,
-        }));
+        const transformedInquiries: CustomerInquiry[] = updatedInquiries.map(mapInquiryData);
         
         set({ inquiries: transformedInquiries });
         console.log('✅ AdminStore inquiries updated successfully');
@@ -634,14 +621,28 @@ export const useAdminStore = create<AdminStore>()(
     console.log('🔄 AdminStore.updateInquiry called with:', { id, inquiryData });
     
     try {
-      // First update the database
-      await API.inquiries.update(id, inquiryData);
+      // Only send what the API stores - notes are appended to the inquiry's timeline
+      const updates: Record<string, any> = {
+        name: inquiryData.name,
+        email: inquiryData.email,
+        phone: inquiryData.phone,
+        message: inquiryData.message,
+        status: inquiryData.status,
+        priority: inquiryData.priority,
+        notes: inquiryData.notes,
+        assigned_to: inquiryData.assignedTo
+      };
+      Object.keys(updates).forEach(key => {
+        if (updates[key] === undefined) delete updates[key];
+      });
+
+      const updated = await API.inquiries.update(id, updates);
       
-      // Then update local state
+      // Take the server's copy - it carries the recalculated SLA fields
       set(state => ({
         inquiries: state.inquiries.map(inquiry =>
           inquiry.id === id
-            ? { ...inquiry, ...inquiryData, updatedAt: new Date().toISOString() }
+            ? (updated ? mapInquiryData(updated) : { ...inquiry, ...inquiryData, updatedAt: new Date().toISOString() })
             : inquiry
         )
       }));
@@ -759,23 +760,7 @@ export const useAdminStore = create<AdminStore>()(
       
       addBreadcrumb(`Loaded ${apiInquiries.length} inquiries`, 'admin', 'info');
       
-      // Transform the inquiries to match our CustomerInquiry type
-      const transformedInquiries: CustomerInquiry[] = apiInquiries.map((inquiry: any) => ({
-        id: inquiry.id,
-        name: inquiry.name,
-        email: inquiry.email,
-        phone: inquiry.phone || '',
-        propertyId: inquiry.property_id,
-        propertyTitle: inquiry.property?.title || 'Unknown Property',
-        message: inquiry.message,
-        status: inquiry.status as 'new' | 'contacted' | 'in_progress' | 'converted' | 'closed',
-        priority: inquiry.priority as 'low' | 'medium' | 'high',
-        assignedTo: inquiry.assigned_to || '',
-        notes: inquiry.notes || '',
-        createdAt: inquiry.created_at,
-        updatedAt: inquiry.updated_at,
-        tags: inquiry.tags || []
-      }));
+      const transformedInquiries: CustomerInquiry[] = apiInquiries.map(mapInquiryData);
 
       set({ inquiries: transformedInquiries });
       console.log(`✅ AdminStore.loadInquiries: Successfully loaded and set ${transformedInquiries.length} inquiries`);
@@ -0,0 +1,137 @@
+import { create } from 'zustand';
+import { ChatThread, ChatThreadMessage } from '@/types/thesys';
+import { API } from '@/services/apiService';
+import { useUserStore } from '@/store/userStore';
+import { formatApiError, mapChatThreadData, mapChatThreadMessageData } from '@/utils/apiMigrationUtils';
+
+interface ChatThreadStore {
+  // State
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  messages: ChatThreadMessage[];
+  isLoading: boolean;
+  isLoadingMessages: boolean;
+  error: string | null;
+
+  // Threads of the signed-in user (none while signed out)
+  loadThreads: () => Promise<void>;
+  // Signed out, the thread only gets an id here; the chat endpoint saves it with its first message
+  createThread: (title?: string) => Promise<ChatThread>;
+  // Thread for the next message: the active one, else a new one
+  ensureActiveThread: (title?: string) => Promise<string>;
+  selectThread: (id: string) => Promise<void>;
+  startNewThread: () => void;
+  renameThread: (id: string, title: string) => Promise<boolean>;
+  deleteThread: (id: string) => Promise<boolean>;
+
+  clearError: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  threads: [],
+  activeThreadId: null,
+  messages: [],
+  isLoading: false,
+  isLoadingMessages: false,
+  error: null
+};
+
+const isSignedIn = () => useUserStore.getState().isAuthenticated;
+
+export const useChatThreadStore = create<ChatThreadStore>((set, get) => ({
+  ...initialState,
+
+  loadThreads: async () => {
+    if (!isSignedIn()) {
+      set({ threads: [] });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const rows = await API.c1Threads.list();
+      set({ threads: (rows || []).map(mapChatThreadData), isLoading: false });
+    } catch (error) {
+      console.error('❌ Error loading chat threads:', error);
+      set({ isLoading: false, error: formatApiError(error) });
+    }
+  },
+
+  createThread: async (title?: string) => {
+    if (!isSignedIn()) {
+      const now = new Date().toISOString();
+      return { id: crypto.randomUUID(), title: title || 'New conversation', messageCount: 0, createdAt: now, updatedAt: now };
+    }
+
+    const thread = mapChatThreadData(await API.c1Threads.create(title));
+    set({ threads: [thread, ...get().threads] });
+    return thread;
+  },
+
+  ensureActiveThread: async (title?: string) => {
+    const { activeThreadId } = get();
+    if (activeThreadId) return activeThreadId;
+
+    const thread = await get().createThread(title);
+    set({ activeThreadId: thread.id });
+    return thread.id;
+  },
+
+  selectThread: async (id: string) => {
+    set({ activeThreadId: id, messages: [], isLoadingMessages: true, error: null });
+    try {
+      const { thread, messages } = await API.c1Threads.getMessages(id);
+      // Ignore the response if another thread was picked meanwhile
+      if (get().activeThreadId !== id) return;
+
+      const updated = mapChatThreadData(thread);
+      set({
+        messages: (messages || []).map(mapChatThreadMessageData),
+        threads: get().threads.map(existing => existing.id === id ? updated : existing),
+        isLoadingMessages: false
+      });
+    } catch (error) {
+      console.error('❌ Error loading chat thread:', error);
+      set({ isLoadingMessages: false, error: formatApiError(error) });
+    }
+  },
+
+  startNewThread: () => {
+    set({ activeThreadId: null, messages: [] });
+  },
+
+  renameThread: async (id: string, title: string) => {
+    set({ error: null });
+    try {
+      const updated = mapChatThreadData(await API.c1Threads.rename(id, title));
+      set({ threads: get().threads.map(thread => thread.id === id ? updated : thread) });
+      return true;
+    } catch (error) {
+      console.error('❌ Error renaming chat thread:', error);
+      set({ error: formatApiError(error) });
+      return false;
+    }
+  },
+
+  deleteThread: async (id: string) => {
+    set({ error: null });
+    try {
+      await API.c1Threads.delete(id);
+      const wasActive = get().activeThreadId === id;
+      set({
+        threads: get().threads.filter(thread => thread.id !== id),
+        ...(wasActive && { activeThreadId: null, messages: [] })
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting chat thread:', error);
+      set({ error: formatApiError(error) });
+      return false;
+    }
+  },
+
+  clearError: () => set({ error: null }),
+
+  reset: () => set(initialState)
+}));
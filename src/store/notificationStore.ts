@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { AppNotification, NotificationPreferences } from '@/types/notification';
+import { API } from '@/services/apiService';
+import { formatApiError, mapNotificationData, mapNotificationPreferencesData } from '@/utils/apiMigrationUtils';
+
+interface NotificationStore {
+  // State
+  notifications: AppNotification[];
+  unreadCount: number;
+  preferences: NotificationPreferences | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Inbox
+  loadUnreadCount: () => Promise<void>;
+  loadNotifications: () => Promise<void>;
+  markRead: (ids?: string[]) => Promise<void>;
+
+  // Preferences
+  loadPreferences: () => Promise<void>;
+  updatePreferences: (updates: {
+    events?: Record<string, Record<string, boolean>>;
+    webhookUrl?: string | null;
+    webhookSecret?: string | null;
+  }) => Promise<boolean>;
+
+  clearError: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  notifications: [],
+  unreadCount: 0,
+  preferences: null,
+  isLoading: false,
+  error: null
+};
+
+export const useNotificationStore = create<NotificationStore>((set, get) => ({
+  ...initialState,
+
+  loadUnreadCount: async () => {
+    try {
+      const { unread } = await API.notifications.getUnreadCount();
+      set({ unreadCount: unread });
+    } catch (error) {
+      // Polled in the background - keep the last count rather than surface an error
+      console.error('❌ Error loading unread notification count:', error);
+    }
+  },
+
+  loadNotifications: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await API.notifications.list({ limit: 20 });
+      set({
+        notifications: (response.data || []).map(mapNotificationData),
+        unreadCount: response.meta?.unread ?? 0,
+        isLoading: false
+      });
+    } catch (error) {
+      console.error('❌ Error loading notifications:', error);
+      set({ isLoading: false, error: formatApiError(error) });
+    }
+  },
+
+  markRead: async (ids?: string[]) => {
+    try {
+      await API.notifications.markRead(ids);
+      const readAt = new Date().toISOString();
+      const isTarget = (notification: AppNotification) => !notification.readAt && (!ids || ids.includes(notification.id));
+      const newlyRead = get().notifications.filter(isTarget);
+
+      set({
+        notifications: get().notifications.map(notification => isTarget(notification) ? { ...notification, readAt } : notification),
+        unreadCount: ids ? Math.max(0, get().unreadCount - newlyRead.length) : 0
+      });
+    } catch (error) {
+      console.error('❌ Error marking notifications read:', error);
+      set({ error: formatApiError(error) });
+    }
+  },
+
+  loadPreferences: async () => {
+    set({ error: null });
+    try {
+      const row = await API.notifications.getPreferences();
+      set({ preferences: mapNotificationPreferencesData(row) });
+    } catch (error) {
+      console.error('❌ Error loading notification preferences:', error);
+      set({ error: formatApiError(error) });
+    }
+  },
+
+  updatePreferences: async (updates) => {
+    set({ error: null });
+    try {
+      const row = await API.notifications.updatePreferences({
+        ...(updates.events ? { events: updates.events } : {}),
+        ...(updates.webhookUrl !== undefined ? { webhook_url: updates.webhookUrl } : {}),
+        ...(updates.webhookSecret !== undefined ? { webhook_secret: updates.webhookSecret } : {})
+      });
+      set({ preferences: mapNotificationPreferencesData(row) });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating notification preferences:', error);
+      set({ error: formatApiError(error) });
+      return false;
+    }
+  },
+
+  clearError: () => set({ error: null }),
+
+  reset: () => set(initialState)
+}));
@@ -2,11 +2,16 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { Property, PropertyFilters, SearchParams } from '@/types/property';
 import { API } from '@/services/apiService';
-import { mapPropertyFiltersToQuery, formatApiError, mapPropertiesData, mapPropertyData } from '@/utils/apiMigrationUtils';
+import { mapSearchParamsToQuery, formatApiError, mapPropertiesData, mapPropertyData, mapPaginationMeta } from '@/utils/apiMigrationUtils';
 import { createAppError, logError } from '@/utils/errorHandler';
 import type { LoadingState, BaseStoreState, PropertyStoreState } from '@/types/api';
 
 interface PropertyStore extends PropertyStoreState {
+  // Server-side pagination and sorting
+  searchParams: SearchParams;
+  // "Did you mean" correction returned by full-text search
+  searchSuggestion: string | null;
+  
   // Enhanced loading and error state
   refreshProperties: () => Promise<void>;
   
@@ -20,6 +25,7 @@ interface PropertyStore extends PropertyStoreState {
   setSelectedProperty: (property: Property | null) => void;
   setFilters: (filters: PropertyFilters) => void;
   setSearchParams: (params: SearchParams) => void;
+  setPage: (page: number) => void;
   applyFilters: () => void;
   clearFilters: () => void;
   setLoading: (loading: boolean) => void;
@@ -38,6 +44,19 @@ const debugEnabled = import.meta.env.VITE_DEBUG_AUTH === 'true' ||
                      import.meta.env.VITE_DEBUG_SUPABASE === 'true' ||
                      import.meta.env.MODE === 'development';
 
+// A text query goes through full-text search; everything else is a plain listing
+const fetchPropertyPage = (filters: PropertyStore['filters'], searchParams: SearchParams) => {
+  const { q: _q, ...query } = mapSearchParamsToQuery(filters, searchParams);
+  const text = searchParams.query?.trim();
+
+  return text && text.length >= 2
+    ? API.properties.search(text, query)
+    : API.properties.list(query);
+};
+
+// Bumped by every page request; a response that is no longer the latest is dropped
+let latestPageRequest = 0;
+
 export const usePropertyStore = create<PropertyStore>()(
   persist(
     (set, get) => ({
@@ -47,6 +66,12 @@ export const usePropertyStore = create<PropertyStore>()(
       selectedProperty: null,
       filters: {},
       searchParams: {},
+      searchSuggestion: null,
+      pagination: null,
+      // Mirror searchParams.query/sortBy/sortOrder; the listing API defaults to newest first
+      searchQuery: '',
+      sortBy: 'date',
+      sortOrder: 'desc',
       isLoading: false,
       error: null,
       isAdmin: false,
@@ -61,6 +86,7 @@ export const usePropertyStore = create<PropertyStore>()(
       lastUpdate: 0,
 
   loadProperties: async () => {
+    const requestId = ++latestPageRequest;
     set({ 
       isLoading: true, 
       error: null,
@@ -72,16 +98,18 @@ export const usePropertyStore = create<PropertyStore>()(
         console.log('🔄 PropertyStore: Loading properties via API...');
       }
       
-      const query = mapPropertyFiltersToQuery(get().filters);
-      const rawProperties = await API.properties.getAll(query);
+      const response = await fetchPropertyPage(get().filters, get().searchParams);
+      if (requestId !== latestPageRequest) return;
       
       // Map backend response to frontend format
-      const properties = mapPropertiesData(rawProperties);
+      const properties = mapPropertiesData(response.data);
       const now = Date.now();
       
       set({ 
         properties, 
         filteredProperties: properties, 
+        pagination: mapPaginationMeta(response.meta),
+        searchSuggestion: response.meta?.suggestion ?? null,
         isLoading: false,
         error: null,
         initialized: true,
@@ -89,17 +117,16 @@ export const usePropertyStore = create<PropertyStore>()(
         loading: {
           ...get().loading,
           isLoading: false,
+          isRefreshing: false,
           lastFetchTime: now
         }
       });
       
-      // Apply existing filters after loading
-      get().applyFilters();
-      
       if (debugEnabled) {
         console.log('✅ Properties loaded successfully:', properties.length);
       }
     } catch (error) {
+      if (requestId !== latestPageRequest) return;
       const appError = createAppError(error, 'Load Properties');
       logError(appError);
       
@@ -109,6 +136,7 @@ export const usePropertyStore = create<PropertyStore>()(
         loading: {
           ...get().loading,
           isLoading: false,
+          isRefreshing: false,
           error: appError.userMessage
         }
       });
@@ -116,6 +144,7 @@ export const usePropertyStore = create<PropertyStore>()(
   },
 
   refreshProperties: async () => {
+    const requestId = ++latestPageRequest;
     set({
       loading: { ...get().loading, isRefreshing: true, error: null }
     });
@@ -125,38 +154,40 @@ export const usePropertyStore = create<PropertyStore>()(
         console.log('🔄 PropertyStore: Refreshing properties...');
       }
       
-      const query = mapPropertyFiltersToQuery(get().filters);
-      const rawProperties = await API.properties.getAll(query);
+      const response = await fetchPropertyPage(get().filters, get().searchParams);
+      if (requestId !== latestPageRequest) return;
       
       // Map raw properties to normalized Property type
-      const properties = mapPropertiesData(rawProperties);
+      const properties = mapPropertiesData(response.data);
       const now = Date.now();
       
       set({ 
         properties, 
         filteredProperties: properties,
+        pagination: mapPaginationMeta(response.meta),
+        searchSuggestion: response.meta?.suggestion ?? null,
         error: null,
         lastUpdate: now,
         loading: {
           ...get().loading,
+          isLoading: false,
           isRefreshing: false,
           lastFetchTime: now
         }
       });
       
-      // Apply existing filters after refresh
-      get().applyFilters();
-      
       if (debugEnabled) {
         console.log('✅ Properties refreshed successfully:', properties.length);
       }
     } catch (error) {
+      if (requestId !== latestPageRequest) return;
       const appError = createAppError(error, 'Refresh Properties');
       logError(appError);
       
       set({
         loading: {
           ...get().loading,
+          isLoading: false,
           isRefreshing: false,
           error: appError.userMessage
         }
@@ -175,7 +206,6 @@ export const usePropertyStore = create<PropertyStore>()(
         lastFetchTime: now
       }
     });
-    get().applyFilters();
   },
 
   setSelectedProperty: (property) => {
@@ -197,74 +227,23 @@ export const usePropertyStore = create<PropertyStore>()(
     if (debugEnabled) {
       console.log('🔍 PropertyStore: Setting search params:', params);
     }
-    set({ searchParams: params });
+    set({
+      searchParams: params,
+      searchQuery: params.query || '',
+      sortBy: params.sortBy || 'date',
+      sortOrder: params.sortOrder || 'desc'
+    });
+    // Pagination and sorting are applied server-side, so refetch
+    get().loadProperties();
   },
 
-  applyFilters: () => {
-    const { properties, filters } = get();
-    let filtered = [...properties];
-
-    // Category filter - use normalized property.category field
-    if (filters.category) {
-      filtered = filtered.filter(p => p.category === filters.category);
-    }
-
-    // Handle both single location (backward compatibility) and multiple locations
-    if (filters.locations && filters.locations.length > 0) {
-      filtered = filtered.filter(p => 
-        filters.locations!.some(location => 
-          p.location.toLowerCase().includes(location.toLowerCase()) ||
-          location.toLowerCase().includes(p.location.toLowerCase())
-        )
-      );
-    } else if (filters.location) {
-      // Single location fallback for backward compatibility
-      filtered = filtered.filter(p => 
-        p.location.toLowerCase().includes(filters.location!.toLowerCase()) ||
-        filters.location!.toLowerCase().includes(p.location.toLowerCase())
-      );
-    }
-
-
-    // Area filtering using normalized property.size.area field
-    if (filters.sizeRange) {
-      filtered = filtered.filter(p => 
-        (p.size?.area || 0) >= (filters.sizeRange?.min || 0) &&
-        (p.size?.area || 0) <= (filters.sizeRange?.max || Infinity)
-      );
-    }
-
-    if (filters.amenities && filters.amenities.length > 0) {
-      filtered = filtered.filter(p => 
-        filters.amenities!.every(amenity => p.amenities.includes(amenity))
-      );
-    }
-
-    // Availability filtering using normalized property.availability.available field
-    if (filters.availability !== undefined) {
-      filtered = filtered.filter(p => p.availability && p.availability.available === filters.availability);
-    }
-
-    // Availability status filtering using normalized property.availability.status field
-    if (filters.availabilityStatus) {
-      filtered = filtered.filter(p => p.availability && p.availability.status === filters.availabilityStatus);
-    }
-
-    // Custom tag filtering
-    if (filters.customTags && filters.customTags.length > 0) {
-      filtered = filtered.filter(p => {
-        if (!p.customTags || p.customTags.length === 0) return false;
-        // Check if property has any of the selected tags
-        return filters.customTags!.some(tagId => 
-          p.customTags!.some(propertyTag => propertyTag.id === tagId)
-        );
-      });
-    }
+  setPage: (page) => {
+    get().setSearchParams({ ...get().searchParams, page });
+  },
 
-    if (debugEnabled) {
-      console.log(`🔍 PropertyStore: Filtered ${filtered.length}/${get().properties.length} properties`);
-    }
-    set({ filteredProperties: filtered });
+  applyFilters: () => {
+    // Filters are enforced by the API - refetch from the first page
+    get().setSearchParams({ ...get().searchParams, page: 1 });
   },
 
   clearFilters: () => {
@@ -273,9 +252,14 @@ export const usePropertyStore = create<PropertyStore>()(
     }
     set({ 
       filters: {}, 
-      searchParams: {},
-      filteredProperties: get().properties 
+      searchParams: { limit: get().searchParams.limit },
+      searchSuggestion: null,
+      pagination: null,
+      searchQuery: '',
+      sortBy: 'date',
+      sortOrder: 'desc'
     });
+    get().loadProperties();
   },
 
   setLoading: (loading) => {
@@ -307,6 +291,8 @@ export const usePropertyStore = create<PropertyStore>()(
       properties: [],
       filteredProperties: [],
       selectedProperty: null,
+      pagination: null,
+      searchSuggestion: null,
       initialized: false,
       lastUpdate: 0,
       loading: {
@@ -371,7 +357,7 @@ export const usePropertyStore = create<PropertyStore>()(
           }
         });
         
-        get().applyFilters(); // Reapply current filters
+        await get().refreshProperties(); // Re-fetch so server-side filters and paging apply
         
         if (debugEnabled) {
           console.log('✅ Property created successfully:', newProperty.id);
@@ -461,7 +447,7 @@ export const usePropertyStore = create<PropertyStore>()(
           }
         });
         
-        get().applyFilters(); // Reapply current filters
+        await get().refreshProperties(); // Re-fetch so server-side filters and paging apply
         
         if (debugEnabled) {
           console.log('✅ Property updated successfully:', id);
@@ -547,7 +533,7 @@ export const usePropertyStore = create<PropertyStore>()(
           }
         });
         
-        get().applyFilters(); // Reapply current filters
+        await get().refreshProperties(); // Re-fetch so server-side filters and paging apply
         
         if (debugEnabled) {
           console.log('✅ Property deleted successfully:', id);
@@ -660,7 +646,7 @@ export const usePropertyStore = create<PropertyStore>()(
           }
         });
         
-        get().applyFilters(); // Reapply current filters
+        await get().refreshProperties(); // Re-fetch so server-side filters and paging apply
         
         if (debugEnabled) {
           console.log(`✅ Bulk update completed: ${updatedProperties.length} successful, ${errors.length} failed`);
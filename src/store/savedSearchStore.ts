@@ -0,0 +1,156 @@
+import { create } from 'zustand';
+import { SavedSearch, SearchAlert } from '@/types/user';
+import { API } from '@/services/apiService';
+import { formatApiError, mapSavedSearchData, mapSearchAlertData } from '@/utils/apiMigrationUtils';
+
+interface SavedSearchOptions {
+  alertsEnabled?: boolean;
+  emailDigest?: boolean;
+}
+
+interface SavedSearchStore {
+  // State
+  savedSearches: SavedSearch[];
+  alerts: SearchAlert[];
+  unreadAlertCount: number;
+  isLoading: boolean;
+  error: string | null;
+
+  // Saved searches
+  loadSavedSearches: () => Promise<void>;
+  saveSearch: (name: string, query: Record<string, string>, options?: SavedSearchOptions) => Promise<SavedSearch | null>;
+  updateSavedSearch: (id: string, updates: { name?: string } & SavedSearchOptions) => Promise<boolean>;
+  deleteSavedSearch: (id: string) => Promise<boolean>;
+
+  // Alert inbox
+  loadAlerts: (unreadOnly?: boolean) => Promise<void>;
+  markAlertsRead: (ids?: string[]) => Promise<void>;
+
+  clearError: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  savedSearches: [],
+  alerts: [],
+  unreadAlertCount: 0,
+  isLoading: false,
+  error: null
+};
+
+export const useSavedSearchStore = create<SavedSearchStore>((set, get) => ({
+  ...initialState,
+
+  loadSavedSearches: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const rows = await API.savedSearches.list();
+      set({ savedSearches: (rows || []).map(mapSavedSearchData), isLoading: false });
+    } catch (error) {
+      console.error('❌ Error loading saved searches:', error);
+      set({ isLoading: false, error: formatApiError(error) });
+    }
+  },
+
+  saveSearch: async (name: string, query: Record<string, string>, options: SavedSearchOptions = {}) => {
+    set({ error: null });
+    try {
+      const row = await API.savedSearches.create({
+        name,
+        query,
+        alerts_enabled: options.alertsEnabled,
+        email_digest: options.emailDigest
+      });
+      const savedSearch = mapSavedSearchData(row);
+      set({ savedSearches: [savedSearch, ...get().savedSearches] });
+      return savedSearch;
+    } catch (error) {
+      console.error('❌ Error saving search:', error);
+      set({ error: formatApiError(error) });
+      return null;
+    }
+  },
+
+  updateSavedSearch: async (id: string, updates: { name?: string } & SavedSearchOptions) => {
+    set({ error: null });
+    try {
+      const row = await API.savedSearches.update(id, {
+        name: updates.name,
+        alerts_enabled: updates.alertsEnabled,
+        email_digest: updates.emailDigest
+      });
+      const updated = mapSavedSearchData(row);
+      set({
+        savedSearches: get().savedSearches.map(search =>
+          // The update response carries no alert count - keep the one we have
+          search.id === id ? { ...updated, unreadAlerts: search.unreadAlerts } : search
+        )
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating saved search:', error);
+      set({ error: formatApiError(error) });
+      return false;
+    }
+  },
+
+  deleteSavedSearch: async (id: string) => {
+    set({ error: null });
+    try {
+      await API.savedSearches.delete(id);
+      const removed = get().savedSearches.find(search => search.id === id);
+      set({
+        savedSearches: get().savedSearches.filter(search => search.id !== id),
+        alerts: get().alerts.filter(alert => alert.savedSearchId !== id),
+        unreadAlertCount: Math.max(0, get().unreadAlertCount - (removed?.unreadAlerts || 0))
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting saved search:', error);
+      set({ error: formatApiError(error) });
+      return false;
+    }
+  },
+
+  loadAlerts: async (unreadOnly = false) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await API.searchAlerts.list({ unreadOnly, limit: 50 });
+      set({
+        alerts: (response.data || []).map(mapSearchAlertData),
+        unreadAlertCount: response.meta?.unread ?? 0,
+        isLoading: false
+      });
+    } catch (error) {
+      console.error('❌ Error loading search alerts:', error);
+      set({ isLoading: false, error: formatApiError(error) });
+    }
+  },
+
+  markAlertsRead: async (ids?: string[]) => {
+    try {
+      await API.searchAlerts.markRead(ids);
+      const readAt = new Date().toISOString();
+      const isTarget = (alert: SearchAlert) => !alert.readAt && (!ids || ids.includes(alert.id));
+      const newlyRead = get().alerts.filter(isTarget);
+
+      set({
+        alerts: get().alerts.map(alert => isTarget(alert) ? { ...alert, readAt } : alert),
+        unreadAlertCount: ids ? Math.max(0, get().unreadAlertCount - newlyRead.length) : 0,
+        savedSearches: get().savedSearches.map(search => ({
+          ...search,
+          unreadAlerts: ids
+            ? Math.max(0, search.unreadAlerts - newlyRead.filter(alert => alert.savedSearchId === search.id).length)
+            : 0
+        }))
+      });
+    } catch (error) {
+      console.error('❌ Error marking search alerts read:', error);
+      set({ error: formatApiError(error) });
+    }
+  },
+
+  clearError: () => set({ error: null }),
+
+  reset: () => set(initialState)
+}));
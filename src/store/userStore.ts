@@ -1,16 +1,22 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { User, AuthState, LoginCredentials, RegisterData, UserProfile } from '@/types/user';
+import { User, AuthState, LoginCredentials, RegisterData, UserProfile, SavedProperty } from '@/types/user';
 import { API } from '@/services/apiService';
-import { storeAuthTokens, clearAuthTokens, formatApiError } from '@/utils/apiMigrationUtils';
+import { storeAuthTokens, clearAuthTokens, formatApiError, mapSavedPropertyData } from '@/utils/apiMigrationUtils';
 import { createAppError, logError } from '@/utils/errorHandler';
 import { Environment } from '@/config/environment';
 import type { LoadingState } from '@/types/api';
 import { FirebaseAuthService } from '@/lib/firebaseClient';
+import { trackInteraction } from '@/services/interactionService';
 
 interface UserStore extends AuthState {
   // Enhanced loading state
   loading: LoadingState;
+
+  // Saved properties with notes and live listing data (signed-in users)
+  savedPropertyItems: SavedProperty[];
+  // Favourites picked while signed out, merged into the account at sign-in
+  anonymousSavedProperties: string[];
   
   // Auth methods
   login: (credentials: LoginCredentials) => Promise<boolean>;
@@ -24,8 +30,9 @@ interface UserStore extends AuthState {
   updateProfile: (profile: Partial<UserProfile>) => Promise<boolean>;
   
   // Saved properties methods
-  saveProperty: (propertyId: string) => Promise<boolean>;
+  saveProperty: (propertyId: string, notes?: string) => Promise<boolean>;
   unsaveProperty: (propertyId: string) => Promise<boolean>;
+  updateSavedPropertyNotes: (propertyId: string, notes: string) => Promise<boolean>;
   getSavedProperties: () => string[];
   isPropertySaved: (propertyId: string) => boolean;
   refreshSavedProperties: () => Promise<void>;
@@ -62,6 +69,8 @@ export const useUserStore = create<UserStore>()(
         error: null,
         lastFetchTime: null,
       },
+      savedPropertyItems: [],
+      anonymousSavedProperties: [],
 
   // Auth methods
   login: async (credentials: LoginCredentials) => {
@@ -115,6 +124,9 @@ export const useUserStore = create<UserStore>()(
         }
       });
       
+      // Pull the account's favourites, merging any saved while signed out
+      await get().refreshSavedProperties();
+      
       return true;
     } catch (error) {
       const errorMessage = formatApiError(error);
@@ -183,6 +195,9 @@ export const useUserStore = create<UserStore>()(
         }
       });
       
+      // Pull the account's favourites, merging any saved while signed out
+      await get().refreshSavedProperties();
+      
       return true;
     } catch (error) {
       const errorMessage = formatApiError(error);
@@ -250,6 +265,9 @@ export const useUserStore = create<UserStore>()(
         }
       });
       
+      // Pull the account's favourites, merging any saved while signed out
+      await get().refreshSavedProperties();
+      
       return true;
     } catch (error) {
       const appError = error instanceof Error ? error : 
@@ -304,6 +322,7 @@ export const useUserStore = create<UserStore>()(
       set({
         user: null,
         isAuthenticated: false,
+        savedPropertyItems: [],
         isLoading: false,
         error: null,
         loading: {
@@ -326,6 +345,7 @@ export const useUserStore = create<UserStore>()(
       set({
         user: null,
         isAuthenticated: false,
+        savedPropertyItems: [],
         isLoading: false,
         error: null,
         loading: {
@@ -451,6 +471,8 @@ export const useUserStore = create<UserStore>()(
         if (isDebugEnabled()) {
           console.log('✅ Auth initialization complete - user authenticated:', response.user.id);
         }
+
+        await get().refreshSavedProperties();
       } else {
         // No valid session, clear any stale tokens
         clearAuthTokens();
@@ -532,39 +554,78 @@ export const useUserStore = create<UserStore>()(
     }
   },
 
-  saveProperty: async (propertyId: string) => {
-    const { user } = get();
-    if (!user) return false;
-    
-    // STUB: Property saving functionality not implemented in backend yet
-    console.warn('saveProperty: Not yet implemented in backend API');
-    
-    // For now, just update local state
-    try {
-      const updatedUser = { ...user };
-      if (!updatedUser.savedProperties.includes(propertyId)) {
-        updatedUser.savedProperties.push(propertyId);
-        set({ user: updatedUser });
+  saveProperty: async (propertyId: string, notes?: string) => {
+    const { user, anonymousSavedProperties } = get();
+
+    // Signed out: keep it on this device until the next sign-in merges it
+    if (!user) {
+      if (!anonymousSavedProperties.includes(propertyId)) {
+        set({ anonymousSavedProperties: [...anonymousSavedProperties, propertyId] });
+        // Accounts' saves reach the recommender through saved_properties
+        trackInteraction(propertyId, 'save');
       }
       return true;
+    }
+
+    const previousIds = user.savedProperties || [];
+    if (!previousIds.includes(propertyId)) {
+      set({ user: { ...user, savedProperties: [...previousIds, propertyId] } });
+    }
+
+    try {
+      await API.savedProperties.save(propertyId, notes);
+      await get().refreshSavedProperties();
+      return true;
     } catch (error) {
+      // Roll back the optimistic update
+      const current = get().user;
+      if (current) {
+        set({ user: { ...current, savedProperties: previousIds } });
+      }
       set({ error: formatApiError(error) });
       return false;
     }
   },
 
   unsaveProperty: async (propertyId: string) => {
-    const { user } = get();
-    if (!user) return false;
-    
-    // STUB: Property unsaving functionality not implemented in backend yet
-    console.warn('unsaveProperty: Not yet implemented in backend API');
-    
-    // For now, just update local state
+    const { user, anonymousSavedProperties, savedPropertyItems } = get();
+
+    if (!user) {
+      set({ anonymousSavedProperties: anonymousSavedProperties.filter(id => id !== propertyId) });
+      return true;
+    }
+
+    const previousIds = user.savedProperties || [];
+    set({
+      user: { ...user, savedProperties: previousIds.filter(id => id !== propertyId) },
+      savedPropertyItems: savedPropertyItems.filter(item => item.propertyId !== propertyId)
+    });
+
     try {
-      const updatedUser = { ...user };
-      updatedUser.savedProperties = updatedUser.savedProperties.filter(id => id !== propertyId);
-      set({ user: updatedUser });
+      await API.savedProperties.remove(propertyId);
+      return true;
+    } catch (error) {
+      const current = get().user;
+      if (current) {
+        set({ user: { ...current, savedProperties: previousIds } });
+      }
+      set({ savedPropertyItems, error: formatApiError(error) });
+      return false;
+    }
+  },
+
+  updateSavedPropertyNotes: async (propertyId: string, notes: string) => {
+    if (!get().user) return false;
+
+    try {
+      const updated = await API.savedProperties.updateNotes(propertyId, notes.trim() || null);
+      set({
+        savedPropertyItems: get().savedPropertyItems.map(item =>
+          item.propertyId === propertyId
+            ? { ...item, notes: updated?.notes || undefined, updatedAt: updated?.updated_at || item.updatedAt }
+            : item
+        )
+      });
       return true;
     } catch (error) {
       set({ error: formatApiError(error) });
@@ -573,35 +634,42 @@ export const useUserStore = create<UserStore>()(
   },
 
   refreshSavedProperties: async () => {
-    const { user } = get();
+    const { user, anonymousSavedProperties } = get();
     if (!user) return;
-    
-    if (isDebugEnabled()) {
-      console.log('🔄 refreshSavedProperties: Using local state only (backend endpoint not implemented)');
-    }
 
-    // STUB: savedProperties refresh not implemented in backend yet
-    // This method now uses local state only to avoid calling nonexistent endpoints
-    set({
-      loading: {
-        ...get().loading,
-        lastFetchTime: Date.now()
-      }
-    });
+    try {
+      // Anonymous favourites are merged first; the merge responds with the full list
+      const rows = anonymousSavedProperties.length > 0
+        ? await API.savedProperties.merge(anonymousSavedProperties)
+        : await API.savedProperties.list();
 
-    if (isDebugEnabled()) {
-      console.log('✅ Saved properties refresh completed (local state only):', user.savedProperties);
+      const items = (rows || []).map(mapSavedPropertyData);
+      const current = get().user;
+
+      set({
+        savedPropertyItems: items,
+        anonymousSavedProperties: [],
+        ...(current ? { user: { ...current, savedProperties: items.map(item => item.propertyId) } } : {}),
+        loading: {
+          ...get().loading,
+          lastFetchTime: Date.now()
+        }
+      });
+    } catch (error) {
+      // Keep whatever is cached; anonymous favourites stay queued for the next attempt
+      if (isDebugEnabled()) {
+        console.warn('⚠️ Failed to refresh saved properties:', formatApiError(error));
+      }
     }
   },
 
   getSavedProperties: () => {
-    const { user } = get();
-    return user?.savedProperties || [];
+    const { user, anonymousSavedProperties } = get();
+    return user ? user.savedProperties || [] : anonymousSavedProperties;
   },
 
   isPropertySaved: (propertyId: string) => {
-    const { user } = get();
-    return user?.savedProperties?.includes(propertyId) || false;
+    return get().getSavedProperties().includes(propertyId);
   },
 
   refreshSession: async () => {
@@ -716,6 +784,7 @@ export const useUserStore = create<UserStore>()(
     set({
       user: null,
       isAuthenticated: false,
+      savedPropertyItems: [],
       isLoading: false,
       error: null,
       loading: {
@@ -733,7 +802,8 @@ export const useUserStore = create<UserStore>()(
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
         user: state.user,
-        isAuthenticated: state.isAuthenticated
+        isAuthenticated: state.isAuthenticated,
+        anonymousSavedProperties: state.anonymousSavedProperties
       })
     }
   )
@@ -17,11 +17,48 @@ export interface CustomerInquiry {
   propertyTitle?: string;
   status: 'new' | 'contacted' | 'in_progress' | 'converted' | 'closed';
   priority: 'low' | 'medium' | 'high';
-  notes?: string;
+  notes?: string; // latest note from the timeline
   assignedTo?: string;
+  assignedToName?: string;
   createdAt: string;
   updatedAt: string;
+  firstResponseAt?: string;
+  resolvedAt?: string;
   responseTime?: number; // in hours
+  resolutionTime?: number; // in hours
+  sla?: InquirySla;
+}
+
+export interface InquirySla {
+  firstResponseTargetHours: number;
+  resolutionTargetHours: number;
+  firstResponseDueAt: string;
+  resolutionDueAt: string;
+  firstResponseBreached: boolean;
+  resolutionBreached: boolean;
+}
+
+export type InquiryEventType = 'created' | 'status_change' | 'priority_change' | 'assignment' | 'note' | 'call' | 'email';
+
+export interface InquiryEvent {
+  id: string;
+  inquiryId: string;
+  type: InquiryEventType;
+  actorId?: string;
+  actorName?: string; // undefined for system events
+  fromValue?: string;
+  toValue?: string;
+  body?: string;
+  metadata: {
+    direction?: 'inbound' | 'outbound';
+    duration_minutes?: number;
+    outcome?: string;
+    subject?: string;
+    auto_assigned?: boolean;
+    strategy?: string;
+    [key: string]: any;
+  };
+  createdAt: string;
 }
 
 export interface PropertyFormData {
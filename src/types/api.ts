@@ -2,6 +2,7 @@
 import type { Property } from './property';
 import type { User } from './user';
 import type { Testimonial } from './testimonial';
+import type { CustomerInquiry } from './admin';
 
 // Express API Response Types - Updated for API-first architecture
 export interface ApiResponse<T = any> {
@@ -481,7 +482,7 @@ export interface TestimonialStoreState extends BaseStoreState {
 export interface AdminStoreState extends BaseStoreState {
   isAdminAuthenticated: boolean;
   adminUser: User | null;
-  inquiries: Inquiry[];
+  inquiries: CustomerInquiry[];
   pendingInquiries: Inquiry[];
   testimonials: Testimonial[];
   stats: {
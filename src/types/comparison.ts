@@ -0,0 +1,25 @@
+import { Property } from '@/types/property';
+import type { PropertyScore, ScoringPreferences, ScoringWeights } from '@/lib/propertyScoring';
+
+/**
+ * A comparison saved behind a share link (/compare/:shareId)
+ */
+export interface SavedComparison {
+  id: string;
+  shareId: string;
+  title?: string;
+  propertyIds: string[];
+  weights: ScoringWeights;
+  preferences: ScoringPreferences;
+  viewCount: number;
+  createdAt: string;
+}
+
+/**
+ * A shared comparison as opened from its link, scored by the server with the saved weights
+ */
+export interface SharedComparison {
+  comparison: SavedComparison;
+  properties: Property[];
+  scores: PropertyScore[];
+}
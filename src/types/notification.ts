@@ -0,0 +1,31 @@
+export type NotificationEvent =
+  | 'inquiry.created'
+  | 'inquiry.assigned'
+  | 'testimonial.pending'
+  | 'scraper.import_completed';
+
+export type NotificationChannel = 'in_app' | 'email' | 'webhook';
+
+/**
+ * Entry in the signed-in user's notification inbox (the admin header bell)
+ */
+export interface AppNotification {
+  id: string;
+  event: NotificationEvent;
+  title: string;
+  body?: string;
+  // App path, e.g. /admin/inquiries
+  link?: string;
+  data: Record<string, any>;
+  readAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Which channels each event is sent on, plus the optional outgoing webhook
+ */
+export interface NotificationPreferences {
+  events: Record<NotificationEvent, Record<NotificationChannel, boolean>>;
+  webhookUrl?: string;
+  webhookSecretSet: boolean;
+}
@@ -0,0 +1,49 @@
+export type PoiCategory = 'metro' | 'restaurant' | 'hospital' | 'gym' | 'bank' | 'bus_stop';
+
+/**
+ * A place near a property, with the straight-line distance and an estimated walk
+ */
+export interface NearbyPoi {
+  id: string;
+  category: PoiCategory;
+  name: string;
+  latitude: number;
+  longitude: number;
+  distanceMeters: number;
+  walkMinutes: number;
+}
+
+/**
+ * What is around one property: the nearest places of each category and how many of each
+ * are within the radius. located is false when the property has no coordinates.
+ */
+export interface PropertyNeighbourhood {
+  propertyId: string;
+  located: boolean;
+  radiusMeters: number;
+  counts: Partial<Record<PoiCategory, number>>;
+  pois: NearbyPoi[];
+}
+
+/**
+ * Result of importing a GeoJSON or OpenStreetMap file
+ */
+export interface PoiImportSummary {
+  source: string;
+  format: 'geojson' | 'osm';
+  received: number;
+  inserted: number;
+  updated: number;
+  skipped: { noCategory: number; noCoordinates: number; duplicate: number };
+  byCategory: Partial<Record<PoiCategory, number>>;
+}
+
+/**
+ * One imported dataset with its counts per category
+ */
+export interface PoiSourceStats {
+  source: string;
+  counts: Partial<Record<PoiCategory, number>>;
+  total: number;
+  lastImportedAt: string;
+}
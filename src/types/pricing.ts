@@ -0,0 +1,82 @@
+export type SpaceType = 'office' | 'co-working' | 'meeting-room';
+
+// Where a quote's rate came from, most specific first
+export type RateBasis = 'micro_market' | 'category' | 'micro_market_all' | 'default';
+
+/**
+ * Rent derived from listing prices for one micro-market and category
+ */
+export interface MarketRate {
+  microMarket: string;
+  // Locality as written on the listings, e.g. "HSR Layout"
+  microMarketLabel: string;
+  category: string;
+  listings: number;
+  medianRatePerSqft: number;
+  p25RatePerSqft: number;
+  p75RatePerSqft: number;
+  medianRatePerSeat: number;
+}
+
+/**
+ * Quote rules an admin can change (deposit, maintenance, escalation, tax, seat density)
+ */
+export interface PricingRules {
+  depositMonths: number;
+  maintenancePercent: number;
+  // Yearly rent increase
+  escalationPercent: number;
+  gstPercent: number;
+  sqftPerSeat: number;
+  utilitiesPerSeat: number;
+  amenitiesPerSeat: number;
+  // Per-seat rent when no listings are comparable
+  fallbackRatePerSeat: number;
+  minComparables: number;
+}
+
+/**
+ * A listing a quote's rate was derived from
+ */
+export interface QuoteComparable {
+  id: string;
+  title: string;
+  location: string;
+  category: string;
+  price: number;
+  areaSqft: number;
+  ratePerSqft: number;
+  ratePerSeat: number;
+}
+
+export interface BudgetQuote {
+  microMarket: string;
+  spaceType: SpaceType;
+  teamSize: number;
+  durationMonths: number;
+  rate: {
+    basis: RateBasis;
+    perSqft: number;
+    perSeat: number;
+    sampleSize: number;
+    categories: string[];
+  };
+  // First-year monthly costs
+  monthly: {
+    baseRent: number;
+    maintenance: number;
+    utilities: number;
+    amenities: number;
+    gst: number;
+    total: number;
+  };
+  securityDeposit: number;
+  // Per lease year, with escalation
+  schedule: Array<{ year: number; months: number; monthlyTotal: number; total: number }>;
+  leaseTotal: number;
+  // Cost of a lease of each length, deposit included
+  projections: Array<{ months: number; total: number }>;
+  rules: PricingRules;
+  comparables: QuoteComparable[];
+  generatedAt: string;
+}
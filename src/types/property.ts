@@ -1,12 +1,30 @@
+// Responsive variants generated on upload, ready for <source srcSet> ("url 320w, url 640w, ...")
+export interface MediaSrcset {
+  webp: string;
+  avif: string;
+}
+
+// What a gallery item is - floor plans and panoramas are images, but shown apart from photos
+export type PropertyMediaKind = 'photo' | 'video' | 'floor_plan' | 'panorama' | 'document';
+
 // Media interface for property media files
 export interface PropertyMedia {
   id: string;
-  type: 'image' | 'video';
+  type: 'image' | 'video' | 'document'; // How the file is rendered
+  kind?: PropertyMediaKind; // Media without a kind is a photo or a video, by type
   url: string;
-  thumbnailUrl?: string; // For videos
+  thumbnailUrl?: string; // Poster for videos, small preview for images
   filename: string;
   size: number;
   duration?: number; // For videos, in seconds
+  width?: number;
+  height?: number;
+  srcset?: MediaSrcset; // Of the image, or of the poster for videos
+  path?: string; // Storage folder of the upload (used to delete it)
+  caption?: string;
+  altText?: string;
+  position?: number; // Gallery order, from 0
+  isCover?: boolean;
   createdAt: string;
 }
 
@@ -24,7 +42,10 @@ export interface MediaUploadResult {
   size: number;
   mimeType: string;
   duration?: number; // For videos
-  thumbnailUrl?: string; // For videos
+  thumbnailUrl?: string; // Poster for videos, small preview for images
+  width?: number;
+  height?: number;
+  srcset?: MediaSrcset;
 }
 
 // Property tag interface for custom tagging system
@@ -37,6 +58,8 @@ export interface PropertyTag {
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
+  // Number of properties carrying the tag (admin tag listing only)
+  usageCount?: number;
 }
 
 export interface Property {
@@ -94,10 +117,24 @@ export interface Property {
     email: string;
     whatsapp?: string;
   };
+  // Present on full-text search results only
+  highlights?: PropertySearchHighlights;
+  relevance?: number;
+  // Present when results are measured from a point (radius search or landmark)
+  distanceKm?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Search snippets: HTML-escaped listing text with matched terms wrapped in <mark> tags
+ */
+export interface PropertySearchHighlights {
+  title: string;
+  location: string;
+  description: string;
+}
+
 export type PropertyCategory = 
   | 'fully-furnished-offices'
   | 'custom-built-workspaces'
@@ -143,6 +180,8 @@ export interface PropertyFilters {
   location?: string; // Single location (backward compatibility)
   locations?: string[]; // Multiple locations support
   locationRadius?: number; // Optional radius for location-based search in km
+  locationCenter?: { lat: number; lng: number }; // Centre for locationRadius and distance sorting
+  bounds?: MapBounds; // Visible map viewport
   sizeRange?: {
     min: number;
     max: number;
@@ -153,10 +192,19 @@ export interface PropertyFilters {
   customTags?: string[]; // Tag IDs to filter by
 }
 
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export type PropertySortField = 'relevance' | 'price' | 'area' | 'date' | 'distance';
+
 export interface SearchParams {
   query?: string;
   filters?: PropertyFilters;
-  sortBy?: 'size' | 'location' | 'date';
+  sortBy?: PropertySortField;
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
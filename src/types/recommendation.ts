@@ -0,0 +1,39 @@
+import { Property } from './property';
+
+export type InteractionAction = 'view' | 'click' | 'save' | 'contact' | 'compare';
+
+export type RecommendationFeedback = 'like' | 'dislike';
+
+/**
+ * One interaction as queued by the tracker and sent to /v1/interactions
+ */
+export interface InteractionEvent {
+  propertyId: string;
+  action: InteractionAction;
+  timeSpent?: number;
+  context?: string;
+  occurredAt: string;
+}
+
+/**
+ * A recommended property with the reasons the server gave for it
+ */
+export interface Recommendation {
+  property: Property;
+  score: number;
+  reasons: string[];
+  signals: {
+    content: number;
+    collaborative: number;
+    popularity: number;
+  };
+}
+
+/**
+ * Recommendations for the visitor; "popular" when there was no history to personalize from
+ */
+export interface RecommendationSet {
+  strategy: 'personalized' | 'popular';
+  recommendations: Recommendation[];
+  generatedAt: string;
+}
@@ -6,7 +6,7 @@
  * How Dynamic Search Works:
  * 1. User defines search parameters (location, property type, price range, etc.)
  * 2. Frontend sends parameters to backend scraper API
- * 3. Backend builds MagicBricks search URLs using our custom URL building logic
+ * 3. Backend builds the chosen portal's search URLs using its source adapter
  * 4. Backend uses Firecrawl to scrape those URLs and extract structured property data
  * 5. Extracted properties are transformed and returned for bulk import
  * 
@@ -17,9 +17,15 @@
 // Mirror backend types for consistency
 
 /**
- * Search parameters for building MagicBricks search URLs
+ * Listing portals the backend has a source adapter for ('generic' reads any other site)
+ */
+export type SourcePortal = 'magicbricks' | '99acres' | 'nobroker' | 'housing' | 'myhq' | 'coworker' | 'generic';
+
+/**
+ * Search parameters for building portal search URLs
  */
 export interface SearchParameters {
+  portal?: SourcePortal; // Defaults to MagicBricks
   location?: string;
   propertyType?: 'office' | 'coworking' | 'retail' | 'warehouse' | 'land';
   minPrice?: number;
@@ -106,9 +112,15 @@ export interface ScrapedPropertyData {
     status: 'available' | 'occupied' | 'coming-soon';
     date?: string;
   };
+  // Map pin, when the listing page shows one
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
 
   // Metadata
   sourceUrl: string;
+  source?: SourcePortal; // Adapter that read the listing
   scrapedAt: string;
   searchParams?: SearchParameters;
   validationErrors?: string[];
@@ -151,6 +163,29 @@ export interface BulkImportRequest {
   properties: ScrapedPropertyData[];
   skipValidation?: boolean;
   overwriteExisting?: boolean;
+  // Import listings flagged as likely duplicates instead of skipping them
+  importDuplicates?: boolean;
+  // Scrape job the properties came from; marked done once they are imported
+  jobId?: string;
+  // atomic: import all or none; best_effort (default): every listing that can be
+  mode?: ImportMode;
+}
+
+export type ImportMode = 'atomic' | 'best_effort';
+
+/**
+ * What happened to one submitted listing in an import batch.
+ * rolled_back: it went in, but another listing of its atomic batch failed
+ */
+export interface ImportReportRow {
+  index: number;
+  title: string;
+  sourceUrl: string;
+  status: 'imported' | 'failed' | 'skipped' | 'rolled_back';
+  propertyId?: string;
+  error?: string;
+  // Existing properties a skipped listing matched
+  duplicateOf?: string[];
 }
 
 /**
@@ -160,11 +195,108 @@ export interface BulkImportResult {
   success: boolean;
   imported: number;
   failed: number;
+  // Likely duplicates left out (listed in duplicates)
+  skipped: number;
   errors: Array<{
     index: number;
     error: string;
   }>;
+  duplicates: DuplicateCheckResult[];
   createdIds: string[];
+  batchId: string;
+  idempotencyKey: string;
+  mode: ImportMode;
+  status: 'running' | 'completed' | 'rolled_back';
+  // Answered from an earlier request with the same idempotency key
+  replayed: boolean;
+  report: ImportReportRow[];
+}
+
+/**
+ * Existing property as compared for duplicates and shown by the merge tool
+ */
+export interface DuplicateRecord {
+  id: string;
+  title: string;
+  description?: string;
+  price?: number;
+  location?: string;
+  address?: string;
+  areaSqft?: number;
+  propertyType?: string;
+  status?: string;
+  availabilityStatus?: string;
+  amenities: string[];
+  features: Record<string, any>;
+  coordinates?: { lat: number; lng: number };
+  sourceUrl?: string;
+  scrapedAt?: string;
+  createdAt: string;
+  mediaCount: number;
+  // Source URLs of records merged into it earlier
+  mergedSourceUrls: string[];
+}
+
+/**
+ * Existing property a listing probably duplicates; reasons say what matched
+ */
+export interface DuplicateMatch {
+  propertyId: string;
+  title: string;
+  // 0-1; only likely duplicates (0.6 and up) are reported
+  score: number;
+  reasons: string[];
+  property: DuplicateRecord;
+}
+
+/**
+ * Likely duplicates of the listing at `index` in the checked or imported batch
+ */
+export interface DuplicateCheckResult {
+  index: number;
+  matches: DuplicateMatch[];
+}
+
+/**
+ * Two existing properties that look like the same space
+ */
+export interface DuplicatePair {
+  property: DuplicateRecord;
+  other: DuplicateRecord;
+  score: number;
+  reasons: string[];
+}
+
+// Property columns the merge tool can take from either record
+export type PropertyMergeField =
+  | 'title'
+  | 'description'
+  | 'price'
+  | 'location'
+  | 'address'
+  | 'area_sqft'
+  | 'property_type'
+  | 'availability_status'
+  | 'amenities'
+  | 'features'
+  | 'coordinates'
+  | 'source_url';
+
+/**
+ * One merge: both records as they were and which one each merged field came from
+ */
+export interface PropertyMerge {
+  id: string;
+  targetPropertyId: string;
+  targetTitle: string;
+  sourcePropertyId: string;
+  // Source URL that now leads to the kept property
+  sourceUrl?: string;
+  targetSnapshot: Record<string, any>;
+  sourceSnapshot: Record<string, any>;
+  fieldSources: Partial<Record<PropertyMergeField, 'target' | 'source'>>;
+  mergedByName?: string;
+  createdAt: string;
 }
 
 /**
@@ -175,8 +307,114 @@ export interface SearchPreset {
   name: string;
   description?: string;
   searchParams: SearchParameters;
+  // Shared presets are visible to all admins; only the owner can change them
+  isShared: boolean;
+  isOwner: boolean;
+  ownerName?: string;
+  runCount: number;
+  lastRunAt?: string;
+  lastResultCount?: number;
   createdAt: string;
-  lastUsed?: string;
+  updatedAt: string;
+}
+
+/**
+ * Background scrape job: queued -> running (Firecrawl) -> extracting (C1) -> review -> done,
+ * or failed / cancelled
+ */
+export type ScrapeJobStatus = 'queued' | 'running' | 'extracting' | 'review' | 'done' | 'failed' | 'cancelled';
+
+export interface ScrapeJob {
+  id: string;
+  status: ScrapeJobStatus;
+  request: ScrapeJobRequest;
+  sourceUrl?: string;
+  progress: number; // 0-100
+  stageMessage?: string;
+  error?: string;
+  attempts: number;
+  scrapedCount?: number;
+  extractedCount?: number;
+  hasResult: boolean;
+  createdByName?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Only on GET /jobs/:id
+  result?: ScrapeResult;
+  extraction?: {
+    properties: ScrapedPropertyData[];
+    uiSpec?: any;
+    metadata: C1TransformMetadata;
+  };
+}
+
+/**
+ * Search preset re-scraped on a cron schedule (five fields or @daily/@weekly, in UTC)
+ */
+export interface ScrapeSchedule {
+  id: string;
+  presetId: string;
+  presetName: string;
+  searchParams: SearchParameters;
+  cron: string;
+  maxPages: number;
+  isActive: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastStatus?: 'completed' | 'failed';
+  lastError?: string;
+  // Listing URLs the latest run saw; missing next time means disappeared
+  trackedListings: number;
+  pendingChanges: number;
+  lastRun?: ScrapeScheduleRun;
+  createdByName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScrapeScheduleRun {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  listingsFound: number;
+  newCount: number;
+  changedCount: number;
+  disappearedCount: number;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export type ScrapeChangeType = 'new' | 'changed' | 'disappeared';
+export type ScrapeChangeStatus = 'pending' | 'applied' | 'dismissed';
+
+/**
+ * Difference between a scheduled scrape and the imported property with the same source URL
+ */
+export interface ScrapeChange {
+  id: string;
+  scheduleId: string;
+  presetName: string;
+  changeType: ScrapeChangeType;
+  status: ScrapeChangeStatus;
+  sourceUrl: string;
+  // Listing as scraped (new and changed)
+  listing?: ScrapedPropertyData;
+  // Property field -> old and scraped value (price, area_sqft, availability_status)
+  changes: Record<string, { from: unknown; to: unknown }>;
+  property?: {
+    id: string;
+    title: string;
+    price?: number;
+    areaSqft?: number;
+    availabilityStatus?: string;
+    status?: string;
+  };
+  reviewedByName?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -195,7 +433,7 @@ export interface PropertyExtractionSchema {
  * API request types for scraper endpoints
  */
 
-// POST /api/v1/scraper/scrape
+// What to scrape - the body of POST /api/v1/scraper/scrape (one page) and part of a job request
 export interface ScrapeRequest {
   directUrl?: string;
   searchParams?: SearchParameters;
@@ -206,6 +444,15 @@ export interface ScrapeRequest {
   excludeTags?: string[];
 }
 
+// POST /api/v1/scraper/jobs
+export interface ScrapeJobRequest extends ScrapeRequest {
+  // Preset being run, owned or shared (updates its last run stats)
+  presetId?: string;
+  // Run C1 extraction on the scraped page before review
+  extract?: boolean;
+  extractionHints?: string;
+}
+
 export interface ScrapeResponse {
   success: boolean;
   data?: ScrapedPropertyData[] | any; // Allow raw data when in raw mode
@@ -279,6 +526,7 @@ export interface SavePresetRequest {
   name: string;
   description?: string;
   searchParams: SearchParameters;
+  isShared?: boolean;
 }
 
 export interface SavePresetResponse {
@@ -305,10 +553,24 @@ export interface GetExamplesResponse {
   message: string;
 }
 
+// GET /api/v1/scraper/sources
+export interface SourcePortalInfo {
+  id: SourcePortal;
+  name: string;
+  hosts: string[];
+  propertyTypes: NonNullable<SearchParameters['propertyType']>[];
+  filters: Array<'price' | 'area' | 'furnished' | 'availability' | 'amenities'>;
+  sortOrders: NonNullable<SearchParameters['sortBy']>[];
+  requiresLocation: boolean;
+  // What the area filters count: square feet, or seats on coworking portals
+  areaUnit: 'sqft' | 'seats';
+}
+
 /**
  * Form validation types
  */
 export interface SearchParametersFormData {
+  portal: string;
   location: string;
   propertyType: string;
   minPrice: string;
@@ -322,6 +584,7 @@ export interface SearchParametersFormData {
 }
 
 export interface SearchParametersFormErrors {
+  portal?: string;
   location?: string;
   propertyType?: string;
   minPrice?: string;
@@ -403,6 +666,10 @@ export interface ScraperState {
     metadata: any;
   } | null;
   showC1UISpec: boolean;
+
+  // Background scrape jobs
+  jobs: ScrapeJob[];
+  activeJob: ScrapeJob | null;
 }
 
 /**
@@ -466,6 +733,10 @@ export const COMMON_AMENITIES = [
 /**
  * Utility type guards
  */
+export function isValidPortal(portal: string): portal is SourcePortal {
+  return ['magicbricks', '99acres', 'nobroker', 'housing', 'myhq', 'coworker'].includes(portal);
+}
+
 export function isValidPropertyType(type: string): type is SearchParameters['propertyType'] {
   return ['office', 'coworking', 'retail', 'warehouse', 'land'].includes(type);
 }
@@ -28,6 +28,8 @@ export interface UISpec {
   layout?: LayoutConfig;
   styling?: StyleConfig;
   actions?: UIAction[];
+  // Properties the backend's search tools returned; only these are linked to their details
+  propertyIds?: string[];
 }
 
 export interface UIComponent {
@@ -112,6 +114,59 @@ export interface Message {
   timestamp: Date;
 }
 
+// AI assistant conversation saved on the server (synced across the user's devices)
+export interface ChatThread {
+  id: string;
+  title: string;
+  messageCount: number;
+  lastMessageAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A turn of a saved chat thread
+export interface ChatThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Id the chat widget gave the message, when it came from the widget
+  clientMessageId?: string;
+  // "generate" for turns answered with a generated UI rather than a chat reply
+  source?: string;
+  createdAt: string;
+}
+
+// Requests, tokens and cost for one group of C1 calls (a day, use case, model or role)
+export interface LlmUsageTotals {
+  requests: number;
+  cached: number;
+  budgetExceeded: number;
+  failed: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface LlmUsageGroup extends LlmUsageTotals {
+  key: string;
+}
+
+// Admin AI usage report over the last `days` days
+export interface LlmUsageReport {
+  days: number;
+  totals: LlmUsageTotals;
+  byDay: LlmUsageGroup[];
+  byUseCase: LlmUsageGroup[];
+  byModel: LlmUsageGroup[];
+  byRole: LlmUsageGroup[];
+  budgets: {
+    // Cap on all callers together; 0 means unlimited
+    dailyTokens: number;
+    roles: Record<string, { perClient: number; total: number }>;
+  };
+}
+
 // AI Store types
 export interface AIState {
   // User preferences
@@ -262,6 +317,8 @@ export interface GenerationOptions {
   stream?: boolean;
   timeout?: number;
   retryAttempts?: number;
+  // Chat thread the prompt continues; the backend replays its earlier turns and saves this one
+  threadId?: string;
 }
 
 // UI Action types for interactive components
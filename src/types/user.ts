@@ -1,3 +1,5 @@
+import type { Property } from './property';
+
 export interface User {
   id: string;
   email: string;
@@ -11,6 +13,47 @@ export interface User {
   updatedAt: string;
 }
 
+/**
+ * A favourited property with the user's private notes; `property` reflects the live listing
+ */
+export interface SavedProperty {
+  id: string;
+  propertyId: string;
+  notes?: string;
+  savedAt: string;
+  updatedAt: string;
+  property?: Property;
+}
+
+/**
+ * A named listing search; `query` holds the listing API parameters (q, location, minPrice, ...)
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: Record<string, string>;
+  alertsEnabled: boolean;
+  emailDigest: boolean;
+  lastAlertedAt?: string;
+  unreadAlerts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Inbox entry for a property that newly matched a saved search
+ */
+export interface SearchAlert {
+  id: string;
+  savedSearchId: string;
+  savedSearchName: string;
+  propertyId: string;
+  reason: 'new' | 'available';
+  readAt?: string;
+  createdAt: string;
+  property?: Property;
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
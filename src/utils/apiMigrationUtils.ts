@@ -3,9 +3,28 @@
  * Helper functions for Firebase Auth and Express API integration
  */
 
-import { PropertyFilters } from '@/types/property';
+import { PropertyFilters, PropertyMedia, PropertyTag, SearchParams } from '@/types/property';
 import { ApiService } from '@/services/apiService';
-import type { ApiError } from '@/types/api';
+import type { ApiError, PaginationResponse } from '@/types/api';
+import type { SavedProperty, SavedSearch, SearchAlert } from '@/types/user';
+import type { CustomerInquiry, InquiryEvent } from '@/types/admin';
+import type { AppNotification, NotificationPreferences } from '@/types/notification';
+import type {
+  DuplicateCheckResult,
+  DuplicatePair,
+  DuplicateRecord,
+  PropertyMerge,
+  ScrapeChange,
+  ScrapeJob,
+  ScrapeSchedule,
+  ScrapeScheduleRun,
+  SearchPreset
+} from '@/types/scraper';
+import type { BudgetQuote, MarketRate, PricingRules } from '@/types/pricing';
+import type { SavedComparison, SharedComparison } from '@/types/comparison';
+import type { RecommendationSet } from '@/types/recommendation';
+import type { PoiCategory, PoiImportSummary, PoiSourceStats, PropertyNeighbourhood } from '@/types/poi';
+import type { ChatThread, ChatThreadMessage, LlmUsageGroup, LlmUsageReport, LlmUsageTotals } from '@/types/thesys';
 
 /**
  * Maps frontend PropertyFilters to backend query parameters
@@ -38,8 +57,20 @@ export const mapPropertyFiltersToQuery = (filters: PropertyFilters | any): Recor
     query.locations = filters.locations.join(',');
   }
 
-  if (filters.locationRadius) {
-    query.locationRadius = filters.locationRadius.toString();
+  // Centre point for distances; a radius without one is ignored
+  if (filters.locationCenter) {
+    query.lat = filters.locationCenter.lat.toString();
+    query.lng = filters.locationCenter.lng.toString();
+
+    if (filters.locationRadius) {
+      query.locationRadius = filters.locationRadius.toString();
+    }
+  }
+
+  // Map viewport
+  if (filters.bounds) {
+    const { south, west, north, east } = filters.bounds;
+    query.bounds = [south, west, north, east].map(value => value.toFixed(6)).join(',');
   }
 
   // Size range filters
@@ -47,7 +78,8 @@ export const mapPropertyFiltersToQuery = (filters: PropertyFilters | any): Recor
     query.minSize = filters.sizeRange.min.toString();
   }
 
-  if (filters.sizeRange?.max) {
+  // Open-ended ranges ("Above 5000 sqft") use Infinity - no upper bound is sent
+  if (filters.sizeRange?.max && Number.isFinite(filters.sizeRange.max)) {
     query.maxSize = filters.sizeRange.max.toString();
   }
 
@@ -122,6 +154,123 @@ export const mapPropertyFiltersToQuery = (filters: PropertyFilters | any): Recor
   return query;
 };
 
+/**
+ * Maps frontend SearchParams (filters, pagination, sorting) to backend query parameters
+ */
+export const mapSearchParamsToQuery = (
+  filters: PropertyFilters | any,
+  searchParams: SearchParams = {}
+): Record<string, string> => {
+  const query = mapPropertyFiltersToQuery({ ...searchParams.filters, ...filters });
+
+  if (searchParams.query) {
+    query.q = searchParams.query;
+  }
+
+  if (searchParams.page) {
+    query.page = searchParams.page.toString();
+  }
+
+  if (searchParams.limit) {
+    query.limit = searchParams.limit.toString();
+  }
+
+  if (searchParams.sortBy) {
+    query.sortBy = searchParams.sortBy;
+  }
+
+  if (searchParams.sortOrder) {
+    query.sortOrder = searchParams.sortOrder;
+  }
+
+  return query;
+};
+
+/**
+ * Parses listing query parameters (e.g. from a shared URL) back into filters and search params.
+ * Inverse of mapSearchParamsToQuery.
+ */
+export const mapQueryToSearchState = (
+  query: URLSearchParams
+): { filters: PropertyFilters; searchParams: SearchParams } => {
+  const filters: PropertyFilters = {};
+  const searchParams: SearchParams = {};
+  const list = (key: string) => (query.get(key) || '').split(',').map(v => v.trim()).filter(Boolean);
+  const number = (key: string) => {
+    const value = parseFloat(query.get(key) || '');
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const category = query.get('propertyType');
+  if (category) filters.category = category as PropertyFilters['category'];
+
+  const location = query.get('location');
+  if (location) filters.location = location;
+  if (list('locations').length > 0) filters.locations = list('locations');
+
+  const lat = number('lat');
+  const lng = number('lng');
+  if (lat !== undefined && lng !== undefined) {
+    filters.locationCenter = { lat, lng };
+    const radius = number('locationRadius');
+    if (radius !== undefined) filters.locationRadius = radius;
+  }
+
+  const bounds = list('bounds').map(parseFloat);
+  if (bounds.length === 4 && bounds.every(Number.isFinite)) {
+    const [south, west, north, east] = bounds as [number, number, number, number];
+    filters.bounds = { south, west, north, east };
+  }
+
+  const minSize = number('minSize');
+  const maxSize = number('maxSize');
+  if (minSize !== undefined || maxSize !== undefined) {
+    filters.sizeRange = { min: minSize ?? 0, max: maxSize ?? Infinity };
+  }
+
+  if (list('amenities').length > 0) filters.amenities = list('amenities');
+
+  const available = query.get('available');
+  if (available === 'true' || available === 'false') filters.availability = available === 'true';
+
+  const availabilityStatus = query.get('availabilityStatus');
+  if (availabilityStatus) filters.availabilityStatus = availabilityStatus as PropertyFilters['availabilityStatus'];
+
+  if (list('tags').length > 0) filters.customTags = list('tags');
+
+  const q = query.get('q');
+  if (q) searchParams.query = q;
+
+  const page = number('page');
+  if (page) searchParams.page = page;
+
+  const sortBy = query.get('sortBy');
+  if (sortBy) searchParams.sortBy = sortBy as SearchParams['sortBy'];
+
+  const sortOrder = query.get('sortOrder');
+  if (sortOrder === 'asc' || sortOrder === 'desc') searchParams.sortOrder = sortOrder;
+
+  return { filters, searchParams };
+};
+
+/**
+ * Maps backend list meta to the store's pagination shape
+ */
+export const mapPaginationMeta = (meta: any): PaginationResponse | null => {
+  if (!meta || meta.page === undefined) return null;
+
+  const totalCount = meta.total || 0;
+  const totalPages = meta.totalPages ?? Math.ceil(totalCount / (meta.limit || 1));
+
+  return {
+    currentPage: meta.page,
+    totalPages,
+    totalCount,
+    hasNextPage: meta.hasMore ?? meta.page < totalPages,
+    hasPreviousPage: meta.page > 1
+  };
+};
+
 /**
  * Converts API error to user-friendly message
  */
@@ -272,10 +421,10 @@ export const mapPropertyData = (backendProperty: any): any => {
     size: property.size ? {
       area: property.size.area || property.size,
       unit: property.size.unit || 'sqft'
-    } : { area: 0, unit: 'sqft' },
+    } : { area: Number(property.area_sqft) || 0, unit: 'sqft' },
     
-    // Media handling - prioritize new media field, fallback to images
-    media: property.media || (property.images ? property.images.map((url: string, index: number) => ({
+    // Media handling - prioritize new media field (gallery order), fallback to images
+    media: property.media ? property.media.map(mapPropertyMediaData) : (property.images ? property.images.map((url: string, index: number) => ({
       id: `img-${index}`,
       type: 'image' as const,
       url,
@@ -298,11 +447,11 @@ export const mapPropertyData = (backendProperty: any): any => {
       status: property.availability.status || 'available'
     } : {
       available: property.available !== undefined ? property.available : true,
-      status: 'available'
+      status: property.availability_status || 'available'
     },
     
     // Custom tags normalization
-    customTags: property.custom_tags || property.customTags || [],
+    customTags: property.custom_tags ? property.custom_tags.map(mapTagData) : (property.customTags || []),
     
     // Features normalization
     features: property.features ? {
@@ -331,6 +480,11 @@ export const mapPropertyData = (backendProperty: any): any => {
       email: ''
     },
     
+    // Full-text search extras (only present on search results)
+    ...(property.highlights ? { highlights: property.highlights } : {}),
+    ...(property.relevance !== undefined ? { relevance: property.relevance } : {}),
+    ...(property.distance_km != null ? { distanceKm: property.distance_km } : {}),
+    
     // Timestamps normalization
     createdAt: property.created_at || property.createdAt || new Date().toISOString(),
     updatedAt: property.updated_at || property.updatedAt || new Date().toISOString()
@@ -343,4 +497,552 @@ export const mapPropertyData = (backendProperty: any): any => {
 export const mapPropertiesData = (backendProperties: any[]): any[] => {
   if (!Array.isArray(backendProperties)) return [];
   return backendProperties.map(mapPropertyData).filter(Boolean);
-};
\ No newline at end of file
+};
+/**
+ * Maps a backend tags row to the frontend PropertyTag shape
+ */
+/**
+ * Map a gallery item (backend property_media row) to PropertyMedia
+ */
+export const mapPropertyMediaData = (row: any): PropertyMedia => {
+  const kind = row.kind || (row.type === 'video' ? 'video' : 'photo');
+  return {
+    id: row.id,
+    type: kind === 'video' ? 'video' : kind === 'document' ? 'document' : 'image',
+    kind,
+    url: row.url,
+    thumbnailUrl: row.thumbnail_url || row.thumbnailUrl || undefined,
+    filename: row.filename || row.url.split('/').pop() || 'file',
+    size: Number(row.size) || 0,
+    duration: row.duration ?? undefined,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    srcset: row.srcset || undefined,
+    path: row.storage_path || row.path || undefined,
+    caption: row.caption || undefined,
+    altText: row.alt_text || row.altText || undefined,
+    position: row.position,
+    isCover: !!(row.is_cover ?? row.isCover),
+    createdAt: row.created_at || row.createdAt
+  };
+};
+
+export const mapTagData = (row: any): PropertyTag => ({
+  id: row.id,
+  name: row.name,
+  color: row.color,
+  backgroundColor: row.background_color,
+  description: row.description || undefined,
+  isActive: !!row.is_active,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  ...(row.usage_count !== undefined ? { usageCount: row.usage_count } : {})
+});
+
+/**
+ * Maps a backend saved_properties row (with its joined property) to the frontend SavedProperty shape
+ */
+export const mapSavedPropertyData = (row: any): SavedProperty => ({
+  id: row.id,
+  propertyId: row.property_id,
+  notes: row.notes || undefined,
+  savedAt: row.created_at,
+  updatedAt: row.updated_at,
+  property: row.property ? mapPropertyData(row.property) : undefined
+});
+
+/**
+ * Maps a backend saved_searches row to the frontend SavedSearch shape
+ */
+export const mapSavedSearchData = (row: any): SavedSearch => ({
+  id: row.id,
+  name: row.name,
+  query: row.query || {},
+  alertsEnabled: row.alerts_enabled,
+  emailDigest: row.email_digest,
+  lastAlertedAt: row.last_alerted_at || undefined,
+  unreadAlerts: row.unread_alerts || 0,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Maps a backend search_alerts row (with its joined property) to the frontend SearchAlert shape
+ */
+export const mapSearchAlertData = (row: any): SearchAlert => ({
+  id: row.id,
+  savedSearchId: row.saved_search_id,
+  savedSearchName: row.saved_search_name,
+  propertyId: row.property_id,
+  reason: row.reason,
+  readAt: row.read_at || undefined,
+  createdAt: row.created_at,
+  property: row.property ? mapPropertyData(row.property) : undefined
+});
+
+/**
+ * Maps a backend search_presets row to the frontend SearchPreset shape
+ */
+export const mapSearchPresetData = (row: any): SearchPreset => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || undefined,
+  searchParams: row.search_params || {},
+  isShared: !!row.is_shared,
+  isOwner: !!row.is_owner,
+  ownerName: row.owner_name || undefined,
+  runCount: row.run_count || 0,
+  lastRunAt: row.last_run_at || undefined,
+  lastResultCount: row.last_result_count ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Maps a backend scrape_jobs row (a summary, or the full job with its result and extraction)
+ */
+export const mapScrapeJobData = (row: any): ScrapeJob => ({
+  id: row.id,
+  status: row.status,
+  request: row.request || {},
+  sourceUrl: row.source_url || undefined,
+  progress: row.progress || 0,
+  stageMessage: row.stage_message || undefined,
+  error: row.error || undefined,
+  attempts: row.attempts || 0,
+  scrapedCount: row.scraped_count ?? undefined,
+  extractedCount: row.extracted_count ?? undefined,
+  hasResult: !!row.has_result,
+  createdByName: row.created_by_name || undefined,
+  startedAt: row.started_at || undefined,
+  finishedAt: row.finished_at || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  result: row.result || undefined,
+  extraction: row.extraction || undefined
+});
+
+export const mapScrapeScheduleRunData = (row: any): ScrapeScheduleRun => ({
+  id: row.id,
+  status: row.status,
+  listingsFound: row.listings_found || 0,
+  newCount: row.new_count || 0,
+  changedCount: row.changed_count || 0,
+  disappearedCount: row.disappeared_count || 0,
+  error: row.error || undefined,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at || undefined
+});
+
+/**
+ * Maps a backend scrape_schedules row (with its preset and latest run)
+ */
+export const mapScrapeScheduleData = (row: any): ScrapeSchedule => ({
+  id: row.id,
+  presetId: row.preset_id,
+  presetName: row.preset_name,
+  searchParams: row.search_params || {},
+  cron: row.cron,
+  maxPages: row.max_pages || 1,
+  isActive: !!row.is_active,
+  nextRunAt: row.next_run_at || undefined,
+  lastRunAt: row.last_run_at || undefined,
+  lastStatus: row.last_status || undefined,
+  lastError: row.last_error || undefined,
+  trackedListings: row.tracked_listings || 0,
+  pendingChanges: row.pending_changes || 0,
+  lastRun: row.last_run ? mapScrapeScheduleRunData(row.last_run) : undefined,
+  createdByName: row.created_by_name || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Maps a backend scrape_changes row (with the linked property's current values)
+ */
+export const mapScrapeChangeData = (row: any): ScrapeChange => ({
+  id: row.id,
+  scheduleId: row.schedule_id,
+  presetName: row.preset_name,
+  changeType: row.change_type,
+  status: row.status,
+  sourceUrl: row.source_url,
+  listing: row.listing || undefined,
+  changes: row.changes || {},
+  property: row.property ? {
+    id: row.property.id,
+    title: row.property.title,
+    price: row.property.price === null ? undefined : Number(row.property.price),
+    areaSqft: row.property.area_sqft ?? undefined,
+    availabilityStatus: row.property.availability_status || undefined,
+    status: row.property.status || undefined
+  } : undefined,
+  reviewedByName: row.reviewed_by_name || undefined,
+  reviewedAt: row.reviewed_at || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Maps a property as returned by the duplicate lookups
+ */
+export const mapDuplicateRecordData = (row: any): DuplicateRecord => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || undefined,
+  price: row.price === null || row.price === undefined ? undefined : Number(row.price),
+  location: row.location || undefined,
+  address: row.address || undefined,
+  areaSqft: row.area_sqft ?? undefined,
+  propertyType: row.property_type || undefined,
+  status: row.status || undefined,
+  availabilityStatus: row.availability_status || undefined,
+  amenities: Array.isArray(row.amenities) ? row.amenities : [],
+  features: row.features && typeof row.features === 'object' ? row.features : {},
+  coordinates: row.coordinates || undefined,
+  sourceUrl: row.source_url || undefined,
+  scrapedAt: row.scraped_at || undefined,
+  createdAt: row.created_at,
+  mediaCount: row.media_count || 0,
+  mergedSourceUrls: row.merged_source_urls || []
+});
+
+export const mapDuplicateCheckResult = (result: any): DuplicateCheckResult => ({
+  index: result.index,
+  matches: (result.matches || []).map((match: any) => ({
+    propertyId: match.propertyId,
+    title: match.title,
+    score: match.score,
+    reasons: match.reasons || [],
+    property: mapDuplicateRecordData(match.property)
+  }))
+});
+
+export const mapDuplicatePairData = (pair: any): DuplicatePair => ({
+  property: mapDuplicateRecordData(pair.property),
+  other: mapDuplicateRecordData(pair.other),
+  score: pair.score,
+  reasons: pair.reasons || []
+});
+
+/**
+ * Maps a backend property_merges row
+ */
+export const mapPropertyMergeData = (row: any): PropertyMerge => ({
+  id: row.id,
+  targetPropertyId: row.target_property_id,
+  targetTitle: row.target_title,
+  sourcePropertyId: row.source_property_id,
+  sourceUrl: row.source_url || undefined,
+  targetSnapshot: row.target_snapshot || {},
+  sourceSnapshot: row.source_snapshot || {},
+  fieldSources: row.field_sources || {},
+  mergedByName: row.merged_by_name || undefined,
+  createdAt: row.created_at
+});
+
+/**
+ * Maps a backend chat_threads row to the frontend ChatThread shape
+ */
+export const mapChatThreadData = (row: any): ChatThread => ({
+  id: row.id,
+  title: row.title,
+  messageCount: row.message_count || 0,
+  lastMessageAt: row.last_message_at || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Maps a backend chat_messages row to the frontend ChatThreadMessage shape
+ */
+export const mapChatThreadMessageData = (row: any): ChatThreadMessage => ({
+  id: row.id,
+  role: row.role,
+  content: row.content,
+  clientMessageId: row.client_message_id || undefined,
+  source: row.metadata?.source || undefined,
+  createdAt: row.created_at
+});
+
+const mapLlmUsageTotals = (row: any): LlmUsageTotals => ({
+  requests: Number(row?.requests) || 0,
+  cached: Number(row?.cached) || 0,
+  budgetExceeded: Number(row?.budget_exceeded) || 0,
+  failed: Number(row?.failed) || 0,
+  promptTokens: Number(row?.prompt_tokens) || 0,
+  completionTokens: Number(row?.completion_tokens) || 0,
+  totalTokens: Number(row?.total_tokens) || 0,
+  costUsd: Number(row?.cost_usd) || 0
+});
+
+const mapLlmUsageGroup = (row: any): LlmUsageGroup => ({
+  key: row.key ?? row.day,
+  ...mapLlmUsageTotals(row)
+});
+
+/**
+ * Maps the backend AI usage report to the frontend LlmUsageReport shape
+ */
+export const mapLlmUsageReport = (data: any): LlmUsageReport => ({
+  days: data.days,
+  totals: mapLlmUsageTotals(data.totals),
+  byDay: (data.byDay || []).map(mapLlmUsageGroup),
+  byUseCase: (data.byUseCase || []).map(mapLlmUsageGroup),
+  byModel: (data.byModel || []).map(mapLlmUsageGroup),
+  byRole: (data.byRole || []).map(mapLlmUsageGroup),
+  budgets: {
+    dailyTokens: data.budgets?.dailyTokens || 0,
+    roles: data.budgets?.roles || {}
+  }
+});
+
+/**
+ * Maps a backend notifications row to the frontend AppNotification shape
+ */
+export const mapNotificationData = (row: any): AppNotification => ({
+  id: row.id,
+  event: row.event,
+  title: row.title,
+  body: row.body || undefined,
+  link: row.link || undefined,
+  data: row.data || {},
+  readAt: row.read_at || undefined,
+  createdAt: row.created_at
+});
+
+/**
+ * Maps backend notification preferences to the frontend NotificationPreferences shape
+ */
+export const mapNotificationPreferencesData = (row: any): NotificationPreferences => ({
+  events: row.events || {},
+  webhookUrl: row.webhook_url || undefined,
+  webhookSecretSet: !!row.webhook_secret_set
+});
+
+/**
+ * Maps a backend inquiry row (with computed SLA fields) to the frontend CustomerInquiry shape
+ */
+export const mapInquiryData = (row: any): CustomerInquiry => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  phone: row.phone || '',
+  company: row.company || undefined,
+  message: row.message,
+  propertyId: row.property_id || undefined,
+  propertyTitle: row.property_title || row.property?.title || undefined,
+  status: row.status,
+  priority: row.priority || 'medium',
+  notes: row.latest_note || row.notes || '',
+  assignedTo: row.assigned_to || '',
+  assignedToName: row.assigned_to_name || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  firstResponseAt: row.first_response_at || undefined,
+  resolvedAt: row.resolved_at || undefined,
+  responseTime: row.response_time_hours ?? undefined,
+  resolutionTime: row.resolution_time_hours ?? undefined,
+  sla: row.sla ? {
+    firstResponseTargetHours: row.sla.first_response_target_hours,
+    resolutionTargetHours: row.sla.resolution_target_hours,
+    firstResponseDueAt: row.sla.first_response_due_at,
+    resolutionDueAt: row.sla.resolution_due_at,
+    firstResponseBreached: row.sla.first_response_breached,
+    resolutionBreached: row.sla.resolution_breached
+  } : undefined
+});
+
+/**
+ * Maps a backend inquiry_events row to the frontend InquiryEvent shape
+ */
+export const mapInquiryEventData = (row: any): InquiryEvent => ({
+  id: row.id,
+  inquiryId: row.inquiry_id,
+  type: row.type,
+  actorId: row.actor_id || undefined,
+  actorName: row.actor_name || row.actor_email || undefined,
+  fromValue: row.from_value ?? undefined,
+  toValue: row.to_value ?? undefined,
+  body: row.body || undefined,
+  metadata: row.metadata || {},
+  createdAt: row.created_at
+});
+
+/**
+ * Maps a backend market rate row to the frontend MarketRate shape
+ */
+export const mapMarketRateData = (row: any): MarketRate => ({
+  microMarket: row.micro_market,
+  microMarketLabel: row.micro_market_label || row.micro_market,
+  category: row.category,
+  listings: row.listings,
+  medianRatePerSqft: row.median_rate_per_sqft,
+  p25RatePerSqft: row.p25_rate_per_sqft,
+  p75RatePerSqft: row.p75_rate_per_sqft,
+  medianRatePerSeat: row.median_rate_per_seat
+});
+
+/**
+ * Maps backend pricing rules to the frontend PricingRules shape
+ */
+export const mapPricingRulesData = (rules: any): PricingRules => ({
+  depositMonths: rules.deposit_months,
+  maintenancePercent: rules.maintenance_percent,
+  escalationPercent: rules.escalation_percent,
+  gstPercent: rules.gst_percent,
+  sqftPerSeat: rules.sqft_per_seat,
+  utilitiesPerSeat: rules.utilities_per_seat,
+  amenitiesPerSeat: rules.amenities_per_seat,
+  fallbackRatePerSeat: rules.fallback_rate_per_seat,
+  minComparables: rules.min_comparables
+});
+
+/**
+ * Maps frontend PricingRules changes to the backend update payload
+ */
+export const toPricingRulesPayload = (rules: Partial<PricingRules>): Record<string, number> => {
+  const keys: Record<keyof PricingRules, string> = {
+    depositMonths: 'deposit_months',
+    maintenancePercent: 'maintenance_percent',
+    escalationPercent: 'escalation_percent',
+    gstPercent: 'gst_percent',
+    sqftPerSeat: 'sqft_per_seat',
+    utilitiesPerSeat: 'utilities_per_seat',
+    amenitiesPerSeat: 'amenities_per_seat',
+    fallbackRatePerSeat: 'fallback_rate_per_seat',
+    minComparables: 'min_comparables'
+  };
+  return Object.fromEntries(
+    Object.entries(rules).map(([key, value]) => [keys[key as keyof PricingRules], value as number])
+  );
+};
+
+/**
+ * Maps a backend budget quote to the frontend BudgetQuote shape
+ */
+export const mapBudgetQuoteData = (quote: any): BudgetQuote => ({
+  microMarket: quote.inputs.micro_market,
+  spaceType: quote.inputs.space_type,
+  teamSize: quote.inputs.team_size,
+  durationMonths: quote.inputs.duration_months,
+  rate: {
+    basis: quote.rate.basis,
+    perSqft: quote.rate.per_sqft,
+    perSeat: quote.rate.per_seat,
+    sampleSize: quote.rate.sample_size,
+    categories: quote.rate.categories || []
+  },
+  monthly: {
+    baseRent: quote.monthly.base_rent,
+    maintenance: quote.monthly.maintenance,
+    utilities: quote.monthly.utilities,
+    amenities: quote.monthly.amenities,
+    gst: quote.monthly.gst,
+    total: quote.monthly.total
+  },
+  securityDeposit: quote.security_deposit,
+  schedule: (quote.schedule || []).map((entry: any) => ({
+    year: entry.year,
+    months: entry.months,
+    monthlyTotal: entry.monthly_total,
+    total: entry.total
+  })),
+  leaseTotal: quote.lease_total,
+  projections: quote.projections || [],
+  rules: mapPricingRulesData(quote.rules),
+  comparables: (quote.comparables || []).map((listing: any) => ({
+    id: listing.id,
+    title: listing.title,
+    location: listing.location,
+    category: listing.category,
+    price: listing.price,
+    areaSqft: listing.area_sqft,
+    ratePerSqft: listing.rate_per_sqft,
+    ratePerSeat: listing.rate_per_seat
+  })),
+  generatedAt: quote.generated_at
+});
+
+/**
+ * Maps a backend saved comparison to the frontend SavedComparison shape
+ */
+export const mapSavedComparisonData = (comparison: any): SavedComparison => ({
+  id: comparison.id,
+  shareId: comparison.share_id,
+  title: comparison.title || undefined,
+  propertyIds: comparison.property_ids || [],
+  weights: comparison.weights,
+  preferences: comparison.preferences || {},
+  viewCount: comparison.view_count || 0,
+  createdAt: comparison.created_at
+});
+
+export const mapSharedComparisonData = (shared: any): SharedComparison => ({
+  comparison: mapSavedComparisonData(shared.comparison),
+  properties: (shared.properties || []).map(mapPropertyData),
+  scores: shared.scores || []
+});
+
+/**
+ * Maps a backend recommendation response to the frontend RecommendationSet shape
+ */
+export const mapRecommendationsData = (result: any): RecommendationSet => ({
+  strategy: result.strategy === 'personalized' ? 'personalized' : 'popular',
+  recommendations: (result.recommendations || []).map((recommendation: any) => ({
+    property: mapPropertyData(recommendation.property),
+    score: recommendation.score,
+    reasons: recommendation.reasons || [],
+    signals: recommendation.signals || { content: 0, collaborative: 0, popularity: 0 }
+  })),
+  generatedAt: result.generated_at
+});
+
+/**
+ * Maps a backend nearby-places response to one PropertyNeighbourhood per property
+ */
+export const mapNearbyPoisData = (result: any): PropertyNeighbourhood[] =>
+  (result.properties || []).map((neighbourhood: any) => ({
+    propertyId: neighbourhood.property_id,
+    located: neighbourhood.located === true,
+    radiusMeters: result.radius_m,
+    counts: neighbourhood.counts || {},
+    pois: (neighbourhood.pois || []).map((poi: any) => ({
+      id: poi.id,
+      category: poi.category,
+      name: poi.name,
+      latitude: poi.latitude,
+      longitude: poi.longitude,
+      distanceMeters: poi.distance_m,
+      walkMinutes: poi.walk_minutes
+    }))
+  }));
+
+export const mapPoiImportSummaryData = (summary: any): PoiImportSummary => ({
+  source: summary.source,
+  format: summary.format,
+  received: summary.received,
+  inserted: summary.inserted,
+  updated: summary.updated,
+  skipped: {
+    noCategory: summary.skipped?.no_category || 0,
+    noCoordinates: summary.skipped?.no_coordinates || 0,
+    duplicate: summary.skipped?.duplicate || 0
+  },
+  byCategory: summary.by_category || {}
+});
+
+/**
+ * Groups the backend's per-source, per-category rows into one entry per source
+ */
+export const mapPoiStatsData = (rows: any[]): PoiSourceStats[] => {
+  const sources = new Map<string, PoiSourceStats>();
+  (rows || []).forEach(row => {
+    const stats: PoiSourceStats = sources.get(row.source) || { source: row.source, counts: {}, total: 0, lastImportedAt: row.last_imported_at };
+    stats.counts[row.category as PoiCategory] = row.count;
+    stats.total += row.count;
+    if (row.last_imported_at > stats.lastImportedAt) stats.lastImportedAt = row.last_imported_at;
+    sources.set(row.source, stats);
+  });
+  return [...sources.values()];
+};
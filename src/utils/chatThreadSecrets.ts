@@ -0,0 +1,26 @@
+/**
+ * Chat threads started signed out are bound to a secret the backend issues with their first
+ * message. It is kept for the browser session and sent with every later message of the thread,
+ * which also moves the thread to the user's account once they sign in.
+ */
+
+const SECRET_HEADER = 'X-Chat-Thread-Secret';
+const STORAGE_PREFIX = 'chat-thread-secret:';
+
+/**
+ * Header carrying the thread's secret, if this session holds one
+ */
+export const chatThreadSecretHeaders = (threadId?: string): Record<string, string> => {
+  const secret = threadId ? sessionStorage.getItem(`${STORAGE_PREFIX}${threadId}`) : null;
+  return secret ? { [SECRET_HEADER]: secret } : {};
+};
+
+/**
+ * Keep the secret a chat response issued for a newly started thread
+ */
+export const rememberChatThreadSecret = (threadId: string | undefined, response: Response): void => {
+  const secret = response.headers.get(SECRET_HEADER);
+  if (threadId && secret) {
+    sessionStorage.setItem(`${STORAGE_PREFIX}${threadId}`, secret);
+  }
+};
@@ -0,0 +1,45 @@
+/**
+ * Import Report Export
+ * CSV download of a scraper import batch's per-row report
+ */
+
+import { BulkImportResult } from '@/types/scraper';
+
+const STATUS_LABELS: Record<string, string> = {
+  imported: 'Imported',
+  failed: 'Failed',
+  skipped: 'Skipped (likely duplicate)',
+  rolled_back: 'Rolled back'
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const importReportToCsv = (result: BulkImportResult): string => {
+  const rows: Array<Array<string | number>> = [
+    ['Row', 'Title', 'Source URL', 'Status', 'Property ID', 'Error', 'Duplicate of'],
+    ...result.report.map(row => [
+      row.index + 1,
+      row.title,
+      row.sourceUrl,
+      STATUS_LABELS[row.status] || row.status,
+      row.propertyId || '',
+      row.error || '',
+      (row.duplicateOf || []).join(' ')
+    ])
+  ];
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const downloadImportReportCsv = (result: BulkImportResult) => {
+  const blob = new Blob([importReportToCsv(result)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `import-report-${result.batchId}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,164 @@
+/**
+ * Quote Export
+ * CSV download and printable (save-as-PDF) version of a budget calculator quote
+ */
+
+import { BudgetQuote } from '@/types/pricing';
+
+const SPACE_TYPE_LABELS: Record<string, string> = {
+  office: 'Private Office',
+  'co-working': 'Co-working Space',
+  'meeting-room': 'Meeting Rooms'
+};
+
+const RATE_BASIS_LABELS: Record<string, string> = {
+  micro_market: 'Listings of this category in the micro-market',
+  category: 'Listings of this category across the city (too few in the micro-market)',
+  micro_market_all: 'All listings in the micro-market (too few of this category)',
+  default: 'Standard rate (no comparable listings yet)'
+};
+
+export const describeRateBasis = (basis: string) => RATE_BASIS_LABELS[basis] || basis;
+
+const titleCase = (value: string) => value.replace(/\b\w/g, letter => letter.toUpperCase());
+
+const formatInr = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(amount);
+
+const quoteFileName = (quote: BudgetQuote, extension: string) =>
+  `budget-quote-${quote.microMarket.replace(/\s+/g, '-')}-${quote.generatedAt.split('T')[0]}.${extension}`;
+
+/**
+ * Label/amount lines shared by both formats
+ */
+const quoteLines = (quote: BudgetQuote) => {
+  const { monthly, rules } = quote;
+  return [
+    ['Base rent', monthly.baseRent],
+    [`Maintenance (${rules.maintenancePercent}% of rent)`, monthly.maintenance],
+    ['Utilities', monthly.utilities],
+    ['Amenities', monthly.amenities],
+    [`GST (${rules.gstPercent}%)`, monthly.gst],
+    ['Monthly total', monthly.total]
+  ] as Array<[string, number]>;
+};
+
+/**
+ * Quoted when needed. Text that a spreadsheet would read as a formula (=, +, -, @, or a
+ * leading tab/carriage return) gets a leading apostrophe so it stays text
+ */
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const quoteToCsv = (quote: BudgetQuote): string => {
+  const rows: Array<Array<string | number>> = [
+    ['Budget quote', new Date(quote.generatedAt).toLocaleDateString('en-IN')],
+    ['Micro-market', titleCase(quote.microMarket)],
+    ['Space type', SPACE_TYPE_LABELS[quote.spaceType] || quote.spaceType],
+    ['Team size', quote.teamSize],
+    ['Lease (months)', quote.durationMonths],
+    [],
+    ['Rate per seat (INR/month)', quote.rate.perSeat],
+    ['Rate per sqft (INR/month)', quote.rate.perSqft],
+    ['Rate basis', describeRateBasis(quote.rate.basis)],
+    ['Comparable listings', quote.rate.sampleSize],
+    [],
+    ['Monthly cost (first year)', 'INR'],
+    ...quoteLines(quote),
+    [],
+    [`Security deposit (${quote.rules.depositMonths} months rent)`, quote.securityDeposit],
+    [],
+    ['Lease year', 'Months', 'Monthly total', 'Year total'],
+    ...quote.schedule.map(entry => [entry.year, entry.months, entry.monthlyTotal, entry.total]),
+    ['Lease total', '', '', quote.leaseTotal],
+    [],
+    ['Comparable', 'Location', 'Rent (INR/month)', 'Area (sqft)', 'Rate per sqft', 'Rate per seat'],
+    ...quote.comparables.map(listing => [
+      listing.title, listing.location, listing.price, listing.areaSqft, listing.ratePerSqft, listing.ratePerSeat
+    ])
+  ];
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+const download = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadQuoteCsv = (quote: BudgetQuote) => {
+  download(quoteToCsv(quote), 'text/csv;charset=utf-8', quoteFileName(quote, 'csv'));
+};
+
+const escapeHtml = (value: string | number) =>
+  String(value).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const quoteHtml = (quote: BudgetQuote) => {
+  const row = (cells: Array<string | number>, tag = 'td') =>
+    `<tr>${cells.map(cell => `<${tag}>${escapeHtml(cell)}</${tag}>`).join('')}</tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<title>${escapeHtml(quoteFileName(quote, 'pdf'))}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #111827; margin: 32px; font-size: 13px; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  h2 { font-size: 15px; margin-top: 24px; }
+  p { color: #4b5563; margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  th { color: #6b7280; font-weight: 600; }
+  table.totals tr:last-child td { font-weight: 600; }
+</style>
+</head>
+<body>
+  <h1>Office Space Budget Quote</h1>
+  <p>${escapeHtml(SPACE_TYPE_LABELS[quote.spaceType] || quote.spaceType)} in ${escapeHtml(titleCase(quote.microMarket))}
+    for ${quote.teamSize} people, ${quote.durationMonths} month lease</p>
+  <p>Prepared ${escapeHtml(new Date(quote.generatedAt).toLocaleDateString('en-IN'))}</p>
+
+  <h2>Monthly cost (first year)</h2>
+  <table class="totals">${quoteLines(quote).map(([label, amount]) => row([label, formatInr(amount)])).join('')}</table>
+  <p>Security deposit (${quote.rules.depositMonths} months rent): ${escapeHtml(formatInr(quote.securityDeposit))}</p>
+
+  <h2>Lease schedule (${quote.rules.escalationPercent}% yearly escalation)</h2>
+  <table class="totals">
+    ${row(['Year', 'Months', 'Monthly total', 'Year total'], 'th')}
+    ${quote.schedule.map(entry => row([entry.year, entry.months, formatInr(entry.monthlyTotal), formatInr(entry.total)])).join('')}
+    ${row(['Lease total', '', '', formatInr(quote.leaseTotal)])}
+  </table>
+
+  <h2>Rate basis</h2>
+  <p>${escapeHtml(formatInr(quote.rate.perSeat))} per seat (${escapeHtml(formatInr(quote.rate.perSqft))} per sqft):
+    ${escapeHtml(describeRateBasis(quote.rate.basis))}, ${quote.rate.sampleSize} listings.</p>
+  ${quote.comparables.length > 0 ? `<table>
+    ${row(['Comparable listing', 'Location', 'Rent / month', 'Area', 'Per sqft'], 'th')}
+    ${quote.comparables.map(listing => row([
+      listing.title, listing.location, formatInr(listing.price), `${listing.areaSqft} sqft`, formatInr(listing.ratePerSqft)
+    ])).join('')}
+  </table>` : ''}
+</body>
+</html>`;
+};
+
+/**
+ * Open the quote in a print window, where it can be saved as PDF
+ */
+export const printQuote = (quote: BudgetQuote): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(quoteHtml(quote));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};